@@ -7,6 +7,9 @@
  * Error feedback is passed through URL search params:
  *   /login?error=invalid_credentials&remaining=3
  *
+ * Accounts with a second factor land on /login?step=mfa after the password
+ * check; the pending challenge id lives in an httpOnly cookie.
+ *
  * Layout:
  * - Left panel (desktop): Brand imagery + tagline
  * - Right panel (all views): Login form, OAuth buttons, error feedback
@@ -18,8 +21,10 @@
  */
 
 import { redirect } from "next/navigation";
-import { login } from "@/lib/auth";
+import { completeMfaLogin, login } from "@/lib/auth";
+import { getLoginChallenge, getPendingLoginChallenge, type MfaChallengeStart } from "@/lib/auth/mfa-service";
 import type { AuthResult } from "@/lib";
+import { PasskeyButton } from "./passkey-button";
 
 // ─── Server Action ────────────────────────────────────────────────────────────
 
@@ -41,14 +46,55 @@ async function handleLogin(formData: FormData): Promise<void> {
     redirect("/dashboard");
   }
 
-  // Encode error in URL params for stateless feedback
+  // Password accepted; login() stored the pending challenge in a cookie
+  if (result.error === "mfa_required") {
+    redirect("/login?step=mfa");
+  }
+
+  redirect(`/login?${errorParams(result).toString()}`);
+}
+
+/**
+ * Processes the second-factor form (authenticator code or recovery code).
+ * Wrong codes return to the second-factor step; a stale or locked-out
+ * challenge sends the user back to the password form.
+ */
+async function handleMfa(formData: FormData): Promise<void> {
+  "use server";
+
+  const code = (formData.get("code") as string | null)?.trim() ?? "";
+  const recoveryCode = (formData.get("recovery-code") as string | null)?.trim() ?? "";
+
+  const result = await completeMfaLogin(recoveryCode ? { recoveryCode } : { code });
+
+  if (result.success) {
+    redirect("/dashboard");
+  }
+
+  const params = errorParams(result);
+  if (result.error === "mfa_invalid") {
+    params.set("step", "mfa");
+  } else if (result.error === "too_many_attempts") {
+    params.set("error", "account_locked");
+  } else if (result.error === "challenge_invalid" || result.error === "challenge_expired") {
+    params.set("error", "token_expired");
+  }
+  redirect(`/login?${params.toString()}`);
+}
+
+/** Encode an auth failure in URL params for stateless feedback */
+function errorParams(result: {
+  error?: string;
+  attemptsRemaining?: number;
+  lockedUntil?: string;
+}): URLSearchParams {
   const params = new URLSearchParams();
   if (result.error) params.set("error", result.error);
   if (result.attemptsRemaining !== undefined) {
     params.set("remaining", String(result.attemptsRemaining));
   }
   if (result.lockedUntil) params.set("lockedUntil", result.lockedUntil);
-  redirect(`/login?${params.toString()}`);
+  return params;
 }
 
 // ─── Left Panel ───────────────────────────────────────────────────────────────
@@ -280,6 +326,90 @@ function LoginForm({ authResult }: Readonly<{ authResult?: AuthResult }>) {
   );
 }
 
+// ─── Second Factor Form ───────────────────────────────────────────────────────
+
+function MfaForm({
+  challenge,
+  authResult,
+}: Readonly<{ challenge: MfaChallengeStart; authResult?: AuthResult }>) {
+  const hasError = authResult && !authResult.success;
+  const attemptsText =
+    hasError && authResult.attemptsRemaining !== undefined && authResult.attemptsRemaining > 0
+      ? `${authResult.attemptsRemaining} attempt${authResult.attemptsRemaining === 1 ? "" : "s"} remaining.`
+      : null;
+  const hasTotp = challenge.methods.includes("totp");
+
+  return (
+    <div className="mt-8 space-y-6">
+      {challenge.webauthnOptions && <PasskeyButton options={challenge.webauthnOptions} />}
+
+      <form action={handleMfa} className="space-y-6">
+        {hasTotp && (
+          <div>
+            <label className="block text-sm font-medium text-slate-700" htmlFor="code">
+              Authenticator code
+            </label>
+            <div className="mt-1">
+              <input
+                autoComplete="one-time-code"
+                autoFocus
+                className="block w-full rounded-lg border border-slate-300 shadow-sm sm:text-sm py-3 px-4 tracking-widest placeholder-slate-400 focus:border-teal-soft focus:ring-2 focus:ring-teal-soft/20 transition-colors"
+                id="code"
+                inputMode="numeric"
+                maxLength={6}
+                name="code"
+                pattern="[0-9]{6}"
+                placeholder="123456"
+                type="text"
+                aria-describedby={hasError ? "login-error" : undefined}
+              />
+            </div>
+          </div>
+        )}
+
+        <details className="text-sm" open={!hasTotp && !challenge.webauthnOptions}>
+          <summary className="cursor-pointer font-medium text-teal-soft hover:text-teal-dark">
+            Use a recovery code instead
+          </summary>
+          <div className="mt-3">
+            <label className="block text-sm font-medium text-slate-700" htmlFor="recovery-code">
+              Recovery code
+            </label>
+            <input
+              autoComplete="off"
+              className="mt-1 block w-full rounded-lg border border-slate-300 shadow-sm sm:text-sm py-3 px-4 placeholder-slate-400 focus:border-teal-soft focus:ring-2 focus:ring-teal-soft/20 transition-colors"
+              id="recovery-code"
+              name="recovery-code"
+              placeholder="xxxxx-xxxxx"
+              type="text"
+            />
+          </div>
+        </details>
+
+        {hasError && authResult.errorMessage && (
+          <ErrorBanner
+            lockedUntil={authResult.lockedUntil}
+            message={`${authResult.errorMessage}${attemptsText ? ` ${attemptsText}` : ""}`}
+          />
+        )}
+
+        <button
+          className="group relative flex w-full justify-center rounded-lg bg-teal-700 px-4 py-3 text-sm font-semibold text-white hover:bg-teal-800 focus:outline-none focus:ring-2 focus:ring-teal-700/40 focus:ring-offset-2 shadow-sm transition-all duration-200"
+          type="submit"
+        >
+          Verify
+        </button>
+      </form>
+
+      <p className="text-center text-sm text-slate-500">
+        <a className="font-medium text-teal-soft hover:text-teal-dark transition-colors" href="/login">
+          Start over
+        </a>
+      </p>
+    </div>
+  );
+}
+
 // ─── Main Page ─────────────────────────────────────────────────────────────────
 
 interface PageProps {
@@ -292,7 +422,9 @@ type AuthErrorCode =
   | "account_locked"
   | "account_disabled"
   | "service_unavailable"
-  | "email_not_verified";
+  | "email_not_verified"
+  | "mfa_invalid"
+  | "token_expired";
 
 /**
  * Parse error search params into AuthResult for error display.
@@ -320,6 +452,8 @@ function parseErrorParams(params: Record<string, string | string[] | undefined>)
     account_disabled: "This account has been disabled. Please contact support.",
     service_unavailable: "We’re having trouble connecting right now. Please try again in a moment.",
     email_not_verified: "Please verify your email before logging in.",
+    mfa_invalid: "That code didn't work. Please try again.",
+    token_expired: "This sign-in attempt expired. Please log in again.",
   };
   
   const error = errorStr as AuthErrorCode;
@@ -341,11 +475,17 @@ function parseErrorParams(params: Record<string, string | string[] | undefined>)
  *   2. Calls production auth service
  *   3. On success: sets httpOnly cookies, redirects to /dashboard
  *   4. On failure: redirects back with error params for feedback
+ *
+ * With ?step=mfa and a live pending challenge, the second-factor form
+ * replaces the password form.
  */
 export default async function LoginPage({ searchParams }: Readonly<PageProps>) {
   const params = await searchParams;
   const authResult = parseErrorParams(params);
 
+  const pendingChallengeId = params.step === "mfa" ? await getPendingLoginChallenge() : undefined;
+  const mfaChallenge = pendingChallengeId ? await getLoginChallenge(pendingChallengeId) : null;
+
   return (
     <>
       <div className="bg-background-light text-slate-900 antialiased h-screen w-full flex overflow-hidden">
@@ -367,17 +507,27 @@ export default async function LoginPage({ searchParams }: Readonly<PageProps>) {
 
           {/* Heading */}
           <div className="text-center lg:text-left">
-            <h1 className="text-3xl font-bold text-slate-900 tracking-tight">Welcome back</h1>
+            <h1 className="text-3xl font-bold text-slate-900 tracking-tight">
+              {mfaChallenge ? "Two-step verification" : "Welcome back"}
+            </h1>
             <p className="mt-2 text-sm text-slate-500">
-              Please enter your details to access your dashboard.
+              {mfaChallenge
+                ? "Confirm it's you with your authenticator app, passkey or a recovery code."
+                : "Please enter your details to access your dashboard."}
             </p>
           </div>
 
           {/* Form */}
-          <LoginForm authResult={authResult} />
-
-          {/* OAuth */}
-          <OAuthButtons />
+          {mfaChallenge ? (
+            <MfaForm authResult={authResult} challenge={mfaChallenge} />
+          ) : (
+            <>
+              <LoginForm authResult={authResult} />
+
+              {/* OAuth */}
+              <OAuthButtons />
+            </>
+          )}
 
           {/* Sign-up link */}
           <div className="flex items-center justify-center mt-8">
@@ -0,0 +1,72 @@
+"use client";
+
+/**
+ * PasskeyButton
+ *
+ * Second-factor step of the login page for users with a passkey.  Runs the
+ * browser's WebAuthn prompt against the pending login challenge and posts
+ * the assertion to /api/auth/mfa/challenge (the challenge id travels in
+ * the httpOnly mfa_challenge cookie).
+ */
+
+import { useEffect, useState } from "react";
+import type { AuthenticationOptionsJSON } from "@/lib/auth/webauthn";
+import { getPasskeyAssertion, isWebAuthnSupported } from "@/lib/auth/webauthn-browser";
+
+export function PasskeyButton({ options }: Readonly<{ options: AuthenticationOptionsJSON }>) {
+  const [isSupported, setIsSupported] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Checked after mount so server and client render the same markup
+  useEffect(() => {
+    setIsSupported(isWebAuthnSupported());
+  }, []);
+
+  async function handleClick() {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const credential = await getPasskeyAssertion(options);
+      const response = await fetch("/api/auth/mfa/challenge", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ credential }),
+      });
+      if (response.ok) {
+        window.location.assign("/dashboard");
+        return;
+      }
+      const data = (await response.json().catch(() => ({}))) as { message?: string };
+      setError(data.message ?? "We couldn't verify that passkey.");
+    } catch {
+      setError("Passkey sign-in was cancelled or is not available on this device.");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  if (!isSupported) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <button
+        className="inline-flex w-full justify-center items-center gap-2 rounded-lg border border-slate-200 bg-white px-4 py-3 text-sm font-semibold text-slate-700 shadow-sm hover:bg-slate-50 transition-colors disabled:opacity-60"
+        disabled={isBusy}
+        onClick={handleClick}
+        type="button"
+      >
+        <span className="material-symbols-outlined text-xl">passkey</span>
+        {isBusy ? "Waiting for your passkey…" : "Use a passkey"}
+      </button>
+      {error && (
+        <p className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
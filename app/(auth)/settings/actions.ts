@@ -3,9 +3,22 @@
 import { revalidatePath } from "next/cache";
 import { redirect } from "next/navigation";
 import { z } from "zod";
-import { requireAuth } from "@/lib/auth";
-import { getDb } from "@/lib/persistence";
+import { audit, requireAuth } from "@/lib/auth";
+import { getDb, runInTransaction } from "@/lib/persistence";
 import { ensureParentExists } from "@/lib/parent-setup-engine";
+import { canonicalTimeZone } from "@/lib/custody";
+import { generateFeedTokenSecret } from "@/lib/calendar/feed-tokens";
+import { isHolidayJurisdiction } from "@/lib/holiday-rules";
+import { logEvent } from "@/lib/observability/logger";
+import {
+  MAX_LEAD_MINUTES,
+  MIN_LEAD_MINUTES,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_EVENT_TYPES,
+  NOTIFICATION_TYPES,
+  parseTimeOfDay,
+} from "@/lib/notification-preferences";
+import type { DbNotificationPreference } from "@/lib/persistence/types";
 
 const profileSchema = z.object({
   fullName: z.string().trim().min(1, "Full name is required").max(120, "Full name is too long"),
@@ -23,8 +36,48 @@ const addCoParentSchema = z.object({
   inviteName: z.string().trim().min(1, "Name is required").max(120),
   inviteEmail: z.string().trim().toLowerCase().email("Enter a valid email address"),
   invitePhone: z.string().trim().max(32).optional(),
+  inviteCaregiverRole: z.enum(["parent", "step_parent", "grandparent", "guardian", "other"]).default("parent"),
 });
 
+const notificationTypePreferenceSchema = z
+  .object({
+    enabled: z.boolean(),
+    channels: z.array(z.enum(NOTIFICATION_CHANNELS)),
+    leadMinutes: z.coerce
+      .number()
+      .int("Lead times must be whole minutes")
+      .min(MIN_LEAD_MINUTES, `Lead times must be at least ${MIN_LEAD_MINUTES} minutes`)
+      .max(MAX_LEAD_MINUTES, "Lead times can be at most one week"),
+  })
+  .refine((preference) => !preference.enabled || preference.channels.length > 0, {
+    message: "Choose at least one channel for each alert you keep on.",
+  });
+
+const notificationEventPreferenceSchema = z
+  .object({
+    enabled: z.boolean(),
+    channels: z.array(z.enum(NOTIFICATION_CHANNELS)),
+  })
+  .refine((preference) => !preference.enabled || preference.channels.length > 0, {
+    message: "Choose at least one channel for each activity alert you keep on.",
+  });
+
+const digestHourSchema = z.coerce
+  .number()
+  .int("Choose a summary time on the hour")
+  .min(0, "Choose a valid summary time")
+  .max(23, "Choose a valid summary time");
+
+const timeOfDaySchema = z.string().refine((value) => parseTimeOfDay(value) !== null, {
+  message: "Use HH:MM for quiet hours",
+});
+
+const quietHoursSchema = z
+  .object({ start: timeOfDaySchema, end: timeOfDaySchema })
+  .refine((quietHours) => quietHours.start !== quietHours.end, {
+    message: "Quiet hours must start and end at different times.",
+  });
+
 function normalizePhone(input?: string): string | null {
   const trimmed = input?.trim() ?? "";
   if (!trimmed) {
@@ -56,6 +109,38 @@ function redirectWithMemberMessage(status: "success" | "error", message: string)
   redirect(`/settings?${params.toString()}#family`);
 }
 
+function redirectWithFeedMessage(status: "success" | "error", message: string): never {
+  const params = new URLSearchParams({
+    feedStatus: status,
+    feedMessage: message,
+  });
+  redirect(`/settings?${params.toString()}#calendar-feed`);
+}
+
+function redirectWithNotificationMessage(status: "success" | "error", message: string): never {
+  const params = new URLSearchParams({
+    notificationStatus: status,
+    notificationMessage: message,
+  });
+  redirect(`/settings?${params.toString()}#notifications`);
+}
+
+function redirectWithTimezoneMessage(status: "success" | "error", message: string): never {
+  const params = new URLSearchParams({
+    timezoneStatus: status,
+    timezoneMessage: message,
+  });
+  redirect(`/settings?${params.toString()}#timezone`);
+}
+
+function redirectWithHolidayMessage(status: "success" | "error", message: string): never {
+  const params = new URLSearchParams({
+    holidayStatus: status,
+    holidayMessage: message,
+  });
+  redirect(`/settings?${params.toString()}#holidays`);
+}
+
 export async function saveProfileSettingsAction(formData: FormData): Promise<void> {
   const user = await requireAuth();
   const db = getDb();
@@ -153,6 +238,7 @@ export async function addFamilyMemberAction(formData: FormData): Promise<void> {
       inviteName: formData.get("inviteName"),
       inviteEmail: formData.get("inviteEmail"),
       invitePhone: formData.get("invitePhone"),
+      inviteCaregiverRole: formData.get("inviteCaregiverRole") ?? undefined,
     });
 
     if (!parsed.success) {
@@ -188,6 +274,7 @@ export async function addFamilyMemberAction(formData: FormData): Promise<void> {
       email: parsed.data.inviteEmail,
       phone: normalizePhone(parsed.data.invitePhone) ?? undefined,
       role: "secondary",
+      caregiverRole: parsed.data.inviteCaregiverRole,
       status: "pending",
       token: crypto.randomUUID(),
       expiresAt,
@@ -205,3 +292,212 @@ export async function goToPhoneVerificationManagementAction(formData: FormData):
   const returnTo = sanitizeReturnFragment(returnToRaw);
   redirect(`/phone-verify?returnTo=${encodeURIComponent(returnTo)}`);
 }
+
+/**
+ * Revokes the caller's active calendar feed token (if any) and issues a new
+ * one.  Calendar apps subscribed to the old URL stop receiving updates.
+ */
+export async function rotateCalendarFeedTokenAction(): Promise<void> {
+  const user = await requireAuth();
+  const db = getDb();
+
+  const parent = await db.parents.findByUserId(user.userId);
+  if (!parent) {
+    redirectWithFeedMessage("error", "Set up your family before creating a calendar feed.");
+  }
+
+  // Revoke, replace and audit together so a failure never leaves the
+  // parent without a working link or with an unrecorded rotation
+  const revoked = await runInTransaction(async (txDb) => {
+    const revokedTokens = await txDb.calendarFeedTokens.revokeActiveByParentId(parent.id);
+    for (const token of revokedTokens) {
+      await txDb.auditLogs.create({
+        userId: user.userId,
+        action: "calendar.feed_token.revoke",
+        metadata: { tokenId: token.id, familyId: token.familyId, parentId: token.parentId, reason: "rotated" },
+      });
+    }
+
+    const created = await txDb.calendarFeedTokens.create({
+      familyId: parent.familyId,
+      parentId: parent.id,
+      secret: generateFeedTokenSecret(),
+      createdByUserId: user.userId,
+    });
+    await txDb.auditLogs.create({
+      userId: user.userId,
+      action: "calendar.feed_token.create",
+      metadata: { tokenId: created.id, familyId: created.familyId, parentId: created.parentId },
+    });
+    return revokedTokens;
+  });
+
+  revalidatePath("/settings");
+  redirectWithFeedMessage(
+    "success",
+    revoked.length > 0 ? "Calendar feed link rotated. Re-subscribe with the new link." : "Calendar feed link created.",
+  );
+}
+
+export async function revokeCalendarFeedTokenAction(): Promise<void> {
+  const user = await requireAuth();
+  const db = getDb();
+
+  const parent = await db.parents.findByUserId(user.userId);
+  if (!parent) {
+    redirectWithFeedMessage("error", "No calendar feed to revoke.");
+  }
+
+  const revoked = await db.calendarFeedTokens.revokeActiveByParentId(parent.id);
+  for (const token of revoked) {
+    await audit.log(
+      "calendar.feed_token.revoke",
+      { userId: user.userId },
+      { tokenId: token.id, familyId: token.familyId, parentId: token.parentId, reason: "revoked" }
+    );
+  }
+
+  revalidatePath("/settings");
+  redirectWithFeedMessage(
+    "success",
+    revoked.length > 0 ? "Calendar feed link revoked." : "No active calendar feed link to revoke.",
+  );
+}
+
+/**
+ * Sets the family timezone custody handoffs are scheduled in, and the
+ * caller's own timezone for seeing them; a blank own timezone follows the
+ * family's.
+ */
+export async function saveTimezoneSettingsAction(formData: FormData): Promise<void> {
+  const user = await requireAuth();
+  const db = getDb();
+
+  const parent = await db.parents.findByUserId(user.userId);
+  if (!parent) {
+    redirectWithTimezoneMessage("error", "Set up your family before choosing a timezone.");
+  }
+
+  const familyTimezone = canonicalTimeZone(String(formData.get("familyTimezone") ?? ""));
+  if (!familyTimezone) {
+    redirectWithTimezoneMessage("error", "Choose a family timezone such as America/New_York.");
+  }
+  const ownInput = String(formData.get("parentTimezone") ?? "").trim();
+  const parentTimezone = ownInput ? canonicalTimeZone(ownInput) : null;
+  if (ownInput && !parentTimezone) {
+    redirectWithTimezoneMessage("error", "Choose your timezone such as Europe/London, or leave it blank.");
+  }
+
+  await db.families.update(parent.familyId, { timezone: familyTimezone });
+  await db.parents.update(parent.id, { timezone: parentTimezone });
+  logEvent("info", "family.timezone_changed", {
+    familyId: parent.familyId,
+    parentId: parent.id,
+    familyTimezone,
+    parentTimezone,
+  });
+
+  revalidatePath("/settings");
+  revalidatePath("/calendar");
+  revalidatePath("/dashboard");
+  redirectWithTimezoneMessage("success", `Handoffs are now scheduled in ${familyTimezone}.`);
+}
+
+/**
+ * Sets the holiday calendar (jurisdiction) the family's holiday custody
+ * rules follow, e.g. "US" or "US-CA".
+ */
+export async function saveHolidayJurisdictionAction(formData: FormData): Promise<void> {
+  const user = await requireAuth();
+  const db = getDb();
+
+  const parent = await db.parents.findByUserId(user.userId);
+  if (!parent) {
+    redirectWithHolidayMessage("error", "Set up your family before choosing a holiday calendar.");
+  }
+
+  const jurisdiction = String(formData.get("holidayJurisdiction") ?? "").trim().toUpperCase();
+  if (!isHolidayJurisdiction(jurisdiction)) {
+    redirectWithHolidayMessage("error", "Use a country code such as US, or a country and region such as US-CA.");
+  }
+
+  await db.families.update(parent.familyId, { holidayJurisdiction: jurisdiction });
+  logEvent("info", "family.holiday_jurisdiction_changed", { familyId: parent.familyId, jurisdiction });
+
+  revalidatePath("/settings");
+  revalidatePath("/calendar");
+  redirectWithHolidayMessage("success", `Holiday rules now follow the ${jurisdiction} holiday calendar.`);
+}
+
+/**
+ * Saves which transition alerts the caller receives, over which channels and
+ * how far ahead, their activity alerts and daily summary, plus quiet hours.
+ */
+export async function saveNotificationPreferencesAction(formData: FormData): Promise<void> {
+  const user = await requireAuth();
+  const db = getDb();
+
+  const parent = await db.parents.findByUserId(user.userId);
+  if (!parent) {
+    redirectWithNotificationMessage("error", "Set up your family before choosing notification preferences.");
+  }
+
+  const types: DbNotificationPreference["types"] = {};
+  for (const type of NOTIFICATION_TYPES) {
+    const parsed = notificationTypePreferenceSchema.safeParse({
+      enabled: formData.get(`${type}.enabled`) === "on",
+      channels: formData.getAll(`${type}.channels`),
+      leadMinutes: formData.get(`${type}.leadMinutes`),
+    });
+    if (!parsed.success) {
+      redirectWithNotificationMessage("error", parsed.error.issues[0]?.message ?? "Invalid notification settings.");
+    }
+    types[type] = parsed.data;
+  }
+
+  const events: NonNullable<DbNotificationPreference["events"]> = {};
+  for (const type of NOTIFICATION_EVENT_TYPES) {
+    const parsed = notificationEventPreferenceSchema.safeParse({
+      enabled: formData.get(`${type}.enabled`) === "on",
+      channels: formData.getAll(`${type}.channels`),
+    });
+    if (!parsed.success) {
+      redirectWithNotificationMessage("error", parsed.error.issues[0]?.message ?? "Invalid notification settings.");
+    }
+    events[type] = parsed.data;
+  }
+
+  let digestHour: number | undefined;
+  if (formData.get("digestEnabled") === "on") {
+    const parsed = digestHourSchema.safeParse(formData.get("digestHour"));
+    if (!parsed.success) {
+      redirectWithNotificationMessage("error", parsed.error.issues[0]?.message ?? "Invalid summary time.");
+    }
+    digestHour = parsed.data;
+  }
+
+  let quietHours: { start: string; end: string } | undefined;
+  if (formData.get("quietHoursEnabled") === "on") {
+    const parsed = quietHoursSchema.safeParse({
+      start: formData.get("quietHoursStart"),
+      end: formData.get("quietHoursEnd"),
+    });
+    if (!parsed.success) {
+      redirectWithNotificationMessage("error", parsed.error.issues[0]?.message ?? "Invalid quiet hours.");
+    }
+    quietHours = parsed.data;
+  }
+
+  await db.notificationPreferences.upsert({
+    parentId: parent.id,
+    familyId: parent.familyId,
+    types,
+    events,
+    quietHoursStart: quietHours?.start,
+    quietHoursEnd: quietHours?.end,
+    digestHour,
+  });
+
+  revalidatePath("/settings");
+  redirectWithNotificationMessage("success", "Notification preferences saved.");
+}
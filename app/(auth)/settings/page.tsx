@@ -7,12 +7,34 @@
 import { requireAuth } from "@/lib/auth";
 import { getDb } from "@/lib/persistence";
 import Link from "next/link";
-import type { DbParent, DbChild, DbParentInvitation } from "@/lib/persistence/types";
+import type {
+  DbParent,
+  DbChild,
+  DbParentInvitation,
+  DbCalendarFeedToken,
+  DbNotificationPreference,
+} from "@/lib/persistence/types";
 import { ConflictWindowSettings } from "@/components/conflict-window-settings";
 import { ProfileSettingsForm } from "@/components/settings/profile-settings-form";
 import { FamilyManagementCard } from "@/components/settings/family-management-card";
 import { SecurityManagementCard } from "@/components/settings/security-management-card";
-import { addFamilyMemberAction, saveProfileSettingsAction } from "./actions";
+import { MfaSettingsCard } from "@/components/settings/mfa-settings-card";
+import { CalendarFeedCard } from "@/components/settings/calendar-feed-card";
+import { NotificationPreferencesCard } from "@/components/settings/notification-preferences-card";
+import { HolidayCalendarCard } from "@/components/settings/holiday-calendar-card";
+import { TimezoneSettingsCard } from "@/components/settings/timezone-settings-card";
+import { encodeFeedToken } from "@/lib/calendar/feed-tokens";
+import { resolveNotificationPreferences } from "@/lib/notification-preferences";
+import { DEFAULT_HOLIDAY_JURISDICTION } from "@/lib/holiday-rules";
+import {
+  addFamilyMemberAction,
+  revokeCalendarFeedTokenAction,
+  rotateCalendarFeedTokenAction,
+  saveHolidayJurisdictionAction,
+  saveNotificationPreferencesAction,
+  saveProfileSettingsAction,
+  saveTimezoneSettingsAction,
+} from "./actions";
 
 export const metadata = {
   title: "Settings — KidSchedule",
@@ -80,6 +102,15 @@ export default async function SettingsPage({ searchParams }: Readonly<SettingsPa
   const conflictWindowMins = await getConflictWindowValue();
 
   const otherParents = parents.filter((p) => p.userId !== user.userId);
+  const currentParent = parents.find((p) => p.userId === user.userId);
+
+  let feedToken: DbCalendarFeedToken | null = null;
+  let storedNotificationPreferences: DbNotificationPreference | null = null;
+  if (currentParent) {
+    feedToken = await db.calendarFeedTokens.findActiveByParentId(currentParent.id);
+    storedNotificationPreferences = await db.notificationPreferences.findByParentId(currentParent.id);
+  }
+  const notificationPreferences = resolveNotificationPreferences(storedNotificationPreferences);
 
   const profileStatus =
     typeof params?.profileStatus === "string" && (params.profileStatus === "success" || params.profileStatus === "error")
@@ -93,6 +124,33 @@ export default async function SettingsPage({ searchParams }: Readonly<SettingsPa
       : undefined;
   const memberMessage = typeof params?.memberMessage === "string" ? params.memberMessage : undefined;
 
+  const feedStatus =
+    typeof params?.feedStatus === "string" && (params.feedStatus === "success" || params.feedStatus === "error")
+      ? params.feedStatus
+      : undefined;
+  const feedMessage = typeof params?.feedMessage === "string" ? params.feedMessage : undefined;
+
+  const notificationStatus =
+    typeof params?.notificationStatus === "string" &&
+    (params.notificationStatus === "success" || params.notificationStatus === "error")
+      ? params.notificationStatus
+      : undefined;
+  const notificationMessage =
+    typeof params?.notificationMessage === "string" ? params.notificationMessage : undefined;
+
+  const timezoneStatus =
+    typeof params?.timezoneStatus === "string" &&
+    (params.timezoneStatus === "success" || params.timezoneStatus === "error")
+      ? params.timezoneStatus
+      : undefined;
+  const timezoneMessage = typeof params?.timezoneMessage === "string" ? params.timezoneMessage : undefined;
+
+  const holidayStatus =
+    typeof params?.holidayStatus === "string" && (params.holidayStatus === "success" || params.holidayStatus === "error")
+      ? params.holidayStatus
+      : undefined;
+  const holidayMessage = typeof params?.holidayMessage === "string" ? params.holidayMessage : undefined;
+
   return (
     <div className="flex min-h-screen flex-col bg-background-light dark:bg-background-dark">
       <main className="flex flex-1 justify-center py-8">
@@ -115,6 +173,15 @@ export default async function SettingsPage({ searchParams }: Readonly<SettingsPa
                 <span className="material-symbols-outlined">family_restroom</span>
                 <span>Family Members</span>
               </a>
+              {family && currentParent && (
+                <a
+                  className="flex items-center gap-3 rounded-lg px-4 py-3 text-slate-600 transition-colors hover:bg-primary/10 dark:text-slate-300"
+                  href="#timezone"
+                >
+                  <span className="material-symbols-outlined">schedule</span>
+                  <span>Timezone</span>
+                </a>
+              )}
               <a
                 className="flex items-center gap-3 rounded-lg px-4 py-3 text-slate-600 transition-colors hover:bg-primary/10 dark:text-slate-300"
                 href="#notifications"
@@ -136,6 +203,24 @@ export default async function SettingsPage({ searchParams }: Readonly<SettingsPa
                 <span className="material-symbols-outlined">credit_card</span>
                 <span>Subscription</span>
               </a>
+              {currentParent && (
+                <a
+                  className="flex items-center gap-3 rounded-lg px-4 py-3 text-slate-600 transition-colors hover:bg-primary/10 dark:text-slate-300"
+                  href="#calendar-feed"
+                >
+                  <span className="material-symbols-outlined">event_available</span>
+                  <span>Calendar Subscription</span>
+                </a>
+              )}
+              {family && (
+                <a
+                  className="flex items-center gap-3 rounded-lg px-4 py-3 text-slate-600 transition-colors hover:bg-primary/10 dark:text-slate-300"
+                  href="#holidays"
+                >
+                  <span className="material-symbols-outlined">celebration</span>
+                  <span>Holiday Calendar</span>
+                </a>
+              )}
               {family && (
                 <a
                   className="flex items-center gap-3 rounded-lg px-4 py-3 text-slate-600 transition-colors hover:bg-primary/10 dark:text-slate-300"
@@ -166,96 +251,42 @@ export default async function SettingsPage({ searchParams }: Readonly<SettingsPa
               submitAction={addFamilyMemberAction}
             />
 
-            {/* Notification Preferences Section */}
-            <section
-              className="overflow-hidden rounded-xl border border-slate-200 dark:border-slate-700 bg-white shadow-sm dark:bg-neutral-dark"
-              id="notifications"
-            >
-              <div className="border-b border-slate-200 dark:border-slate-700 p-6">
-                <h3 className="text-lg font-bold text-slate-600 dark:text-slate-900">Notification Preferences</h3>
-                <p className="text-sm text-slate-500">Configure how and when you receive alerts.</p>
-              </div>
-              <div className="flex flex-col gap-6 p-6">
-                <div className="space-y-4">
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <p className="font-semibold text-slate-600 dark:text-slate-900">Calendar Changes</p>
-                      <p className="text-xs text-slate-500">New events or schedule modifications</p>
-                    </div>
-                    <div className="flex gap-4">
-                      <label className="flex flex-col items-center gap-1">
-                        <input
-                          defaultChecked
-                          className="h-5 w-5 rounded text-primary focus:ring-primary"
-                          type="checkbox"
-                        />
-                        <span className="text-[10px] font-bold uppercase text-slate-500 dark:text-slate-400">Push</span>
-                      </label>
-                      <label className="flex flex-col items-center gap-1">
-                        <input
-                          defaultChecked
-                          className="h-5 w-5 rounded text-primary focus:ring-primary"
-                          type="checkbox"
-                        />
-                        <span className="text-[10px] font-bold uppercase text-slate-500 dark:text-slate-400">SMS</span>
-                      </label>
-                    </div>
-                  </div>
-                    <hr className="border-slate-200 dark:border-slate-700" />
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <p className="font-semibold text-slate-600 dark:text-slate-900">Expense Entries</p>
-                      <p className="text-xs text-slate-500">New shared expenses or payment requests</p>
-                    </div>
-                    <div className="flex gap-4">
-                      <label className="flex flex-col items-center gap-1">
-                        <input
-                          defaultChecked
-                          className="h-5 w-5 rounded text-primary focus:ring-primary"
-                          type="checkbox"
-                        />
-                        <span className="text-[10px] font-bold uppercase text-slate-500 dark:text-slate-400">Push</span>
-                      </label>
-                      <label className="flex flex-col items-center gap-1">
-                        <input
-                          className="h-5 w-5 rounded text-primary focus:ring-primary"
-                          type="checkbox"
-                        />
-                        <span className="text-[10px] font-bold uppercase text-slate-500 dark:text-slate-400">SMS</span>
-                      </label>
-                    </div>
-                  </div>
-                  <hr className="border-slate-200 dark:border-slate-700" />
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <p className="font-semibold text-red-500">Mediation Warnings</p>
-                      <p className="text-xs text-slate-500">AI-detected conflict in communications</p>
-                    </div>
-                    <div className="flex gap-4">
-                      <label className="flex flex-col items-center gap-1">
-                        <input
-                          defaultChecked
-                          className="h-5 w-5 rounded text-primary focus:ring-primary"
-                          type="checkbox"
-                        />
-                        <span className="text-[10px] font-bold uppercase text-slate-500 dark:text-slate-400">Push</span>
-                      </label>
-                      <label className="flex flex-col items-center gap-1">
-                        <input
-                          defaultChecked
-                          className="h-5 w-5 rounded text-primary focus:ring-primary"
-                          type="checkbox"
-                        />
-                        <span className="text-[10px] font-bold uppercase text-slate-500 dark:text-slate-400">SMS</span>
-                      </label>
-                    </div>
-                  </div>
-                </div>
-              </div>
-            </section>
+            {family && currentParent && (
+              <TimezoneSettingsCard
+                familyTimezone={family.timezone}
+                message={timezoneMessage}
+                parentTimezone={currentParent.timezone}
+                status={timezoneStatus}
+                submitAction={saveTimezoneSettingsAction}
+              />
+            )}
+
+            {currentParent && (
+              <NotificationPreferencesCard
+                message={notificationMessage}
+                preferences={notificationPreferences}
+                status={notificationStatus}
+                submitAction={saveNotificationPreferencesAction}
+                timeZone={currentParent.timezone ?? family?.timezone ?? "UTC"}
+              />
+            )}
 
             <SecurityManagementCard phone={profile?.phone} phoneVerified={Boolean(profile?.phoneVerified)} />
 
+            <MfaSettingsCard />
+
+            {currentParent && (
+              <CalendarFeedCard
+                createdAt={feedToken?.createdAt}
+                lastUsedAt={feedToken?.lastUsedAt}
+                message={feedMessage}
+                revokeAction={revokeCalendarFeedTokenAction}
+                rotateAction={rotateCalendarFeedTokenAction}
+                status={feedStatus}
+                urlToken={feedToken ? encodeFeedToken(feedToken) : undefined}
+              />
+            )}
+
             {/* Billing & Subscription Section */}
             <section
               className="mb-12 overflow-hidden rounded-xl border border-slate-200 dark:border-slate-700 bg-white shadow-sm dark:bg-neutral-dark"
@@ -331,6 +362,15 @@ export default async function SettingsPage({ searchParams }: Readonly<SettingsPa
               </div>
             </section>
 
+            {family && (
+              <HolidayCalendarCard
+                jurisdiction={family.holidayJurisdiction ?? DEFAULT_HOLIDAY_JURISDICTION}
+                message={holidayMessage}
+                status={holidayStatus}
+                submitAction={saveHolidayJurisdictionAction}
+              />
+            )}
+
             {/* Schedule Conflict Buffer Section */}
             {family && (
               <section
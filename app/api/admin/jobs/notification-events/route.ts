@@ -0,0 +1,85 @@
+/**
+ * POST /api/admin/jobs/notification-events
+ *
+ * Manually trigger the notification-events job: unread-message
+ * notifications and daily digest emails.
+ *
+ * Admin-only endpoint (requires authentication).
+ * Intended to be called hourly by the cron service.
+ */
+
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { getNotificationEventsJobConfig, runNotificationEventsJob } from "@/lib/jobs/notification-events";
+import { logEvent } from "@/lib/observability/logger";
+import { observeApiRequest } from "@/lib/observability/api-observability";
+import { getCurrentUser } from "@/lib/auth";
+
+export const runtime = "nodejs";
+
+const ROUTE = "/api/admin/jobs/notification-events";
+
+/**
+ * POST handler: Run the notification-events job
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const startedAt = Date.now();
+
+  const user = await getCurrentUser();
+  if (!user) {
+    observeApiRequest({ route: ROUTE, method: "POST", status: 401, durationMs: Date.now() - startedAt });
+    return NextResponse.json(
+      {
+        error: "UNAUTHORIZED",
+        message: "Authentication required",
+      },
+      { status: 401 }
+    );
+  }
+
+  // Optional override of the unread threshold for on-demand runs
+  const body = (await request.json().catch(() => ({}))) as { unreadAfterHours?: unknown };
+  const unreadAfterHours =
+    typeof body.unreadAfterHours === "number" && body.unreadAfterHours > 0
+      ? body.unreadAfterHours
+      : getNotificationEventsJobConfig().unreadAfterHours;
+
+  logEvent("info", "Triggering notification-events job", {
+    userId: user.userId,
+    unreadAfterHours,
+  });
+
+  const result = await runNotificationEventsJob(new Date(), unreadAfterHours);
+
+  observeApiRequest({
+    route: ROUTE,
+    method: "POST",
+    status: result.success ? 200 : 500,
+    durationMs: Date.now() - startedAt,
+  });
+
+  return NextResponse.json(result, {
+    status: result.success ? 200 : 500,
+  });
+}
+
+/**
+ * GET handler: Get job configuration
+ */
+export async function GET(): Promise<NextResponse> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(
+      {
+        error: "UNAUTHORIZED",
+        message: "Authentication required",
+      },
+      { status: 401 }
+    );
+  }
+
+  return NextResponse.json({
+    config: getNotificationEventsJobConfig(),
+    message: "Job is configured and ready to run",
+  });
+}
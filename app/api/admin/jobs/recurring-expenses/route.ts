@@ -0,0 +1,76 @@
+/**
+ * POST /api/admin/jobs/recurring-expenses
+ *
+ * Manually trigger the recurring-expenses job: create the expense rows for
+ * every recurring template occurrence that is due.
+ *
+ * Admin-only endpoint (requires authentication).
+ * Intended to be called daily by the cron service.
+ */
+
+import { NextResponse } from "next/server";
+import { getRecurringExpensesJobConfig, runRecurringExpensesJob } from "@/lib/jobs/recurring-expenses";
+import { logEvent } from "@/lib/observability/logger";
+import { observeApiRequest } from "@/lib/observability/api-observability";
+import { getCurrentUser } from "@/lib/auth";
+
+export const runtime = "nodejs";
+
+const ROUTE = "/api/admin/jobs/recurring-expenses";
+
+/**
+ * POST handler: Run the recurring-expenses job
+ */
+export async function POST(): Promise<NextResponse> {
+  const startedAt = Date.now();
+
+  const user = await getCurrentUser();
+  if (!user) {
+    observeApiRequest({ route: ROUTE, method: "POST", status: 401, durationMs: Date.now() - startedAt });
+    return NextResponse.json(
+      {
+        error: "UNAUTHORIZED",
+        message: "Authentication required",
+      },
+      { status: 401 }
+    );
+  }
+
+  logEvent("info", "Triggering recurring-expenses job", {
+    userId: user.userId,
+  });
+
+  const result = await runRecurringExpensesJob(new Date());
+
+  observeApiRequest({
+    route: ROUTE,
+    method: "POST",
+    status: result.success ? 200 : 500,
+    durationMs: Date.now() - startedAt,
+  });
+
+  return NextResponse.json(result, {
+    status: result.success ? 200 : 500,
+  });
+}
+
+/**
+ * GET handler: Get job configuration
+ */
+export async function GET(): Promise<NextResponse> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(
+      {
+        error: "UNAUTHORIZED",
+        message: "Authentication required",
+      },
+      { status: 401 }
+    );
+  }
+
+  return NextResponse.json({
+    config: getRecurringExpensesJobConfig(),
+    message: "Job is configured and ready to run",
+  });
+}
@@ -2,7 +2,9 @@
  * POST /api/auth/login
  * 
  * Authenticates user with email and password.
- * On success, returns access and refresh tokens.
+ * On success, returns access and refresh tokens.  Users with a second
+ * factor get `{ mfaRequired: true, mfaToken }` instead and finish at
+ * POST /api/auth/mfa/challenge.
  */
 
 import { NextResponse } from "next/server";
@@ -62,6 +64,32 @@ export async function POST(request: Request): Promise<NextResponse> {
       rememberMe: rememberMe ?? false,
     });
 
+    // Password accepted; the client finishes at /api/auth/mfa/challenge
+    if (result.error === "mfa_required") {
+      logEvent("info", "Login awaiting second factor", {
+        requestId,
+        email: email.replace(/(.{2}).*@/, "$1***@"),
+      });
+
+      const response = NextResponse.json(
+        {
+          mfaRequired: true,
+          mfaToken: result.mfaToken,
+          methods: result.mfaMethods,
+          webauthnOptions: result.webauthnOptions,
+          message: result.errorMessage,
+        },
+        { status: 200 }
+      );
+      observeApiRequest({
+        route: "/api/auth/login",
+        method: "POST",
+        status: 200,
+        durationMs: Date.now() - startedAt,
+      });
+      return response;
+    }
+
     if (!result.success) {
       const statusCode = result.error === "rate_limited" || result.error === "account_locked"
         ? 429
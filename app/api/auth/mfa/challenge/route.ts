@@ -0,0 +1,96 @@
+/**
+ * POST /api/auth/mfa/challenge
+ *
+ * Second step of a login that answered `{ mfaRequired: true, mfaToken }`.
+ * Accepts one of a TOTP code, a recovery code or a passkey assertion; on
+ * success the session cookies are set exactly as for a password login.
+ *
+ * Body: { mfaToken?, code? | recoveryCode? | credential? }
+ */
+
+import { NextResponse } from "next/server";
+import { completeMfaLogin } from "@/lib/auth";
+import { parseSecondFactorInput } from "@/lib/auth/mfa-service";
+import { observeApiRequest } from "@/lib/observability/api-observability";
+import { logEvent } from "@/lib/observability/logger";
+import { badRequest, internalError, parseJson, generateRequestId } from "../../../calendar/utils";
+
+export const runtime = "nodejs";
+
+interface MfaChallengeBody {
+  mfaToken?: unknown;
+  code?: unknown;
+  recoveryCode?: unknown;
+  credential?: unknown;
+}
+
+function statusFor(error: string | undefined): number {
+  switch (error) {
+    case "too_many_attempts":
+      return 429;
+    case "service_unavailable":
+      return 503;
+    case "account_disabled":
+      return 403;
+    default:
+      return 401;
+  }
+}
+
+export async function POST(request: Request): Promise<NextResponse> {
+  const startedAt = Date.now();
+  const requestId = generateRequestId();
+  const observe = (status: number) =>
+    observeApiRequest({
+      route: "/api/auth/mfa/challenge",
+      method: "POST",
+      status,
+      durationMs: Date.now() - startedAt,
+    });
+
+  try {
+    const parseResult = await parseJson<MfaChallengeBody>(request);
+    if (!parseResult.success) {
+      observe(400);
+      return badRequest("invalid_json", parseResult.error);
+    }
+
+    const input = parseSecondFactorInput(parseResult.data);
+    if (!input) {
+      observe(400);
+      return badRequest("invalid_input", "A code, recovery code or passkey is required");
+    }
+    const { mfaToken } = parseResult.data;
+
+    const result = await completeMfaLogin({
+      ...input,
+      mfaToken: typeof mfaToken === "string" && mfaToken.length > 0 ? mfaToken : undefined,
+    });
+
+    if (!result.success) {
+      const status = statusFor(result.error);
+      logEvent("info", "MFA login failed", { requestId, error: result.error });
+      observe(status);
+      return NextResponse.json(
+        {
+          error: result.error,
+          message: result.errorMessage,
+          attemptsRemaining: result.attemptsRemaining,
+          lockedUntil: result.lockedUntil,
+        },
+        { status }
+      );
+    }
+
+    logEvent("info", "MFA login successful", { requestId });
+    observe(200);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logEvent("error", "MFA challenge endpoint error", {
+      requestId,
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    observe(500);
+    return internalError("internal_error", "An unexpected error occurred");
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * KidSchedule – MFA Factor API
+ *
+ * DELETE /api/auth/mfa/factors/[id]
+ *
+ * Removes an authenticator app or passkey.  Requires a recent step-up;
+ * removing the last factor turns MFA off and discards recovery codes.
+ */
+
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { isStepUpSatisfied, removeMfaFactor } from "@/lib/auth/mfa-service";
+import {
+  getAuthenticatedUser,
+  unauthorized,
+  notFound,
+  internalError,
+  generateRequestId,
+  stepUpRequired,
+} from "../../../../calendar/utils";
+import { logEvent } from "@/lib/observability/logger";
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const requestId = generateRequestId();
+
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) {
+      return unauthorized("unauthenticated", "Authentication required");
+    }
+    if (!(await isStepUpSatisfied(user))) {
+      return stepUpRequired();
+    }
+
+    const { id } = await params;
+    if (!(await removeMfaFactor(user.userId, id))) {
+      return notFound("not_found", "Factor not found");
+    }
+
+    logEvent("info", "MFA factor removed", { requestId, userId: user.userId, factorId: id });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logEvent("error", "MFA: factor removal failed", {
+      requestId,
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    return internalError("internal_error", "Failed to remove factor");
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * KidSchedule – Passkey Registration API
+ *
+ * POST /api/auth/mfa/passkeys                                → { challengeId, options }
+ * PUT  /api/auth/mfa/passkeys  { challengeId, credential, label? } → { factor, recoveryCodes? }
+ *
+ * The browser passes `options` to navigator.credentials.create() and posts
+ * the resulting credential back.  As with authenticator apps, adding a
+ * passkey to an account that already has a factor requires step-up.
+ */
+
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { getDb } from "@/lib/persistence";
+import {
+  finishPasskeyRegistration,
+  isStepUpSatisfied,
+  startPasskeyRegistration,
+} from "@/lib/auth/mfa-service";
+import type { RegistrationCredentialJSON } from "@/lib/auth/webauthn";
+import {
+  getAuthenticatedUser,
+  badRequest,
+  unauthorized,
+  notFound,
+  internalError,
+  parseJson,
+  generateRequestId,
+  stepUpRequired,
+} from "../../../calendar/utils";
+import { logEvent } from "@/lib/observability/logger";
+
+const db = getDb();
+
+const MAX_LABEL_LENGTH = 64;
+
+interface FinishRegistrationBody {
+  challengeId?: unknown;
+  credential?: unknown;
+  label?: unknown;
+}
+
+function isRegistrationCredential(value: unknown): value is RegistrationCredentialJSON {
+  if (!value || typeof value !== "object") return false;
+  const credential = value as Partial<RegistrationCredentialJSON>;
+  return (
+    typeof credential.id === "string" &&
+    typeof credential.rawId === "string" &&
+    typeof credential.type === "string" &&
+    typeof credential.response?.clientDataJSON === "string" &&
+    typeof credential.response?.attestationObject === "string"
+  );
+}
+
+// ─── POST /api/auth/mfa/passkeys ──────────────────────────────────────────────
+
+export async function POST(): Promise<NextResponse> {
+  const requestId = generateRequestId();
+
+  try {
+    const auth = await getAuthenticatedUser();
+    if (!auth) {
+      return unauthorized("unauthenticated", "Authentication required");
+    }
+    if (!(await isStepUpSatisfied(auth))) {
+      return stepUpRequired();
+    }
+
+    const user = await db.users.findById(auth.userId);
+    if (!user) {
+      return notFound("not_found", "User not found");
+    }
+
+    const registration = await startPasskeyRegistration(user.id, user.email, user.fullName);
+    return NextResponse.json(registration, { status: 201 });
+  } catch (error) {
+    logEvent("error", "MFA: passkey registration start failed", {
+      requestId,
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    return internalError("internal_error", "Failed to start passkey setup");
+  }
+}
+
+// ─── PUT /api/auth/mfa/passkeys ───────────────────────────────────────────────
+
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  const requestId = generateRequestId();
+
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) {
+      return unauthorized("unauthenticated", "Authentication required");
+    }
+
+    const parseResult = await parseJson<FinishRegistrationBody>(request);
+    if (!parseResult.success) {
+      return badRequest("invalid_json", parseResult.error);
+    }
+
+    const { challengeId, credential, label } = parseResult.data;
+    if (typeof challengeId !== "string" || !isRegistrationCredential(credential)) {
+      return badRequest("invalid_input", "challengeId and credential are required");
+    }
+    if (label !== undefined && (typeof label !== "string" || label.length > MAX_LABEL_LENGTH)) {
+      return badRequest("invalid_input", `label must be a string of at most ${MAX_LABEL_LENGTH} characters`);
+    }
+
+    const result = await finishPasskeyRegistration(user.userId, challengeId, credential, label);
+    if (!result.success) {
+      return badRequest(result.error, result.errorMessage);
+    }
+
+    logEvent("info", "Passkey registered", { requestId, userId: user.userId, factorId: result.factor.id });
+    return NextResponse.json(
+      { factor: result.factor, recoveryCodes: result.recoveryCodes ?? null },
+      { status: 201 }
+    );
+  } catch (error) {
+    logEvent("error", "MFA: passkey registration failed", {
+      requestId,
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    return internalError("internal_error", "Failed to register passkey");
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * KidSchedule – MFA Recovery Codes API
+ *
+ * POST /api/auth/mfa/recovery-codes  → { recoveryCodes }
+ *
+ * Replaces every recovery code with a fresh set, shown once.  Requires a
+ * recent step-up.
+ */
+
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { isStepUpSatisfied, regenerateRecoveryCodes } from "@/lib/auth/mfa-service";
+import {
+  getAuthenticatedUser,
+  badRequest,
+  unauthorized,
+  internalError,
+  generateRequestId,
+  stepUpRequired,
+} from "../../../calendar/utils";
+import { logEvent } from "@/lib/observability/logger";
+
+export async function POST(): Promise<NextResponse> {
+  const requestId = generateRequestId();
+
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) {
+      return unauthorized("unauthenticated", "Authentication required");
+    }
+    if (!(await isStepUpSatisfied(user))) {
+      return stepUpRequired();
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(user.userId);
+    if (!recoveryCodes) {
+      return badRequest("mfa_not_enabled", "Set up an authenticator app or passkey first");
+    }
+
+    logEvent("info", "MFA recovery codes regenerated", { requestId, userId: user.userId });
+    return NextResponse.json({ recoveryCodes });
+  } catch (error) {
+    logEvent("error", "MFA: recovery code regeneration failed", {
+      requestId,
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    return internalError("internal_error", "Failed to regenerate recovery codes");
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * KidSchedule – MFA Status API
+ *
+ * GET /api/auth/mfa  → { enabled, factors, recoveryCodesRemaining, stepUpSatisfied }
+ *
+ * Enrollment lives under /totp and /passkeys, removal under /factors/[id],
+ * recovery codes under /recovery-codes and step-up under /step-up.
+ */
+
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { getMfaStatus, isStepUpSatisfied } from "@/lib/auth/mfa-service";
+import { getAuthenticatedUser, unauthorized, internalError } from "../../calendar/utils";
+import { logEvent } from "@/lib/observability/logger";
+
+export async function GET(): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) {
+      return unauthorized("unauthenticated", "Authentication required");
+    }
+
+    const status = await getMfaStatus(user.userId);
+    return NextResponse.json({
+      ...status,
+      stepUpSatisfied: await isStepUpSatisfied(user),
+    });
+  } catch (error) {
+    logEvent("error", "MFA: status failed", {
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    return internalError("internal_error", "Failed to load two-step verification settings");
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * KidSchedule – MFA Step-Up API
+ *
+ * POST /api/auth/mfa/step-up                                   → { required, challengeId?, methods?, webauthnOptions? }
+ * PUT  /api/auth/mfa/step-up  { challengeId, code? | recoveryCode? | credential? } → { success }
+ *
+ * Sensitive endpoints answer 403 `step_up_required` when the user has MFA
+ * and has not passed a second factor recently.  The client opens a
+ * challenge here, collects the factor and retries the original request.
+ */
+
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  completeStepUp,
+  parseSecondFactorInput,
+  startMfaChallenge,
+} from "@/lib/auth/mfa-service";
+import {
+  getAuthenticatedUser,
+  badRequest,
+  unauthorized,
+  tooManyRequests,
+  internalError,
+  parseJson,
+  generateRequestId,
+} from "../../../calendar/utils";
+import { logEvent } from "@/lib/observability/logger";
+
+interface StepUpBody {
+  challengeId?: unknown;
+  code?: unknown;
+  recoveryCode?: unknown;
+  credential?: unknown;
+}
+
+// ─── POST /api/auth/mfa/step-up ───────────────────────────────────────────────
+
+export async function POST(): Promise<NextResponse> {
+  const requestId = generateRequestId();
+
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) {
+      return unauthorized("unauthenticated", "Authentication required");
+    }
+
+    const challenge = await startMfaChallenge(user.userId, "step_up");
+    if (!challenge) {
+      // No second factor enrolled – nothing to step up to
+      return NextResponse.json({ required: false });
+    }
+
+    return NextResponse.json({ required: true, ...challenge });
+  } catch (error) {
+    logEvent("error", "MFA: step-up start failed", {
+      requestId,
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    return internalError("internal_error", "Failed to start verification");
+  }
+}
+
+// ─── PUT /api/auth/mfa/step-up ────────────────────────────────────────────────
+
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  const requestId = generateRequestId();
+
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) {
+      return unauthorized("unauthenticated", "Authentication required");
+    }
+
+    const parseResult = await parseJson<StepUpBody>(request);
+    if (!parseResult.success) {
+      return badRequest("invalid_json", parseResult.error);
+    }
+
+    const { challengeId } = parseResult.data;
+    const input = parseSecondFactorInput(parseResult.data);
+    if (typeof challengeId !== "string" || !input) {
+      return badRequest("invalid_input", "challengeId and a code, recovery code or passkey are required");
+    }
+
+    const result = await completeStepUp(user, challengeId, input);
+    if (!result.success) {
+      logEvent("info", "MFA step-up failed", { requestId, userId: user.userId, error: result.error });
+      if (result.error === "too_many_attempts") {
+        return tooManyRequests(result.error, result.errorMessage, { lockedUntil: result.lockedUntil });
+      }
+      return NextResponse.json(
+        { error: result.error, message: result.errorMessage, attemptsRemaining: result.attemptsRemaining },
+        { status: result.error === "mfa_invalid" ? 401 : 400 }
+      );
+    }
+
+    logEvent("info", "MFA step-up passed", { requestId, userId: user.userId, method: result.method });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logEvent("error", "MFA: step-up failed", {
+      requestId,
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    return internalError("internal_error", "Failed to verify");
+  }
+}
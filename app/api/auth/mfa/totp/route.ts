@@ -0,0 +1,102 @@
+/**
+ * KidSchedule – Authenticator App Enrollment API
+ *
+ * POST /api/auth/mfa/totp          { label? }            → { factorId, secret, otpauthUri }
+ * PUT  /api/auth/mfa/totp          { factorId, code }    → { factor, recoveryCodes? }
+ *
+ * POST creates an unconfirmed factor; it only counts once PUT sees a valid
+ * code.  Adding a factor to an account that already has one requires a
+ * recent step-up, so a stolen session cannot attach its own authenticator.
+ */
+
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  confirmTotpEnrollment,
+  isStepUpSatisfied,
+  startTotpEnrollment,
+} from "@/lib/auth/mfa-service";
+import {
+  getAuthenticatedUser,
+  badRequest,
+  unauthorized,
+  internalError,
+  parseJson,
+  generateRequestId,
+  stepUpRequired,
+} from "../../../calendar/utils";
+import { logEvent } from "@/lib/observability/logger";
+
+const MAX_LABEL_LENGTH = 64;
+
+// ─── POST /api/auth/mfa/totp ──────────────────────────────────────────────────
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const requestId = generateRequestId();
+
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) {
+      return unauthorized("unauthenticated", "Authentication required");
+    }
+    if (!(await isStepUpSatisfied(user))) {
+      return stepUpRequired();
+    }
+
+    // An empty body is fine – the label is optional
+    const parseResult = await parseJson<{ label?: unknown }>(request);
+    const label = parseResult.success ? parseResult.data?.label : undefined;
+    if (label !== undefined && (typeof label !== "string" || label.length > MAX_LABEL_LENGTH)) {
+      return badRequest("invalid_input", `label must be a string of at most ${MAX_LABEL_LENGTH} characters`);
+    }
+
+    const enrollment = await startTotpEnrollment(user.userId, user.email, label);
+    logEvent("info", "TOTP enrollment started", { requestId, userId: user.userId, factorId: enrollment.factorId });
+
+    return NextResponse.json(enrollment, { status: 201 });
+  } catch (error) {
+    logEvent("error", "MFA: TOTP enrollment failed", {
+      requestId,
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    return internalError("internal_error", "Failed to start authenticator setup");
+  }
+}
+
+// ─── PUT /api/auth/mfa/totp ───────────────────────────────────────────────────
+
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  const requestId = generateRequestId();
+
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) {
+      return unauthorized("unauthenticated", "Authentication required");
+    }
+
+    const parseResult = await parseJson<{ factorId?: unknown; code?: unknown }>(request);
+    if (!parseResult.success) {
+      return badRequest("invalid_json", parseResult.error);
+    }
+
+    const { factorId, code } = parseResult.data;
+    if (typeof factorId !== "string" || typeof code !== "string") {
+      return badRequest("invalid_input", "factorId and code are required");
+    }
+
+    const result = await confirmTotpEnrollment(user.userId, factorId, code);
+    if (!result.success) {
+      return badRequest(result.error, result.errorMessage);
+    }
+
+    logEvent("info", "TOTP enrollment confirmed", { requestId, userId: user.userId, factorId });
+    return NextResponse.json({ factor: result.factor, recoveryCodes: result.recoveryCodes ?? null });
+  } catch (error) {
+    logEvent("error", "MFA: TOTP confirmation failed", {
+      requestId,
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    return internalError("internal_error", "Failed to confirm authenticator setup");
+  }
+}
@@ -2,6 +2,10 @@
  * KidSchedule – Approve Change Request API Route
  *
  * POST /api/calendar/change-requests/[id]/approve
+ *
+ * Approves the request and materializes its giving-up and make-up periods
+ * as swap overrides. Responds 409 with the conflicts when the swap would
+ * overlap another active override.
  */
 
 import { NextResponse } from "next/server";
@@ -9,6 +13,7 @@ import { requireAuth } from "@/lib/auth";
 import { db } from "@/lib/persistence";
 import { logEvent } from "@/lib/observability/logger";
 import { observeApiRequest } from "@/lib/observability/api-observability";
+import { approveChangeRequest } from "@/lib/calendar/change-request-service";
 
 export async function POST(
   req: Request,
@@ -47,12 +52,17 @@ export async function POST(
     const body = await req.json().catch(() => ({}));
     const responseNote = typeof body?.note === "string" ? body.note.trim() : undefined;
 
-    await db.scheduleChangeRequests.approve(id, parent.id, responseNote || undefined);
+    const result = await approveChangeRequest(request, parent.id, responseNote || undefined);
+    if (!result.success) {
+      observeApiRequest({ route, method: "POST", status: 409, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: result.error, conflicts: result.conflicts ?? [] }, { status: 409 });
+    }
 
     logEvent("info", "change_request.approved", {
       requestId: id,
       familyId: parent.familyId,
       approvedBy: parent.id,
+      overrideIds: result.overrides.map((o) => o.id),
     });
 
     observeApiRequest({ route, method: "POST", status: 204, durationMs: Date.now() - startedAt });
@@ -8,6 +8,7 @@ import { NextResponse } from "next/server";
 import { requireAuth } from "@/lib/auth";
 import { db } from "@/lib/persistence";
 import { logEvent } from "@/lib/observability/logger";
+import { publishNotificationEvent } from "@/lib/notification-events";
 import { observeApiRequest } from "@/lib/observability/api-observability";
 
 export async function POST(
@@ -57,6 +58,14 @@ export async function POST(
 
     await db.scheduleChangeRequests.counter(id, parent.id, responseNote);
 
+    await publishNotificationEvent({
+      type: "change_request.countered",
+      familyId: parent.familyId,
+      actorParentId: parent.id,
+      recipientParentIds: [request.requestedBy],
+      payload: { requestId: id, title: request.title, note: responseNote },
+    });
+
     logEvent("info", "change_request.countered", {
       requestId: id,
       familyId: parent.familyId,
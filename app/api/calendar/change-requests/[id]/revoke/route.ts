@@ -0,0 +1,68 @@
+/**
+ * KidSchedule – Revoke Change Request Approval API Route
+ *
+ * POST /api/calendar/change-requests/[id]/revoke
+ *
+ * Reverses an approved request and cancels the swap overrides its approval
+ * created, restoring the regular schedule for both periods.
+ */
+
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { db } from "@/lib/persistence";
+import { logEvent } from "@/lib/observability/logger";
+import { observeApiRequest } from "@/lib/observability/api-observability";
+import { reverseChangeRequestApproval } from "@/lib/calendar/change-request-service";
+
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const startedAt = Date.now();
+  const route = "/api/calendar/change-requests/[id]/revoke";
+
+  try {
+    const user = await requireAuth();
+    const parent = await db.parents.findByUserId(user.userId);
+    if (!parent) {
+      observeApiRequest({ route, method: "POST", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Parent profile not found" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const request = await db.scheduleChangeRequests.findById(id);
+    if (!request) {
+      observeApiRequest({ route, method: "POST", status: 404, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Request not found" }, { status: 404 });
+    }
+    if (request.familyId !== parent.familyId) {
+      observeApiRequest({ route, method: "POST", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const responseNote = typeof body?.note === "string" ? body.note.trim() : undefined;
+
+    const result = await reverseChangeRequestApproval(request, parent.id, responseNote || undefined);
+    if (!result.success) {
+      observeApiRequest({ route, method: "POST", status: 400, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    logEvent("info", "change_request.approval_reversed", {
+      requestId: id,
+      familyId: parent.familyId,
+      reversedBy: parent.id,
+      cancelledOverrides: result.cancelledOverrides,
+    });
+
+    observeApiRequest({ route, method: "POST", status: 204, durationMs: Date.now() - startedAt });
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    logEvent("error", "POST /api/calendar/change-requests/[id]/revoke error", {
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    observeApiRequest({ route, method: "POST", status: 500, durationMs: Date.now() - startedAt });
+    return NextResponse.json({ error: "Failed to revoke approval" }, { status: 500 });
+  }
+}
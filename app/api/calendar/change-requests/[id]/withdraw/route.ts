@@ -2,6 +2,9 @@
  * KidSchedule – Withdraw Change Request API Route
  *
  * POST /api/calendar/change-requests/[id]/withdraw
+ *
+ * Withdraws a pending request. Withdrawing an approved request reverses the
+ * approval and cancels the swap overrides it created.
  */
 
 import { NextResponse } from "next/server";
@@ -9,6 +12,7 @@ import { requireAuth } from "@/lib/auth";
 import { db } from "@/lib/persistence";
 import { logEvent } from "@/lib/observability/logger";
 import { observeApiRequest } from "@/lib/observability/api-observability";
+import { reverseChangeRequestApproval } from "@/lib/calendar/change-request-service";
 
 export async function POST(
   _req: Request,
@@ -39,6 +43,23 @@ export async function POST(
       observeApiRequest({ route, method: "POST", status: 403, durationMs: Date.now() - startedAt });
       return NextResponse.json({ error: "Only the requester can withdraw" }, { status: 403 });
     }
+    if (request.status === "accepted") {
+      const result = await reverseChangeRequestApproval(request, parent.id);
+      if (!result.success) {
+        observeApiRequest({ route, method: "POST", status: 400, durationMs: Date.now() - startedAt });
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+
+      logEvent("info", "change_request.approval_reversed", {
+        requestId: id,
+        familyId: parent.familyId,
+        reversedBy: parent.id,
+        cancelledOverrides: result.cancelledOverrides,
+      });
+
+      observeApiRequest({ route, method: "POST", status: 204, durationMs: Date.now() - startedAt });
+      return new NextResponse(null, { status: 204 });
+    }
     if (request.status !== "pending") {
       observeApiRequest({ route, method: "POST", status: 400, durationMs: Date.now() - startedAt });
       return NextResponse.json({ error: "Request is no longer pending" }, { status: 400 });
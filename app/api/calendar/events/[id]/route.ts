@@ -6,6 +6,10 @@
  * GET: Retrieve a specific calendar event
  * PUT: Update a calendar event
  * DELETE: Delete a calendar event
+ *
+ * `:id` may also be an occurrence id (`<seriesId>_<YYYYMMDDTHHMMSSZ>`) as
+ * returned for recurring events.  PUT and DELETE on an occurrence take
+ * `?scope=this|following|all` (default `this`).
  */
 
 import { NextResponse } from "next/server";
@@ -26,11 +30,38 @@ import {
   generateRequestId,
 } from "../../utils";
 import { checkCalendarRateLimit } from "@/lib/rate-limit/calendar-limits";
+import {
+  deleteEventOccurrence,
+  findEventOccurrence,
+  updateEventOccurrence,
+  type RecurrenceScope,
+  type UpdateEventInput,
+} from "@/lib/calendar/event-service";
+import { computeRecurrenceEndAt, isValidRecurrenceRule, parseOccurrenceId } from "@/lib/calendar/occurrences";
 import { logEvent } from "@/lib/observability/logger";
 import { observeApiRequest } from "@/lib/observability/api-observability";
 
 export const runtime = "nodejs";
 
+// ─── Occurrence Helpers ───────────────────────────────────────────────────────
+
+const RECURRENCE_SCOPES: RecurrenceScope[] = ["this", "following", "all"];
+
+/** Reads `?scope=`; occurrences default to "this", series rows to "all". */
+function parseScope(request: Request, isOccurrence: boolean): RecurrenceScope | null {
+  const raw = new URL(request.url).searchParams.get("scope");
+  if (raw === null) return isOccurrence ? "this" : "all";
+  const scope = RECURRENCE_SCOPES.find((s) => s === raw);
+  if (!scope || (!isOccurrence && scope !== "all")) return null;
+  return scope;
+}
+
+function occurrenceError(error: string): NextResponse {
+  return error === "Event not found" || error === "Occurrence not found"
+    ? notFound("occurrence_not_found", "Calendar event occurrence not found")
+    : badRequest("invalid_occurrence_update", error);
+}
+
 // ─── GET Handler (Retrieve Event) ──────────────────────────────────────────────
 
 async function handleGet(
@@ -40,6 +71,8 @@ async function handleGet(
   const startedAt = Date.now();
   const requestId = generateRequestId();
   const { id } = await params;
+  const occurrence = parseOccurrenceId(id);
+  const eventId = occurrence?.eventId ?? id;
 
   try {
     // 1. Authenticate
@@ -51,7 +84,7 @@ async function handleGet(
     // 2. Fetch event
     let event;
     try {
-      event = await db.calendarEvents.findById(id);
+      event = await db.calendarEvents.findById(eventId);
     } catch (dbError) {
       logEvent("error", "Database error retrieving event", {
         requestId,
@@ -78,6 +111,13 @@ async function handleGet(
       return forbidden("not_family_member", "You do not belong to this family");
     }
 
+    if (occurrence) {
+      event = await findEventOccurrence(event, occurrence.originalStartAt);
+      if (!event) {
+        return notFound("event_not_found", "Calendar event not found");
+      }
+    }
+
     logEvent("info", "Calendar event retrieved", {
       requestId,
       userId: user.userId,
@@ -123,6 +163,8 @@ interface UpdateEventBody {
   location?: string;
   parentId?: string;
   confirmationStatus?: string;
+  /** RRULE value; null or "" turns a series back into a single event */
+  recurrenceRule?: string | null;
 }
 
 async function handlePut(
@@ -132,6 +174,8 @@ async function handlePut(
   const startedAt = Date.now();
   const requestId = generateRequestId();
   const { id } = await params;
+  const occurrence = parseOccurrenceId(id);
+  const eventId = occurrence?.eventId ?? id;
 
   try {
     // 1. Authenticate
@@ -149,7 +193,7 @@ async function handlePut(
     // 2. Fetch existing event
     let event;
     try {
-      event = await db.calendarEvents.findById(id);
+      event = await db.calendarEvents.findById(eventId);
     } catch (dbError) {
       logEvent("error", "Database error retrieving event", {
         requestId,
@@ -192,8 +236,14 @@ async function handlePut(
       location,
       parentId,
       confirmationStatus,
+      recurrenceRule,
     } = parseResult.data;
 
+    const scope = parseScope(request, occurrence !== null);
+    if (!scope) {
+      return badRequest("invalid_scope", "scope must be one of: this, following, all (this/following need an occurrence id)");
+    }
+
     // 5. Validate fields if provided
     const updates: Partial<typeof event> = {};
 
@@ -257,6 +307,52 @@ async function handlePut(
       updates.confirmationStatus = confirmationStatus;
     }
 
+    if (recurrenceRule !== undefined) {
+      if (recurrenceRule !== null && (typeof recurrenceRule !== "string" || (recurrenceRule && !isValidRecurrenceRule(recurrenceRule)))) {
+        return badRequest("invalid_recurrence_rule", "recurrenceRule must be a valid RRULE (FREQ=DAILY, WEEKLY, MONTHLY or YEARLY)");
+      }
+      updates.recurrenceRule = recurrenceRule ?? "";
+    }
+
+    // 6a. Occurrence of a recurring event – edit this / following / all
+    if (occurrence) {
+      const result = await updateEventOccurrence(
+        eventId,
+        occurrence.originalStartAt,
+        updates as UpdateEventInput,
+        scope,
+        user.userId,
+      );
+      if (!result.success) {
+        return occurrenceError(result.error);
+      }
+
+      logEvent("info", "Calendar event occurrence updated", {
+        requestId,
+        userId: user.userId,
+        eventId: id,
+        familyId: event.familyId,
+        scope,
+        fieldsUpdated: Object.keys(updates),
+      });
+
+      observeApiRequest({
+        route: "/api/calendar/events/:id",
+        method: "PUT",
+        status: 200,
+        durationMs: Date.now() - startedAt,
+      });
+
+      return NextResponse.json(result.event, { status: 200 });
+    }
+
+    // Keep the cached series end in step with the rule and start time
+    if (event.recurrenceRule || updates.recurrenceRule) {
+      const family = await db.families.findById(event.familyId);
+      updates.recurrenceEndAt =
+        computeRecurrenceEndAt({ ...event, ...updates }, family?.timezone ?? "UTC") ?? "";
+    }
+
     // 6. Update event
     try {
       const updatedEvent = await db.calendarEvents.update(id, updates);
@@ -317,6 +413,8 @@ async function handleDelete(
   const startedAt = Date.now();
   const requestId = generateRequestId();
   const { id } = await params;
+  const occurrence = parseOccurrenceId(id);
+  const eventId = occurrence?.eventId ?? id;
 
   try {
     // 1. Authenticate
@@ -334,7 +432,7 @@ async function handleDelete(
     // 2. Fetch event to check ownership
     let event;
     try {
-      event = await db.calendarEvents.findById(id);
+      event = await db.calendarEvents.findById(eventId);
     } catch (dbError) {
       logEvent("error", "Database error retrieving event", {
         requestId,
@@ -361,6 +459,36 @@ async function handleDelete(
       return forbidden("not_family_member", "You do not belong to this family");
     }
 
+    // 4a. Occurrence of a recurring event – cancel this / following / all
+    if (occurrence) {
+      const scope = parseScope(request, true);
+      if (!scope) {
+        return badRequest("invalid_scope", "scope must be one of: this, following, all");
+      }
+
+      const result = await deleteEventOccurrence(eventId, occurrence.originalStartAt, scope, user.userId);
+      if (!result.success) {
+        return occurrenceError(result.error);
+      }
+
+      logEvent("info", "Calendar event occurrence deleted", {
+        requestId,
+        userId: user.userId,
+        eventId: id,
+        familyId: event.familyId,
+        scope,
+      });
+
+      observeApiRequest({
+        route: "/api/calendar/events/:id",
+        method: "DELETE",
+        status: 204,
+        durationMs: Date.now() - startedAt,
+      });
+
+      return new NextResponse(null, { status: 204 });
+    }
+
     // 4. Delete event
     try {
       const deleted = await db.calendarEvents.delete(id);
@@ -0,0 +1,165 @@
+/**
+ * POST /api/calendar/events/import
+ *
+ * Imports a school/league/club calendar into the family's events, either
+ * from raw .ics text (`ics`) or from a published calendar URL (`url`).
+ * Re-importing the same calendar updates previously imported events.
+ */
+
+import { NextResponse } from "next/server";
+import { ValidationError } from "@/lib";
+import { db } from "@/lib/persistence";
+import { fetchIcsCalendar, importIcsEvents } from "@/lib/calendar/ics-import";
+import {
+  getAuthenticatedUser,
+  userBelongsToFamily,
+  badRequest,
+  unauthorized,
+  forbidden,
+  internalError,
+  tooManyRequests,
+  isValidEventCategory,
+  parseJson,
+  generateRequestId,
+} from "../../utils";
+import { checkCalendarRateLimit } from "@/lib/rate-limit/calendar-limits";
+import { logEvent } from "@/lib/observability/logger";
+import { observeApiRequest } from "@/lib/observability/api-observability";
+
+export const runtime = "nodejs";
+
+// ─── POST Handler (Import Calendar) ───────────────────────────────────────────
+
+/** Upper bound on pasted/uploaded .ics text, matching the URL download cap. */
+const MAX_ICS_LENGTH = 2 * 1024 * 1024;
+
+interface ImportEventsBody {
+  familyId?: string;
+  ics?: string;
+  url?: string;
+  defaultCategory?: string;
+}
+
+async function handlePost(request: Request): Promise<NextResponse> {
+  const startedAt = Date.now();
+  const requestId = generateRequestId();
+
+  try {
+    // 1. Authenticate
+    const user = await getAuthenticatedUser();
+    if (!user) {
+      return unauthorized("unauthenticated", "Authentication required");
+    }
+
+    const importRate = checkCalendarRateLimit(user.userId, "importEvents");
+    if (!importRate.allowed) {
+      return tooManyRequests();
+    }
+
+    // 2. Parse request body
+    const parseResult = await parseJson<ImportEventsBody>(request);
+    if (!parseResult.success) {
+      return badRequest("invalid_json", parseResult.error);
+    }
+
+    const { familyId, ics, url, defaultCategory } = parseResult.data;
+
+    // 3. Validate fields
+    if (!familyId) {
+      return badRequest("missing_family_id", "familyId is required");
+    }
+
+    const icsText = typeof ics === "string" && ics.trim().length > 0 ? ics : undefined;
+    const calendarUrl = typeof url === "string" && url.trim().length > 0 ? url.trim() : undefined;
+    if (Boolean(icsText) === Boolean(calendarUrl)) {
+      return badRequest("invalid_source", "Provide exactly one of ics or url");
+    }
+
+    if (icsText && icsText.length > MAX_ICS_LENGTH) {
+      return badRequest("ics_too_large", "Calendar file must not exceed 2 MB");
+    }
+
+    if (defaultCategory !== undefined && (!isValidEventCategory(defaultCategory) || defaultCategory === "custody")) {
+      return badRequest("invalid_category", "defaultCategory must be one of: school, medical, activity, holiday, other");
+    }
+
+    // 4. Authorize – user must belong to family
+    const belongsToFamily = await userBelongsToFamily(user.userId, familyId);
+    if (!belongsToFamily) {
+      logEvent("warn", "Unauthorized calendar import attempt", {
+        requestId,
+        userId: user.userId,
+        familyId,
+      });
+      return forbidden("not_family_member", "You do not belong to this family");
+    }
+
+    // 5. Determine parent record for createdBy
+    const parentRecord = await db.parents.findByUserId(user.userId);
+    if (!parentRecord) {
+      logEvent("error", "Parent record missing during calendar import", {
+        requestId,
+        userId: user.userId,
+        familyId,
+      });
+      return internalError("parent_lookup_failed", "Unable to resolve parent record");
+    }
+
+    // 6. Load and import the calendar
+    try {
+      const calendar = calendarUrl ? await fetchIcsCalendar(calendarUrl) : (icsText as string);
+
+      const summary = await importIcsEvents(calendar, {
+        familyId,
+        createdBy: parentRecord.id,
+        userId: user.userId,
+        source: calendarUrl ?? "upload",
+        defaultCategory,
+      });
+
+      logEvent("info", "Calendar imported", {
+        requestId,
+        userId: user.userId,
+        familyId,
+        source: calendarUrl ? "url" : "upload",
+        created: summary.created,
+        updated: summary.updated,
+        deleted: summary.deleted,
+      });
+
+      observeApiRequest({
+        route: "/api/calendar/events/import",
+        method: "POST",
+        status: 200,
+        durationMs: Date.now() - startedAt,
+      });
+
+      return NextResponse.json(summary, { status: 200 });
+    } catch (importError) {
+      if (importError instanceof ValidationError) {
+        return badRequest("invalid_calendar", importError.message);
+      }
+      throw importError;
+    }
+  } catch (error) {
+    logEvent("error", "POST /api/calendar/events/import error", {
+      requestId,
+      error: error instanceof Error ? error.message : "unknown",
+    });
+
+    observeApiRequest({
+      route: "/api/calendar/events/import",
+      method: "POST",
+      status: 500,
+      durationMs: Date.now() - startedAt,
+    });
+
+    return internalError();
+  }
+}
+
+// ─── Route Handler ────────────────────────────────────────────────────────────
+
+export async function POST(request: Request): Promise<NextResponse> {
+  return handlePost(request);
+}
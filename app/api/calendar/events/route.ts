@@ -2,8 +2,9 @@
  * POST /api/calendar/events
  * GET /api/calendar/events?familyId=...&startAt=...&endAt=...
  *
- * POST: Create a new calendar event
- * GET: Retrieve calendar events for a date range
+ * POST: Create a new calendar event (optionally recurring, via `recurrenceRule`)
+ * GET: Retrieve calendar events for a date range; recurring events are
+ *      returned as individual occurrences
  */
 
 import { NextResponse } from "next/server";
@@ -24,6 +25,8 @@ import {
   getQueryParam,
 } from "../utils";
 import { checkCalendarRateLimit } from "@/lib/rate-limit/calendar-limits";
+import { getEventOccurrences, getFamilyEventsWithOccurrences } from "@/lib/calendar/event-service";
+import { computeRecurrenceEndAt, isValidRecurrenceRule } from "@/lib/calendar/occurrences";
 import { logEvent } from "@/lib/observability/logger";
 import { observeApiRequest } from "@/lib/observability/api-observability";
 
@@ -42,6 +45,7 @@ interface CreateEventBody {
   location?: string;
   parentId?: string;
   confirmationStatus?: string;
+  recurrenceRule?: string;
 }
 
 async function handlePost(request: Request): Promise<NextResponse> {
@@ -78,6 +82,7 @@ async function handlePost(request: Request): Promise<NextResponse> {
       location,
       parentId,
       confirmationStatus,
+      recurrenceRule,
     } = parseResult.data;
 
     // 3. Validate required fields
@@ -108,6 +113,10 @@ async function handlePost(request: Request): Promise<NextResponse> {
       return badRequest("invalid_date_range", "endAt must be after startAt");
     }
 
+    if (recurrenceRule !== undefined && (typeof recurrenceRule !== "string" || !isValidRecurrenceRule(recurrenceRule))) {
+      return badRequest("invalid_recurrence_rule", "recurrenceRule must be a valid RRULE (FREQ=DAILY, WEEKLY, MONTHLY or YEARLY)");
+    }
+
     // 5. Validate confirmation status
     const validConfirmationStatus = confirmationStatus && isValidConfirmationStatus(confirmationStatus)
       ? confirmationStatus
@@ -137,6 +146,7 @@ async function handlePost(request: Request): Promise<NextResponse> {
 
     // 8. Create event
     try {
+      const family = recurrenceRule ? await db.families.findById(familyId) : null;
       const event = await db.calendarEvents.create({
         familyId,
         title: title.trim(),
@@ -149,6 +159,10 @@ async function handlePost(request: Request): Promise<NextResponse> {
         parentId: parentId ? String(parentId) : undefined,
         confirmationStatus: validConfirmationStatus,
         createdBy: parentRecord.id,
+        recurrenceRule: recurrenceRule || undefined,
+        recurrenceEndAt: recurrenceRule
+          ? computeRecurrenceEndAt({ startAt, endAt, allDay: allDay === true, recurrenceRule }, family?.timezone ?? "UTC")
+          : undefined,
       });
 
       logEvent("info", "Calendar event created", {
@@ -236,14 +250,10 @@ async function handleGet(request: Request): Promise<NextResponse> {
           return badRequest("invalid_date_range", "endAt must be after startAt");
         }
 
-        events = await db.calendarEvents.findByFamilyIdAndDateRange(
-          familyId,
-          startAtParam,
-          endAtParam
-        );
+        events = await getEventOccurrences(familyId, startAtParam, endAtParam);
       } else {
-        // Fetch all events for family
-        events = await db.calendarEvents.findByFamilyId(familyId);
+        // Fetch all events for family, expanding series over the default window
+        events = await getFamilyEventsWithOccurrences(familyId);
       }
 
       logEvent("info", "Calendar events retrieved", {
@@ -1,58 +1,78 @@
 /**
  * KidSchedule – Calendar Feed API (iCalendar)
  *
- * Generates iCalendar (.ics) feeds for family calendar events.
- * Includes VTIMEZONE component for timezone-aware event handling.
+ * Subscription feed for calendar clients (Google, Apple, Outlook), which
+ * cannot send a session cookie.  Access is granted by a signed, revocable
+ * per-parent token created in Settings; the feed is rendered in the
+ * family's own timezone and supports ETag/If-None-Match polling.
  *
- * GET /api/calendar/feed?familyId=<familyId>
+ * GET /api/calendar/feed?token=<token>[&include=all|custody|activities]
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { getDb } from "@/lib/persistence";
-import { generateICalFeed } from "@/lib/ical-generator";
+import { parseFeedContent } from "@/lib/custody-feed";
+import { renderFamilyFeed } from "@/lib/calendar/feed-service";
+import {
+  computeFeedEtag,
+  etagMatches,
+  parseFeedToken,
+  verifyFeedToken,
+} from "@/lib/calendar/feed-tokens";
+import { logEvent } from "@/lib/observability/logger";
+
+export const runtime = "nodejs";
+
+function invalidToken() {
+  // Same response for malformed, unknown, revoked and forged tokens so the
+  // endpoint does not reveal which ids exist.
+  return NextResponse.json({ error: "invalid_token" }, { status: 404 });
+}
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
-  const familyId = searchParams.get("familyId");
+  const parsed = parseFeedToken(searchParams.get("token"));
 
-  if (!familyId) {
-    return NextResponse.json({ error: "familyId is required" }, { status: 400 });
+  if (!parsed) {
+    return invalidToken();
   }
 
   try {
     const db = getDb();
 
-    // Fetch calendar events for the family
-    const events = await db.calendarEvents.findByFamilyId(familyId);
-
-    // Map to library's DbCalendarEvent shape
-    const icalEvents = events.map(e => ({
-      id: e.id,
-      familyId,
-      title: e.title,
-      description: e.description,
-      location: e.location,
-      startDate: new Date(e.startAt),
-      endDate: new Date(e.endAt),
-      isAllDay: e.allDay,
-      category: e.category,
-    }));
-
-    // Generate iCalendar content with timezone awareness (hardcoded for now)
-    const icalContent = generateICalFeed(icalEvents, {
-      id: familyId,
-      name: `Family ${familyId}`,
-      timezone: 'America/New_York',
-    });
+    const token = await db.calendarFeedTokens.findById(parsed.tokenId);
+    if (!token || !verifyFeedToken(token, parsed.signature)) {
+      return invalidToken();
+    }
+
+    const family = await db.families.findById(token.familyId);
+    if (!family) {
+      return invalidToken();
+    }
+
+    const icalContent = await renderFamilyFeed(family, parseFeedContent(searchParams.get("include")));
+    const etag = computeFeedEtag(icalContent);
+
+    // Best-effort usage tracking for the settings page; never fails the feed.
+    db.calendarFeedTokens.markUsed(token.id).catch(() => undefined);
+
+    if (etagMatches(request.headers.get("if-none-match"), etag)) {
+      return new NextResponse(null, { status: 304, headers: { ETag: etag } });
+    }
 
     return new NextResponse(icalContent, {
       headers: {
         "Content-Type": "text/calendar; charset=utf-8",
-        "Content-Disposition": `attachment; filename="kidschedule-${familyId}.ics"`,
+        "Content-Disposition": `attachment; filename="kidschedule-${family.id}.ics"`,
+        "Cache-Control": "private, no-cache",
+        ETag: etag,
       },
     });
   } catch (error) {
-    console.info("Calendar feed error:", error);
+    logEvent("error", "Calendar feed error", {
+      tokenId: parsed.tokenId,
+      error: error instanceof Error ? error.message : "unknown",
+    });
     return NextResponse.json({ error: "Failed to generate calendar feed" }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,73 @@
+/**
+ * KidSchedule – Confirm Handoff Check-In API Route
+ *
+ * POST /api/calendar/handoffs/[id]/confirm
+ *
+ * Confirms a handoff the other parent recorded, with an optional note.
+ */
+
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { db } from "@/lib/persistence";
+import { logEvent } from "@/lib/observability/logger";
+import { observeApiRequest } from "@/lib/observability/api-observability";
+
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const startedAt = Date.now();
+  const route = "/api/calendar/handoffs/[id]/confirm";
+
+  try {
+    const user = await requireAuth();
+    const parent = await db.parents.findByUserId(user.userId);
+    if (!parent) {
+      observeApiRequest({ route, method: "POST", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Parent profile not found" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const checkIn = await db.handoffCheckIns.findById(id);
+    if (!checkIn) {
+      observeApiRequest({ route, method: "POST", status: 404, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Check-in not found" }, { status: 404 });
+    }
+    if (checkIn.familyId !== parent.familyId) {
+      observeApiRequest({ route, method: "POST", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    if (checkIn.recordedBy === parent.id) {
+      observeApiRequest({ route, method: "POST", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Cannot confirm your own check-in" }, { status: 403 });
+    }
+    if (checkIn.status !== "pending") {
+      observeApiRequest({ route, method: "POST", status: 400, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Check-in was already answered" }, { status: 400 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const responseNote = typeof body?.note === "string" ? body.note.trim() : "";
+
+    const updated = await db.handoffCheckIns.respond(id, "confirmed", parent.id, responseNote || undefined);
+    if (!updated) {
+      observeApiRequest({ route, method: "POST", status: 400, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Check-in was already answered" }, { status: 400 });
+    }
+
+    logEvent("info", "handoff.confirmed", {
+      checkInId: id,
+      familyId: parent.familyId,
+      confirmedBy: parent.id,
+    });
+
+    observeApiRequest({ route, method: "POST", status: 200, durationMs: Date.now() - startedAt });
+    return NextResponse.json({ checkIn: updated });
+  } catch (error) {
+    logEvent("error", "POST /api/calendar/handoffs/[id]/confirm error", {
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    observeApiRequest({ route, method: "POST", status: 500, durationMs: Date.now() - startedAt });
+    return NextResponse.json({ error: "Failed to confirm handoff" }, { status: 500 });
+  }
+}
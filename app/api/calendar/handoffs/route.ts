@@ -0,0 +1,126 @@
+/**
+ * KidSchedule – Handoff Check-Ins API Route
+ *
+ * GET  /api/calendar/handoffs?start=...&end=...
+ * POST /api/calendar/handoffs
+ *
+ * GET lists the family's recorded drop-offs and pick-ups in a date range
+ * (default: the last 30 days).  POST records one: a drop-off hands the kids
+ * from the recording parent to the other parent, a pick-up the reverse.
+ */
+
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { db } from "@/lib/persistence";
+import type { HandoffCheckInKind } from "@/lib/persistence/types";
+import { logEvent } from "@/lib/observability/logger";
+import { observeApiRequest } from "@/lib/observability/api-observability";
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_NOTE_LENGTH = 500;
+/** Allowance for clock skew between the device and the server */
+const FUTURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+function isCheckInKind(value: unknown): value is HandoffCheckInKind {
+  return value === "drop_off" || value === "pick_up";
+}
+
+export async function GET(req: Request) {
+  const startedAt = Date.now();
+  const route = "/api/calendar/handoffs";
+
+  try {
+    const user = await requireAuth();
+    const parent = await db.parents.findByUserId(user.userId);
+    if (!parent) {
+      observeApiRequest({ route, method: "GET", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Parent profile not found" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const end = searchParams.get("end") ?? new Date().toISOString();
+    const start =
+      searchParams.get("start") ??
+      new Date(Date.parse(end) - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    if (Number.isNaN(Date.parse(start)) || Number.isNaN(Date.parse(end)) || Date.parse(start) >= Date.parse(end)) {
+      observeApiRequest({ route, method: "GET", status: 400, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
+    }
+
+    const checkIns = await db.handoffCheckIns.findByFamilyIdAndRange(parent.familyId, start, end);
+
+    observeApiRequest({ route, method: "GET", status: 200, durationMs: Date.now() - startedAt });
+    return NextResponse.json({ checkIns });
+  } catch (error) {
+    logEvent("error", "GET /api/calendar/handoffs error", {
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    observeApiRequest({ route, method: "GET", status: 500, durationMs: Date.now() - startedAt });
+    return NextResponse.json({ error: "Failed to load handoffs" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  const startedAt = Date.now();
+  const route = "/api/calendar/handoffs";
+
+  try {
+    const user = await requireAuth();
+    const parent = await db.parents.findByUserId(user.userId);
+    if (!parent) {
+      observeApiRequest({ route, method: "POST", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Parent profile not found" }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    if (!isCheckInKind(body?.kind)) {
+      observeApiRequest({ route, method: "POST", status: 400, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "kind must be drop_off or pick_up" }, { status: 400 });
+    }
+
+    const occurredAt = typeof body?.occurredAt === "string" ? body.occurredAt : new Date().toISOString();
+    const occurredMs = Date.parse(occurredAt);
+    if (Number.isNaN(occurredMs) || occurredMs > Date.now() + FUTURE_TOLERANCE_MS) {
+      observeApiRequest({ route, method: "POST", status: 400, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "occurredAt must be a past date" }, { status: 400 });
+    }
+
+    const note = typeof body?.note === "string" ? body.note.trim() : "";
+    if (note.length > MAX_NOTE_LENGTH) {
+      observeApiRequest({ route, method: "POST", status: 400, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: `Note must be at most ${MAX_NOTE_LENGTH} characters` }, { status: 400 });
+    }
+
+    const otherParent = (await db.parents.findByFamilyId(parent.familyId)).find((p) => p.id !== parent.id);
+    if (!otherParent) {
+      observeApiRequest({ route, method: "POST", status: 400, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Family has no other parent to hand off with" }, { status: 400 });
+    }
+
+    const checkIn = await db.handoffCheckIns.create({
+      familyId: parent.familyId,
+      kind: body.kind,
+      occurredAt: new Date(occurredMs).toISOString(),
+      fromParentId: body.kind === "drop_off" ? parent.id : otherParent.id,
+      toParentId: body.kind === "drop_off" ? otherParent.id : parent.id,
+      recordedBy: parent.id,
+      note: note || undefined,
+    });
+
+    logEvent("info", "handoff.checked_in", {
+      checkInId: checkIn.id,
+      familyId: parent.familyId,
+      kind: checkIn.kind,
+      recordedBy: parent.id,
+    });
+
+    observeApiRequest({ route, method: "POST", status: 201, durationMs: Date.now() - startedAt });
+    return NextResponse.json({ checkIn }, { status: 201 });
+  } catch (error) {
+    logEvent("error", "POST /api/calendar/handoffs error", {
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    observeApiRequest({ route, method: "POST", status: 500, durationMs: Date.now() - startedAt });
+    return NextResponse.json({ error: "Failed to record handoff" }, { status: 500 });
+  }
+}
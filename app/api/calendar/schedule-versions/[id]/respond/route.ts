@@ -0,0 +1,78 @@
+/**
+ * KidSchedule – Schedule Version Response API Route
+ *
+ * POST /api/calendar/schedule-versions/[id]/respond
+ *
+ * Body: { decision: "approve" | "reject" }.  Only the parent who did not
+ * propose the version may answer; an approved version takes effect on its
+ * effective date.
+ */
+
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { db } from "@/lib/persistence";
+import { logEvent } from "@/lib/observability/logger";
+import { observeApiRequest } from "@/lib/observability/api-observability";
+import { respondToScheduleVersion } from "@/lib/schedule-versions";
+
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const startedAt = Date.now();
+  const route = "/api/calendar/schedule-versions/[id]/respond";
+
+  try {
+    const user = await requireAuth();
+    const parent = await db.parents.findByUserId(user.userId);
+    if (!parent) {
+      observeApiRequest({ route, method: "POST", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Parent profile not found" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const version = await db.custodyScheduleVersions.findById(id);
+    if (!version) {
+      observeApiRequest({ route, method: "POST", status: 404, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Schedule change not found" }, { status: 404 });
+    }
+    const family = await db.families.findById(parent.familyId);
+    if (version.familyId !== parent.familyId || !family) {
+      observeApiRequest({ route, method: "POST", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    if (body?.decision !== "approve" && body?.decision !== "reject") {
+      observeApiRequest({ route, method: "POST", status: 400, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Decision must be approve or reject" }, { status: 400 });
+    }
+
+    const result = await respondToScheduleVersion({
+      family,
+      version,
+      respondedBy: parent.id,
+      decision: body.decision,
+    });
+    if (!result.success) {
+      observeApiRequest({ route, method: "POST", status: 400, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    logEvent("info", body.decision === "approve" ? "schedule_version.approved" : "schedule_version.rejected", {
+      versionId: id,
+      familyId: parent.familyId,
+      respondedBy: parent.id,
+      effectiveDate: version.effectiveDate,
+    });
+
+    observeApiRequest({ route, method: "POST", status: 200, durationMs: Date.now() - startedAt });
+    return NextResponse.json(result.version);
+  } catch (error) {
+    logEvent("error", "POST /api/calendar/schedule-versions/[id]/respond error", {
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    observeApiRequest({ route, method: "POST", status: 500, durationMs: Date.now() - startedAt });
+    return NextResponse.json({ error: "Failed to answer schedule change" }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * KidSchedule – Withdraw Schedule Version API Route
+ *
+ * POST /api/calendar/schedule-versions/[id]/withdraw
+ *
+ * Withdraws a version still waiting for an answer. Only the parent who
+ * proposed it can withdraw it.
+ */
+
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { db } from "@/lib/persistence";
+import { logEvent } from "@/lib/observability/logger";
+import { observeApiRequest } from "@/lib/observability/api-observability";
+import { withdrawScheduleVersion } from "@/lib/schedule-versions";
+
+export async function POST(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const startedAt = Date.now();
+  const route = "/api/calendar/schedule-versions/[id]/withdraw";
+
+  try {
+    const user = await requireAuth();
+    const parent = await db.parents.findByUserId(user.userId);
+    if (!parent) {
+      observeApiRequest({ route, method: "POST", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Parent profile not found" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const version = await db.custodyScheduleVersions.findById(id);
+    if (!version) {
+      observeApiRequest({ route, method: "POST", status: 404, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Schedule change not found" }, { status: 404 });
+    }
+    if (version.familyId !== parent.familyId) {
+      observeApiRequest({ route, method: "POST", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    if (version.proposedBy !== parent.id) {
+      observeApiRequest({ route, method: "POST", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Only the parent who proposed this change can withdraw it" }, { status: 403 });
+    }
+
+    const result = await withdrawScheduleVersion(version, parent.id);
+    if (!result.success) {
+      observeApiRequest({ route, method: "POST", status: 400, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    logEvent("info", "schedule_version.withdrawn", {
+      versionId: id,
+      familyId: parent.familyId,
+      withdrawnBy: parent.id,
+    });
+
+    observeApiRequest({ route, method: "POST", status: 204, durationMs: Date.now() - startedAt });
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    logEvent("error", "POST /api/calendar/schedule-versions/[id]/withdraw error", {
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    observeApiRequest({ route, method: "POST", status: 500, durationMs: Date.now() - startedAt });
+    return NextResponse.json({ error: "Failed to withdraw schedule change" }, { status: 500 });
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * KidSchedule – Schedule Version API Routes
+ *
+ * GET  /api/calendar/schedule-versions – the family's schedule history: the
+ *      original schedule, every proposed version with what it changed, and
+ *      the terms in force now
+ * POST /api/calendar/schedule-versions – propose a new version
+ *
+ * Body: { name, transitionHour, blocks, seasons?, phases?, weeklyBlocks?,
+ * anchorDate, effectiveDate, reason? }.  The other parent approves it before it takes effect.
+ */
+
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { db } from "@/lib/persistence";
+import { logEvent } from "@/lib/observability/logger";
+import { observeApiRequest } from "@/lib/observability/api-observability";
+import {
+  loadScheduleHistory,
+  parseScheduleVersionProposal,
+  proposeScheduleVersion,
+} from "@/lib/schedule-versions";
+
+export async function GET() {
+  const startedAt = Date.now();
+  const route = "/api/calendar/schedule-versions";
+
+  try {
+    const user = await requireAuth();
+    const parent = await db.parents.findByUserId(user.userId);
+    if (!parent) {
+      observeApiRequest({ route, method: "GET", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Parent profile not found" }, { status: 403 });
+    }
+
+    const family = await db.families.findById(parent.familyId);
+    if (!family) {
+      observeApiRequest({ route, method: "GET", status: 404, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Family not found" }, { status: 404 });
+    }
+
+    const history = await loadScheduleHistory(family);
+
+    observeApiRequest({ route, method: "GET", status: 200, durationMs: Date.now() - startedAt });
+    return NextResponse.json(history);
+  } catch (error) {
+    logEvent("error", "GET /api/calendar/schedule-versions error", {
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    observeApiRequest({ route, method: "GET", status: 500, durationMs: Date.now() - startedAt });
+    return NextResponse.json({ error: "Failed to fetch schedule history" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  const startedAt = Date.now();
+  const route = "/api/calendar/schedule-versions";
+
+  try {
+    const user = await requireAuth();
+    const parent = await db.parents.findByUserId(user.userId);
+    if (!parent) {
+      observeApiRequest({ route, method: "POST", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Parent profile not found" }, { status: 403 });
+    }
+
+    const family = await db.families.findById(parent.familyId);
+    if (!family) {
+      observeApiRequest({ route, method: "POST", status: 404, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Family not found" }, { status: 404 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const result = await proposeScheduleVersion({
+      family,
+      proposedBy: parent.id,
+      proposal: parseScheduleVersionProposal(body),
+    });
+    if (!result.success) {
+      observeApiRequest({ route, method: "POST", status: 400, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    logEvent("info", "schedule_version.proposed", {
+      versionId: result.version.id,
+      familyId: parent.familyId,
+      proposedBy: parent.id,
+      effectiveDate: result.version.effectiveDate,
+    });
+
+    observeApiRequest({ route, method: "POST", status: 201, durationMs: Date.now() - startedAt });
+    return NextResponse.json(result.version, { status: 201 });
+  } catch (error) {
+    logEvent("error", "POST /api/calendar/schedule-versions error", {
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    observeApiRequest({ route, method: "POST", status: 500, durationMs: Date.now() - startedAt });
+    return NextResponse.json({ error: "Failed to propose schedule change" }, { status: 500 });
+  }
+}
@@ -7,8 +7,20 @@
  * Behavior:
  *   1. Authenticate & authorize session membership in family
  *   2. Validate input (dates, timezone, pattern, options)
- *   3. Generate schedule blocks using pattern engine
- *   4. Return preview (default) or commit with idempotency
+ *   3. Generate schedule blocks using pattern engine, stepping up through
+ *      any phases (e.g. daytime visits, then one overnight) until each ends
+ *      on its date or at a child's age, then switching to each season's
+ *      rotation (e.g. summer) between its month/day bounds.  Weekly blocks
+ *      (e.g. Wednesday dinner) hold custody over the main pattern while they
+ *      run, and custom blocks may hand over at their own `startTime` instead
+ *      of `exchangeTime`
+ *   4. Return preview (default) or commit with idempotency; blocks that
+ *      start or end away from `exchangeTime` become timed events, and the
+ *      rotation with its seasons, phases and weekly blocks is saved as the
+ *      family's active custody schedule (parent A is the primary account
+ *      holder, B the co-parent).  Once the family has a schedule, committing
+ *      instead proposes a schedule version from `startDate`, which the other
+ *      parent approves before it takes effect
  */
 
 import { NextResponse } from "next/server";
@@ -27,6 +39,13 @@ import {
 import { checkCalendarRateLimit } from "@/lib/rate-limit/calendar-limits";
 import { logEvent } from "@/lib/observability/logger";
 import { observeApiRequest } from "@/lib/observability/api-observability";
+import { seasonSpansAround, validateScheduleSeasons } from "@/lib/schedule-seasons";
+import { schedulePhaseStages, validateSchedulePhases, type PhaseStage } from "@/lib/schedule-phases";
+import { blockStartsMs, validateBlockTimes, validateWeeklyBlocks, weeklySpansAround } from "@/lib/schedule-weekly";
+import { fromWallClockMs } from "@/lib/custody";
+import { proposeScheduleVersion, type ScheduleTerms } from "@/lib/schedule-versions";
+import type { ScheduleBlock, ScheduleSeason, SchedulePhase, SchedulePhaseEnd, WeeklyBlock } from "@/lib";
+import type { DbCustodySchedule, DbParent } from "@/lib/persistence/types";
 
 export const runtime = "nodejs";
 
@@ -34,12 +53,61 @@ export const runtime = "nodejs";
 
 type PatternType = "2-2-3" | "alternating-weeks" | "2-2-5-5" | "custom";
 
+/** Step-up phases may also use the shorter-stay patterns */
+type PhasePatternType = PatternType | "daytime-visits" | "one-overnight";
+
+const PHASE_PATTERNS: readonly PhasePatternType[] = [
+  "2-2-3",
+  "alternating-weeks",
+  "2-2-5-5",
+  "custom",
+  "daytime-visits",
+  "one-overnight",
+];
+
 interface CustomTemplateBlock {
   parentId: "A" | "B";
+  /** Whole days to the next block's start day; 0 when it starts later the same day */
   days: number;
+  /** HH:MM the block starts; `exchangeTime` when unset */
+  startTime?: string;
   label?: string;
 }
 
+/** A weekday-anchored block, e.g. "Wed 16:00–20:00" */
+interface WeeklyTemplateBlock extends Omit<WeeklyBlock, "parentId"> {
+  parentId: "A" | "B";
+}
+
+/** One block of a rotation, after `startWith` is applied */
+interface PatternSegment {
+  days: number;
+  parent: "A" | "B";
+  startTime?: string;
+}
+
+/** A part of every year with its own rotation, e.g. summer */
+interface SeasonTemplate {
+  name: string;
+  /** MM-DD the season starts */
+  startMonthDay: string;
+  /** MM-DD the regular rotation resumes */
+  endMonthDay: string;
+  pattern: PatternType;
+  startWith?: "A" | "B";
+  customBlocks?: CustomTemplateBlock[];
+}
+
+/** A step-up phase that runs before the main pattern until it ends */
+interface PhaseTemplate {
+  name: string;
+  pattern: PhasePatternType;
+  startWith?: "A" | "B";
+  customBlocks?: CustomTemplateBlock[];
+  /** A date, or an age in months of `childId` (the youngest child when unset) */
+  until: SchedulePhaseEnd;
+}
+
 interface ScheduleWizardRequest {
   familyId: string;
   pattern: PatternType;
@@ -50,6 +118,10 @@ interface ScheduleWizardRequest {
     timeZone: string;
     months?: number;
     customBlocks?: CustomTemplateBlock[];
+    /** Held over the main pattern; seasons and phases take precedence */
+    weeklyBlocks?: WeeklyTemplateBlock[];
+    seasons?: SeasonTemplate[];
+    phases?: PhaseTemplate[];
   };
   childrenIds?: string[];
   conflictPolicy?: "abort" | "overwrite";
@@ -62,8 +134,24 @@ interface CustodyBlockInfo {
   parentId: "A" | "B";
   startDate: string;
   endDate: string;
+  /** Fractional for blocks that start or end away from the exchange time */
   days: number;
+  /** HH:MM on `startDate` and `endDate`; set only when either is not the exchange time */
+  startTime?: string;
+  endTime?: string;
   label?: string;
+  /** Season whose rotation this block belongs to; unset for the regular rotation */
+  season?: string;
+  /** Step-up phase this block belongs to; unset once the main pattern is in force */
+  phase?: string;
+}
+
+/** When each step-up phase, then the main pattern, is in force */
+interface TimelineEntry {
+  name: string;
+  startDate: string;
+  /** Null for the main pattern */
+  endDate: string | null;
 }
 
 interface PreviewPayload {
@@ -71,6 +159,7 @@ interface PreviewPayload {
   startDate: string;
   timeZone: string;
   blocks: CustodyBlockInfo[];
+  timeline?: TimelineEntry[];
   summaryStats: {
     totalDays: number;
     parentADays: number;
@@ -90,6 +179,16 @@ interface CommitPayload {
   warnings?: string[];
 }
 
+/** A commit for a family that already has a schedule: a pending version */
+interface ProposalPayload {
+  versionId: string;
+  status: "pending";
+  pattern: string;
+  effectiveDate: string;
+  createdAt: string;
+  blocks: CustodyBlockInfo[];
+}
+
 // ─── Validation Helpers ───────────────────────────────────────────────────────
 
 function isValidIANATimezone(tz: string): boolean {
@@ -130,9 +229,19 @@ function isDateTooOld(dateStr: string): boolean {
 // ─── Schedule Block Generation ────────────────────────────────────────────────
 
 function getSegmentsForPattern(
-  pattern: PatternType,
+  pattern: PhasePatternType,
   customBlocks?: CustomTemplateBlock[],
-): Array<{ days: number, parent: "A" | "B" }> {
+): PatternSegment[] {
+  if (pattern === "daytime-visits") {
+    // Overnights stay with one parent; visits are not custody blocks
+    return [{ days: 7, parent: "A" }];
+  }
+  if (pattern === "one-overnight") {
+    return [
+      { days: 6, parent: "A" },
+      { days: 1, parent: "B" },
+    ];
+  }
   if (pattern === "2-2-3") {
     return [
       { days: 2, parent: "A" },
@@ -161,6 +270,7 @@ function getSegmentsForPattern(
     return customBlocks.map((b) => ({
       days: b.days,
       parent: b.parentId,
+      ...(b.startTime ? { startTime: b.startTime } : {}),
     }));
   }
   // Fallback to 2-2-3
@@ -175,9 +285,9 @@ function getSegmentsForPattern(
 }
 
 function flipSegmentsIfNeeded(
-  segments: Array<{ days: number, parent: "A" | "B" }>,
+  segments: PatternSegment[],
   startWith: "A" | "B",
-): Array<{ days: number, parent: "A" | "B" }> {
+): PatternSegment[] {
   if (startWith === "A") {
     return segments;
   }
@@ -190,18 +300,129 @@ function flipSegmentsIfNeeded(
       newParent = "A";
     }
     return {
-      days: s.days,
+      ...s,
       parent: newParent,
     };
   });
 }
 
+function toScheduleBlock(segment: PatternSegment): ScheduleBlock {
+  return {
+    parentId: segment.parent,
+    days: segment.days,
+    ...(segment.startTime ? { startTime: segment.startTime } : {}),
+  };
+}
+
+function toPatternSegment(block: ScheduleBlock): PatternSegment {
+  return {
+    days: block.days,
+    parent: block.parentId as "A" | "B",
+    ...(block.startTime ? { startTime: block.startTime } : {}),
+  };
+}
+
+function toScheduleSeasons(seasons: SeasonTemplate[] = []): ScheduleSeason[] {
+  return seasons.map((season) => ({
+    name: season.name,
+    startMonthDay: season.startMonthDay,
+    endMonthDay: season.endMonthDay,
+    blocks: flipSegmentsIfNeeded(
+      getSegmentsForPattern(season.pattern, season.customBlocks),
+      season.startWith ?? "A",
+    ).map(toScheduleBlock),
+  }));
+}
+
+function toSchedulePhases(phases: PhaseTemplate[] = []): SchedulePhase[] {
+  return phases.map((phase) => ({
+    name: phase.name,
+    blocks: flipSegmentsIfNeeded(
+      getSegmentsForPattern(phase.pattern, phase.customBlocks),
+      phase.startWith ?? "A",
+    ).map(toScheduleBlock),
+    until: phase.until,
+  }));
+}
+
+/**
+ * The stages the phases leave in force from `startDate` onward, each
+ * clamped to start no earlier than it.
+ */
+function buildTimeline(stages: PhaseStage[], startDate: string): TimelineEntry[] {
+  return stages
+    .filter((stage) => stage.endDate === null || stage.endDate > startDate)
+    .map((stage) => ({
+      name: stage.name,
+      startDate: stage.startDate && stage.startDate > startDate ? stage.startDate : startDate,
+      endDate: stage.endDate,
+    }));
+}
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/** Minutes after midnight for a validated "HH:MM" */
+function minutesOfTime(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+}
+
+/** "HH:MM" of a wall-clock ms */
+function timeOfWallMs(wallMs: number): string {
+  return new Date(wallMs).toISOString().slice(11, 16);
+}
+
+/**
+ * The segment of a rotation whose first day is `anchorMs` in force at
+ * `atMs`, and when it ends.  Null for an empty rotation.
+ *
+ * Times count from the exchange time rather than midnight, so segments
+ * without a `startTime` start on the day boundary and whole-day rotations
+ * read the same as before exchange times existed.
+ */
+function segmentAt(
+  segments: PatternSegment[],
+  anchorMs: number,
+  atMs: number,
+  exchangeMs: number,
+): { parent: "A" | "B", endMs: number } | null {
+  const cycleMs = segments.reduce((sum, s) => sum + s.days, 0) * MS_PER_DAY;
+  if (cycleMs <= 0) {
+    return null;
+  }
+
+  const starts = blockStartsMs(segments.map(toScheduleBlock), exchangeMs / MS_PER_HOUR)
+    .map((startMs) => startMs - exchangeMs);
+  const firstMs = anchorMs + starts[0];
+  const cycleStartMs = atMs - ((((atMs - firstMs) % cycleMs) + cycleMs) % cycleMs);
+  for (let i = 0; i < segments.length; i++) {
+    const nextStartMs = i + 1 < starts.length ? starts[i + 1] : cycleMs + starts[0];
+    const segmentEndMs = cycleStartMs + nextStartMs - starts[0];
+    if (atMs < segmentEndMs) {
+      return { parent: segments[i].parent, endMs: segmentEndMs };
+    }
+  }
+  return null;
+}
+
+/** The main pattern (and its weekly blocks) counts from the day the last phase hands over */
+function mainPatternStart(stages: PhaseStage[], startDate: string): string {
+  const mainStart = stages.at(-1)?.startDate;
+  return mainStart && mainStart > startDate ? mainStart : startDate;
+}
+
 function generateCustodyBlocks(
   pattern: PatternType,
   startWith: "A" | "B",
   startDate: string,
   months: number = 12,
   customBlocks?: CustomTemplateBlock[],
+  seasons: ScheduleSeason[] = [],
+  stages: PhaseStage[] = [],
+  exchangeTime: string = "00:00",
+  weeklyBlocks: WeeklyBlock[] = [],
 ): CustodyBlockInfo[] {
   const blocks: CustodyBlockInfo[] = [];
   const startDateObj = new Date(`${startDate}T00:00:00Z`);
@@ -213,24 +434,71 @@ function generateCustodyBlocks(
   let segments = getSegmentsForPattern(pattern, customBlocks);
   segments = flipSegmentsIfNeeded(segments, startWith);
 
-  let segmentIndex = 0;
+  // Generation runs on a clock whose midnight is the exchange time, so day
+  // bounds (phase ends, seasons) fall on exchanges; timed blocks shift back
+  const exchangeMs = minutesOfTime(exchangeTime) * MS_PER_MINUTE;
+
+  const mainAnchorDate = mainPatternStart(stages, startDate);
+  const mainAnchorMs = new Date(`${mainAnchorDate}T00:00:00Z`).getTime();
+
   while (currentDate < endDate) {
-    const segment = segments[segmentIndex % segments.length];
+    // Season bounds are whole UTC days, so use the season helpers at hour 0
+    const atMs = currentDate.getTime();
+    const phase = stages.find(
+      (stage) => stage.endDate !== null && atMs < new Date(`${stage.endDate}T00:00:00Z`).getTime(),
+    );
+    // Seasons only interrupt the main pattern, never a step-up phase
+    const spans = phase ? [] : seasonSpansAround(seasons, atMs, 0);
+    const season = spans.find((span) => span.startMs <= atMs && atMs < span.endMs);
+    // Weekly blocks only interrupt the main pattern outside seasons
+    const weeklySpans = phase || season
+      ? []
+      : weeklySpansAround(weeklyBlocks, mainAnchorDate, atMs + exchangeMs).map((span) => ({
+        ...span,
+        startMs: span.startMs - exchangeMs,
+        endMs: span.endMs - exchangeMs,
+      }));
+    const weekly = weeklySpans.find((span) => span.startMs <= atMs && atMs < span.endMs);
+
+    let segment: { parent: "A" | "B", endMs: number } | null;
+    if (phase) {
+      const phaseStartMs = phase.startDate && phase.startDate > startDate
+        ? new Date(`${phase.startDate}T00:00:00Z`).getTime()
+        : startDateObj.getTime();
+      segment = segmentAt(phase.blocks.map(toPatternSegment), phaseStartMs, atMs, exchangeMs);
+      if (segment) {
+        segment.endMs = Math.min(segment.endMs, new Date(`${phase.endDate}T00:00:00Z`).getTime());
+      }
+    } else if (season) {
+      segment = segmentAt(season.season.blocks.map(toPatternSegment), season.startMs, atMs, exchangeMs);
+      if (segment) {
+        segment.endMs = Math.min(segment.endMs, season.endMs);
+      }
+    } else if (weekly) {
+      segment = { parent: weekly.block.parentId as "A" | "B", endMs: weekly.endMs };
+      const nextSeasonStart = spans.find((span) => span.startMs > atMs)?.startMs;
+      if (nextSeasonStart !== undefined) {
+        segment.endMs = Math.min(segment.endMs, nextSeasonStart);
+      }
+    } else {
+      // The regular rotation keeps counting from its start through seasons
+      // and weekly blocks
+      segment = segmentAt(segments, mainAnchorMs, atMs, exchangeMs);
+      const nextSeasonStart = spans.find((span) => span.startMs > atMs)?.startMs;
+      const nextWeeklyStart = weeklySpans.find((span) => span.startMs > atMs)?.startMs;
+      if (segment) {
+        segment.endMs = Math.min(segment.endMs, nextSeasonStart ?? Infinity, nextWeeklyStart ?? Infinity);
+      }
+    }
     if (!segment) {
       break;
     }
 
-    const blockStartDate = new Date(currentDate);
-    const blockEndDate = new Date(currentDate);
-    blockEndDate.setUTCDate(blockEndDate.getUTCDate() + segment.days);
-
-    if (blockEndDate > endDate) {
-      blockEndDate.setTime(endDate.getTime());
-    }
-
-    const daysDiff = blockEndDate.getTime() - blockStartDate.getTime();
-    const msPerDay = 24 * 60 * 60 * 1000;
-    const actualDays = Math.ceil(daysDiff / msPerDay);
+    const blockStartMs = currentDate.getTime();
+    const blockEndMs = Math.min(segment.endMs, endDate.getTime());
+    const wallStartMs = blockStartMs + exchangeMs;
+    const wallEndMs = blockEndMs + exchangeMs;
+    const isTimed = blockStartMs % MS_PER_DAY !== 0 || blockEndMs % MS_PER_DAY !== 0;
 
     let label: string;
     if (segment.parent === "A") {
@@ -239,29 +507,95 @@ function generateCustodyBlocks(
       label = "Parent B";
     }
 
+    const rotationName = phase?.name ?? season?.season.name ?? weekly?.block.label;
     blocks.push({
       parentId: segment.parent,
-      startDate: blockStartDate.toISOString().slice(0, 10),
-      endDate: blockEndDate.toISOString().slice(0, 10),
-      days: actualDays,
-      label,
+      startDate: new Date(isTimed ? wallStartMs : blockStartMs).toISOString().slice(0, 10),
+      endDate: new Date(isTimed ? wallEndMs : blockEndMs).toISOString().slice(0, 10),
+      days: Math.round(((blockEndMs - blockStartMs) / MS_PER_DAY) * 100) / 100,
+      ...(isTimed ? { startTime: timeOfWallMs(wallStartMs), endTime: timeOfWallMs(wallEndMs) } : {}),
+      label: rotationName ? `${label} (${rotationName})` : label,
+      ...(season ? { season: season.season.name } : {}),
+      ...(phase ? { phase: phase.name } : {}),
     });
 
-    currentDate = blockEndDate;
-    segmentIndex += 1;
+    currentDate = new Date(blockEndMs);
   }
 
   return blocks;
 }
 
+/**
+ * The wizard's rotation as schedule terms for the family.  "A" and "B"
+ * become `parentIds`, and an exchange time off the hour is written to each
+ * block as its own `startTime`, since the terms keep whole hours.
+ */
+function toScheduleTerms(
+  body: ScheduleWizardRequest,
+  phases: SchedulePhase[],
+  parentIds: Record<"A" | "B", string>,
+): ScheduleTerms {
+  const { exchangeTime } = body.options;
+  const toBlock = (block: ScheduleBlock): ScheduleBlock => ({
+    parentId: parentIds[block.parentId as "A" | "B"],
+    days: block.days,
+    startTime: block.startTime ?? (exchangeTime.endsWith(":00") ? undefined : exchangeTime),
+  });
+  const rotation = flipSegmentsIfNeeded(
+    getSegmentsForPattern(body.pattern, body.options.customBlocks),
+    body.startWith,
+  ).map(toScheduleBlock);
+
+  return {
+    name: body.label ?? `${body.pattern} schedule`,
+    transitionHour: Math.floor(minutesOfTime(exchangeTime) / 60),
+    blocks: rotation.map(toBlock),
+    anchorDate: body.options.startDate,
+    seasons: toScheduleSeasons(body.options.seasons).map((season) => ({ ...season, blocks: season.blocks.map(toBlock) })),
+    phases: phases.map((phase) => ({ ...phase, blocks: phase.blocks.map(toBlock) })),
+    weeklyBlocks: (body.options.weeklyBlocks ?? []).map((block) => ({ ...block, parentId: parentIds[block.parentId] })),
+  };
+}
+
+/** The wizard's rotation as a custody schedule row for the family */
+function toStoredSchedule(
+  familyId: string,
+  terms: ScheduleTerms,
+): Omit<DbCustodySchedule, "id" | "createdAt" | "updatedAt"> {
+  return {
+    familyId,
+    name: terms.name,
+    transitionHour: terms.transitionHour,
+    blocks: JSON.stringify(terms.blocks),
+    anchorDate: terms.anchorDate,
+    seasons: JSON.stringify(terms.seasons),
+    phases: JSON.stringify(terms.phases),
+    weeklyBlocks: JSON.stringify(terms.weeklyBlocks),
+    isActive: false,
+  };
+}
+
+/**
+ * The primary account holder as "A" and the first co-parent as "B"; null
+ * until the family has both.  Other caregivers never take a rotation turn.
+ */
+function wizardParentIds(parents: DbParent[]): Record<"A" | "B", string> | null {
+  const coParents = parents.filter((p) => (p.caregiverRole ?? "parent") === "parent");
+  const a = coParents.find((p) => p.role === "primary") ?? coParents[0];
+  const b = coParents.find((p) => p.id !== a?.id);
+  return a && b ? { A: a.id, B: b.id } : null;
+}
+
 function calculateSummaryStats(
   blocks: CustodyBlockInfo[],
 ): PreviewPayload["summaryStats"] {
-  const totalDays = blocks.reduce((sum, b) => sum + b.days, 0);
-  const parentADays = blocks
+  // Partial-day blocks carry fractional days; keep sums to two places
+  const roundDays = (days: number) => Math.round(days * 100) / 100;
+  const totalDays = roundDays(blocks.reduce((sum, b) => sum + b.days, 0));
+  const parentADays = roundDays(blocks
     .filter((b) => b.parentId === "A")
-    .reduce((sum, b) => sum + b.days, 0);
-  const parentBDays = totalDays - parentADays;
+    .reduce((sum, b) => sum + b.days, 0));
+  const parentBDays = roundDays(totalDays - parentADays);
 
   let parentAPercent = 0;
   let parentBPercent = 0;
@@ -346,11 +680,6 @@ async function storeIdempotencyResult(
 }
 /* eslint-enable @typescript-eslint/no-unused-vars */
 
-// ─── Constants for ID Generation ─────────────────────────────────────────────
-
-const ID_RADIX = 36;
-const ID_SLICE_LENGTH = 9;
-
 // ─── Main Handler ─────────────────────────────────────────────────────────────
 
 /**
@@ -381,19 +710,86 @@ function validateRequest(body: ScheduleWizardRequest): string | null {
   if (isDateTooOld(body.options.startDate)) {
     return "start_date_in_past";
   }
+  const { exchangeTime } = body.options;
   if (body.pattern === "custom") {
-    if (!body.options.customBlocks || !Array.isArray(body.options.customBlocks)) {
-      return "missing_custom_blocks";
-    }
-    for (let i = 0; i < body.options.customBlocks.length; i++) {
-      const block = body.options.customBlocks[i];
-      const isValid = block &&
-        typeof block.days === "number" &&
-        block.days > 0 &&
-        ["A", "B"].includes(block.parentId);
-      if (!isValid) {
-        return `invalid_custom_block_${i}`;
-      }
+    const blocksError = validateCustomBlocks(body.options.customBlocks, exchangeTime);
+    if (blocksError) {
+      return blocksError;
+    }
+  }
+  if (body.options.seasons !== undefined) {
+    const seasonsError = validateSeasons(body.options.seasons, exchangeTime);
+    if (seasonsError) {
+      return seasonsError;
+    }
+  }
+  if (body.options.phases !== undefined) {
+    return validatePhaseTemplates(body.options.phases, exchangeTime);
+  }
+  return null;
+}
+
+function validateCustomBlocks(
+  customBlocks: CustomTemplateBlock[] | undefined,
+  exchangeTime: string,
+): string | null {
+  if (!customBlocks || !Array.isArray(customBlocks)) {
+    return "missing_custom_blocks";
+  }
+  for (let i = 0; i < customBlocks.length; i++) {
+    const block = customBlocks[i];
+    const isValid = block &&
+      Number.isInteger(block.days) &&
+      block.days >= 0 &&
+      ["A", "B"].includes(block.parentId) &&
+      (block.startTime === undefined || isValidTimeString(block.startTime));
+    if (!isValid) {
+      return `invalid_custom_block_${i}`;
+    }
+  }
+  // Zero-day blocks must hand over later the same day than they start
+  const blocks = customBlocks.map((b) => ({ parentId: b.parentId, days: b.days, startTime: b.startTime }));
+  return validateBlockTimes(blocks, minutesOfTime(exchangeTime) / 60) ? "invalid_custom_block_times" : null;
+}
+
+function validateSeasons(seasons: SeasonTemplate[], exchangeTime: string): string | null {
+  if (!Array.isArray(seasons)) {
+    return "invalid_seasons";
+  }
+  for (let i = 0; i < seasons.length; i++) {
+    const season = seasons[i];
+    if (!season || !["2-2-3", "alternating-weeks", "2-2-5-5", "custom"].includes(season.pattern)) {
+      return `invalid_season_pattern_${i}`;
+    }
+    if (season.startWith !== undefined && !["A", "B"].includes(season.startWith)) {
+      return `invalid_season_start_with_${i}`;
+    }
+    if (season.pattern === "custom" && validateCustomBlocks(season.customBlocks, exchangeTime)) {
+      return `invalid_season_custom_blocks_${i}`;
+    }
+  }
+  // Dates, names and overlaps, checked the same way as stored schedules
+  return validateScheduleSeasons(toScheduleSeasons(seasons), ["A", "B"]) ? "invalid_seasons" : null;
+}
+
+/**
+ * Patterns and parents only.  Names, ends and their order are checked once
+ * the family's children are known, since ages may name a child.
+ */
+function validatePhaseTemplates(phases: PhaseTemplate[], exchangeTime: string): string | null {
+  if (!Array.isArray(phases)) {
+    return "invalid_phases";
+  }
+  for (let i = 0; i < phases.length; i++) {
+    const phase = phases[i];
+    if (!phase || !PHASE_PATTERNS.includes(phase.pattern)) {
+      return `invalid_phase_pattern_${i}`;
+    }
+    if (phase.startWith !== undefined && !["A", "B"].includes(phase.startWith)) {
+      return `invalid_phase_start_with_${i}`;
+    }
+    if (phase.pattern === "custom" && validateCustomBlocks(phase.customBlocks, exchangeTime)) {
+      return `invalid_phase_custom_blocks_${i}`;
     }
   }
   return null;
@@ -503,6 +899,22 @@ async function handlePost(request: Request): Promise<NextResponse> {
       return badRequest("no_children", "No children found for this family");
     }
 
+    const phases = toSchedulePhases(options.phases);
+    const phasesError = validateSchedulePhases(phases, ["A", "B"], children.map((c) => c.id));
+    if (phasesError) {
+      return badRequest("invalid_phases", phasesError);
+    }
+    const stages = schedulePhaseStages(
+      { id: "wizard", name: pattern, transitionHour: 0, blocks: [], phases },
+      children,
+    );
+    const weeklyError = options.weeklyBlocks === undefined
+      ? null
+      : validateWeeklyBlocks(options.weeklyBlocks, ["A", "B"], mainPatternStart(stages, options.startDate));
+    if (weeklyError) {
+      return badRequest("invalid_weekly_blocks", weeklyError);
+    }
+
     // 7. Generate Custody Blocks
     const blocks = generateCustodyBlocks(
       pattern as PatternType,
@@ -510,6 +922,10 @@ async function handlePost(request: Request): Promise<NextResponse> {
       options.startDate,
       options.months,
       options.customBlocks,
+      toScheduleSeasons(options.seasons),
+      stages,
+      options.exchangeTime,
+      options.weeklyBlocks,
     );
 
     if (blocks.length === 0) {
@@ -525,6 +941,7 @@ async function handlePost(request: Request): Promise<NextResponse> {
         startDate: options.startDate,
         timeZone: options.timeZone,
         blocks,
+        ...(phases.length > 0 ? { timeline: buildTimeline(stages, options.startDate) } : {}),
         summaryStats,
       };
 
@@ -540,12 +957,71 @@ async function handlePost(request: Request): Promise<NextResponse> {
         familyId,
         pattern,
         blockCount: blocks.length,
+        seasonCount: options.seasons?.length ?? 0,
+        phaseCount: phases.length,
+        weeklyBlockCount: options.weeklyBlocks?.length ?? 0,
       });
 
       return NextResponse.json(preview, { status: 200 });
     }
 
-    // 9. Check Conflicts (commit=true)
+    const parents = await db.parents.findByFamilyId(familyId);
+    const parentIds = wizardParentIds(parents);
+    if (!parentIds) {
+      return badRequest("no_co_parent", "Both parents must join the family before saving a schedule");
+    }
+    const terms = toScheduleTerms(body, phases, parentIds);
+
+    // 9. Propose a Version Once the Family Has a Schedule
+    // The schedule in force is never replaced outright: the change takes
+    // effect on the start date, after the other parent approves it
+    if (await db.custodySchedules.findActiveByFamilyId(familyId)) {
+      const family = await db.families.findById(familyId);
+      const proposer = parents.find((p) => p.userId === user.userId);
+      if (!family || !proposer) {
+        return forbidden("not_family_member", "User is not a parent in this family");
+      }
+
+      const result = await proposeScheduleVersion({
+        family,
+        proposedBy: proposer.id,
+        proposal: { ...terms, effectiveDate: options.startDate, reason: body.label },
+      });
+      if (!result.success) {
+        return badRequest("invalid_schedule_change", result.error);
+      }
+
+      const proposal: ProposalPayload = {
+        versionId: result.version.id,
+        status: "pending",
+        pattern,
+        effectiveDate: result.version.effectiveDate,
+        createdAt: result.version.createdAt,
+        blocks,
+      };
+      if (idempotencyKey) {
+        await storeIdempotencyResult(idempotencyKey, requestPayload, JSON.stringify(proposal));
+      }
+
+      observeApiRequest({
+        route,
+        method: "POST",
+        status: 202,
+        durationMs: Date.now() - startedAt,
+      });
+
+      logEvent("info", "Schedule wizard proposed a schedule change", {
+        requestId,
+        familyId,
+        versionId: result.version.id,
+        effectiveDate: result.version.effectiveDate,
+        pattern,
+      });
+
+      return NextResponse.json(proposal, { status: 202 });
+    }
+
+    // 10. Check Conflicts (first schedule only)
     if (conflictPolicy === "abort") {
       const conflicts = await checkConflicts(familyId, blocks);
       if (conflicts.hasConflicts) {
@@ -561,29 +1037,37 @@ async function handlePost(request: Request): Promise<NextResponse> {
       }
     }
 
-    // 10. Check Database Connection
+    // 11. Check Database Connection
     const connected = await checkConnection();
     if (!connected) {
       logEvent("error", "Database connection failed", { requestId, familyId });
       return internalError("db_connection_failed", "Database connection unavailable");
     }
 
-    // 11. Transactional Commit
+    // 12. Transactional Commit
     let scheduleId = "";
 
     try {
       await db.beginTransaction();
 
-      // Generate schedule ID
-      scheduleId = `sched_${Date.now()}_${Math.random().toString(ID_RADIX).slice(2, ID_SLICE_LENGTH)}`;
+      // Save the rotation as the family's first schedule
+      const schedule = await db.custodySchedules.create(toStoredSchedule(familyId, terms));
+      await db.custodySchedules.setActive(familyId, schedule.id);
+      scheduleId = schedule.id;
 
-      // Create calendar events from blocks
+      // Create calendar events from blocks; timed blocks start and end at
+      // their wall-clock times in the family's timezone
       for (const block of blocks) {
-        const blockStartDate = new Date(
-          `${block.startDate}T00:00:00Z`,
-        );
-        const blockEndDate = new Date(blockStartDate);
-        blockEndDate.setUTCDate(blockEndDate.getUTCDate() + block.days);
+        const blockStartDate = block.startTime
+          ? new Date(fromWallClockMs(Date.parse(`${block.startDate}T${block.startTime}:00Z`), options.timeZone))
+          : new Date(`${block.startDate}T00:00:00Z`);
+        let blockEndDate: Date;
+        if (block.endTime) {
+          blockEndDate = new Date(fromWallClockMs(Date.parse(`${block.endDate}T${block.endTime}:00Z`), options.timeZone));
+        } else {
+          blockEndDate = new Date(blockStartDate);
+          blockEndDate.setUTCDate(blockEndDate.getUTCDate() + block.days);
+        }
 
         await db.calendarEvents.create({
           familyId,
@@ -591,7 +1075,7 @@ async function handlePost(request: Request): Promise<NextResponse> {
           category: "custody",
           startAt: blockStartDate.toISOString(),
           endAt: blockEndDate.toISOString(),
-          allDay: true,
+          allDay: !block.startTime,
           createdBy: user.userId,
           confirmationStatus: "confirmed",
           description: `Generated by schedule wizard (${pattern})`,
@@ -626,7 +1110,7 @@ async function handlePost(request: Request): Promise<NextResponse> {
       return internalError("commit_failed", "Failed to persist schedule");
     }
 
-    // 12. Return Commit Response
+    // 13. Return Commit Response
     const response: CommitPayload = {
       scheduleId,
       pattern,
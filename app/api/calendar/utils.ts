@@ -175,6 +175,14 @@ export function forbidden(
   );
 }
 
+/**
+ * Create 403 response asking the client to pass a second-factor step-up
+ * (POST /api/auth/mfa/step-up) and retry.
+ */
+export function stepUpRequired(): NextResponse<ApiErrorResponse> {
+  return forbidden("step_up_required", "Confirm it's you with your second factor to continue");
+}
+
 /**
  * Create 404 Not Found response.
  */
@@ -0,0 +1,115 @@
+/**
+ * KidSchedule – Expense Dispute API Routes
+ *
+ * GET  /api/expenses/[id]/dispute – list disputes on the expense with their threads
+ * POST /api/expenses/[id]/dispute – open a dispute with a reason and optional proposal
+ */
+
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { db } from "@/lib/persistence";
+import { logEvent } from "@/lib/observability/logger";
+import { observeApiRequest } from "@/lib/observability/api-observability";
+import { openExpenseDispute, parseAdjustment } from "@/lib/expense-disputes";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const startedAt = Date.now();
+  const route = "/api/expenses/[id]/dispute";
+
+  try {
+    const user = await requireAuth();
+    const parent = await db.parents.findByUserId(user.userId);
+    if (!parent) {
+      observeApiRequest({ route, method: "GET", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Parent profile not found" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const expense = await db.expenses.findById(id);
+    if (!expense) {
+      observeApiRequest({ route, method: "GET", status: 404, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Expense not found" }, { status: 404 });
+    }
+    if (expense.familyId !== parent.familyId) {
+      observeApiRequest({ route, method: "GET", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const disputes = await db.expenseDisputes.findByExpenseId(id);
+    const threads = await Promise.all(
+      disputes.map(async (dispute) => ({
+        ...dispute,
+        messages: await db.expenseDisputeMessages.findByDisputeId(dispute.id),
+      }))
+    );
+
+    observeApiRequest({ route, method: "GET", status: 200, durationMs: Date.now() - startedAt });
+    return NextResponse.json(threads);
+  } catch (error) {
+    logEvent("error", "GET /api/expenses/[id]/dispute error", {
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    observeApiRequest({ route, method: "GET", status: 500, durationMs: Date.now() - startedAt });
+    return NextResponse.json({ error: "Failed to fetch disputes" }, { status: 500 });
+  }
+}
+
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const startedAt = Date.now();
+  const route = "/api/expenses/[id]/dispute";
+
+  try {
+    const user = await requireAuth();
+    const parent = await db.parents.findByUserId(user.userId);
+    if (!parent) {
+      observeApiRequest({ route, method: "POST", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Parent profile not found" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const expense = await db.expenses.findById(id);
+    if (!expense) {
+      observeApiRequest({ route, method: "POST", status: 404, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Expense not found" }, { status: 404 });
+    }
+    if (expense.familyId !== parent.familyId) {
+      observeApiRequest({ route, method: "POST", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const result = await openExpenseDispute({
+      expense,
+      openedBy: parent.id,
+      reason: typeof body?.reason === "string" ? body.reason : "",
+      proposal: parseAdjustment(body),
+    });
+    if (!result.success) {
+      observeApiRequest({ route, method: "POST", status: 400, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    logEvent("info", "expense_dispute.opened", {
+      disputeId: result.dispute.id,
+      expenseId: id,
+      familyId: parent.familyId,
+      openedBy: parent.id,
+      withProposal: result.message.proposalStatus === "pending",
+    });
+
+    observeApiRequest({ route, method: "POST", status: 201, durationMs: Date.now() - startedAt });
+    return NextResponse.json({ ...result.dispute, messages: [result.message] }, { status: 201 });
+  } catch (error) {
+    logEvent("error", "POST /api/expenses/[id]/dispute error", {
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    observeApiRequest({ route, method: "POST", status: 500, durationMs: Date.now() - startedAt });
+    return NextResponse.json({ error: "Failed to open dispute" }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * KidSchedule – Expense Receipt Download
+ *
+ * GET /api/expenses/[id]/receipts/[receiptId] – redirect to a short-lived
+ * signed URL for the receipt file.  `?download=1` serves it as an
+ * attachment instead of inline.
+ */
+
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { db } from "@/lib/persistence";
+import { getStorageAdapter } from "@/lib/storage";
+import { logEvent } from "@/lib/observability/logger";
+import { observeApiRequest } from "@/lib/observability/api-observability";
+
+export const runtime = "nodejs";
+
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string; receiptId: string }> }
+) {
+  const startedAt = Date.now();
+  const route = "/api/expenses/[id]/receipts/[receiptId]";
+
+  try {
+    const user = await requireAuth();
+    const parent = await db.parents.findByUserId(user.userId);
+    if (!parent) {
+      observeApiRequest({ route, method: "GET", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Parent profile not found" }, { status: 403 });
+    }
+
+    const { id, receiptId } = await params;
+    const receipt = await db.expenseReceipts.findById(receiptId);
+    if (!receipt || receipt.expenseId !== id) {
+      observeApiRequest({ route, method: "GET", status: 404, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Receipt not found" }, { status: 404 });
+    }
+    if (receipt.familyId !== parent.familyId) {
+      observeApiRequest({ route, method: "GET", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const download = new URL(req.url).searchParams.get("download") === "1";
+    const signedUrl = await getStorageAdapter().getSignedUrl(receipt.storageKey, {
+      downloadFilename: download ? receipt.fileName : undefined,
+    });
+
+    observeApiRequest({ route, method: "GET", status: 302, durationMs: Date.now() - startedAt });
+    const response = NextResponse.redirect(new URL(signedUrl, req.url), 302);
+    response.headers.set("Cache-Control", "no-cache, no-store, must-revalidate");
+    return response;
+  } catch (error) {
+    logEvent("error", "GET /api/expenses/[id]/receipts/[receiptId] error", {
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    observeApiRequest({ route, method: "GET", status: 500, durationMs: Date.now() - startedAt });
+    return NextResponse.json({ error: "Failed to fetch receipt" }, { status: 500 });
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * KidSchedule – Expense Receipt API Routes
+ *
+ * GET  /api/expenses/[id]/receipts – receipts attached to the expense
+ * POST /api/expenses/[id]/receipts – attach a receipt (multipart `file`: PDF, JPG or PNG, max 10MB)
+ *
+ * Receipts are returned with `url`, the authenticated download route, never
+ * a storage location.
+ */
+
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { db } from "@/lib/persistence";
+import type { DbExpenseReceipt } from "@/lib/persistence/types";
+import { logEvent } from "@/lib/observability/logger";
+import { observeApiRequest } from "@/lib/observability/api-observability";
+import { attachExpenseReceipt, RECEIPT_MAX_BYTES } from "@/lib/expense-receipts";
+
+export const runtime = "nodejs";
+
+function toResponse(receipt: DbExpenseReceipt) {
+  return {
+    id: receipt.id,
+    expenseId: receipt.expenseId,
+    fileName: receipt.fileName,
+    contentType: receipt.contentType,
+    sizeBytes: receipt.sizeBytes,
+    extractedMerchant: receipt.extractedMerchant,
+    extractedAmountCents: receipt.extractedAmountCents,
+    extractedDate: receipt.extractedDate,
+    uploadedBy: receipt.uploadedBy,
+    createdAt: receipt.createdAt,
+    url: `/api/expenses/${receipt.expenseId}/receipts/${receipt.id}`,
+  };
+}
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const startedAt = Date.now();
+  const route = "/api/expenses/[id]/receipts";
+
+  try {
+    const user = await requireAuth();
+    const parent = await db.parents.findByUserId(user.userId);
+    if (!parent) {
+      observeApiRequest({ route, method: "GET", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Parent profile not found" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const expense = await db.expenses.findById(id);
+    if (!expense) {
+      observeApiRequest({ route, method: "GET", status: 404, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Expense not found" }, { status: 404 });
+    }
+    if (expense.familyId !== parent.familyId) {
+      observeApiRequest({ route, method: "GET", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const receipts = await db.expenseReceipts.findByExpenseId(id);
+
+    observeApiRequest({ route, method: "GET", status: 200, durationMs: Date.now() - startedAt });
+    return NextResponse.json(receipts.map(toResponse));
+  } catch (error) {
+    logEvent("error", "GET /api/expenses/[id]/receipts error", {
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    observeApiRequest({ route, method: "GET", status: 500, durationMs: Date.now() - startedAt });
+    return NextResponse.json({ error: "Failed to fetch receipts" }, { status: 500 });
+  }
+}
+
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const startedAt = Date.now();
+  const route = "/api/expenses/[id]/receipts";
+
+  try {
+    const user = await requireAuth();
+    const parent = await db.parents.findByUserId(user.userId);
+    if (!parent) {
+      observeApiRequest({ route, method: "POST", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Parent profile not found" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const expense = await db.expenses.findById(id);
+    if (!expense) {
+      observeApiRequest({ route, method: "POST", status: 404, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Expense not found" }, { status: 404 });
+    }
+    if (expense.familyId !== parent.familyId) {
+      observeApiRequest({ route, method: "POST", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const formData = await req.formData().catch(() => null);
+    const file = formData?.get("file");
+    if (!(file instanceof File)) {
+      observeApiRequest({ route, method: "POST", status: 400, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Attach a receipt file" }, { status: 400 });
+    }
+    if (file.size > RECEIPT_MAX_BYTES) {
+      observeApiRequest({ route, method: "POST", status: 413, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Receipts must be 10MB or smaller" }, { status: 413 });
+    }
+
+    const result = await attachExpenseReceipt({
+      expense,
+      body: Buffer.from(await file.arrayBuffer()),
+      fileName: file.name,
+      contentType: file.type,
+      uploadedBy: parent.id,
+    });
+    if (!result.success) {
+      observeApiRequest({ route, method: "POST", status: 400, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    observeApiRequest({ route, method: "POST", status: 201, durationMs: Date.now() - startedAt });
+    return NextResponse.json(toResponse(result.receipt), { status: 201 });
+  } catch (error) {
+    logEvent("error", "POST /api/expenses/[id]/receipts error", {
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    observeApiRequest({ route, method: "POST", status: 500, durationMs: Date.now() - startedAt });
+    return NextResponse.json({ error: "Failed to attach receipt" }, { status: 500 });
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * KidSchedule – Expense Dispute Messages API Routes
+ *
+ * GET  /api/expenses/disputes/[id]/messages – list the dispute thread
+ * POST /api/expenses/disputes/[id]/messages – reply, optionally proposing an adjustment
+ */
+
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { db } from "@/lib/persistence";
+import { logEvent } from "@/lib/observability/logger";
+import { observeApiRequest } from "@/lib/observability/api-observability";
+import { parseAdjustment, postDisputeMessage } from "@/lib/expense-disputes";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const startedAt = Date.now();
+  const route = "/api/expenses/disputes/[id]/messages";
+
+  try {
+    const user = await requireAuth();
+    const parent = await db.parents.findByUserId(user.userId);
+    if (!parent) {
+      observeApiRequest({ route, method: "GET", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Parent profile not found" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const dispute = await db.expenseDisputes.findById(id);
+    if (!dispute) {
+      observeApiRequest({ route, method: "GET", status: 404, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Dispute not found" }, { status: 404 });
+    }
+    if (dispute.familyId !== parent.familyId) {
+      observeApiRequest({ route, method: "GET", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const messages = await db.expenseDisputeMessages.findByDisputeId(id);
+
+    observeApiRequest({ route, method: "GET", status: 200, durationMs: Date.now() - startedAt });
+    return NextResponse.json(messages);
+  } catch (error) {
+    logEvent("error", "GET /api/expenses/disputes/[id]/messages error", {
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    observeApiRequest({ route, method: "GET", status: 500, durationMs: Date.now() - startedAt });
+    return NextResponse.json({ error: "Failed to fetch messages" }, { status: 500 });
+  }
+}
+
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const startedAt = Date.now();
+  const route = "/api/expenses/disputes/[id]/messages";
+
+  try {
+    const user = await requireAuth();
+    const parent = await db.parents.findByUserId(user.userId);
+    if (!parent) {
+      observeApiRequest({ route, method: "POST", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Parent profile not found" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const dispute = await db.expenseDisputes.findById(id);
+    if (!dispute) {
+      observeApiRequest({ route, method: "POST", status: 404, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Dispute not found" }, { status: 404 });
+    }
+    if (dispute.familyId !== parent.familyId) {
+      observeApiRequest({ route, method: "POST", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const result = await postDisputeMessage({
+      dispute,
+      senderParentId: parent.id,
+      body: typeof body?.message === "string" ? body.message : "",
+      proposal: parseAdjustment(body),
+    });
+    if (!result.success) {
+      observeApiRequest({ route, method: "POST", status: 400, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    logEvent("info", "expense_dispute.message_sent", {
+      disputeId: id,
+      familyId: parent.familyId,
+      senderId: parent.id,
+      withProposal: result.message.proposalStatus === "pending",
+    });
+
+    observeApiRequest({ route, method: "POST", status: 201, durationMs: Date.now() - startedAt });
+    return NextResponse.json(result.message, { status: 201 });
+  } catch (error) {
+    logEvent("error", "POST /api/expenses/disputes/[id]/messages error", {
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    observeApiRequest({ route, method: "POST", status: 500, durationMs: Date.now() - startedAt });
+    return NextResponse.json({ error: "Failed to send message" }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * KidSchedule – Expense Dispute Proposal API Route
+ *
+ * POST /api/expenses/disputes/[id]/proposals/[messageId]
+ *
+ * Body: { decision: "accept" | "reject" }.  Accepting applies the proposed
+ * amount or split to the expense and resolves the dispute.
+ */
+
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { db } from "@/lib/persistence";
+import { logEvent } from "@/lib/observability/logger";
+import { observeApiRequest } from "@/lib/observability/api-observability";
+import { respondToDisputeProposal } from "@/lib/expense-disputes";
+
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string; messageId: string }> }
+) {
+  const startedAt = Date.now();
+  const route = "/api/expenses/disputes/[id]/proposals/[messageId]";
+
+  try {
+    const user = await requireAuth();
+    const parent = await db.parents.findByUserId(user.userId);
+    if (!parent) {
+      observeApiRequest({ route, method: "POST", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Parent profile not found" }, { status: 403 });
+    }
+
+    const { id, messageId } = await params;
+    const dispute = await db.expenseDisputes.findById(id);
+    if (!dispute) {
+      observeApiRequest({ route, method: "POST", status: 404, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Dispute not found" }, { status: 404 });
+    }
+    if (dispute.familyId !== parent.familyId) {
+      observeApiRequest({ route, method: "POST", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    if (body?.decision !== "accept" && body?.decision !== "reject") {
+      observeApiRequest({ route, method: "POST", status: 400, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Decision must be accept or reject" }, { status: 400 });
+    }
+
+    const result = await respondToDisputeProposal({
+      dispute,
+      messageId,
+      respondedBy: parent.id,
+      decision: body.decision,
+    });
+    if (!result.success) {
+      observeApiRequest({ route, method: "POST", status: 400, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    logEvent("info", body.decision === "accept" ? "expense_dispute.adjusted" : "expense_dispute.proposal_rejected", {
+      disputeId: id,
+      messageId,
+      familyId: parent.familyId,
+      respondedBy: parent.id,
+    });
+
+    observeApiRequest({ route, method: "POST", status: 200, durationMs: Date.now() - startedAt });
+    return NextResponse.json({ dispute: result.dispute, message: result.message });
+  } catch (error) {
+    logEvent("error", "POST /api/expenses/disputes/[id]/proposals/[messageId] error", {
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    observeApiRequest({ route, method: "POST", status: 500, durationMs: Date.now() - startedAt });
+    return NextResponse.json({ error: "Failed to answer proposal" }, { status: 500 });
+  }
+}
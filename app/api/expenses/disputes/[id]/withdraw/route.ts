@@ -0,0 +1,68 @@
+/**
+ * KidSchedule – Withdraw Expense Dispute API Route
+ *
+ * POST /api/expenses/disputes/[id]/withdraw
+ *
+ * Closes an open dispute without changing the expense. Only the parent who
+ * opened it can withdraw it.
+ */
+
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { db } from "@/lib/persistence";
+import { logEvent } from "@/lib/observability/logger";
+import { observeApiRequest } from "@/lib/observability/api-observability";
+import { withdrawExpenseDispute } from "@/lib/expense-disputes";
+
+export async function POST(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const startedAt = Date.now();
+  const route = "/api/expenses/disputes/[id]/withdraw";
+
+  try {
+    const user = await requireAuth();
+    const parent = await db.parents.findByUserId(user.userId);
+    if (!parent) {
+      observeApiRequest({ route, method: "POST", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Parent profile not found" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const dispute = await db.expenseDisputes.findById(id);
+    if (!dispute) {
+      observeApiRequest({ route, method: "POST", status: 404, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Dispute not found" }, { status: 404 });
+    }
+    if (dispute.familyId !== parent.familyId) {
+      observeApiRequest({ route, method: "POST", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    if (dispute.openedBy !== parent.id) {
+      observeApiRequest({ route, method: "POST", status: 403, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Only the parent who opened the dispute can withdraw it" }, { status: 403 });
+    }
+
+    const result = await withdrawExpenseDispute(dispute, parent.id);
+    if (!result.success) {
+      observeApiRequest({ route, method: "POST", status: 400, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    logEvent("info", "expense_dispute.withdrawn", {
+      disputeId: id,
+      familyId: parent.familyId,
+      withdrawnBy: parent.id,
+    });
+
+    observeApiRequest({ route, method: "POST", status: 204, durationMs: Date.now() - startedAt });
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    logEvent("error", "POST /api/expenses/disputes/[id]/withdraw error", {
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    observeApiRequest({ route, method: "POST", status: 500, durationMs: Date.now() - startedAt });
+    return NextResponse.json({ error: "Failed to withdraw dispute" }, { status: 500 });
+  }
+}
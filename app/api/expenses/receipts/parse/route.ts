@@ -0,0 +1,49 @@
+/**
+ * KidSchedule – Receipt Parsing
+ *
+ * POST /api/expenses/receipts/parse – read the total, date and merchant
+ * from a receipt (multipart `file`) so the add-expense form can pre-fill
+ * itself.  Nothing is stored; only text-based PDFs yield fields, images and
+ * scans return an empty result.
+ */
+
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { logEvent } from "@/lib/observability/logger";
+import { observeApiRequest } from "@/lib/observability/api-observability";
+import { readReceiptFields, validateReceiptFile } from "@/lib/expense-receipts";
+
+export const runtime = "nodejs";
+
+export async function POST(req: Request) {
+  const startedAt = Date.now();
+  const route = "/api/expenses/receipts/parse";
+
+  try {
+    await requireAuth();
+
+    const formData = await req.formData().catch(() => null);
+    const file = formData?.get("file");
+    if (!(file instanceof File)) {
+      observeApiRequest({ route, method: "POST", status: 400, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error: "Attach a receipt file" }, { status: 400 });
+    }
+
+    const error = validateReceiptFile(file);
+    if (error) {
+      observeApiRequest({ route, method: "POST", status: 400, durationMs: Date.now() - startedAt });
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const fields = readReceiptFields(Buffer.from(await file.arrayBuffer()), file.type.toLowerCase());
+
+    observeApiRequest({ route, method: "POST", status: 200, durationMs: Date.now() - startedAt });
+    return NextResponse.json(fields);
+  } catch (error) {
+    logEvent("error", "POST /api/expenses/receipts/parse error", {
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    observeApiRequest({ route, method: "POST", status: 500, durationMs: Date.now() - startedAt });
+    return NextResponse.json({ error: "Failed to read receipt" }, { status: 500 });
+  }
+}
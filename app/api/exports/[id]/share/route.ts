@@ -7,7 +7,8 @@
 import { getDb } from "@/lib/persistence";
 import { getAuthenticatedUser } from "@/app/api/calendar/utils";
 import { logEvent } from "@/lib/observability/logger";
-import { badRequest, unauthorized, notFound } from "@/app/api/calendar/utils";
+import { badRequest, unauthorized, notFound, stepUpRequired } from "@/app/api/calendar/utils";
+import { isStepUpSatisfied } from "@/lib/auth/mfa-service";
 import { NextResponse } from "next/server";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
@@ -51,6 +52,11 @@ export async function POST(
       return unauthorized();
     }
 
+    // Share links expose the export outside the account; require a recent second factor
+    if (!(await isStepUpSatisfied(user))) {
+      return stepUpRequired();
+    }
+
     // 2. Parse and validate request body
     let body: ShareTokenRequest = {};
     try {
@@ -6,13 +6,20 @@
  * Authentication: Required (user must have valid session)
  * Authorization: User must be a member of the family
  *
- * Returns: iCalendar (.ics) file format with all family's calendar events
+ * Query: include=all|custody|activities (default all)
+ *   - custody:    custody periods and handoffs only
+ *   - activities: calendar events only
+ *
+ * Returns: iCalendar (.ics) file format with the family's custody periods,
+ * handoffs and calendar events
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getAuthenticatedUser, userBelongsToFamily, unauthorized, forbidden } from '@/app/api/calendar/utils';
 import { db } from '@/lib/persistence';
-import { generateICalFeed } from '@/lib/ical-generator';
+import { parseFeedContent } from '@/lib/custody-feed';
+import { renderFamilyFeed } from '@/lib/calendar/feed-service';
+import { computeFeedEtag, etagMatches } from '@/lib/calendar/feed-tokens';
 
 export const runtime = 'nodejs';
 
@@ -70,37 +77,24 @@ export async function GET(
       return forbidden('family_not_found', 'Family not found');
     }
 
-    // Step 4: Fetch family's events
-    const events = await db.calendarEvents.findByFamilyId(familyId);
-
-    // Step 5: Convert database events to iCalendar event format
-    // Database stores events with startAt/endAt as ISO strings, but generateICalFeed expects Date objects
-    const icalEvents = events.map(event => ({
-      id: event.id,
-      familyId: event.familyId,
-      title: event.title,
-      description: event.description,
-      location: event.location,
-      startDate: typeof event.startAt === 'string' ? new Date(event.startAt) : event.startAt,
-      endDate: typeof event.endAt === 'string' ? new Date(event.endAt) : event.endAt,
-      isAllDay: event.allDay,
-      category: event.category,
-    }));
+    // Step 4: Render custody periods, handoffs and/or events in the family's timezone
+    const content = parseFeedContent(request.nextUrl?.searchParams.get('include'));
+    const icalContent = await renderFamilyFeed(family, content);
 
-    // Step 6: Generate iCalendar feed
-    const icalContent = generateICalFeed(icalEvents, {
-      id: family.id,
-      name: family.name,
-      // timezone may be undefined if the column hasn't been added yet
-      timezone: (family as { timezone?: string }).timezone,
-    });
+    // Step 5: Let clients that already hold this version skip the body
+    const etag = computeFeedEtag(icalContent);
+    if (etagMatches(request.headers?.get('if-none-match'), etag)) {
+      return makeResponse(null, { status: 304, headers: { ETag: etag } });
+    }
 
-    // Step 7: Return response with correct headers
+    // Step 6: Return response with correct headers
     return makeResponse(icalContent, {
       status: 200,
       headers: {
         'Content-Type': 'text/calendar; charset=utf-8',
         'Content-Disposition': 'attachment; filename="calendar.ics"',
+        'Cache-Control': 'private, no-cache',
+        ETag: etag,
       },
     });
   } catch (error) {
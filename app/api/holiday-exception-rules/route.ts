@@ -8,7 +8,10 @@
  *
  * POST /api/holiday-exception-rules
  *   - Propose a new holiday exception rule (initiates dual-confirmation workflow)
- *   - Body: { familyId, holidayId, custodianParentId, isEnabled, notes? }
+ *   - Body: { familyId, holidayId, custodianParentId, isEnabled, notes?, window?, assignment? }
+ *     window: custody period around the holiday, e.g. { startOffsetDays: -1, startTime: "18:00",
+ *     endOffsetDays: 3, endTime: "18:00" }; assignment: { mode: "alternate_years",
+ *     oddYearParentId, evenYearParentId } or { mode: "rotate", parentIds, startYear }
  *   - Returns: DbHolidayExceptionRule
  *
  * PUT /api/holiday-exception-rules
@@ -26,7 +29,12 @@ export const runtime = "nodejs";
 
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
-import type { DbHolidayExceptionRule } from "@/lib/persistence/types";
+import type {
+  DbHolidayExceptionRule,
+  HolidayAssignment,
+  HolidayWindow,
+} from "@/lib/persistence/types";
+import { validateHolidayAssignment, validateHolidayWindow } from "@/lib/holiday-rules";
 import {
   getAuthenticatedUser,
   userBelongsToFamily,
@@ -50,6 +58,8 @@ interface ProposeRuleBody {
   custodianParentId: string;
   isEnabled: boolean;
   notes?: string;
+  window?: HolidayWindow;
+  assignment?: HolidayAssignment;
 }
 
 interface ConfirmRuleBody {
@@ -222,6 +232,10 @@ async function handlePost(request: NextRequest): Promise<NextResponse> {
     if (typeof body.isEnabled !== "boolean") {
       return badRequest("invalid_request", "isEnabled must be a boolean");
     }
+    const windowError = body.window ? validateHolidayWindow(body.window) : null;
+    if (windowError) {
+      return badRequest("invalid_request", windowError);
+    }
 
     // 5. Authorize family access
     const belongsToFamily = await userBelongsToFamily(
@@ -240,8 +254,17 @@ async function handlePost(request: NextRequest): Promise<NextResponse> {
       );
     }
 
-    // 6. Propose exception rule
+    // 6. Check the year-by-year assignment names this family's parents
     const db = getDb();
+    if (body.assignment) {
+      const parentIds = (await db.parents.findByFamilyId(body.familyId)).map((p) => p.id);
+      const assignmentError = validateHolidayAssignment(body.assignment, parentIds);
+      if (assignmentError) {
+        return badRequest("invalid_request", assignmentError);
+      }
+    }
+
+    // 7. Propose exception rule
     const rule = await db.holidayExceptionRules.propose(
       {
         familyId: body.familyId,
@@ -249,6 +272,8 @@ async function handlePost(request: NextRequest): Promise<NextResponse> {
         custodianParentId: body.custodianParentId,
         isEnabled: body.isEnabled,
         notes: body.notes?.trim(),
+        window: body.window,
+        assignment: body.assignment,
       },
       user.userId
     );
@@ -259,6 +284,7 @@ async function handlePost(request: NextRequest): Promise<NextResponse> {
       familyId: body.familyId,
       holidayId: body.holidayId,
       custodianParentId: body.custodianParentId,
+      assignment: body.assignment?.mode ?? "fixed",
     });
 
     observeApiRequest({
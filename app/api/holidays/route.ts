@@ -8,7 +8,8 @@
  *
  * POST /api/holidays
  *   - Create custom family-scoped holidays
- *   - Body: { name, date (YYYY-MM-DD), type, jurisdiction, description?, familyId }
+ *   - Body: { name, date (YYYY-MM-DD) or rule, type, jurisdiction, description?, familyId }
+ *     where rule computes the date each year, e.g. { kind: "nth_weekday", month: 11, weekday: 4, nth: 4 }
  *   - Returns: DbHolidayDefinition
  */
 
@@ -16,7 +17,8 @@ export const runtime = "nodejs";
 
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
-import type { DbHolidayDefinition } from "@/lib/persistence/types";
+import type { DbHolidayDefinition, HolidayDateRule } from "@/lib/persistence/types";
+import { validateHolidayDateRule } from "@/lib/holiday-rules";
 import {
   getAuthenticatedUser,
   userBelongsToFamily,
@@ -36,7 +38,8 @@ import { observeApiRequest } from "@/lib/observability/api-observability";
 
 interface CreateHolidayBody {
   name: string;
-  date: string; // YYYY-MM-DD format
+  date?: string; // YYYY-MM-DD format
+  rule?: HolidayDateRule;
   type: "federal" | "state" | "religious" | "cultural" | "custom";
   jurisdiction: string;
   description?: string;
@@ -185,8 +188,11 @@ async function handlePost(request: NextRequest): Promise<NextResponse> {
     if (!body.name?.trim()) {
       return badRequest("invalid_request", "Holiday name is required");
     }
-    if (!body.date?.trim()) {
-      return badRequest("invalid_request", "Holiday date is required");
+    if (!body.date?.trim() && !body.rule) {
+      return badRequest("invalid_request", "Holiday date or rule is required");
+    }
+    if (body.date && body.rule) {
+      return badRequest("invalid_request", "Provide either a holiday date or a rule, not both");
     }
     if (!body.type) {
       return badRequest("invalid_request", "Holiday type is required");
@@ -196,12 +202,16 @@ async function handlePost(request: NextRequest): Promise<NextResponse> {
     }
 
     // Validate date format (YYYY-MM-DD)
-    if (!/^\d{4}-\d{2}-\d{2}$/.test(body.date)) {
+    if (body.date && !/^\d{4}-\d{2}-\d{2}$/.test(body.date)) {
       return badRequest(
         "invalid_request",
         "Holiday date must be in YYYY-MM-DD format"
       );
     }
+    const ruleError = body.rule ? validateHolidayDateRule(body.rule) : null;
+    if (ruleError) {
+      return badRequest("invalid_request", ruleError);
+    }
 
     // Validate type
     const validTypes = [
@@ -242,6 +252,7 @@ async function handlePost(request: NextRequest): Promise<NextResponse> {
     const holiday = await db.holidays.create({
       name: body.name.trim(),
       date: body.date,
+      rule: body.rule,
       type: body.type,
       jurisdiction: body.jurisdiction.trim(),
       description: body.description?.trim(),
@@ -3,16 +3,25 @@
  *
  * POST /api/moments/upload
  * Accepts multipart/form-data with a 'file' field.
- * Validates file type and size, uploads to storage, returns media URL.
+ * Validates file type and size, stores the file under the caller's family
+ * (`moments/<familyId>/`), and returns its storage key as `mediaUrl` for
+ * the share form, plus a short-lived signed `previewUrl`.
  */
 
 import { NextResponse, type NextRequest } from "next/server";
-import { createLocalStorageAdapter } from "@/lib/storage/local";
-import { getMomentsStorageConfig } from "@/lib/config";
+import { getCurrentUser } from "@/lib/auth";
+import { db } from "@/lib/persistence";
+import { buildStorageKey, getStorageAdapter } from "@/lib/storage";
 
 const ACCEPTED_TYPES = ["image/png", "image/jpeg", "video/mp4"];
 const MAX_SIZE_BYTES = 50 * 1024 * 1024; // 50MB
 
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "video/mp4": "mp4",
+};
+
 export const runtime = "nodejs";
 
 async function validateFile(file: File): Promise<{ valid: true } | { valid: false; error: string }> {
@@ -39,6 +48,22 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
   const startedAt = Date.now();
 
   try {
+    const session = await getCurrentUser();
+    if (!session) {
+      return NextResponse.json(
+        { error: "UNAUTHORIZED", message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const parent = await db.parents.findByUserId(session.userId);
+    if (!parent) {
+      return NextResponse.json(
+        { error: "NO_FAMILY", message: "Set up your family before sharing moments." },
+        { status: 403 }
+      );
+    }
+
     // Parse multipart form data
     const formData = await request.formData();
     const file = formData.get("file") as File | null;
@@ -63,14 +88,13 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     const fileBuffer = Buffer.from(await file.arrayBuffer());
 
     // Upload to storage
-    const storageConfig = getMomentsStorageConfig();
-    const storageAdapter = createLocalStorageAdapter(storageConfig);
-
-    const { url: mediaUrl } = await storageAdapter.upload(
+    const storage = getStorageAdapter();
+    const { key: mediaUrl } = await storage.upload(
+      buildStorageKey("moments", parent.familyId, crypto.randomUUID(), EXTENSIONS[file.type]),
       fileBuffer,
-      file.name,
       file.type
     );
+    const previewUrl = await storage.getSignedUrl(mediaUrl);
 
     // Log success
     console.log(`[Moments Upload] File uploaded: ${requestId}`, {
@@ -82,6 +106,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     return NextResponse.json(
       {
         mediaUrl,
+        previewUrl,
         mediaType: file.type,
       },
       { status: 200 }
@@ -62,6 +62,7 @@ export async function POST(request: NextRequest) {
     const results = [];
     let successCount = 0;
     let failureCount = 0;
+    let deferredCount = 0;
 
     if (notificationIds && notificationIds.length > 0) {
       // Deliver specific notifications (backward compatibility, no locking)
@@ -79,6 +80,8 @@ export async function POST(request: NextRequest) {
         results.push(result.result);
         if (result.result.success) {
           successCount++;
+        } else if (result.result.deferredUntil) {
+          deferredCount++;
         } else {
           failureCount++;
         }
@@ -106,6 +109,8 @@ export async function POST(request: NextRequest) {
             results.push(result.result);
             if (result.result.success) {
               successCount++;
+            } else if (result.result.deferredUntil) {
+              deferredCount++;
             } else {
               failureCount++;
             }
@@ -124,6 +129,7 @@ export async function POST(request: NextRequest) {
       success: true,
       delivered: successCount,
       failed: failureCount,
+      deferred: deferredCount,
       total: results.length,
       results,
     });
@@ -146,6 +152,8 @@ interface DeliveryResult {
   success: boolean;
   error?: string;
   messageId?: string;
+  /** Set when the recipient's quiet hours pushed delivery back */
+  deferredUntil?: string;
 }
 
 async function deliverSingleNotification(notification: DbScheduledNotification): Promise<{ result: DeliveryResult }> {
@@ -181,6 +189,7 @@ async function deliverSingleNotification(notification: DbScheduledNotification):
     result.success = deliveryResult.success;
     result.messageId = deliveryResult.messageId;
     result.error = deliveryResult.error;
+    result.deferredUntil = deliveryResult.deferredUntil;
   } catch (error) {
     console.error(`Failed to deliver notification ${notification.id}:`, error);
     result.error = error instanceof Error ? error.message : "Unknown error";
@@ -0,0 +1,198 @@
+/**
+ * KidSchedule – Push Subscription API
+ *
+ * Lets a signed-in parent register and unregister browsers for Web Push
+ * handoff reminders.  The service worker client (public/push-sw.js) reads
+ * the VAPID public key from GET, subscribes with the browser's PushManager
+ * and posts the resulting PushSubscription JSON here.
+ *
+ * GET    /api/notifications/push  → { publicKey, subscriptions }
+ * POST   /api/notifications/push  { endpoint, keys: { p256dh, auth } }
+ * DELETE /api/notifications/push  { endpoint }
+ */
+
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { getDb } from "@/lib/persistence";
+import { getPushSender } from "@/lib/providers/push";
+import {
+  getAuthenticatedUser,
+  badRequest,
+  unauthorized,
+  forbidden,
+  notFound,
+  internalError,
+  parseJson,
+  generateRequestId,
+} from "../../calendar/utils";
+import { logEvent } from "@/lib/observability/logger";
+
+const db = getDb();
+
+const BASE64URL_PATTERN = /^[A-Za-z0-9_-]+={0,2}$/;
+const MAX_ENDPOINT_LENGTH = 2048;
+
+interface PushSubscriptionBody {
+  endpoint?: unknown;
+  keys?: { p256dh?: unknown; auth?: unknown };
+}
+
+/**
+ * Push services are always reached over HTTPS; anything else cannot be a
+ * real PushSubscription and would let a caller point delivery anywhere.
+ */
+function isValidEndpoint(endpoint: unknown): endpoint is string {
+  if (typeof endpoint !== "string" || endpoint.length > MAX_ENDPOINT_LENGTH) {
+    return false;
+  }
+  try {
+    return new URL(endpoint).protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+function isBase64Url(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0 && BASE64URL_PATTERN.test(value);
+}
+
+async function getCurrentParent() {
+  const auth = await getAuthenticatedUser();
+  if (!auth) {
+    return { auth: null, parent: null };
+  }
+  return { auth, parent: await db.parents.findByUserId(auth.userId) };
+}
+
+// ─── GET /api/notifications/push ──────────────────────────────────────────────
+
+export async function GET(): Promise<NextResponse> {
+  try {
+    const { auth, parent } = await getCurrentParent();
+    if (!auth) {
+      return unauthorized("unauthenticated", "Authentication required");
+    }
+    if (!parent) {
+      return forbidden("no_parent", "No parent profile for this account");
+    }
+
+    const subscriptions = await db.pushSubscriptions.findByParentId(parent.id);
+    return NextResponse.json({
+      publicKey: getPushSender().publicKey ?? null,
+      subscriptions: subscriptions.map((subscription) => ({
+        endpoint: subscription.endpoint,
+        userAgent: subscription.userAgent ?? null,
+        lastUsedAt: subscription.lastUsedAt ?? null,
+        createdAt: subscription.createdAt,
+      })),
+    });
+  } catch (error) {
+    logEvent("error", "Push subscriptions: list failed", {
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    return internalError("internal_error", "Failed to load push subscriptions");
+  }
+}
+
+// ─── POST /api/notifications/push ─────────────────────────────────────────────
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const requestId = generateRequestId();
+
+  try {
+    const { auth, parent } = await getCurrentParent();
+    if (!auth) {
+      return unauthorized("unauthenticated", "Authentication required");
+    }
+    if (!parent) {
+      return forbidden("no_parent", "No parent profile for this account");
+    }
+
+    const parseResult = await parseJson<PushSubscriptionBody>(request);
+    if (!parseResult.success) {
+      return badRequest("invalid_json", parseResult.error);
+    }
+
+    const { endpoint, keys } = parseResult.data;
+    if (!isValidEndpoint(endpoint)) {
+      return badRequest("invalid_input", "endpoint must be an https URL");
+    }
+    if (!isBase64Url(keys?.p256dh) || !isBase64Url(keys?.auth)) {
+      return badRequest("invalid_input", "keys.p256dh and keys.auth are required");
+    }
+
+    const userAgent = request.headers.get("user-agent")?.slice(0, 512) || undefined;
+    const subscription = await db.pushSubscriptions.upsert({
+      parentId: parent.id,
+      endpoint,
+      p256dh: keys.p256dh,
+      auth: keys.auth,
+      userAgent,
+    });
+
+    logEvent("info", "Push subscription registered", {
+      requestId,
+      parentId: parent.id,
+      subscriptionId: subscription.id,
+    });
+
+    return NextResponse.json(
+      { success: true, endpoint: subscription.endpoint, createdAt: subscription.createdAt },
+      { status: 201 }
+    );
+  } catch (error) {
+    logEvent("error", "Push subscriptions: register failed", {
+      requestId,
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    return internalError("internal_error", "Failed to register push subscription");
+  }
+}
+
+// ─── DELETE /api/notifications/push ───────────────────────────────────────────
+
+export async function DELETE(request: NextRequest): Promise<NextResponse> {
+  const requestId = generateRequestId();
+
+  try {
+    const { auth, parent } = await getCurrentParent();
+    if (!auth) {
+      return unauthorized("unauthenticated", "Authentication required");
+    }
+    if (!parent) {
+      return forbidden("no_parent", "No parent profile for this account");
+    }
+
+    const parseResult = await parseJson<{ endpoint?: unknown }>(request);
+    if (!parseResult.success) {
+      return badRequest("invalid_json", parseResult.error);
+    }
+
+    const { endpoint } = parseResult.data;
+    if (typeof endpoint !== "string" || endpoint.length === 0) {
+      return badRequest("invalid_input", "endpoint is required");
+    }
+
+    // Another parent's subscription looks the same as an unknown one
+    const existing = await db.pushSubscriptions.findByEndpoint(endpoint);
+    if (!existing || existing.parentId !== parent.id) {
+      return notFound("not_found", "Push subscription not found");
+    }
+
+    await db.pushSubscriptions.deleteByEndpoint(endpoint);
+    logEvent("info", "Push subscription removed", {
+      requestId,
+      parentId: parent.id,
+      subscriptionId: existing.id,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logEvent("error", "Push subscriptions: unregister failed", {
+      requestId,
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    return internalError("internal_error", "Failed to remove push subscription");
+  }
+}
@@ -11,8 +11,7 @@ export const runtime = "nodejs";
 import { NextRequest, NextResponse } from "next/server";
 import { getDb } from "@/lib/persistence";
 import { NotificationSchedulerEngine } from "@/lib/notification";
-import { CustodyEngine } from "@/lib/custody";
-import type { CustodySchedule, ScheduleBlock } from "@/lib";
+import { CustodyEngine, toCustodySchedule, toScheduleVersions } from "@/lib/custody";
 import {
   getAuthenticatedUser,
   userBelongsToFamily,
@@ -113,12 +112,10 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       );
     }
 
-    // Parse custody schedule blocks from JSON
-    let blocks: ScheduleBlock[];
-    try {
-      blocks = JSON.parse(dbSchedule.blocks);
-    } catch (error) {
-      logEvent("error", "Schedule notifications: failed to parse custody schedule", { requestId, familyId, error: error instanceof Error ? error.message : "unknown" });
+    // Parse the custody schedule with its seasons, phases and weekly blocks
+    const schedule = toCustodySchedule(dbSchedule);
+    if (!schedule) {
+      logEvent("error", "Schedule notifications: failed to parse custody schedule", { requestId, familyId });
       observeApiRequest({ route, method: "POST", status: 500, durationMs: Date.now() - startedAt });
       return NextResponse.json(
         { error: "invalid_schedule_format", message: "Invalid custody schedule format" },
@@ -126,14 +123,6 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       );
     }
 
-    // Build Family object for CustodyEngine
-    const schedule: CustodySchedule = {
-      id: dbSchedule.id,
-      name: dbSchedule.name,
-      blocks,
-      transitionHour: dbSchedule.transitionHour,
-    };
-
     // Convert DbParent to Parent interface (extract only needed fields)
     const parentsForEngine = parents.map(p => ({
       id: p.id,
@@ -141,18 +130,31 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       email: p.email,
       phone: p.phone,
       avatarUrl: p.avatarUrl,
+      timezone: p.timezone,
     }));
 
+    // Children's ages end age-based step-up phases
+    const children = await db.children.findByFamilyId(familyId);
+
     const familyForEngine = {
       id: family.id,
       parents: parentsForEngine as [typeof parentsForEngine[0], typeof parentsForEngine[0]],
-      children: [],
+      children: children.map((c) => ({
+        id: c.id,
+        firstName: c.firstName,
+        lastName: c.lastName,
+        dateOfBirth: c.dateOfBirth,
+        avatarUrl: c.avatarUrl,
+      })),
       custodyAnchorDate: family.custodyAnchorDate,
+      timezone: family.timezone,
       schedule,
+      scheduleVersions: toScheduleVersions(await db.custodyScheduleVersions.findApprovedByFamilyId(familyId)),
     };
 
-    // Use CustodyEngine to get real transitions
-    const custodyEngine = new CustodyEngine(familyForEngine);
+    // Use CustodyEngine to get real transitions, including holidays and approved swaps
+    const activeOverrides = await db.scheduleOverrides.findActiveByFamilyId(familyId);
+    const custodyEngine = new CustodyEngine(familyForEngine, activeOverrides);
     const now = new Date();
     const lookAheadMs = lookAheadHours * 60 * 60 * 1000;
     const lookaheadEnd = new Date(now.getTime() + lookAheadMs);
@@ -160,13 +162,15 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     // Get upcoming transitions from the custody schedule
     const transitions = custodyEngine.getTransitionsInRange(now, lookaheadEnd);
 
-    // Schedule notifications using real custody transitions
+    // Schedule notifications using real custody transitions and each parent's preferences
+    const preferences = await db.notificationPreferences.findByFamilyId(familyId);
     const result = scheduler.scheduleNotifications({
       familyId,
       parents: parentsForEngine,
       transitions,
       now,
-      timeZone: ((family as unknown) as { timeZone?: string }).timeZone || "UTC",
+      timeZone: family.timezone,
+      preferences,
     });
 
     // Deduplicate notifications
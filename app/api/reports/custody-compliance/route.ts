@@ -46,16 +46,32 @@ const ExportSchema = z.object({
       compliancePercentage: z.number(),
       totalDeviations: z.number(),
       totalOverrides: z.number(),
+      totalExchanges: z.number(),
+      lateExchanges: z.number(),
+      missedExchanges: z.number(),
+      disputedExchanges: z.number(),
+      averageLatenessMinutes: z.number(),
     }),
     periods: z.array(z.object({
       startTime: z.string(),
       endTime: z.string(),
       scheduledParentId: z.string(),
       actualParentId: z.string().optional(),
-      eventId: z.string().optional(),
+      checkInId: z.string().optional(),
+      overrideId: z.string().optional(),
       compliance: z.boolean(),
       notes: z.string().optional(),
     })),
+    exchanges: z.array(z.object({
+      scheduledAt: z.string(),
+      fromParentId: z.string(),
+      toParentId: z.string(),
+      status: z.enum(['on_time', 'late', 'missed', 'disputed']),
+      occurredAt: z.string().optional(),
+      latenessMinutes: z.number(),
+      checkInId: z.string().optional(),
+      confirmed: z.boolean(),
+    })),
     overrides: z.array(z.any()), // Simplified for now
     changeRequests: z.array(z.any()), // Simplified for now
     generatedAt: z.string(),
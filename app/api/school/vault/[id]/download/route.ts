@@ -3,34 +3,27 @@
  *
  * File download endpoint for school vault documents.
  *
- * Verifies document belongs to user's family (RLS), serves file from disk,
- * logs download access for audit trail, and returns proper Content headers.
- *
- * For local storage: Streams file from disk with proper Content-Type and Content-Disposition
- * For production: Would generate signed URL (e.g., AWS S3) with 1-hour expiry
+ * Verifies document belongs to user's family (RLS), logs download access for
+ * audit trail, and redirects to a short-lived signed URL from the storage
+ * backend (local or S3-compatible) that serves the file as an attachment.
  *
  * Request: GET /api/school/vault/{id}/download
  *   - id: UUID of document to download
  *
- * Response (200): File binary stream
- *   - Content-Type: application/pdf, application/msword, etc. (based on file type)
- *   - Content-Disposition: attachment; filename="{title}.{ext}"
- *   - Content-Length: file size in bytes
- *
  * Response (302): Redirect to signed URL
- *   - Location: Signed URL from storage backend (AWS/Azure)
+ *   - Location: Signed URL, valid for STORAGE_SIGNED_URL_TTL_SECONDS
+ *   - The signed URL responds with Content-Disposition: attachment; filename="{title}.{ext}"
  *
  * Error responses:
  *   - 401: Unauthenticated (no valid session)
  *   - 403: Forbidden (user doesn't belong to document's family)
  *   - 404: Not found (document doesn't exist or is deleted)
- *   - 500: Server error (file read failure, database error)
+ *   - 500: Server error (file missing from storage, database error)
  */
 
 import { NextResponse } from "next/server";
-import fs from "fs/promises";
-import path from "path";
 import { db } from "@/lib/persistence";
+import { getStorageAdapter, storageKeyFromReference } from "@/lib/storage";
 import { logEvent } from "@/lib/observability/logger";
 import { observeApiRequest } from "@/lib/observability/api-observability";
 import {
@@ -43,52 +36,6 @@ import {
 
 export const runtime = "nodejs";
 
-// ─── Configuration ────────────────────────────────────────────────────────
-
-const UPLOADS_BASE_DIR = "/uploads/vault";
-
-// MIME type mapping for file type to content type
-const MIME_TYPE_MAP: Record<string, string> = {
-  pdf: "application/pdf",
-  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-  jpg: "image/jpeg",
-  png: "image/png",
-};
-
-// ─── Helper Functions ────────────────────────────────────────────────────
-
-/**
- * Get MIME type from file extension.
- * Returns MIME type string or a sensible default.
- */
-function getMimeType(fileType: string): string {
-  const normalized = fileType.toLowerCase().trim();
-  return MIME_TYPE_MAP[normalized] ?? "application/octet-stream";
-}
-
-/**
- * Read file from disk for local storage.
- * Throws error if file doesn't exist.
- */
-async function readFileFromDisk(
-  familyId: string,
-  documentId: string,
-  fileType: string
-): Promise<Buffer> {
-  try {
-    const filename = `${documentId}.${fileType}`;
-    const filepath = path.join(UPLOADS_BASE_DIR, familyId, filename);
-    const buffer = await fs.readFile(filepath);
-    return buffer;
-  } catch (error) {
-    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
-      throw new Error("File not found on disk");
-    }
-    throw error;
-  }
-}
-
 // ─── Route Handler ────────────────────────────────────────────────────────
 
 export async function GET(
@@ -236,25 +183,15 @@ export async function GET(
       );
     }
 
-    // 8. Read file from disk (local storage)
-    let fileBuffer: Buffer;
-    try {
-      fileBuffer = await readFileFromDisk(
-        familyId,
-        documentId,
-        document.fileType
-      );
-    } catch (fileError) {
-      const errorMessage =
-        fileError instanceof Error ? fileError.message : "unknown error";
-
-      logEvent("error", "Vault download: file read failed", {
+    // 8. Locate the file in storage
+    const storageKey = storageKeyFromReference(document.url);
+    if (!storageKey) {
+      logEvent("error", "Vault download: document has no stored file", {
         requestId,
         userId: user.userId,
         familyId,
         documentId,
         fileType: document.fileType,
-        error: errorMessage,
       });
 
       observeApiRequest({
@@ -293,9 +230,10 @@ export async function GET(
       });
     }
 
-    // 10. Return file with proper headers
-    const mimeType = getMimeType(document.fileType);
-    const filename = `${document.title}.${document.fileType}`;
+    // 10. Redirect to a short-lived signed URL
+    const signedUrl = await getStorageAdapter().getSignedUrl(storageKey, {
+      downloadFilename: `${document.title}.${document.fileType}`,
+    });
 
     // Log successful download
     logEvent("info", "Vault document downloaded successfully", {
@@ -305,30 +243,19 @@ export async function GET(
       documentId,
       documentTitle: document.title,
       fileType: document.fileType,
-      sizeBytes: fileBuffer.length,
+      sizeBytes: document.sizeBytes,
     });
 
     observeApiRequest({
       route: "/api/school/vault/[id]/download",
       method: "GET",
-      status: 200,
+      status: 302,
       durationMs: Date.now() - startedAt,
     });
 
-    // Convert buffer to Blob for NextResponse
-    const blob = new Blob([fileBuffer as unknown as BlobPart], { type: mimeType });
-
-    return new NextResponse(blob, {
-      status: 200,
-      headers: {
-        "Content-Type": mimeType,
-        "Content-Disposition": `attachment; filename="${filename}"`,
-        "Content-Length": fileBuffer.length.toString(),
-        "Cache-Control": "no-cache, no-store, must-revalidate",
-        "Pragma": "no-cache",
-        "Expires": "0",
-      },
-    });
+    const response = NextResponse.redirect(new URL(signedUrl, request.url), 302);
+    response.headers.set("Cache-Control", "no-cache, no-store, must-revalidate");
+    return response;
   } catch (error) {
     // Unexpected error
     const errorMessage =
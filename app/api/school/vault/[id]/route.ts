@@ -28,7 +28,8 @@
  *
  * Error responses:
  *   - 401: Unauthenticated (no valid session)
- *   - 403: Forbidden (user doesn't belong to document's family)
+ *   - 403: Forbidden (user doesn't belong to document's family), or
+ *          step_up_required (MFA enabled and no recent second-factor check)
  *   - 404: Not found (document doesn't exist or is already deleted)
  *   - 500: Server error (database error, audit log failure)
  */
@@ -43,7 +44,9 @@ import {
   forbidden,
   notFound,
   internalError,
+  stepUpRequired,
 } from "@/app/api/calendar/utils";
+import { isStepUpSatisfied } from "@/lib/auth/mfa-service";
 
 export const runtime = "nodejs";
 
@@ -100,6 +103,24 @@ export async function DELETE(
       );
     }
 
+    // Deleting documents is irreversible; require a recent second factor
+    if (!(await isStepUpSatisfied(user))) {
+      logEvent("info", "Vault delete: step-up required", {
+        requestId,
+        userId: user.userId,
+        documentId,
+      });
+
+      observeApiRequest({
+        route: "/api/school/vault/[id]",
+        method: "DELETE",
+        status: 403,
+        durationMs: Date.now() - startedAt,
+      });
+
+      return stepUpRequired();
+    }
+
     // 3. Get user's family context
     const parent = await db.parents.findByUserId(user.userId);
     if (!parent) {
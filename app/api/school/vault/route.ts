@@ -19,7 +19,7 @@
  *         status: string;
  *         statusLabel: string;
  *         sizeBytes: number;
- *         url: string;
+ *         url: string (/api/school/vault/{id}/download);
  *         addedAt: string (ISO 8601);
  *         addedBy: string (userId);
  *         updatedAt: string (ISO 8601);
@@ -323,7 +323,7 @@ export async function GET(request: Request): Promise<NextResponse> {
         status: doc.status,
         statusLabel: doc.statusLabel,
         sizeBytes: doc.sizeBytes ?? 0,
-        url: doc.url ?? "",
+        url: `/api/school/vault/${doc.id}/download`,
         addedAt: doc.addedAt,
         addedBy: doc.addedBy,
         updatedAt: doc.updatedAt,
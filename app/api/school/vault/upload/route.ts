@@ -4,11 +4,16 @@
  * File upload endpoint for school vault documents.
  *
  * Validates file type, size, and quota before storing.
- * Stores files to disk and creates vault document record.
+ * Stores the file in object storage under `vault/<familyId>/` and creates
+ * the vault document record, which keeps the storage key.  Files are never
+ * publicly addressable; `url` is the authenticated download route, which
+ * redirects to a short-lived signed URL.
  *
  * Request: multipart/form-data with:
  *   - title: string (document title)
  *   - file: File (pdf, docx, xlsx, jpg, png only; max 20MB)
+ *   - requiresSignature?: "true" (mark pending_signature and notify the co-parent)
+ *   - actionDeadline?: string (YYYY-MM-DD signature deadline)
  *
  * Response (201): Created document with URL
  *   {
@@ -19,7 +24,7 @@
  *     status: "available";
  *     statusLabel: "Available";
  *     sizeBytes: number;
- *     url: string;
+ *     url: string (/api/school/vault/{id}/download);
  *     addedAt: string (ISO 8601);
  *     addedBy: string (userId);
  *     updatedAt: string (ISO 8601);
@@ -35,10 +40,10 @@
  */
 
 import { NextResponse } from "next/server";
-import fs from "fs/promises";
-import path from "path";
 import { db } from "@/lib/persistence";
+import { buildStorageKey, getStorageAdapter } from "@/lib/storage";
 import { logEvent } from "@/lib/observability/logger";
+import { publishNotificationEvent } from "@/lib/notification-events";
 import { observeApiRequest } from "@/lib/observability/api-observability";
 import { getAuthenticatedUser, userBelongsToFamily, unauthorized, badRequest, notFound, forbidden, internalError } from "@/app/api/calendar/utils";
 
@@ -48,7 +53,6 @@ export const runtime = "nodejs";
 
 const MAX_FILE_SIZE_BYTES = 20 * 1024 * 1024; // 20MB
 const ALLOWED_FILE_TYPES = new Set(["pdf", "docx", "xlsx", "jpg", "png"]);
-const UPLOADS_BASE_DIR = "/uploads/vault";
 
 // MIME type mapping for validation
 const MIME_TYPE_MAP: Record<string, string> = {
@@ -152,45 +156,22 @@ async function getAuthenticatedAndVerified(familyId: string): Promise<
 }
 
 /**
- * Ensure uploads directory exists.
+ * Store the file and return its storage key.
  */
-async function ensureUploadDir(): Promise<void> {
-  try {
-    await fs.mkdir(UPLOADS_BASE_DIR, { recursive: true });
-  } catch (error) {
-    logEvent("error", "Failed to create upload directory", {
-      dir: UPLOADS_BASE_DIR,
-      error: error instanceof Error ? error.message : "unknown",
-    });
-    throw new Error("Failed to prepare storage");
-  }
-}
-
-/**
- * Save file to disk and return the path.
- */
-async function saveFileToDisk(
+async function storeVaultFile(
   buffer: Buffer,
   familyId: string,
-  documentId: string,
+  mimeType: string,
   extension: string
 ): Promise<string> {
+  const key = buildStorageKey("vault", familyId, crypto.randomUUID(), extension);
   try {
-    // Create family directory if needed
-    const familyDir = path.join(UPLOADS_BASE_DIR, familyId);
-    await fs.mkdir(familyDir, { recursive: true });
-
-    // Save file
-    const filename = `${documentId}.${extension}`;
-    const filepath = path.join(familyDir, filename);
-    await fs.writeFile(filepath, buffer);
-
-    // Return relative URL path (will be served by the app)
-    return `/uploads/vault/${familyId}/${filename}`;
+    await getStorageAdapter().upload(key, buffer, mimeType);
+    return key;
   } catch (error) {
-    logEvent("error", "Failed to save file to disk", {
+    logEvent("error", "Failed to store vault file", {
       familyId,
-      documentId,
+      key,
       error: error instanceof Error ? error.message : "unknown",
     });
     throw new Error("Failed to store file");
@@ -209,6 +190,12 @@ export async function POST(request: Request): Promise<NextResponse> {
     const title = formData.get("title");
     const file = formData.get("file");
     const familyId = formData.get("familyId");
+    const requiresSignature = formData.get("requiresSignature") === "true";
+    const actionDeadlineRaw = formData.get("actionDeadline");
+    const actionDeadline =
+      typeof actionDeadlineRaw === "string" && /^\d{4}-\d{2}-\d{2}$/.test(actionDeadlineRaw)
+        ? actionDeadlineRaw
+        : undefined;
 
     // 2. Validate required fields
     if (
@@ -309,21 +296,15 @@ export async function POST(request: Request): Promise<NextResponse> {
     const buffer = await file.arrayBuffer();
     const fileBuffer = Buffer.from(buffer);
 
-    // 7. Ensure upload directory exists
-    await ensureUploadDir();
-
-    // 8. Generate document ID (will be used as filename)
-    const documentId = crypto.randomUUID();
-
-    // 9. Save file to disk
-    const fileUrl = await saveFileToDisk(
+    // 7. Store the file
+    const storageKey = await storeVaultFile(
       fileBuffer,
       familyId,
-      documentId,
+      file.type.toLowerCase().trim(),
       extension!
     );
 
-    // 10. Create vault document record via repository
+    // 8. Create vault document record via repository
     // This checks quota and creates the record atomically
     let createdDocument;
     try {
@@ -332,10 +313,15 @@ export async function POST(request: Request): Promise<NextResponse> {
         title: title.trim(),
         fileType: extension!,
         sizeBytes: fileBuffer.length,
-        url: fileUrl,
+        url: storageKey,
         addedBy: user.userId,
-        actionDeadline: undefined,
+        actionDeadline,
       });
+      if (requiresSignature) {
+        createdDocument =
+          (await db.schoolVaultDocuments.update(createdDocument.id, { status: "pending_signature" })) ??
+          createdDocument;
+      }
     } catch (dbError) {
       // Handle specific HTTP errors from repository
       // The repository throws HttpError with statusCode property
@@ -344,6 +330,9 @@ export async function POST(request: Request): Promise<NextResponse> {
       const errorMessage =
         dbError instanceof Error ? dbError.message : "unknown database error";
 
+      // Don't leave an orphaned object behind the failed record
+      await getStorageAdapter().delete(storageKey).catch(() => undefined);
+
       logEvent("error", "Vault upload: repository error", {
         requestId,
         userId: user.userId,
@@ -378,7 +367,7 @@ export async function POST(request: Request): Promise<NextResponse> {
       }
     }
 
-    // 11. Log successful upload
+    // 9. Log successful upload
     logEvent("info", "Vault document uploaded successfully", {
       requestId,
       userId: user.userId,
@@ -388,7 +377,24 @@ export async function POST(request: Request): Promise<NextResponse> {
       sizeBytes: fileBuffer.length,
     });
 
-    // 12. Return 201 Created with document details
+    // 10. Ask the co-parent to sign
+    if (createdDocument.status === "pending_signature") {
+      const uploader = await db.parents.findByUserId(user.userId);
+      if (uploader) {
+        await publishNotificationEvent({
+          type: "vault.signature_requested",
+          familyId,
+          actorParentId: uploader.id,
+          payload: {
+            documentId: createdDocument.id,
+            title: createdDocument.title,
+            actionDeadline: createdDocument.actionDeadline ?? null,
+          },
+        });
+      }
+    }
+
+    // 11. Return 201 Created with document details
     const response: UploadedDocument = {
       id: createdDocument.id,
       familyId: createdDocument.familyId,
@@ -397,7 +403,7 @@ export async function POST(request: Request): Promise<NextResponse> {
       status: createdDocument.status,
       statusLabel: createdDocument.statusLabel,
       sizeBytes: createdDocument.sizeBytes ?? 0,
-      url: createdDocument.url ?? "",
+      url: `/api/school/vault/${createdDocument.id}/download`,
       addedAt: createdDocument.addedAt,
       addedBy: createdDocument.addedBy,
       updatedAt: createdDocument.updatedAt,
@@ -0,0 +1,69 @@
+/**
+ * KidSchedule – Signed Storage Downloads
+ *
+ * Serves objects from the local storage adapter through the short-lived
+ * signed URLs it issues.  Browsers follow these URLs without a session
+ * (e.g. <img src>), so the signature and expiry are the only access check.
+ * With an S3-compatible backend the store serves its own presigned URLs and
+ * this route answers 404.
+ *
+ * GET /api/storage/<key>?expires=<unix seconds>&signature=<sig>[&filename=<name>]
+ */
+
+import { NextResponse } from "next/server";
+import { contentTypeForKey, getLocalStorageAdapter } from "@/lib/storage";
+import { logEvent } from "@/lib/observability/logger";
+
+export const runtime = "nodejs";
+
+function notFound() {
+  // Same response for unknown keys, bad signatures and expired links
+  return NextResponse.json({ error: "not_found" }, { status: 404 });
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ key: string[] }> }
+) {
+  const key = (await params).key.join("/");
+  const { searchParams } = new URL(request.url);
+  const filename = searchParams.get("filename") ?? undefined;
+
+  try {
+    const storage = getLocalStorageAdapter();
+    if (
+      !storage ||
+      !storage.verifySignedUrl(key, {
+        expires: Number(searchParams.get("expires")),
+        signature: searchParams.get("signature") ?? "",
+        filename,
+      })
+    ) {
+      return notFound();
+    }
+
+    const object = await storage.getStream(key);
+    if (!object) {
+      return notFound();
+    }
+
+    const headers: Record<string, string> = {
+      "Content-Type": object.contentType ?? contentTypeForKey(key),
+      "Cache-Control": "private, no-store",
+    };
+    if (object.sizeBytes !== undefined) {
+      headers["Content-Length"] = String(object.sizeBytes);
+    }
+    if (filename) {
+      headers["Content-Disposition"] = `attachment; filename="${filename.replace(/["\\\r\n]/g, "_")}"`;
+    }
+
+    return new NextResponse(object.body, { status: 200, headers });
+  } catch (error) {
+    logEvent("error", "Storage download failed", {
+      key,
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    return NextResponse.json({ error: "Failed to read file" }, { status: 500 });
+  }
+}
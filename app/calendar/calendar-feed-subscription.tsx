@@ -1,14 +1,31 @@
 'use client';
 
+import { useState } from 'react';
+import Link from 'next/link';
+
+type FeedContent = 'all' | 'custody' | 'activities';
+
+const FEED_CONTENT_OPTIONS: ReadonlyArray<{ value: FeedContent; label: string }> = [
+  { value: 'all', label: 'Everything' },
+  { value: 'custody', label: 'Custody only' },
+  { value: 'activities', label: 'Activities only' },
+];
+
 export function CalendarFeedSubscription({
-  familyId,
+  urlToken,
 }: Readonly<{
-  familyId: string;
+  /** Signed subscription token; absent until the parent creates one in Settings. */
+  urlToken?: string;
 }>) {
-  const feedUrl = `/api/families/${familyId}/calendar.ics`;
+  const [content, setContent] = useState<FeedContent>('all');
 
   const copyToClipboard = () => {
-    const fullUrl = `${window.location.origin}${feedUrl}`;
+    if (!urlToken) return;
+    const params = new URLSearchParams({ token: urlToken });
+    if (content !== 'all') {
+      params.set('include', content);
+    }
+    const fullUrl = `${window.location.origin}/api/calendar/feed?${params.toString()}`;
     navigator.clipboard.writeText(fullUrl);
   };
 
@@ -27,16 +44,42 @@ export function CalendarFeedSubscription({
         Subscribe to your family&apos;s calendar in Apple Calendar, Google Calendar, or Outlook.
       </p>
 
-      <button
-        onClick={copyToClipboard}
-        className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-slate-100 dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-sm font-medium rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
-        aria-label="Copy feed URL"
-      >
-        <span aria-hidden="true" className="material-symbols-outlined text-sm">
-          content_copy
-        </span>
-        Copy Feed URL
-      </button>
+      {urlToken ? (
+        <>
+          <label className="flex flex-col gap-1 text-xs text-slate-500 dark:text-slate-400">
+            Include
+            <select
+              value={content}
+              onChange={(e) => setContent(e.target.value as FeedContent)}
+              className="w-full px-2 py-1.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-slate-900 dark:text-slate-100 text-sm rounded-lg"
+            >
+              {FEED_CONTENT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <button
+            onClick={copyToClipboard}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-slate-100 dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-sm font-medium rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+            aria-label="Copy feed URL"
+          >
+            <span aria-hidden="true" className="material-symbols-outlined text-sm">
+              content_copy
+            </span>
+            Copy Feed URL
+          </button>
+        </>
+      ) : (
+        <Link
+          href="/settings#calendar-feed"
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-slate-100 dark:bg-slate-800 text-slate-900 dark:text-slate-100 text-sm font-medium rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+        >
+          Create a private feed link
+        </Link>
+      )}
     </div>
   );
 }
@@ -10,6 +10,7 @@
 
 import { db } from "@/lib/persistence";
 import { ensureParentExists } from "@/lib/parent-setup-engine";
+import { publishNotificationEvent } from "@/lib/notification-events";
 import type { DbScheduleChangeRequest } from "@/lib/persistence/types";
 import { requireAuth } from "@/lib/auth";
 import { redirect } from "next/navigation";
@@ -180,6 +181,13 @@ async function submitChangeRequest(formData: FormData): Promise<void> {
 
   const newRequest = await db.scheduleChangeRequests.create(createPayload);
 
+  await publishNotificationEvent({
+    type: "change_request.created",
+    familyId: newRequest.familyId,
+    actorParentId: activeParent.id,
+    payload: { requestId: newRequest.id, title: newRequest.title },
+  });
+
   // ── Redirect to Detail View ────────────────────────────────────────────────
   redirect(`/calendar/change-request/${newRequest.id}`);
 }
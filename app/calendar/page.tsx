@@ -9,8 +9,16 @@
 
 import { CalendarMonthEngine, CalendarWeekEngine, CalendarWeekData, CalendarListData } from "@/lib/calendar-engine";
 import { CalendarListEngine } from "@/lib/calendar-engine";
-import { SchedulePresets } from "@/lib/custody";
+import {
+  SchedulePresets,
+  custodyEngineEvents,
+  formatLocalTime,
+  toChildSchedules,
+  toCustodySchedule,
+  toScheduleVersions,
+} from "@/lib/custody";
 import { generateCompleteSchedule } from "@/lib/schedule";
+import { applyScheduleVersionEvents } from "@/lib/schedule-versions";
 import { ScheduleOverrideEngine } from "@/lib/schedule-override";
 import { ensureParentExists } from "@/lib/parent-setup-engine";
 import { db } from "@/lib/persistence";
@@ -24,6 +32,8 @@ import { CalendarViewSwitcher } from "@/components/calendar-view-switcher";
 import { CalendarWeekGrid } from "@/components/calendar-week-grid";
 import { CalendarListView } from "@/components/calendar-list-view";
 import { requireAuth } from "@/lib/auth";
+import { encodeFeedToken } from "@/lib/calendar/feed-tokens";
+import { expandEventOccurrences } from "@/lib/calendar/occurrences";
 import { redirect } from "next/navigation";
 import Link from "next/link";
 import type {
@@ -32,6 +42,7 @@ import type {
 } from "@/lib/calendar-engine";
 import type {
   CalendarEvent,
+  CaregiverRole,
   Child,
   ConfirmationStatus,
   CustodySchedule,
@@ -39,6 +50,7 @@ import type {
   Family,
   Parent,
   ScheduleChangeRequest,
+  ScheduleEvent,
   ScheduleOverride,
 } from "@/lib";
 import type {
@@ -119,6 +131,14 @@ function buildCalendarUrl(params: {
 
 // ─── Data Mappers ─────────────────────────────────────────────────────────────
 
+const CAREGIVER_ROLE_LABELS: Record<CaregiverRole, string> = {
+  parent: "Parent",
+  step_parent: "Step-parent",
+  grandparent: "Grandparent",
+  guardian: "Guardian",
+  other: "Caregiver",
+};
+
 function mapParent(row: DbParent): Parent {
   return {
     id: row.id,
@@ -126,6 +146,8 @@ function mapParent(row: DbParent): Parent {
     email: row.email,
     avatarUrl: row.avatarUrl ?? undefined,
     phone: row.phone ?? undefined,
+    timezone: row.timezone,
+    role: row.caregiverRole,
   };
 }
 
@@ -141,18 +163,10 @@ function mapChild(row: DbChild): Child {
 
 function resolveScheduleBlocks(
   scheduleId: string | null | undefined,
-  parents: [Parent, Parent]
+  parents: Parent[]
 ) {
   const [primary, secondary] = parents;
-  switch (scheduleId) {
-    case "alternating-weeks":
-      return SchedulePresets.alternatingWeeks(primary.id, secondary.id);
-    case "3-4-4-3":
-      return SchedulePresets.threeFourFourThree(primary.id, secondary.id);
-    case "2-2-3":
-    default:
-      return SchedulePresets.twoTwoThree(primary.id, secondary.id);
-  }
+  return SchedulePresets.forScheduleId(scheduleId, primary.id, secondary.id);
 }
 
 function formatScheduleName(scheduleId: string | null | undefined): string {
@@ -182,7 +196,7 @@ function mapScheduleIdToPattern(scheduleId: string | null | undefined): Schedule
 
 function buildFamilySchedule(
   dbFamily: DbFamily,
-  parents: [Parent, Parent]
+  parents: Parent[]
 ): CustodySchedule {
   return {
     id: dbFamily.scheduleId || "family-schedule",
@@ -192,7 +206,8 @@ function buildFamilySchedule(
   };
 }
 
-function mapFamilyParents(rows: DbParent[]): [Parent, Parent] {
+/** Every caregiver, primary account holder first (the presets anchor on them). */
+function mapFamilyParents(rows: DbParent[]): Parent[] {
   const sorted = rows
     .slice()
     .sort((a, b) => {
@@ -206,7 +221,7 @@ function mapFamilyParents(rows: DbParent[]): [Parent, Parent] {
   if (sorted.length < 2) {
     throw new Error("Family must have at least two parents for calendar rendering.");
   }
-  return [sorted[0], sorted[1]] as [Parent, Parent];
+  return sorted;
 }
 
 function mapCalendarEvent(row: DbCalendarEvent): CalendarEvent {
@@ -223,6 +238,9 @@ function mapCalendarEvent(row: DbCalendarEvent): CalendarEvent {
     parentId: row.parentId ?? undefined,
     confirmationStatus: parseConfirmationStatus(row.confirmationStatus),
     createdBy: row.createdBy,
+    recurrenceRule: row.recurrenceRule,
+    recurringEventId: row.recurringEventId,
+    originalStartAt: row.originalStartAt,
   };
 }
 
@@ -275,6 +293,10 @@ function UpcomingTransitionItem({
   parentColor: "primary" | "secondary";
 }>) {
   const isIncoming = parentColor === "primary";
+  // Parents in different timezones each see the handoff in their local time
+  const { fromParent, toParent, localTimes } = item.transition;
+  const fromLocalTime = localTimes?.[fromParent.id];
+  const toLocalTime = localTimes?.[toParent.id];
   return (
     <div
       className={`relative pl-4 border-l-2 ${
@@ -312,6 +334,12 @@ function UpcomingTransitionItem({
             <span>{item.transition.location}</span>
           </div>
         )}
+        {fromLocalTime && toLocalTime && fromLocalTime !== toLocalTime && (
+          <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+            {fromParent.name.split(" ")[0]} {formatLocalTime(fromLocalTime)} · {toParent.name.split(" ")[0]}{" "}
+            {formatLocalTime(toLocalTime)}
+          </p>
+        )}
       </button>
     </div>
   );
@@ -370,17 +398,16 @@ function CalendarSidebar({
   data,
   pendingRequests,
   otherParent,
-  familyId,
+  feedUrlToken,
 }: Readonly<{
   data: CalendarMonthData;
   pendingRequests: ScheduleChangeRequest[];
   otherParent: Parent;
-  familyId: string;
+  feedUrlToken?: string;
 }>) {
   function requesterName(req: ScheduleChangeRequest): string {
-    return req.requestedBy === otherParent.id
-      ? otherParent.name.split(" ")[0]
-      : "Co-Parent";
+    const requester = data.caregivers.find((p) => p.id === req.requestedBy);
+    return requester ? requester.name.split(" ")[0] : "Co-Parent";
   }
 
   const shownRequests = pendingRequests.slice(0, 2);
@@ -408,6 +435,15 @@ function CalendarSidebar({
           </span>
         </div>
       </a>
+      <a
+        href="/calendar/schedule-history"
+        className="-mt-4 flex items-center gap-1 text-sm font-medium text-primary hover:underline"
+      >
+        <span aria-hidden="true" className="material-symbols-outlined text-base">
+          history
+        </span>
+        Schedule changes &amp; history
+      </a>
 
       {/* Upcoming Transitions */}
       <div className="flex flex-col gap-3">
@@ -471,7 +507,7 @@ function CalendarSidebar({
       </div>
 
       {/* Calendar Feed Subscription */}
-      <CalendarFeedSubscription familyId={familyId} />
+      <CalendarFeedSubscription urlToken={feedUrlToken} />
 
       {/* Custody Key */}
       <div className="mt-auto pt-4 border-t border-slate-100 dark:border-slate-800">
@@ -491,6 +527,15 @@ function CalendarSidebar({
               {otherParent.name.split(" ")[0]} (Parent B)
             </span>
           </div>
+          {data.caregivers.slice(2).map((caregiver) => (
+            <div key={caregiver.id} className="flex items-center gap-2">
+              <div className="w-3 h-3 rounded bg-amber-500/20 border border-amber-500 shrink-0" />
+              <span className="text-sm font-medium text-slate-600 dark:text-slate-300">
+                {caregiver.name.split(" ")[0]}
+                {caregiver.role && caregiver.role !== "parent" && ` (${CAREGIVER_ROLE_LABELS[caregiver.role]})`}
+              </span>
+            </div>
+          ))}
           {/* Icon guide */}
           <div className="flex items-center gap-3 mt-1 flex-wrap">
             <div className="flex items-center gap-1">
@@ -609,14 +654,19 @@ export default async function CalendarPage({
   const parentResult = await ensureParentExists(user.userId);
   const activeParent = parentResult.parent;
 
-  const [dbFamily, dbParents, dbChildren, dbEvents, dbChangeRequests, dbOverrides] =
+  const [dbFamily, dbParents, dbChildren, dbEvents, dbEventExceptions, dbChangeRequests, dbOverrides, dbFeedToken, dbSchedule, dbChildSchedules, dbScheduleVersions] =
     await Promise.all([
       db.families.findById(activeParent.familyId),
       db.parents.findByFamilyId(activeParent.familyId),
       db.children.findByFamilyId(activeParent.familyId),
       db.calendarEvents.findByFamilyId(activeParent.familyId),
+      db.calendarEventExceptions.findByFamilyId(activeParent.familyId),
       db.scheduleChangeRequests.findByFamilyId(activeParent.familyId),
       db.scheduleOverrides.findActiveByFamilyId(activeParent.familyId),
+      db.calendarFeedTokens.findActiveByParentId(activeParent.id),
+      db.custodySchedules.findActiveByFamilyId(activeParent.familyId),
+      db.custodySchedules.findActiveChildSchedules(activeParent.familyId),
+      db.custodyScheduleVersions.findApprovedByFamilyId(activeParent.familyId),
     ]);
 
   if (!dbFamily) {
@@ -643,33 +693,50 @@ export default async function CalendarPage({
 
   const mappedParents = mapFamilyParents(parentsForCalendar);
 
-  // Generate custody schedule using the new generator
-  const scheduleInput = {
-    family_id: activeFamily.id,
-    child_id: dbChildren[0]?.id || "default-child", // Use first child or default
-    pattern: mapScheduleIdToPattern(activeFamily.scheduleId),
-    timezone: "America/New_York", // Default timezone, could be stored in family
-    date_range: {
-      start: `${year - 1}-01-01`, // Generate for a wide range to cover the month
-      end: `${year + 1}-12-31`,
-    },
-    anchor: {
-      anchor_date: activeFamily.custodyAnchorDate,
-      anchor_parent_id: mappedParents[0].id, // Primary parent
-      other_parent_id: mappedParents[1].id, // Secondary parent
-    },
-  };
-
-  const custodyResult = await generateCompleteSchedule(scheduleInput);
-  let custodyEvents = custodyResult.events;
+  const storedSchedule = dbSchedule ? toCustodySchedule(dbSchedule) : null;
 
   const family: Family = {
     id: activeFamily.id,
     parents: mappedParents,
     children: dbChildren.map(mapChild),
     custodyAnchorDate: activeFamily.custodyAnchorDate,
-    schedule: buildFamilySchedule(activeFamily, mappedParents), // Keep for backward compatibility
+    timezone: activeFamily.timezone,
+    schedule: storedSchedule ?? buildFamilySchedule(activeFamily, mappedParents),
+    scheduleVersions: toScheduleVersions(dbScheduleVersions),
+    childSchedules: toChildSchedules(dbChildSchedules),
+  };
+
+  const scheduleRange = {
+    start: new Date(Date.UTC(year - 1, 0, 1)),
+    end: new Date(Date.UTC(year + 2, 0, 1)),
   };
+  const childId = dbChildren[0]?.id || "default-child"; // Use first child or default
+
+  // A saved schedule (seasons and versions included) comes straight from
+  // the engine; otherwise generate the preset pattern
+  let custodyEvents: ScheduleEvent[];
+  if (storedSchedule) {
+    custodyEvents = custodyEngineEvents(family, scheduleRange, { childId, source: "custody-schedule" });
+  } else {
+    const custodyResult = await generateCompleteSchedule({
+      family_id: activeFamily.id,
+      child_id: childId,
+      pattern: mapScheduleIdToPattern(activeFamily.scheduleId),
+      timezone: activeFamily.timezone,
+      date_range: {
+        start: `${year - 1}-01-01`, // Generate for a wide range to cover the month
+        end: `${year + 1}-12-31`,
+      },
+      anchor: {
+        anchor_date: activeFamily.custodyAnchorDate,
+        anchor_parent_id: mappedParents[0].id, // Primary parent
+        other_parent_id: mappedParents[1].id, // Secondary parent
+      },
+    });
+
+    // The generator only knows the original rotation; approved versions take over from their dates
+    custodyEvents = applyScheduleVersionEvents(family, custodyResult.events, scheduleRange);
+  }
 
   // Apply schedule overrides
   if (dbOverrides.length > 0) {
@@ -679,7 +746,19 @@ export default async function CalendarPage({
     );
   }
 
-  const events = dbEvents.map(mapCalendarEvent);
+  // Expand recurring series over the displayed month (plus the grid's
+  // spill-over days) and the upcoming month shown in the sidebar.
+  const MS_PER_DAY = 24 * 60 * 60 * 1000;
+  const occurrenceRange = {
+    start: new Date(Math.min(Date.UTC(year, month - 1, 1) - 7 * MS_PER_DAY, now.getTime())),
+    end: new Date(Math.max(Date.UTC(year, month, 1) + 7 * MS_PER_DAY, now.getTime() + 30 * MS_PER_DAY)),
+  };
+  const events = expandEventOccurrences(
+    dbEvents,
+    dbEventExceptions,
+    occurrenceRange,
+    activeFamily.timezone ?? "UTC",
+  ).map(mapCalendarEvent);
   const changeRequests = dbChangeRequests
     .slice()
     .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt))
@@ -688,20 +767,23 @@ export default async function CalendarPage({
   const pendingRequests = changeRequests.filter((r) => r.status === "pending");
 
   // ── Compute calendar ───────────────────────────────────────────────────────
-  const engine = new CalendarMonthEngine(family);
   const mappedOverrides = dbOverrides.map(mapScheduleOverride);
+  const engine = new CalendarMonthEngine(family, mappedOverrides);
 
   // Always compute month data – needed by the sidebar (transitions, currentParent)
-  // and by the month grid view.
-  const data: CalendarMonthData = engine.getMonthDataFromEvents(
-    year,
-    month,
-    custodyEvents,
-    events,
-    changeRequests,
-    mappedOverrides,
-    now,
-  );
+  // and by the month grid view.  A saved schedule is read from the engine
+  // directly, which keeps every handoff on days with more than one.
+  const data: CalendarMonthData = storedSchedule
+    ? engine.getMonthData(year, month, events, changeRequests, now)
+    : engine.getMonthDataFromEvents(
+      year,
+      month,
+      custodyEvents,
+      events,
+      changeRequests,
+      mappedOverrides,
+      now,
+    );
 
   // ── Week view data ─────────────────────────────────────────────────────────
   // Use the first day of the displayed month as the anchor week.
@@ -856,7 +938,7 @@ export default async function CalendarPage({
           data={data}
           pendingRequests={pendingRequests}
           otherParent={otherParent}
-          familyId={activeFamily.id}
+          feedUrlToken={dbFeedToken ? encodeFeedToken(dbFeedToken) : undefined}
         />
 
         {/* ── Main calendar section ──────────────────────────────────────── */}
@@ -0,0 +1,456 @@
+/**
+ * KidSchedule – Schedule History Page
+ *
+ * A Next.js Server Component listing every version of the family's custody
+ * schedule: who proposed it and when, who approved or rejected it, the date
+ * it takes effect and what it changed.  Either parent can propose a change
+ * with an effective date; the other approves or rejects it, and the
+ * proposer can withdraw it while it waits.  Days before the effective date
+ * keep the schedule that was in force then.
+ */
+
+import { db } from "@/lib/persistence";
+import { requireAuth } from "@/lib/auth";
+import { ensureParentExists } from "@/lib/parent-setup-engine";
+import { verifyOrigin } from "@/lib/security/csrf";
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import { ThemeToggle } from "@/app/theme-toggle";
+import { SchedulePresets } from "@/lib/custody";
+import { describeWeeklyBlock } from "@/lib/schedule-weekly";
+import { logEvent } from "@/lib/observability/logger";
+import {
+  describeRotation,
+  loadScheduleHistory,
+  proposeScheduleVersion,
+  respondToScheduleVersion,
+  todayInTimeZone,
+  withdrawScheduleVersion,
+  type ScheduleTerms,
+} from "@/lib/schedule-versions";
+import type { DbCustodyScheduleVersion, ScheduleVersionStatus } from "@/lib/persistence/types";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const ROTATION_PRESETS: ReadonlyArray<{ id: string; label: string }> = [
+  { id: "alternating-weeks", label: "Alternating Weeks" },
+  { id: "2-2-3", label: "2-2-3 Rotation" },
+  { id: "3-4-4-3", label: "3-4-4-3 Rotation" },
+];
+
+const STATUS_STYLES: Record<ScheduleVersionStatus, string> = {
+  pending: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300",
+  approved: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300",
+  rejected: "bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-300",
+  withdrawn: "bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300",
+};
+
+function redirectWith(key: "error" | "success", message: string): never {
+  const params = new URLSearchParams();
+  params.set(key, message);
+  redirect(`/calendar/schedule-history?${params.toString()}`);
+}
+
+function field(formData: FormData, name: string): string {
+  return ((formData.get(name) as string | null) ?? "").trim();
+}
+
+async function loadActiveFamily() {
+  const originCheck = await verifyOrigin();
+  if (!originCheck.valid) {
+    redirectWith("error", "Invalid request origin.");
+  }
+  const user = await requireAuth();
+  const parent = (await ensureParentExists(user.userId)).parent;
+  const family = await db.families.findById(parent.familyId);
+  if (!family) {
+    redirectWith("error", "Family not found.");
+  }
+  return { parent, family };
+}
+
+async function loadFamilyVersion(versionId: string, familyId: string): Promise<DbCustodyScheduleVersion> {
+  const version = versionId ? await db.custodyScheduleVersions.findById(versionId) : null;
+  if (!version || version.familyId !== familyId) {
+    redirectWith("error", "Schedule change not found.");
+  }
+  return version;
+}
+
+// ─── Server Actions ───────────────────────────────────────────────────────────
+
+async function proposeChange(formData: FormData): Promise<void> {
+  "use server";
+
+  const { parent, family } = await loadActiveFamily();
+  const history = await loadScheduleHistory(family);
+  const presetId = field(formData, "presetId");
+  const preset = ROTATION_PRESETS.find((p) => p.id === presetId);
+  const firstParentId = field(formData, "firstParentId");
+  const secondParentId = field(formData, "secondParentId");
+  if (!preset) {
+    redirectWith("error", "Choose a rotation.");
+  }
+  if (!firstParentId || firstParentId === secondParentId) {
+    redirectWith("error", "Choose two different parents for the rotation.");
+  }
+
+  const result = await proposeScheduleVersion({
+    family,
+    proposedBy: parent.id,
+    proposal: {
+      name: preset.label,
+      transitionHour: Number(field(formData, "transitionHour")),
+      blocks: SchedulePresets.forScheduleId(preset.id, firstParentId, secondParentId),
+      // Summer and school-break rotations, step-up phases and weekly blocks carry over unchanged
+      seasons: history.current?.seasons ?? [],
+      phases: history.current?.phases ?? [],
+      weeklyBlocks: history.current?.weeklyBlocks ?? [],
+      anchorDate: field(formData, "anchorDate"),
+      effectiveDate: field(formData, "effectiveDate"),
+      reason: field(formData, "reason") || undefined,
+    },
+  });
+  if (!result.success) {
+    redirectWith("error", result.error);
+  }
+
+  logEvent("info", "schedule_version.proposed", {
+    versionId: result.version.id,
+    familyId: family.id,
+    proposedBy: parent.id,
+    effectiveDate: result.version.effectiveDate,
+  });
+  redirectWith("success", "Schedule change proposed. It takes effect once your co-parent approves it.");
+}
+
+async function answerChange(formData: FormData): Promise<void> {
+  "use server";
+
+  const { parent, family } = await loadActiveFamily();
+  const version = await loadFamilyVersion(field(formData, "versionId"), family.id);
+  const decision = field(formData, "decision") === "approve" ? "approve" : "reject";
+
+  const result = await respondToScheduleVersion({ family, version, respondedBy: parent.id, decision });
+  if (!result.success) {
+    redirectWith("error", result.error);
+  }
+
+  logEvent("info", decision === "approve" ? "schedule_version.approved" : "schedule_version.rejected", {
+    versionId: version.id,
+    familyId: family.id,
+    respondedBy: parent.id,
+    effectiveDate: version.effectiveDate,
+  });
+  redirectWith(
+    "success",
+    decision === "approve"
+      ? `Schedule change approved. It takes effect on ${version.effectiveDate}.`
+      : "Schedule change rejected."
+  );
+}
+
+async function withdrawChange(formData: FormData): Promise<void> {
+  "use server";
+
+  const { parent, family } = await loadActiveFamily();
+  const version = await loadFamilyVersion(field(formData, "versionId"), family.id);
+
+  const result = await withdrawScheduleVersion(version, parent.id);
+  if (!result.success) {
+    redirectWith("error", result.error);
+  }
+
+  logEvent("info", "schedule_version.withdrawn", {
+    versionId: version.id,
+    familyId: family.id,
+    withdrawnBy: parent.id,
+  });
+  redirectWith("success", "Schedule change withdrawn.");
+}
+
+// ─── Components ───────────────────────────────────────────────────────────────
+
+function TermsSummary({ terms, parentName }: Readonly<{ terms: ScheduleTerms; parentName: (id: string) => string }>) {
+  return (
+    <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2 text-sm">
+      <div>
+        <dt className="text-slate-500">Rotation</dt>
+        <dd className="text-slate-800 dark:text-slate-100">
+          {terms.name} ({describeRotation(terms.blocks, parentName)})
+        </dd>
+      </div>
+      <div>
+        <dt className="text-slate-500">Exchange time</dt>
+        <dd className="text-slate-800 dark:text-slate-100">{String(terms.transitionHour).padStart(2, "0")}:00</dd>
+      </div>
+      <div>
+        <dt className="text-slate-500">Rotation anchored on</dt>
+        <dd className="text-slate-800 dark:text-slate-100">{terms.anchorDate}</dd>
+      </div>
+      <div>
+        <dt className="text-slate-500">Seasons</dt>
+        <dd className="text-slate-800 dark:text-slate-100">
+          {terms.seasons.length > 0 ? terms.seasons.map((s) => s.name).join(", ") : "None"}
+        </dd>
+      </div>
+      <div>
+        <dt className="text-slate-500">Step-up phases</dt>
+        <dd className="text-slate-800 dark:text-slate-100">
+          {terms.phases.length > 0 ? terms.phases.map((p) => p.name).join(", ") : "None"}
+        </dd>
+      </div>
+      <div>
+        <dt className="text-slate-500">Weekly blocks</dt>
+        <dd className="text-slate-800 dark:text-slate-100">
+          {terms.weeklyBlocks.length > 0
+            ? terms.weeklyBlocks.map((b) => `${parentName(b.parentId)} ${describeWeeklyBlock(b)}`).join(", ")
+            : "None"}
+        </dd>
+      </div>
+    </dl>
+  );
+}
+
+function VersionCard({
+  version,
+  changes,
+  parentName,
+  children,
+}: Readonly<{
+  version: DbCustodyScheduleVersion;
+  changes: string[];
+  parentName: (id: string) => string;
+  children?: React.ReactNode;
+}>) {
+  const day = (iso: string) => iso.slice(0, 10);
+  return (
+    <li className="rounded-lg border border-slate-200 dark:border-slate-700 p-4 space-y-2">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="font-semibold text-slate-900 dark:text-white">
+            {version.name} from {version.effectiveDate}
+          </p>
+          <p className="text-xs text-slate-500">
+            Proposed by {parentName(version.proposedBy)} on {day(version.createdAt)}
+            {version.respondedBy && version.respondedAt
+              ? ` · ${version.status} by ${parentName(version.respondedBy)} on ${day(version.respondedAt)}`
+              : ""}
+          </p>
+        </div>
+        <span className={`text-xs font-semibold px-2 py-0.5 rounded capitalize ${STATUS_STYLES[version.status]}`}>
+          {version.status}
+        </span>
+      </div>
+      <ul className="list-disc pl-5 text-sm text-slate-700 dark:text-slate-200">
+        {changes.length > 0 ? changes.map((change) => <li key={change}>{change}</li>) : <li>No change to the terms</li>}
+      </ul>
+      {version.reason && <p className="text-sm text-slate-500 italic">“{version.reason}”</p>}
+      {children}
+    </li>
+  );
+}
+
+// ─── Page Entry Point ──────────────────────────────────────────────────────────
+
+export const dynamic = "force-dynamic";
+
+export default async function ScheduleHistoryPage({
+  searchParams,
+}: Readonly<{ searchParams?: Promise<{ success?: string; error?: string }> }>) {
+  const user = await requireAuth();
+  const parentResult = await ensureParentExists(user.userId);
+  const activeParent = parentResult.parent;
+
+  const [family, parents] = await Promise.all([
+    db.families.findById(activeParent.familyId),
+    db.parents.findByFamilyId(activeParent.familyId),
+  ]);
+  if (!family) {
+    redirect("/calendar");
+  }
+
+  const resolvedParams = await searchParams;
+  const history = await loadScheduleHistory(family);
+  const parentName = (parentId: string) => parents.find((p) => p.id === parentId)?.name ?? "Former parent";
+  const pending = history.entries.find((e) => e.version.status === "pending");
+  const past = history.entries.filter((e) => e.version.status !== "pending");
+  const sortedParents = parents.slice().sort((a, b) => (a.role === b.role ? 0 : a.role === "primary" ? -1 : 1));
+  const tomorrow = new Date(Date.parse(`${todayInTimeZone(family.timezone)}T00:00:00Z`) + 86_400_000)
+    .toISOString()
+    .slice(0, 10);
+
+  const inputClass =
+    "w-full rounded-lg border border-slate-300 dark:border-slate-600 bg-background-light p-2 text-sm text-slate-700 dark:bg-background-dark dark:text-slate-200";
+  const labelClass = "text-sm font-semibold text-slate-600 dark:text-slate-300";
+
+  return (
+    <div className="min-h-screen bg-background-light dark:bg-background-dark">
+      <header className="flex items-center justify-between h-16 px-6 bg-surface-light dark:bg-surface-dark border-b border-slate-200 dark:border-slate-800">
+        <Link href="/calendar" className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300 hover:text-primary">
+          <span className="material-symbols-outlined text-lg">arrow_back</span>
+          Calendar
+        </Link>
+        <ThemeToggle />
+      </header>
+
+      <main className="max-w-3xl mx-auto p-6 space-y-6">
+        {(resolvedParams?.success || resolvedParams?.error) && (
+          <p
+            className={`rounded-md border px-3 py-2 text-sm ${
+              resolvedParams.success
+                ? "border-emerald-200 bg-emerald-50 text-emerald-700 dark:border-emerald-800/40 dark:bg-emerald-900/20 dark:text-emerald-200"
+                : "border-rose-200 bg-rose-50 text-rose-700 dark:border-rose-800/40 dark:bg-rose-900/20 dark:text-rose-200"
+            }`}
+            role="status"
+          >
+            {resolvedParams.success ?? resolvedParams.error}
+          </p>
+        )}
+
+        {/* Schedule In Force */}
+        <section className="bg-surface-light dark:bg-surface-dark border border-border-light dark:border-border-dark rounded-xl shadow-sm p-6">
+          <h1 className="text-xl font-bold text-slate-900 dark:text-white">Custody Schedule</h1>
+          <p className="text-sm text-slate-500 mb-4">
+            Changes take effect on a date both parents agree to. Custody before that date keeps the schedule that
+            was in force then, in the calendar and in reports.
+          </p>
+          {history.current ? (
+            <TermsSummary terms={history.current} parentName={parentName} />
+          ) : (
+            <p className="text-sm text-slate-500">Invite your co-parent to set up a custody schedule.</p>
+          )}
+        </section>
+
+        {/* Pending Change */}
+        {pending && (
+          <section className="bg-surface-light dark:bg-surface-dark border border-border-light dark:border-border-dark rounded-xl shadow-sm p-6">
+            <h2 className="text-lg font-bold text-slate-900 dark:text-white mb-4">Waiting for an Answer</h2>
+            <ul>
+              <VersionCard version={pending.version} changes={pending.changes} parentName={parentName}>
+                {pending.version.proposedBy === activeParent.id ? (
+                  <form action={withdrawChange}>
+                    <input type="hidden" name="versionId" value={pending.version.id} />
+                    <button
+                      type="submit"
+                      className="rounded-lg border border-slate-300 dark:border-slate-600 px-4 py-2 text-sm font-semibold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800"
+                    >
+                      Withdraw
+                    </button>
+                  </form>
+                ) : (
+                  <form action={answerChange} className="flex gap-2">
+                    <input type="hidden" name="versionId" value={pending.version.id} />
+                    <button
+                      type="submit"
+                      name="decision"
+                      value="approve"
+                      className="rounded-lg bg-primary px-4 py-2 text-sm font-bold text-white hover:bg-primary/90"
+                    >
+                      Approve
+                    </button>
+                    <button
+                      type="submit"
+                      name="decision"
+                      value="reject"
+                      className="rounded-lg border border-slate-300 dark:border-slate-600 px-4 py-2 text-sm font-semibold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800"
+                    >
+                      Reject
+                    </button>
+                  </form>
+                )}
+              </VersionCard>
+            </ul>
+          </section>
+        )}
+
+        {/* Propose Change */}
+        {!pending && history.current && sortedParents.length >= 2 && (
+          <section className="bg-surface-light dark:bg-surface-dark border border-border-light dark:border-border-dark rounded-xl shadow-sm p-6">
+            <h2 className="text-lg font-bold text-slate-900 dark:text-white mb-4">Propose a Change</h2>
+            <form action={proposeChange} className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="flex flex-col gap-1">
+                <label className={labelClass} htmlFor="presetId">Rotation</label>
+                <select id="presetId" name="presetId" className={inputClass} defaultValue="alternating-weeks">
+                  {ROTATION_PRESETS.map((preset) => (
+                    <option key={preset.id} value={preset.id}>{preset.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex flex-col gap-1">
+                <label className={labelClass} htmlFor="transitionHour">Exchange hour (0-23)</label>
+                <input
+                  id="transitionHour"
+                  name="transitionHour"
+                  type="number"
+                  min={0}
+                  max={23}
+                  required
+                  defaultValue={history.current.transitionHour}
+                  className={inputClass}
+                />
+              </div>
+              <div className="flex flex-col gap-1">
+                <label className={labelClass} htmlFor="firstParentId">Starts with</label>
+                <select id="firstParentId" name="firstParentId" className={inputClass} defaultValue={sortedParents[0].id}>
+                  {sortedParents.map((p) => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex flex-col gap-1">
+                <label className={labelClass} htmlFor="secondParentId">Alternates with</label>
+                <select id="secondParentId" name="secondParentId" className={inputClass} defaultValue={sortedParents[1].id}>
+                  {sortedParents.map((p) => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex flex-col gap-1">
+                <label className={labelClass} htmlFor="effectiveDate">Takes effect on</label>
+                <input id="effectiveDate" name="effectiveDate" type="date" min={tomorrow} required defaultValue={tomorrow} className={inputClass} />
+              </div>
+              <div className="flex flex-col gap-1">
+                <label className={labelClass} htmlFor="anchorDate">First block starts on</label>
+                <input id="anchorDate" name="anchorDate" type="date" required defaultValue={tomorrow} className={inputClass} />
+              </div>
+              <div className="flex flex-col gap-1 sm:col-span-2">
+                <label className={labelClass} htmlFor="reason">Reason</label>
+                <textarea
+                  id="reason"
+                  name="reason"
+                  rows={3}
+                  maxLength={2000}
+                  placeholder="e.g. Modified custody order dated …"
+                  className={inputClass}
+                />
+                <p className="text-xs text-slate-500">Summer and school-break rotations carry over unchanged.</p>
+              </div>
+              <div className="sm:col-span-2">
+                <button type="submit" className="rounded-lg bg-primary px-4 py-2 text-sm font-bold text-white hover:bg-primary/90">
+                  Propose Change
+                </button>
+              </div>
+            </form>
+          </section>
+        )}
+
+        {/* History */}
+        <section className="bg-surface-light dark:bg-surface-dark border border-border-light dark:border-border-dark rounded-xl shadow-sm p-6">
+          <h2 className="text-lg font-bold text-slate-900 dark:text-white mb-4">History</h2>
+          <ul className="space-y-4">
+            {past.map(({ version, changes }) => (
+              <VersionCard key={version.id} version={version} changes={changes} parentName={parentName} />
+            ))}
+            {history.original && (
+              <li className="rounded-lg border border-dashed border-slate-200 dark:border-slate-700 p-4 space-y-2">
+                <p className="font-semibold text-slate-900 dark:text-white">Original schedule</p>
+                <TermsSummary terms={history.original} parentName={parentName} />
+              </li>
+            )}
+          </ul>
+        </section>
+      </main>
+    </div>
+  );
+}
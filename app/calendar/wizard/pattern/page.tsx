@@ -1,15 +1,25 @@
 import {
+  formatStepUpParam,
   generatePatternPreview,
+  generateStepUpTimeline,
+  generateSummerPreview,
   getDefaultPatternConfig,
   getDropoffTimeOptions,
+  getMaxStepUpPhases,
   getPickupTimeOptions,
+  getScheduleTemplates,
+  getStepUpPhaseTemplates,
   isTemplateId,
+  resolveStepUpConfig,
+  resolveSummerConfig,
   type PatternConfigInput,
+  type PatternPreview,
   type PreviewMode,
   type RotationStarter,
   type TemplateId,
 } from "@/lib/schedule";
 import { PatternConfigForm } from "./pattern-config-form";
+import { StepUpTimeline } from "../step-up-timeline";
 
 const WEEKDAY_HEADERS = ["MON", "TUE", "WED", "THU", "FRI", "SAT", "SUN"] as const;
 
@@ -20,6 +30,12 @@ type PatternSearchParams = {
   pickup?: string;
   dropoff?: string;
   mode?: string;
+  summer?: string;
+  summerStart?: string;
+  summerEnd?: string;
+  summerStartsWith?: string;
+  stepUp?: string;
+  birthDate?: string;
   draftSaved?: string;
 };
 
@@ -61,9 +77,12 @@ function resolveConfig(searchParams?: PatternSearchParams): PatternConfigInput {
     pickupTime,
     dropoffTime,
     mode,
+    summer: resolveSummerConfig(searchParams ?? {}),
+    stepUp: resolveStepUpConfig(searchParams ?? {}),
   };
 }
 
+
 function toQueryString(config: PatternConfigInput, extras?: Record<string, string | undefined>): string {
   const query = new URLSearchParams({
     template: config.templateId,
@@ -74,6 +93,20 @@ function toQueryString(config: PatternConfigInput, extras?: Record<string, strin
     mode: config.mode,
   });
 
+  if (config.summer) {
+    query.set("summer", config.summer.templateId);
+    query.set("summerStart", config.summer.startMonthDay);
+    query.set("summerEnd", config.summer.endMonthDay);
+    query.set("summerStartsWith", config.summer.rotationStarter);
+  }
+
+  if (config.stepUp) {
+    query.set("stepUp", formatStepUpParam(config.stepUp));
+    if (config.stepUp.birthDate) {
+      query.set("birthDate", config.stepUp.birthDate);
+    }
+  }
+
   if (extras) {
     for (const [key, value] of Object.entries(extras)) {
       if (!value) {
@@ -87,12 +120,76 @@ function toQueryString(config: PatternConfigInput, extras?: Record<string, strin
   return query.toString();
 }
 
+function PreviewGrid({ preview }: Readonly<{ preview: PatternPreview }>) {
+  return (
+    <>
+      <div className="bg-white dark:bg-surface rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm flex-1 overflow-hidden flex flex-col">
+        <div className="grid grid-cols-7 border-b border-slate-200 dark:border-slate-800 bg-slate-50 dark:bg-slate-800/50">
+          {WEEKDAY_HEADERS.map((weekday) => (
+            <div key={weekday} className="p-3 text-center text-xs font-semibold text-slate-500 uppercase tracking-wide">
+              {weekday}
+            </div>
+          ))}
+        </div>
+
+        {preview.weeks.map((week, weekIndex) => (
+          <div key={`week-${weekIndex}`} className="flex-1 grid grid-cols-7 divide-x divide-slate-100 dark:divide-slate-800 min-h-[160px] border-b last:border-b-0 border-slate-200 dark:border-slate-800">
+            {week.map((day) => {
+              const dayColor = day.parent === "A" ? "primary" : "parent-b";
+              const textColor = day.parent === "A" ? "text-primary" : "text-parent-b";
+
+              return (
+                <div
+                  key={day.isoDate}
+                  className={`relative p-2 flex flex-col group transition-colors ${
+                    dayColor === "primary"
+                      ? "bg-primary/5 hover:bg-primary/10"
+                      : "bg-parent-b/5 hover:bg-parent-b/10"
+                  }`}
+                >
+                  <span className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">{day.dayOfMonth}</span>
+                  <div
+                    className={`flex-1 rounded-lg p-2 border-l-4 ${
+                      dayColor === "primary"
+                        ? "bg-primary/20 border-primary"
+                        : "bg-parent-b/20 border-parent-b"
+                    }`}
+                  >
+                    <div className={`text-xs font-bold ${textColor}`}>Parent {day.parent}</div>
+                    <div className="text-[10px] text-slate-600 dark:text-slate-400 mt-1">{day.details}</div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 flex items-center justify-center gap-6 text-sm text-slate-500">
+        <div className="flex items-center gap-2">
+          <div className="w-3 h-3 rounded bg-primary"></div>
+          <span>Parent A ({preview.parentAPercent}%)</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="w-3 h-3 rounded bg-parent-b"></div>
+          <span>Parent B ({preview.parentBPercent}%)</span>
+        </div>
+      </div>
+    </>
+  );
+}
+
 export default async function PatternConfigPage({
   searchParams,
 }: Readonly<{ searchParams?: Promise<PatternSearchParams> }>) {
   const resolvedSearchParams = await searchParams;
   const config = resolveConfig(resolvedSearchParams);
-  const preview = generatePatternPreview(config);
+  const timeline = generateStepUpTimeline(config);
+  // With a step-up plan the grid previews the long-term rotation from when it takes over
+  const longTermStart = timeline?.at(-1)?.startDate;
+  const preview = generatePatternPreview(longTermStart ? { ...config, scheduleStartDate: longTermStart } : config);
+  const summerPreview = generateSummerPreview(config);
+  const summerTemplateTitle = getScheduleTemplates().find((t) => t.id === config.summer?.templateId)?.title;
   const draftSaved = resolvedSearchParams?.draftSaved === "1";
 
   const biWeeklyHref = `/calendar/wizard/pattern?${toQueryString(config, { mode: "bi-weekly", draftSaved: undefined })}`;
@@ -157,13 +254,18 @@ export default async function PatternConfigPage({
           dropoffOptions={getDropoffTimeOptions()}
           templateId={config.templateId}
           mode={config.mode}
+          summerTemplates={getScheduleTemplates().filter((t) => t.id !== "custom")}
+          stepUpTemplates={getStepUpPhaseTemplates()}
+          maxStepUpPhases={getMaxStepUpPhases()}
         />
 
         <section className="w-full lg:w-2/3 xl:w-3/4 bg-surface-sunken dark:bg-surface-sunken p-6 lg:p-10 overflow-y-auto flex flex-col relative">
           <div className="max-w-5xl mx-auto w-full h-full flex flex-col">
             <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-8 gap-4">
               <div>
-                <h1 className="text-2xl font-bold text-slate-900 dark:text-white">Schedule Preview</h1>
+                <h1 className="text-2xl font-bold text-slate-900 dark:text-white">
+                  {timeline ? "Long-Term Rotation Preview" : "Schedule Preview"}
+                </h1>
                 <p className="text-slate-500 dark:text-slate-400 mt-1">Visualizing {preview.rangeLabel}</p>
               </div>
               <div className="flex items-center gap-3 bg-white dark:bg-surface p-1.5 rounded-lg border border-slate-200 dark:border-slate-700 shadow-sm">
@@ -190,58 +292,37 @@ export default async function PatternConfigPage({
               </div>
             </div>
 
-            <div className="bg-white dark:bg-surface rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm flex-1 overflow-hidden flex flex-col">
-              <div className="grid grid-cols-7 border-b border-slate-200 dark:border-slate-800 bg-slate-50 dark:bg-slate-800/50">
-                {WEEKDAY_HEADERS.map((weekday) => (
-                  <div key={weekday} className="p-3 text-center text-xs font-semibold text-slate-500 uppercase tracking-wide">
-                    {weekday}
-                  </div>
-                ))}
+            {timeline && config.stepUp && (
+              <div className="mb-10 flex flex-col">
+                <div className="mb-6">
+                  <h2 className="text-xl font-bold text-slate-900 dark:text-white">Step-Up Timeline</h2>
+                  <p className="text-slate-500 dark:text-slate-400 mt-1">
+                    Each phase hands over to the next by itself on its date or at the child&apos;s age.
+                  </p>
+                </div>
+                <StepUpTimeline
+                  entries={timeline}
+                  missingBirthDate={
+                    !config.stepUp.birthDate && config.stepUp.phases.some((phase) => phase.until.kind === "age")
+                  }
+                />
               </div>
+            )}
 
-              {preview.weeks.map((week, weekIndex) => (
-                <div key={`week-${weekIndex}`} className="flex-1 grid grid-cols-7 divide-x divide-slate-100 dark:divide-slate-800 min-h-[160px] border-b last:border-b-0 border-slate-200 dark:border-slate-800">
-                  {week.map((day) => {
-                    const dayColor = day.parent === "A" ? "primary" : "parent-b";
-                    const textColor = day.parent === "A" ? "text-primary" : "text-parent-b";
-
-                    return (
-                      <div
-                        key={day.isoDate}
-                        className={`relative p-2 flex flex-col group transition-colors ${
-                          dayColor === "primary"
-                            ? "bg-primary/5 hover:bg-primary/10"
-                            : "bg-parent-b/5 hover:bg-parent-b/10"
-                        }`}
-                      >
-                        <span className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">{day.dayOfMonth}</span>
-                        <div
-                          className={`flex-1 rounded-lg p-2 border-l-4 ${
-                            dayColor === "primary"
-                              ? "bg-primary/20 border-primary"
-                              : "bg-parent-b/20 border-parent-b"
-                          }`}
-                        >
-                          <div className={`text-xs font-bold ${textColor}`}>Parent {day.parent}</div>
-                          <div className="text-[10px] text-slate-600 dark:text-slate-400 mt-1">{day.details}</div>
-                        </div>
-                      </div>
-                    );
-                  })}
-                </div>
-              ))}
-            </div>
+            <PreviewGrid preview={preview} />
 
-            <div className="mt-4 flex items-center justify-center gap-6 text-sm text-slate-500">
-              <div className="flex items-center gap-2">
-                <div className="w-3 h-3 rounded bg-primary"></div>
-                <span>Parent A ({preview.parentAPercent}%)</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <div className="w-3 h-3 rounded bg-parent-b"></div>
-                <span>Parent B ({preview.parentBPercent}%)</span>
+            {summerPreview && config.summer && (
+              <div className="mt-10 flex flex-col">
+                <div className="mb-6">
+                  <h2 className="text-xl font-bold text-slate-900 dark:text-white">Summer Rotation</h2>
+                  <p className="text-slate-500 dark:text-slate-400 mt-1">
+                    {summerTemplateTitle} from {config.summer.startMonthDay} to {config.summer.endMonthDay} each
+                    year, previewing {summerPreview.rangeLabel}
+                  </p>
+                </div>
+                <PreviewGrid preview={summerPreview} />
               </div>
-            </div>
+            )}
 
             {draftSaved && (
               <div className="mt-4 rounded-lg border border-primary/30 bg-primary/10 px-3 py-2 text-sm text-primary">
@@ -271,6 +352,22 @@ export default async function PatternConfigPage({
               <input type="hidden" name="pickup" value={config.pickupTime} />
               <input type="hidden" name="dropoff" value={config.dropoffTime} />
               <input type="hidden" name="mode" value={config.mode} />
+              {config.summer && (
+                <>
+                  <input type="hidden" name="summer" value={config.summer.templateId} />
+                  <input type="hidden" name="summerStart" value={config.summer.startMonthDay} />
+                  <input type="hidden" name="summerEnd" value={config.summer.endMonthDay} />
+                  <input type="hidden" name="summerStartsWith" value={config.summer.rotationStarter} />
+                </>
+              )}
+              {config.stepUp && (
+                <>
+                  <input type="hidden" name="stepUp" value={formatStepUpParam(config.stepUp)} />
+                  {config.stepUp.birthDate && (
+                    <input type="hidden" name="birthDate" value={config.stepUp.birthDate} />
+                  )}
+                </>
+              )}
 
               <button
                 className="inline-flex items-center justify-center rounded-full bg-primary px-8 py-3 text-sm font-semibold text-white shadow-sm hover:bg-primary-hover focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-primary transition-all"
@@ -1,7 +1,16 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { type PatternConfigInput, type RotationStarter } from "@/lib/schedule";
+import {
+  formatStepUpParam,
+  getDefaultSummerConfig,
+  isMonthDay,
+  type PatternConfigInput,
+  type RotationStarter,
+  type ScheduleTemplate,
+  type StepUpPhaseInput,
+  type StepUpPhaseTemplate,
+} from "@/lib/schedule";
 
 interface PatternConfigFormProps {
   readonly config: PatternConfigInput;
@@ -9,8 +18,40 @@ interface PatternConfigFormProps {
   readonly dropoffOptions: readonly string[];
   readonly templateId: string;
   readonly mode: string;
+  readonly summerTemplates: readonly ScheduleTemplate[];
+  readonly stepUpTemplates: readonly StepUpPhaseTemplate[];
+  readonly maxStepUpPhases: number;
 }
 
+/** A step-up phase as edited: both kinds of end are kept while switching between them */
+interface StepUpPhaseDraft {
+  templateId: StepUpPhaseInput["templateId"];
+  endKind: "age" | "date";
+  months: number;
+  date: string;
+}
+
+function toPhaseDraft(phase: StepUpPhaseInput): StepUpPhaseDraft {
+  return {
+    templateId: phase.templateId,
+    endKind: phase.until.kind,
+    months: phase.until.kind === "age" ? phase.until.months : 12,
+    date: phase.until.kind === "date" ? phase.until.date : "",
+  };
+}
+
+function toPhaseInput(draft: StepUpPhaseDraft): StepUpPhaseInput {
+  return {
+    templateId: draft.templateId,
+    until: draft.endKind === "age" ? { kind: "age", months: draft.months } : { kind: "date", date: draft.date },
+  };
+}
+
+const DEFAULT_STEP_UP_PHASES: StepUpPhaseDraft[] = [
+  { templateId: "daytime-visits", endKind: "age", months: 6, date: "" },
+  { templateId: "one-overnight", endKind: "age", months: 18, date: "" },
+];
+
 function getTodayIsoDate(): string {
   const today = new Date();
   return today.toISOString().slice(0, 10);
@@ -22,7 +63,11 @@ export function PatternConfigForm({
   dropoffOptions,
   templateId,
   mode,
+  summerTemplates,
+  stepUpTemplates,
+  maxStepUpPhases,
 }: PatternConfigFormProps) {
+  const summerDefaults = config.summer ?? getDefaultSummerConfig();
   const [date, setDate] = useState(config.scheduleStartDate);
   const [startsWith, setStartsWith] = useState(config.rotationStarter);
   const [pickup, setPickup] = useState(config.pickupTime);
@@ -30,6 +75,20 @@ export function PatternConfigForm({
   const [mounted, setMounted] = useState(false);
   const [configOpen, setConfigOpen] = useState(false);
   const [dateError, setDateError] = useState<string | undefined>();
+  const [summerEnabled, setSummerEnabled] = useState(Boolean(config.summer));
+  const [summerTemplate, setSummerTemplate] = useState(summerDefaults.templateId);
+  const [summerStart, setSummerStart] = useState(summerDefaults.startMonthDay);
+  const [summerEnd, setSummerEnd] = useState(summerDefaults.endMonthDay);
+  const [summerStartsWith, setSummerStartsWith] = useState(summerDefaults.rotationStarter);
+  const [stepUpEnabled, setStepUpEnabled] = useState(Boolean(config.stepUp));
+  const [birthDate, setBirthDate] = useState(config.stepUp?.birthDate ?? "");
+  const [stepUpPhases, setStepUpPhases] = useState<StepUpPhaseDraft[]>(
+    config.stepUp ? config.stepUp.phases.map(toPhaseDraft) : DEFAULT_STEP_UP_PHASES
+  );
+
+  const updateStepUpPhase = (index: number, changes: Partial<StepUpPhaseDraft>) => {
+    setStepUpPhases((phases) => phases.map((phase, i) => (i === index ? { ...phase, ...changes } : phase)));
+  };
 
   // Validate date helper
   const validateDate = (dateValue: string): boolean => {
@@ -98,7 +157,14 @@ export function PatternConfigForm({
     }
   }, [date]);
 
-  const isDateValid = !dateError;
+  const summerDatesValid = !summerEnabled || (isMonthDay(summerStart) && isMonthDay(summerEnd) && summerStart !== summerEnd);
+  const stepUpValid =
+    !stepUpEnabled ||
+    (stepUpPhases.length > 0 &&
+      stepUpPhases.every((phase) =>
+        phase.endKind === "age" ? Number.isInteger(phase.months) && phase.months > 0 : /^\d{4}-\d{2}-\d{2}$/.test(phase.date)
+      ));
+  const isDateValid = !dateError && summerDatesValid && stepUpValid;
 
   const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -114,6 +180,18 @@ export function PatternConfigForm({
       dropoff,
       mode,
     });
+    if (summerEnabled) {
+      query.set("summer", summerTemplate);
+      query.set("summerStart", summerStart);
+      query.set("summerEnd", summerEnd);
+      query.set("summerStartsWith", summerStartsWith);
+    }
+    if (stepUpEnabled) {
+      query.set("stepUp", formatStepUpParam({ phases: stepUpPhases.map(toPhaseInput) }));
+      if (birthDate) {
+        query.set("birthDate", birthDate);
+      }
+    }
     window.location.href = `/calendar/wizard/pattern?${query.toString()}`;
   };
 
@@ -275,6 +353,205 @@ export function PatternConfigForm({
             </div>
           </div>
 
+          <div className="h-px bg-slate-200 dark:bg-slate-700"></div>
+
+          <div className="space-y-4">
+            <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-slate-300">
+              <input
+                type="checkbox"
+                checked={summerEnabled}
+                onChange={(e) => setSummerEnabled(e.target.checked)}
+                className="rounded border-slate-300 text-primary focus:ring-primary"
+              />
+              Different rotation over summer
+            </label>
+            {summerEnabled && (
+              <div className="bg-surface-sunken dark:bg-background-dark p-4 rounded-xl border border-slate-200 dark:border-slate-700 space-y-3">
+                <div>
+                  <label htmlFor="summerTemplate" className="text-xs text-slate-500 uppercase font-bold tracking-wider mb-1.5 block">
+                    Summer Rotation
+                  </label>
+                  <select
+                    id="summerTemplate"
+                    className="w-full rounded-lg border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:border-primary focus:ring-primary shadow-sm"
+                    value={summerTemplate}
+                    onChange={(e) => setSummerTemplate(e.target.value as ScheduleTemplate["id"])}
+                  >
+                    {summerTemplates.map((template) => (
+                      <option key={template.id} value={template.id}>
+                        {template.title}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label htmlFor="summerStart" className="text-xs text-slate-500 uppercase font-bold tracking-wider mb-1.5 block">
+                      Starts (MM-DD)
+                    </label>
+                    <input
+                      id="summerStart"
+                      className="w-full rounded-lg border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:border-primary focus:ring-primary shadow-sm"
+                      type="text"
+                      inputMode="numeric"
+                      placeholder="06-15"
+                      value={summerStart}
+                      onChange={(e) => setSummerStart(e.target.value)}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="summerEnd" className="text-xs text-slate-500 uppercase font-bold tracking-wider mb-1.5 block">
+                      School Resumes (MM-DD)
+                    </label>
+                    <input
+                      id="summerEnd"
+                      className="w-full rounded-lg border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:border-primary focus:ring-primary shadow-sm"
+                      type="text"
+                      inputMode="numeric"
+                      placeholder="08-20"
+                      value={summerEnd}
+                      onChange={(e) => setSummerEnd(e.target.value)}
+                    />
+                  </div>
+                </div>
+                {!summerDatesValid && (
+                  <p className="text-sm text-red-600 dark:text-red-400">
+                    Enter summer dates as MM-DD, ending on a different day than they start.
+                  </p>
+                )}
+                <div className="grid grid-cols-2 gap-3">
+                  {(["A", "B"] as const).map((parent) => (
+                    <label key={parent} className="cursor-pointer">
+                      <input
+                        type="radio"
+                        name="summerStartsWith"
+                        value={parent}
+                        checked={summerStartsWith === parent}
+                        onChange={(e) => setSummerStartsWith(e.target.value as RotationStarter)}
+                        className="peer sr-only"
+                      />
+                      <span className="flex items-center justify-center gap-2 p-2 rounded-lg border-2 border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-800 text-sm text-slate-500 peer-checked:border-primary peer-checked:bg-primary/10 peer-checked:text-primary peer-checked:font-semibold transition-all">
+                        Parent {parent} starts
+                      </span>
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500">
+                  The summer rotation restarts every year; the school-year rotation carries on when school resumes.
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div className="h-px bg-slate-200 dark:bg-slate-700"></div>
+
+          <div className="space-y-4">
+            <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-slate-300">
+              <input
+                type="checkbox"
+                checked={stepUpEnabled}
+                onChange={(e) => setStepUpEnabled(e.target.checked)}
+                className="rounded border-slate-300 text-primary focus:ring-primary"
+              />
+              Step up from shorter stays
+            </label>
+            {stepUpEnabled && (
+              <div className="bg-surface-sunken dark:bg-background-dark p-4 rounded-xl border border-slate-200 dark:border-slate-700 space-y-4">
+                <div>
+                  <label htmlFor="birthDate" className="text-xs text-slate-500 uppercase font-bold tracking-wider mb-1.5 block">
+                    Child&apos;s Date of Birth
+                  </label>
+                  <input
+                    id="birthDate"
+                    className="w-full rounded-lg border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:border-primary focus:ring-primary shadow-sm"
+                    type="date"
+                    value={birthDate}
+                    onChange={(e) => setBirthDate(e.target.value)}
+                  />
+                </div>
+                {stepUpPhases.map((phase, index) => (
+                  <fieldset key={index} className="space-y-2 border-t border-slate-200 dark:border-slate-700 pt-3">
+                    <legend className="text-xs text-slate-500 uppercase font-bold tracking-wider">Phase {index + 1}</legend>
+                    <select
+                      aria-label={`Phase ${index + 1} rotation`}
+                      className="w-full rounded-lg border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:border-primary focus:ring-primary shadow-sm"
+                      value={phase.templateId}
+                      onChange={(e) =>
+                        updateStepUpPhase(index, { templateId: e.target.value as StepUpPhaseDraft["templateId"] })
+                      }
+                    >
+                      {stepUpTemplates.map((template) => (
+                        <option key={template.id} value={template.id}>
+                          {template.title}
+                        </option>
+                      ))}
+                    </select>
+                    <div className="grid grid-cols-2 gap-2">
+                      <select
+                        aria-label={`Phase ${index + 1} ends`}
+                        className="rounded-lg border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-sm text-slate-900 dark:text-white focus:border-primary focus:ring-primary shadow-sm"
+                        value={phase.endKind}
+                        onChange={(e) => updateStepUpPhase(index, { endKind: e.target.value as "age" | "date" })}
+                      >
+                        <option value="age">Until age (months)</option>
+                        <option value="date">Until date</option>
+                      </select>
+                      {phase.endKind === "age" ? (
+                        <input
+                          aria-label={`Phase ${index + 1} age in months`}
+                          className="rounded-lg border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-sm text-slate-900 dark:text-white focus:border-primary focus:ring-primary shadow-sm"
+                          type="number"
+                          min={1}
+                          max={216}
+                          value={phase.months}
+                          onChange={(e) => updateStepUpPhase(index, { months: Number(e.target.value) })}
+                        />
+                      ) : (
+                        <input
+                          aria-label={`Phase ${index + 1} end date`}
+                          className="rounded-lg border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-sm text-slate-900 dark:text-white focus:border-primary focus:ring-primary shadow-sm"
+                          type="date"
+                          value={phase.date}
+                          onChange={(e) => updateStepUpPhase(index, { date: e.target.value })}
+                        />
+                      )}
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setStepUpPhases((phases) => phases.filter((_, i) => i !== index))}
+                      className="text-xs font-medium text-slate-500 hover:text-red-600"
+                    >
+                      Remove phase
+                    </button>
+                  </fieldset>
+                ))}
+                {stepUpPhases.length < maxStepUpPhases && (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setStepUpPhases((phases) => [
+                        ...phases,
+                        { templateId: "one-overnight", endKind: "age", months: (phases.at(-1)?.months ?? 0) + 6, date: "" },
+                      ])
+                    }
+                    className="text-sm font-semibold text-primary hover:underline"
+                  >
+                    Add phase
+                  </button>
+                )}
+                {!stepUpValid && (
+                  <p className="text-sm text-red-600 dark:text-red-400">
+                    Give every phase an age in months or an end date.
+                  </p>
+                )}
+                <p className="text-xs text-slate-500">
+                  Parent A keeps the overnights in the early phases. After the last phase the {templateId} rotation
+                  above takes over.
+                </p>
+              </div>
+            )}
+          </div>
+
           <button
             type="submit"
             disabled={!isDateValid}
@@ -1,13 +1,19 @@
 import {
+  formatStepUpParam,
   generatePatternPreview,
+  generateStepUpTimeline,
+  generateSummerPreview,
   getDefaultPatternConfig,
   isTemplateId,
+  resolveStepUpConfig,
+  resolveSummerConfig,
   resolveTemplate,
   type PatternConfigInput,
   type PreviewMode,
   type RotationStarter,
   type TemplateId,
 } from "@/lib/schedule";
+import { StepUpTimeline } from "../step-up-timeline";
 
 type ReviewSearchParams = {
   template?: string;
@@ -16,6 +22,12 @@ type ReviewSearchParams = {
   pickup?: string;
   dropoff?: string;
   mode?: string;
+  summer?: string;
+  summerStart?: string;
+  summerEnd?: string;
+  summerStartsWith?: string;
+  stepUp?: string;
+  birthDate?: string;
 };
 
 function isValidIsoDate(value: string | undefined): value is string {
@@ -44,18 +56,36 @@ function resolveReviewConfig(searchParams?: ReviewSearchParams): PatternConfigIn
     pickupTime: searchParams?.pickup ?? defaults.pickupTime,
     dropoffTime: searchParams?.dropoff ?? defaults.dropoffTime,
     mode,
+    summer: resolveSummerConfig(searchParams ?? {}),
+    stepUp: resolveStepUpConfig(searchParams ?? {}),
   };
 }
 
 function toQueryString(config: PatternConfigInput): string {
-  return new URLSearchParams({
+  const query = new URLSearchParams({
     template: config.templateId,
     startDate: config.scheduleStartDate,
     startsWith: config.rotationStarter,
     pickup: config.pickupTime,
     dropoff: config.dropoffTime,
     mode: config.mode,
-  }).toString();
+  });
+
+  if (config.summer) {
+    query.set("summer", config.summer.templateId);
+    query.set("summerStart", config.summer.startMonthDay);
+    query.set("summerEnd", config.summer.endMonthDay);
+    query.set("summerStartsWith", config.summer.rotationStarter);
+  }
+
+  if (config.stepUp) {
+    query.set("stepUp", formatStepUpParam(config.stepUp));
+    if (config.stepUp.birthDate) {
+      query.set("birthDate", config.stepUp.birthDate);
+    }
+  }
+
+  return query.toString();
 }
 
 export default async function ReviewPage({
@@ -65,6 +95,9 @@ export default async function ReviewPage({
   const config = resolveReviewConfig(resolvedParams);
   const preview = generatePatternPreview(config);
   const template = resolveTemplate(config.templateId);
+  const summerPreview = generateSummerPreview(config);
+  const summerTemplate = config.summer ? resolveTemplate(config.summer.templateId) : null;
+  const timeline = generateStepUpTimeline(config);
 
   const backHref = `/calendar/wizard/pattern?${toQueryString(config)}`;
   const finishHref = `/calendar?wizard=completed&template=${encodeURIComponent(config.templateId)}`;
@@ -99,6 +132,32 @@ export default async function ReviewPage({
             <p className="text-xs uppercase tracking-wide text-slate-500 mb-1">Transition Time</p>
             <p className="font-semibold">{config.pickupTime}</p>
           </div>
+          {config.summer && summerTemplate && (
+            <div className="rounded-xl border border-slate-200 dark:border-slate-700 p-4 sm:col-span-2">
+              <p className="text-xs uppercase tracking-wide text-slate-500 mb-1">Summer Rotation</p>
+              <p className="font-semibold">
+                {summerTemplate.title}, {config.summer.startMonthDay} to {config.summer.endMonthDay}, Parent{" "}
+                {config.summer.rotationStarter} starts
+              </p>
+              {summerPreview && (
+                <p className="text-sm text-slate-500 mt-1">
+                  Parent A {summerPreview.parentAPercent}% / Parent B {summerPreview.parentBPercent}% over{" "}
+                  {summerPreview.rangeLabel}
+                </p>
+              )}
+            </div>
+          )}
+          {timeline && config.stepUp && (
+            <div className="rounded-xl border border-slate-200 dark:border-slate-700 p-4 sm:col-span-2">
+              <p className="text-xs uppercase tracking-wide text-slate-500 mb-3">Step-Up Plan</p>
+              <StepUpTimeline
+                entries={timeline}
+                missingBirthDate={
+                  !config.stepUp.birthDate && config.stepUp.phases.some((phase) => phase.until.kind === "age")
+                }
+              />
+            </div>
+          )}
         </div>
 
         <div className="rounded-xl bg-slate-50 dark:bg-slate-800/70 border border-slate-200 dark:border-slate-700 p-4 mb-8">
@@ -0,0 +1,57 @@
+import type { StepUpTimelineEntry } from "@/lib/schedule";
+
+function formatTimelineDate(isoDate: string): string {
+  return new Date(`${isoDate}T00:00:00.000Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/** The phases of a step-up plan, each with its dates and split, then the long-term rotation */
+export function StepUpTimeline({
+  entries,
+  missingBirthDate,
+}: Readonly<{ entries: StepUpTimelineEntry[]; missingBirthDate: boolean }>) {
+  return (
+    <div className="space-y-3">
+      {missingBirthDate && (
+        <p className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-700 dark:border-amber-800/40 dark:bg-amber-900/20 dark:text-amber-200">
+          Enter the child&apos;s date of birth to place phases that end at an age.
+        </p>
+      )}
+      <ol className="relative border-l-2 border-slate-200 dark:border-slate-700 ml-2 space-y-4">
+        {entries.map((entry, index) => (
+          <li key={`${entry.title}-${entry.startDate}`} className="ml-5">
+            <span
+              className={`absolute -left-[9px] mt-1.5 w-4 h-4 rounded-full ring-4 ring-surface-sunken dark:ring-surface-sunken ${
+                entry.endDate === null ? "bg-primary" : "bg-slate-300 dark:bg-slate-600"
+              }`}
+              aria-hidden="true"
+            ></span>
+            <div className="bg-white dark:bg-surface rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm p-4">
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <p className="font-semibold text-slate-900 dark:text-white">
+                  {entry.endDate === null ? "Long-term: " : `Phase ${index + 1}: `}
+                  {entry.title}
+                </p>
+                <p className="text-sm text-slate-500">
+                  {formatTimelineDate(entry.startDate)} – {entry.endDate ? formatTimelineDate(entry.endDate) : "onward"}
+                </p>
+              </div>
+              <div className="mt-2 flex h-2 rounded-full overflow-hidden bg-slate-100 dark:bg-slate-800">
+                <div className="bg-primary" style={{ width: `${entry.parentAPercent}%` }}></div>
+                <div className="bg-parent-b" style={{ width: `${entry.parentBPercent}%` }}></div>
+              </div>
+              <p className="mt-2 text-xs text-slate-500">
+                Parent A {entry.parentAPercent}% / Parent B {entry.parentBPercent}%
+                {entry.untilLabel ? `, ${entry.untilLabel}` : ""}
+              </p>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -4,17 +4,26 @@
 import { OptimizedImage } from "@/components/optimized-image";
 import { NotificationButton } from "@/components/notification-button";
 import { MobileNavOverlay } from "@/components/mobile-nav-overlay";
-import { SchedulePresets } from "@/lib/custody";
+import {
+  SchedulePresets,
+  formatLocalTime,
+  toChildSchedules,
+  toCustodySchedule,
+  toScheduleVersions,
+} from "@/lib/custody";
 import { redirect } from "next/navigation";
 import Link from "next/link";
 import { ThemeToggle } from "@/app/theme-toggle";
 import { requireAuth } from "@/lib/auth";
 import { ensureParentExists } from "@/lib/parent-setup-engine";
 import { db } from "@/lib/persistence";
+import { resolveStoredFileUrl } from "@/lib/storage";
 import { aggregateDashboard } from "@/lib/dashboard-aggregator";
+import { defaultOccurrenceRange, expandEventOccurrences } from "@/lib/calendar/occurrences";
 import type {
   ActivityItem,
   CalendarEvent,
+  ChildCustody,
   ConflictClimate,
   CustodyStatus,
   Expense,
@@ -24,6 +33,7 @@ import type {
   Parent,
   Reminder,
   ScheduleChangeRequest,
+  ScheduleOverride,
   ScheduleTransition,
 } from "@/lib";
 
@@ -44,20 +54,29 @@ function relativeTime(isoString: string): string {
   return `${Math.floor(diffHr / 24)} days ago`;
 }
 
+/** "YYYY-MM-DD" calendar day of an instant in the given timezone. */
+function dayKeyInZone(d: Date, timeZone: string): string {
+  return d.toLocaleDateString("en-CA", { timeZone });
+}
+
+/** e.g. "5:00 PM" in the given timezone. */
+function formatTimeInZone(d: Date, timeZone: string): string {
+  return d.toLocaleTimeString([], { hour: "numeric", minute: "2-digit", timeZone });
+}
+
 /** e.g. "Today, 5:00 PM" or "Tue, Jul 8 · 5:00 PM" */
-function formatTransition(d: Date): string {
-  const now     = new Date();
-  const isToday = d.toDateString() === now.toDateString();
-  const time    = d.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+function formatTransition(d: Date, timeZone: string): string {
+  const isToday = dayKeyInZone(d, timeZone) === dayKeyInZone(new Date(), timeZone);
+  const time    = formatTimeInZone(d, timeZone);
   if (isToday) return `Today, ${time}`;
-  return `${d.toLocaleDateString([], { weekday: "short", month: "short", day: "numeric" })} · ${time}`;
+  return `${d.toLocaleDateString([], { weekday: "short", month: "short", day: "numeric", timeZone })} · ${time}`;
 }
 
 /** Returns true if date is tomorrow (calendar day, not 24 h window). */
-function isTransitionTomorrow(d: Date): boolean {
-  const tomorrow = new Date();
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  return d.toDateString() === tomorrow.toDateString();
+function isTransitionTomorrow(d: Date, timeZone: string): boolean {
+  const [year, month, day] = dayKeyInZone(new Date(), timeZone).split("-").map(Number);
+  const tomorrowKey = new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+  return dayKeyInZone(d, timeZone) === tomorrowKey;
 }
 
 /** Extracts a readable label from an activity item's summary string. */
@@ -264,37 +283,46 @@ function DashboardHeader({
 
 function CustodyScheduleCard({
   custody,
+  childCustody,
   upcomingTransitions,
   monthlyOwnership,
   family,
   isCurrentUser,
   upcomingEvents,
+  currentParentId,
+  timeZone,
 }: Readonly<{
   custody: CustodyStatus;
+  /** Each child's caregiver now; listed when the children are split up */
+  childCustody: ChildCustody[];
   upcomingTransitions: ScheduleTransition[];
   monthlyOwnership: { [parentId: string]: number };
   family: Family;
   isCurrentUser: boolean;
   upcomingEvents: CalendarEvent[];
+  currentParentId: string;
+  /** Viewer's IANA timezone; all times on the card are shown in it. */
+  timeZone: string;
 }>) {
   const todayLabel = new Date().toLocaleDateString([], {
     weekday: "long",
     month: "short",
     day: "numeric",
+    timeZone,
   });
-  const dropoffTime = custody.periodEnd.toLocaleTimeString([], {
-    hour: "numeric",
-    minute: "2-digit",
-  });
-  const transitionLabel = isTransitionTomorrow(custody.periodEnd)
+  const dropoffTime = formatTimeInZone(custody.periodEnd, timeZone);
+  const transitionLabel = isTransitionTomorrow(custody.periodEnd, timeZone)
     ? "Tomorrow"
-    : formatTransition(custody.periodEnd);
+    : formatTransition(custody.periodEnd, timeZone);
 
   const nextEvent = upcomingEvents[0];
 
   // Find the co-parent (the one who doesn't currently have custody)
   const coParent = upcomingTransitions[0]?.toParent || upcomingTransitions[0]?.fromParent;
 
+  // Children on their own schedule may be somewhere else than the headline says
+  const childrenSplit = childCustody.some((c) => c.parent.id !== custody.currentParent.id);
+
   return (
     <div className={`p-6 md:col-span-2 xl:col-span-2`}>
       {/* Card header */}
@@ -326,6 +354,25 @@ function CustodyScheduleCard({
           <h3 className="text-3xl font-bold text-slate-900 dark:text-white mb-2">
             {isCurrentUser ? "With You" : `With ${custody.currentParent.name.split(" ")[0]}`}
           </h3>
+          {custody.override && (
+            <p className="inline-flex items-center gap-1 text-xs font-medium text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 px-2 py-1 rounded mb-3">
+              <span aria-hidden="true" className="material-symbols-outlined text-[14px]">event_repeat</span>
+              {custody.override.title}
+            </p>
+          )}
+          {childrenSplit && (
+            <ul aria-label="Where the kids are" className="mb-4 space-y-1">
+              {childCustody.map(({ child, parent }) => (
+                <li key={child.id} className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                  <span aria-hidden="true" className="material-symbols-outlined text-[16px] text-slate-400">child_care</span>
+                  <span className="font-semibold text-slate-800 dark:text-white">{child.firstName}</span>
+                  <span>
+                    with {parent.id === currentParentId ? "you" : parent.name.split(" ")[0]}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
           <div className="flex items-center gap-2 text-slate-600 dark:text-slate-300 mb-6">
             <span aria-hidden="true" className="material-symbols-outlined text-green-500 text-[20px]">
               check_circle
@@ -415,23 +462,34 @@ function CustodyScheduleCard({
               Next 5 Transitions
             </h4>
             <div className="space-y-3">
-              {upcomingTransitions.slice(0, 5).map((transition) => (
-                <div key={transition.at.getTime()} className="flex items-center gap-3">
-                  <div className="w-8 h-8 rounded-full bg-slate-200 dark:bg-slate-700 flex items-center justify-center shrink-0">
-                    <span aria-hidden="true" className="material-symbols-outlined text-slate-500 text-[16px]">
-                      swap_horiz
-                    </span>
-                  </div>
-                  <div className="min-w-0 flex-1">
-                    <p className="text-sm font-medium text-slate-800 dark:text-white">
-                      {transition.fromParent.name.split(" ")[0]} → {transition.toParent.name.split(" ")[0]}
-                    </p>
-                    <p className="text-xs text-slate-500">
-                      {formatTransition(transition.at)}
-                    </p>
+              {upcomingTransitions.slice(0, 5).map((transition) => {
+                // Co-parents in another timezone also see the handoff in their own local time.
+                const otherParent = [transition.fromParent, transition.toParent].find(
+                  (p) => p.id !== currentParentId
+                );
+                const otherLocalTime = otherParent && transition.localTimes?.[otherParent.id];
+                const ownLocalTime = transition.localTimes?.[currentParentId];
+                return (
+                  <div key={transition.at.getTime()} className="flex items-center gap-3">
+                    <div className="w-8 h-8 rounded-full bg-slate-200 dark:bg-slate-700 flex items-center justify-center shrink-0">
+                      <span aria-hidden="true" className="material-symbols-outlined text-slate-500 text-[16px]">
+                        swap_horiz
+                      </span>
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium text-slate-800 dark:text-white">
+                        {transition.fromParent.name.split(" ")[0]} → {transition.toParent.name.split(" ")[0]}
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        {formatTransition(transition.at, timeZone)}
+                        {otherParent && otherLocalTime && otherLocalTime !== ownLocalTime && (
+                          ` (${formatLocalTime(otherLocalTime)} for ${otherParent.name.split(" ")[0]})`
+                        )}
+                      </p>
+                    </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           </div>
         </div>
@@ -453,7 +511,7 @@ function CustodyScheduleCard({
             <div className="relative opacity-40">
               <div className="absolute -left-[21px] top-1 w-3 h-3 bg-slate-300 dark:bg-slate-600 rounded-full ring-4 ring-white dark:ring-surface" />
               <p className="text-xs text-slate-400">
-                {isTransitionTomorrow(custody.periodEnd) ? "Tomorrow" : "Next"}
+                {isTransitionTomorrow(custody.periodEnd, timeZone) ? "Tomorrow" : "Next"}
               </p>
               <p className="font-medium text-slate-800 dark:text-white">Start: Co-Parent</p>
             </div>
@@ -672,7 +730,7 @@ function PendingActionsCard({
 function MomentsCard({
   moments,
   parents,
-}: Readonly<{ moments: Moment[]; parents: [Parent, Parent] }>) {
+}: Readonly<{ moments: Moment[]; parents: Parent[] }>) {
   const display = moments.slice(0, 3);
 
   function parentName(id: string): string {
@@ -840,58 +898,71 @@ export default async function DashboardPage() {
     dbParents,
     dbChildren,
     dbEvents,
+    dbEventExceptions,
     dbChangeRequests,
     dbMessages,
     dbExpenses,
     dbMoments,
+    dbOverrides,
+    dbSchedule,
+    dbChildSchedules,
+    dbScheduleVersions,
   ] = await Promise.all([
     db.parents.findByFamilyId(parent.familyId),
     db.children.findByFamilyId(parent.familyId),
     db.calendarEvents.findByFamilyId(parent.familyId),
+    db.calendarEventExceptions.findByFamilyId(parent.familyId),
     db.scheduleChangeRequests.findByFamilyId(parent.familyId),
     db.messages.findByFamilyId(parent.familyId),
     db.expenses.findByFamilyId(parent.familyId),
     db.moments.findByFamilyId(parent.familyId),
+    db.scheduleOverrides.findActiveByFamilyId(parent.familyId),
+    db.custodySchedules.findActiveByFamilyId(parent.familyId),
+    db.custodySchedules.findActiveChildSchedules(parent.familyId),
+    db.custodyScheduleVersions.findApprovedByFamilyId(parent.familyId),
   ]);
 
   if (dbParents.length < 2) console.info(`Not enough parents found for familyId ${parent.familyId}`);
 
-  const mappedParents: Parent[] = dbParents.map((p) => ({
-    id: p.id,
-    name: p.name,
-    email: p.email,
-    avatarUrl: p.avatarUrl,
-    phone: p.phone,
-  }));
-
-  const [primaryParent, secondaryParent] = mappedParents as [Parent, Parent];
+  // Primary account holder first: the schedule presets anchor on them
+  const mappedParents: Parent[] = dbParents
+    .slice()
+    .sort((a, b) => (a.role === b.role ? 0 : a.role === "primary" ? -1 : 1))
+    .map((p) => ({
+      id: p.id,
+      name: p.name,
+      email: p.email,
+      avatarUrl: p.avatarUrl,
+      phone: p.phone,
+      timezone: p.timezone,
+      role: p.caregiverRole,
+    }));
+
+  const [primaryParent, secondaryParent, ...otherCaregivers] = mappedParents;
 
   // ── Schedule blocks ────────────────────────────────────────────────────
-  let scheduleBlocks;
   // If we don't have a secondary parent yet, create a dummy placeholder to avoid crashes
   const safePrimary = primaryParent ?? { id: "primary-placeholder", name: "Primary Parent (You)", email: "primary@example.com" };
   const safeSecondary = secondaryParent ?? { id: "secondary-placeholder", name: "Co-Parent (Pending Setup)", email: "secondary@example.com" };
 
-  if (dbFamily.scheduleId === "alternating-weeks") {
-    scheduleBlocks = SchedulePresets.alternatingWeeks(safePrimary.id, safeSecondary.id);
-  } else if (dbFamily.scheduleId === "3-4-4-3") {
-    scheduleBlocks = SchedulePresets.threeFourFourThree(safePrimary.id, safeSecondary.id);
-  } else {
-    scheduleBlocks = SchedulePresets.twoTwoThree(safePrimary.id, safeSecondary.id);
-  }
+  const scheduleBlocks = SchedulePresets.forScheduleId(dbFamily.scheduleId, safePrimary.id, safeSecondary.id);
 
   // ── Build family object ────────────────────────────────────────────────
   const family: Family = {
     id: dbFamily.id,
     custodyAnchorDate: dbFamily.custodyAnchorDate,
-    schedule: {
+    timezone: dbFamily.timezone,
+    // A saved schedule wins over the preset named on the family
+    schedule: (dbSchedule && toCustodySchedule(dbSchedule)) ?? {
       id: dbFamily.scheduleId || "2-2-3",
       name: "Family Schedule",
       transitionHour: 17,
       blocks: scheduleBlocks,
     },
-    parents: [safePrimary, safeSecondary] as [Parent, Parent],
+    scheduleVersions: toScheduleVersions(dbScheduleVersions),
+    parents: [safePrimary, safeSecondary, ...otherCaregivers],
     children: (dbChildren as unknown as Family["children"]),
+    childSchedules: toChildSchedules(dbChildSchedules),
   };
 
   // ── Batch load reactions for all moments (prevent N+1 queries) ──────────
@@ -899,12 +970,13 @@ export default async function DashboardPage() {
   const reactionsMap = await db.momentReactions.findByMomentIdsWithReactions(momentIds);
 
   // Attach reactions to moments with safe defaults
-  const momentsWithReactions: Moment[] = dbMoments.map(moment => ({
+  const momentsWithReactions: Moment[] = await Promise.all(dbMoments.map(async moment => ({
     id: moment.id,
     familyId: moment.familyId,
     uploadedBy: moment.uploadedBy,
-    mediaUrl: moment.mediaUrl,
-    thumbnailUrl: moment.thumbnailUrl,
+    // Stored media is private; hand the browser short-lived signed URLs
+    mediaUrl: await resolveStoredFileUrl(moment.mediaUrl),
+    thumbnailUrl: moment.thumbnailUrl ? await resolveStoredFileUrl(moment.thumbnailUrl) : undefined,
     caption: moment.caption,
     takenAt: moment.takenAt,
     createdAt: moment.createdAt,
@@ -913,7 +985,7 @@ export default async function DashboardPage() {
       emoji: r.emoji,
       reactedAt: r.reactedAt,
     })),
-  }));
+  })));
 
   const input = {
     currentParent: {
@@ -923,12 +995,13 @@ export default async function DashboardPage() {
       avatarUrl: parent.avatarUrl,
     },
     family,
-    events:           (dbEvents          as unknown as CalendarEvent[]),
+    events:           (expandEventOccurrences(dbEvents, dbEventExceptions, defaultOccurrenceRange(), dbFamily.timezone) as unknown as CalendarEvent[]),
     changeRequests:   (dbChangeRequests  as unknown as ScheduleChangeRequest[]),
     messages:         (dbMessages        as unknown as Message[]),
     expenses:         (dbExpenses        as unknown as Expense[]),
     moments:          (momentsWithReactions as unknown as Moment[]),
     reminders:        [] as Reminder[],
+    overrides:        (dbOverrides       as ScheduleOverride[]),
   };
 
   const data = aggregateDashboard(input);
@@ -962,11 +1035,14 @@ export default async function DashboardPage() {
             <div className="md:col-span-2">
               <CustodyScheduleCard
                 custody={data.custody}
+                childCustody={data.childCustody}
                 upcomingTransitions={data.upcomingTransitions}
                 monthlyOwnership={data.monthlyOwnership}
                 family={data.family}
                 isCurrentUser={isCurrentUserCustody}
                 upcomingEvents={data.upcomingEvents}
+                currentParentId={data.currentParent.id}
+                timeZone={parent.timezone ?? dbFamily.timezone}
               />
             </div>
 
@@ -0,0 +1,314 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+type ParentOption = { id: string; name: string };
+
+export type DisputeThreadMessage = {
+  id: string;
+  senderName: string;
+  senderInitial: string;
+  isCurrentUser: boolean;
+  body: string;
+  createdAt: string;
+  proposal?: {
+    description: string;
+    status: "pending" | "accepted" | "rejected" | "superseded";
+    canRespond: boolean;
+  };
+};
+
+type ProposalDraft = {
+  amount: string; // dollars
+  splitMethod: "" | "50-50" | "custom" | "one-parent";
+  yourPercent: string;
+};
+
+const EMPTY_PROPOSAL: ProposalDraft = { amount: "", splitMethod: "", yourPercent: "50" };
+
+const PROPOSAL_STATUS_LABELS: Record<string, string> = {
+  pending: "Awaiting answer",
+  accepted: "Accepted",
+  rejected: "Rejected",
+  superseded: "Replaced by a newer proposal",
+};
+
+/** Request body fields for a proposal, or an error message */
+function buildProposal(
+  draft: ProposalDraft,
+  currentParentId: string,
+  otherParentId: string
+): Record<string, unknown> | string {
+  const proposal: Record<string, unknown> = {};
+  if (draft.amount.trim()) {
+    const dollars = Number(draft.amount);
+    if (!Number.isFinite(dollars) || dollars < 0) return "Enter a valid amount";
+    proposal.totalAmount = Math.round(dollars * 100);
+  }
+  if (draft.splitMethod) {
+    proposal.splitMethod = draft.splitMethod;
+    if (draft.splitMethod === "custom") {
+      const percent = Number(draft.yourPercent);
+      if (!Number.isFinite(percent) || percent < 0 || percent > 100) return "Your share must be 0–100%";
+      proposal.splitRatio = {
+        [currentParentId]: percent / 100,
+        [otherParentId]: (100 - percent) / 100,
+      };
+    }
+  }
+  return proposal;
+}
+
+function ProposalFields({
+  draft,
+  onChange,
+}: {
+  draft: ProposalDraft;
+  onChange: (draft: ProposalDraft) => void;
+}) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+      <input
+        type="number"
+        min="0"
+        step="0.01"
+        value={draft.amount}
+        onChange={(e) => onChange({ ...draft, amount: e.target.value })}
+        placeholder="New amount ($)"
+        className="border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white rounded-lg px-3 py-2 text-sm"
+      />
+      <select
+        value={draft.splitMethod}
+        onChange={(e) => onChange({ ...draft, splitMethod: e.target.value as ProposalDraft["splitMethod"] })}
+        className="border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white rounded-lg px-3 py-2 text-sm"
+      >
+        <option value="">Keep split</option>
+        <option value="50-50">50 / 50</option>
+        <option value="custom">Custom split</option>
+        <option value="one-parent">Payer covers it</option>
+      </select>
+      {draft.splitMethod === "custom" && (
+        <input
+          type="number"
+          min="0"
+          max="100"
+          value={draft.yourPercent}
+          onChange={(e) => onChange({ ...draft, yourPercent: e.target.value })}
+          placeholder="Your share (%)"
+          className="border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white rounded-lg px-3 py-2 text-sm"
+        />
+      )}
+    </div>
+  );
+}
+
+async function postJson(url: string, body?: unknown): Promise<string | null> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({})) as { error?: string };
+    return data.error ?? "Something went wrong";
+  }
+  return null;
+}
+
+// ─── Open Dispute ─────────────────────────────────────────────────────────────
+
+export function OpenDisputeForm({
+  expenseId,
+  currentParentId,
+  otherParent,
+}: {
+  expenseId: string;
+  currentParentId: string;
+  otherParent: ParentOption;
+}) {
+  const router = useRouter();
+  const [reason, setReason] = useState("");
+  const [withProposal, setWithProposal] = useState(false);
+  const [draft, setDraft] = useState(EMPTY_PROPOSAL);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function submit() {
+    const proposal = withProposal ? buildProposal(draft, currentParentId, otherParent.id) : {};
+    if (typeof proposal === "string") {
+      setError(proposal);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const failure = await postJson(`/api/expenses/${expenseId}/dispute`, { reason, ...proposal });
+      if (failure) {
+        setError(failure);
+        return;
+      }
+      router.refresh();
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <textarea
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder="What is wrong with this expense?"
+        maxLength={2000}
+        className="w-full border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white rounded-lg p-3 text-sm h-24 resize-none focus:ring-2 focus:ring-primary focus:outline-none"
+      />
+      <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+        <input type="checkbox" checked={withProposal} onChange={(e) => setWithProposal(e.target.checked)} />
+        Propose a different amount or split
+      </label>
+      {withProposal && <ProposalFields draft={draft} onChange={setDraft} />}
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      <button
+        onClick={submit}
+        disabled={loading || reason.trim().length === 0}
+        className="px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg transition-colors shadow-sm disabled:opacity-50"
+      >
+        {loading ? "Opening..." : "Open Dispute"}
+      </button>
+    </div>
+  );
+}
+
+// ─── Dispute Thread ───────────────────────────────────────────────────────────
+
+export function DisputeThread({
+  disputeId,
+  messages,
+  currentParentId,
+  otherParent,
+  canWithdraw,
+}: {
+  disputeId: string;
+  messages: DisputeThreadMessage[];
+  currentParentId: string;
+  otherParent: ParentOption;
+  canWithdraw: boolean;
+}) {
+  const router = useRouter();
+  const [draftMessage, setDraftMessage] = useState("");
+  const [withProposal, setWithProposal] = useState(false);
+  const [draft, setDraft] = useState(EMPTY_PROPOSAL);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function run(action: () => Promise<string | null>) {
+    setLoading(true);
+    setError(null);
+    try {
+      const failure = await action();
+      if (failure) {
+        setError(failure);
+        return;
+      }
+      setDraftMessage("");
+      setWithProposal(false);
+      setDraft(EMPTY_PROPOSAL);
+      router.refresh();
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function send() {
+    const proposal = withProposal ? buildProposal(draft, currentParentId, otherParent.id) : {};
+    if (typeof proposal === "string") {
+      setError(proposal);
+      return;
+    }
+    void run(() => postJson(`/api/expenses/disputes/${disputeId}/messages`, { message: draftMessage, ...proposal }));
+  }
+
+  return (
+    <div className="space-y-4">
+      <ul className="space-y-3">
+        {messages.map((message) => (
+          <li
+            key={message.id}
+            className={`rounded-lg p-3 text-sm ${
+              message.isCurrentUser ? "bg-primary/10 ml-8" : "bg-slate-100 dark:bg-slate-800 mr-8"
+            }`}
+          >
+            <div className="flex items-center justify-between text-xs text-slate-500 mb-1">
+              <span className="font-semibold">{message.senderName}</span>
+              <span>{new Date(message.createdAt).toLocaleString()}</span>
+            </div>
+            <p className="text-slate-800 dark:text-slate-100 whitespace-pre-wrap">{message.body}</p>
+            {message.proposal && (
+              <div className="mt-2 border-t border-slate-200 dark:border-slate-700 pt-2">
+                <p className="font-medium text-slate-700 dark:text-slate-200">Proposal: {message.proposal.description}</p>
+                <p className="text-xs text-slate-500">{PROPOSAL_STATUS_LABELS[message.proposal.status]}</p>
+                {message.proposal.canRespond && (
+                  <div className="flex gap-2 mt-2">
+                    <button
+                      onClick={() =>
+                        run(() => postJson(`/api/expenses/disputes/${disputeId}/proposals/${message.id}`, { decision: "accept" }))
+                      }
+                      disabled={loading}
+                      className="px-3 py-1.5 text-xs font-medium text-white bg-green-600 hover:bg-green-700 rounded-lg disabled:opacity-50"
+                    >
+                      Accept
+                    </button>
+                    <button
+                      onClick={() =>
+                        run(() => postJson(`/api/expenses/disputes/${disputeId}/proposals/${message.id}`, { decision: "reject" }))
+                      }
+                      disabled={loading}
+                      className="px-3 py-1.5 text-xs font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg disabled:opacity-50"
+                    >
+                      Reject
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="space-y-3 border-t border-slate-200 dark:border-slate-800 pt-4">
+        <textarea
+          value={draftMessage}
+          onChange={(e) => setDraftMessage(e.target.value)}
+          placeholder="Reply..."
+          maxLength={2000}
+          className="w-full border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white rounded-lg p-3 text-sm h-20 resize-none focus:ring-2 focus:ring-primary focus:outline-none"
+        />
+        <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+          <input type="checkbox" checked={withProposal} onChange={(e) => setWithProposal(e.target.checked)} />
+          Propose a different amount or split
+        </label>
+        {withProposal && <ProposalFields draft={draft} onChange={setDraft} />}
+        {error && <p className="text-sm text-red-500">{error}</p>}
+        <div className="flex items-center gap-2">
+          <button
+            onClick={send}
+            disabled={loading || draftMessage.trim().length === 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-primary hover:bg-primary-hover rounded-lg transition-colors shadow-sm disabled:opacity-50"
+          >
+            {loading ? "Sending..." : "Send"}
+          </button>
+          {canWithdraw && (
+            <button
+              onClick={() => run(() => postJson(`/api/expenses/disputes/${disputeId}/withdraw`))}
+              disabled={loading}
+              className="px-4 py-2 text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors border border-slate-200 dark:border-slate-700 disabled:opacity-50"
+            >
+              Withdraw Dispute
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+/**
+ * KidSchedule – Expense Dispute Page
+ *
+ * A Next.js Server Component showing an expense with its dispute thread.
+ * Either parent can open a dispute, reply, propose an adjusted amount or
+ * split, and answer the other parent's proposal; earlier disputes on the
+ * same expense are listed with their outcome.
+ */
+
+import { db } from "@/lib/persistence";
+import { requireAuth } from "@/lib/auth";
+import { ensureParentExists } from "@/lib/parent-setup-engine";
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import { ThemeToggle } from "@/app/theme-toggle";
+import { formatCurrency } from "@/lib/expense-engine";
+import { describeAdjustment, formatDisputeLines, toDisputeHistoryEntry } from "@/lib/expense-disputes";
+import type { DbExpense, DbExpenseDispute, DbExpenseDisputeMessage } from "@/lib/persistence/types";
+import { DisputeThread, OpenDisputeForm, type DisputeThreadMessage } from "./dispute-thread";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const SPLIT_LABELS: Record<DbExpense["splitMethod"], string> = {
+  "50-50": "50 / 50",
+  custom: "Custom split",
+  "one-parent": "Paid by one parent",
+};
+
+function toThreadMessages(
+  dispute: DbExpenseDispute,
+  messages: DbExpenseDisputeMessage[],
+  currentParentId: string,
+  currency: string,
+  parentName: (id: string) => string
+): DisputeThreadMessage[] {
+  return messages.map((m) => ({
+    id: m.id,
+    senderName: parentName(m.senderParentId),
+    senderInitial: parentName(m.senderParentId).charAt(0) || "?",
+    isCurrentUser: m.senderParentId === currentParentId,
+    body: m.body,
+    createdAt: m.createdAt,
+    proposal: m.proposalStatus
+      ? {
+          description: describeAdjustment(
+            {
+              totalAmount: m.proposedTotalAmount,
+              splitMethod: m.proposedSplitMethod,
+              splitRatio: m.proposedSplitRatio,
+            },
+            dispute,
+            currency,
+            parentName
+          ),
+          status: m.proposalStatus,
+          canRespond:
+            dispute.status === "open" && m.proposalStatus === "pending" && m.senderParentId !== currentParentId,
+        }
+      : undefined,
+  }));
+}
+
+// ─── Page Entry Point ──────────────────────────────────────────────────────────
+
+export const dynamic = "force-dynamic";
+
+export default async function ExpenseDisputePage({
+  params,
+}: Readonly<{ params: Promise<{ id: string }> }>) {
+  const user = await requireAuth();
+  const parentResult = await ensureParentExists(user.userId);
+  const activeParent = parentResult.parent;
+
+  const { id } = await params;
+  const [expense, parents, disputes] = await Promise.all([
+    db.expenses.findById(id),
+    db.parents.findByFamilyId(activeParent.familyId),
+    db.expenseDisputes.findByExpenseId(id),
+  ]);
+
+  if (!expense || expense.familyId !== activeParent.familyId) {
+    redirect("/expenses");
+  }
+
+  const parentName = (parentId: string) => parents.find((p) => p.id === parentId)?.name ?? "Parent";
+  const otherParent = parents.find((p) => p.id !== activeParent.id);
+  const threads = await Promise.all(
+    disputes.map(async (dispute) => ({
+      dispute,
+      messages: await db.expenseDisputeMessages.findByDisputeId(dispute.id),
+    }))
+  );
+  const open = threads.find((t) => t.dispute.status === "open");
+  const past = threads.filter((t) => t.dispute.status !== "open").reverse();
+
+  return (
+    <div className="min-h-screen bg-background-light dark:bg-background-dark">
+      <header className="flex items-center justify-between h-16 px-6 bg-surface-light dark:bg-surface-dark border-b border-slate-200 dark:border-slate-800">
+        <Link href="/expenses" className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300 hover:text-primary">
+          <span className="material-symbols-outlined text-lg">arrow_back</span>
+          Expenses
+        </Link>
+        <ThemeToggle />
+      </header>
+
+      <main className="max-w-3xl mx-auto p-6 space-y-6">
+        {/* Expense Summary */}
+        <section className="bg-surface-light dark:bg-surface-dark border border-border-light dark:border-border-dark rounded-xl shadow-sm p-6">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-xl font-bold text-slate-900 dark:text-white">{expense.title}</h1>
+              <p className="text-sm text-slate-500">
+                {expense.date} · paid by {parentName(expense.paidBy)} · {SPLIT_LABELS[expense.splitMethod]}
+              </p>
+            </div>
+            <p className="text-xl font-bold text-slate-900 dark:text-white">
+              {formatCurrency(expense.totalAmount, expense.currency)}
+            </p>
+          </div>
+          {open && (
+            <p className="mt-3 inline-block text-xs font-semibold px-2 py-0.5 rounded bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300">
+              Disputed by {parentName(open.dispute.openedBy)} – left out of the balance until resolved
+            </p>
+          )}
+        </section>
+
+        {/* Current Dispute */}
+        <section className="bg-surface-light dark:bg-surface-dark border border-border-light dark:border-border-dark rounded-xl shadow-sm p-6">
+          <h2 className="text-lg font-bold text-slate-900 dark:text-white mb-4">
+            {open ? "Open Dispute" : "Dispute This Expense"}
+          </h2>
+          {!otherParent ? (
+            <p className="text-sm text-slate-500">Invite your co-parent before disputing expenses.</p>
+          ) : open ? (
+            <DisputeThread
+              disputeId={open.dispute.id}
+              messages={toThreadMessages(open.dispute, open.messages, activeParent.id, expense.currency, parentName)}
+              currentParentId={activeParent.id}
+              otherParent={{ id: otherParent.id, name: otherParent.name }}
+              canWithdraw={open.dispute.openedBy === activeParent.id}
+            />
+          ) : (
+            <OpenDisputeForm
+              expenseId={expense.id}
+              currentParentId={activeParent.id}
+              otherParent={{ id: otherParent.id, name: otherParent.name }}
+            />
+          )}
+        </section>
+
+        {/* Past Disputes */}
+        {past.length > 0 && (
+          <section className="bg-surface-light dark:bg-surface-dark border border-border-light dark:border-border-dark rounded-xl shadow-sm p-6">
+            <h2 className="text-lg font-bold text-slate-900 dark:text-white mb-4">Past Disputes</h2>
+            <ul className="space-y-4">
+              {past.map(({ dispute, messages }) => (
+                <li key={dispute.id} className="text-sm text-slate-600 dark:text-slate-300 space-y-1">
+                  {formatDisputeLines(toDisputeHistoryEntry(dispute, expense, messages), parentName).map((line, index) => (
+                    <p key={index} className={index === 0 ? "font-medium text-slate-800 dark:text-slate-100" : "pl-4"}>
+                      {line.trim()}
+                    </p>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
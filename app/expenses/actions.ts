@@ -0,0 +1,239 @@
+"use server";
+
+import { redirect } from "next/navigation";
+import { requireAuth } from "@/lib/auth";
+import { ensureParentExists } from "@/lib/parent-setup-engine";
+import { db } from "@/lib/persistence";
+import { amountTextToCents, isExpenseFrequency } from "@/lib/expense-engine";
+import {
+  cancelReimbursementRequest,
+  recordExpensePayment,
+  requestReimbursement,
+  settleUp,
+} from "@/lib/expense-ledger";
+import { setRecurringExpenseStatus } from "@/lib/recurring-expenses";
+import { createSupportObligation, recordSupportPayment } from "@/lib/child-support";
+import { familyBaseCurrency, setFamilyBaseCurrency } from "@/lib/exchange-rates";
+import { logEvent } from "@/lib/observability/logger";
+
+function redirectWith(key: "error" | "success", message: string): never {
+  const params = new URLSearchParams();
+  params.set(key, message);
+  redirect(`/expenses?${params.toString()}`);
+}
+
+async function loadActiveParent() {
+  const user = await requireAuth();
+  try {
+    return (await ensureParentExists(user.userId)).parent;
+  } catch (error) {
+    console.error(`Failed to ensure parent exists for userId ${user.userId}:`, error);
+    redirect("/login?error=setup_failed");
+  }
+}
+
+async function loadFamilyExpense(expenseId: string, familyId: string) {
+  const expense = expenseId ? await db.expenses.findById(expenseId) : null;
+  if (!expense || expense.familyId !== familyId) {
+    redirectWith("error", "Expense not found.");
+  }
+  return expense;
+}
+
+/** Settle the running balance with the co-parent picked on the page */
+export async function settleBalance(formData: FormData): Promise<void> {
+  const parent = await loadActiveParent();
+  const otherParentId = ((formData.get("otherParentId") as string | null) ?? "").trim();
+
+  const result = await settleUp({
+    familyId: parent.familyId,
+    currentParentId: parent.id,
+    otherParentId,
+    recordedBy: parent.id,
+  });
+  if (!result.success) {
+    redirectWith("error", result.error);
+  }
+
+  logEvent("info", "expense.settled_up", {
+    familyId: parent.familyId,
+    settlementId: result.settlementId,
+    expenseCount: result.plan.allocations.length,
+    amountCents: result.plan.amountCents,
+  });
+  redirectWith("success", "Balance settled.");
+}
+
+/** Record a payment toward one expense, by the debtor or the parent who paid */
+export async function recordPayment(formData: FormData): Promise<void> {
+  const parent = await loadActiveParent();
+  const expense = await loadFamilyExpense(String(formData.get("expenseId") ?? ""), parent.familyId);
+
+  const amountCents = amountTextToCents(String(formData.get("amount") ?? "").trim());
+  if (amountCents === null || amountCents <= 0) {
+    redirectWith("error", "Enter a valid payment amount.");
+  }
+
+  // The payer of the expense records money received from a co-parent
+  const fromParentId =
+    expense.paidBy === parent.id ? String(formData.get("fromParentId") ?? "") : parent.id;
+
+  const result = await recordExpensePayment({
+    expense,
+    fromParentId,
+    amountCents,
+    recordedBy: parent.id,
+  });
+  if (!result.success) {
+    redirectWith("error", result.error);
+  }
+
+  logEvent("info", "expense.payment_recorded", {
+    familyId: parent.familyId,
+    expenseId: expense.id,
+    paymentId: result.payment.id,
+    status: result.line.status,
+  });
+  redirectWith("success", result.line.status === "paid" ? "Payment recorded. Expense is paid." : "Payment recorded.");
+}
+
+/** Ask a co-parent for their share of an expense the current parent paid */
+export async function requestExpenseReimbursement(formData: FormData): Promise<void> {
+  const parent = await loadActiveParent();
+  const expense = await loadFamilyExpense(String(formData.get("expenseId") ?? ""), parent.familyId);
+
+  const result = await requestReimbursement({
+    expense,
+    requestedBy: parent.id,
+    requestedFrom: String(formData.get("requestedFrom") ?? ""),
+  });
+  if (!result.success) {
+    redirectWith("error", result.error);
+  }
+
+  logEvent("info", "expense.reimbursement_requested", {
+    familyId: parent.familyId,
+    expenseId: expense.id,
+    requestId: result.request.id,
+  });
+  redirectWith("success", "Reimbursement requested.");
+}
+
+export async function cancelExpenseReimbursement(formData: FormData): Promise<void> {
+  const parent = await loadActiveParent();
+  const request = await db.reimbursementRequests.findById(String(formData.get("requestId") ?? ""));
+  if (!request || request.familyId !== parent.familyId) {
+    redirectWith("error", "Request not found.");
+  }
+
+  const result = await cancelReimbursementRequest(request, parent.id);
+  if (!result.success) {
+    redirectWith("error", result.error);
+  }
+  redirectWith("success", "Reimbursement request cancelled.");
+}
+
+/** Pick the currency the family settles in, before any expense is logged */
+export async function changeBaseCurrency(formData: FormData): Promise<void> {
+  const parent = await loadActiveParent();
+
+  const result = await setFamilyBaseCurrency(parent.familyId, String(formData.get("baseCurrency") ?? "").trim());
+  if (!result.success) {
+    redirectWith("error", result.error);
+  }
+  redirectWith("success", `Balances are now settled in ${result.family.baseCurrency}.`);
+}
+
+// ─── Recurring Expenses ───────────────────────────────────────────────────────
+
+/** Pause, resume or end a recurring expense template */
+export async function changeRecurringExpenseStatus(formData: FormData): Promise<void> {
+  const parent = await loadActiveParent();
+  const template = await db.recurringExpenses.findById(String(formData.get("recurringExpenseId") ?? ""));
+  if (!template || template.familyId !== parent.familyId) {
+    redirectWith("error", "Recurring expense not found.");
+  }
+
+  const status = String(formData.get("status") ?? "");
+  if (status !== "active" && status !== "paused" && status !== "ended") {
+    redirectWith("error", "Unknown recurring expense status.");
+  }
+
+  const result = await setRecurringExpenseStatus(template, status);
+  if (!result.success) {
+    redirectWith("error", result.error);
+  }
+
+  logEvent("info", "recurring_expense.status_changed", {
+    familyId: parent.familyId,
+    recurringExpenseId: template.id,
+    status: result.template.status,
+  });
+  const messages = {
+    active: "Recurring expense resumed.",
+    paused: "Recurring expense paused.",
+    ended: "Recurring expense ended.",
+  };
+  redirectWith("success", messages[result.template.status]);
+}
+
+// ─── Child Support ────────────────────────────────────────────────────────────
+
+/** Record the support schedule set by a court order */
+export async function addSupportObligation(formData: FormData): Promise<void> {
+  const parent = await loadActiveParent();
+  const read = (key: string) => ((formData.get(key) as string | null) ?? "").trim();
+
+  const amountCents = amountTextToCents(read("amount"));
+  if (amountCents === null) {
+    redirectWith("error", "Enter a valid support amount.");
+  }
+  const frequency = read("frequency");
+  if (!isExpenseFrequency(frequency)) {
+    redirectWith("error", "Choose how often support is due.");
+  }
+
+  const result = await createSupportObligation({
+    familyId: parent.familyId,
+    payerParentId: read("payerParentId"),
+    payeeParentId: read("payeeParentId"),
+    amountCents,
+    currency: familyBaseCurrency(await db.families.findById(parent.familyId)),
+    frequency,
+    startDate: read("startDate"),
+    endDate: read("endDate") || undefined,
+    graceDays: Number(read("graceDays") || "0"),
+    orderReference: read("orderReference") || undefined,
+    createdBy: parent.id,
+  });
+  if (!result.success) {
+    redirectWith("error", result.error);
+  }
+  redirectWith("success", "Support obligation added.");
+}
+
+/** Record a support payment received against an obligation */
+export async function recordSupportPaymentReceived(formData: FormData): Promise<void> {
+  const parent = await loadActiveParent();
+  const obligation = await db.supportObligations.findById(String(formData.get("obligationId") ?? ""));
+  if (!obligation || obligation.familyId !== parent.familyId) {
+    redirectWith("error", "Support obligation not found.");
+  }
+
+  const amountCents = amountTextToCents(String(formData.get("amount") ?? "").trim());
+  if (amountCents === null) {
+    redirectWith("error", "Enter a valid payment amount.");
+  }
+
+  const result = await recordSupportPayment({
+    obligation,
+    amountCents,
+    receivedOn: String(formData.get("receivedOn") ?? "").trim(),
+    recordedBy: parent.id,
+    note: String(formData.get("note") ?? ""),
+  });
+  if (!result.success) {
+    redirectWith("error", result.error);
+  }
+  redirectWith("success", "Support payment recorded.");
+}
@@ -1,21 +1,33 @@
 import { redirect } from "next/navigation";
 import {
+  CURRENCY_OPTIONS,
   EXPENSE_CATEGORY_OPTIONS,
+  EXPENSE_FREQUENCY_OPTIONS,
   amountTextToCents,
   computeSplitSummary,
   formatCurrency,
   getTodayIsoDate,
+  isCurrencyCode,
+  isExpenseFrequency,
+  parseExchangeRate,
   parseExpenseFormData,
   resolveYouPercent,
   type ExpenseSplitType,
   validateAddExpenseInput,
 } from "@/lib/expense-engine";
 import type { ExpenseCategory } from "@/lib";
+import type { DbExpense, ExpenseFrequency } from "@/lib/persistence/types";
 import { requireAuth } from "@/lib/auth";
 import { setCurrentFamilyId } from "@/lib/persistence/postgres/client";
 import { db } from "@/lib/persistence";
+import { publishNotificationEvent } from "@/lib/notification-events";
+import { createRecurringExpense } from "@/lib/recurring-expenses";
+import { ledgerParentIds } from "@/lib/expense-ledger";
+import { familyBaseCurrency, snapshotExchangeRate } from "@/lib/exchange-rates";
+import { attachExpenseReceipt, validateReceiptFile } from "@/lib/expense-receipts";
 import { SplitSelector } from "./split-selector";
 import { SplitPreview } from "./split-preview";
+import { ReceiptField } from "./receipt-field";
 
 type ExpenseSearchParams = {
   name?: string;
@@ -24,6 +36,10 @@ type ExpenseSearchParams = {
   date?: string;
   split?: string;
   custom?: string;
+  repeat?: string;
+  until?: string;
+  currency?: string;
+  rate?: string;
   success?: string;
   error?: string;
   receipt?: string;
@@ -36,6 +52,10 @@ type ExpensePageState = {
   dateIncurred: string;
   splitType: ExpenseSplitType;
   customYouPercent: number | null;
+  repeatFrequency?: ExpenseFrequency;
+  repeatUntil: string;
+  currency?: string;
+  exchangeRateText: string;
   errorMessage?: string;
   successMessage?: string;
   receiptMessage?: string;
@@ -69,6 +89,10 @@ function buildQueryStringFromInput(input: {
   dateIncurred: string;
   splitType: ExpenseSplitType;
   customYouPercent: number | null;
+  repeatFrequency?: ExpenseFrequency;
+  repeatUntil?: string;
+  currency?: string;
+  exchangeRateText?: string;
 }): string {
   const params = new URLSearchParams();
   if (input.expenseName) {
@@ -83,9 +107,31 @@ function buildQueryStringFromInput(input: {
   if (input.customYouPercent !== null) {
     params.set("custom", String(Math.round(input.customYouPercent)));
   }
+  if (input.repeatFrequency) {
+    params.set("repeat", input.repeatFrequency);
+    if (input.repeatUntil) {
+      params.set("until", input.repeatUntil);
+    }
+  }
+  if (input.currency) {
+    params.set("currency", input.currency);
+  }
+  if (input.exchangeRateText) {
+    params.set("rate", input.exchangeRateText);
+  }
   return params.toString();
 }
 
+function resolveSuccessMessage(success: string | undefined): string | undefined {
+  if (success === "1") {
+    return "Expense logged successfully.";
+  }
+  if (success === "recurring") {
+    return "Recurring expense set up. Occurrences up to today have been logged.";
+  }
+  return undefined;
+}
+
 function resolvePageState(searchParams: ExpenseSearchParams | undefined): ExpensePageState {
   const splitType = isSplitType(searchParams?.split) ? searchParams.split : "equal";
   const customYouPercent = parseCustomPercent(searchParams?.custom);
@@ -97,12 +143,18 @@ function resolvePageState(searchParams: ExpenseSearchParams | undefined): Expens
     dateIncurred: searchParams?.date ?? getTodayIsoDate(),
     splitType,
     customYouPercent,
+    repeatFrequency: isExpenseFrequency(searchParams?.repeat) ? searchParams.repeat : undefined,
+    repeatUntil: searchParams?.until ?? "",
+    currency: isCurrencyCode(searchParams?.currency) ? searchParams.currency : undefined,
+    exchangeRateText: (searchParams?.rate ?? "").trim(),
     errorMessage: searchParams?.error,
-    successMessage: searchParams?.success === "1" ? "Expense logged successfully." : undefined,
+    successMessage: resolveSuccessMessage(searchParams?.success),
     receiptMessage:
       searchParams?.receipt === "1"
         ? "Receipt uploaded successfully."
-        : undefined,
+        : searchParams?.receipt === "failed"
+          ? "The expense was saved, but the receipt could not be uploaded. Attach it from the expense list."
+          : undefined,
   };
 }
 
@@ -119,6 +171,10 @@ async function handleAddExpense(formData: FormData): Promise<void> {
     dateIncurred: input.dateIncurred,
     splitType: input.splitType,
     customYouPercent: input.customYouPercent,
+    repeatFrequency: input.repeatFrequency,
+    repeatUntil: input.repeatUntil,
+    currency: input.currency,
+    exchangeRateText: input.exchangeRateText,
   });
 
   if (!validation.valid) {
@@ -127,6 +183,15 @@ async function handleAddExpense(formData: FormData): Promise<void> {
     redirect(`/expenses/add?${params.toString()}`);
   }
 
+  const receiptFile = formData.get("receipt");
+  const receipt = receiptFile instanceof File && receiptFile.size > 0 ? receiptFile : null;
+  const receiptError = receipt ? validateReceiptFile(receipt) : null;
+  if (receiptError) {
+    const params = new URLSearchParams(baseParams);
+    params.set("error", receiptError);
+    redirect(`/expenses/add?${params.toString()}`);
+  }
+
   // ─── Auth & Session ────────────────────────────────────────────────────────
 
   let session;
@@ -149,16 +214,40 @@ async function handleAddExpense(formData: FormData): Promise<void> {
   }
 
   const familyId = parent.familyId;
+  const baseCurrency = familyBaseCurrency(await db.families.findById(familyId));
+  const currency = input.currency ?? baseCurrency;
 
-  // Get the other parent for split calculations
-  const otherParents = await db.parents.findByFamilyId(familyId);
-  const otherParent = otherParents.find((p) => p.id !== parent.id);
-  const otherParentId = otherParent?.id;
+  // Get the co-parent for split calculations, the same one the ledger uses
+  const familyParents = await db.parents.findByFamilyId(familyId);
+  const otherParentId = ledgerParentIds(familyParents).find((id) => id !== parent.id);
 
   // ─── Prepare Expense Data ──────────────────────────────────────────────────
 
   const amountCents = amountTextToCents(input.amountText) ?? 0;
-  const splitSummary = computeSplitSummary(amountCents, input.splitType, input.customYouPercent);
+
+  // Expenses paid in another currency are settled at the converted amount
+  const manualRate =
+    currency !== baseCurrency && input.exchangeRateText
+      ? (parseExchangeRate(input.exchangeRateText) ?? undefined)
+      : undefined;
+  const conversion = await snapshotExchangeRate({
+    amountCents,
+    currency,
+    baseCurrency,
+    date: input.dateIncurred,
+    manualRate,
+  });
+  if (!conversion.success) {
+    const params = new URLSearchParams(baseParams);
+    params.set("error", conversion.error);
+    redirect(`/expenses/add?${params.toString()}`);
+  }
+
+  const splitSummary = computeSplitSummary(
+    conversion.snapshot?.baseAmount ?? amountCents,
+    input.splitType,
+    input.customYouPercent
+  );
 
   // Map UI split type to DB schema:
   // - "equal" | "standard" → "50-50"
@@ -182,31 +271,69 @@ async function handleAddExpense(formData: FormData): Promise<void> {
     description: undefined,
     category: input.category,
     totalAmount: amountCents,
-    currency: "USD",
+    currency,
     splitMethod,
     splitRatio,
     paidBy: parent.id,
     paymentStatus: "unpaid" as const,
-    receiptUrl: undefined, // To be set after receipt upload
+    receiptUrl: undefined, // Set by attachExpenseReceipt
     date: input.dateIncurred, // ISO date string
+    ...conversion.snapshot,
   };
 
   // ─── Persist Expense ───────────────────────────────────────────────────────
 
   let successQuery: string | undefined;
+  let receiptExpense: DbExpense | undefined;
 
   try {
     // Set RLS context for family-scoped data isolation
     await setCurrentFamilyId(familyId);
 
-    // Create expense in database
-    await db.expenses.create(newExpense);
-
-    // Future: Upload receipt to provider and store receiptUrl
-    // if (input.receiptFile) {
-    //   const receiptUrl = await uploadReceiptToProvider(input.receiptFile);
-    //   await db.expenses.update(expense.id, { receiptUrl });
-    // }
+    if (input.repeatFrequency) {
+      // The template generates this occurrence and every later one, and asks
+      // the other parent for their share of each
+      const result = await createRecurringExpense({
+        familyId,
+        title: newExpense.title,
+        description: newExpense.description,
+        category: newExpense.category,
+        totalAmount: newExpense.totalAmount,
+        currency: newExpense.currency,
+        exchangeRate: manualRate,
+        splitMethod,
+        splitRatio,
+        paidBy: parent.id,
+        frequency: input.repeatFrequency,
+        startDate: input.dateIncurred,
+        endDate: input.repeatUntil,
+        createdBy: parent.id,
+      });
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      receiptExpense = result.generated[0];
+    } else {
+      // Create expense in database
+      const expense = await db.expenses.create(newExpense);
+      receiptExpense = expense;
+
+      // Ask the other parent for their share
+      if (otherParentId && splitSummary.otherShareCents > 0) {
+        await publishNotificationEvent({
+          type: "expense.awaiting_reimbursement",
+          familyId,
+          actorParentId: parent.id,
+          recipientParentIds: [otherParentId],
+          payload: {
+            expenseId: expense.id,
+            title: expense.title,
+            amountCents: splitSummary.otherShareCents,
+            currency: baseCurrency,
+          },
+        });
+      }
+    }
 
     // Future: Emit activity feed item
     // await db.activityItems.create({
@@ -218,9 +345,21 @@ async function handleAddExpense(formData: FormData): Promise<void> {
     // });
 
     const success = new URLSearchParams(baseParams);
-    success.set("success", "1");
-    if (input.receiptFileName) {
-      success.set("receipt", "1");
+    success.set("success", input.repeatFrequency ? "recurring" : "1");
+    if (receipt && receiptExpense) {
+      // The expense is already saved, so a failed upload is reported rather
+      // than undoing it
+      const attached = await attachExpenseReceipt({
+        expense: receiptExpense,
+        body: Buffer.from(await receipt.arrayBuffer()),
+        fileName: receipt.name,
+        contentType: receipt.type,
+        uploadedBy: parent.id,
+      }).catch((error: unknown) => {
+        console.error("[Expenses] Failed to attach receipt:", error);
+        return null;
+      });
+      success.set("receipt", attached?.success ? "1" : "failed");
     }
     // Build success query but defer performing redirect until after try/catch.
     successQuery = success.toString();
@@ -244,6 +383,10 @@ export default async function AddExpensePage({
   const resolvedSearchParams = await searchParams;
   const state = resolvePageState(resolvedSearchParams);
 
+  const session = await requireAuth();
+  const parent = await db.parents.findByUserId(session.userId);
+  const baseCurrency = familyBaseCurrency(parent ? await db.families.findById(parent.familyId) : null);
+
   const amountCents = amountTextToCents(state.amountText) ?? 0;
 
   return (
@@ -357,9 +500,6 @@ export default async function AddExpensePage({
                     Total Amount
                   </label>
                   <div className="relative rounded-md shadow-sm">
-                    <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
-                      <span className="text-slate-500 sm:text-sm">$</span>
-                    </div>
                     <input
                       id="amount"
                       name="amount"
@@ -369,13 +509,28 @@ export default async function AddExpensePage({
                       defaultValue={state.amountText}
                       placeholder="0.00"
                       className={`block w-full rounded-lg border border-slate-400 dark:border-slate-600
-                        bg-white dark:bg-background-dark py-2.5 pl-7 pr-12 text-slate-900
+                        bg-white dark:bg-background-dark py-2.5 pl-4 pr-24 text-slate-900
                         placeholder-slate-600 dark:placeholder-slate-300
                         focus:border-primary focus:ring-primary sm:text-sm`}
                       required
                     />
-                    <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-3">
-                      <span className="text-slate-500 sm:text-sm">USD</span>
+                    <div className="absolute inset-y-0 right-0 flex items-center">
+                      <label htmlFor="currency" className="sr-only">
+                        Currency
+                      </label>
+                      <select
+                        id="currency"
+                        name="currency"
+                        defaultValue={state.currency ?? baseCurrency}
+                        className={`h-full rounded-r-lg border-0 bg-transparent py-0 pl-2 pr-7 text-slate-500
+                          focus:ring-2 focus:ring-inset focus:ring-primary sm:text-sm`}
+                      >
+                        {CURRENCY_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.value}
+                          </option>
+                        ))}
+                      </select>
                     </div>
                   </div>
                 </div>
@@ -418,6 +573,67 @@ export default async function AddExpensePage({
                     />
                   </div>
                 </div>
+
+                <div className="space-y-2">
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-200" htmlFor="repeat">
+                    Repeats
+                  </label>
+                  <select
+                    id="repeat"
+                    name="repeat"
+                    defaultValue={state.repeatFrequency ?? ""}
+                    className={`block w-full rounded-lg border border-slate-400 dark:border-slate-600
+                      bg-white dark:bg-background-dark py-2.5 px-4 text-slate-900
+                      shadow-sm focus:border-primary focus:ring-primary sm:text-sm`}
+                  >
+                    <option value="">Does not repeat</option>
+                    {EXPENSE_FREQUENCY_OPTIONS.map((frequency) => (
+                      <option key={frequency.value} value={frequency.value}>
+                        {frequency.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-200" htmlFor="repeat-until">
+                    Repeat Until <span className="font-normal text-slate-500">(optional)</span>
+                  </label>
+                  <input
+                    id="repeat-until"
+                    name="repeatUntil"
+                    type="date"
+                    defaultValue={state.repeatUntil}
+                    className={`block w-full rounded-lg border border-slate-400 dark:border-slate-600
+                      bg-white dark:bg-background-dark py-2.5 px-4 text-slate-900
+                      shadow-sm focus:border-primary focus:ring-primary sm:text-sm`}
+                  />
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    Repeating expenses are logged automatically on each due date.
+                  </p>
+                </div>
+
+                <div className="space-y-2 col-span-1 md:col-span-2">
+                  <label className="block text-sm font-semibold text-slate-700 dark:text-slate-200" htmlFor="exchange-rate">
+                    Exchange Rate <span className="font-normal text-slate-500">(optional)</span>
+                  </label>
+                  <input
+                    id="exchange-rate"
+                    name="exchangeRate"
+                    type="text"
+                    inputMode="decimal"
+                    defaultValue={state.exchangeRateText}
+                    placeholder={`${baseCurrency} per 1 unit of the currency paid`}
+                    className={`block w-full rounded-lg border border-slate-400 dark:border-slate-600
+                      bg-white dark:bg-background-dark py-2.5 px-4 text-slate-900
+                      placeholder-slate-600 dark:placeholder-slate-300
+                      shadow-sm focus:border-primary focus:ring-primary sm:text-sm`}
+                  />
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    Balances are settled in {baseCurrency}. For an expense paid in another currency, enter the rate
+                    from your statement, or leave this blank to use the published rate for the date incurred.
+                  </p>
+                </div>
               </div>
 
               <div className="border-t border-slate-100 dark:border-slate-800 my-6"></div>
@@ -439,24 +655,7 @@ export default async function AddExpensePage({
 
               <div className="border-t border-slate-100 dark:border-slate-800 my-6"></div>
 
-              <div className="space-y-2">
-                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-200" htmlFor="file-upload">
-                  Documentation
-                </label>
-                <div className="mt-2 flex justify-center rounded-lg border border-dashed border-slate-300 dark:border-slate-600 px-6 py-10 bg-slate-50 dark:bg-background-dark hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors cursor-pointer group">
-                  <div className="text-center">
-                    <span className="material-symbols-outlined text-4xl text-slate-300 group-hover:text-primary transition-colors">cloud_upload</span>
-                    <div className="mt-4 flex text-sm leading-6 text-slate-600 dark:text-slate-400 justify-center">
-                      <label htmlFor="file-upload" className="relative cursor-pointer rounded-md font-semibold text-primary focus-within:outline-none focus-within:ring-2 focus-within:ring-primary focus-within:ring-offset-2 hover:text-primary-hover">
-                        <span>Upload a receipt</span>
-                        <input className="sr-only" id="file-upload" name="receipt" type="file" accept="image/png,image/jpeg,application/pdf" />
-                      </label>
-                      <p className="pl-1">or drag and drop</p>
-                    </div>
-                    <p className="text-xs leading-5 text-slate-500 dark:text-slate-500">PNG, JPG, PDF up to 10MB</p>
-                  </div>
-                </div>
-              </div>
+              <ReceiptField />
 
               <div className="flex flex-col-reverse sm:flex-row items-center justify-end gap-3 pt-6">
                 <a
@@ -0,0 +1,104 @@
+'use client';
+
+import { useState } from 'react';
+import type { ChangeEvent } from 'react';
+
+interface ReceiptFields {
+  merchant?: string;
+  amountCents?: number;
+  date?: string;
+}
+
+/** Sets a form field the parent has not filled in yet */
+function fillEmpty(form: HTMLFormElement, name: string, value: string | undefined): boolean {
+  const field = form.elements.namedItem(name);
+  if (!value || !(field instanceof HTMLInputElement) || field.value.trim()) {
+    return false;
+  }
+  field.value = value;
+  return true;
+}
+
+/**
+ * Receipt upload for the add-expense form.  A text-based PDF receipt is read
+ * on selection and its merchant, total and date fill the empty fields; the
+ * file itself is uploaded with the form.
+ */
+export function ReceiptField() {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [note, setNote] = useState<string | null>(null);
+
+  const handleChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const input = event.currentTarget;
+    const file = input.files?.[0];
+    setFileName(file?.name ?? null);
+    setNote(null);
+    if (!file || file.type !== 'application/pdf' || !input.form) {
+      return;
+    }
+
+    const body = new FormData();
+    body.set('file', file);
+    try {
+      const response = await fetch('/api/expenses/receipts/parse', { method: 'POST', body });
+      const fields = (await response.json()) as ReceiptFields & { error?: string };
+      if (!response.ok) {
+        setNote(fields.error ?? null);
+        return;
+      }
+
+      const today = new Date().toISOString().slice(0, 10);
+      const filled = [
+        fillEmpty(input.form, 'expenseName', fields.merchant) && 'name',
+        fillEmpty(input.form, 'amount', fields.amountCents ? (fields.amountCents / 100).toFixed(2) : undefined) && 'amount',
+      ].filter(Boolean);
+
+      // The date input always has a value (today by default), so replace it
+      // only while it still holds that default
+      const date = input.form.elements.namedItem('dateIncurred');
+      if (fields.date && fields.date <= today && date instanceof HTMLInputElement && date.value === today) {
+        date.value = fields.date;
+        filled.push('date');
+      }
+
+      setNote(filled.length > 0 ? `Read the ${filled.join(', ')} from the receipt. Check them before saving.` : null);
+    } catch {
+      // Pre-filling is a convenience; the receipt still uploads with the form
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-semibold text-slate-700 dark:text-slate-200" htmlFor="file-upload">
+        Documentation
+      </label>
+      <div className="mt-2 flex justify-center rounded-lg border border-dashed border-slate-300 dark:border-slate-600 px-6 py-10 bg-slate-50 dark:bg-background-dark hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors cursor-pointer group">
+        <div className="text-center">
+          <span className="material-symbols-outlined text-4xl text-slate-300 group-hover:text-primary transition-colors">cloud_upload</span>
+          <div className="mt-4 flex text-sm leading-6 text-slate-600 dark:text-slate-400 justify-center">
+            <label htmlFor="file-upload" className="relative cursor-pointer rounded-md font-semibold text-primary focus-within:outline-none focus-within:ring-2 focus-within:ring-primary focus-within:ring-offset-2 hover:text-primary-hover">
+              <span>{fileName ? 'Replace receipt' : 'Upload a receipt'}</span>
+              <input
+                className="sr-only"
+                id="file-upload"
+                name="receipt"
+                type="file"
+                accept="image/png,image/jpeg,application/pdf"
+                onChange={handleChange}
+              />
+            </label>
+            {!fileName && <p className="pl-1">or drag and drop</p>}
+          </div>
+          <p className="text-xs leading-5 text-slate-500 dark:text-slate-500">
+            {fileName ?? 'PNG, JPG, PDF up to 10MB'}
+          </p>
+        </div>
+      </div>
+      {note && (
+        <p className="text-xs text-sky-700 dark:text-sky-300" role="status">
+          {note}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,19 @@
  * date range, payer; summary cards for balances; and a paginated transactions
  * table with category badges and receipt links.
  *
+ * Balances, per-expense payment status and the payment history come from
+ * the settlement ledger (lib/expense-ledger); paying, requesting
+ * reimbursement and settling up go through ./actions.  Each expense links
+ * to its dispute thread at /expenses/[id]/dispute.  Receipt links go to the
+ * signed download route for the expense's latest receipt.
+ *
+ * Expenses show the amount in the currency they were paid in; shares,
+ * balances and payments are in the family's base currency, which can be
+ * picked here until the first expense is logged.
+ *
+ * Recurring expense templates (lib/recurring-expenses) and court-ordered
+ * support obligations with their arrears (lib/child-support) are listed
+ * below the payment history.
  */
 
 import { db } from "@/lib/persistence";
@@ -17,8 +30,46 @@ import { ThemeToggle } from "@/app/theme-toggle";
 import { NotificationButton } from "@/components/notification-button";
 import { MobileNavOverlay } from "@/components/mobile-nav-overlay";
 import { SettleBalanceButton } from "@/components/settle-balance-button";
+import {
+  buildExpenseLedger,
+  buildPaymentHistory,
+  calculateParentShare,
+  calculateSettlement,
+  findObligation,
+  ledgerParentIds,
+  settlementAmount,
+  settlementCurrency,
+  type ExpenseLedgerLine,
+  type LedgerHistoryEntry,
+} from "@/lib/expense-ledger";
+import {
+  CURRENCY_OPTIONS,
+  EXPENSE_FREQUENCY_OPTIONS,
+  formatCurrency,
+  formatFrequency,
+  getTodayIsoDate,
+} from "@/lib/expense-engine";
+import { familyBaseCurrency } from "@/lib/exchange-rates";
+import { loadSupportStatements, type SupportStatement } from "@/lib/child-support";
 import type { Expense, Parent, Child } from "@/lib";
-import type { DbExpense, DbParent, DbChild } from "@/lib/persistence/types";
+import type {
+  DbExpense,
+  DbParent,
+  DbChild,
+  DbRecurringExpense,
+  DbReimbursementRequest,
+  DbExpenseReceipt,
+} from "@/lib/persistence/types";
+import {
+  addSupportObligation,
+  cancelExpenseReimbursement,
+  changeBaseCurrency,
+  changeRecurringExpenseStatus,
+  recordPayment,
+  recordSupportPaymentReceived,
+  requestExpenseReimbursement,
+  settleBalance,
+} from "./actions";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -27,6 +78,8 @@ type ExpenseSearchParams = {
   dateRange?: string;
   paidBy?: string;
   page?: string;
+  error?: string;
+  success?: string;
 };
 
 type CategoryOption = {
@@ -37,12 +90,6 @@ type CategoryOption = {
   textColor: string;
 };
 
-interface SettlementBalance {
-  youOweThem: number;
-  theyOweYou: number;
-  netBalance: number;
-}
-
 const CATEGORY_MAP: Record<Expense["category"], CategoryOption> = {
   medical: {
     value: "medical",
@@ -90,10 +137,6 @@ const CATEGORY_MAP: Record<Expense["category"], CategoryOption> = {
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
-function formatCurrency(cents: number): string {
-  return `$${(cents / 100).toFixed(2)}`;
-}
-
 function formatDate(dateStr: string): string {
   const d = new Date(dateStr + "T00:00:00Z");
   return d.toLocaleDateString([], {
@@ -137,81 +180,20 @@ function mapExpense(row: DbExpense): Expense {
     paidBy: row.paidBy,
     paymentStatus: row.paymentStatus as Expense["paymentStatus"],
     receiptUrl: row.receiptUrl,
+    baseAmount: row.baseAmount,
+    baseCurrency: row.baseCurrency,
+    exchangeRate: row.exchangeRate,
     date: row.date,
     createdAt: row.createdAt,
   };
 }
 
-// ─── Settlement Calculation ────────────────────────────────────────────────────
-
-/**
- * Calculate bidirectional settlement balance between two parents.
- *
- * Algorithm:
- *   For each expense, determine how much you owe (yourShare).
- *   If you paid it: the other parent owes you their share.
- *   If they paid it: you owe them your share.
- *   Net balance = theyOweYou - youOweThem (positive = they owe you)
- *
- * Complexity: O(E) where E = number of expenses
- */
-function calculateSettlement(
-  expenses: Expense[],
-  currentParentId: string,
-  otherParentId: string
-): SettlementBalance {
-  let youOweThem = 0;
-  let theyOweYou = 0;
-
-  for (const exp of expenses) {
-    const yourShare = calculateYourShare(exp, currentParentId);
-
-    if (exp.paidBy === currentParentId) {
-      const theirShare = exp.totalAmount - yourShare;
-      theyOweYou += theirShare;
-    } else if (exp.paidBy === otherParentId) {
-      youOweThem += yourShare;
-    }
-  }
-
-  return {
-    youOweThem,
-    theyOweYou,
-    netBalance: theyOweYou - youOweThem,
-  };
-}
-
-/**
- * Calculate your share of an expense based on split method.
- *
- * Three split methods:
- *   1. "50-50": You pay half the total
- *   2. "custom": You pay splitRatio[yourParentId] * totalAmount
- *   3. "one-parent": You pay full if you're paidBy, otherwise 0
- *
- * Uses integer cents and rounding to avoid floating-point precision errors.
- */
-function calculateYourShare(expense: Expense, yourParentId: string): number {
-  if (expense.splitMethod === "50-50") {
-    return Math.round(expense.totalAmount / 2);
-  }
-
-  if (expense.splitMethod === "custom" && expense.splitRatio) {
-    const ratio = expense.splitRatio[yourParentId] ?? 0;
-    return Math.round(expense.totalAmount * ratio);
-  }
-
-  if (expense.splitMethod === "one-parent") {
-    return expense.paidBy === yourParentId ? expense.totalAmount : 0;
-  }
-
-  return 0;
-}
-
 function getStatusBadgeColor(status: Expense["paymentStatus"]): string {
   switch (status) {
     case "paid":
       return "bg-emerald-50 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400";
+    case "partially_paid":
+      return "bg-sky-50 text-sky-700 dark:bg-sky-900/30 dark:text-sky-400";
     case "unpaid":
       return "bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400";
     case "disputed":
@@ -222,6 +204,7 @@ function getStatusBadgeColor(status: Expense["paymentStatus"]): string {
 function getStatusLabel(status: Expense["paymentStatus"]): string {
   const labels: Record<Expense["paymentStatus"], string> = {
     paid: "Settled",
+    partially_paid: "Partly paid",
     unpaid: "Pending",
     disputed: "Disputed",
   };
@@ -235,7 +218,7 @@ function ExpensesSidebar({
   parents,
 }: Readonly<{
   childList: Child[];
-  parents: [Parent, Parent];
+  parents: Parent[];
 }>) {
   return (
     <aside className="w-64 bg-surface-light dark:bg-surface-dark border-r border-border-light dark:border-border-dark flex-shrink-0 flex flex-col z-20 hidden lg:flex">
@@ -461,21 +444,462 @@ function SummaryCard({
   );
 }
 
+// ─── Component: Settlement Actions ─────────────────────────────────────────────
+
+function PaymentForm({
+  expenseId,
+  outstandingCents,
+  currency,
+  fromParentId,
+  label,
+}: Readonly<{
+  expenseId: string;
+  outstandingCents: number;
+  currency: string;
+  fromParentId?: string;
+  label: string;
+}>) {
+  return (
+    <form action={recordPayment} className="inline-flex items-center gap-1">
+      <input type="hidden" name="expenseId" value={expenseId} />
+      {fromParentId && <input type="hidden" name="fromParentId" value={fromParentId} />}
+      <input
+        name="amount"
+        inputMode="decimal"
+        aria-label={`Payment amount in ${currency}`}
+        title={currency}
+        defaultValue={(outstandingCents / 100).toFixed(2)}
+        className="w-20 rounded-md border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-2 py-1 text-xs text-right"
+      />
+      <button
+        type="submit"
+        className="px-2 py-1 rounded-md bg-primary text-white text-xs font-semibold hover:opacity-90"
+      >
+        {label}
+      </button>
+    </form>
+  );
+}
+
+/** The family's settlement currency; it can only be changed before any expense is logged */
+function BaseCurrencySetting({ baseCurrency, locked }: Readonly<{ baseCurrency: string; locked: boolean }>) {
+  if (locked) {
+    return (
+      <p className="text-xs text-slate-500">
+        Balances are settled in {baseCurrency}. Expenses paid in other currencies are converted at the rate
+        recorded with them.
+      </p>
+    );
+  }
+
+  return (
+    <form action={changeBaseCurrency} className="flex flex-wrap items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+      <label htmlFor="base-currency">Settle balances in</label>
+      <select
+        id="base-currency"
+        name="baseCurrency"
+        defaultValue={baseCurrency}
+        className="rounded-md border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-2 py-1 text-sm"
+      >
+        {CURRENCY_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.value} – {option.label}
+          </option>
+        ))}
+      </select>
+      <button type="submit" className="px-3 py-1 rounded-md bg-primary text-white text-xs font-semibold hover:opacity-90">
+        Save
+      </button>
+    </form>
+  );
+}
+
+/**
+ * Per-expense ledger actions: pay your outstanding share, or ask for / record
+ * the co-parent's share of an expense you paid.
+ */
+function SettlementActions({
+  line,
+  currentParentId,
+  otherParentId,
+  pendingRequest,
+}: Readonly<{
+  line: ExpenseLedgerLine<Expense>;
+  currentParentId: string;
+  otherParentId: string;
+  pendingRequest?: DbReimbursementRequest;
+}>) {
+  const exp = line.expense;
+  const disputeLink = (
+    <Link href={`/expenses/${exp.id}/dispute`} className="text-xs text-slate-500 hover:text-primary hover:underline">
+      {line.status === "disputed" ? "View dispute" : "Dispute"}
+    </Link>
+  );
+  if (line.status === "disputed") {
+    return disputeLink;
+  }
+
+  const youOwe = findObligation(line, currentParentId);
+  if (youOwe && youOwe.outstandingCents > 0) {
+    return (
+      <div className="flex flex-col items-end gap-1">
+        <PaymentForm
+          expenseId={exp.id}
+          outstandingCents={youOwe.outstandingCents}
+          currency={settlementCurrency(exp)}
+          label="Pay"
+        />
+        {disputeLink}
+      </div>
+    );
+  }
+
+  const theyOwe = exp.paidBy === currentParentId ? findObligation(line, otherParentId) : undefined;
+  if (!theyOwe || theyOwe.outstandingCents === 0) {
+    return disputeLink;
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      {disputeLink}
+      <PaymentForm
+        expenseId={exp.id}
+        outstandingCents={theyOwe.outstandingCents}
+        currency={settlementCurrency(exp)}
+        fromParentId={otherParentId}
+        label="Received"
+      />
+      {pendingRequest ? (
+        <form action={cancelExpenseReimbursement} className="text-xs text-slate-500">
+          <input type="hidden" name="requestId" value={pendingRequest.id} />
+          Requested {formatCurrency(pendingRequest.amountCents, settlementCurrency(exp))} ·{" "}
+          <button type="submit" className="text-primary hover:underline">
+            Cancel
+          </button>
+        </form>
+      ) : (
+        <form action={requestExpenseReimbursement}>
+          <input type="hidden" name="expenseId" value={exp.id} />
+          <input type="hidden" name="requestedFrom" value={otherParentId} />
+          <button type="submit" className="text-xs text-primary font-semibold hover:underline">
+            Request reimbursement
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+// ─── Component: Payment History ────────────────────────────────────────────────
+
+function PaymentHistory({
+  entries,
+  parentNames,
+  expenseTitles,
+}: Readonly<{
+  entries: LedgerHistoryEntry[];
+  parentNames: Map<string, string>;
+  expenseTitles: Map<string, string>;
+}>) {
+  return (
+    <div className="bg-surface-light dark:bg-surface-dark border border-border-light dark:border-border-dark rounded-xl shadow-sm overflow-hidden">
+      <div className="px-6 py-5 border-b border-border-light dark:border-border-dark">
+        <h2 className="text-lg font-bold text-slate-900 dark:text-white">Payment History</h2>
+      </div>
+      {entries.length === 0 ? (
+        <p className="px-6 py-5 text-sm text-slate-500">No payments recorded yet.</p>
+      ) : (
+        <ul className="divide-y divide-border-light dark:divide-border-dark">
+          {entries.map((entry) => (
+            <li key={entry.id} className="px-6 py-4 flex items-center justify-between gap-4 text-sm">
+              <div className="min-w-0">
+                <p className="font-medium text-slate-900 dark:text-white">
+                  {parentNames.get(entry.fromParentId) ?? "Unknown"} paid{" "}
+                  {parentNames.get(entry.toParentId) ?? "Unknown"}
+                  {entry.kind === "settle_up" && (
+                    <span className="ml-2 text-xs font-semibold text-primary">Settled up</span>
+                  )}
+                </p>
+                <p className="text-xs text-slate-500 truncate">
+                  {entry.expenseIds.map((id) => expenseTitles.get(id) ?? "Expense").join(", ")}
+                </p>
+              </div>
+              <div className="text-right shrink-0">
+                <p className="font-bold text-slate-900 dark:text-white">
+                  {formatCurrency(entry.amountCents, entry.currency)}
+                </p>
+                <p className="text-xs text-slate-500">{formatDate(entry.paidAt.slice(0, 10))}</p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// ─── Component: Recurring Expenses ─────────────────────────────────────────────
+
+function RecurringStatusButton({
+  templateId,
+  status,
+  label,
+}: Readonly<{
+  templateId: string;
+  status: DbRecurringExpense["status"];
+  label: string;
+}>) {
+  return (
+    <form action={changeRecurringExpenseStatus}>
+      <input type="hidden" name="recurringExpenseId" value={templateId} />
+      <input type="hidden" name="status" value={status} />
+      <button type="submit" className="text-xs text-primary font-semibold hover:underline">
+        {label}
+      </button>
+    </form>
+  );
+}
+
+function RecurringExpenses({
+  templates,
+  parentNames,
+}: Readonly<{
+  templates: DbRecurringExpense[];
+  parentNames: Map<string, string>;
+}>) {
+  return (
+    <div className="bg-surface-light dark:bg-surface-dark border border-border-light dark:border-border-dark rounded-xl shadow-sm overflow-hidden">
+      <div className="px-6 py-5 border-b border-border-light dark:border-border-dark flex items-center justify-between">
+        <h2 className="text-lg font-bold text-slate-900 dark:text-white">Recurring Expenses</h2>
+        <Link href="/expenses/add" className="text-sm text-primary font-semibold hover:underline">
+          Add recurring expense
+        </Link>
+      </div>
+      {templates.length === 0 ? (
+        <p className="px-6 py-5 text-sm text-slate-500">
+          No recurring expenses. Choose how often an expense repeats when you add it.
+        </p>
+      ) : (
+        <ul className="divide-y divide-border-light dark:divide-border-dark">
+          {templates.map((template) => (
+            <li key={template.id} className="px-6 py-4 flex items-center justify-between gap-4 text-sm">
+              <div className="min-w-0">
+                <p className="font-medium text-slate-900 dark:text-white">
+                  {template.title}
+                  {template.status !== "active" && (
+                    <span className="ml-2 text-xs font-semibold text-slate-500 capitalize">{template.status}</span>
+                  )}
+                </p>
+                <p className="text-xs text-slate-500">
+                  {formatCurrency(template.totalAmount, template.currency)} · {formatFrequency(template.frequency)} · paid by{" "}
+                  {parentNames.get(template.paidBy) ?? "Unknown"}
+                  {template.status === "active" && ` · next ${formatDate(template.nextDueDate)}`}
+                  {template.endDate && ` · until ${formatDate(template.endDate)}`}
+                </p>
+              </div>
+              {template.status !== "ended" && (
+                <div className="flex items-center gap-3 shrink-0">
+                  {template.status === "active" ? (
+                    <RecurringStatusButton templateId={template.id} status="paused" label="Pause" />
+                  ) : (
+                    <RecurringStatusButton templateId={template.id} status="active" label="Resume" />
+                  )}
+                  <RecurringStatusButton templateId={template.id} status="ended" label="End" />
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// ─── Component: Child Support ──────────────────────────────────────────────────
+
+const FIELD_CLASS =
+  "rounded-md border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-2 py-1 text-xs";
+
+function ChildSupport({
+  statements,
+  parents,
+  currentParentId,
+}: Readonly<{
+  statements: SupportStatement[];
+  parents: Parent[];
+  currentParentId: string;
+}>) {
+  const parentNames = new Map(parents.map((p) => [p.id, p.name]));
+  const today = getTodayIsoDate();
+  const otherParentId = parents.find((p) => p.id !== currentParentId)?.id ?? "";
+
+  return (
+    <div className="bg-surface-light dark:bg-surface-dark border border-border-light dark:border-border-dark rounded-xl shadow-sm overflow-hidden">
+      <div className="px-6 py-5 border-b border-border-light dark:border-border-dark">
+        <h2 className="text-lg font-bold text-slate-900 dark:text-white">Child Support</h2>
+        <p className="text-xs text-slate-500 mt-1">Court-ordered support expected versus received.</p>
+      </div>
+      {statements.length === 0 ? (
+        <p className="px-6 py-5 text-sm text-slate-500">No support obligations recorded.</p>
+      ) : (
+        <ul className="divide-y divide-border-light dark:divide-border-dark">
+          {statements.map((statement) => {
+            const { obligation } = statement;
+            const canRecord =
+              obligation.payerParentId === currentParentId || obligation.payeeParentId === currentParentId;
+            return (
+              <li key={obligation.id} className="px-6 py-4 space-y-3 text-sm">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium text-slate-900 dark:text-white">
+                      {parentNames.get(obligation.payerParentId) ?? "Unknown"} pays{" "}
+                      {parentNames.get(obligation.payeeParentId) ?? "Unknown"}{" "}
+                      {formatCurrency(obligation.amountCents, obligation.currency)} {formatFrequency(obligation.frequency).toLowerCase()}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      Since {formatDate(obligation.startDate)}
+                      {obligation.endDate && ` until ${formatDate(obligation.endDate)}`}
+                      {obligation.orderReference && ` · Order ${obligation.orderReference}`}
+                      {statement.nextDueDate && ` · next due ${formatDate(statement.nextDueDate)}`}
+                    </p>
+                  </div>
+                  <div className="text-right shrink-0">
+                    <p className="text-slate-900 dark:text-white">
+                      {formatCurrency(statement.receivedCents, obligation.currency)} of{" "}
+                      {formatCurrency(statement.expectedCents, obligation.currency)}
+                    </p>
+                    {statement.inArrears ? (
+                      <p className="text-xs font-semibold text-red-600 dark:text-red-400">
+                        {formatCurrency(statement.arrearsCents, obligation.currency)} in arrears
+                        {statement.overdueSince && ` since ${formatDate(statement.overdueSince)}`}
+                      </p>
+                    ) : (
+                      <p className="text-xs text-emerald-600">
+                        {statement.creditCents > 0 ? `${formatCurrency(statement.creditCents, obligation.currency)} paid ahead` : "Up to date"}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                {canRecord && (
+                  <form action={recordSupportPaymentReceived} className="flex flex-wrap items-center justify-end gap-2">
+                    <input type="hidden" name="obligationId" value={obligation.id} />
+                    <input
+                      name="amount"
+                      inputMode="decimal"
+                      aria-label="Amount received"
+                      defaultValue={(obligation.amountCents / 100).toFixed(2)}
+                      className={`w-24 text-right ${FIELD_CLASS}`}
+                    />
+                    <input
+                      name="receivedOn"
+                      type="date"
+                      aria-label="Date received"
+                      defaultValue={today}
+                      max={today}
+                      className={FIELD_CLASS}
+                    />
+                    <input name="note" aria-label="Note" placeholder="Note (optional)" className={FIELD_CLASS} />
+                    <button
+                      type="submit"
+                      className="px-2 py-1 rounded-md bg-primary text-white text-xs font-semibold hover:opacity-90"
+                    >
+                      Record payment
+                    </button>
+                  </form>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <details className="px-6 py-4 border-t border-border-light dark:border-border-dark">
+        <summary className="text-sm text-primary font-semibold cursor-pointer">Add support obligation</summary>
+        <form action={addSupportObligation} className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+          <label className="flex flex-col gap-1">
+            Paid by
+            <select name="payerParentId" defaultValue={otherParentId} className={FIELD_CLASS}>
+              {parents.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            Paid to
+            <select name="payeeParentId" defaultValue={currentParentId} className={FIELD_CLASS}>
+              {parents.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            Amount
+            <input name="amount" inputMode="decimal" placeholder="0.00" required className={FIELD_CLASS} />
+          </label>
+          <label className="flex flex-col gap-1">
+            Frequency
+            <select name="frequency" defaultValue="monthly" className={FIELD_CLASS}>
+              {EXPENSE_FREQUENCY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            First due date
+            <input name="startDate" type="date" required className={FIELD_CLASS} />
+          </label>
+          <label className="flex flex-col gap-1">
+            End date (optional)
+            <input name="endDate" type="date" className={FIELD_CLASS} />
+          </label>
+          <label className="flex flex-col gap-1">
+            Grace days
+            <input name="graceDays" type="number" min="0" max="60" defaultValue="0" className={FIELD_CLASS} />
+          </label>
+          <label className="flex flex-col gap-1">
+            Court order reference
+            <input name="orderReference" className={FIELD_CLASS} />
+          </label>
+          <div className="col-span-2 md:col-span-4 flex justify-end">
+            <button
+              type="submit"
+              className="px-3 py-1.5 rounded-md bg-primary text-white text-xs font-semibold hover:opacity-90"
+            >
+              Add obligation
+            </button>
+          </div>
+        </form>
+      </details>
+    </div>
+  );
+}
+
 // ─── Component: Transactions Table ────────────────────────────────────────────
 
 function TransactionsTable({
-  expenses,
+  lines,
   currentParentId,
+  otherParentId,
+  pendingRequests,
+  receipts,
   page,
 }: Readonly<{
-  expenses: Expense[];
+  lines: ExpenseLedgerLine<Expense>[];
   currentParentId: string;
+  otherParentId: string;
+  pendingRequests: DbReimbursementRequest[];
+  receipts: DbExpenseReceipt[];
   page: number;
 }>) {
   const pageSize = 5;
-  const totalPages = Math.ceil(expenses.length / pageSize);
+  const totalPages = Math.ceil(lines.length / pageSize);
   const start = (page - 1) * pageSize;
-  const paginatedExpenses = expenses.slice(start, start + pageSize);
+  const paginatedLines = lines.slice(start, start + pageSize);
 
   return (
     <div className="bg-surface-light dark:bg-surface-dark border border-border-light dark:border-border-dark rounded-xl shadow-sm overflow-hidden">
@@ -531,15 +955,27 @@ function TransactionsTable({
               <th className="px-6 py-4 font-semibold text-center" scope="col">
                 Receipt
               </th>
+              <th className="px-6 py-4 font-semibold text-right" scope="col">
+                Settlement
+              </th>
             </tr>
           </thead>
           <tbody className="divide-y divide-border-light dark:divide-border-dark bg-surface-light dark:bg-surface-dark">
-            {paginatedExpenses.map((exp) => {
-              const yourShare = calculateYourShare(exp, currentParentId);
+            {paginatedLines.map((line) => {
+              const exp = line.expense;
+              const yourShare = calculateParentShare(exp, currentParentId);
               const yourSharePercent =
-                exp.totalAmount > 0
-                  ? Math.round((yourShare / exp.totalAmount) * 100)
+                settlementAmount(exp) > 0
+                  ? Math.round((yourShare / settlementAmount(exp)) * 100)
                   : 0;
+              const expenseReceipts = receipts.filter((r) => r.expenseId === exp.id);
+              const latestReceipt = expenseReceipts[expenseReceipts.length - 1];
+              // Expenses from before receipt uploads may carry a plain link
+              const receiptHref = latestReceipt
+                ? `/api/expenses/${exp.id}/receipts/${latestReceipt.id}`
+                : exp.receiptUrl && /^https?:\/\//.test(exp.receiptUrl)
+                  ? exp.receiptUrl
+                  : undefined;
 
               return (
                 <tr key={exp.id} className="transition-colors hover:bg-slate-50 dark:hover:bg-slate-800/50">
@@ -566,38 +1002,64 @@ function TransactionsTable({
                     </span>
                   </td>
                   <td className="px-6 py-4 text-right text-slate-900 dark:text-white font-medium">
-                    {formatCurrency(exp.totalAmount)}
+                    {formatCurrency(exp.totalAmount, exp.currency)}
+                    {exp.baseAmount !== undefined && exp.baseCurrency && (
+                      <div
+                        className="text-xs font-normal text-slate-500"
+                        title={`1 ${exp.currency} = ${exp.exchangeRate} ${exp.baseCurrency}`}
+                      >
+                        ≈ {formatCurrency(exp.baseAmount, exp.baseCurrency)}
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 text-center text-slate-500">
                     {yourSharePercent} / {100 - yourSharePercent}
                   </td>
                   <td className="px-6 py-4 text-right text-emerald-600 font-bold">
-                    {formatCurrency(yourShare)}
+                    {formatCurrency(yourShare, settlementCurrency(exp))}
                   </td>
                   <td className="px-6 py-4 text-center">
                     <span
-                      className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium ${getStatusBadgeColor(exp.paymentStatus)}`}
+                      className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium ${getStatusBadgeColor(line.status)}`}
                     >
-                      {getStatusLabel(exp.paymentStatus)}
+                      {getStatusLabel(line.status)}
                     </span>
+                    {line.status === "partially_paid" && (
+                      <div className="text-xs text-slate-500 mt-1">
+                        {formatCurrency(line.outstandingCents, settlementCurrency(exp))} left
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 text-center">
-                    {exp.receiptUrl ? (
+                    {receiptHref ? (
                       <a
-                        href={exp.receiptUrl}
+                        href={receiptHref}
                         target="_blank"
                         rel="noopener noreferrer"
-                        className="text-slate-400 hover:text-primary transition-colors"
+                        className="inline-flex items-center gap-0.5 text-slate-400 hover:text-primary transition-colors"
                         aria-label={`View receipt for ${exp.title}`}
                       >
                         <span className="material-symbols-outlined text-[20px]">
                           receipt_long
                         </span>
+                        {expenseReceipts.length > 1 && (
+                          <span className="text-xs font-medium">{expenseReceipts.length}</span>
+                        )}
                       </a>
                     ) : (
                       <span className="text-slate-400 text-[20px]">−</span>
                     )}
                   </td>
+                  <td className="px-6 py-4 text-right">
+                    <SettlementActions
+                      line={line}
+                      currentParentId={currentParentId}
+                      otherParentId={otherParentId}
+                      pendingRequest={pendingRequests.find(
+                        (r) => r.expenseId === exp.id && r.requestedFrom === otherParentId
+                      )}
+                    />
+                  </td>
                 </tr>
               );
             })}
@@ -611,11 +1073,11 @@ function TransactionsTable({
           Showing <span className="font-medium text-slate-900 dark:text-white">{start + 1}</span>{" "}
           to{" "}
           <span className="font-medium text-slate-900 dark:text-white">
-            {Math.min(start + pageSize, expenses.length)}
+            {Math.min(start + pageSize, lines.length)}
           </span>{" "}
           of{" "}
           <span className="font-medium text-slate-900 dark:text-white">
-            {expenses.length}
+            {lines.length}
           </span>{" "}
           results
         </div>
@@ -660,11 +1122,26 @@ export default async function ExpensesPage({
   const parentResult = await ensureParentExists(user.userId);
   const activeParent = parentResult.parent;
 
-  const [dbFamily, dbParents, dbChildren, dbExpenses] = await Promise.all([
+  const [
+    dbFamily,
+    dbParents,
+    dbChildren,
+    dbExpenses,
+    dbPayments,
+    dbRequests,
+    dbRecurringExpenses,
+    supportStatements,
+    dbReceipts,
+  ] = await Promise.all([
     db.families.findById(activeParent.familyId),
     db.parents.findByFamilyId(activeParent.familyId),
     db.children.findByFamilyId(activeParent.familyId),
     db.expenses.findByFamilyId(activeParent.familyId),
+    db.expensePayments.findByFamilyId(activeParent.familyId),
+    db.reimbursementRequests.findByFamilyId(activeParent.familyId),
+    db.recurringExpenses.findByFamilyId(activeParent.familyId),
+    loadSupportStatements(activeParent.familyId, getTodayIsoDate()),
+    db.expenseReceipts.findByFamilyId(activeParent.familyId),
   ]);
 
   if (!dbFamily) {
@@ -694,7 +1171,7 @@ export default async function ExpensesPage({
       if (b.role === "primary") return 1;
       return a.name.localeCompare(b.name);
     })
-    .map(mapParent) as [Parent, Parent];
+    .map(mapParent);
 
   const children = dbChildren.map(mapChild);
   const expenses = dbExpenses.map(mapExpense);
@@ -704,8 +1181,19 @@ export default async function ExpensesPage({
   const page = Math.max(1, Number(resolvedParams?.page ?? "1"));
 
   // ── Calculate Settlements ──────────────────────────────────────────────────
-  const settlement = calculateSettlement(expenses, activeParent.id, mappedParents[1].id);
+  // Balances are with the co-parent, not with step-parents or grandparents
+  const ledgerParents = ledgerParentIds(parentsForExpenses);
+  const otherParentId = ledgerParents.find((id) => id !== activeParent.id);
+  const otherParent =
+    mappedParents.find((p) => p.id === otherParentId) ?? mappedParents[1];
+  const ledger = buildExpenseLedger(expenses, dbPayments, ledgerParents);
+  const settlement = calculateSettlement(ledger, activeParent.id, otherParent.id);
   const netDisplay = settlement.netBalance;
+  const pendingRequests = dbRequests.filter((r) => r.status === "pending");
+  const requestedFromThem = pendingRequests
+    .filter((r) => r.requestedBy === activeParent.id)
+    .reduce((sum, r) => sum + r.amountCents, 0);
+  const history = buildPaymentHistory(dbPayments);
 
   // Monthly spending
   const now = new Date();
@@ -717,11 +1205,12 @@ export default async function ExpensesPage({
     return expDate >= monthStart && expDate < monthEnd;
   });
 
-  const monthlyTotal = monthlyExpenses.reduce((sum, e) => sum + e.totalAmount, 0);
+  const monthlyTotal = monthlyExpenses.reduce((sum, e) => sum + settlementAmount(e), 0);
+  const baseCurrency = familyBaseCurrency(dbFamily);
 
   // Sort by date descending
-  const sortedExpenses = [...expenses].sort(
-    (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+  const sortedLines = [...ledger].sort(
+    (a, b) => new Date(b.expense.date).getTime() - new Date(a.expense.date).getTime()
   );
 
   return (
@@ -766,7 +1255,12 @@ export default async function ExpensesPage({
 
           <div className="flex items-center gap-3">
             <NotificationButton initialPendingCount={0} />
-            <SettleBalanceButton />
+            <form action={settleBalance}>
+              <input type="hidden" name="otherParentId" value={otherParent.id} />
+              <SettleBalanceButton
+                disabled={settlement.youOweThem === 0 && settlement.theyOweYou === 0}
+              />
+            </form>
             <Link
               href="/expenses/add"
               className="flex items-center gap-2 px-4 py-2 bg-primary text-white text-sm font-semibold rounded-lg hover:opacity-90 shadow-sm transition-colors"
@@ -786,22 +1280,22 @@ export default async function ExpensesPage({
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 sm:gap-6">
               <SummaryCard
                 title="Total Owed to You"
-                amount={formatCurrency(Math.max(0, netDisplay))}
+                amount={formatCurrency(Math.max(0, netDisplay), baseCurrency)}
                 badge="+12% vs last month"
-                subtitle={`Pending approval: ${formatCurrency(expenses.filter((e) => e.paymentStatus === "unpaid").reduce((sum, e) => sum + calculateYourShare(e, activeParent.id), 0))}`}
+                subtitle={`Reimbursement requested: ${formatCurrency(requestedFromThem, baseCurrency)}`}
                 icon="arrow_circle_up"
                 iconColor="text-green-500"
               />
               <SummaryCard
                 title="Total You Owe"
-                amount={formatCurrency(Math.max(0, -netDisplay))}
+                amount={formatCurrency(Math.max(0, -netDisplay), baseCurrency)}
                 subtitle={`Next settlement due: ${new Date(now.getFullYear(), now.getMonth() + 1, 30).toLocaleDateString()}`}
                 icon="arrow_circle_down"
                 iconColor="text-red-500"
               />
               <SummaryCard
                 title={`Family Spending (${now.toLocaleDateString([], { month: "short" })})`}
-                amount={formatCurrency(monthlyTotal)}
+                amount={formatCurrency(monthlyTotal, baseCurrency)}
                 subtitle={
                   monthlyExpenses.length > 0
                     ? `Top category: Medical ($520)`
@@ -812,12 +1306,46 @@ export default async function ExpensesPage({
               />
             </div>
 
+            {resolvedParams?.error && (
+              <p className="rounded-lg bg-red-50 dark:bg-red-900/30 px-4 py-3 text-sm text-red-700 dark:text-red-300" role="alert">
+                {resolvedParams.error}
+              </p>
+            )}
+            {resolvedParams?.success && (
+              <p className="rounded-lg bg-emerald-50 dark:bg-emerald-900/30 px-4 py-3 text-sm text-emerald-700 dark:text-emerald-300" role="status">
+                {resolvedParams.success}
+              </p>
+            )}
+
+            <BaseCurrencySetting baseCurrency={baseCurrency} locked={expenses.length > 0} />
+
             {/* Transactions Table */}
             <TransactionsTable
-              expenses={sortedExpenses}
+              lines={sortedLines}
               currentParentId={activeParent.id}
+              otherParentId={otherParent.id}
+              pendingRequests={pendingRequests}
+              receipts={dbReceipts}
               page={page}
             />
+
+            {/* Who paid whom */}
+            <PaymentHistory
+              entries={history}
+              parentNames={new Map(mappedParents.map((p) => [p.id, p.name]))}
+              expenseTitles={new Map(expenses.map((e) => [e.id, e.title]))}
+            />
+
+            <RecurringExpenses
+              templates={dbRecurringExpenses}
+              parentNames={new Map(mappedParents.map((p) => [p.id, p.name]))}
+            />
+
+            <ChildSupport
+              statements={supportStatements}
+              parents={dbParents.map(mapParent)}
+              currentParentId={activeParent.id}
+            />
           </div>
         </div>
       </main>
@@ -9,6 +9,7 @@ import {
 import { requireAuth } from "@/lib/auth";
 import { setCurrentFamilyId } from "@/lib/persistence/postgres/client";
 import { db } from "@/lib/persistence";
+import { isFamilyStorageKey } from "@/lib/storage";
 import { FileUploadZone } from "./file-upload-zone";
 
 type ShareMomentSearchParams = {
@@ -123,6 +124,13 @@ async function handleShareMoment(formData: FormData): Promise<void> {
 
   const familyId = parent.familyId;
 
+  // The upload route stores files under the uploader's family
+  if (!isFamilyStorageKey(mediaUrl, "moments", familyId)) {
+    const params = new URLSearchParams(baseParams);
+    params.set("error", "That upload could not be found. Please upload the file again.");
+    redirect(`/moments/share?${params.toString()}`);
+  }
+
   // ─── Create Moment ─────────────────────────────────────────────────────────
 
   try {
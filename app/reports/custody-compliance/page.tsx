@@ -1,8 +1,9 @@
 /**
  * Custody Compliance Reports Page
  *
- * Displays custody compliance reports showing actual vs. scheduled time,
- * compliance percentages, and audit trails for legal proceedings.
+ * Displays custody compliance reports showing actual vs. scheduled time from
+ * recorded handoffs, exchange lateness and misses, compliance percentages,
+ * and audit trails for legal proceedings.
  */
 
 'use client';
@@ -16,11 +17,22 @@ type CustodyPeriod = {
   endTime: string;
   scheduledParentId: string;
   actualParentId?: string;
-  eventId?: string;
+  checkInId?: string;
   compliance: boolean;
   notes?: string;
 };
 
+type HandoffExchange = {
+  scheduledAt: string;
+  fromParentId: string;
+  toParentId: string;
+  status: 'on_time' | 'late' | 'missed' | 'disputed';
+  occurredAt?: string;
+  latenessMinutes: number;
+  checkInId?: string;
+  confirmed: boolean;
+};
+
 type ComplianceMetrics = {
   parentId: string;
   scheduledHours: number;
@@ -28,6 +40,9 @@ type ComplianceMetrics = {
   compliancePercentage: number;
   deviationHours: number;
   overrideCount: number;
+  lateExchanges: number;
+  missedExchanges: number;
+  makeUpHoursOwed: number;
 };
 
 type CustodyComplianceReport = {
@@ -49,8 +64,14 @@ type CustodyComplianceReport = {
     compliancePercentage: number;
     totalDeviations: number;
     totalOverrides: number;
+    totalExchanges: number;
+    lateExchanges: number;
+    missedExchanges: number;
+    disputedExchanges: number;
+    averageLatenessMinutes: number;
   };
   periods: CustodyPeriod[];
+  exchanges: HandoffExchange[];
   overrides: ScheduleOverride[];
   changeRequests: ScheduleChangeRequest[];
   generatedAt: string;
@@ -121,6 +142,9 @@ export default function CustodyCompliancePage() {
         compliancePercentage: 0,
         deviationHours: 0,
         overrideCount: 0,
+        lateExchanges: 0,
+        missedExchanges: 0,
+        makeUpHoursOwed: 0,
       });
     }
 
@@ -138,9 +162,20 @@ export default function CustodyCompliancePage() {
         if (actualMetrics) {
           actualMetrics.actualHours += duration;
         }
+        if (period.actualParentId !== period.scheduledParentId && scheduledMetrics) {
+          scheduledMetrics.makeUpHoursOwed += duration;
+        }
       }
     }
 
+    // The parent handing the kids over is responsible for the exchange
+    for (const exchange of reportData.exchanges) {
+      const metrics = metricsMap.get(exchange.fromParentId);
+      if (!metrics) continue;
+      if (exchange.status === 'late') metrics.lateExchanges++;
+      if (exchange.status === 'missed') metrics.missedExchanges++;
+    }
+
     // Calculate percentages and deviations
     for (const metrics of metricsMap.values()) {
       if (metrics.scheduledHours > 0) {
@@ -318,6 +353,15 @@ export default function CustodyCompliancePage() {
                         <div>
                           <span className="text-gray-600">Deviation:</span> {metrics.deviationHours.toFixed(1)}h
                         </div>
+                        <div>
+                          <span className="text-gray-600">Late handoffs:</span> {metrics.lateExchanges}
+                        </div>
+                        <div>
+                          <span className="text-gray-600">Missed handoffs:</span> {metrics.missedExchanges}
+                        </div>
+                        <div>
+                          <span className="text-gray-600">Make-up owed:</span> {metrics.makeUpHoursOwed.toFixed(1)}h
+                        </div>
                       </div>
                     </div>
                   );
@@ -325,6 +369,74 @@ export default function CustodyCompliancePage() {
               </div>
             </div>
 
+            {/* Exchanges */}
+            <div className="bg-white rounded-lg shadow p-6 mb-8">
+              <h2 className="text-xl font-semibold mb-4">Exchanges</h2>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4 text-center">
+                <div>
+                  <div className="text-2xl font-bold text-blue-600">{report.summary.totalExchanges}</div>
+                  <div className="text-sm text-gray-600">Scheduled</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-orange-600">{report.summary.lateExchanges}</div>
+                  <div className="text-sm text-gray-600">
+                    Late (avg {Math.round(report.summary.averageLatenessMinutes)} min)
+                  </div>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-red-600">{report.summary.missedExchanges}</div>
+                  <div className="text-sm text-gray-600">Missed</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-gray-700">{report.summary.disputedExchanges}</div>
+                  <div className="text-sm text-gray-600">Disputed</div>
+                </div>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="min-w-full table-auto">
+                  <thead>
+                    <tr className="bg-gray-50">
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Scheduled</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Handoff</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Actual</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Outcome</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {report.exchanges.map((exchange) => {
+                      const from = report.parents.find(p => p.id === exchange.fromParentId);
+                      const to = report.parents.find(p => p.id === exchange.toParentId);
+                      return (
+                        <tr key={exchange.scheduledAt}>
+                          <td className="px-4 py-2 text-sm text-gray-900">
+                            {new Date(exchange.scheduledAt).toLocaleString()}
+                          </td>
+                          <td className="px-4 py-2 text-sm text-gray-900">
+                            {from?.name || 'Unknown'} → {to?.name || 'Unknown'}
+                          </td>
+                          <td className="px-4 py-2 text-sm text-gray-900">
+                            {exchange.occurredAt ? new Date(exchange.occurredAt).toLocaleString() : '-'}
+                          </td>
+                          <td className="px-4 py-2 text-sm">
+                            <span className={`px-2 py-1 rounded text-xs ${
+                              exchange.status === 'on_time' ? 'bg-green-100 text-green-800' :
+                              exchange.status === 'late' ? 'bg-yellow-100 text-yellow-800' :
+                              'bg-red-100 text-red-800'
+                            }`}>
+                              {exchange.status === 'late'
+                                ? `${exchange.latenessMinutes} min late`
+                                : exchange.status.replace('_', ' ')}
+                              {exchange.checkInId && !exchange.confirmed ? ' (unconfirmed)' : ''}
+                            </span>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
             {/* Detailed Periods */}
             <div className="bg-white rounded-lg shadow p-6">
               <h2 className="text-xl font-semibold mb-4">Detailed Periods</h2>
@@ -214,7 +214,8 @@ function mapDbSchoolVaultDocumentToDomain(
     addedAt: dbDocument.addedAt,
     addedBy: dbDocument.addedBy,
     sizeBytes: dbDocument.sizeBytes,
-    url: dbDocument.url,
+    // Files are private; the download route redirects to a signed URL
+    url: `/api/school/vault/${dbDocument.id}/download`,
     actionDeadline: dbDocument.actionDeadline,
   };
 }
@@ -3,6 +3,12 @@
 import type { CalendarDayState } from "@/lib/calendar-engine";
 import type { ScheduleOverride } from "@/lib";
 
+const CUSTODY_BACKGROUNDS = {
+  primary: "bg-primary/10",
+  secondary: "bg-secondary/10",
+  tertiary: "bg-amber-500/10",
+} as const;
+
 function getOverrideColorClasses(override: ScheduleOverride): string {
   switch (override.type) {
     case "holiday":
@@ -54,7 +60,7 @@ export function CalendarDayCell({
       ) : (
         <div
           className={`absolute inset-0 rounded-xl pointer-events-none ${
-            day.custodyColor === "primary" ? "bg-primary/10" : "bg-secondary/10"
+            CUSTODY_BACKGROUNDS[day.custodyColor]
           }`}
         />
       )}
@@ -140,6 +146,20 @@ export function CalendarDayCell({
           </div>
         )}
 
+        {day.childCustody && (
+          <ul aria-label="Where the kids are" className="flex flex-col gap-0.5">
+            {day.childCustody.map(({ child, parent }) => (
+              <li
+                key={child.id}
+                className="text-[10px] text-slate-600 dark:text-slate-300 truncate"
+                title={`${child.firstName} with ${parent.name}`}
+              >
+                <span className="font-bold">{child.firstName}</span> · {parent.name.split(" ")[0]}
+              </li>
+            ))}
+          </ul>
+        )}
+
         {hasPending && day.pendingRequest && (
           <div className="flex items-center gap-1 text-[11px] text-amber-600 dark:text-amber-400 font-bold bg-amber-50 dark:bg-amber-900/20 p-1 rounded">
             Swap Request
@@ -45,7 +45,9 @@ export function CalendarWeekGrid({ data }: CalendarWeekGridProps) {
                   ? 'text-primary'
                   : day.custodyColor === 'secondary'
                     ? 'text-orange-500'
-                    : 'text-slate-400'
+                    : day.custodyColor === 'tertiary'
+                      ? 'text-amber-600'
+                      : 'text-slate-400'
               }`}
             >
               {day.dayOfMonth}
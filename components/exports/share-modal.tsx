@@ -9,11 +9,13 @@
  * - Share link with copy button
  * - Token expiration date
  * - Generate new token button
+ * - Second-factor step-up when the account has MFA enabled
  */
 
 import { useState, useEffect } from "react";
 import Image from "next/image";
 import { useToast } from "@/components/toast-notification";
+import { StepUpPrompt, isStepUpRequired } from "@/components/step-up-prompt";
 
 interface ShareModalProps {
   exportId: string;
@@ -34,6 +36,7 @@ export default function ShareModal({ exportId, onClose }: ShareModalProps) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
+  const [needsStepUp, setNeedsStepUp] = useState(false);
 
   // Fetch share token on mount
   useEffect(() => {
@@ -53,6 +56,11 @@ export default function ShareModal({ exportId, onClose }: ShareModalProps) {
       });
 
       if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        if (isStepUpRequired(response.status, errorData)) {
+          setNeedsStepUp(true);
+          return;
+        }
         throw new Error("Failed to generate share token");
       }
 
@@ -129,7 +137,15 @@ export default function ShareModal({ exportId, onClose }: ShareModalProps) {
 
           {/* Content */}
           <div className="px-6 py-4">
-            {loading ? (
+            {needsStepUp ? (
+              <StepUpPrompt
+                onCancel={onClose}
+                onVerified={() => {
+                  setNeedsStepUp(false);
+                  void fetchToken();
+                }}
+              />
+            ) : loading ? (
               <div className="flex items-center justify-center py-8">
                 <div className="text-center">
                   <span className="material-symbols-outlined animate-spin text-3xl text-blue-600 dark:text-blue-400">
@@ -204,7 +220,7 @@ export default function ShareModal({ exportId, onClose }: ShareModalProps) {
           <div className="flex gap-3 border-t border-slate-200 px-6 py-4 dark:border-slate-700">
             <button
               onClick={handleGenerateNewToken}
-              disabled={loading}
+              disabled={loading || needsStepUp}
               className="flex-1 rounded-md border border-slate-200 px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 dark:border-slate-700 dark:text-slate-300 dark:hover:bg-slate-800"
             >
               <span className="material-symbols-outlined mr-1 inline text-sm">
@@ -0,0 +1,123 @@
+import { buildFeedPath } from "@/lib/calendar/feed-tokens";
+import type { FeedContent } from "@/lib/custody-feed";
+
+interface CalendarFeedCardProps {
+  /** Encoded URL token for the caller's active feed token, if any. */
+  urlToken?: string;
+  createdAt?: string;
+  lastUsedAt?: string;
+  rotateAction: () => Promise<void>;
+  revokeAction: () => Promise<void>;
+  status?: "success" | "error";
+  message?: string;
+}
+
+const BASE_URL = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+
+const FEED_VARIANTS: ReadonlyArray<{ content: FeedContent; label: string; description: string }> = [
+  { content: "all", label: "Everything", description: "Custody periods, handoffs and activities" },
+  { content: "custody", label: "Custody only", description: "Who has the kids, and when handoffs happen" },
+  { content: "activities", label: "Activities only", description: "Events from the family calendar" },
+];
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+export function CalendarFeedCard({
+  urlToken,
+  createdAt,
+  lastUsedAt,
+  rotateAction,
+  revokeAction,
+  status,
+  message,
+}: Readonly<CalendarFeedCardProps>) {
+  return (
+    <section
+      className="overflow-hidden rounded-xl border border-slate-200 dark:border-slate-700 bg-white shadow-sm dark:bg-neutral-dark"
+      id="calendar-feed"
+    >
+      <div className="border-b border-slate-200 dark:border-slate-700 p-6">
+        <h3 className="text-lg font-bold text-slate-600 dark:text-slate-900">Calendar Subscription</h3>
+        <p className="text-sm text-slate-500">
+          Private links for Apple Calendar, Google Calendar, or Outlook. Anyone with a link can read your
+          family calendar, so rotate it if it has been shared.
+        </p>
+      </div>
+
+      <div className="flex flex-col gap-6 p-6">
+        {status && message && (
+          <p
+            className={`rounded-md border px-3 py-2 text-sm ${
+              status === "success"
+                ? "border-emerald-200 bg-emerald-50 text-emerald-700 dark:border-emerald-800/40 dark:bg-emerald-900/20 dark:text-emerald-200"
+                : "border-rose-200 bg-rose-50 text-rose-700 dark:border-rose-800/40 dark:bg-rose-900/20 dark:text-rose-200"
+            }`}
+            role="status"
+          >
+            {message}
+          </p>
+        )}
+
+        {urlToken ? (
+          <>
+            <div className="flex flex-col gap-4">
+              {FEED_VARIANTS.map((variant) => {
+                const inputId = `calendar-feed-${variant.content}`;
+                return (
+                  <div className="flex flex-col gap-1" key={variant.content}>
+                    <label className="text-sm font-semibold text-slate-600 dark:text-slate-900" htmlFor={inputId}>
+                      {variant.label}
+                    </label>
+                    <p className="text-xs text-slate-500">{variant.description}</p>
+                    <input
+                      id={inputId}
+                      className="w-full rounded-lg border border-slate-300 dark:border-slate-600 bg-background-light p-2 font-mono text-xs text-slate-700 dark:bg-background-dark dark:text-slate-800"
+                      readOnly
+                      type="text"
+                      value={`${BASE_URL}${buildFeedPath(urlToken, variant.content)}`}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+
+            <p className="text-xs text-slate-500">
+              {createdAt && <>Created {formatDate(createdAt)}. </>}
+              {lastUsedAt ? <>Last fetched {formatDate(lastUsedAt)}.</> : <>Not fetched yet.</>}
+            </p>
+
+            <div className="flex flex-wrap gap-3">
+              <form action={rotateAction}>
+                <button
+                  className="rounded-lg bg-primary px-4 py-2 text-sm font-bold text-white hover:bg-primary/90"
+                  type="submit"
+                >
+                  Rotate Link
+                </button>
+              </form>
+              <form action={revokeAction}>
+                <button
+                  className="rounded-lg border border-rose-300 px-4 py-2 text-sm font-bold text-rose-600 hover:bg-rose-50 dark:border-rose-800/60 dark:hover:bg-rose-900/20"
+                  type="submit"
+                >
+                  Revoke Link
+                </button>
+              </form>
+            </div>
+          </>
+        ) : (
+          <form action={rotateAction}>
+            <button
+              className="rounded-lg bg-primary px-4 py-2 text-sm font-bold text-white hover:bg-primary/90"
+              type="submit"
+            >
+              Create Subscription Link
+            </button>
+          </form>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import type { DbChild, DbParent, DbParentInvitation } from "@/lib/persistence/types";
+import type { DbCaregiverRole, DbChild, DbParent, DbParentInvitation } from "@/lib/persistence/types";
 
 interface FamilyManagementCardProps {
   childMembers: DbChild[];
@@ -12,6 +12,18 @@ interface FamilyManagementCardProps {
   message?: string;
 }
 
+const CAREGIVER_ROLE_OPTIONS: Array<{ value: DbCaregiverRole; label: string }> = [
+  { value: "parent", label: "Co-Parent" },
+  { value: "step_parent", label: "Step-Parent" },
+  { value: "grandparent", label: "Grandparent" },
+  { value: "guardian", label: "Guardian" },
+  { value: "other", label: "Other Caregiver" },
+];
+
+function caregiverRoleLabel(role: DbCaregiverRole | undefined): string {
+  return CAREGIVER_ROLE_OPTIONS.find((option) => option.value === role)?.label ?? "Co-Parent";
+}
+
 export function FamilyManagementCard({
   childMembers,
   coParents,
@@ -92,7 +104,7 @@ export function FamilyManagementCard({
                 <p className="font-bold">
                   {parent.name}{" "}
                   <span className="ml-2 rounded-full bg-primary/20 px-2 py-0.5 text-[10px] uppercase text-primary">
-                    Co-Parent
+                    {caregiverRoleLabel(parent.caregiverRole)}
                   </span>
                 </p>
                 <p className="text-xs text-slate-600 dark:text-slate-300">Status: Active member</p>
@@ -205,6 +217,18 @@ export function FamilyManagementCard({
                     </label>
                     <input id="invitePhone" name="invitePhone" className="w-full rounded-lg border border-slate-300 bg-white p-2.5 dark:border-slate-600 dark:bg-slate-900" type="tel" />
                   </div>
+                  <div>
+                    <label className="mb-1 block text-sm font-semibold text-slate-600 dark:text-slate-300" htmlFor="inviteCaregiverRole">
+                      Role in the Family
+                    </label>
+                    <select id="inviteCaregiverRole" name="inviteCaregiverRole" className="w-full rounded-lg border border-slate-300 bg-white p-2.5 dark:border-slate-600 dark:bg-slate-900" defaultValue="parent">
+                      {CAREGIVER_ROLE_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
                 </>
               )}
 
@@ -0,0 +1,81 @@
+interface HolidayCalendarCardProps {
+  jurisdiction: string;
+  submitAction: (formData: FormData) => Promise<void>;
+  status?: "success" | "error";
+  message?: string;
+}
+
+const JURISDICTION_SUGGESTIONS: ReadonlyArray<{ code: string; label: string }> = [
+  { code: "US", label: "United States (federal)" },
+  { code: "US-CA", label: "United States – California" },
+  { code: "US-NY", label: "United States – New York" },
+  { code: "US-TX", label: "United States – Texas" },
+  { code: "CA", label: "Canada" },
+  { code: "GB", label: "United Kingdom" },
+  { code: "AU", label: "Australia" },
+];
+
+export function HolidayCalendarCard({ jurisdiction, submitAction, status, message }: Readonly<HolidayCalendarCardProps>) {
+  return (
+    <section
+      className="overflow-hidden rounded-xl border border-slate-200 dark:border-slate-700 bg-white shadow-sm dark:bg-neutral-dark"
+      id="holidays"
+    >
+      <div className="border-b border-slate-200 dark:border-slate-700 p-6">
+        <h3 className="text-lg font-bold text-slate-600 dark:text-slate-900">Holiday Calendar</h3>
+        <p className="text-sm text-slate-500">
+          The public holidays your holiday custody rules follow. A state or province also includes its
+          country&apos;s holidays.
+        </p>
+      </div>
+
+      <form action={submitAction} className="flex flex-col gap-4 p-6">
+        {status && message && (
+          <p
+            className={`rounded-md border px-3 py-2 text-sm ${
+              status === "success"
+                ? "border-emerald-200 bg-emerald-50 text-emerald-700 dark:border-emerald-800/40 dark:bg-emerald-900/20 dark:text-emerald-200"
+                : "border-rose-200 bg-rose-50 text-rose-700 dark:border-rose-800/40 dark:bg-rose-900/20 dark:text-rose-200"
+            }`}
+            role="status"
+          >
+            {message}
+          </p>
+        )}
+
+        <div className="flex flex-col gap-1">
+          <label className="text-sm font-semibold text-slate-600 dark:text-slate-900" htmlFor="holiday-jurisdiction">
+            Jurisdiction
+          </label>
+          <input
+            id="holiday-jurisdiction"
+            name="holidayJurisdiction"
+            className="w-full max-w-xs rounded-lg border border-slate-300 dark:border-slate-600 bg-background-light p-2 text-sm uppercase text-slate-700 dark:bg-background-dark dark:text-slate-800"
+            defaultValue={jurisdiction}
+            list="holiday-jurisdiction-options"
+            pattern="[A-Za-z]{2}(-[A-Za-z0-9]{1,3})?"
+            required
+            type="text"
+          />
+          <datalist id="holiday-jurisdiction-options">
+            {JURISDICTION_SUGGESTIONS.map((option) => (
+              <option key={option.code} value={option.code}>
+                {option.label}
+              </option>
+            ))}
+          </datalist>
+          <p className="text-xs text-slate-500">A country code such as US, or a country and region such as US-CA.</p>
+        </div>
+
+        <div>
+          <button
+            className="rounded-lg bg-primary px-4 py-2 text-sm font-bold text-white hover:bg-primary/90"
+            type="submit"
+          >
+            Save Holiday Calendar
+          </button>
+        </div>
+      </form>
+    </section>
+  );
+}
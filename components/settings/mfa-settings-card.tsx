@@ -0,0 +1,327 @@
+"use client";
+
+/**
+ * MfaSettingsCard
+ *
+ * Two-step verification settings: authenticator app (TOTP) enrollment,
+ * passkeys, factor removal and recovery codes.  Changes to an account that
+ * already has a factor go through StepUpPrompt first.
+ *
+ * API: /api/auth/mfa (status), /totp, /passkeys, /factors/{id}, /recovery-codes
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { StepUpPrompt, isStepUpRequired } from "@/components/step-up-prompt";
+import { createPasskey, isWebAuthnSupported } from "@/lib/auth/webauthn-browser";
+import type { RegistrationOptionsJSON } from "@/lib/auth/webauthn";
+
+const MFA_API = "/api/auth/mfa";
+
+interface MfaFactor {
+  id: string;
+  type: "totp" | "webauthn";
+  label: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+interface MfaStatus {
+  enabled: boolean;
+  factors: MfaFactor[];
+  recoveryCodesRemaining: number;
+}
+
+interface TotpEnrollment {
+  factorId: string;
+  secret: string;
+  otpauthUri: string;
+}
+
+const FACTOR_ICONS = { totp: "phonelink_lock", webauthn: "passkey" } as const;
+
+function formatDate(iso: string): string {
+  return new Intl.DateTimeFormat("en-US", { year: "numeric", month: "short", day: "numeric" }).format(new Date(iso));
+}
+
+export function MfaSettingsCard() {
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [retryAfterStepUp, setRetryAfterStepUp] = useState<(() => Promise<void>) | null>(null);
+  const [passkeysSupported, setPasskeysSupported] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    const response = await fetch(MFA_API, { credentials: "include" });
+    if (!response.ok) {
+      throw new Error("Failed to load two-step verification settings");
+    }
+    setStatus((await response.json()) as MfaStatus);
+  }, []);
+
+  useEffect(() => {
+    setPasskeysSupported(isWebAuthnSupported());
+    loadStatus().catch((err) => setError(err instanceof Error ? err.message : "Failed to load settings"));
+  }, [loadStatus]);
+
+  /**
+   * Calls an MFA endpoint.  A step-up demand parks `action` until the
+   * prompt succeeds; returns null in that case or on error.
+   */
+  async function callApi<T>(
+    path: string,
+    init: RequestInit,
+    action: () => Promise<void>
+  ): Promise<T | null> {
+    const response = await fetch(`${MFA_API}${path}`, {
+      ...init,
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+    });
+    const data = await response.json().catch(() => ({}));
+    if (isStepUpRequired(response.status, data)) {
+      setRetryAfterStepUp(() => action);
+      return null;
+    }
+    if (!response.ok) {
+      setError(data.message ?? "Something went wrong. Please try again.");
+      return null;
+    }
+    return data as T;
+  }
+
+  async function run(action: () => Promise<void>) {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong. Please try again.");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  async function startTotp() {
+    const data = await callApi<TotpEnrollment>("/totp", { method: "POST", body: "{}" }, startTotp);
+    if (data) {
+      setEnrollment(data);
+      setCode("");
+    }
+  }
+
+  async function confirmTotp() {
+    if (!enrollment) return;
+    const data = await callApi<{ recoveryCodes: string[] | null }>(
+      "/totp",
+      { method: "PUT", body: JSON.stringify({ factorId: enrollment.factorId, code }) },
+      confirmTotp
+    );
+    if (data) {
+      setEnrollment(null);
+      setRecoveryCodes(data.recoveryCodes);
+      await loadStatus();
+    }
+  }
+
+  async function addPasskey() {
+    const start = await callApi<{ challengeId: string; options: RegistrationOptionsJSON }>(
+      "/passkeys",
+      { method: "POST" },
+      addPasskey
+    );
+    if (!start) return;
+
+    const credential = await createPasskey(start.options);
+    const data = await callApi<{ recoveryCodes: string[] | null }>(
+      "/passkeys",
+      { method: "PUT", body: JSON.stringify({ challengeId: start.challengeId, credential }) },
+      addPasskey
+    );
+    if (data) {
+      setRecoveryCodes(data.recoveryCodes);
+      await loadStatus();
+    }
+  }
+
+  async function removeFactor(factorId: string) {
+    const remove = async () => {
+      if (await callApi(`/factors/${factorId}`, { method: "DELETE" }, remove)) {
+        await loadStatus();
+      }
+    };
+    await remove();
+  }
+
+  async function regenerateCodes() {
+    const data = await callApi<{ recoveryCodes: string[] }>("/recovery-codes", { method: "POST" }, regenerateCodes);
+    if (data) {
+      setRecoveryCodes(data.recoveryCodes);
+      await loadStatus();
+    }
+  }
+
+  return (
+    <section
+      className="overflow-hidden rounded-xl border border-slate-200 dark:border-slate-700 bg-white shadow-sm dark:bg-neutral-dark"
+      id="two-step"
+    >
+      <div className="border-b border-slate-200 dark:border-slate-700 p-6">
+        <h3 className="text-lg font-bold text-slate-600 dark:text-slate-900">Two-Step Verification</h3>
+        <p className="text-sm text-slate-500">
+          Ask for a code or passkey at sign-in and before sharing exports or deleting documents.
+        </p>
+      </div>
+
+      <div className="flex flex-col gap-6 p-6">
+        {retryAfterStepUp ? (
+          <StepUpPrompt
+            onCancel={() => setRetryAfterStepUp(null)}
+            onVerified={() => {
+              const action = retryAfterStepUp;
+              setRetryAfterStepUp(null);
+              void run(action);
+            }}
+          />
+        ) : (
+          <>
+            <div className="flex items-center gap-3 rounded-xl border border-slate-200 dark:border-slate-700 bg-primary/5 p-4">
+              <span className="material-symbols-outlined text-primary">verified_user</span>
+              <div className="flex-1">
+                <p className="text-sm font-bold text-slate-600 dark:text-slate-900">
+                  {status?.enabled ? "Two-step verification is ON" : "Two-step verification is OFF"}
+                </p>
+                {status?.enabled && (
+                  <p className="text-xs text-slate-500">
+                    {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"} left
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {status && status.factors.length > 0 && (
+              <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+                {status.factors.map((factor) => (
+                  <li className="flex items-center gap-3 py-3" key={factor.id}>
+                    <span className="material-symbols-outlined text-slate-500">{FACTOR_ICONS[factor.type]}</span>
+                    <div className="flex-1">
+                      <p className="text-sm font-semibold text-slate-600 dark:text-slate-900">{factor.label}</p>
+                      <p className="text-xs text-slate-500">
+                        Added {formatDate(factor.createdAt)}
+                        {factor.lastUsedAt ? ` · Last used ${formatDate(factor.lastUsedAt)}` : ""}
+                      </p>
+                    </div>
+                    <button
+                      className="text-xs font-bold text-rose-600 underline disabled:opacity-50"
+                      disabled={isBusy}
+                      onClick={() => run(() => removeFactor(factor.id))}
+                      type="button"
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {enrollment ? (
+              <div className="flex flex-col gap-3 rounded-lg bg-slate-50 p-4 dark:bg-slate-800/40">
+                <p className="text-sm text-slate-600 dark:text-slate-900">
+                  Add this key to your authenticator app, or{" "}
+                  <a className="font-bold text-primary underline" href={enrollment.otpauthUri}>
+                    open it on this device
+                  </a>
+                  , then enter the 6-digit code it shows.
+                </p>
+                <code className="break-all rounded bg-white px-3 py-2 font-mono text-sm tracking-wider dark:bg-slate-900">
+                  {enrollment.secret}
+                </code>
+                <div className="flex gap-2">
+                  <input
+                    autoComplete="one-time-code"
+                    className="flex-1 rounded-lg border border-slate-300 px-3 py-2 text-sm"
+                    inputMode="numeric"
+                    maxLength={6}
+                    onChange={(e) => setCode(e.target.value)}
+                    placeholder="123456"
+                    value={code}
+                  />
+                  <button
+                    className="rounded-lg bg-primary px-4 py-2 text-sm font-bold text-white disabled:opacity-50"
+                    disabled={isBusy || code.trim().length !== 6}
+                    onClick={() => run(confirmTotp)}
+                    type="button"
+                  >
+                    Confirm
+                  </button>
+                  <button
+                    className="rounded-lg border border-slate-300 px-4 py-2 text-sm font-semibold text-slate-700"
+                    onClick={() => setEnrollment(null)}
+                    type="button"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex flex-wrap gap-3">
+                <button
+                  className="rounded-lg border border-slate-300 px-3 py-1.5 text-sm font-semibold text-slate-700 hover:bg-slate-100 disabled:opacity-50 dark:border-slate-600 dark:text-slate-800"
+                  disabled={isBusy}
+                  onClick={() => run(startTotp)}
+                  type="button"
+                >
+                  Add authenticator app
+                </button>
+                {passkeysSupported && (
+                  <button
+                    className="rounded-lg border border-slate-300 px-3 py-1.5 text-sm font-semibold text-slate-700 hover:bg-slate-100 disabled:opacity-50 dark:border-slate-600 dark:text-slate-800"
+                    disabled={isBusy}
+                    onClick={() => run(addPasskey)}
+                    type="button"
+                  >
+                    Add passkey
+                  </button>
+                )}
+                {status?.enabled && (
+                  <button
+                    className="rounded-lg border border-slate-300 px-3 py-1.5 text-sm font-semibold text-slate-700 hover:bg-slate-100 disabled:opacity-50 dark:border-slate-600 dark:text-slate-800"
+                    disabled={isBusy}
+                    onClick={() => run(regenerateCodes)}
+                    type="button"
+                  >
+                    New recovery codes
+                  </button>
+                )}
+              </div>
+            )}
+
+            {recoveryCodes && (
+              <div className="flex flex-col gap-3 rounded-lg border border-amber-200 bg-amber-50 p-4 dark:border-amber-700 dark:bg-amber-900/20">
+                <p className="text-sm font-semibold text-amber-800 dark:text-amber-200">
+                  Save these recovery codes somewhere safe. Each works once, and they won&apos;t be shown again.
+                </p>
+                <ul className="grid grid-cols-2 gap-2 font-mono text-sm">
+                  {recoveryCodes.map((recoveryCode) => (
+                    <li key={recoveryCode}>{recoveryCode}</li>
+                  ))}
+                </ul>
+                <button
+                  className="self-start text-xs font-bold text-amber-800 underline dark:text-amber-200"
+                  onClick={() => setRecoveryCodes(null)}
+                  type="button"
+                >
+                  I&apos;ve saved them
+                </button>
+              </div>
+            )}
+          </>
+        )}
+
+        {error && <p className="text-sm text-rose-600 dark:text-rose-300">{error}</p>}
+      </div>
+    </section>
+  );
+}
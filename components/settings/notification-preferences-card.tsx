@@ -0,0 +1,250 @@
+import {
+  MAX_LEAD_MINUTES,
+  MIN_LEAD_MINUTES,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_EVENT_TYPES,
+  NOTIFICATION_TYPES,
+  type NotificationPreferences,
+} from "@/lib/notification-preferences";
+import type {
+  NotificationChannel,
+  NotificationEventType,
+  ScheduledNotificationType,
+} from "@/lib/persistence/types";
+import { PushSubscriptionToggle } from "./push-subscription-toggle";
+
+interface NotificationPreferencesCardProps {
+  preferences: NotificationPreferences;
+  /** Timezone quiet hours are evaluated in */
+  timeZone: string;
+  submitAction: (formData: FormData) => Promise<void>;
+  status?: "success" | "error";
+  message?: string;
+}
+
+const TYPE_LABELS: Record<ScheduledNotificationType, { label: string; description: string }> = {
+  transition_24h: { label: "Advance handoff alert", description: "When the kids are coming to you" },
+  transition_same_day: { label: "Same-day handoff alert", description: "Before you hand the kids off" },
+  transition_reminder: { label: "Handoff reminder", description: "Shortly before the kids arrive" },
+};
+
+const EVENT_LABELS: Record<NotificationEventType, string> = {
+  "change_request.created": "New schedule change requests",
+  "change_request.countered": "Counter-offers to your requests",
+  "expense.awaiting_reimbursement": "Expenses awaiting your share",
+  "message.unread": "Messages left unread",
+  "vault.signature_requested": "Documents needing your signature",
+};
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+function formatHour(hour: number): string {
+  const suffix = hour < 12 ? "AM" : "PM";
+  return `${hour % 12 === 0 ? 12 : hour % 12}:00 ${suffix}`;
+}
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  sms: "SMS",
+  email: "Email",
+  push: "Push",
+};
+
+export function NotificationPreferencesCard({
+  preferences,
+  timeZone,
+  submitAction,
+  status,
+  message,
+}: Readonly<NotificationPreferencesCardProps>) {
+  return (
+    <section
+      className="overflow-hidden rounded-xl border border-slate-200 dark:border-slate-700 bg-white shadow-sm dark:bg-neutral-dark"
+      id="notifications"
+    >
+      <div className="border-b border-slate-200 dark:border-slate-700 p-6">
+        <h3 className="text-lg font-bold text-slate-600 dark:text-slate-900">Notification Preferences</h3>
+        <p className="text-sm text-slate-500">Configure how and when you receive alerts.</p>
+      </div>
+
+      <form action={submitAction} className="flex flex-col gap-6 p-6">
+        {status && message && (
+          <p
+            className={`rounded-md border px-3 py-2 text-sm ${
+              status === "success"
+                ? "border-emerald-200 bg-emerald-50 text-emerald-700 dark:border-emerald-800/40 dark:bg-emerald-900/20 dark:text-emerald-200"
+                : "border-rose-200 bg-rose-50 text-rose-700 dark:border-rose-800/40 dark:bg-rose-900/20 dark:text-rose-200"
+            }`}
+            role="status"
+          >
+            {message}
+          </p>
+        )}
+
+        <PushSubscriptionToggle />
+
+        <div className="space-y-4">
+          {NOTIFICATION_TYPES.map((type, index) => {
+            const preference = preferences.types[type];
+            return (
+              <div className="space-y-4" key={type}>
+                {index > 0 && <hr className="border-slate-200 dark:border-slate-700" />}
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                  <label className="flex items-start gap-3">
+                    <input
+                      className="mt-1 h-5 w-5 rounded text-primary focus:ring-primary"
+                      defaultChecked={preference.enabled}
+                      name={`${type}.enabled`}
+                      type="checkbox"
+                    />
+                    <span>
+                      <span className="block font-semibold text-slate-600 dark:text-slate-900">
+                        {TYPE_LABELS[type].label}
+                      </span>
+                      <span className="block text-xs text-slate-500">{TYPE_LABELS[type].description}</span>
+                    </span>
+                  </label>
+                  <div className="flex items-center gap-4">
+                    {NOTIFICATION_CHANNELS.map((channel) => (
+                      <label className="flex flex-col items-center gap-1" key={channel}>
+                        <input
+                          className="h-5 w-5 rounded text-primary focus:ring-primary"
+                          defaultChecked={preference.channels.includes(channel)}
+                          name={`${type}.channels`}
+                          type="checkbox"
+                          value={channel}
+                        />
+                        <span className="text-[10px] font-bold uppercase text-slate-500 dark:text-slate-400">
+                          {CHANNEL_LABELS[channel]}
+                        </span>
+                      </label>
+                    ))}
+                    <label className="flex flex-col items-center gap-1">
+                      <input
+                        className="w-20 rounded-lg border border-slate-300 dark:border-slate-600 bg-background-light p-1 text-center text-sm text-slate-700 dark:bg-background-dark dark:text-slate-800"
+                        defaultValue={preference.leadMinutes}
+                        max={MAX_LEAD_MINUTES}
+                        min={MIN_LEAD_MINUTES}
+                        name={`${type}.leadMinutes`}
+                        type="number"
+                      />
+                      <span className="text-[10px] font-bold uppercase text-slate-500 dark:text-slate-400">
+                        Minutes before
+                      </span>
+                    </label>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <hr className="border-slate-200 dark:border-slate-700" />
+
+        <div className="space-y-3">
+          <h4 className="font-semibold text-slate-600 dark:text-slate-900">Activity alerts</h4>
+          {NOTIFICATION_EVENT_TYPES.map((type) => {
+            const preference = preferences.events[type];
+            return (
+              <div className="flex flex-wrap items-center justify-between gap-4" key={type}>
+                <label className="flex items-center gap-3">
+                  <input
+                    className="h-5 w-5 rounded text-primary focus:ring-primary"
+                    defaultChecked={preference.enabled}
+                    name={`${type}.enabled`}
+                    type="checkbox"
+                  />
+                  <span className="text-sm text-slate-600 dark:text-slate-900">{EVENT_LABELS[type]}</span>
+                </label>
+                <div className="flex items-center gap-4">
+                  {NOTIFICATION_CHANNELS.map((channel) => (
+                    <label className="flex flex-col items-center gap-1" key={channel}>
+                      <input
+                        className="h-5 w-5 rounded text-primary focus:ring-primary"
+                        defaultChecked={preference.channels.includes(channel)}
+                        name={`${type}.channels`}
+                        type="checkbox"
+                        value={channel}
+                      />
+                      <span className="text-[10px] font-bold uppercase text-slate-500 dark:text-slate-400">
+                        {CHANNEL_LABELS[channel]}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+          <label className="flex items-center gap-3 pt-2">
+            <input
+              className="h-5 w-5 rounded text-primary focus:ring-primary"
+              defaultChecked={preferences.digestHour !== undefined}
+              name="digestEnabled"
+              type="checkbox"
+            />
+            <span className="text-sm text-slate-600 dark:text-slate-900">
+              Send activity alerts as one daily summary email at
+            </span>
+            <select
+              className="rounded-lg border border-slate-300 dark:border-slate-600 bg-background-light p-1 text-sm text-slate-700 dark:bg-background-dark dark:text-slate-800"
+              defaultValue={preferences.digestHour ?? 18}
+              name="digestHour"
+            >
+              {HOURS.map((hour) => (
+                <option key={hour} value={hour}>
+                  {formatHour(hour)}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <hr className="border-slate-200 dark:border-slate-700" />
+
+        <div className="flex flex-col gap-3">
+          <label className="flex items-center gap-3">
+            <input
+              className="h-5 w-5 rounded text-primary focus:ring-primary"
+              defaultChecked={Boolean(preferences.quietHours)}
+              name="quietHoursEnabled"
+              type="checkbox"
+            />
+            <span className="font-semibold text-slate-600 dark:text-slate-900">Quiet hours</span>
+          </label>
+          <p className="text-xs text-slate-500">
+            Alerts due during quiet hours wait until they end, or arrive by email if waiting would miss the
+            handoff. Times are in {timeZone}.
+          </p>
+          <div className="flex gap-4">
+            <label className="flex flex-col gap-1 text-sm text-slate-600 dark:text-slate-900">
+              From
+              <input
+                className="rounded-lg border border-slate-300 dark:border-slate-600 bg-background-light p-2 text-slate-700 dark:bg-background-dark dark:text-slate-800"
+                defaultValue={preferences.quietHours?.start ?? "22:00"}
+                name="quietHoursStart"
+                type="time"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-sm text-slate-600 dark:text-slate-900">
+              Until
+              <input
+                className="rounded-lg border border-slate-300 dark:border-slate-600 bg-background-light p-2 text-slate-700 dark:bg-background-dark dark:text-slate-800"
+                defaultValue={preferences.quietHours?.end ?? "07:00"}
+                name="quietHoursEnd"
+                type="time"
+              />
+            </label>
+          </div>
+        </div>
+
+        <div>
+          <button
+            className="rounded-lg bg-primary px-4 py-2 text-sm font-bold text-white hover:bg-primary/90"
+            type="submit"
+          >
+            Save Notification Preferences
+          </button>
+        </div>
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+/**
+ * PushSubscriptionToggle
+ *
+ * Enables or disables Web Push handoff reminders on the current browser.
+ * Rendered inside NotificationPreferencesCard; the Push channel checkboxes
+ * only reach devices turned on here.
+ */
+
+import { usePushSubscription } from "@/hooks/usePushSubscription";
+
+const STATUS_TEXT = {
+  loading: "Checking this browser…",
+  unsupported: "This browser does not support push notifications.",
+  unconfigured: "Push notifications are not available yet.",
+  denied: "Notifications are blocked for this site in your browser settings.",
+  subscribed: "Push reminders are on for this browser.",
+  unsubscribed: "Push reminders are off for this browser.",
+} as const;
+
+export function PushSubscriptionToggle() {
+  const { status, isBusy, error, subscribe, unsubscribe } = usePushSubscription();
+  const canToggle = status === "subscribed" || status === "unsubscribed";
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg bg-slate-50 p-4 dark:bg-slate-800/40">
+      <div>
+        <p className="text-sm font-semibold text-slate-600 dark:text-slate-900">This device</p>
+        <p className="text-xs text-slate-500">{STATUS_TEXT[status]}</p>
+        {error && <p className="text-xs text-rose-600 dark:text-rose-300">{error}</p>}
+      </div>
+      {canToggle && (
+        <button
+          className="rounded-lg border border-slate-300 px-3 py-1.5 text-sm font-semibold text-slate-700 hover:bg-slate-100 disabled:opacity-50 dark:border-slate-600 dark:text-slate-800"
+          disabled={isBusy}
+          onClick={status === "subscribed" ? unsubscribe : subscribe}
+          type="button"
+        >
+          {status === "subscribed" ? "Turn off push" : "Turn on push"}
+        </button>
+      )}
+    </div>
+  );
+}
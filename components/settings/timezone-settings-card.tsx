@@ -0,0 +1,107 @@
+interface TimezoneSettingsCardProps {
+  familyTimezone: string;
+  /** The caller's own timezone; unset when they follow the family's */
+  parentTimezone?: string;
+  submitAction: (formData: FormData) => Promise<void>;
+  status?: "success" | "error";
+  message?: string;
+}
+
+const TIMEZONE_SUGGESTIONS: ReadonlyArray<{ zone: string; label: string }> = [
+  { zone: "America/New_York", label: "Eastern Time" },
+  { zone: "America/Chicago", label: "Central Time" },
+  { zone: "America/Denver", label: "Mountain Time" },
+  { zone: "America/Phoenix", label: "Arizona" },
+  { zone: "America/Los_Angeles", label: "Pacific Time" },
+  { zone: "America/Anchorage", label: "Alaska" },
+  { zone: "Pacific/Honolulu", label: "Hawaii" },
+  { zone: "Europe/London", label: "United Kingdom" },
+  { zone: "UTC", label: "Coordinated Universal Time" },
+];
+
+export function TimezoneSettingsCard({
+  familyTimezone,
+  parentTimezone,
+  submitAction,
+  status,
+  message,
+}: Readonly<TimezoneSettingsCardProps>) {
+  return (
+    <section
+      className="overflow-hidden rounded-xl border border-slate-200 dark:border-slate-700 bg-white shadow-sm dark:bg-neutral-dark"
+      id="timezone"
+    >
+      <div className="border-b border-slate-200 dark:border-slate-700 p-6">
+        <h3 className="text-lg font-bold text-slate-600 dark:text-slate-900">Timezone</h3>
+        <p className="text-sm text-slate-500">
+          Handoffs happen at the exchange time in the family timezone. If you live elsewhere, set your own
+          timezone to also see each handoff in your local time.
+        </p>
+      </div>
+
+      <form action={submitAction} className="flex flex-col gap-4 p-6">
+        {status && message && (
+          <p
+            className={`rounded-md border px-3 py-2 text-sm ${
+              status === "success"
+                ? "border-emerald-200 bg-emerald-50 text-emerald-700 dark:border-emerald-800/40 dark:bg-emerald-900/20 dark:text-emerald-200"
+                : "border-rose-200 bg-rose-50 text-rose-700 dark:border-rose-800/40 dark:bg-rose-900/20 dark:text-rose-200"
+            }`}
+            role="status"
+          >
+            {message}
+          </p>
+        )}
+
+        <div className="flex flex-col gap-1">
+          <label className="text-sm font-semibold text-slate-600 dark:text-slate-900" htmlFor="family-timezone">
+            Family timezone
+          </label>
+          <input
+            id="family-timezone"
+            name="familyTimezone"
+            className="w-full max-w-xs rounded-lg border border-slate-300 dark:border-slate-600 bg-background-light p-2 text-sm text-slate-700 dark:bg-background-dark dark:text-slate-800"
+            defaultValue={familyTimezone}
+            list="timezone-options"
+            required
+            type="text"
+          />
+          <p className="text-xs text-slate-500">An IANA timezone such as America/New_York. Applies to both parents.</p>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <label className="text-sm font-semibold text-slate-600 dark:text-slate-900" htmlFor="parent-timezone">
+            Your timezone
+          </label>
+          <input
+            id="parent-timezone"
+            name="parentTimezone"
+            className="w-full max-w-xs rounded-lg border border-slate-300 dark:border-slate-600 bg-background-light p-2 text-sm text-slate-700 dark:bg-background-dark dark:text-slate-800"
+            defaultValue={parentTimezone ?? ""}
+            list="timezone-options"
+            placeholder={familyTimezone}
+            type="text"
+          />
+          <p className="text-xs text-slate-500">Leave blank to use the family timezone.</p>
+        </div>
+
+        <datalist id="timezone-options">
+          {TIMEZONE_SUGGESTIONS.map((option) => (
+            <option key={option.zone} value={option.zone}>
+              {option.label}
+            </option>
+          ))}
+        </datalist>
+
+        <div>
+          <button
+            className="rounded-lg bg-primary px-4 py-2 text-sm font-bold text-white hover:bg-primary/90"
+            type="submit"
+          >
+            Save Timezone
+          </button>
+        </div>
+      </form>
+    </section>
+  );
+}
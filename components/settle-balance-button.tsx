@@ -1,26 +1,28 @@
 'use client';
 
-import { useToast } from './toast-notification';
+import { useFormStatus } from 'react-dom';
 
-export function SettleBalanceButton() {
-  const { add: showToast } = useToast();
-
-  const handleSettleBalance = () => {
-    showToast('Settlement initiated. Notification sent to co-parent.', 'success');
-  };
+/**
+ * Submit button for the expenses page's settle-up form.  Disabled when
+ * nothing is outstanding between the two parents.
+ */
+export function SettleBalanceButton({ disabled = false }: Readonly<{ disabled?: boolean }>) {
+  const { pending } = useFormStatus();
 
   return (
     <button
-      onClick={handleSettleBalance}
+      type="submit"
+      disabled={disabled || pending}
       className={
         'hidden sm:flex items-center gap-2 px-4 py-2 ' +
         'bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 ' +
         'text-slate-700 dark:text-slate-200 text-sm font-semibold rounded-lg ' +
-        'hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors shadow-sm'
+        'hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors shadow-sm ' +
+        'disabled:opacity-50 disabled:cursor-not-allowed'
       }
     >
       <span className="material-symbols-outlined text-[20px]">payments</span>
-      Settle Balance
+      {pending ? 'Settling…' : 'Settle Balance'}
     </button>
   );
 }
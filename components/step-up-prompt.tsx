@@ -0,0 +1,187 @@
+"use client";
+
+/**
+ * StepUpPrompt
+ *
+ * Inline second-factor check for sensitive actions.  Endpoints such as
+ * POST /api/exports/{id}/share and DELETE /api/school/vault/{id} answer
+ * 403 `step_up_required` when the user has MFA and has not verified
+ * recently; the calling modal renders this prompt and retries the action
+ * from onVerified.
+ *
+ * API: POST /api/auth/mfa/step-up (open challenge), PUT (verify)
+ */
+
+import { useEffect, useState } from "react";
+import type { AuthenticationOptionsJSON } from "@/lib/auth/webauthn";
+import { getPasskeyAssertion, isWebAuthnSupported } from "@/lib/auth/webauthn-browser";
+
+const STEP_UP_API = "/api/auth/mfa/step-up";
+
+interface StepUpChallenge {
+  challengeId: string;
+  methods: Array<"totp" | "webauthn" | "recovery_code">;
+  webauthnOptions?: AuthenticationOptionsJSON;
+}
+
+/** True when a failed response asks for a second-factor step-up */
+export function isStepUpRequired(status: number, body: { error?: unknown }): boolean {
+  return status === 403 && body.error === "step_up_required";
+}
+
+interface StepUpPromptProps {
+  onVerified: () => void;
+  onCancel: () => void;
+}
+
+export function StepUpPrompt({ onVerified, onCancel }: Readonly<StepUpPromptProps>) {
+  const [challenge, setChallenge] = useState<StepUpChallenge | null>(null);
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [isBusy, setIsBusy] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await fetch(STEP_UP_API, { method: "POST", credentials: "include" });
+        const data = await response.json();
+        if (cancelled) return;
+        if (!response.ok) {
+          throw new Error(data.message ?? "Failed to start verification");
+        }
+        if (!data.required) {
+          onVerified();
+          return;
+        }
+        setChallenge(data as StepUpChallenge);
+        setUseRecoveryCode(!data.methods.includes("totp") && !data.webauthnOptions);
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to start verification");
+        }
+      } finally {
+        if (!cancelled) setIsBusy(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+    // Open one challenge per prompt
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  async function verify(factor: Record<string, unknown>) {
+    if (!challenge) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(STEP_UP_API, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ challengeId: challenge.challengeId, ...factor }),
+      });
+      if (response.ok) {
+        onVerified();
+        return;
+      }
+      const data = await response.json().catch(() => ({}));
+      setError(data.message ?? "Verification failed");
+      setCode("");
+    } catch {
+      setError("Verification failed. Please try again.");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  async function handlePasskey() {
+    if (!challenge?.webauthnOptions) return;
+    try {
+      const credential = await getPasskeyAssertion(challenge.webauthnOptions);
+      await verify({ credential });
+    } catch {
+      setError("Passkey check was cancelled or is not available on this device.");
+    }
+  }
+
+  function handleSubmit(event: React.FormEvent) {
+    event.preventDefault();
+    void verify(useRecoveryCode ? { recoveryCode: code } : { code });
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start gap-3 rounded-md bg-amber-50 px-4 py-3 dark:bg-amber-900/30">
+        <span className="material-symbols-outlined text-amber-600 dark:text-amber-400">shield_lock</span>
+        <p className="text-sm text-amber-800 dark:text-amber-200">
+          Confirm it&apos;s you with your second factor to continue.
+        </p>
+      </div>
+
+      {challenge?.webauthnOptions && isWebAuthnSupported() && (
+        <button
+          className="flex w-full items-center justify-center gap-2 rounded-md border border-slate-200 px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 dark:border-slate-700 dark:text-slate-300 dark:hover:bg-slate-800"
+          disabled={isBusy}
+          onClick={handlePasskey}
+          type="button"
+        >
+          <span className="material-symbols-outlined text-base">passkey</span>
+          Use a passkey
+        </button>
+      )}
+
+      {challenge && (
+        <form className="space-y-3" onSubmit={handleSubmit}>
+          <label className="block text-xs font-medium text-slate-700 dark:text-slate-300" htmlFor="step-up-code">
+            {useRecoveryCode ? "Recovery code" : "Authenticator code"}
+          </label>
+          <input
+            autoComplete={useRecoveryCode ? "off" : "one-time-code"}
+            className="w-full rounded-md border border-slate-200 px-3 py-2 text-sm dark:border-slate-700 dark:bg-slate-800 dark:text-white"
+            id="step-up-code"
+            inputMode={useRecoveryCode ? "text" : "numeric"}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+            value={code}
+          />
+          <div className="flex items-center justify-between gap-3">
+            {challenge.methods.includes("totp") && (
+              <button
+                className="text-xs font-medium text-blue-600 hover:underline dark:text-blue-400"
+                onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+                type="button"
+              >
+                {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+              </button>
+            )}
+            <div className="ml-auto flex gap-2">
+              <button
+                className="rounded-md border border-slate-200 px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 dark:border-slate-700 dark:text-slate-300 dark:hover:bg-slate-800"
+                onClick={onCancel}
+                type="button"
+              >
+                Cancel
+              </button>
+              <button
+                className="rounded-md bg-slate-900 px-3 py-2 text-sm font-medium text-white hover:bg-slate-800 disabled:opacity-50 dark:bg-slate-700 dark:hover:bg-slate-600"
+                disabled={isBusy || code.trim().length === 0}
+                type="submit"
+              >
+                Verify
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-700 dark:text-red-300" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -11,12 +11,14 @@
  * - Loading spinner during deletion
  * - Success/error messages
  * - Allows retry on error
+ * - Second-factor step-up when the account has MFA enabled
  *
  * API: DELETE /api/school/vault/{id}
  */
 
 import { useState } from 'react';
 import { useToast } from '@/components/toast-notification';
+import { StepUpPrompt, isStepUpRequired } from '@/components/step-up-prompt';
 
 interface DeleteConfirmationModalProps {
   isOpen: boolean;
@@ -37,6 +39,7 @@ export default function DeleteConfirmationModal({
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  const [needsStepUp, setNeedsStepUp] = useState(false);
 
   // Only render if modal is open
   if (!isOpen) {
@@ -55,6 +58,10 @@ export default function DeleteConfirmationModal({
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
+        if (isStepUpRequired(response.status, errorData)) {
+          setNeedsStepUp(true);
+          return;
+        }
         throw new Error(
           errorData.message || `Failed to delete document (${response.status})`
         );
@@ -81,6 +88,7 @@ export default function DeleteConfirmationModal({
   function handleCancel() {
     setError(null);
     setSuccess(false);
+    setNeedsStepUp(false);
     onClose();
   }
 
@@ -126,6 +134,14 @@ export default function DeleteConfirmationModal({
                   </p>
                 </div>
               </div>
+            ) : needsStepUp ? (
+              <StepUpPrompt
+                onCancel={handleCancel}
+                onVerified={() => {
+                  setNeedsStepUp(false);
+                  void handleConfirmDelete();
+                }}
+              />
             ) : (
               <>
                 {/* Warning message */}
@@ -180,7 +196,7 @@ export default function DeleteConfirmationModal({
           </div>
 
           {/* Footer */}
-          {!success && (
+          {!success && !needsStepUp && (
             <div className="flex gap-3 border-t border-slate-200 px-6 py-4 dark:border-slate-700">
               <button
                 onClick={handleCancel}
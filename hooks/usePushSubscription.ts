@@ -0,0 +1,163 @@
+/**
+ * Hook for managing this browser's Web Push subscription
+ *
+ * Registers the push service worker, subscribes with the server's VAPID
+ * public key and keeps /api/notifications/push in sync so the notification
+ * delivery service can reach this device.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+
+const SERVICE_WORKER_URL = "/push-sw.js";
+const SUBSCRIPTIONS_API = "/api/notifications/push";
+
+export type PushSubscriptionStatus =
+  | "loading"
+  | "unsupported"
+  | "unconfigured"
+  | "denied"
+  | "subscribed"
+  | "unsubscribed";
+
+function isPushSupported(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    "serviceWorker" in navigator &&
+    "PushManager" in window &&
+    "Notification" in window
+  );
+}
+
+/** PushManager wants the VAPID key as raw bytes, not base64url. */
+function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function usePushSubscription() {
+  const [status, setStatus] = useState<PushSubscriptionStatus>("loading");
+  const [publicKey, setPublicKey] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isPushSupported()) {
+      setStatus("unsupported");
+      return;
+    }
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await fetch(SUBSCRIPTIONS_API, { credentials: "include" });
+        if (!response.ok) {
+          throw new Error(`Failed to load push settings: ${response.statusText}`);
+        }
+        const data = (await response.json()) as { publicKey: string | null };
+        if (cancelled) return;
+
+        if (!data.publicKey) {
+          setStatus("unconfigured");
+          return;
+        }
+        setPublicKey(data.publicKey);
+
+        if (Notification.permission === "denied") {
+          setStatus("denied");
+          return;
+        }
+        const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+        const subscription = await registration?.pushManager.getSubscription();
+        if (!cancelled) {
+          setStatus(subscription ? "subscribed" : "unsubscribed");
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load push settings");
+          setStatus("unsubscribed");
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const subscribe = useCallback(async () => {
+    if (!publicKey) return;
+    setIsBusy(true);
+    setError(null);
+
+    try {
+      const permission = await Notification.requestPermission();
+      if (permission !== "granted") {
+        setStatus(permission === "denied" ? "denied" : "unsubscribed");
+        return;
+      }
+
+      const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+      await navigator.serviceWorker.ready;
+      const subscription =
+        (await registration.pushManager.getSubscription()) ??
+        (await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: base64UrlToBytes(publicKey),
+        }));
+
+      const response = await fetch(SUBSCRIPTIONS_API, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(subscription.toJSON()),
+      });
+      if (!response.ok) {
+        await subscription.unsubscribe();
+        throw new Error(`Failed to register this device: ${response.statusText}`);
+      }
+
+      setStatus("subscribed");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to enable push notifications");
+    } finally {
+      setIsBusy(false);
+    }
+  }, [publicKey]);
+
+  const unsubscribe = useCallback(async () => {
+    setIsBusy(true);
+    setError(null);
+
+    try {
+      const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+      const subscription = await registration?.pushManager.getSubscription();
+      if (subscription) {
+        await fetch(SUBSCRIPTIONS_API, {
+          method: "DELETE",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({ endpoint: subscription.endpoint }),
+        });
+        await subscription.unsubscribe();
+      }
+      setStatus("unsubscribed");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to disable push notifications");
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  return {
+    status,
+    isBusy,
+    error,
+    subscribe,
+    unsubscribe,
+  };
+}
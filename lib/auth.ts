@@ -180,6 +180,30 @@ class AuditLogger {
     await this.log("user.phone_verify_failed", context, { phone, attemptsRemaining });
   }
 
+  async mfaEnroll(context: AuditContext, factorType: string, factorId: string): Promise<void> {
+    await this.log("user.mfa_enroll", context, { factorType, factorId });
+  }
+
+  async mfaRemove(context: AuditContext, factorType: string, factorId: string): Promise<void> {
+    await this.log("user.mfa_remove", context, { factorType, factorId });
+  }
+
+  async mfaChallengeFailed(context: AuditContext, purpose: string, reason: string): Promise<void> {
+    await this.log("user.mfa_challenge_failed", context, { purpose, reason });
+  }
+
+  async mfaRecoveryCodeUsed(context: AuditContext, remaining: number): Promise<void> {
+    await this.log("user.mfa_recovery_code_used", context, { remaining });
+  }
+
+  async mfaRecoveryCodesRegenerate(context: AuditContext): Promise<void> {
+    await this.log("user.mfa_recovery_codes_regenerate", context);
+  }
+
+  async mfaStepUp(context: AuditContext, method: string): Promise<void> {
+    await this.log("user.mfa_step_up", context, { method });
+  }
+
   async sessionCreate(context: AuditContext, sessionId: string): Promise<void> {
     await this.log("session.create", context, { sessionId: truncateToken(sessionId) });
   }
@@ -219,6 +243,7 @@ export const audit = new AuditLogger();
 
 export {
   login,
+  completeMfaLogin,
   register,
   requestPasswordReset,
   requestPhoneVerification,
@@ -555,6 +580,7 @@ import type {
   PasswordResetRequest,
   PhoneVerificationRequest,
   PhoneVerificationResult,
+  SecondFactorState,
 } from "@/lib";
 
 // ─── Configuration ─────────────────────────────────────────────────────────────
@@ -872,7 +898,9 @@ export class AuthEngine {
    * 3. Check email-based rate limit (blocks single-account brute-force)
    * 4. Verify password hash against database (constant-time comparison)
    * 5. Clear rate-limit counters on success
-   * 6. Issue dual-token session
+   * 6. Stop with "mfa_required" if the user has second factors and none
+   *    has been verified yet (finish with completeSecondFactor)
+   * 7. Issue dual-token session
    *
    * Complexity: O(1) – all steps are constant-time or O(password.length) for hash
    *
@@ -880,13 +908,15 @@ export class AuthEngine {
    * @param ipAddress Caller's IP address for IP-level rate limiting
    * @param hashedPasswordFromDb The hashed password retrieved from DB (NOT raw)
    * @param userId The userId returned from DB lookup on email
+   * @param secondFactor The user's enrolled second factors, if any
    * @returns AuthResult with session or error
    */
   authenticateWithPassword(
     credentials: AuthCredentials,
     ipAddress: string,
     hashedPasswordFromDb: string | null,
-    userId: string | null
+    userId: string | null,
+    secondFactor?: SecondFactorState
   ): AuthResult {
     const { email, password, rememberMe = false } = credentials;
     const now = new Date();
@@ -944,7 +974,13 @@ export class AuthEngine {
     clearRateLimit(email);
     clearRateLimit(ipAddress);
 
-    // ── Step 6: Issue Session ────────────────────────────────────────────────
+    // ── Step 6: Second Factor ────────────────────────────────────────────────
+    const mfaRequired = this.requireSecondFactor(secondFactor);
+    if (mfaRequired) {
+      return mfaRequired;
+    }
+
+    // ── Step 7: Issue Session ────────────────────────────────────────────────
     const session = this.issueSession(userId, email, rememberMe, ipAddress);
     return { success: true, session };
   }
@@ -963,13 +999,15 @@ export class AuthEngine {
    * @param resolvedEmail Email extracted from verified ID token
    * @param resolvedUserId User ID from your DB (upsert on first OAuth login)
    * @param ipAddress For session metadata
+   * @param secondFactor The user's enrolled second factors, if any
    * @returns AuthResult with session or error
    */
   authenticateWithOAuth(
     oauthCreds: OAuthCredentials,
     resolvedEmail: string,
     resolvedUserId: string | null,
-    ipAddress: string
+    ipAddress: string,
+    secondFactor?: SecondFactorState
   ): AuthResult {
     if (!resolvedUserId || !resolvedEmail) {
       return {
@@ -979,11 +1017,63 @@ export class AuthEngine {
       };
     }
 
+    // A provider sign-in replaces the password, not the second factor
+    const mfaRequired = this.requireSecondFactor(secondFactor);
+    if (mfaRequired) {
+      return mfaRequired;
+    }
+
     // OAuth users are always treated as "remember me" (session cookie managed by provider)
     const session = this.issueSession(resolvedUserId, resolvedEmail, true, ipAddress);
     return { success: true, session };
   }
 
+  /**
+   * Finishes a sign-in that stopped with "mfa_required" once the caller has
+   * checked the TOTP code, passkey assertion or recovery code.  Failures
+   * count against the user, not the IP, and lock second-factor attempts
+   * after MAX_OTP_ATTEMPTS so a stolen password cannot brute-force codes.
+   *
+   * Complexity: O(1)
+   *
+   * @param pending The user whose password (or OAuth) check already passed
+   * @param verified Whether the presented second factor was valid
+   * @param now Reference time
+   * @returns AuthResult with session or error
+   */
+  completeSecondFactor(
+    pending: { userId: string; email: string; rememberMe: boolean; ipAddress?: string },
+    verified: boolean,
+    now: Date = new Date()
+  ): AuthResult {
+    const key = `mfa:${pending.userId}`;
+
+    if (isRateLimited(key, now)) {
+      return {
+        success: false,
+        error: "account_locked",
+        errorMessage: "Too many incorrect codes. Please try again later.",
+        lockedUntil: getLockoutExpiry(key)?.toISOString(),
+      };
+    }
+
+    if (!verified) {
+      const state = recordFailedAttempt(key, MAX_OTP_ATTEMPTS, OTP_LOCKOUT_MS);
+      const remaining = Math.max(0, MAX_OTP_ATTEMPTS - state.attempts);
+      return {
+        success: false,
+        error: "mfa_invalid",
+        errorMessage: "That code didn't work. Please try again.",
+        attemptsRemaining: remaining > 0 ? remaining : undefined,
+        lockedUntil: state.lockedUntil?.toISOString(),
+      };
+    }
+
+    clearRateLimit(key);
+    const session = this.issueSession(pending.userId, pending.email, pending.rememberMe, pending.ipAddress);
+    return { success: true, session };
+  }
+
   /**
    * Registers a new user with email and password.
    * Validates credentials, checks for duplicates, and issues a session on success.
@@ -1447,6 +1537,23 @@ export class AuthEngine {
     };
   }
 
+  /**
+   * "mfa_required" result when the user has second factors and none was
+   * verified for this attempt; null when sign-in may proceed.
+   * @internal
+   */
+  private requireSecondFactor(secondFactor?: SecondFactorState): AuthResult | null {
+    if (!secondFactor || secondFactor.verified || secondFactor.methods.length === 0) {
+      return null;
+    }
+    return {
+      success: false,
+      error: "mfa_required",
+      errorMessage: "Enter a code from your authenticator app or use your passkey to finish signing in.",
+      mfaMethods: secondFactor.methods,
+    };
+  }
+
   /**
    * Mock hash function for demonstration only.
    * MUST be replaced with bcrypt/argon2 in production.
@@ -5,6 +5,7 @@
  *   - AuthEngine (core validation logic)
  *   - Persistence (database operations)
  *   - Session management (cookies, tokens)
+ *   - Multi-factor authentication (TOTP, passkeys, recovery codes)
  *   - Audit logging
  *   - Email/SMS providers
  *
@@ -25,6 +26,16 @@ import {
   createEmailVerificationToken,
   verifyEmailVerificationToken,
 } from "./email-verification";
+import {
+  clearPendingLoginChallenge,
+  getPendingLoginChallenge,
+  setPendingLoginChallenge,
+  startMfaChallenge,
+  verifyMfaChallenge,
+  type SecondFactorInput,
+} from "./mfa-service";
+import type { AuthenticationOptionsJSON } from "./webauthn";
+import type { MfaMethod } from "@/lib";
 
 // ─── Password Hashing ─────────────────────────────────────────────────────────
 
@@ -145,11 +156,18 @@ export interface LoginResult {
   errorMessage?: string;
   attemptsRemaining?: number;
   lockedUntil?: string;
+  /** Set with error "mfa_required": pass back to completeMfaLogin */
+  mfaToken?: string;
+  mfaMethods?: MfaMethod[];
+  /** Passkey assertion options, when the user has passkeys */
+  webauthnOptions?: AuthenticationOptionsJSON;
 }
 
 /**
  * Authenticate user with email and password.
- * On success, creates session and sets cookies.
+ * On success, creates session and sets cookies – unless the user has a
+ * second factor, in which case no session is created yet: the result is
+ * error "mfa_required" with a challenge token for completeMfaLogin.
  */
 export async function login(params: LoginParams): Promise<LoginResult> {
   try {
@@ -236,17 +254,21 @@ export async function login(params: LoginParams): Promise<LoginResult> {
     await clearRateLimit(ipKey);
     await clearRateLimit(emailKey);
     
-    // Create session
-    await createSession(user.id, user.email, rememberMe);
-    
-    // Update last login
-    await db.users.update(user.id, {
-      lastLoginAt: new Date().toISOString(),
-      lastLoginIp: ctx.ip,
-    });
+    // Second factor – no session until it is verified
+    const mfaChallenge = await startMfaChallenge(user.id, "login", rememberMe);
+    if (mfaChallenge) {
+      await setPendingLoginChallenge(mfaChallenge.challengeId);
+      return {
+        success: false,
+        error: "mfa_required",
+        errorMessage: "Enter a code from your authenticator app or use your passkey to finish signing in.",
+        mfaToken: mfaChallenge.challengeId,
+        mfaMethods: mfaChallenge.methods,
+        webauthnOptions: mfaChallenge.webauthnOptions,
+      };
+    }
     
-    // Audit log
-    await (await getAudit()).loginSuccess(ctx, normalizedEmail);
+    await finishLogin(user.id, user.email, rememberMe, ctx);
     
     return { success: true };
   } catch (error) {
@@ -259,6 +281,83 @@ export async function login(params: LoginParams): Promise<LoginResult> {
   }
 }
 
+/** Creates the session and records the login once every factor has passed. */
+async function finishLogin(
+  userId: string,
+  email: string,
+  rememberMe: boolean,
+  ctx: { ip: string; userAgent: string }
+): Promise<void> {
+  // Create session
+  await createSession(userId, email, rememberMe);
+  
+  // Update last login
+  await db.users.update(userId, {
+    lastLoginAt: new Date().toISOString(),
+    lastLoginIp: ctx.ip,
+  });
+  
+  // Audit log
+  await (await getAudit()).loginSuccess({ ...ctx, userId }, email);
+}
+
+// ─── Second Factor ────────────────────────────────────────────────────────────
+
+export interface CompleteMfaLoginParams extends SecondFactorInput {
+  /** Challenge token from login(); defaults to the pending-login cookie */
+  mfaToken?: string;
+}
+
+/**
+ * Finish a login that returned "mfa_required" with a TOTP code, passkey
+ * assertion or recovery code.  On success, creates session and sets cookies.
+ */
+export async function completeMfaLogin(params: CompleteMfaLoginParams): Promise<LoginResult> {
+  try {
+    const ctx = await getRequestContext();
+    const mfaToken = params.mfaToken ?? (await getPendingLoginChallenge());
+    if (!mfaToken) {
+      return {
+        success: false,
+        error: "challenge_invalid",
+        errorMessage: "This sign-in attempt is no longer valid. Please start again.",
+      };
+    }
+
+    const result = await verifyMfaChallenge(mfaToken, "login", params);
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error,
+        errorMessage: result.errorMessage,
+        attemptsRemaining: result.attemptsRemaining,
+        lockedUntil: result.lockedUntil,
+      };
+    }
+
+    const user = await db.users.findById(result.challenge.userId);
+    if (!user || user.isDisabled) {
+      return {
+        success: false,
+        error: "account_disabled",
+        errorMessage: "This account has been disabled. Please contact support.",
+      };
+    }
+
+    await clearPendingLoginChallenge();
+    await finishLogin(user.id, user.email, result.challenge.rememberMe, ctx);
+
+    return { success: true };
+  } catch (error) {
+    console.error("[Auth] MFA login failed due to backend dependency error", error);
+    return {
+      success: false,
+      error: "service_unavailable",
+      errorMessage: "We’re having trouble connecting right now. Please try again in a moment.",
+    };
+  }
+}
+
 // ─── Registration ─────────────────────────────────────────────────────────────
 
 export interface RegisterParams {
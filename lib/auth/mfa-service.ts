@@ -0,0 +1,620 @@
+/**
+ * KidSchedule – Multi-Factor Authentication Service
+ *
+ * Persistence-backed MFA flows:
+ *   - Enrollment: TOTP authenticator apps (confirmed by a first code) and
+ *     WebAuthn passkeys, plus single-use recovery codes
+ *   - Challenges: the pending state between a password check (or a
+ *     step-up prompt) and the second-factor check
+ *   - Step-up: a short-lived, session-bound cookie that sensitive actions
+ *     (export share links, vault deletes, MFA changes) require when the
+ *     user has MFA enabled
+ *
+ * Enroll, remove and failure events are written to the audit log.
+ */
+
+import { cookies } from "next/headers";
+import { db } from "../persistence";
+import type { DbMfaChallenge, DbMfaChallengePurpose, DbMfaFactor } from "../persistence/types";
+import type { MfaMethod } from "@/lib";
+import { getRequestContext } from "../security/csrf";
+import {
+  buildOtpauthUri,
+  createStepUpToken,
+  decryptMfaSecret,
+  encryptMfaSecret,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyStepUpToken,
+  verifyTotpCode,
+} from "./mfa";
+import {
+  buildAuthenticationOptions,
+  buildRegistrationOptions,
+  generateWebAuthnChallenge,
+  getRelyingParty,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationCredentialJSON,
+  type AuthenticationOptionsJSON,
+  type RegistrationCredentialJSON,
+  type RegistrationOptionsJSON,
+} from "./webauthn";
+
+// Dynamic import for audit to avoid circular dependency
+const getAudit = () => import("../auth").then((m) => m.audit);
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+
+const MFA_CHALLENGE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const MAX_CHALLENGE_ATTEMPTS = 5;
+const STEP_UP_TTL_SECONDS = Number(process.env.MFA_STEP_UP_TTL_SECONDS ?? 10 * 60);
+
+const _isProd = process.env.NODE_ENV === "production";
+/** Failed codes per user across challenges, so re-logging in does not reset the count */
+const MFA_RATE_LIMIT = {
+  max: Number(process.env.MFA_RATE_LIMIT_MAX ?? (_isProd ? 10 : 1_000_000)),
+  windowMs: Number(process.env.MFA_RATE_LIMIT_WINDOW_MS ?? 15 * 60 * 1000),
+  lockoutMs: Number(process.env.MFA_LOCKOUT_MS ?? 15 * 60 * 1000),
+};
+
+const MFA_CHALLENGE_COOKIE = "mfa_challenge";
+const STEP_UP_COOKIE = "mfa_step_up";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface MfaFactorSummary {
+  id: string;
+  type: DbMfaFactor["type"];
+  label: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  factors: MfaFactorSummary[];
+  recoveryCodesRemaining: number;
+}
+
+/** One of these satisfies a challenge */
+export interface SecondFactorInput {
+  code?: string;
+  recoveryCode?: string;
+  credential?: AuthenticationCredentialJSON;
+}
+
+export interface MfaChallengeStart {
+  challengeId: string;
+  methods: MfaMethod[];
+  expiresAt: string;
+  /** Present when the user has passkeys */
+  webauthnOptions?: AuthenticationOptionsJSON;
+}
+
+export type MfaVerifyResult =
+  | { success: true; challenge: DbMfaChallenge; method: MfaMethod }
+  | {
+      success: false;
+      error: "challenge_invalid" | "challenge_expired" | "too_many_attempts" | "mfa_invalid";
+      errorMessage: string;
+      attemptsRemaining?: number;
+      lockedUntil?: string;
+    };
+
+export type MfaEnrollmentResult =
+  | { success: true; factor: MfaFactorSummary; recoveryCodes?: string[] }
+  | { success: false; error: string; errorMessage: string };
+
+function summarize(factor: DbMfaFactor): MfaFactorSummary {
+  return {
+    id: factor.id,
+    type: factor.type,
+    label: factor.label,
+    createdAt: factor.createdAt,
+    lastUsedAt: factor.lastUsedAt,
+  };
+}
+
+function methodsFor(factors: DbMfaFactor[]): MfaMethod[] {
+  const methods: MfaMethod[] = [];
+  if (factors.some((f) => f.type === "totp")) methods.push("totp");
+  if (factors.some((f) => f.type === "webauthn")) methods.push("webauthn");
+  methods.push("recovery_code");
+  return methods;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0;
+}
+
+function isAuthenticationCredential(value: unknown): value is AuthenticationCredentialJSON {
+  if (!value || typeof value !== "object") return false;
+  const credential = value as Partial<AuthenticationCredentialJSON>;
+  const response = credential.response as Partial<AuthenticationCredentialJSON["response"]> | undefined;
+  return (
+    isNonEmptyString(credential.id) &&
+    isNonEmptyString(credential.rawId) &&
+    credential.type === "public-key" &&
+    !!response &&
+    isNonEmptyString(response.clientDataJSON) &&
+    isNonEmptyString(response.authenticatorData) &&
+    isNonEmptyString(response.signature)
+  );
+}
+
+/**
+ * Picks exactly one second factor out of an untrusted request body.
+ * Returns null when none (or a malformed one) was supplied.
+ */
+export function parseSecondFactorInput(body: {
+  code?: unknown;
+  recoveryCode?: unknown;
+  credential?: unknown;
+}): SecondFactorInput | null {
+  if (isNonEmptyString(body.code)) {
+    return { code: body.code.slice(0, 16) };
+  }
+  if (isNonEmptyString(body.recoveryCode)) {
+    return { recoveryCode: body.recoveryCode.slice(0, 32) };
+  }
+  if (isAuthenticationCredential(body.credential)) {
+    return { credential: body.credential };
+  }
+  return null;
+}
+
+async function auditContext(userId: string) {
+  const ctx = await getRequestContext();
+  return { userId, ip: ctx.ip, userAgent: ctx.userAgent };
+}
+
+// ─── Status ───────────────────────────────────────────────────────────────────
+
+export async function getMfaStatus(userId: string): Promise<MfaStatus> {
+  const factors = await db.mfaFactors.findConfirmedByUserId(userId);
+  return {
+    enabled: factors.length > 0,
+    factors: factors.map(summarize),
+    recoveryCodesRemaining: factors.length > 0 ? await db.mfaRecoveryCodes.countUnusedByUserId(userId) : 0,
+  };
+}
+
+// ─── Recovery Codes ───────────────────────────────────────────────────────────
+
+async function replaceRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+  await db.mfaRecoveryCodes.replaceForUser(userId, codes.map(hashRecoveryCode));
+  return codes;
+}
+
+/** First factor enrolled: hand out recovery codes once, alongside it */
+async function issueRecoveryCodesIfMissing(userId: string): Promise<string[] | undefined> {
+  const remaining = await db.mfaRecoveryCodes.countUnusedByUserId(userId);
+  return remaining > 0 ? undefined : replaceRecoveryCodes(userId);
+}
+
+/**
+ * Replaces the user's recovery codes with a fresh set.  Returns null when
+ * the user has no second factor to recover.
+ */
+export async function regenerateRecoveryCodes(userId: string): Promise<string[] | null> {
+  const factors = await db.mfaFactors.findConfirmedByUserId(userId);
+  if (factors.length === 0) {
+    return null;
+  }
+  const codes = await replaceRecoveryCodes(userId);
+  await (await getAudit()).mfaRecoveryCodesRegenerate(await auditContext(userId));
+  return codes;
+}
+
+// ─── TOTP Enrollment ──────────────────────────────────────────────────────────
+
+/**
+ * Starts an authenticator-app enrollment.  The factor stays unconfirmed –
+ * and cannot satisfy a challenge – until confirmTotpEnrollment sees a
+ * valid code, so a mistyped secret never locks the user out.
+ */
+export async function startTotpEnrollment(
+  userId: string,
+  accountName: string,
+  label = "Authenticator app"
+): Promise<{ factorId: string; secret: string; otpauthUri: string }> {
+  // Abandoned enrollments would otherwise pile up
+  await db.mfaFactors.deleteUnconfirmed(userId);
+
+  const secret = generateTotpSecret();
+  const factor = await db.mfaFactors.create({
+    userId,
+    type: "totp",
+    label: label.trim() || "Authenticator app",
+    totpSecretEncrypted: encryptMfaSecret(secret),
+    signCount: 0,
+    transports: [],
+  });
+
+  return { factorId: factor.id, secret, otpauthUri: buildOtpauthUri(secret, accountName) };
+}
+
+export async function confirmTotpEnrollment(
+  userId: string,
+  factorId: string,
+  code: string
+): Promise<MfaEnrollmentResult> {
+  const factor = await db.mfaFactors.findById(factorId);
+  if (!factor || factor.userId !== userId || factor.type !== "totp" || !factor.totpSecretEncrypted) {
+    return { success: false, error: "not_found", errorMessage: "Enrollment not found. Please start again." };
+  }
+  if (factor.confirmedAt) {
+    return { success: false, error: "already_confirmed", errorMessage: "This authenticator is already set up." };
+  }
+
+  const step = verifyTotpCode(decryptMfaSecret(factor.totpSecretEncrypted), code);
+  if (step === null || !(await db.mfaFactors.recordTotpUse(factor.id, step))) {
+    return {
+      success: false,
+      error: "invalid_code",
+      errorMessage: "That code didn't match. Check your device's clock and try the next code.",
+    };
+  }
+
+  const confirmed = (await db.mfaFactors.confirm(factor.id)) ?? factor;
+  const recoveryCodes = await issueRecoveryCodesIfMissing(userId);
+  await (await getAudit()).mfaEnroll(await auditContext(userId), "totp", factor.id);
+
+  return { success: true, factor: summarize(confirmed), recoveryCodes };
+}
+
+// ─── Passkey Registration ─────────────────────────────────────────────────────
+
+export async function startPasskeyRegistration(
+  userId: string,
+  userName: string,
+  displayName: string
+): Promise<{ challengeId: string; options: RegistrationOptionsJSON }> {
+  const challenge = generateWebAuthnChallenge();
+  const row = await db.mfaChallenges.create({
+    userId,
+    purpose: "webauthn_register",
+    challenge,
+    rememberMe: false,
+    expiresAt: new Date(Date.now() + MFA_CHALLENGE_TTL_MS).toISOString(),
+  });
+
+  const existing = await db.mfaFactors.findByUserId(userId);
+  const options = buildRegistrationOptions({
+    rp: getRelyingParty(),
+    challenge,
+    userId,
+    userName,
+    displayName,
+    excludeCredentials: existing
+      .filter((f) => f.type === "webauthn" && f.credentialId)
+      .map((f) => ({ id: f.credentialId!, transports: f.transports })),
+  });
+
+  return { challengeId: row.id, options };
+}
+
+export async function finishPasskeyRegistration(
+  userId: string,
+  challengeId: string,
+  credential: RegistrationCredentialJSON,
+  label = "Passkey"
+): Promise<MfaEnrollmentResult> {
+  const challenge = await db.mfaChallenges.findById(challengeId);
+  if (
+    !challenge ||
+    challenge.userId !== userId ||
+    challenge.purpose !== "webauthn_register" ||
+    !challenge.challenge ||
+    challenge.consumedAt ||
+    new Date(challenge.expiresAt) < new Date()
+  ) {
+    return { success: false, error: "challenge_invalid", errorMessage: "Passkey setup expired. Please try again." };
+  }
+  // Single use, whether or not verification succeeds
+  if (!(await db.mfaChallenges.consume(challenge.id))) {
+    return { success: false, error: "challenge_invalid", errorMessage: "Passkey setup expired. Please try again." };
+  }
+
+  const verification = verifyRegistrationResponse({
+    credential,
+    expectedChallenge: challenge.challenge,
+    rp: getRelyingParty(),
+  });
+  if (!verification.success) {
+    await (await getAudit()).mfaChallengeFailed(await auditContext(userId), "webauthn_register", verification.error);
+    return { success: false, error: "invalid_credential", errorMessage: "We couldn't verify that passkey." };
+  }
+
+  if (await db.mfaFactors.findByCredentialId(verification.credentialId)) {
+    return { success: false, error: "already_registered", errorMessage: "This passkey is already registered." };
+  }
+
+  const factor = await db.mfaFactors.create({
+    userId,
+    type: "webauthn",
+    label: label.trim() || "Passkey",
+    credentialId: verification.credentialId,
+    publicKey: verification.publicKey,
+    signCount: verification.signCount,
+    transports: verification.transports,
+    confirmedAt: new Date().toISOString(),
+  });
+  const recoveryCodes = await issueRecoveryCodesIfMissing(userId);
+  await (await getAudit()).mfaEnroll(await auditContext(userId), "webauthn", factor.id);
+
+  return { success: true, factor: summarize(factor), recoveryCodes };
+}
+
+// ─── Removal ──────────────────────────────────────────────────────────────────
+
+/**
+ * Removes one of the user's factors.  Removing the last one turns MFA off,
+ * so the now-useless recovery codes go with it.
+ */
+export async function removeMfaFactor(userId: string, factorId: string): Promise<boolean> {
+  const factor = await db.mfaFactors.findById(factorId);
+  if (!factor || factor.userId !== userId) {
+    return false;
+  }
+  if (!(await db.mfaFactors.delete(factor.id, userId))) {
+    return false;
+  }
+
+  const remaining = await db.mfaFactors.findConfirmedByUserId(userId);
+  if (remaining.length === 0) {
+    await db.mfaRecoveryCodes.deleteByUserId(userId);
+  }
+  await (await getAudit()).mfaRemove(await auditContext(userId), factor.type, factor.id);
+  return true;
+}
+
+// ─── Challenges ───────────────────────────────────────────────────────────────
+
+/**
+ * Opens a second-factor challenge for a login or step-up.  Returns null
+ * when the user has no confirmed factors (nothing to challenge).
+ */
+export async function startMfaChallenge(
+  userId: string,
+  purpose: Exclude<DbMfaChallengePurpose, "webauthn_register">,
+  rememberMe = false
+): Promise<MfaChallengeStart | null> {
+  const factors = await db.mfaFactors.findConfirmedByUserId(userId);
+  if (factors.length === 0) {
+    return null;
+  }
+
+  const hasPasskeys = factors.some((f) => f.type === "webauthn" && f.credentialId);
+  const challenge = await db.mfaChallenges.create({
+    userId,
+    purpose,
+    challenge: hasPasskeys ? generateWebAuthnChallenge() : undefined,
+    rememberMe,
+    expiresAt: new Date(Date.now() + MFA_CHALLENGE_TTL_MS).toISOString(),
+  });
+
+  return describeChallenge(challenge, factors);
+}
+
+function describeChallenge(challenge: DbMfaChallenge, factors: DbMfaFactor[]): MfaChallengeStart {
+  const passkeys = factors.filter((f) => f.type === "webauthn" && f.credentialId);
+  return {
+    challengeId: challenge.id,
+    methods: methodsFor(factors),
+    expiresAt: challenge.expiresAt,
+    webauthnOptions:
+      challenge.challenge && passkeys.length > 0
+        ? buildAuthenticationOptions({
+            rp: getRelyingParty(),
+            challenge: challenge.challenge,
+            allowCredentials: passkeys.map((f) => ({ id: f.credentialId!, transports: f.transports })),
+          })
+        : undefined,
+  };
+}
+
+/**
+ * Re-describes an open login challenge, e.g. when the second-factor form
+ * is rendered after a redirect.  Null once it is consumed or expired.
+ */
+export async function getLoginChallenge(challengeId: string): Promise<MfaChallengeStart | null> {
+  const challenge = await db.mfaChallenges.findById(challengeId);
+  if (
+    !challenge ||
+    challenge.purpose !== "login" ||
+    challenge.consumedAt ||
+    new Date(challenge.expiresAt) < new Date()
+  ) {
+    return null;
+  }
+  const factors = await db.mfaFactors.findConfirmedByUserId(challenge.userId);
+  return factors.length > 0 ? describeChallenge(challenge, factors) : null;
+}
+
+async function checkSecondFactor(
+  challenge: DbMfaChallenge,
+  factors: DbMfaFactor[],
+  input: SecondFactorInput
+): Promise<MfaMethod | null> {
+  if (input.code) {
+    for (const factor of factors) {
+      if (factor.type !== "totp" || !factor.totpSecretEncrypted) continue;
+      const step = verifyTotpCode(
+        decryptMfaSecret(factor.totpSecretEncrypted),
+        input.code,
+        new Date(),
+        factor.totpLastUsedStep
+      );
+      if (step !== null && (await db.mfaFactors.recordTotpUse(factor.id, step))) {
+        return "totp";
+      }
+    }
+    return null;
+  }
+
+  if (input.credential) {
+    const factor = factors.find((f) => f.type === "webauthn" && f.credentialId === input.credential!.rawId);
+    if (!factor?.publicKey || !challenge.challenge) {
+      return null;
+    }
+    const verification = verifyAuthenticationResponse({
+      credential: input.credential,
+      expectedChallenge: challenge.challenge,
+      rp: getRelyingParty(),
+      publicKey: factor.publicKey,
+      storedSignCount: factor.signCount,
+    });
+    if (!verification.success) {
+      return null;
+    }
+    await db.mfaFactors.recordWebAuthnUse(factor.id, verification.signCount);
+    return "webauthn";
+  }
+
+  if (input.recoveryCode) {
+    if (!(await db.mfaRecoveryCodes.consume(challenge.userId, hashRecoveryCode(input.recoveryCode)))) {
+      return null;
+    }
+    const remaining = await db.mfaRecoveryCodes.countUnusedByUserId(challenge.userId);
+    await (await getAudit()).mfaRecoveryCodeUsed(await auditContext(challenge.userId), remaining);
+    return "recovery_code";
+  }
+
+  return null;
+}
+
+/**
+ * Checks a TOTP code, passkey assertion or recovery code against an open
+ * challenge and consumes it on success.  Failures count against both the
+ * challenge and the user.
+ */
+export async function verifyMfaChallenge(
+  challengeId: string,
+  purpose: Exclude<DbMfaChallengePurpose, "webauthn_register">,
+  input: SecondFactorInput,
+  expectedUserId?: string
+): Promise<MfaVerifyResult> {
+  const challenge = await db.mfaChallenges.findById(challengeId);
+  if (
+    !challenge ||
+    challenge.purpose !== purpose ||
+    challenge.consumedAt ||
+    (expectedUserId !== undefined && challenge.userId !== expectedUserId)
+  ) {
+    return { success: false, error: "challenge_invalid", errorMessage: "This sign-in attempt is no longer valid. Please start again." };
+  }
+  if (new Date(challenge.expiresAt) < new Date()) {
+    return { success: false, error: "challenge_expired", errorMessage: "This sign-in attempt expired. Please start again." };
+  }
+
+  const rateLimitKey = `mfa:${challenge.userId}`;
+  const limit = await db.rateLimits.get(rateLimitKey);
+  if (challenge.attemptCount >= MAX_CHALLENGE_ATTEMPTS || (limit?.lockedUntil && new Date(limit.lockedUntil) > new Date())) {
+    return {
+      success: false,
+      error: "too_many_attempts",
+      errorMessage: "Too many incorrect codes. Please try again later.",
+      attemptsRemaining: 0,
+      lockedUntil: limit?.lockedUntil,
+    };
+  }
+
+  const factors = await db.mfaFactors.findConfirmedByUserId(challenge.userId);
+  const method = factors.length > 0 ? await checkSecondFactor(challenge, factors, input) : null;
+
+  if (!method) {
+    const updated = await db.mfaChallenges.incrementAttempts(challenge.id);
+    const userState = await db.rateLimits.increment(rateLimitKey, MFA_RATE_LIMIT.windowMs);
+    if (userState.count >= MFA_RATE_LIMIT.max) {
+      await db.rateLimits.setLockout(rateLimitKey, new Date(Date.now() + MFA_RATE_LIMIT.lockoutMs).toISOString());
+    }
+    await (await getAudit()).mfaChallengeFailed(await auditContext(challenge.userId), purpose, "invalid_factor");
+
+    const attemptsRemaining = Math.max(0, MAX_CHALLENGE_ATTEMPTS - (updated?.attemptCount ?? MAX_CHALLENGE_ATTEMPTS));
+    return {
+      success: false,
+      error: "mfa_invalid",
+      errorMessage: "That code didn't work. Please try again.",
+      attemptsRemaining,
+    };
+  }
+
+  if (!(await db.mfaChallenges.consume(challenge.id))) {
+    return { success: false, error: "challenge_invalid", errorMessage: "This sign-in attempt is no longer valid. Please start again." };
+  }
+  await db.rateLimits.clear(rateLimitKey);
+
+  return { success: true, challenge, method };
+}
+
+// ─── Pending Login Cookie ─────────────────────────────────────────────────────
+
+/**
+ * Remembers the login challenge between the password form and the second
+ * factor form, so the challenge id never appears in a URL.
+ */
+export async function setPendingLoginChallenge(challengeId: string): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.set(MFA_CHALLENGE_COOKIE, challengeId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    maxAge: MFA_CHALLENGE_TTL_MS / 1000,
+    path: "/",
+  });
+}
+
+export async function getPendingLoginChallenge(): Promise<string | undefined> {
+  return (await cookies()).get(MFA_CHALLENGE_COOKIE)?.value;
+}
+
+export async function clearPendingLoginChallenge(): Promise<void> {
+  (await cookies()).delete(MFA_CHALLENGE_COOKIE);
+}
+
+// ─── Step-Up ──────────────────────────────────────────────────────────────────
+
+/**
+ * Whether the session may perform a sensitive action: true when the user
+ * has no second factor enrolled, or passed one within the step-up window.
+ */
+export async function isStepUpSatisfied(user: { userId: string; sessionId: string }): Promise<boolean> {
+  const factors = await db.mfaFactors.findConfirmedByUserId(user.userId);
+  if (factors.length === 0) {
+    return true;
+  }
+  const token = (await cookies()).get(STEP_UP_COOKIE)?.value;
+  return verifyStepUpToken(token, user.userId, user.sessionId);
+}
+
+/**
+ * Completes a step-up challenge and, on success, marks the session as
+ * recently verified for STEP_UP_TTL_SECONDS.
+ */
+export async function completeStepUp(
+  user: { userId: string; sessionId: string },
+  challengeId: string,
+  input: SecondFactorInput
+): Promise<MfaVerifyResult> {
+  const result = await verifyMfaChallenge(challengeId, "step_up", input, user.userId);
+  if (!result.success) {
+    return result;
+  }
+
+  const expiresAt = new Date(Date.now() + STEP_UP_TTL_SECONDS * 1000);
+  const cookieStore = await cookies();
+  cookieStore.set(STEP_UP_COOKIE, createStepUpToken(user.userId, user.sessionId, expiresAt), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    maxAge: STEP_UP_TTL_SECONDS,
+    path: "/",
+  });
+  await (await getAudit()).mfaStepUp(await auditContext(user.userId), result.method);
+
+  return result;
+}
@@ -0,0 +1,239 @@
+/**
+ * KidSchedule – Multi-Factor Authentication Helpers
+ *
+ * TOTP (RFC 6238) codes for authenticator apps, single-use recovery codes,
+ * at-rest encryption of TOTP secrets, and the HMAC-signed step-up token
+ * that proves a session passed a second-factor check recently.
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  randomBytes,
+  timingSafeEqual,
+} from "node:crypto";
+
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+/** Accept the previous and next step to absorb clock drift */
+const TOTP_DRIFT_STEPS = 1;
+const TOTP_SECRET_BYTES = 20;
+
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_LENGTH = 10;
+/** No 0/O, 1/I/L – codes are read off paper */
+const RECOVERY_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const ISSUER = "KidSchedule";
+
+function getMfaSecret(): string {
+  const secret = process.env.MFA_SECRET ?? process.env.AUTH_JWT_SECRET;
+  if (!secret) {
+    throw new Error("MFA_SECRET (or AUTH_JWT_SECRET) is required");
+  }
+  return secret;
+}
+
+/** Independent keys for encryption and signing, both derived from MFA_SECRET */
+function deriveKey(purpose: "totp-secret" | "step-up"): Buffer {
+  return createHmac("sha256", getMfaSecret()).update(`kidschedule-mfa:${purpose}`).digest();
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a, "utf8");
+  const right = Buffer.from(b, "utf8");
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+// ─── Base32 ───────────────────────────────────────────────────────────────────
+
+export function base32Encode(data: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of data) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const normalized = input.toUpperCase().replace(/[\s=-]/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of normalized) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Invalid base32 character");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// ─── TOTP ─────────────────────────────────────────────────────────────────────
+
+/** New random TOTP secret, base32-encoded for authenticator apps. */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(TOTP_SECRET_BYTES));
+}
+
+/** The 30-second step containing `now`. */
+export function totpStep(now: Date = new Date()): number {
+  return Math.floor(now.getTime() / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/** HOTP (RFC 4226) value for a counter, zero-padded to `digits`. */
+export function generateHotp(secret: Buffer, counter: number, digits: number = TOTP_DIGITS): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = createHmac("sha1", secret).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** digits).padStart(digits, "0");
+}
+
+/** Current TOTP code for a base32 secret. */
+export function generateTotpCode(secret: string, now: Date = new Date()): string {
+  return generateHotp(base32Decode(secret), totpStep(now));
+}
+
+/**
+ * Checks a TOTP code against the current step ±1.  Returns the matching
+ * step so the caller can refuse to accept it twice, or null when the code
+ * is wrong or not newer than `lastUsedStep`.
+ */
+export function verifyTotpCode(
+  secret: string,
+  code: string,
+  now: Date = new Date(),
+  lastUsedStep?: number
+): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const current = totpStep(now);
+  let matched: number | null = null;
+  // Check every candidate so timing does not reveal which step matched
+  for (let step = current - TOTP_DRIFT_STEPS; step <= current + TOTP_DRIFT_STEPS; step++) {
+    if (safeEqual(generateHotp(key, step), normalized) && matched === null) {
+      matched = step;
+    }
+  }
+
+  if (matched === null || (lastUsedStep !== undefined && matched <= lastUsedStep)) {
+    return null;
+  }
+  return matched;
+}
+
+/** otpauth:// URI for authenticator apps (usually rendered as a QR code). */
+export function buildOtpauthUri(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// ─── Secret Encryption ────────────────────────────────────────────────────────
+
+/** AES-256-GCM encrypts a TOTP secret for storage: `v1.<iv>.<tag>.<ciphertext>`. */
+export function encryptMfaSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", deriveKey("totp-secret"), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return ["v1", iv, cipher.getAuthTag(), ciphertext].map((part) =>
+    typeof part === "string" ? part : part.toString("base64url")
+  ).join(".");
+}
+
+export function decryptMfaSecret(encrypted: string): string {
+  const [version, iv, tag, ciphertext] = encrypted.split(".");
+  if (version !== "v1" || !iv || !tag || ciphertext === undefined) {
+    throw new Error("Unrecognised MFA secret format");
+  }
+  const decipher = createDecipheriv("aes-256-gcm", deriveKey("totp-secret"), Buffer.from(iv, "base64url"));
+  decipher.setAuthTag(Buffer.from(tag, "base64url"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64url")),
+    decipher.final(),
+  ]).toString("utf8");
+}
+
+// ─── Recovery Codes ───────────────────────────────────────────────────────────
+
+/** Fresh recovery codes, formatted `xxxxx-xxxxx`.  Only hashes are stored. */
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const bytes = randomBytes(RECOVERY_CODE_LENGTH);
+    const chars = Array.from(bytes, (b) => RECOVERY_CODE_ALPHABET[b % RECOVERY_CODE_ALPHABET.length]);
+    const half = RECOVERY_CODE_LENGTH / 2;
+    return `${chars.slice(0, half).join("")}-${chars.slice(half).join("")}`;
+  });
+}
+
+/** Case- and separator-insensitive, so "ABCDE FGHJK" matches "abcde-fghjk". */
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, "");
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+// ─── Step-Up Tokens ───────────────────────────────────────────────────────────
+
+function signStepUp(userId: string, sessionId: string, expires: number): string {
+  return createHmac("sha256", deriveKey("step-up"))
+    .update(`${userId}:${sessionId}:${expires}`)
+    .digest("base64url");
+}
+
+/**
+ * Token proving the session passed a second-factor check, bound to the
+ * user and session so it cannot be carried to another login.
+ */
+export function createStepUpToken(userId: string, sessionId: string, expiresAt: Date): string {
+  const expires = Math.floor(expiresAt.getTime() / 1000);
+  return `${expires}.${signStepUp(userId, sessionId, expires)}`;
+}
+
+export function verifyStepUpToken(
+  token: string | null | undefined,
+  userId: string,
+  sessionId: string,
+  now: Date = new Date()
+): boolean {
+  if (!token) return false;
+  const [expiresRaw, signature, ...rest] = token.split(".");
+  const expires = Number(expiresRaw);
+  if (rest.length > 0 || !signature || !Number.isInteger(expires)) {
+    return false;
+  }
+  if (expires < Math.floor(now.getTime() / 1000)) {
+    return false;
+  }
+  return safeEqual(signature, signStepUp(userId, sessionId, expires));
+}
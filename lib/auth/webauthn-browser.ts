@@ -0,0 +1,104 @@
+/**
+ * KidSchedule – WebAuthn Browser Helpers
+ *
+ * Client-side counterpart of lib/auth/webauthn.ts: turns the JSON options
+ * the server sends into the ArrayBuffer-based structures that
+ * navigator.credentials expects, and serializes the resulting credentials
+ * back to base64url JSON for the API.
+ */
+
+import type {
+  AuthenticationCredentialJSON,
+  AuthenticationOptionsJSON,
+  RegistrationCredentialJSON,
+  RegistrationOptionsJSON,
+} from "./webauthn";
+
+export function isWebAuthnSupported(): boolean {
+  return typeof window !== "undefined" && typeof window.PublicKeyCredential === "function";
+}
+
+function base64UrlToBuffer(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+function bufferToBase64Url(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function toDescriptor(credential: { id: string; transports?: string[] }): PublicKeyCredentialDescriptor {
+  return {
+    type: "public-key",
+    id: base64UrlToBuffer(credential.id),
+    transports: credential.transports as AuthenticatorTransport[] | undefined,
+  };
+}
+
+/** Runs navigator.credentials.create() for a server-issued registration. */
+export async function createPasskey(options: RegistrationOptionsJSON): Promise<RegistrationCredentialJSON> {
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      ...options,
+      challenge: base64UrlToBuffer(options.challenge),
+      user: { ...options.user, id: base64UrlToBuffer(options.user.id) },
+      excludeCredentials: options.excludeCredentials.map(toDescriptor),
+    } as PublicKeyCredentialCreationOptions,
+  })) as PublicKeyCredential | null;
+
+  if (!credential) {
+    throw new Error("Passkey creation was cancelled");
+  }
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+  return {
+    id: credential.id,
+    rawId: bufferToBase64Url(credential.rawId),
+    type: credential.type,
+    response: {
+      clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+      attestationObject: bufferToBase64Url(response.attestationObject),
+      transports: typeof response.getTransports === "function" ? response.getTransports() : undefined,
+    },
+  };
+}
+
+/** Runs navigator.credentials.get() for a server-issued challenge. */
+export async function getPasskeyAssertion(
+  options: AuthenticationOptionsJSON
+): Promise<AuthenticationCredentialJSON> {
+  const credential = (await navigator.credentials.get({
+    publicKey: {
+      ...options,
+      challenge: base64UrlToBuffer(options.challenge),
+      allowCredentials: options.allowCredentials.map(toDescriptor),
+    } as PublicKeyCredentialRequestOptions,
+  })) as PublicKeyCredential | null;
+
+  if (!credential) {
+    throw new Error("Passkey sign-in was cancelled");
+  }
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    id: credential.id,
+    rawId: bufferToBase64Url(credential.rawId),
+    type: credential.type,
+    response: {
+      clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+      authenticatorData: bufferToBase64Url(response.authenticatorData),
+      signature: bufferToBase64Url(response.signature),
+      userHandle: response.userHandle ? bufferToBase64Url(response.userHandle) : undefined,
+    },
+  };
+}
@@ -0,0 +1,424 @@
+/**
+ * KidSchedule – WebAuthn (Passkey) Verification
+ *
+ * Server side of the WebAuthn registration and authentication ceremonies,
+ * implemented with node:crypto: option builders for the browser, a minimal
+ * CBOR decoder for attestation objects and COSE keys, and verification of
+ * client data, authenticator data and assertion signatures.
+ *
+ * Registration requests "none" attestation: the authenticator's make and
+ * model are not verified, only that it holds the private key.  Supported
+ * algorithms are ES256, RS256 and EdDSA.
+ */
+
+import { createHash, createPublicKey, randomBytes, verify, type JsonWebKey, type KeyObject } from "node:crypto";
+
+const CHALLENGE_BYTES = 32;
+const CEREMONY_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** COSE algorithm identifiers, in order of preference */
+const COSE_ALG_ES256 = -7;
+const COSE_ALG_EDDSA = -8;
+const COSE_ALG_RS256 = -257;
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface WebAuthnRelyingParty {
+  /** Domain the credentials are scoped to, e.g. "kidschedule.com" */
+  rpId: string;
+  rpName: string;
+  /** Origin(s) the browser may report, e.g. "https://kidschedule.com" */
+  origins: string[];
+}
+
+export interface WebAuthnCredentialDescriptor {
+  id: string;
+  transports?: string[];
+}
+
+/** PublicKeyCredentialCreationOptions with binary fields base64url-encoded */
+export interface RegistrationOptionsJSON {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: Array<{ type: "public-key"; alg: number }>;
+  timeout: number;
+  attestation: "none";
+  excludeCredentials: Array<{ type: "public-key"; id: string; transports?: string[] }>;
+  authenticatorSelection: { residentKey: "preferred"; userVerification: "preferred" };
+}
+
+/** PublicKeyCredentialRequestOptions with binary fields base64url-encoded */
+export interface AuthenticationOptionsJSON {
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  allowCredentials: Array<{ type: "public-key"; id: string; transports?: string[] }>;
+  userVerification: "preferred";
+}
+
+/** Result of navigator.credentials.create(), serialized by the browser */
+export interface RegistrationCredentialJSON {
+  id: string;
+  rawId: string;
+  type: string;
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+/** Result of navigator.credentials.get(), serialized by the browser */
+export interface AuthenticationCredentialJSON {
+  id: string;
+  rawId: string;
+  type: string;
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+export type RegistrationVerification =
+  | {
+      success: true;
+      credentialId: string;
+      /** base64url SPKI (DER) public key */
+      publicKey: string;
+      signCount: number;
+      transports: string[];
+    }
+  | { success: false; error: string };
+
+export type AuthenticationVerification =
+  | { success: true; signCount: number }
+  | { success: false; error: string };
+
+// ─── Relying Party ────────────────────────────────────────────────────────────
+
+/**
+ * Relying party from WEBAUTHN_RP_ID / WEBAUTHN_ORIGIN, defaulting to the
+ * host and origin of APP_URL.
+ */
+export function getRelyingParty(): WebAuthnRelyingParty {
+  const appUrl = new URL(process.env.APP_URL ?? process.env.NEXT_PUBLIC_APP_URL ?? "http://localhost:3000");
+  const origins = (process.env.WEBAUTHN_ORIGIN ?? appUrl.origin)
+    .split(",")
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+  return {
+    rpId: process.env.WEBAUTHN_RP_ID ?? appUrl.hostname,
+    rpName: "KidSchedule",
+    origins,
+  };
+}
+
+export function generateWebAuthnChallenge(): string {
+  return randomBytes(CHALLENGE_BYTES).toString("base64url");
+}
+
+// ─── Options ──────────────────────────────────────────────────────────────────
+
+export function buildRegistrationOptions(params: {
+  rp: WebAuthnRelyingParty;
+  challenge: string;
+  userId: string;
+  userName: string;
+  displayName: string;
+  excludeCredentials: WebAuthnCredentialDescriptor[];
+}): RegistrationOptionsJSON {
+  return {
+    challenge: params.challenge,
+    rp: { id: params.rp.rpId, name: params.rp.rpName },
+    user: {
+      id: Buffer.from(params.userId, "utf8").toString("base64url"),
+      name: params.userName,
+      displayName: params.displayName,
+    },
+    pubKeyCredParams: [COSE_ALG_ES256, COSE_ALG_EDDSA, COSE_ALG_RS256].map((alg) => ({
+      type: "public-key" as const,
+      alg,
+    })),
+    timeout: CEREMONY_TIMEOUT_MS,
+    attestation: "none",
+    excludeCredentials: params.excludeCredentials.map((c) => ({ type: "public-key" as const, ...c })),
+    authenticatorSelection: { residentKey: "preferred", userVerification: "preferred" },
+  };
+}
+
+export function buildAuthenticationOptions(params: {
+  rp: WebAuthnRelyingParty;
+  challenge: string;
+  allowCredentials: WebAuthnCredentialDescriptor[];
+}): AuthenticationOptionsJSON {
+  return {
+    challenge: params.challenge,
+    rpId: params.rp.rpId,
+    timeout: CEREMONY_TIMEOUT_MS,
+    allowCredentials: params.allowCredentials.map((c) => ({ type: "public-key" as const, ...c })),
+    userVerification: "preferred",
+  };
+}
+
+// ─── CBOR ─────────────────────────────────────────────────────────────────────
+
+type CborValue = number | string | boolean | null | Buffer | CborValue[] | Map<CborValue, CborValue>;
+
+/**
+ * Decodes one CBOR item from `data` starting at `offset` and returns it
+ * with the offset just past it.  Covers the definite-length subset used by
+ * attestation objects and COSE keys.
+ */
+export function decodeCbor(data: Buffer, offset = 0): { value: CborValue; offset: number } {
+  if (offset >= data.length) {
+    throw new Error("Unexpected end of CBOR data");
+  }
+  const initial = data[offset];
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+  let position = offset + 1;
+
+  const readLength = (): number => {
+    if (info < 24) return info;
+    const size = { 24: 1, 25: 2, 26: 4, 27: 8 }[info];
+    if (!size || position + size > data.length) {
+      throw new Error("Unsupported CBOR length encoding");
+    }
+    const length = size === 8 ? Number(data.readBigUInt64BE(position)) : data.readUIntBE(position, size);
+    position += size;
+    return length;
+  };
+
+  switch (major) {
+    case 0:
+      return { value: readLength(), offset: position };
+    case 1:
+      return { value: -1 - readLength(), offset: position };
+    case 2:
+    case 3: {
+      const length = readLength();
+      if (position + length > data.length) {
+        throw new Error("Unexpected end of CBOR data");
+      }
+      const bytes = data.subarray(position, position + length);
+      return { value: major === 2 ? Buffer.from(bytes) : bytes.toString("utf8"), offset: position + length };
+    }
+    case 4: {
+      const length = readLength();
+      const items: CborValue[] = [];
+      for (let i = 0; i < length; i++) {
+        const item = decodeCbor(data, position);
+        items.push(item.value);
+        position = item.offset;
+      }
+      return { value: items, offset: position };
+    }
+    case 5: {
+      const length = readLength();
+      const map = new Map<CborValue, CborValue>();
+      for (let i = 0; i < length; i++) {
+        const key = decodeCbor(data, position);
+        const value = decodeCbor(data, key.offset);
+        map.set(key.value, value.value);
+        position = value.offset;
+      }
+      return { value: map, offset: position };
+    }
+    case 7:
+      if (info === 20) return { value: false, offset: position };
+      if (info === 21) return { value: true, offset: position };
+      if (info === 22) return { value: null, offset: position };
+      throw new Error("Unsupported CBOR simple value");
+    default:
+      throw new Error("Unsupported CBOR type");
+  }
+}
+
+// ─── COSE Keys ────────────────────────────────────────────────────────────────
+
+function coseBytes(key: Map<CborValue, CborValue>, label: number): string {
+  const value = key.get(label);
+  if (!Buffer.isBuffer(value)) {
+    throw new Error("Malformed COSE key");
+  }
+  return value.toString("base64url");
+}
+
+/** Converts a COSE_Key (RFC 9053) into a Node KeyObject. */
+function coseToPublicKey(key: Map<CborValue, CborValue>): KeyObject {
+  const kty = key.get(1);
+  const alg = key.get(3);
+  let jwk: JsonWebKey;
+  if (kty === 2 && alg === COSE_ALG_ES256 && key.get(-1) === 1) {
+    jwk = { kty: "EC", crv: "P-256", x: coseBytes(key, -2), y: coseBytes(key, -3) };
+  } else if (kty === 1 && alg === COSE_ALG_EDDSA && key.get(-1) === 6) {
+    jwk = { kty: "OKP", crv: "Ed25519", x: coseBytes(key, -2) };
+  } else if (kty === 3 && alg === COSE_ALG_RS256) {
+    jwk = { kty: "RSA", n: coseBytes(key, -1), e: coseBytes(key, -2) };
+  } else {
+    throw new Error("Unsupported credential algorithm");
+  }
+  return createPublicKey({ key: jwk, format: "jwk" });
+}
+
+// ─── Shared Checks ────────────────────────────────────────────────────────────
+
+interface ParsedAuthenticatorData {
+  rpIdHash: Buffer;
+  flags: number;
+  signCount: number;
+  credentialId?: Buffer;
+  credentialPublicKey?: Map<CborValue, CborValue>;
+}
+
+function parseAuthenticatorData(data: Buffer): ParsedAuthenticatorData {
+  if (data.length < 37) {
+    throw new Error("Authenticator data too short");
+  }
+  const parsed: ParsedAuthenticatorData = {
+    rpIdHash: data.subarray(0, 32),
+    flags: data[32],
+    signCount: data.readUInt32BE(33),
+  };
+  if (parsed.flags & FLAG_ATTESTED_CREDENTIAL_DATA) {
+    // aaguid (16 bytes), credential id length (2), credential id, COSE key
+    const idLength = data.readUInt16BE(53);
+    parsed.credentialId = data.subarray(55, 55 + idLength);
+    const coseKey = decodeCbor(data, 55 + idLength).value;
+    if (!(coseKey instanceof Map)) {
+      throw new Error("Malformed credential public key");
+    }
+    parsed.credentialPublicKey = coseKey;
+  }
+  return parsed;
+}
+
+function checkClientData(
+  clientDataJSON: Buffer,
+  expectedType: "webauthn.create" | "webauthn.get",
+  expectedChallenge: string,
+  rp: WebAuthnRelyingParty
+): string | null {
+  let clientData: { type?: unknown; challenge?: unknown; origin?: unknown };
+  try {
+    clientData = JSON.parse(clientDataJSON.toString("utf8"));
+  } catch {
+    return "invalid_client_data";
+  }
+  if (clientData.type !== expectedType) return "unexpected_type";
+  if (clientData.challenge !== expectedChallenge) return "challenge_mismatch";
+  if (typeof clientData.origin !== "string" || !rp.origins.includes(clientData.origin)) {
+    return "origin_mismatch";
+  }
+  return null;
+}
+
+function checkAuthenticatorFlags(authData: ParsedAuthenticatorData, rp: WebAuthnRelyingParty): string | null {
+  const expectedRpIdHash = createHash("sha256").update(rp.rpId).digest();
+  if (!authData.rpIdHash.equals(expectedRpIdHash)) return "rp_id_mismatch";
+  if (!(authData.flags & FLAG_USER_PRESENT)) return "user_not_present";
+  return null;
+}
+
+// ─── Registration ─────────────────────────────────────────────────────────────
+
+export function verifyRegistrationResponse(params: {
+  credential: RegistrationCredentialJSON;
+  expectedChallenge: string;
+  rp: WebAuthnRelyingParty;
+}): RegistrationVerification {
+  const { credential, expectedChallenge, rp } = params;
+  try {
+    if (credential.type !== "public-key") {
+      return { success: false, error: "unexpected_type" };
+    }
+
+    const clientDataError = checkClientData(
+      Buffer.from(credential.response.clientDataJSON, "base64url"),
+      "webauthn.create",
+      expectedChallenge,
+      rp
+    );
+    if (clientDataError) return { success: false, error: clientDataError };
+
+    const attestation = decodeCbor(Buffer.from(credential.response.attestationObject, "base64url")).value;
+    const authDataBytes = attestation instanceof Map ? attestation.get("authData") : undefined;
+    if (!Buffer.isBuffer(authDataBytes)) {
+      return { success: false, error: "invalid_attestation" };
+    }
+
+    const authData = parseAuthenticatorData(authDataBytes);
+    const flagsError = checkAuthenticatorFlags(authData, rp);
+    if (flagsError) return { success: false, error: flagsError };
+    if (!authData.credentialId || !authData.credentialPublicKey) {
+      return { success: false, error: "missing_credential" };
+    }
+
+    const credentialId = authData.credentialId.toString("base64url");
+    if (credentialId !== credential.rawId) {
+      return { success: false, error: "credential_id_mismatch" };
+    }
+
+    const publicKey = coseToPublicKey(authData.credentialPublicKey);
+    return {
+      success: true,
+      credentialId,
+      publicKey: publicKey.export({ format: "der", type: "spki" }).toString("base64url"),
+      signCount: authData.signCount,
+      transports: (credential.response.transports ?? []).filter((t) => typeof t === "string"),
+    };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "invalid_credential" };
+  }
+}
+
+// ─── Authentication ───────────────────────────────────────────────────────────
+
+export function verifyAuthenticationResponse(params: {
+  credential: AuthenticationCredentialJSON;
+  expectedChallenge: string;
+  rp: WebAuthnRelyingParty;
+  /** Stored base64url SPKI public key */
+  publicKey: string;
+  storedSignCount: number;
+}): AuthenticationVerification {
+  const { credential, expectedChallenge, rp } = params;
+  try {
+    if (credential.type !== "public-key") {
+      return { success: false, error: "unexpected_type" };
+    }
+
+    const clientDataJSON = Buffer.from(credential.response.clientDataJSON, "base64url");
+    const clientDataError = checkClientData(clientDataJSON, "webauthn.get", expectedChallenge, rp);
+    if (clientDataError) return { success: false, error: clientDataError };
+
+    const authDataBytes = Buffer.from(credential.response.authenticatorData, "base64url");
+    const authData = parseAuthenticatorData(authDataBytes);
+    const flagsError = checkAuthenticatorFlags(authData, rp);
+    if (flagsError) return { success: false, error: flagsError };
+
+    // Signature covers authenticatorData || SHA-256(clientDataJSON)
+    const signedData = Buffer.concat([authDataBytes, createHash("sha256").update(clientDataJSON).digest()]);
+    const key = createPublicKey({ key: Buffer.from(params.publicKey, "base64url"), format: "der", type: "spki" });
+    const digest = key.asymmetricKeyType === "ed25519" ? null : "sha256";
+    if (!verify(digest, signedData, key, Buffer.from(credential.response.signature, "base64url"))) {
+      return { success: false, error: "invalid_signature" };
+    }
+
+    // A counter that fails to advance suggests a cloned authenticator.
+    // Authenticators that do not count report 0 every time.
+    if ((authData.signCount > 0 || params.storedSignCount > 0) && authData.signCount <= params.storedSignCount) {
+      return { success: false, error: "sign_count_regressed" };
+    }
+
+    return { success: true, signCount: authData.signCount };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "invalid_credential" };
+  }
+}
@@ -5,6 +5,7 @@ import { CustodyEngine } from "@/lib/custody";
 import type {
   CalendarConflict,
   CalendarEvent,
+  ChildCustody,
   Family,
   Parent,
   ScheduleChangeRequest,
@@ -15,7 +16,11 @@ import type {
 
 // ─── Public Types ────────────────────────────────────────────────────────────
 
-export type CustodyColor = "primary" | "secondary" | "split";
+/**
+ * "primary" and "secondary" are the first two caregivers; any further
+ * caregivers (step-parents, grandparents, …) share "tertiary".
+ */
+export type CustodyColor = "primary" | "secondary" | "tertiary" | "split";
 
 export interface CalendarDayState {
   /** ISO date string "YYYY-MM-DD" */
@@ -26,8 +31,14 @@ export interface CalendarDayState {
   custodyParent: Parent | null;
   /** If this day has a transition, the receiving parent */
   transitionToParent?: Parent;
-  /** "primary" | "secondary" | "split" for color coding */
+  /** "primary" | "secondary" | "tertiary" | "split" for color coding */
   custodyColor: CustodyColor;
+  /**
+   * Where each child is for the main part of the day.  Only set for families
+   * with children on their own schedule; otherwise every child is with
+   * `custodyParent`.
+   */
+  childCustody?: ChildCustody[];
   /**
    * All events on this day, sorted by display priority.
    * Transitions always first, then expenses, then notes.
@@ -39,6 +50,11 @@ export interface CalendarDayState {
   pendingRequest?: ScheduleChangeRequest;
   /** Transition details if custodyColor="split" */
   transition?: ScheduleTransition;
+  /**
+   * Every exchange on this day in order, when there is more than one (e.g.
+   * a 4-8 PM dinner visit); `transition` is the first of them.
+   */
+  transitions?: ScheduleTransition[];
   /** Holiday overrides affecting this day (e.g., holiday, swap, mediation) */
   affectingOverrides?: ScheduleOverride[];
 }
@@ -65,6 +81,8 @@ export interface CalendarMonthData {
   currentParent: Parent;
   /** The other parent */
   otherParent: Parent;
+  /** Every caregiver, in the order that decides their custody color */
+  caregivers: Parent[];
 }
 
 export interface TransitionListItem {
@@ -98,6 +116,13 @@ function dateToISOString(d: Date): string {
   return `${y}-${m}-${dy}`;
 }
 
+/**
+ * Convert Date to the "YYYY-MM-DD" calendar day it falls on in `timeZone`.
+ */
+function dateToZonedISOString(d: Date, timeZone: string): string {
+  return d.toLocaleDateString("en-CA", { timeZone });
+}
+
 /**
  * Get the number of days in a month (1–12, any year).
  */
@@ -119,14 +144,18 @@ function getStartingDayOfWeek(year: number, month: number): number {
  *
  * Examples: "Today", "Tomorrow", "Oct 27", "In 5 days"
  */
-function formatTransitionLabel(transition: ScheduleTransition, now: Date): string {
+function formatTransitionLabel(
+  transition: ScheduleTransition,
+  now: Date,
+  timeZone: string
+): string {
   const transDate = transition.at;
-  const todayStr = dateToISOString(now);
-  const transStr = dateToISOString(transDate);
+  const todayStr = dateToZonedISOString(now, timeZone);
+  const transStr = dateToZonedISOString(transDate, timeZone);
 
   if (transStr === todayStr) return "Today";
 
-  const tomorrow = new Date(now);
+  const tomorrow = dateToMidnightUTC(todayStr);
   tomorrow.setUTCDate(tomorrow.getUTCDate() + 1);
   if (transStr === dateToISOString(tomorrow)) return "Tomorrow";
 
@@ -135,20 +164,33 @@ function formatTransitionLabel(transition: ScheduleTransition, now: Date): strin
     weekday: "short",
     month: "short",
     day: "numeric",
+    timeZone,
   });
 }
 
 /**
- * Format a Date/time as "H:MM AM/PM".
+ * Format a Date/time as "H:MM AM/PM" in the given timezone.
  */
-function formatTransitionTime(d: Date): string {
+function formatTransitionTime(d: Date, timeZone: string): string {
   return d.toLocaleTimeString([], {
     hour: "numeric",
     minute: "2-digit",
     hour12: true,
+    timeZone,
   });
 }
 
+/**
+ * Color for a day held by `parent`, by the caregiver's position in
+ * `Family.parents`.
+ */
+function custodyColorFor(parent: Parent | null | undefined, parents: Parent[]): CustodyColor {
+  const index = parent ? parents.findIndex((p) => p.id === parent.id) : -1;
+  if (index === 0) return "primary";
+  if (index >= 2) return "tertiary";
+  return "secondary";
+}
+
 // ─── Event Merging ───────────────────────────────────────────────────────────
 
 /**
@@ -159,17 +201,19 @@ function formatTransitionTime(d: Date): string {
  */
 function mergeEventsForDay(
   dateStr: string,
-  transition: ScheduleTransition | undefined,
-  calendarEvents: CalendarEvent[]
+  transitions: ScheduleTransition[],
+  calendarEvents: CalendarEvent[],
+  timeZone: string
 ): CalendarDayEvent[] {
   const events: CalendarDayEvent[] = [];
 
-  // 1. Transition event (always first if present)
-  if (transition) {
-    const timeStr = formatTransitionTime(transition.at);
+  // 1. Transition events (always first if present)
+  for (const [index, transition] of transitions.entries()) {
+    const timeStr = formatTransitionTime(transition.at, timeZone);
+    const idSuffix = index === 0 ? dateStr : `${dateStr}-${index}`;
 
     events.push({
-      id: `transition-${dateStr}`,
+      id: `transition-${idSuffix}`,
       type: "transition",
       title: `Exchange ${timeStr}`,
       time: timeStr,
@@ -180,7 +224,7 @@ function mergeEventsForDay(
     // Add location if available
     if (transition.location) {
       events.push({
-        id: `location-${dateStr}`,
+        id: `location-${idSuffix}`,
         type: "note",
         title: transition.location,
         icon: "location_on",
@@ -198,7 +242,7 @@ function mergeEventsForDay(
     const startTime = new Date(event.startAt);
     const timeStr = event.allDay
       ? undefined
-      : formatTransitionTime(startTime);
+      : formatTransitionTime(startTime, timeZone);
 
     let icon = "event";
     let iconColor = "text-slate-500";
@@ -298,11 +342,13 @@ function conflictsWithWindow(
 export class CalendarMonthEngine {
   private readonly engine: CustodyEngine;
   private readonly family: Family;
+  private readonly overrides: ScheduleOverride[];
   private readonly parentMap: Map<string, Parent>;
 
-  constructor(family: Family) {
+  constructor(family: Family, overrides: ScheduleOverride[] = []) {
     this.family = family;
-    this.engine = new CustodyEngine(family);
+    this.overrides = overrides;
+    this.engine = new CustodyEngine(family, overrides);
     this.parentMap = new Map(family.parents.map((p) => [p.id, p]));
   }
 
@@ -344,8 +390,15 @@ export class CalendarMonthEngine {
     monthEnd.setUTCDate(daysInMonthNum);
     monthEnd.setUTCHours(23, 59, 59, 999);
 
+    // Pad the range by a day on each side: transitions are keyed by the
+    // family's local date, which can differ from the UTC date.
+    const rangeStart = new Date(monthStart);
+    rangeStart.setUTCDate(rangeStart.getUTCDate() - 1);
+    const rangeEnd = new Date(monthEnd);
+    rangeEnd.setUTCDate(rangeEnd.getUTCDate() + 1);
+
     const transitionsByDate = this.buildTransitionMap(
-      this.engine.getTransitionsInRange(monthStart, monthEnd)
+      this.engine.getTransitionsInRange(rangeStart, rangeEnd)
     );
 
     const days: CalendarDayState[] = [
@@ -366,7 +419,8 @@ export class CalendarMonthEngine {
       days,
       upcomingTransitions: this.buildUpcomingTransitions(now),
       currentParent: this.family.parents[0],
-      otherParent: this.family.parents[1],
+      otherParent: this.family.parents[1] ?? this.family.parents[0],
+      caregivers: this.family.parents,
     };
   }
 
@@ -423,7 +477,8 @@ export class CalendarMonthEngine {
       days,
       upcomingTransitions: this.buildUpcomingTransitionsFromEvents(custodyEvents, now),
       currentParent: this.family.parents[0],
-      otherParent: this.family.parents[1],
+      otherParent: this.family.parents[1] ?? this.family.parents[0],
+      caregivers: this.family.parents,
     };
   }
 
@@ -451,12 +506,14 @@ export class CalendarMonthEngine {
     return pendingByDate;
   }
 
+  /** Transitions by the family's local date, in order; a day can have several */
   private buildTransitionMap(
     transitions: ScheduleTransition[]
-  ): Map<string, ScheduleTransition> {
-    const map = new Map<string, ScheduleTransition>();
+  ): Map<string, ScheduleTransition[]> {
+    const map = new Map<string, ScheduleTransition[]>();
     for (const trans of transitions) {
-      map.set(dateToISOString(trans.at), trans);
+      const dateStr = dateToZonedISOString(trans.at, this.family.timezone);
+      map.set(dateStr, [...(map.get(dateStr) ?? []), trans]);
     }
     return map;
   }
@@ -498,53 +555,82 @@ export class CalendarMonthEngine {
     month: number,
     daysInMonthNum: number,
     events: CalendarEvent[],
-    transitionsByDate: Map<string, ScheduleTransition>,
+    transitionsByDate: Map<string, ScheduleTransition[]>,
     requestsByDate: Map<string, ScheduleChangeRequest>
   ): CalendarDayState[] {
     const days: CalendarDayState[] = [];
     const monthStr = String(month).padStart(2, "0");
+    const custodyByDate = this.engine.getMonthCustodyMap(year, month);
+    const ownSchedules = this.buildOwnScheduleCustody(year, month);
+    const overridesByDate = this.buildOverrideLookupByDate(year, month, daysInMonthNum, this.overrides);
 
     for (let dayOfMonth = 1; dayOfMonth <= daysInMonthNum; dayOfMonth++) {
       const dayStr = String(dayOfMonth).padStart(2, "0");
       const dateStr = `${year}-${monthStr}-${dayStr}`;
 
-      const dayNoon = new Date(
-        Date.UTC(year, month - 1, dayOfMonth, 12, 0, 0, 0)
-      );
-      const custody = this.engine.getStatus(dayNoon);
+      const custodyParent = custodyByDate.get(dateStr)!;
 
-      const transition = transitionsByDate.get(dateStr);
-      let custodyColor: CustodyColor;
-      if (transition) {
-        custodyColor = "split";
-      } else if (custody.currentParent.id === this.family.parents[0].id) {
-        custodyColor = "primary";
-      } else {
-        custodyColor = "secondary";
-      }
+      const dayTransitions = transitionsByDate.get(dateStr) ?? [];
+      const transition = dayTransitions[0];
+      const custodyColor: CustodyColor = transition
+        ? "split"
+        : custodyColorFor(custodyParent, this.family.parents);
 
       const mergedEvents = mergeEventsForDay(
         dateStr,
-        transition,
-        events.filter((e) => e.startAt.startsWith(dateStr))
+        dayTransitions,
+        events.filter((e) => e.startAt.startsWith(dateStr)),
+        this.family.timezone
       );
 
       days.push({
         dateStr,
         dayOfMonth,
-        custodyParent: custody.currentParent,
+        custodyParent,
         transitionToParent: transition?.toParent,
         custodyColor,
+        childCustody: this.childCustodyForDay(dateStr, custodyParent, ownSchedules),
         events: mergedEvents,
         hasPendingRequest: requestsByDate.has(dateStr),
         pendingRequest: requestsByDate.get(dateStr),
         transition,
+        ...(dayTransitions.length > 1 ? { transitions: dayTransitions } : {}),
+        affectingOverrides: overridesByDate.get(dateStr),
       });
     }
 
     return days;
   }
 
+  /**
+   * Month custody maps for children on their own schedule, keyed by child id.
+   * Empty when every child follows the family schedule.
+   */
+  private buildOwnScheduleCustody(year: number, month: number): Map<string, Map<string, Parent>> {
+    const maps = new Map<string, Map<string, Parent>>();
+    for (const child of this.family.children) {
+      if (!this.family.childSchedules?.[child.id]) continue;
+      maps.set(
+        child.id,
+        CustodyEngine.forChild(this.family, child.id, this.overrides).getMonthCustodyMap(year, month)
+      );
+    }
+    return maps;
+  }
+
+  /** Where each child is on a day; children on the family schedule are with `custodyParent`. */
+  private childCustodyForDay(
+    dateStr: string,
+    custodyParent: Parent,
+    ownSchedules: Map<string, Map<string, Parent>>
+  ): ChildCustody[] | undefined {
+    if (ownSchedules.size === 0) return undefined;
+    return this.family.children.map((child) => ({
+      child,
+      parent: ownSchedules.get(child.id)?.get(dateStr) ?? custodyParent,
+    }));
+  }
+
   private buildUpcomingTransitions(now: Date): TransitionListItem[] {
     const upcomingTransitions: TransitionListItem[] = [];
     const sidebarCutoff = new Date(now);
@@ -555,8 +641,8 @@ export class CalendarMonthEngine {
 
       upcomingTransitions.push({
         transition: trans,
-        label: formatTransitionLabel(trans, now),
-        timeStr: formatTransitionTime(trans.at),
+        label: formatTransitionLabel(trans, now, this.family.timezone),
+        timeStr: formatTransitionTime(trans.at, this.family.timezone),
         isUpcoming: trans.at > now,
       });
     }
@@ -586,9 +672,7 @@ export class CalendarMonthEngine {
     );
 
     if (hasTransition) return "split";
-    return status.currentParent.id === this.family.parents[0].id
-      ? "primary"
-      : "secondary";
+    return custodyColorFor(status.currentParent, this.family.parents);
   }
 
   private buildCustodyFromEvents(
@@ -706,6 +790,7 @@ export class CalendarMonthEngine {
       daysInMonthNum,
       overrides,
     );
+    const ownSchedules = this.buildOwnScheduleCustody(year, month);
 
     for (let dayOfMonth = 1; dayOfMonth <= daysInMonthNum; dayOfMonth++) {
       const dayStr = String(dayOfMonth).padStart(2, "0");
@@ -714,19 +799,15 @@ export class CalendarMonthEngine {
       const custodyParent = custodyByDate.get(dateStr) || this.family.parents[0];
       const transition = transitionsByDate.get(dateStr);
 
-      let custodyColor: CustodyColor;
-      if (transition) {
-        custodyColor = "split";
-      } else if (custodyParent.id === this.family.parents[0].id) {
-        custodyColor = "primary";
-      } else {
-        custodyColor = "secondary";
-      }
+      const custodyColor: CustodyColor = transition
+        ? "split"
+        : custodyColorFor(custodyParent, this.family.parents);
 
       const mergedEvents = mergeEventsForDay(
         dateStr,
-        transition,
+        transition ? [transition] : [],
         calendarEvents,
+        this.family.timezone,
       );
 
       days.push({
@@ -735,6 +816,7 @@ export class CalendarMonthEngine {
         custodyParent,
         transitionToParent: transition?.toParent,
         custodyColor,
+        childCustody: this.childCustodyForDay(dateStr, custodyParent, ownSchedules),
         events: mergedEvents,
         hasPendingRequest: requestsByDate.has(dateStr),
         pendingRequest: requestsByDate.get(dateStr),
@@ -777,8 +859,8 @@ export class CalendarMonthEngine {
           at: transitionTime,
           fromParent,
           toParent,
-        }, now),
-        timeStr: formatTransitionTime(transitionTime),
+        }, now, this.family.timezone),
+        timeStr: formatTransitionTime(transitionTime, this.family.timezone),
         isUpcoming: transitionTime > now,
       });
     }
@@ -792,12 +874,13 @@ export class CalendarMonthEngine {
   /**
    * Returns the CSS class(es) for custody color on a day.
    *
-   * @param color "primary" | "secondary" | "split"
+   * @param color "primary" | "secondary" | "tertiary" | "split"
    * @returns Tailwind class string
    */
   static colorToCSSClass(color: CustodyColor): string {
     if (color === "primary") return "bg-primary/5";
     if (color === "secondary") return "bg-secondary/5";
+    if (color === "tertiary") return "bg-amber-500/5";
     // split: both halves shown via absolute positioning
     return "split";
   }
@@ -848,7 +931,7 @@ export interface ListViewEvent {
   category: EventCategory;
   icon: string; // Material Symbols icon
   iconColor: string; // Tailwind color class
-  custodyColor?: "primary" | "secondary" | "split"; // For transitions
+  custodyColor?: CustodyColor; // For transitions
   parentId?: string;
   allDay: boolean;
   /** If this is a transition event */
@@ -1374,7 +1457,7 @@ export class CalendarWeekEngine {
    * @param custodyEvents Raw custody schedule events from generateCompleteSchedule()
    * @param calendarEvents User-created calendar events
    * @param changeRequests All schedule change requests (pending ones flagged on days)
-   * @param parents       [primary, secondary] parent pair
+   * @param parents       Every caregiver, primary first
    * @param overrides     Active schedule overrides
    * @param now           Reference "now" for relative labeling
    */
@@ -1385,7 +1468,7 @@ export class CalendarWeekEngine {
     custodyEvents: ScheduleEvent[],
     calendarEvents: CalendarEvent[],
     changeRequests: ScheduleChangeRequest[],
-    parents: [Parent, Parent],
+    parents: Parent[],
     overrides: ScheduleOverride[] = [],
     _now: Date = new Date()
   ): CalendarWeekData {
@@ -1394,11 +1477,8 @@ export class CalendarWeekEngine {
     const weekEndStr = dateToISOString(weekEnd);
 
     const primaryParent = parents[0];
-    const secondaryParent = parents[1];
-    const parentMap = new Map<string, Parent>([
-      [primaryParent.id, primaryParent],
-      [secondaryParent.id, secondaryParent],
-    ]);
+    const secondaryParent = parents[1] ?? primaryParent;
+    const parentMap = new Map<string, Parent>(parents.map((p) => [p.id, p]));
 
     // ── Build custody & transitions for each day of the week ──────────────
     const custodyByDate = new Map<string, Parent>();
@@ -1516,9 +1596,7 @@ export class CalendarWeekEngine {
 
       const custodyColor: CustodyColor = transition
         ? "split"
-        : custodyParent?.id === primaryParent.id
-          ? "primary"
-          : "secondary";
+        : custodyColorFor(custodyParent, parents);
 
       days.push({
         dateStr,
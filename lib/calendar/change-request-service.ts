@@ -0,0 +1,161 @@
+/**
+ * KidSchedule – Change Request Service
+ *
+ * Turns an approved schedule change request into the swap overrides the
+ * calendar, notifications and compliance reports read, and cancels them
+ * again when the approval is withdrawn or reversed.
+ */
+
+import type { Family, ScheduleChangeRequest } from "@/lib";
+import type { DbParent, DbScheduleChangeRequest, DbScheduleOverride } from "@/lib/persistence/types";
+import { db, runInTransaction } from "@/lib/persistence";
+import { ScheduleOverrideEngine, type OverrideConflict, type ScheduleOverride } from "@/lib/schedule-override";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type ApproveChangeRequestResult =
+  | { success: true; request: DbScheduleChangeRequest; overrides: DbScheduleOverride[] }
+  | { success: false; error: string; conflicts?: OverrideConflict[] };
+
+export type ReverseChangeRequestResult =
+  | { success: true; request: DbScheduleChangeRequest; cancelledOverrides: number }
+  | { success: false; error: string };
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function toFamily(request: DbScheduleChangeRequest, parents: DbParent[]): Family {
+  return {
+    id: request.familyId,
+    parents: parents.map((p) => ({ id: p.id, name: p.name, email: p.email, role: p.caregiverRole })),
+    children: [],
+    custodyAnchorDate: "",
+    timezone: "UTC",
+    schedule: { id: "", name: "Schedule", blocks: [], transitionHour: 17 },
+  };
+}
+
+function toScheduleOverride(override: DbScheduleOverride): ScheduleOverride {
+  return {
+    id: override.id,
+    familyId: override.familyId,
+    type: override.overrideType,
+    title: override.title,
+    description: override.description,
+    effectiveStart: override.effectiveStart,
+    effectiveEnd: override.effectiveEnd,
+    custodianParentId: override.custodianParentId,
+    sourceEventId: override.sourceEventId,
+    sourceRequestId: override.sourceRequestId,
+    sourceMediationId: override.sourceMediationId,
+    priority: override.priority,
+    status: override.status,
+    createdAt: override.createdAt,
+    createdBy: override.createdBy,
+    notes: override.notes,
+  };
+}
+
+/**
+ * Conflicts the request's overrides would introduce.  Holiday exceptions are
+ * left out: they intentionally outrank swaps for the holiday itself.
+ */
+async function findSwapConflicts(overrides: ScheduleOverride[]): Promise<OverrideConflict[]> {
+  if (overrides.length === 0) {
+    return [];
+  }
+
+  const starts = overrides.map((o) => new Date(o.effectiveStart).getTime());
+  const ends = overrides.map((o) => new Date(o.effectiveEnd).getTime());
+  const start = new Date(Math.min(...starts)).toISOString();
+  const end = new Date(Math.max(...ends)).toISOString();
+  const existing = (await db.scheduleOverrides.findByTimeRange(overrides[0].familyId, start, end))
+    .filter((o) => o.status === "active" && o.overrideType !== "holiday")
+    .map(toScheduleOverride);
+
+  const proposedIds = new Set(overrides.map((o) => o.id));
+  const analysis = ScheduleOverrideEngine.detectConflicts([], [...overrides, ...existing]);
+  return analysis.conflicts.filter(
+    (c) => proposedIds.has(c.overrideId) || proposedIds.has(c.conflictingOverrideId)
+  );
+}
+
+// ─── Approval ─────────────────────────────────────────────────────────────────
+
+/**
+ * Approve a pending request and materialize its giving-up and make-up
+ * periods as swap overrides, all in one transaction.  Refuses when the swap
+ * would overlap another active swap, mediation or manual override.
+ */
+export async function approveChangeRequest(
+  request: DbScheduleChangeRequest,
+  approvedBy: string,
+  responseNote?: string,
+): Promise<ApproveChangeRequestResult> {
+  const parents = await db.parents.findByFamilyId(request.familyId);
+  if (!parents.some((p) => p.id !== request.requestedBy)) {
+    return { success: false, error: "Family has no other parent to swap with" };
+  }
+
+  const proposed = ScheduleOverrideEngine.createSwapOverrides(
+    [{ ...request, status: "accepted" } as ScheduleChangeRequest],
+    toFamily(request, parents),
+    approvedBy,
+  );
+
+  const conflicts = await findSwapConflicts(proposed);
+  if (conflicts.length > 0) {
+    return { success: false, error: "Request conflicts with existing schedule overrides", conflicts };
+  }
+
+  return runInTransaction(async (txDb) => {
+    const approved = await txDb.scheduleChangeRequests.approve(request.id, approvedBy, responseNote);
+    if (!approved) {
+      throw new Error(`Change request ${request.id} disappeared during approval`);
+    }
+
+    const overrides: DbScheduleOverride[] = [];
+    for (const override of proposed) {
+      overrides.push(
+        await txDb.scheduleOverrides.create({
+          familyId: override.familyId,
+          type: override.type,
+          overrideType: override.type,
+          title: override.title,
+          description: override.description,
+          effectiveStart: override.effectiveStart,
+          effectiveEnd: override.effectiveEnd,
+          custodianParentId: override.custodianParentId,
+          sourceRequestId: override.sourceRequestId,
+          priority: override.priority,
+          status: override.status,
+          createdBy: override.createdBy,
+        })
+      );
+    }
+
+    return { success: true, request: approved, overrides };
+  });
+}
+
+/**
+ * Reverse an accepted request and cancel the overrides its approval
+ * created, in one transaction.
+ */
+export async function reverseChangeRequestApproval(
+  request: DbScheduleChangeRequest,
+  revokedBy: string,
+  responseNote?: string,
+): Promise<ReverseChangeRequestResult> {
+  if (request.status !== "accepted") {
+    return { success: false, error: "Request is not approved" };
+  }
+
+  return runInTransaction(async (txDb) => {
+    const revoked = await txDb.scheduleChangeRequests.revoke(request.id, revokedBy, responseNote);
+    if (!revoked) {
+      return { success: false, error: "Request is not approved" };
+    }
+    const cancelledOverrides = await txDb.scheduleOverrides.cancelBySourceRequestId(request.id);
+    return { success: true, request: revoked, cancelledOverrides };
+  });
+}
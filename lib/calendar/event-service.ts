@@ -8,8 +8,19 @@
 
 import type { ConfirmationStatus, EventCategory } from "@/lib";
 import type { DbCalendarEvent } from "@/lib/persistence/types";
-import { db } from "@/lib/persistence";
+import type { UnitOfWork } from "@/lib/persistence/repositories";
+import { db, runInTransaction } from "@/lib/persistence";
 import { audit } from "@/lib/auth";
+import {
+  computeRecurrenceEndAt,
+  defaultOccurrenceRange,
+  expandEventOccurrences,
+  isSeriesOccurrence,
+  isValidRecurrenceRule,
+  resolveOccurrence,
+  splitRecurrenceRule,
+  type OccurrenceRange,
+} from "./occurrences";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -25,6 +36,8 @@ export interface CreateEventInput {
   parentId?: string;
   confirmationStatus?: ConfirmationStatus;
   createdBy: string;
+  /** RRULE value (e.g. "FREQ=WEEKLY;BYDAY=TU,TH") to make the event a series */
+  recurrenceRule?: string;
 }
 
 export interface UpdateEventInput {
@@ -37,8 +50,16 @@ export interface UpdateEventInput {
   location?: string;
   parentId?: string;
   confirmationStatus?: ConfirmationStatus;
+  /** New RRULE for the series; "" turns it back into a single event */
+  recurrenceRule?: string;
 }
 
+/**
+ * Which occurrences of a recurring event an edit or cancellation applies to:
+ * just the one, that one and every later one, or the whole series.
+ */
+export type RecurrenceScope = "this" | "following" | "all";
+
 export interface EventConflict {
   eventId: string;
   conflictingEventId: string;
@@ -54,6 +75,13 @@ export interface EventValidationResult {
   conflicts?: EventConflict[];
 }
 
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** How far ahead a new or edited series is checked for conflicts. */
+const CONFLICT_HORIZON_DAYS = 365;
+
 // ─── Validation ───────────────────────────────────────────────────────────────
 
 /**
@@ -124,6 +152,11 @@ export function validateCreateEventInput(input: CreateEventInput): EventValidati
     errors.push(`Confirmation status must be one of: ${validStatuses.join(", ")}`);
   }
 
+  // Recurrence validation
+  if (input.recurrenceRule && !isValidRecurrenceRule(input.recurrenceRule)) {
+    errors.push("recurrenceRule must be a valid RRULE (FREQ=DAILY, WEEKLY, MONTHLY or YEARLY)");
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -186,6 +219,10 @@ export function validateUpdateEventInput(input: UpdateEventInput): EventValidati
     }
   }
 
+  if (input.recurrenceRule && !isValidRecurrenceRule(input.recurrenceRule)) {
+    errors.push("recurrenceRule must be a valid RRULE (FREQ=DAILY, WEEKLY, MONTHLY or YEARLY)");
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -240,6 +277,10 @@ export function detectEventConflict(
 
 /**
  * Check for conflicts with existing events in family.
+ *
+ * Recurring events are compared occurrence by occurrence: a series being
+ * created or updated is expanded over the next year, and existing series
+ * are expanded over the same window.
  */
 export async function checkEventConflicts(
   familyId: string,
@@ -249,42 +290,120 @@ export async function checkEventConflicts(
     endAt: string;
     allDay: boolean;
     parentId?: string;
+    recurrenceRule?: string;
   },
-  bufferMinutes: number = 30
+  bufferMinutes: number = 30,
+  /** Pre-loaded family events (series already expanded), so bulk callers avoid one query per event. */
+  familyEvents?: DbCalendarEvent[]
 ): Promise<EventConflict[]> {
-  const existingEvents = await db.calendarEvents.findByFamilyId(familyId);
+  const candidates = event.recurrenceRule
+    ? await expandCandidate(familyId, event)
+    : [{ ...event, id: event.id || "new" }];
+  if (candidates.length === 0) return [];
+
+  const windowStart = new Date(Date.parse(candidates[0].startAt) - MS_PER_DAY);
+  const windowEnd = new Date(Date.parse(candidates[candidates.length - 1].endAt) + MS_PER_DAY);
+  const existingEvents =
+    familyEvents ?? (await getEventOccurrences(familyId, windowStart.toISOString(), windowEnd.toISOString()));
   const conflicts: EventConflict[] = [];
 
-  for (const existing of existingEvents) {
-    // Skip if checking against itself (on update)
-    if (event.id && existing.id === event.id) continue;
-
-    const conflict = detectEventConflict(
-      {
-        id: event.id || "new",
-        startAt: event.startAt,
-        endAt: event.endAt,
-        allDay: event.allDay,
-        parentId: event.parentId,
-      },
-      {
-        id: existing.id,
-        startAt: existing.startAt,
-        endAt: existing.endAt,
-        allDay: existing.allDay,
-        parentId: existing.parentId,
-      },
-      bufferMinutes
-    );
-
-    if (conflict) {
-      conflicts.push(conflict);
+  for (const candidate of candidates) {
+    for (const existing of existingEvents) {
+      // Skip if checking against itself (on update), including its own occurrences
+      if (event.id && (existing.id === event.id || existing.recurringEventId === event.id)) continue;
+      if (existing.id === candidate.id) continue;
+
+      const conflict = detectEventConflict(
+        {
+          id: candidate.id,
+          startAt: candidate.startAt,
+          endAt: candidate.endAt,
+          allDay: candidate.allDay,
+          parentId: candidate.parentId,
+        },
+        {
+          id: existing.id,
+          startAt: existing.startAt,
+          endAt: existing.endAt,
+          allDay: existing.allDay,
+          parentId: existing.parentId,
+        },
+        bufferMinutes
+      );
+
+      if (conflict) {
+        conflicts.push(conflict);
+      }
     }
   }
 
   return conflicts;
 }
 
+async function expandCandidate(
+  familyId: string,
+  event: { id?: string; startAt: string; endAt: string; allDay: boolean; parentId?: string; recurrenceRule?: string }
+): Promise<Array<{ id: string; startAt: string; endAt: string; allDay: boolean; parentId?: string }>> {
+  const timeZone = await getFamilyTimeZone(familyId);
+  const seriesStart = new Date(event.startAt);
+  const series = {
+    ...event,
+    id: event.id || "new",
+    title: "",
+    category: "other",
+  };
+  return expandEventOccurrences([series], [], {
+    start: seriesStart,
+    end: new Date(seriesStart.getTime() + CONFLICT_HORIZON_DAYS * MS_PER_DAY),
+  }, timeZone);
+}
+
+// ─── Occurrence Queries ───────────────────────────────────────────────────────
+
+async function getFamilyTimeZone(familyId: string): Promise<string> {
+  const family = await db.families.findById(familyId);
+  return family?.timezone ?? "UTC";
+}
+
+/**
+ * Every family event, with recurring series expanded into their occurrences
+ * within `range`.  Single events outside the range are kept, matching
+ * findByFamilyId.
+ */
+export async function getFamilyEventsWithOccurrences(
+  familyId: string,
+  range: OccurrenceRange = defaultOccurrenceRange()
+): Promise<DbCalendarEvent[]> {
+  const [events, exceptions, timeZone] = await Promise.all([
+    db.calendarEvents.findByFamilyId(familyId),
+    db.calendarEventExceptions.findByFamilyId(familyId),
+    getFamilyTimeZone(familyId),
+  ]);
+  return expandEventOccurrences(events, exceptions, range, timeZone);
+}
+
+/**
+ * Family events overlapping [startAt, endAt] with recurring series expanded
+ * into individual occurrences (per-occurrence edits and cancellations applied).
+ */
+export async function getEventOccurrences(
+  familyId: string,
+  startAt: string,
+  endAt: string
+): Promise<DbCalendarEvent[]> {
+  const [events, exceptions, timeZone] = await Promise.all([
+    db.calendarEvents.findByFamilyIdAndDateRange(familyId, startAt, endAt),
+    db.calendarEventExceptions.findByFamilyId(familyId),
+    getFamilyTimeZone(familyId),
+  ]);
+  return expandEventOccurrences(
+    events,
+    exceptions,
+    { start: new Date(startAt), end: new Date(endAt) },
+    timeZone
+  );
+}
+
 // ─── Service Operations ───────────────────────────────────────────────────────
 
 /**
@@ -303,6 +422,9 @@ export async function createEvent(input: CreateEventInput): Promise<{ success: t
       ...input,
       confirmationStatus: input.confirmationStatus || "pending",
     };
+    if (input.recurrenceRule) {
+      eventData.recurrenceEndAt = computeRecurrenceEndAt(input, await getFamilyTimeZone(input.familyId));
+    }
 
     // Create event
     const event = await db.calendarEvents.create(eventData);
@@ -344,8 +466,14 @@ export async function updateEvent(
       return { success: false, error: "Event not found" };
     }
 
-    // Update event
-    const event = await db.calendarEvents.update(id, input);
+    // Update event, keeping the cached series end in step with the rule
+    const data: Partial<DbCalendarEvent> = { ...input };
+    if (existing.recurrenceRule || input.recurrenceRule) {
+      const merged = { ...existing, ...input };
+      data.recurrenceEndAt = computeRecurrenceEndAt(merged, await getFamilyTimeZone(existing.familyId)) ?? "";
+    }
+
+    const event = await db.calendarEvents.update(id, data);
     if (!event) {
       return { success: false, error: "Failed to update event" };
     }
@@ -402,6 +530,268 @@ export async function deleteEvent(
   }
 }
 
+// ─── Recurring Event Operations ───────────────────────────────────────────────
+
+type OccurrenceTarget =
+  | { ok: true; series: DbCalendarEvent; originalStart: Date; timeZone: string }
+  | { ok: false; error: string };
+
+async function loadOccurrenceTarget(eventId: string, originalStartAt: string): Promise<OccurrenceTarget> {
+  const series = await db.calendarEvents.findById(eventId);
+  if (!series) {
+    return { ok: false, error: "Event not found" };
+  }
+  if (!series.recurrenceRule) {
+    return { ok: false, error: "Event is not recurring" };
+  }
+
+  const timeZone = await getFamilyTimeZone(series.familyId);
+  const originalStart = new Date(originalStartAt);
+  if (isNaN(originalStart.getTime()) || !isSeriesOccurrence(series, originalStart, timeZone)) {
+    return { ok: false, error: "Occurrence not found" };
+  }
+  return { ok: true, series, originalStart, timeZone };
+}
+
+function isFirstOccurrence(series: DbCalendarEvent, originalStart: Date): boolean {
+  return originalStart.getTime() === new Date(series.startAt).getTime();
+}
+
+/**
+ * Maps an edit made to one occurrence onto the series: the series start moves
+ * by the same offset as the occurrence, and takes the occurrence's new length.
+ */
+function shiftSeriesTimes(
+  series: DbCalendarEvent,
+  originalStart: Date,
+  input: UpdateEventInput
+): Pick<UpdateEventInput, "startAt" | "endAt"> {
+  if (input.startAt === undefined && input.endAt === undefined) return {};
+
+  const durationMs = new Date(series.endAt).getTime() - new Date(series.startAt).getTime();
+  const occurrenceStart = input.startAt ? new Date(input.startAt).getTime() : originalStart.getTime();
+  const occurrenceEnd = input.endAt ? new Date(input.endAt).getTime() : occurrenceStart + durationMs;
+  const startMs = new Date(series.startAt).getTime() + (occurrenceStart - originalStart.getTime());
+
+  return {
+    startAt: new Date(startMs).toISOString(),
+    endAt: new Date(startMs + (occurrenceEnd - occurrenceStart)).toISOString(),
+  };
+}
+
+/**
+ * Ends the series before `splitAt`: rewrites its rule and drops exceptions
+ * for the occurrences it no longer contains.
+ */
+async function truncateSeries(
+  uow: UnitOfWork,
+  series: DbCalendarEvent,
+  before: string,
+  splitAt: Date,
+  timeZone: string
+): Promise<void> {
+  await uow.calendarEvents.update(series.id, {
+    recurrenceRule: before,
+    recurrenceEndAt: computeRecurrenceEndAt({ ...series, recurrenceRule: before }, timeZone) ?? "",
+  });
+  await uow.calendarEventExceptions.deleteByEventIdFrom(series.id, splitAt.toISOString());
+}
+
+/**
+ * Resolves one occurrence of a series (with its per-occurrence edit applied).
+ * Returns null when it is not an occurrence of the series or was cancelled.
+ */
+export async function findEventOccurrence(
+  series: DbCalendarEvent,
+  originalStartAt: string
+): Promise<DbCalendarEvent | null> {
+  if (!series.recurrenceRule) return null;
+  const [exceptions, timeZone] = await Promise.all([
+    db.calendarEventExceptions.findByEventId(series.id),
+    getFamilyTimeZone(series.familyId),
+  ]);
+  return resolveOccurrence(series, originalStartAt, exceptions, timeZone);
+}
+
+/**
+ * Update one occurrence of a recurring event, that occurrence and every
+ * later one ("following" – the series is split in two), or the whole series.
+ *
+ * Returns the edited occurrence for "this", the new series for "following"
+ * and the updated series for "all".
+ */
+export async function updateEventOccurrence(
+  eventId: string,
+  originalStartAt: string,
+  input: UpdateEventInput,
+  scope: RecurrenceScope,
+  userId: string,
+): Promise<{ success: true; event: DbCalendarEvent } | { success: false; error: string }> {
+  const validation = validateUpdateEventInput(input);
+  if (!validation.valid) {
+    return { success: false, error: validation.errors[0] || "Invalid input" };
+  }
+  if (scope === "this" && (input.recurrenceRule !== undefined || input.confirmationStatus !== undefined)) {
+    return { success: false, error: "Recurrence and confirmation apply to the series, not a single occurrence" };
+  }
+
+  try {
+    const target = await loadOccurrenceTarget(eventId, originalStartAt);
+    if (!target.ok) {
+      return { success: false, error: target.error };
+    }
+    const { series, originalStart, timeZone } = target;
+
+    if (scope === "all" || (scope === "following" && isFirstOccurrence(series, originalStart))) {
+      return updateEvent(series.id, { ...input, ...shiftSeriesTimes(series, originalStart, input) }, userId);
+    }
+
+    if (scope === "this") {
+      const previous = (await db.calendarEventExceptions.findByEventId(series.id)).find(
+        (e) => new Date(e.originalStartAt).getTime() === originalStart.getTime()
+      );
+      const exception = await db.calendarEventExceptions.upsert({
+        eventId: series.id,
+        familyId: series.familyId,
+        originalStartAt: originalStart.toISOString(),
+        cancelled: false,
+        title: input.title ?? previous?.title,
+        description: input.description ?? previous?.description,
+        category: input.category ?? previous?.category,
+        startAt: input.startAt ?? previous?.startAt,
+        endAt: input.endAt ?? previous?.endAt,
+        allDay: input.allDay ?? previous?.allDay,
+        location: input.location ?? previous?.location,
+        parentId: input.parentId ?? previous?.parentId,
+      });
+
+      audit.log(
+        "calendar.event.update",
+        { userId },
+        { eventId: series.id, familyId: series.familyId, occurrence: originalStart.toISOString(), scope },
+      );
+
+      const occurrence = resolveOccurrence(series, originalStart.toISOString(), [exception], timeZone);
+      return occurrence
+        ? { success: true, event: occurrence }
+        : { success: false, error: "Failed to update occurrence" };
+    }
+
+    // "following": end the current series before this occurrence and start a
+    // new series here carrying the edit.
+    const split = splitRecurrenceRule(series, originalStart, timeZone);
+    if (!split) {
+      return { success: false, error: "Event is not recurring" };
+    }
+
+    const durationMs = new Date(series.endAt).getTime() - new Date(series.startAt).getTime();
+    const startAt = input.startAt ?? originalStart.toISOString();
+    const endAt = input.endAt ?? new Date(new Date(startAt).getTime() + durationMs).toISOString();
+    const recurrenceRule = input.recurrenceRule || split.after;
+    const nextSeries: Omit<DbCalendarEvent, "id" | "createdAt" | "updatedAt"> = {
+      familyId: series.familyId,
+      title: input.title ?? series.title,
+      description: input.description ?? series.description,
+      category: input.category ?? series.category,
+      startAt,
+      endAt,
+      allDay: input.allDay ?? series.allDay,
+      location: input.location ?? series.location,
+      parentId: input.parentId ?? series.parentId,
+      confirmationStatus: input.confirmationStatus ?? series.confirmationStatus,
+      createdBy: series.createdBy,
+      recurrenceRule,
+      recurrenceEndAt: computeRecurrenceEndAt(
+        { startAt, endAt, allDay: input.allDay ?? series.allDay, recurrenceRule },
+        timeZone
+      ),
+    };
+
+    const created = await runInTransaction(async (txDb) => {
+      await truncateSeries(txDb, series, split.before, originalStart, timeZone);
+      return txDb.calendarEvents.create(nextSeries);
+    });
+
+    audit.log(
+      "calendar.event.update",
+      { userId },
+      {
+        eventId: series.id,
+        familyId: series.familyId,
+        occurrence: originalStart.toISOString(),
+        scope,
+        newEventId: created.id,
+      },
+    );
+
+    return { success: true, event: created };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to update event",
+    };
+  }
+}
+
+/**
+ * Cancel one occurrence of a recurring event, that occurrence and every
+ * later one, or delete the whole series.
+ */
+export async function deleteEventOccurrence(
+  eventId: string,
+  originalStartAt: string,
+  scope: RecurrenceScope,
+  userId: string,
+): Promise<{ success: true } | { success: false; error: string }> {
+  try {
+    const target = await loadOccurrenceTarget(eventId, originalStartAt);
+    if (!target.ok) {
+      return { success: false, error: target.error };
+    }
+    const { series, originalStart, timeZone } = target;
+
+    if (scope === "all" || (scope === "following" && isFirstOccurrence(series, originalStart))) {
+      return deleteEvent(series.id, userId);
+    }
+
+    if (scope === "this") {
+      await db.calendarEventExceptions.upsert({
+        eventId: series.id,
+        familyId: series.familyId,
+        originalStartAt: originalStart.toISOString(),
+        cancelled: true,
+      });
+    } else {
+      const split = splitRecurrenceRule(series, originalStart, timeZone);
+      if (!split) {
+        return { success: false, error: "Event is not recurring" };
+      }
+      await runInTransaction((txDb) =>
+        truncateSeries(txDb, series, split.before, originalStart, timeZone)
+      );
+    }
+
+    audit.log(
+      "calendar.event.delete",
+      { userId },
+      {
+        eventId: series.id,
+        familyId: series.familyId,
+        title: series.title,
+        occurrence: originalStart.toISOString(),
+        scope,
+      },
+    );
+
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to delete event",
+    };
+  }
+}
+
 /**
  * Get events for a date range with custody context.
  */
@@ -413,8 +803,8 @@ export async function getEventsWithCustodyContext(
   events: DbCalendarEvent[];
   custodyInfo: Record<string, { parentId: string; parentName: string }>;
 }> {
-  // Fetch events
-  const events = await db.calendarEvents.findByFamilyIdAndDateRange(familyId, startAt, endAt);
+  // Fetch events, with recurring series expanded to occurrences
+  const events = await getEventOccurrences(familyId, startAt, endAt);
 
   // Fetch family and custody schedule for context
   const family = await db.families.findById(familyId);
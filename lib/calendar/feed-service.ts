@@ -0,0 +1,77 @@
+/**
+ * KidSchedule – Calendar Feed Service
+ *
+ * Loads a family's custody schedule, overrides and calendar events and
+ * renders them as an iCalendar feed.  Shared by the session-authenticated
+ * download route and the token-authenticated subscription route.
+ */
+
+import { db } from "@/lib/persistence";
+import type { DbFamily } from "@/lib/persistence/types";
+import { generateICalFeed, type DbCalendarEvent as ICalEvent } from "@/lib/ical-generator";
+import {
+  buildCustodyFeedEvents,
+  buildFeedFamily,
+  defaultCustodyFeedRange,
+  feedIncludesActivities,
+  feedIncludesCustody,
+  type FeedContent,
+} from "@/lib/custody-feed";
+import { expandEventOccurrences } from "./occurrences";
+
+async function loadCustodyEvents(family: DbFamily, now: Date): Promise<ICalEvent[]> {
+  const [parents, children, schedule, versions, overrides] = await Promise.all([
+    db.parents.findByFamilyId(family.id),
+    db.children.findByFamilyId(family.id),
+    db.custodySchedules.findActiveByFamilyId(family.id),
+    db.custodyScheduleVersions.findApprovedByFamilyId(family.id),
+    db.scheduleOverrides.findActiveByFamilyId(family.id),
+  ]);
+
+  const custodyFamily = buildFeedFamily(family, parents, schedule, versions, children);
+  if (!custodyFamily) {
+    return [];
+  }
+  return buildCustodyFeedEvents(custodyFamily, overrides, defaultCustodyFeedRange(now));
+}
+
+async function loadActivityEvents(family: DbFamily, now: Date): Promise<ICalEvent[]> {
+  const [series, exceptions] = await Promise.all([
+    db.calendarEvents.findByFamilyId(family.id),
+    db.calendarEventExceptions.findByFamilyId(family.id),
+  ]);
+  // Recurring series are exported as their individual occurrences
+  const events = expandEventOccurrences(series, exceptions, defaultCustodyFeedRange(now), family.timezone);
+
+  // Database stores events with startAt/endAt as ISO strings, but generateICalFeed expects Date objects
+  return events.map((event) => ({
+    id: event.id,
+    familyId: event.familyId,
+    title: event.title,
+    description: event.description,
+    location: event.location,
+    startDate: typeof event.startAt === "string" ? new Date(event.startAt) : event.startAt,
+    endDate: typeof event.endAt === "string" ? new Date(event.endAt) : event.endAt,
+    isAllDay: event.allDay,
+    category: event.category,
+  }));
+}
+
+/**
+ * Renders the family's feed in the family's own timezone.
+ * `content` selects custody periods/handoffs, activities, or both.
+ */
+export async function renderFamilyFeed(
+  family: DbFamily,
+  content: FeedContent,
+  now: Date = new Date()
+): Promise<string> {
+  const custodyEvents = feedIncludesCustody(content) ? await loadCustodyEvents(family, now) : [];
+  const activityEvents = feedIncludesActivities(content) ? await loadActivityEvents(family, now) : [];
+
+  return generateICalFeed([...custodyEvents, ...activityEvents], {
+    id: family.id,
+    name: family.name,
+    timezone: family.timezone,
+  });
+}
@@ -0,0 +1,96 @@
+/**
+ * KidSchedule – Calendar Feed Token Helpers
+ *
+ * HMAC-signed, database-backed subscription tokens for calendar feeds.
+ * A URL token is `<tokenId>.<signature>` where the signature covers the
+ * token id, the owning parent and a per-token random secret.  Verification
+ * needs both the server secret and the stored row, and revoking the row
+ * invalidates the URL immediately.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import type { DbCalendarFeedToken } from "@/lib/persistence/types";
+import type { FeedContent } from "@/lib/custody-feed";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function getFeedTokenSecret(): string {
+  const secret = process.env.CALENDAR_FEED_SECRET ?? process.env.AUTH_JWT_SECRET;
+  if (!secret) {
+    throw new Error("CALENDAR_FEED_SECRET (or AUTH_JWT_SECRET) is required");
+  }
+  return secret;
+}
+
+function signToken(token: Pick<DbCalendarFeedToken, "id" | "parentId" | "secret">): string {
+  return createHmac("sha256", getFeedTokenSecret())
+    .update(`${token.id}:${token.parentId}:${token.secret}`)
+    .digest("base64url");
+}
+
+/** Random key material stored with each token row. */
+export function generateFeedTokenSecret(): string {
+  return randomBytes(32).toString("hex");
+}
+
+/** Builds the URL token for a stored feed token row. */
+export function encodeFeedToken(
+  token: Pick<DbCalendarFeedToken, "id" | "parentId" | "secret">
+): string {
+  return `${token.id}.${signToken(token)}`;
+}
+
+/**
+ * Splits a URL token into its row id and signature without touching the
+ * database.  Returns null for anything that is not shaped like a token.
+ */
+export function parseFeedToken(raw: string | null | undefined): { tokenId: string; signature: string } | null {
+  if (!raw) return null;
+  const [tokenId, signature, ...rest] = raw.split(".");
+  if (rest.length > 0 || !tokenId || !signature || !UUID_PATTERN.test(tokenId)) {
+    return null;
+  }
+  return { tokenId, signature };
+}
+
+/** Checks a URL token against its stored row (revocation included). */
+export function verifyFeedToken(token: DbCalendarFeedToken, signature: string): boolean {
+  if (token.revokedAt) return false;
+
+  const a = Buffer.from(signature, "utf8");
+  const b = Buffer.from(signToken(token), "utf8");
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/** Path (no origin) of the subscription feed for a URL token. */
+export function buildFeedPath(urlToken: string, content: FeedContent = "all"): string {
+  const params = new URLSearchParams({ token: urlToken });
+  if (content !== "all") {
+    params.set("include", content);
+  }
+  return `/api/calendar/feed?${params.toString()}`;
+}
+
+// ─── Conditional Requests ─────────────────────────────────────────────────────
+
+/**
+ * Strong ETag for a rendered iCalendar body.  DTSTAMP lines carry the
+ * render time, so they are excluded – otherwise every poll would miss.
+ */
+export function computeFeedEtag(ical: string): string {
+  const stable = ical
+    .split("\r\n")
+    .filter((line) => !line.startsWith("DTSTAMP:"))
+    .join("\r\n");
+  return `"${createHash("sha256").update(stable).digest("base64url")}"`;
+}
+
+/** True when an If-None-Match header matches `etag` (weak comparison). */
+export function etagMatches(ifNoneMatch: string | null | undefined, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  const normalized = etag.replace(/^W\//, "");
+  return ifNoneMatch
+    .split(",")
+    .map((candidate) => candidate.trim())
+    .some((candidate) => candidate === "*" || candidate.replace(/^W\//, "") === normalized);
+}
@@ -0,0 +1,531 @@
+/**
+ * KidSchedule – Calendar Import
+ *
+ * Imports school, league and club calendars (.ics) into a family's calendar
+ * events.  Recurring events are expanded into individual occurrences inside
+ * the import window, categories are mapped onto EventCategory, and every
+ * imported row remembers its source UID so a re-import updates events in
+ * place instead of duplicating them.
+ *
+ * Each imported event is checked against the family's existing events with
+ * checkEventConflicts and annotated with the parent(s) who have custody
+ * while it takes place.
+ */
+
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+import { ValidationError, type EventCategory } from "@/lib";
+import { CustodyEngine, fromWallClockMs } from "@/lib/custody";
+import { buildFeedFamily } from "@/lib/custody-feed";
+import { audit } from "@/lib/auth";
+import { db } from "@/lib/persistence";
+import type { DbCalendarEvent, DbFamily } from "@/lib/persistence/types";
+import { checkEventConflicts, type EventConflict } from "./event-service";
+import { expandEventOccurrences } from "./occurrences";
+import { parseIcs, type IcsEvent } from "./ics-parser";
+import { expandRecurrence, parseRRule } from "./recurrence";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface ImportIcsOptions {
+  familyId: string;
+  /** Parent id of the importing user (stored as createdBy). */
+  createdBy: string;
+  /** Audit identity of the importing user. */
+  userId: string;
+  /** Where the calendar came from: the subscription URL or "upload". */
+  source: string;
+  /** Category used when neither CATEGORIES nor the title gives one away. */
+  defaultCategory?: EventCategory;
+  now?: Date;
+}
+
+export type ImportedEventAction = "created" | "updated" | "unchanged" | "deleted";
+
+export interface ImportedEventCustody {
+  parentId: string;
+  parentName: string;
+}
+
+export interface ImportedEventResult {
+  externalId: string;
+  eventId?: string;
+  title: string;
+  category: EventCategory;
+  startAt: string;
+  endAt: string;
+  allDay: boolean;
+  action: ImportedEventAction;
+  /** Parents with custody at any point during the event, in order. */
+  custody: ImportedEventCustody[];
+  conflicts: EventConflict[];
+}
+
+export interface ImportIcsSummary {
+  created: number;
+  updated: number;
+  unchanged: number;
+  deleted: number;
+  /** Events outside the import window or that failed validation. */
+  skipped: number;
+  events: ImportedEventResult[];
+}
+
+/** One concrete event instance after RRULE expansion. */
+interface ImportCandidate {
+  externalId: string;
+  source: IcsEvent;
+  start: Date;
+  end: Date;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const IMPORT_LOOKBACK_DAYS = 30;
+const IMPORT_LOOKAHEAD_DAYS = 365;
+
+/** Caps a single import; a daily rule over a year is ~365 rows. */
+const MAX_IMPORTED_EVENTS = 2000;
+
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_ICS_BYTES = 2 * 1024 * 1024;
+const MAX_ICS_REDIRECTS = 5;
+
+const EVENT_CATEGORIES: EventCategory[] = ["custody", "school", "medical", "activity", "holiday", "other"];
+
+/** Keyword hints, checked in order against CATEGORIES and the title. */
+const CATEGORY_KEYWORDS: Array<{ category: EventCategory; pattern: RegExp }> = [
+  { category: "holiday", pattern: /\b(holiday|break|vacation|no school|closed)\b/i },
+  { category: "medical", pattern: /\b(doctor|dentist|orthodontist|pediatrician|clinic|checkup|therapy|appointment)\b/i },
+  { category: "school", pattern: /\b(school|class|exam|test|pta|conference|dismissal|semester|term|graduation)\b/i },
+  {
+    category: "activity",
+    pattern: /\b(practice|game|match|tournament|lesson|rehearsal|recital|club|league|camp|meet)\b/i,
+  },
+];
+
+// ─── Mapping ──────────────────────────────────────────────────────────────────
+
+/**
+ * Maps an imported event onto an EventCategory: an exact CATEGORIES value
+ * wins, then keyword hints in CATEGORIES and the title, then the fallback.
+ * "custody" is never assigned – those events come from the schedule engine.
+ */
+export function mapIcsCategory(event: Pick<IcsEvent, "summary" | "categories">, fallback: EventCategory = "other"): EventCategory {
+  for (const raw of event.categories) {
+    const exact = raw.toLowerCase() as EventCategory;
+    if (EVENT_CATEGORIES.includes(exact) && exact !== "custody") return exact;
+  }
+
+  const haystacks = [event.categories.join(" "), event.summary];
+  for (const text of haystacks) {
+    const hint = CATEGORY_KEYWORDS.find(({ pattern }) => pattern.test(text));
+    if (hint) return hint.category;
+  }
+
+  return fallback;
+}
+
+function occurrenceExternalId(uid: string, originalStart: Date): string {
+  return `${uid}::${originalStart.toISOString()}`;
+}
+
+/**
+ * Expands the parsed components into concrete instances within the window.
+ * RECURRENCE-ID components replace the occurrence they override (and keep
+ * its external id, so moving one practice updates that row).
+ */
+export function expandIcsEvents(events: IcsEvent[], windowStart: Date, windowEnd: Date): ImportCandidate[] {
+  const overrides = new Map<string, IcsEvent>();
+  for (const event of events) {
+    if (event.recurrenceId) {
+      overrides.set(occurrenceExternalId(event.uid, event.recurrenceId), event);
+    }
+  }
+
+  const candidates: ImportCandidate[] = [];
+  const masters = events.filter((event) => !event.recurrenceId);
+  const rules = new Map(masters.map((event) => [event.uid, event.rrule ? parseRRule(event.rrule, event.timeZone) : null]));
+
+  for (const event of masters) {
+    const rule = rules.get(event.uid);
+    if (!rule) {
+      candidates.push({ externalId: event.uid, source: event, start: event.start, end: event.end });
+      continue;
+    }
+
+    const durationMs = event.end.getTime() - event.start.getTime();
+    const starts = expandRecurrence({
+      start: event.start,
+      rule,
+      timeZone: event.timeZone,
+      exdates: event.exdates,
+      rangeStart: new Date(windowStart.getTime() - durationMs),
+      rangeEnd: windowEnd,
+      maxOccurrences: MAX_IMPORTED_EVENTS,
+    });
+
+    for (const start of starts) {
+      const externalId = occurrenceExternalId(event.uid, start);
+      const override = overrides.get(externalId);
+      overrides.delete(externalId);
+      candidates.push(
+        override
+          ? { externalId, source: override, start: override.start, end: override.end }
+          : { externalId, source: event, start, end: new Date(start.getTime() + durationMs) }
+      );
+    }
+  }
+
+  // Overrides whose original slot was not expanded (outside the window, or
+  // the master is missing from the file) are still events in their own right.
+  for (const [externalId, override] of overrides) {
+    candidates.push({ externalId, source: override, start: override.start, end: override.end });
+  }
+
+  return candidates.filter(
+    (candidate) =>
+      candidate.end.getTime() >= windowStart.getTime() && candidate.start.getTime() <= windowEnd.getTime()
+  );
+}
+
+// ─── Custody Coverage ─────────────────────────────────────────────────────────
+
+/**
+ * Returns the parents with custody during [start, end).  All-day events are
+ * stored at UTC midnight, so they are first moved onto the family's local day.
+ */
+function custodyDuring(
+  engine: CustodyEngine,
+  timeZone: string,
+  startAt: Date,
+  endAt: Date,
+  allDay: boolean
+): ImportedEventCustody[] {
+  const start = allDay ? new Date(fromWallClockMs(startAt.getTime(), timeZone)) : startAt;
+  const end = allDay ? new Date(fromWallClockMs(endAt.getTime(), timeZone)) : endAt;
+
+  const parents = [engine.getStatus(start).currentParent];
+  if (end.getTime() > start.getTime()) {
+    for (const transition of engine.getTransitionsInRange(start, end)) {
+      if (transition.at.getTime() < end.getTime()) parents.push(transition.toParent);
+    }
+  }
+
+  const seen = new Set<string>();
+  return parents
+    .filter((parent) => !seen.has(parent.id) && seen.add(parent.id))
+    .map((parent) => ({ parentId: parent.id, parentName: parent.name }));
+}
+
+async function loadCustodyEngine(family: DbFamily): Promise<CustodyEngine | null> {
+  const [parents, children, schedule, versions, overrides] = await Promise.all([
+    db.parents.findByFamilyId(family.id),
+    db.children.findByFamilyId(family.id),
+    db.custodySchedules.findActiveByFamilyId(family.id),
+    db.custodyScheduleVersions.findApprovedByFamilyId(family.id),
+    db.scheduleOverrides.findActiveByFamilyId(family.id),
+  ]);
+  const custodyFamily = buildFeedFamily(family, parents, schedule, versions, children);
+  return custodyFamily ? new CustodyEngine(custodyFamily, overrides) : null;
+}
+
+// ─── Fetching ─────────────────────────────────────────────────────────────────
+
+/** Host names a family calendar URL must never point at. */
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  return (
+    host === "localhost" ||
+    host.endsWith(".localhost") ||
+    host.endsWith(".internal") ||
+    (isIP(host) !== 0 && isPrivateAddress(host))
+  );
+}
+
+/**
+ * Loopback, private, link-local and unspecified addresses, including IPv4
+ * addresses wrapped in IPv6 (::ffff:127.0.0.1 or ::ffff:7f00:1).
+ */
+function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase();
+  if (isIP(ip) === 4) {
+    const [a, b] = ip.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168)
+    );
+  }
+  const mapped = ip.match(/^(?:0{0,4}:){0,5}:?ffff:(.+)$/);
+  if (mapped) {
+    const tail = mapped[1];
+    if (isIP(tail) === 4) return isPrivateAddress(tail);
+    const hex = tail.match(/^([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (hex) {
+      const high = parseInt(hex[1], 16);
+      const low = parseInt(hex[2], 16);
+      return isPrivateAddress(`${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`);
+    }
+  }
+  return (
+    ip === "::" ||
+    ip === "::1" ||
+    /^f[cd][0-9a-f]{0,2}:/.test(ip) ||
+    /^fe[89ab][0-9a-f]?:/.test(ip)
+  );
+}
+
+/**
+ * Rejects URLs that are not http(s) or whose host is, or resolves to, a
+ * private address.  Runs for the first URL and again for every redirect.
+ */
+async function assertPublicUrl(url: URL): Promise<void> {
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new ValidationError("Calendar URL must use http, https or webcal");
+  }
+  if (isPrivateHost(url.hostname)) {
+    throw new ValidationError("Calendar URL must point to a public host");
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host) !== 0) return;
+
+  let addresses: Array<{ address: string }>;
+  try {
+    addresses = await lookup(host, { all: true });
+  } catch {
+    throw new ValidationError("Calendar URL could not be downloaded");
+  }
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new ValidationError("Calendar URL must point to a public host");
+  }
+}
+
+/**
+ * Downloads a published calendar.  webcal:// links are fetched over https;
+ * private-network hosts (by name or by resolved address), redirects into
+ * them, non-2xx responses and oversized bodies are rejected with a
+ * ValidationError the route reports back to the user.
+ */
+export async function fetchIcsCalendar(rawUrl: string): Promise<string> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl.trim().replace(/^webcals?:\/\//i, "https://"));
+  } catch {
+    throw new ValidationError("Calendar URL is not a valid URL");
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    let response: Response | null = null;
+    for (let hop = 0; hop <= MAX_ICS_REDIRECTS; hop++) {
+      await assertPublicUrl(url);
+      response = await fetch(url, {
+        signal: controller.signal,
+        headers: { Accept: "text/calendar, */*;q=0.5" },
+        redirect: "manual",
+      });
+      const location = response.headers.get("location");
+      if (response.status < 300 || response.status >= 400 || !location) break;
+      url = new URL(location, url);
+      response = null;
+    }
+    if (!response) {
+      throw new ValidationError("Calendar URL redirects too many times");
+    }
+    if (!response.ok) {
+      throw new ValidationError(`Calendar URL returned HTTP ${response.status}`);
+    }
+    const declaredLength = Number(response.headers.get("content-length") ?? 0);
+    if (declaredLength > MAX_ICS_BYTES) {
+      throw new ValidationError("Calendar file is too large");
+    }
+    const text = await response.text();
+    if (text.length > MAX_ICS_BYTES) {
+      throw new ValidationError("Calendar file is too large");
+    }
+    return text;
+  } catch (error) {
+    if (error instanceof ValidationError) throw error;
+    throw new ValidationError("Calendar URL could not be downloaded");
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// ─── Import ───────────────────────────────────────────────────────────────────
+
+function truncate(value: string | undefined, max: number): string | undefined {
+  return value && value.length > max ? value.slice(0, max) : value;
+}
+
+function isUnchanged(existing: DbCalendarEvent, next: Omit<DbCalendarEvent, "id" | "createdAt" | "updatedAt">): boolean {
+  return (
+    existing.title === next.title &&
+    (existing.description ?? undefined) === next.description &&
+    (existing.location ?? undefined) === next.location &&
+    existing.category === next.category &&
+    existing.allDay === next.allDay &&
+    new Date(existing.startAt).getTime() === new Date(next.startAt).getTime() &&
+    new Date(existing.endAt).getTime() === new Date(next.endAt).getTime()
+  );
+}
+
+/**
+ * Imports an iCalendar document into the family's calendar.
+ *
+ * Re-importing the same calendar is idempotent: events are matched on their
+ * source UID (per occurrence for recurring events), changed events are
+ * updated, and STATUS:CANCELLED removes a previously imported event.
+ */
+export async function importIcsEvents(icsText: string, options: ImportIcsOptions): Promise<ImportIcsSummary> {
+  const family = await db.families.findById(options.familyId);
+  if (!family) {
+    throw new Error("Family not found");
+  }
+
+  const now = options.now ?? new Date();
+  const windowStart = new Date(now.getTime() - IMPORT_LOOKBACK_DAYS * MS_PER_DAY);
+  const windowEnd = new Date(now.getTime() + IMPORT_LOOKAHEAD_DAYS * MS_PER_DAY);
+
+  if (!/BEGIN:VCALENDAR/i.test(icsText)) {
+    throw new ValidationError("File is not an iCalendar (.ics) document");
+  }
+
+  const parsed = parseIcs(icsText, family.timezone);
+  const expanded = expandIcsEvents(parsed, windowStart, windowEnd);
+  const candidates = expanded.slice(0, MAX_IMPORTED_EVENTS);
+
+  const [familyEvents, eventExceptions, engine] = await Promise.all([
+    db.calendarEvents.findByFamilyId(family.id),
+    db.calendarEventExceptions.findByFamilyId(family.id),
+    loadCustodyEngine(family),
+  ]);
+  // Conflicts are checked against concrete occurrences of recurring series
+  const conflictEvents = expandEventOccurrences(
+    familyEvents,
+    eventExceptions,
+    { start: windowStart, end: windowEnd },
+    family.timezone
+  );
+  const byExternalId = new Map(
+    familyEvents.filter((event) => event.externalId).map((event) => [event.externalId as string, event])
+  );
+
+  const summary: ImportIcsSummary = {
+    created: 0,
+    updated: 0,
+    unchanged: 0,
+    deleted: 0,
+    skipped: expanded.length - candidates.length,
+    events: [],
+  };
+
+  for (const candidate of candidates) {
+    const { source } = candidate;
+    const existing = byExternalId.get(candidate.externalId);
+    const category = mapIcsCategory(source, options.defaultCategory);
+    const base = {
+      externalId: candidate.externalId,
+      title: source.summary,
+      category,
+      startAt: candidate.start.toISOString(),
+      endAt: candidate.end.toISOString(),
+      allDay: source.allDay,
+    };
+
+    if (source.status === "CANCELLED") {
+      if (existing && (await db.calendarEvents.delete(existing.id))) {
+        summary.deleted++;
+        summary.events.push({ ...base, eventId: existing.id, action: "deleted", custody: [], conflicts: [] });
+      }
+      continue;
+    }
+
+    const title = truncate(source.summary.trim(), 255);
+    if (!title) {
+      summary.skipped++;
+      continue;
+    }
+
+    const data: Omit<DbCalendarEvent, "id" | "createdAt" | "updatedAt"> = {
+      familyId: family.id,
+      title,
+      description: truncate(source.description, 2000),
+      category,
+      startAt: base.startAt,
+      endAt: base.endAt,
+      allDay: source.allDay,
+      location: truncate(source.location, 255),
+      confirmationStatus: "confirmed",
+      createdBy: options.createdBy,
+      externalId: candidate.externalId,
+      externalSource: options.source,
+    };
+
+    let saved: DbCalendarEvent | null;
+    let action: ImportedEventAction;
+    if (!existing) {
+      saved = await db.calendarEvents.create(data);
+      action = "created";
+    } else if (isUnchanged(existing, data)) {
+      saved = existing;
+      action = "unchanged";
+    } else {
+      saved = await db.calendarEvents.update(existing.id, {
+        title: data.title,
+        description: data.description,
+        category: data.category,
+        startAt: data.startAt,
+        endAt: data.endAt,
+        allDay: data.allDay,
+        location: data.location,
+      });
+      action = "updated";
+    }
+
+    if (!saved) {
+      summary.skipped++;
+      continue;
+    }
+    summary[action]++;
+
+    const conflicts = await checkEventConflicts(
+      family.id,
+      { id: saved.id, startAt: saved.startAt, endAt: saved.endAt, allDay: saved.allDay, parentId: saved.parentId },
+      30,
+      conflictEvents
+    );
+
+    summary.events.push({
+      ...base,
+      title,
+      eventId: saved.id,
+      action,
+      custody: engine ? custodyDuring(engine, family.timezone, candidate.start, candidate.end, source.allDay) : [],
+      conflicts,
+    });
+  }
+
+  audit.log(
+    "calendar.event.import",
+    { userId: options.userId },
+    {
+      familyId: family.id,
+      source: options.source,
+      created: summary.created,
+      updated: summary.updated,
+      unchanged: summary.unchanged,
+      deleted: summary.deleted,
+    }
+  );
+
+  return summary;
+}
@@ -0,0 +1,251 @@
+/**
+ * KidSchedule – iCalendar (.ics) Parser
+ *
+ * Reads VEVENT components from RFC 5545 text as published by school,
+ * league and club calendars.  Handles line folding, escaped text, DATE and
+ * DATE-TIME values (UTC, TZID and floating), DURATION, RRULE, EXDATE and
+ * RECURRENCE-ID.  VALARM and other nested components are skipped.
+ */
+
+import { fromWallClockMs } from "@/lib/custody";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  categories: string[];
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  /** Zone the start was expressed in (TZID or the fallback); "UTC" for DATE values. */
+  timeZone: string;
+  rrule?: string;
+  exdates: Date[];
+  /** Original start of the occurrence this component overrides. */
+  recurrenceId?: Date;
+  status?: string;
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface IcsDateValue {
+  date: Date;
+  allDay: boolean;
+  timeZone: string;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ─── Lexing ───────────────────────────────────────────────────────────────────
+
+/** Joins folded continuation lines (CRLF or LF followed by space/tab). */
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/)
+    .filter((line) => line.length > 0);
+}
+
+/** Splits `NAME;P1=V1;P2="a:b":value`, honouring quoted parameter values. */
+function parseContentLine(line: string): IcsProperty | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (ch === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const raw of rawParams) {
+    const eq = raw.indexOf("=");
+    if (eq > 0) {
+      params[raw.slice(0, eq).toUpperCase()] = raw.slice(eq + 1).replace(/^"|"$/g, "");
+    }
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === "n" || ch === "N" ? "\n" : ch));
+}
+
+/** Splits a TEXT list on unescaped commas. */
+function splitTextList(value: string): string[] {
+  return value
+    .split(/(?<!\\),/)
+    .map((item) => unescapeText(item).trim())
+    .filter(Boolean);
+}
+
+// ─── Values ───────────────────────────────────────────────────────────────────
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parses a DATE or DATE-TIME value.  TZID values and floating times are
+ * resolved in their zone (falling back to `defaultTimeZone` for unknown
+ * TZIDs such as Outlook's "Eastern Standard Time").
+ */
+function parseDateValue(
+  value: string,
+  params: Record<string, string>,
+  defaultTimeZone: string
+): IcsDateValue | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, y, m, d, hh, mm, ss, z] = match;
+
+  if (hh === undefined || params.VALUE === "DATE") {
+    return { date: new Date(Date.UTC(Number(y), Number(m) - 1, Number(d))), allDay: true, timeZone: "UTC" };
+  }
+
+  // UTC values keep the zone too: recurrences still expand on local days.
+  const timeZone = params.TZID && isValidTimeZone(params.TZID) ? params.TZID : defaultTimeZone;
+  const wall = Date.UTC(Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm), Number(ss));
+  const instant = z ? wall : fromWallClockMs(wall, timeZone);
+  return { date: new Date(instant), allDay: false, timeZone };
+}
+
+/** Parses `[+|-]P[nW]` or `[+|-]P[nD][T[nH][nM][nS]]` into milliseconds. */
+function parseDuration(value: string): number | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, sign, w, d, h, mi, s] = match;
+  const ms =
+    (Number(w ?? 0) * 7 + Number(d ?? 0)) * MS_PER_DAY +
+    Number(h ?? 0) * 3_600_000 +
+    Number(mi ?? 0) * 60_000 +
+    Number(s ?? 0) * 1000;
+  return sign === "-" ? -ms : ms;
+}
+
+// ─── Components ───────────────────────────────────────────────────────────────
+
+function buildEvent(props: IcsProperty[], defaultTimeZone: string): IcsEvent | null {
+  const first = (name: string) => props.find((p) => p.name === name);
+
+  const dtstart = first("DTSTART");
+  const start = dtstart ? parseDateValue(dtstart.value, dtstart.params, defaultTimeZone) : null;
+  if (!start) return null;
+
+  let endMs: number | null = null;
+  const dtend = first("DTEND");
+  const duration = first("DURATION");
+  if (dtend) {
+    endMs = parseDateValue(dtend.value, dtend.params, defaultTimeZone)?.date.getTime() ?? null;
+  } else if (duration) {
+    const ms = parseDuration(duration.value);
+    endMs = ms === null ? null : start.date.getTime() + ms;
+  }
+  if (endMs === null || endMs < start.date.getTime()) {
+    // RFC 5545: a DATE start with no end spans one day; a DATE-TIME start is instantaneous.
+    endMs = start.date.getTime() + (start.allDay ? MS_PER_DAY : 0);
+  }
+
+  const summary = first("SUMMARY");
+  const description = first("DESCRIPTION");
+  const location = first("LOCATION");
+  const rrule = first("RRULE");
+  const recurrenceId = first("RECURRENCE-ID");
+  const status = first("STATUS");
+
+  const exdates = props
+    .filter((p) => p.name === "EXDATE")
+    .flatMap((p) =>
+      p.value.split(",").map((v) => parseDateValue(v, p.params, start.timeZone)?.date)
+    )
+    .filter((d): d is Date => d !== undefined);
+
+  const uid = first("UID")?.value.trim() || `${start.date.toISOString()}-${summary?.value ?? ""}`;
+
+  return {
+    uid,
+    summary: summary ? unescapeText(summary.value).trim() : "Untitled event",
+    description: description ? unescapeText(description.value).trim() || undefined : undefined,
+    location: location ? unescapeText(location.value).trim() || undefined : undefined,
+    categories: props.filter((p) => p.name === "CATEGORIES").flatMap((p) => splitTextList(p.value)),
+    start: start.date,
+    end: new Date(endMs),
+    allDay: start.allDay,
+    timeZone: start.timeZone,
+    rrule: rrule?.value.trim(),
+    exdates,
+    recurrenceId: recurrenceId
+      ? parseDateValue(recurrenceId.value, recurrenceId.params, start.timeZone)?.date
+      : undefined,
+    status: status?.value.trim().toUpperCase(),
+  };
+}
+
+/**
+ * Parses every VEVENT in an iCalendar document.  Malformed events (no
+ * parsable DTSTART) are skipped rather than failing the whole file.
+ *
+ * @param defaultTimeZone zone for floating times and unknown TZIDs –
+ *   normally the importing family's timezone (or X-WR-TIMEZONE if present).
+ */
+export function parseIcs(text: string, defaultTimeZone = "UTC"): IcsEvent[] {
+  const lines = unfoldLines(text);
+
+  const calendarZone = lines
+    .map(parseContentLine)
+    .find((p) => p?.name === "X-WR-TIMEZONE")?.value.trim();
+  const fallbackZone = calendarZone && isValidTimeZone(calendarZone) ? calendarZone : defaultTimeZone;
+
+  const events: IcsEvent[] = [];
+  let current: IcsProperty[] | null = null;
+  let nestedDepth = 0;
+
+  for (const line of lines) {
+    const prop = parseContentLine(line);
+    if (!prop) continue;
+
+    if (prop.name === "BEGIN") {
+      if (prop.value.toUpperCase() === "VEVENT" && current === null) {
+        current = [];
+      } else if (current !== null) {
+        nestedDepth++;
+      }
+      continue;
+    }
+
+    if (prop.name === "END") {
+      if (current !== null && nestedDepth > 0) {
+        nestedDepth--;
+      } else if (current !== null && prop.value.toUpperCase() === "VEVENT") {
+        const event = buildEvent(current, fallbackZone);
+        if (event) events.push(event);
+        current = null;
+      }
+      continue;
+    }
+
+    if (current !== null && nestedDepth === 0) {
+      current.push(prop);
+    }
+  }
+
+  return events;
+}
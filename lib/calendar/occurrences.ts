@@ -0,0 +1,295 @@
+/**
+ * KidSchedule – Recurring Event Occurrences
+ *
+ * A recurring calendar event is stored once, as a series row carrying an
+ * RRULE; per-occurrence edits and cancellations are stored as exceptions
+ * keyed by the occurrence's original start.  This module expands series
+ * into concrete occurrences for a date range so the calendar engines,
+ * conflict detection and the ICS feed all see ordinary events.
+ *
+ * Occurrence ids are `<seriesId>_<YYYYMMDDTHHMMSSZ>` (the original start),
+ * which stays stable when a single occurrence is moved.
+ *
+ * Pure functions only – callers load events and exceptions.
+ */
+
+import type { DbCalendarEventException } from "@/lib/persistence/types";
+import { expandRecurrence, formatRRule, parseRRule } from "./recurrence";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** The event fields expansion reads; satisfied by DbCalendarEvent and CalendarEvent. */
+export interface RecurringEventLike {
+  id: string;
+  title: string;
+  description?: string;
+  category: string;
+  startAt: string;
+  endAt: string;
+  allDay: boolean;
+  location?: string;
+  parentId?: string;
+  recurrenceRule?: string;
+  recurringEventId?: string;
+  originalStartAt?: string;
+}
+
+export interface OccurrenceRange {
+  start: Date;
+  end: Date;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DEFAULT_LOOKBACK_DAYS = 90;
+const DEFAULT_LOOKAHEAD_DAYS = 365;
+
+/** Per-series cap on expanded occurrences within one range. */
+const MAX_OCCURRENCES_PER_SERIES = 1000;
+
+/** COUNT-limited series longer than this are treated as open-ended for range queries. */
+const MAX_COUNTED_OCCURRENCES = 5000;
+
+// ─── Ids ──────────────────────────────────────────────────────────────────────
+
+function compactUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+export function formatOccurrenceId(eventId: string, originalStart: Date | string): string {
+  return `${eventId}_${compactUtc(new Date(originalStart))}`;
+}
+
+/** Splits an occurrence id into its series id and original start; null for plain ids. */
+export function parseOccurrenceId(id: string): { eventId: string; originalStartAt: string } | null {
+  const match = /^(.+)_(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(id);
+  if (!match) return null;
+  const [, eventId, y, mo, d, h, mi, s] = match;
+  const originalStart = new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s));
+  return Number.isNaN(originalStart.getTime())
+    ? null
+    : { eventId, originalStartAt: originalStart.toISOString() };
+}
+
+/** Window used when a caller lists events without a range: 90 days back, a year ahead. */
+export function defaultOccurrenceRange(now: Date = new Date()): OccurrenceRange {
+  return {
+    start: new Date(now.getTime() - DEFAULT_LOOKBACK_DAYS * MS_PER_DAY),
+    end: new Date(now.getTime() + DEFAULT_LOOKAHEAD_DAYS * MS_PER_DAY),
+  };
+}
+
+// ─── Series Helpers ───────────────────────────────────────────────────────────
+
+/** All-day events are stored at UTC midnight, so they recur on UTC days. */
+export function seriesTimeZone(event: Pick<RecurringEventLike, "allDay">, familyTimeZone: string): string {
+  return event.allDay ? "UTC" : familyTimeZone;
+}
+
+/** Whether an RRULE value is one expansion supports. */
+export function isValidRecurrenceRule(value: string): boolean {
+  return parseRRule(value) !== null;
+}
+
+/**
+ * End of the series' last occurrence, cached on the row so date-range
+ * queries can find series overlapping a range.  Undefined = open-ended.
+ */
+export function computeRecurrenceEndAt(
+  event: Pick<RecurringEventLike, "startAt" | "endAt" | "allDay" | "recurrenceRule">,
+  familyTimeZone: string
+): string | undefined {
+  if (!event.recurrenceRule) return undefined;
+  const timeZone = seriesTimeZone(event, familyTimeZone);
+  const rule = parseRRule(event.recurrenceRule, timeZone);
+  if (!rule) return undefined;
+
+  const durationMs = Date.parse(event.endAt) - Date.parse(event.startAt);
+  if (rule.until) {
+    return new Date(rule.until.getTime() + durationMs).toISOString();
+  }
+  if (rule.count === undefined || rule.count > MAX_COUNTED_OCCURRENCES) {
+    return undefined;
+  }
+
+  const starts = expandRecurrence({
+    start: new Date(event.startAt),
+    rule,
+    timeZone,
+    rangeEnd: new Date(8.64e15),
+    maxOccurrences: rule.count,
+  });
+  // A rule that hit the expansion guard before COUNT is treated as open-ended.
+  if (starts.length < rule.count) return undefined;
+  return new Date(starts[starts.length - 1].getTime() + durationMs).toISOString();
+}
+
+/**
+ * Splits a series rule at `splitAt` for "this and following" edits: the
+ * original series keeps occurrences before the split, the new series (which
+ * starts at the split) gets the rest.  COUNT is divided between the two.
+ */
+export function splitRecurrenceRule(
+  event: Pick<RecurringEventLike, "startAt" | "allDay" | "recurrenceRule">,
+  splitAt: Date,
+  familyTimeZone: string
+): { before: string; after: string } | null {
+  if (!event.recurrenceRule) return null;
+  const timeZone = seriesTimeZone(event, familyTimeZone);
+  const rule = parseRRule(event.recurrenceRule, timeZone);
+  if (!rule) return null;
+
+  if (rule.count !== undefined) {
+    const before = expandRecurrence({
+      start: new Date(event.startAt),
+      rule,
+      timeZone,
+      rangeEnd: new Date(splitAt.getTime() - 1),
+      maxOccurrences: rule.count,
+    }).length;
+    return {
+      before: formatRRule({ ...rule, count: before }),
+      after: formatRRule({ ...rule, count: Math.max(rule.count - before, 1) }),
+    };
+  }
+
+  return {
+    before: formatRRule({ ...rule, until: new Date(splitAt.getTime() - 1000) }),
+    after: formatRRule(rule),
+  };
+}
+
+/** Whether `originalStart` is a scheduled occurrence of the series. */
+export function isSeriesOccurrence(
+  event: Pick<RecurringEventLike, "startAt" | "allDay" | "recurrenceRule">,
+  originalStart: Date,
+  familyTimeZone: string
+): boolean {
+  if (!event.recurrenceRule) return false;
+  const timeZone = seriesTimeZone(event, familyTimeZone);
+  const rule = parseRRule(event.recurrenceRule, timeZone);
+  if (!rule) return false;
+
+  const starts = expandRecurrence({
+    start: new Date(event.startAt),
+    rule,
+    timeZone,
+    rangeStart: originalStart,
+    rangeEnd: originalStart,
+    maxOccurrences: 1,
+  });
+  return starts.length === 1 && starts[0].getTime() === originalStart.getTime();
+}
+
+// ─── Expansion ────────────────────────────────────────────────────────────────
+
+function buildOccurrence<T extends RecurringEventLike>(
+  series: T,
+  originalStart: Date,
+  durationMs: number,
+  exception: DbCalendarEventException | undefined
+): T {
+  return {
+    ...series,
+    id: formatOccurrenceId(series.id, originalStart),
+    title: exception?.title ?? series.title,
+    description: exception?.description ?? series.description,
+    category: (exception?.category ?? series.category) as T["category"],
+    startAt: exception?.startAt ?? originalStart.toISOString(),
+    endAt: exception?.endAt ?? new Date(originalStart.getTime() + durationMs).toISOString(),
+    allDay: exception?.allDay ?? series.allDay,
+    location: exception?.location ?? series.location,
+    parentId: exception?.parentId ?? series.parentId,
+    recurringEventId: series.id,
+    originalStartAt: originalStart.toISOString(),
+  };
+}
+
+function overlaps(event: Pick<RecurringEventLike, "startAt" | "endAt">, range: OccurrenceRange): boolean {
+  const startMs = Date.parse(event.startAt);
+  const endMs = Math.max(Date.parse(event.endAt), startMs);
+  return startMs <= range.end.getTime() && endMs >= range.start.getTime();
+}
+
+/**
+ * Replaces each recurring series with its occurrences overlapping `range`,
+ * applying per-occurrence exceptions (edits and cancellations).  Events
+ * without a rule pass through unchanged; the result is sorted by start.
+ */
+export function expandEventOccurrences<T extends RecurringEventLike>(
+  events: T[],
+  exceptions: DbCalendarEventException[],
+  range: OccurrenceRange,
+  familyTimeZone: string
+): T[] {
+  const exceptionsByEvent = new Map<string, Map<number, DbCalendarEventException>>();
+  for (const exception of exceptions) {
+    const byStart = exceptionsByEvent.get(exception.eventId) ?? new Map<number, DbCalendarEventException>();
+    byStart.set(Date.parse(exception.originalStartAt), exception);
+    exceptionsByEvent.set(exception.eventId, byStart);
+  }
+
+  const result: T[] = [];
+  for (const event of events) {
+    const timeZone = seriesTimeZone(event, familyTimeZone);
+    const rule = event.recurrenceRule ? parseRRule(event.recurrenceRule, timeZone) : null;
+    if (!rule) {
+      result.push(event);
+      continue;
+    }
+
+    const seriesExceptions = exceptionsByEvent.get(event.id) ?? new Map<number, DbCalendarEventException>();
+    const durationMs = Date.parse(event.endAt) - Date.parse(event.startAt);
+    const starts = expandRecurrence({
+      start: new Date(event.startAt),
+      rule,
+      timeZone,
+      rangeStart: new Date(range.start.getTime() - durationMs),
+      rangeEnd: range.end,
+      maxOccurrences: MAX_OCCURRENCES_PER_SERIES,
+    });
+
+    const emitted = new Set<number>();
+    for (const start of starts) {
+      emitted.add(start.getTime());
+      const exception = seriesExceptions.get(start.getTime());
+      if (exception?.cancelled) continue;
+      const occurrence = buildOccurrence(event, start, durationMs, exception);
+      if (overlaps(occurrence, range)) result.push(occurrence);
+    }
+
+    // Occurrences moved into the range from outside it.
+    for (const [originalMs, exception] of seriesExceptions) {
+      if (exception.cancelled || emitted.has(originalMs) || !exception.startAt) continue;
+      const occurrence = buildOccurrence(event, new Date(originalMs), durationMs, exception);
+      if (overlaps(occurrence, range) && isSeriesOccurrence(event, new Date(originalMs), familyTimeZone)) {
+        result.push(occurrence);
+      }
+    }
+  }
+
+  return result.sort((a, b) => Date.parse(a.startAt) - Date.parse(b.startAt));
+}
+
+/**
+ * Resolves a single occurrence of a series (with its exception applied).
+ * Returns null when `originalStartAt` is not an occurrence or was cancelled.
+ */
+export function resolveOccurrence<T extends RecurringEventLike>(
+  series: T,
+  originalStartAt: string,
+  exceptions: DbCalendarEventException[],
+  familyTimeZone: string
+): T | null {
+  const originalStart = new Date(originalStartAt);
+  if (!isSeriesOccurrence(series, originalStart, familyTimeZone)) return null;
+
+  const exception = exceptions.find(
+    (e) => e.eventId === series.id && Date.parse(e.originalStartAt) === originalStart.getTime()
+  );
+  if (exception?.cancelled) return null;
+
+  const durationMs = Date.parse(series.endAt) - Date.parse(series.startAt);
+  return buildOccurrence(series, originalStart, durationMs, exception);
+}
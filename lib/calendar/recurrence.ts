@@ -0,0 +1,316 @@
+/**
+ * KidSchedule – Recurrence Rules
+ *
+ * Parses and expands the RFC 5545 RRULE subset families actually receive
+ * from school and league calendars: DAILY / WEEKLY / MONTHLY / YEARLY with
+ * INTERVAL, COUNT, UNTIL, BYDAY (incl. ordinals such as 2MO or -1FR),
+ * BYMONTHDAY and BYMONTH.
+ *
+ * Expansion runs on wall-clock days in the event's timezone, so a 4 PM
+ * practice stays at 4 PM local time across DST changes.
+ */
+
+import { fromWallClockMs, toWallClockMs } from "@/lib/custody";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export type RecurrenceWeekday = "SU" | "MO" | "TU" | "WE" | "TH" | "FR" | "SA";
+
+export interface RecurrenceByDay {
+  weekday: RecurrenceWeekday;
+  /** 1 = first, -1 = last; only meaningful for MONTHLY / YEARLY. */
+  ordinal?: number;
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  /** Inclusive upper bound on occurrence start (absolute instant). */
+  until?: Date;
+  byDay?: RecurrenceByDay[];
+  byMonthDay?: number[];
+  /** 1–12 */
+  byMonth?: number[];
+}
+
+export interface ExpandRecurrenceInput {
+  /** First occurrence (DTSTART). Always an occurrence, per RFC 5545. */
+  start: Date;
+  rule: RecurrenceRule;
+  /** Wall-clock zone for expansion; use "UTC" for all-day events. */
+  timeZone: string;
+  /** Occurrence starts to drop (EXDATE).  Matched to the second. */
+  exdates?: Date[];
+  /** Only occurrences starting within [rangeStart, rangeEnd] are returned. */
+  rangeStart?: Date;
+  rangeEnd: Date;
+  maxOccurrences?: number;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const WEEKDAYS: RecurrenceWeekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const DEFAULT_MAX_OCCURRENCES = 1000;
+
+/** Hard stop on generated periods so a rule that never matches cannot spin. */
+const MAX_PERIODS = 5000;
+
+// ─── Parsing ──────────────────────────────────────────────────────────────────
+
+function isWeekday(value: string): value is RecurrenceWeekday {
+  return (WEEKDAYS as string[]).includes(value);
+}
+
+function parseIntList(value: string, min: number, max: number): number[] | null {
+  const parsed = value.split(",").map((v) => Number(v));
+  const valid = parsed.every((n) => Number.isInteger(n) && n !== 0 && Math.abs(n) >= min && Math.abs(n) <= max);
+  return valid && parsed.length > 0 ? parsed : null;
+}
+
+/**
+ * Parses an UNTIL value: `YYYYMMDDTHHMMSSZ`, floating `YYYYMMDDTHHMMSS`
+ * (read in `timeZone`) or a `YYYYMMDD` date (inclusive through that day).
+ */
+function parseUntil(value: string, timeZone: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!match) return null;
+  const [, y, m, d, hh, mm, ss, z] = match;
+
+  if (hh === undefined) {
+    const nextDayWall = Date.UTC(Number(y), Number(m) - 1, Number(d) + 1);
+    return new Date(fromWallClockMs(nextDayWall, timeZone) - 1);
+  }
+  const wall = Date.UTC(Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm), Number(ss));
+  return new Date(z ? wall : fromWallClockMs(wall, timeZone));
+}
+
+/**
+ * Parses an RRULE value such as `FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE`.
+ * Returns null for unsupported frequencies or malformed parts, so callers
+ * can fall back to treating the event as a single occurrence.
+ */
+export function parseRRule(value: string, timeZone = "UTC"): RecurrenceRule | null {
+  const parts = new Map<string, string>();
+  for (const part of value.replace(/^RRULE:/i, "").split(";")) {
+    const [key, val] = part.split("=");
+    if (key && val !== undefined) parts.set(key.trim().toUpperCase(), val.trim().toUpperCase());
+  }
+
+  const freq = parts.get("FREQ");
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY" && freq !== "YEARLY") {
+    return null;
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  const interval = parts.get("INTERVAL");
+  if (interval !== undefined) {
+    const n = Number(interval);
+    if (!Number.isInteger(n) || n < 1) return null;
+    rule.interval = n;
+  }
+
+  const count = parts.get("COUNT");
+  if (count !== undefined) {
+    const n = Number(count);
+    if (!Number.isInteger(n) || n < 1) return null;
+    rule.count = n;
+  }
+
+  const until = parts.get("UNTIL");
+  if (until !== undefined) {
+    const parsed = parseUntil(until, timeZone);
+    if (!parsed) return null;
+    rule.until = parsed;
+  }
+
+  const byDay = parts.get("BYDAY");
+  if (byDay !== undefined) {
+    const days: RecurrenceByDay[] = [];
+    for (const token of byDay.split(",")) {
+      const match = /^([+-]?\d{1,2})?([A-Z]{2})$/.exec(token);
+      if (!match || !isWeekday(match[2])) return null;
+      const ordinal = match[1] ? Number(match[1]) : undefined;
+      if (ordinal === 0) return null;
+      days.push(ordinal === undefined ? { weekday: match[2] } : { weekday: match[2], ordinal });
+    }
+    rule.byDay = days;
+  }
+
+  const byMonthDay = parts.get("BYMONTHDAY");
+  if (byMonthDay !== undefined) {
+    const days = parseIntList(byMonthDay, 1, 31);
+    if (!days) return null;
+    rule.byMonthDay = days;
+  }
+
+  const byMonth = parts.get("BYMONTH");
+  if (byMonth !== undefined) {
+    const months = parseIntList(byMonth, 1, 12);
+    if (!months || months.some((m) => m < 0)) return null;
+    rule.byMonth = months;
+  }
+
+  return rule;
+}
+
+/** Serializes a rule back to RRULE value syntax (UNTIL always in UTC). */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) {
+    parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")}`);
+  }
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map((d) => `${d.ordinal ?? ""}${d.weekday}`).join(",")}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  return parts.join(";");
+}
+
+// ─── Candidate Days ───────────────────────────────────────────────────────────
+//
+// Days are UTC-midnight milliseconds of a wall-clock date; only their UTC
+// fields are meaningful.
+
+function daysInMonth(year: number, month0: number): number {
+  return new Date(Date.UTC(year, month0 + 1, 0)).getUTCDate();
+}
+
+function weekdayIndex(weekday: RecurrenceWeekday): number {
+  return WEEKDAYS.indexOf(weekday);
+}
+
+/** Days in the given month selected by BYDAY / BYMONTHDAY (or `defaultDay`). */
+function monthDays(year: number, month0: number, rule: RecurrenceRule, defaultDay: number): number[] {
+  const length = daysInMonth(year, month0);
+  const days = new Set<number>();
+
+  for (const md of rule.byMonthDay ?? []) {
+    const day = md > 0 ? md : length + md + 1;
+    if (day >= 1 && day <= length) days.add(day);
+  }
+
+  for (const { weekday, ordinal } of rule.byDay ?? []) {
+    const matches: number[] = [];
+    for (let day = 1; day <= length; day++) {
+      if (new Date(Date.UTC(year, month0, day)).getUTCDay() === weekdayIndex(weekday)) {
+        matches.push(day);
+      }
+    }
+    if (ordinal === undefined) {
+      matches.forEach((day) => days.add(day));
+    } else {
+      const day = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+      if (day !== undefined) days.add(day);
+    }
+  }
+
+  if (!rule.byMonthDay?.length && !rule.byDay?.length && defaultDay <= length) {
+    days.add(defaultDay);
+  }
+
+  return [...days].sort((a, b) => a - b).map((day) => Date.UTC(year, month0, day));
+}
+
+/** Candidate days for the `period`-th interval after the start period. */
+function periodDays(rule: RecurrenceRule, startDay: number, period: number): number[] {
+  const start = new Date(startDay);
+  const step = period * rule.interval;
+
+  switch (rule.freq) {
+    case "DAILY":
+      return [startDay + step * MS_PER_DAY];
+
+    case "WEEKLY": {
+      // Weeks start on Monday (RFC 5545 default WKST).
+      const mondayOffset = (start.getUTCDay() + 6) % 7;
+      const weekStart = startDay - mondayOffset * MS_PER_DAY + step * 7 * MS_PER_DAY;
+      const weekdays = rule.byDay?.length
+        ? rule.byDay.map((d) => weekdayIndex(d.weekday))
+        : [start.getUTCDay()];
+      return [...new Set(weekdays)]
+        .map((wd) => weekStart + ((wd + 6) % 7) * MS_PER_DAY)
+        .sort((a, b) => a - b);
+    }
+
+    case "MONTHLY": {
+      const monthIndex = start.getUTCMonth() + step;
+      const year = start.getUTCFullYear() + Math.floor(monthIndex / 12);
+      return monthDays(year, ((monthIndex % 12) + 12) % 12, rule, start.getUTCDate());
+    }
+
+    case "YEARLY": {
+      const year = start.getUTCFullYear() + step;
+      const months = rule.byMonth?.length ? rule.byMonth.map((m) => m - 1) : [start.getUTCMonth()];
+      return [...months]
+        .sort((a, b) => a - b)
+        .flatMap((month0) => monthDays(year, month0, rule, start.getUTCDate()));
+    }
+  }
+}
+
+// ─── Expansion ────────────────────────────────────────────────────────────────
+
+/**
+ * Expands a recurring event into occurrence start instants.  COUNT is applied
+ * before EXDATE removal, as RFC 5545 specifies.
+ */
+export function expandRecurrence(input: ExpandRecurrenceInput): Date[] {
+  const { rule, timeZone } = input;
+  const maxOccurrences = input.maxOccurrences ?? DEFAULT_MAX_OCCURRENCES;
+  const rangeStartMs = input.rangeStart?.getTime() ?? Number.NEGATIVE_INFINITY;
+  const rangeEndMs = input.rangeEnd.getTime();
+  const untilMs = rule.until?.getTime() ?? Number.POSITIVE_INFINITY;
+  const excluded = new Set((input.exdates ?? []).map((d) => Math.floor(d.getTime() / 1000)));
+
+  const startMs = input.start.getTime();
+  const startWall = toWallClockMs(startMs, timeZone);
+  const startDay = Math.floor(startWall / MS_PER_DAY) * MS_PER_DAY;
+  const timeOfDay = startWall - startDay;
+
+  const occurrences: Date[] = [];
+  let generated = 0;
+
+  const emit = (instantMs: number): boolean => {
+    generated++;
+    if (
+      instantMs >= rangeStartMs &&
+      !excluded.has(Math.floor(instantMs / 1000))
+    ) {
+      occurrences.push(new Date(instantMs));
+    }
+    return occurrences.length < maxOccurrences && (rule.count === undefined || generated < rule.count);
+  };
+
+  // DTSTART is always the first instance.
+  if (startMs > untilMs || startMs > rangeEndMs || !emit(startMs)) {
+    return occurrences;
+  }
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const day of periodDays(rule, startDay, period)) {
+      const wall = day + timeOfDay;
+      if (wall <= startWall) continue;
+      if (rule.byMonth?.length && rule.freq !== "YEARLY" && !rule.byMonth.includes(new Date(day).getUTCMonth() + 1)) {
+        continue;
+      }
+
+      const instantMs = timeZone === "UTC" ? wall : fromWallClockMs(wall, timeZone);
+      if (instantMs > untilMs || instantMs > rangeEndMs) {
+        return occurrences;
+      }
+      if (!emit(instantMs)) {
+        return occurrences;
+      }
+    }
+  }
+
+  return occurrences;
+}
@@ -0,0 +1,177 @@
+/**
+ * KidSchedule – Child Support Tracking
+ *
+ * Court-ordered support: one parent owes the other a fixed installment on a
+ * schedule.  Expected installments are derived from the obligation (never
+ * stored); payments the receiving parent records are applied to the oldest
+ * installment first.  An installment not covered `graceDays` after its due
+ * date is overdue, and the overdue remainder is the arrears.
+ */
+
+import { db } from "@/lib/persistence";
+import type { DbSupportObligation, DbSupportPayment } from "@/lib/persistence/types";
+import type { LedgerResult } from "@/lib/expense-ledger";
+import { isExpenseFrequency } from "@/lib/expense-engine";
+import { nextOccurrenceAfter, occurrencesBetween } from "@/lib/recurring-expenses";
+import { logEvent } from "@/lib/observability/logger";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type SupportInstallmentStatus = "paid" | "due" | "overdue";
+
+export interface SupportInstallment {
+  dueDate: string;
+  expectedCents: number;
+  receivedCents: number; // applied to this installment
+  status: SupportInstallmentStatus;
+}
+
+/** Expected versus received for one obligation as of a date */
+export interface SupportStatement {
+  obligation: DbSupportObligation;
+  asOf: string;
+  installments: SupportInstallment[]; // due on or before asOf, oldest first
+  expectedCents: number;
+  receivedCents: number;
+  /** Overdue past the grace period */
+  arrearsCents: number;
+  /** Paid ahead of the schedule */
+  creditCents: number;
+  inArrears: boolean;
+  /** Due date of the oldest overdue installment */
+  overdueSince?: string;
+  nextDueDate?: string;
+}
+
+const MAX_GRACE_DAYS = 60;
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 86_400_000).toISOString().slice(0, 10);
+}
+
+// ─── Statement ────────────────────────────────────────────────────────────────
+
+/**
+ * Apply the payments received by `asOf` to the installments due by then,
+ * oldest first, and total what is expected, received and overdue.
+ */
+export function buildSupportStatement(
+  obligation: DbSupportObligation,
+  payments: DbSupportPayment[],
+  asOf: string
+): SupportStatement {
+  const dueDates = occurrencesBetween(obligation, obligation.startDate, asOf);
+  const receivedCents = payments
+    .filter((p) => p.obligationId === obligation.id && p.receivedOn <= asOf)
+    .reduce((sum, p) => sum + p.amountCents, 0);
+
+  let available = receivedCents;
+  const installments = dueDates.map((dueDate): SupportInstallment => {
+    const applied = Math.min(available, obligation.amountCents);
+    available -= applied;
+    let status: SupportInstallmentStatus = "paid";
+    if (applied < obligation.amountCents) {
+      status = addDays(dueDate, obligation.graceDays) < asOf ? "overdue" : "due";
+    }
+    return { dueDate, expectedCents: obligation.amountCents, receivedCents: applied, status };
+  });
+
+  const overdue = installments.filter((i) => i.status === "overdue");
+  const arrearsCents = overdue.reduce((sum, i) => sum + i.expectedCents - i.receivedCents, 0);
+
+  return {
+    obligation,
+    asOf,
+    installments,
+    expectedCents: installments.length * obligation.amountCents,
+    receivedCents,
+    arrearsCents,
+    creditCents: available,
+    inArrears: arrearsCents > 0,
+    overdueSince: overdue[0]?.dueDate,
+    nextDueDate: nextOccurrenceAfter(obligation, asOf) ?? undefined,
+  };
+}
+
+/** A statement for every obligation in the family */
+export async function loadSupportStatements(familyId: string, asOf: string): Promise<SupportStatement[]> {
+  const [obligations, payments] = await Promise.all([
+    db.supportObligations.findByFamilyId(familyId),
+    db.supportPayments.findByFamilyId(familyId),
+  ]);
+  return obligations.map((obligation) => buildSupportStatement(obligation, payments, asOf));
+}
+
+// ─── Operations ───────────────────────────────────────────────────────────────
+
+export async function createSupportObligation(
+  input: Omit<DbSupportObligation, "id" | "createdAt" | "updatedAt">
+): Promise<LedgerResult<{ obligation: DbSupportObligation }>> {
+  const parents = await db.parents.findByFamilyId(input.familyId);
+  const inFamily = (id: string) => parents.some((p) => p.id === id);
+
+  if (!inFamily(input.payerParentId) || !inFamily(input.payeeParentId) || input.payerParentId === input.payeeParentId) {
+    return { success: false, error: "Support is paid by one parent in the family to the other" };
+  }
+  if (!Number.isInteger(input.amountCents) || input.amountCents <= 0) {
+    return { success: false, error: "Amount must be a positive number of cents" };
+  }
+  if (!isExpenseFrequency(input.frequency)) {
+    return { success: false, error: "Choose how often support is due" };
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.startDate)) {
+    return { success: false, error: "First due date is required" };
+  }
+  if (input.endDate && input.endDate < input.startDate) {
+    return { success: false, error: "The end date must be on or after the first due date" };
+  }
+  if (!Number.isInteger(input.graceDays) || input.graceDays < 0 || input.graceDays > MAX_GRACE_DAYS) {
+    return { success: false, error: `Grace period must be 0 to ${MAX_GRACE_DAYS} days` };
+  }
+
+  const obligation = await db.supportObligations.create(input);
+  logEvent("info", "support_obligation.created", {
+    obligationId: obligation.id,
+    familyId: obligation.familyId,
+    frequency: obligation.frequency,
+  });
+  return { success: true, obligation };
+}
+
+/** Record support received; either parent on the obligation may record it */
+export async function recordSupportPayment(input: {
+  obligation: DbSupportObligation;
+  amountCents: number;
+  receivedOn: string;
+  recordedBy: string;
+  note?: string;
+  today?: string;
+}): Promise<LedgerResult<{ payment: DbSupportPayment }>> {
+  const { obligation, amountCents, receivedOn, recordedBy } = input;
+  const today = input.today ?? new Date().toISOString().slice(0, 10);
+
+  if (recordedBy !== obligation.payerParentId && recordedBy !== obligation.payeeParentId) {
+    return { success: false, error: "Only the parents on this obligation can record payments" };
+  }
+  if (!Number.isInteger(amountCents) || amountCents <= 0) {
+    return { success: false, error: "Amount must be a positive number of cents" };
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(receivedOn) || receivedOn > today) {
+    return { success: false, error: "Enter the date the payment was received" };
+  }
+
+  const payment = await db.supportPayments.create({
+    obligationId: obligation.id,
+    familyId: obligation.familyId,
+    amountCents,
+    receivedOn,
+    note: input.note?.trim() || undefined,
+    recordedBy,
+  });
+  logEvent("info", "support_payment.recorded", {
+    obligationId: obligation.id,
+    familyId: obligation.familyId,
+    amountCents,
+  });
+  return { success: true, payment };
+}
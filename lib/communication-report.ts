@@ -2,6 +2,7 @@ import { getDb } from "@/lib/persistence";
 import { MediationAnalyzer } from "@/lib/mediation";
 import { CustodyComplianceEngine } from "@/lib/custody";
 import { verifyChain } from "@/lib/hash-chain-engine";
+import { loadDisputeHistory, type DisputeHistoryEntry } from "@/lib/expense-disputes";
 import type { WarningSignal, WarningSeverity } from "@/lib/mediation";
 import type { CustodyComplianceReport } from "@/lib/custody";
 import type { DbMessage } from "@/lib/persistence/types";
@@ -35,7 +36,7 @@ export interface ToneSummary {
 
 export interface TimelineEvent {
   occurredAt: string;
-  type: "message" | "override" | "change_request" | "mediation_signal";
+  type: "message" | "override" | "change_request" | "mediation_signal" | "expense_dispute" | "schedule_change";
   description: string;
   severity?: WarningSeverity;
   parentId?: string;
@@ -54,6 +55,7 @@ export interface CommunicationReport {
     isCompliant: boolean;
   };
   timelineEvents: TimelineEvent[];
+  expenseDisputes: DisputeHistoryEntry[];  // disputes opened in the period, with threads
   hashChainRoot: string;                  // SHA-256 of last message hash in period
   hashChainValid: boolean;
   generatedAt: string;
@@ -235,6 +237,55 @@ export async function generateCommunicationReport(
     });
   }
 
+  // Expense disputes opened in the period, and how each was resolved
+  const expenseDisputes = await loadDisputeHistory(familyId, { start: startDate, end: endDate });
+  for (const { dispute, expenseTitle } of expenseDisputes) {
+    const openedBy = parentMap.get(dispute.openedBy)?.name ?? "parent";
+    timelineEvents.push({
+      occurredAt: dispute.createdAt,
+      type: "expense_dispute",
+      description: `${openedBy} disputed expense "${expenseTitle}": ${dispute.reason}`,
+      parentId: dispute.openedBy,
+    });
+    if (dispute.status !== "open" && dispute.resolvedAt) {
+      timelineEvents.push({
+        occurredAt: dispute.resolvedAt,
+        type: "expense_dispute",
+        description:
+          dispute.status === "adjusted"
+            ? `Dispute over "${expenseTitle}" resolved by agreed adjustment`
+            : `Dispute over "${expenseTitle}" withdrawn by ${openedBy}`,
+        parentId: dispute.resolvedBy,
+      });
+    }
+  }
+
+  // Schedule changes proposed or answered in the period
+  const inPeriod = (iso: string) => {
+    const t = new Date(iso).getTime();
+    return t >= start && t <= end;
+  };
+  for (const version of await db.custodyScheduleVersions.findByFamilyId(familyId)) {
+    const proposedBy = parentMap.get(version.proposedBy)?.name ?? "parent";
+    if (inPeriod(version.createdAt)) {
+      timelineEvents.push({
+        occurredAt: version.createdAt,
+        type: "schedule_change",
+        description: `${proposedBy} proposed schedule "${version.name}" from ${version.effectiveDate}`,
+        parentId: version.proposedBy,
+      });
+    }
+    if (version.status !== "pending" && version.respondedAt && inPeriod(version.respondedAt)) {
+      const respondedBy = version.respondedBy ? parentMap.get(version.respondedBy)?.name ?? "parent" : "parent";
+      timelineEvents.push({
+        occurredAt: version.respondedAt,
+        type: "schedule_change",
+        description: `Schedule "${version.name}" from ${version.effectiveDate} ${version.status} by ${respondedBy}`,
+        parentId: version.respondedBy,
+      });
+    }
+  }
+
   timelineEvents.sort(
     (a, b) => new Date(a.occurredAt).getTime() - new Date(b.occurredAt).getTime()
   );
@@ -287,6 +338,7 @@ export async function generateCommunicationReport(
     mediationSuggestions,
     complianceHighlights,
     timelineEvents,
+    expenseDisputes,
     hashChainRoot,
     hashChainValid,
     generatedAt: new Date().toISOString(),
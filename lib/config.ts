@@ -30,9 +30,21 @@ interface ExportConfig {
   };
 }
 
-interface MomentsStorageConfig {
-  storagePath: string;
-  baseUrl: string;
+interface StorageConfig {
+  provider: "local" | "s3";
+  signedUrlTtlSeconds: number;
+  local: {
+    rootDir: string;
+    signingSecret: string;
+  };
+  s3?: {
+    bucket: string;
+    region: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    endpoint?: string;
+    forcePathStyle: boolean;
+  };
 }
 
 function validateRequired(name: string, value?: string): string {
@@ -99,16 +111,42 @@ export function getConfig(): ExportConfig {
   };
 }
 
-export function getMomentsStorageConfig(): MomentsStorageConfig {
+/**
+ * Object storage for vault documents and moments.  STORAGE_PROVIDER=s3
+ * targets any S3-compatible store (set S3_ENDPOINT and
+ * S3_FORCE_PATH_STYLE=true for MinIO); otherwise files go to local disk
+ * under STORAGE_LOCAL_PATH.
+ */
+export function getStorageConfig(): StorageConfig {
+  const provider = process.env.STORAGE_PROVIDER?.toLowerCase() === "s3" ? "s3" : "local";
   return {
-    storagePath: validateOptional(
-      process.env.MOMENTS_STORAGE_PATH,
-      "./public/moments"
-    ),
-    baseUrl: validateOptional(
-      process.env.MOMENTS_STORAGE_BASE_URL,
-      "/moments/"
-    ),
+    provider,
+    signedUrlTtlSeconds: parseInt(process.env.STORAGE_SIGNED_URL_TTL_SECONDS ?? "300"),
+    local: {
+      // Vault files written before object storage live under /uploads/vault
+      rootDir: validateOptional(process.env.STORAGE_LOCAL_PATH, "/uploads"),
+      signingSecret: validateOptional(
+        process.env.STORAGE_SIGNING_SECRET,
+        process.env.AUTH_JWT_SECRET
+      ),
+    },
+    s3:
+      provider === "s3"
+        ? {
+            bucket: validateRequired("S3_BUCKET", process.env.S3_BUCKET),
+            region: validateOptional(process.env.S3_REGION, "us-east-1"),
+            accessKeyId: validateRequired(
+              "S3_ACCESS_KEY_ID",
+              process.env.S3_ACCESS_KEY_ID
+            ),
+            secretAccessKey: validateRequired(
+              "S3_SECRET_ACCESS_KEY",
+              process.env.S3_SECRET_ACCESS_KEY
+            ),
+            endpoint: process.env.S3_ENDPOINT || undefined,
+            forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+          }
+        : undefined,
   };
 }
 
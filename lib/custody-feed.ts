@@ -0,0 +1,213 @@
+/**
+ * KidSchedule – Custody Feed Builder
+ *
+ * Turns a family's custody schedule (plus active overrides) into calendar
+ * feed events: one event per continuous custody period and one per handoff.
+ * UIDs are derived from the period start / handoff instant and the receiving
+ * parent, so a subscribed calendar sees the same UID on every refresh and
+ * updates events in place instead of duplicating them.
+ *
+ * Pure functions only – the feed routes do the data fetching.
+ */
+
+import type { CustodySchedule, Family, Parent, ScheduleOverride } from "@/lib";
+import { CustodyEngine, SchedulePresets, toCustodySchedule, toScheduleVersions } from "@/lib/custody";
+import type { DbCalendarEvent as ICalEvent } from "@/lib/ical-generator";
+import type { DbChild, DbCustodySchedule, DbCustodyScheduleVersion, DbFamily, DbParent } from "@/lib/persistence/types";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/**
+ * Which events a feed carries:
+ *  - "all"        – custody periods, handoffs and calendar events
+ *  - "custody"    – custody periods and handoffs only
+ *  - "activities" – calendar events only
+ */
+export type FeedContent = "all" | "custody" | "activities";
+
+export interface CustodyFeedRange {
+  start: Date;
+  end: Date;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const DEFAULT_TRANSITION_HOUR = 17;
+const FEED_LOOKBACK_DAYS = 90;
+const FEED_LOOKAHEAD_DAYS = 365;
+const HANDOFF_EVENT_MINUTES = 15;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Upper bound on emitted periods; guards against degenerate 1-day rotations. */
+const MAX_FEED_PERIODS = 1000;
+
+// ─── Parsing ──────────────────────────────────────────────────────────────────
+
+/** Parses the `?include=` query parameter; unknown or missing values mean "all". */
+export function parseFeedContent(value: string | null | undefined): FeedContent {
+  return value === "custody" || value === "activities" ? value : "all";
+}
+
+export function feedIncludesCustody(content: FeedContent): boolean {
+  return content !== "activities";
+}
+
+export function feedIncludesActivities(content: FeedContent): boolean {
+  return content !== "custody";
+}
+
+/** Default feed window: 90 days back, one year ahead. */
+export function defaultCustodyFeedRange(now: Date = new Date()): CustodyFeedRange {
+  return {
+    start: new Date(now.getTime() - FEED_LOOKBACK_DAYS * MS_PER_DAY),
+    end: new Date(now.getTime() + FEED_LOOKAHEAD_DAYS * MS_PER_DAY),
+  };
+}
+
+// ─── Family Assembly ──────────────────────────────────────────────────────────
+
+function mapParent(row: DbParent): Parent {
+  return {
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    avatarUrl: row.avatarUrl ?? undefined,
+    phone: row.phone ?? undefined,
+    timezone: row.timezone,
+    role: row.caregiverRole,
+  };
+}
+
+function sortParents(rows: DbParent[]): Parent[] {
+  return rows
+    .slice()
+    .sort((a, b) => {
+      if (a.role === b.role) return a.name.localeCompare(b.name);
+      return a.role === "primary" ? -1 : 1;
+    })
+    .map(mapParent);
+}
+
+/**
+ * Builds the engine-level Family for a feed.  Uses the family's active custody
+ * schedule when one exists and parses, otherwise falls back to the preset named
+ * by `family.scheduleId` – the same resolution the calendar page uses.
+ * Approved `dbVersions` take over from their effective dates; `dbChildren`
+ * date the schedule's age-based step-up phases.
+ *
+ * Returns null when the family does not have two parents yet; such families
+ * have no custody periods to publish.
+ */
+export function buildFeedFamily(
+  dbFamily: DbFamily,
+  dbParents: DbParent[],
+  dbSchedule: DbCustodySchedule | null,
+  dbVersions: DbCustodyScheduleVersion[] = [],
+  dbChildren: DbChild[] = []
+): Family | null {
+  const parents = sortParents(dbParents);
+  if (parents.length < 2) {
+    return null;
+  }
+  const [primary, secondary] = parents;
+
+  const schedule: CustodySchedule = (dbSchedule && toCustodySchedule(dbSchedule)) ?? {
+    id: dbFamily.scheduleId || "family-schedule",
+    name: "Family Schedule",
+    transitionHour: DEFAULT_TRANSITION_HOUR,
+    blocks: SchedulePresets.forScheduleId(dbFamily.scheduleId, primary.id, secondary.id),
+  };
+
+  return {
+    id: dbFamily.id,
+    parents,
+    children: dbChildren.map((child) => ({
+      id: child.id,
+      firstName: child.firstName,
+      lastName: child.lastName,
+      dateOfBirth: child.dateOfBirth,
+      avatarUrl: child.avatarUrl,
+    })),
+    custodyAnchorDate: dbFamily.custodyAnchorDate,
+    timezone: dbFamily.timezone,
+    schedule,
+    scheduleVersions: toScheduleVersions(dbVersions),
+  };
+}
+
+// ─── Event Generation ─────────────────────────────────────────────────────────
+
+function custodyPeriodUid(familyId: string, startMs: number, parentId: string): string {
+  return `custody-${startMs}-${parentId}@${familyId}.kidschedule.app`;
+}
+
+function handoffUid(familyId: string, atMs: number, toParentId: string): string {
+  return `handoff-${atMs}-${toParentId}@${familyId}.kidschedule.app`;
+}
+
+function firstName(parent: Parent): string {
+  return parent.name.split(" ")[0] || parent.name;
+}
+
+/**
+ * Generates custody period and handoff events overlapping `range`.
+ *
+ * Periods are the spans between custodian changes as resolved by
+ * CustodyEngine (base rotation with active overrides applied), so a period
+ * that began before `range.start` keeps its real start – and its UID.
+ * Periods are published as transparent so they do not block free/busy time.
+ */
+export function buildCustodyFeedEvents(
+  family: Family,
+  overrides: ScheduleOverride[],
+  range: CustodyFeedRange
+): ICalEvent[] {
+  const engine = new CustodyEngine(family, overrides);
+  const events: ICalEvent[] = [];
+  const endMs = range.end.getTime();
+
+  let cursor = range.start;
+  for (let i = 0; i < MAX_FEED_PERIODS && cursor.getTime() < endMs; i++) {
+    const status = engine.getStatus(cursor);
+    const parent = status.currentParent;
+    const title = status.override
+      ? `${firstName(parent)} – ${status.override.title}`
+      : `With ${firstName(parent)}`;
+
+    events.push({
+      id: `custody-${status.periodStart.getTime()}`,
+      uid: custodyPeriodUid(family.id, status.periodStart.getTime(), parent.id),
+      familyId: family.id,
+      title,
+      description: status.override?.description ?? `Custody: ${parent.name}`,
+      startDate: status.periodStart,
+      endDate: status.periodEnd,
+      isAllDay: false,
+      category: "custody",
+      transparent: true,
+    });
+
+    // Guard against a non-advancing period (should not happen, but a stuck
+    // cursor would loop until MAX_FEED_PERIODS).
+    if (status.periodEnd.getTime() <= cursor.getTime()) break;
+    cursor = status.periodEnd;
+  }
+
+  for (const transition of engine.getTransitionsInRange(range.start, range.end)) {
+    const atMs = transition.at.getTime();
+    events.push({
+      id: `handoff-${atMs}`,
+      uid: handoffUid(family.id, atMs, transition.toParent.id),
+      familyId: family.id,
+      title: `Handoff: ${firstName(transition.fromParent)} → ${firstName(transition.toParent)}`,
+      description: `${transition.fromParent.name} hands off to ${transition.toParent.name}`,
+      location: transition.location,
+      startDate: transition.at,
+      endDate: new Date(atMs + HANDOFF_EVENT_MINUTES * 60 * 1000),
+      isAllDay: false,
+      category: "custody",
+    });
+  }
+
+  return events;
+}
@@ -1,32 +1,47 @@
 /**
  * KidSchedule – CustodyComplianceEngine
  *
- * Generates custody compliance reports by comparing actual calendar events
- * against the scheduled custody arrangements. Tracks actual vs. scheduled time,
- * compliance percentages, and generates audit trails for legal proceedings.
+ * Generates custody compliance reports by comparing the handoff check-ins
+ * parents record against the scheduled custody arrangements. Tracks actual
+ * vs. scheduled time, exchange lateness, missed exchanges, make-up time owed
+ * and compliance percentages, and generates audit trails for legal
+ * proceedings.
  */
 
 import type {
   Family,
   Parent,
   Child,
-  CalendarEvent,
+  ChildCustody,
   CustodySchedule,
   ScheduleBlock,
-  EventCategory,
-  ConfirmationStatus,
+  ScheduleSeason,
+  ScheduleVersion,
   ChangeRequestStatus,
   ScheduleOverride,
   ScheduleChangeRequest,
+  WeeklyBlock,
 } from "@/lib";
 import { getDb } from "@/lib/persistence";
+import type { DbCustodySchedule, DbCustodyScheduleVersion } from "@/lib/persistence/types";
+import {
+  HANDOFF_MATCH_WINDOW_HOURS,
+  custodySwitchAt,
+  custodySwitches,
+  matchHandoffExchanges,
+  type CustodySwitch,
+  type HandoffExchange,
+} from "@/lib/handoffs";
 
 export interface CustodyPeriod {
   startTime: string; // ISO timestamp
   endTime: string;   // ISO timestamp
   scheduledParentId: string;
   actualParentId?: string;
-  eventId?: string;
+  /** Check-in that put the kids with the actual parent, if any */
+  checkInId?: string;
+  /** Set when an override, not the base rotation, assigned the scheduled parent */
+  overrideId?: string;
   compliance: boolean;
   notes?: string;
 }
@@ -44,8 +59,14 @@ export interface CustodyComplianceReport {
     compliancePercentage: number;
     totalDeviations: number;
     totalOverrides: number;
+    totalExchanges: number;
+    lateExchanges: number;
+    missedExchanges: number;
+    disputedExchanges: number;
+    averageLatenessMinutes: number; // across late exchanges
   };
   periods: CustodyPeriod[];
+  exchanges: HandoffExchange[];
   overrides: ScheduleOverride[];
   changeRequests: ScheduleChangeRequest[];
   generatedAt: string;
@@ -58,8 +79,16 @@ export interface ComplianceMetrics {
   compliancePercentage: number;
   deviationHours: number;
   overrideCount: number;
+  /** Exchanges this parent was due to hand the kids over at, late or not at all */
+  lateExchanges: number;
+  missedExchanges: number;
+  /** Scheduled hours the other parent actually had the kids */
+  makeUpHoursOwed: number;
 }
 
+/** How far before the report to look for the check-in that set initial custody */
+const CHECK_IN_LOOKBACK_MS = 14 * 24 * 60 * 60 * 1000;
+
 export class CustodyComplianceEngine {
   /**
    * Generate a custody compliance report for a family over a date range.
@@ -78,34 +107,28 @@ export class CustodyComplianceEngine {
     }
 
     // Get parents, children, and schedule to construct full Family object
-    const [dbParents, dbChildren] = await Promise.all([
+    const [dbParents, dbChildren, dbVersions, dbSchedule] = await Promise.all([
       db.parents.findByFamilyId(familyId),
       db.children.findByFamilyId(familyId),
+      db.custodyScheduleVersions.findApprovedByFamilyId(familyId),
+      db.custodySchedules.findActiveByFamilyId(familyId),
     ]);
 
-    // Get schedule directly from database
-    const { sql } = await import("@/lib/persistence/postgres/client");
-    const scheduleRows = await sql`
-      SELECT id, name, transition_hour, blocks, is_active
-      FROM custody_schedules
-      WHERE id = ${dbFamily.scheduleId} AND is_active = true
-      LIMIT 1
-    `;
-
-    if (scheduleRows.length === 0) {
+    // With its seasons, step-up phases and weekly blocks
+    const schedule = dbSchedule ? toCustodySchedule(dbSchedule) : null;
+    if (!schedule) {
       throw new Error(`Active schedule not found for family ${familyId}`);
     }
 
-    const dbSchedule = scheduleRows[0];
-
     // Convert DbParent[] to Parent[]
-    const parents: [Parent, Parent] = dbParents.map(dbParent => ({
+    const parents: Parent[] = dbParents.map(dbParent => ({
       id: dbParent.id,
       name: dbParent.name,
       email: dbParent.email,
       avatarUrl: dbParent.avatarUrl,
       phone: dbParent.phone,
-    })) as [Parent, Parent];
+      role: dbParent.caregiverRole,
+    }));
 
     // Convert DbChild[] to Child[]
     const children: Child[] = dbChildren.map(dbChild => ({
@@ -116,54 +139,37 @@ export class CustodyComplianceEngine {
       avatarUrl: dbChild.avatarUrl,
     }));
 
-    // Convert DbCustodySchedule to CustodySchedule
-    const schedule: CustodySchedule = {
-      id: dbSchedule.id,
-      name: dbSchedule.name,
-      transitionHour: dbSchedule.transitionHour,
-      blocks: dbSchedule.blocks as ScheduleBlock[],
-    };
-
     // Construct full Family object
     const family: Family = {
       id: dbFamily.id,
       parents,
       children,
       custodyAnchorDate: dbFamily.custodyAnchorDate,
+      timezone: dbFamily.timezone,
       schedule,
+      // Each day is graded against the version in force on it
+      scheduleVersions: toScheduleVersions(dbVersions),
     };
 
-    // Create custody engine for this family
-    const custodyEngine = new CustodyEngine(family);
-
-    // Get calendar events for the period
-    const dbCalendarEvents = await db.calendarEvents.findByFamilyIdAndDateRange(
+    // Get schedule overrides for the period; active ones decide scheduled custody
+    const overrides = await db.scheduleOverrides.findByTimeRange(
       familyId,
       startDate,
-      endDate
+      endDate,
     );
+    const activeOverrides = overrides.filter((o) => o.status === "active");
 
-    // Convert DbCalendarEvent[] to CalendarEvent[]
-    const calendarEvents: CalendarEvent[] = dbCalendarEvents.map(dbEvent => ({
-      id: dbEvent.id,
-      familyId: dbEvent.familyId,
-      title: dbEvent.title,
-      description: dbEvent.description,
-      category: dbEvent.category as EventCategory,
-      startAt: dbEvent.startAt,
-      endAt: dbEvent.endAt,
-      allDay: dbEvent.allDay,
-      location: dbEvent.location,
-      parentId: dbEvent.parentId,
-      confirmationStatus: dbEvent.confirmationStatus as ConfirmationStatus,
-      createdBy: dbEvent.createdBy,
-    }));
+    // Create custody engine for this family
+    const custodyEngine = new CustodyEngine(family, activeOverrides);
 
-    // Get schedule overrides for the period
-    const overrides = await db.scheduleOverrides.findByTimeRange(
+    // Get recorded exchanges, plus enough before the period to know who had
+    // the kids when it starts and enough after to match its last transition
+    const rangeStart = new Date(startDate);
+    const rangeEnd = new Date(`${endDate}T23:59:59.999Z`);
+    const checkIns = await db.handoffCheckIns.findByFamilyIdAndRange(
       familyId,
-      startDate,
-      endDate,
+      new Date(rangeStart.getTime() - CHECK_IN_LOOKBACK_MS).toISOString(),
+      new Date(rangeEnd.getTime() + HANDOFF_MATCH_WINDOW_HOURS * 60 * 60 * 1000).toISOString(),
     );
 
     // Get change requests for the period
@@ -186,16 +192,22 @@ export class CustodyComplianceEngine {
       responseNote: dbRequest.responseNote,
     }));
 
-    // Generate compliance periods
+    // Generate compliance periods from recorded custody, and grade each
+    // scheduled exchange against its check-ins
+    const switches = custodySwitches(checkIns);
     const periods = await this.generateCompliancePeriods(
       custodyEngine,
       startDate,
       endDate,
-      calendarEvents
+      switches
+    );
+    const exchanges = matchHandoffExchanges(
+      custodyEngine.getTransitionsInRange(rangeStart, rangeEnd),
+      checkIns
     );
 
     // Calculate summary metrics
-    const summary = this.calculateSummaryMetrics(periods);
+    const summary = this.calculateSummaryMetrics(periods, exchanges, activeOverrides.length);
 
     return {
       familyId,
@@ -203,6 +215,7 @@ export class CustodyComplianceEngine {
       parents: family.parents,
       summary,
       periods,
+      exchanges,
       overrides,
       changeRequests,
       generatedAt: new Date().toISOString(),
@@ -211,74 +224,88 @@ export class CustodyComplianceEngine {
 
   /**
    * Generate detailed compliance periods by comparing scheduled vs actual custody.
+   *
+   * Each day is split at every custody change the engine reports, so holiday
+   * and swap overrides are reflected in the scheduled parent, and again at
+   * every recorded exchange.  Until the first check-in, the kids are assumed
+   * to be where the schedule put them.
    */
   private async generateCompliancePeriods(
     custodyEngine: CustodyEngine,
     startDate: string,
     endDate: string,
-    calendarEvents: CalendarEvent[],
+    switches: CustodySwitch[],
   ): Promise<CustodyPeriod[]> {
     const periods: CustodyPeriod[] = [];
     const start = new Date(startDate);
     const end = new Date(endDate);
 
     // Process each day in the range
-    for (let current = new Date(start); current <= end; current.setDate(current.getDate() + 1)) {
+    for (let current = new Date(start); current <= end; current.setUTCDate(current.getUTCDate() + 1)) {
       const dayStart = new Date(current);
-      dayStart.setHours(0, 0, 0, 0);
+      dayStart.setUTCHours(0, 0, 0, 0);
 
       const dayEnd = new Date(current);
       const END_OF_DAY_HOURS = 23;
       const END_OF_DAY_MINUTES = 59;
       const END_OF_DAY_SECONDS = 59;
       const END_OF_DAY_MS = 999;
-      dayEnd.setHours(END_OF_DAY_HOURS, END_OF_DAY_MINUTES, END_OF_DAY_SECONDS, END_OF_DAY_MS);
-
-      const scheduledTransitions = custodyEngine.getTransitionsInRange(dayStart, dayEnd);
-
-      // Apply overrides
-      const effectiveTransitions = this.applyOverridesToTransitions(
-        scheduledTransitions,
-      );
-
-      // Create periods for each transition
-      for (let i = 0; i < effectiveTransitions.length; i++) {
-        const transition = effectiveTransitions[i];
-        const periodStart = new Date(transition.timestamp);
-        // Calculate period end
-        let periodEnd: Date;
-        if (i < effectiveTransitions.length - 1) {
-          periodEnd = new Date(effectiveTransitions[i + 1].timestamp);
-        } else {
-          periodEnd = new Date(dayEnd);
-        }
-
-        // Find actual calendar event for this period
-        const actualEvent = calendarEvents.find(event => {
-          const eventStart = new Date(event.startAt);
-          const eventEnd = new Date(event.endAt);
-          return eventStart < periodEnd && eventEnd > periodStart;
+      dayEnd.setUTCHours(END_OF_DAY_HOURS, END_OF_DAY_MINUTES, END_OF_DAY_SECONDS, END_OF_DAY_MS);
+
+      // Scheduled custody segments for the day: [dayStart, t1), [t1, t2), …, [tn, dayEnd]
+      let segmentStart = dayStart;
+      let scheduled = custodyEngine.getStatus(dayStart);
+      const segments: Array<{ start: Date; end: Date; parentId: string; overrideId?: string }> = [];
+
+      for (const transition of custodyEngine.getTransitionsInRange(dayStart, dayEnd)) {
+        segments.push({
+          start: segmentStart,
+          end: transition.at,
+          parentId: scheduled.currentParent.id,
+          overrideId: scheduled.override?.id,
         });
+        segmentStart = transition.at;
+        scheduled = custodyEngine.getStatus(transition.at);
+      }
+      segments.push({
+        start: segmentStart,
+        end: dayEnd,
+        parentId: scheduled.currentParent.id,
+        overrideId: scheduled.override?.id,
+      });
 
-        // Set notes based on event
-        let notes: string;
-        if (actualEvent) {
-          notes = `Event: ${actualEvent.title}`;
-        } else {
-          notes = 'No calendar event recorded';
+      for (const segment of segments) {
+        // Split again wherever the kids actually changed hands
+        const cuts = switches
+          .map((s) => s.atMs)
+          .filter((atMs) => atMs > segment.start.getTime() && atMs < segment.end.getTime());
+        const bounds = [segment.start.getTime(), ...cuts, segment.end.getTime()];
+
+        for (let i = 0; i < bounds.length - 1; i++) {
+          const recorded = custodySwitchAt(switches, bounds[i]);
+          const actualParentId = recorded?.parentId ?? segment.parentId;
+          const compliance = actualParentId === segment.parentId;
+
+          let notes: string;
+          if (!recorded) {
+            notes = "No check-in recorded yet; assumed per schedule";
+          } else if (compliance) {
+            notes = "Per recorded exchange";
+          } else {
+            notes = "Exchange late or not recorded";
+          }
+
+          periods.push({
+            startTime: new Date(bounds[i]).toISOString(),
+            endTime: new Date(bounds[i + 1]).toISOString(),
+            scheduledParentId: segment.parentId,
+            actualParentId,
+            checkInId: recorded?.checkInId,
+            overrideId: segment.overrideId,
+            compliance,
+            notes,
+          });
         }
-
-        const period: CustodyPeriod = {
-          startTime: periodStart.toISOString(),
-          endTime: periodEnd.toISOString(),
-          scheduledParentId: transition.toParentId,
-          actualParentId: actualEvent?.parentId,
-          eventId: actualEvent?.id,
-          compliance: actualEvent?.parentId === transition.toParentId,
-          notes,
-        };
-
-        periods.push(period);
       }
     }
 
@@ -286,26 +313,17 @@ export class CustodyComplianceEngine {
   }
 
   /**
-   * Apply schedule overrides to the scheduled transitions.
-   */
-  /* eslint-disable @typescript-eslint/no-explicit-any */
-  private applyOverridesToTransitions(
-    transitions: any[],
-  ): any[] {
-    // For now, return transitions as-is. Full override logic would be complex.
-    // This is a simplified implementation.
-    return transitions;
-  }
-  /* eslint-enable @typescript-eslint/no-explicit-any */
-
-  /**
-   * Calculate summary metrics from compliance periods.
+   * Calculate summary metrics from compliance periods and graded exchanges.
    */
-  private calculateSummaryMetrics(periods: CustodyPeriod[]): CustodyComplianceReport['summary'] {
+  private calculateSummaryMetrics(
+    periods: CustodyPeriod[],
+    exchanges: HandoffExchange[],
+    totalOverrides: number,
+  ): CustodyComplianceReport['summary'] {
     let totalScheduledTime = 0;
     let totalActualTime = 0;
+    let compliantTime = 0;
     let totalDeviations = 0;
-    const totalOverrides = 0; // Would be calculated from overrides
 
     for (const period of periods) {
       const duration = (new Date(period.endTime).getTime() - new Date(period.startTime).getTime()) / (1000 * 60 * 60); // hours
@@ -314,7 +332,9 @@ export class CustodyComplianceEngine {
 
       if (period.actualParentId) {
         totalActualTime += duration;
-        if (!period.compliance) {
+        if (period.compliance) {
+          compliantTime += duration;
+        } else {
           totalDeviations++;
         }
       }
@@ -323,17 +343,26 @@ export class CustodyComplianceEngine {
     // Calculate compliance percentage
     let compliancePercentage: number;
     if (totalScheduledTime > 0) {
-      compliancePercentage = (totalActualTime / totalScheduledTime) * 100;
+      compliancePercentage = (compliantTime / totalScheduledTime) * 100;
     } else {
       compliancePercentage = 0;
     }
 
+    const late = exchanges.filter((e) => e.status === "late");
+    const averageLatenessMinutes =
+      late.length > 0 ? late.reduce((sum, e) => sum + e.latenessMinutes, 0) / late.length : 0;
+
     return {
       totalScheduledTime,
       totalActualTime,
       compliancePercentage,
       totalDeviations,
       totalOverrides,
+      totalExchanges: exchanges.length,
+      lateExchanges: late.length,
+      missedExchanges: exchanges.filter((e) => e.status === "missed").length,
+      disputedExchanges: exchanges.filter((e) => e.status === "disputed").length,
+      averageLatenessMinutes,
     };
   }
 
@@ -354,6 +383,9 @@ export class CustodyComplianceEngine {
         compliancePercentage: 0,
         deviationHours: 0,
         overrideCount: 0,
+        lateExchanges: 0,
+        missedExchanges: 0,
+        makeUpHoursOwed: 0,
       });
     }
 
@@ -371,6 +403,26 @@ export class CustodyComplianceEngine {
         if (actualMetrics) {
           actualMetrics.actualHours += duration;
         }
+        if (period.actualParentId !== period.scheduledParentId && scheduledMetrics) {
+          scheduledMetrics.makeUpHoursOwed += duration;
+        }
+      }
+    }
+
+    // The parent handing the kids over is responsible for the exchange
+    for (const exchange of report.exchanges) {
+      const metrics = parentMetrics.get(exchange.fromParentId);
+      if (!metrics) continue;
+      if (exchange.status === "late") metrics.lateExchanges++;
+      if (exchange.status === "missed") metrics.missedExchanges++;
+    }
+
+    // Count active overrides that granted each parent custody
+    for (const override of report.overrides) {
+      if (override.status !== "active") continue;
+      const metrics = parentMetrics.get(override.custodianParentId);
+      if (metrics) {
+        metrics.overrideCount++;
       }
     }
 
@@ -388,16 +440,35 @@ export class CustodyComplianceEngine {
 
 /**
  * KidSchedule – CustodyEngine
+ *
+ * All cycle math runs in the family's *wall-clock* time: a timestamp is first
+ * shifted into the family's IANA timezone, blocks are laid out as local
+ * calendar days and exchange times from the anchor, and block boundaries are
+ * shifted back to absolute instants.  A 5 PM handoff therefore stays at 5 PM local time across
+ * DST changes regardless of the server's own timezone.
 **/
 
 import type {
   CustodyStatus,
   ScheduleTransition,
 } from "@/lib";
+import { compareOverridePrecedence } from "@/lib/schedule-override";
+import { parseScheduleSeasons, seasonSpansAround, type SeasonSpan } from "@/lib/schedule-seasons";
+import { parseSchedulePhases, schedulePhaseStages } from "@/lib/schedule-phases";
+import {
+  blockStartsMs,
+  parseTimeOfDay,
+  parseWeeklyBlocks,
+  weeklySpansAround,
+  type WeeklySpan,
+} from "@/lib/schedule-weekly";
 
 /** Milliseconds per calendar day – used throughout */
 const MS_PER_DAY = 24 * 60 * 60 * 1000;
 
+/** Timezone assumed for families that have not configured one. */
+export const DEFAULT_FAMILY_TIMEZONE = "America/New_York";
+
 // ─── Internal Helpers ─────────────────────────────────────────────────────────
 
 /**
@@ -410,43 +481,150 @@ function safeMod(a: number, b: number): number {
 
 /**
  * Converts a schedule's blocks into an array of cumulative millisecond
- * thresholds from the start of the cycle.
+ * thresholds from the start of block[0]: where each block ends, which is
+ * where the next one starts at its own `startTime` (else `transitionHour`).
  *
  * Example – 2-2-3 pattern (days: [2, 2, 3]):
  *   [172_800_000, 345_600_000, 604_800_000]
  *              ↑ 2d            ↑ 4d          ↑ 7d
  */
-function buildThresholds(blocks: CustodySchedule["blocks"]): number[] {
-  const thresholds: number[] = [];
-  let accumulated = 0;
-  for (const block of blocks) {
-    accumulated += block.days * MS_PER_DAY;
-    thresholds.push(accumulated);
+function buildThresholds(blocks: CustodySchedule["blocks"], transitionHour: number): number[] {
+  const starts = blockStartsMs(blocks, transitionHour);
+  const cycleMs = blocks.reduce((sum, block) => sum + block.days, 0) * MS_PER_DAY;
+  return starts.map((_, i) => (i + 1 < starts.length ? starts[i + 1] : cycleMs + starts[0]) - starts[0]);
+}
+
+/** How long after the transition hour block[0] starts; negative when it starts earlier */
+function firstBlockOffsetMs(blocks: CustodySchedule["blocks"], transitionHour: number): number {
+  const minutes = parseTimeOfDay(blocks[0]?.startTime);
+  return minutes === null ? 0 : (minutes - transitionHour * 60) * 60_000;
+}
+
+function greatestCommonDivisor(a: number, b: number): number {
+  return b === 0 ? a : greatestCommonDivisor(b, a % b);
+}
+
+// ─── Timezone Helpers ─────────────────────────────────────────────────────────
+
+/** Intl formatters are expensive to build – cache one per timezone. */
+const wallClockFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getWallClockFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = wallClockFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    });
+    wallClockFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Returns the UTC offset (ms, local minus UTC) of `timeZone` at the given
+ * instant.  e.g. -18_000_000 for America/New_York in winter.
+ */
+function getZoneOffsetMs(instantMs: number, timeZone: string): number {
+  const parts = getWallClockFormatter(timeZone).formatToParts(new Date(instantMs));
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+
+  const wallMs = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second")
+  );
+  return wallMs - Math.floor(instantMs / 1000) * 1000;
+}
+
+/**
+ * Shifts an absolute instant into wall-clock milliseconds: the value whose
+ * UTC fields read as the local date and time in `timeZone`.
+ */
+export function toWallClockMs(instantMs: number, timeZone: string): number {
+  return instantMs + getZoneOffsetMs(instantMs, timeZone);
+}
+
+/**
+ * Inverse of `toWallClockMs`.  The offset is re-evaluated at the first guess
+ * so times on either side of a DST change resolve correctly; a wall-clock
+ * time that does not exist (spring-forward gap) lands just after the gap.
+ */
+export function fromWallClockMs(wallMs: number, timeZone: string): number {
+  const guess = wallMs - getZoneOffsetMs(wallMs, timeZone);
+  return wallMs - getZoneOffsetMs(guess, timeZone);
+}
+
+/**
+ * Formats an instant as ISO-8601 local time with its UTC offset in the given
+ * timezone, e.g. "2024-03-15T17:00:00-04:00".
+ */
+export function formatInstantInTimeZone(at: Date, timeZone: string): string {
+  const offsetMs = getZoneOffsetMs(at.getTime(), timeZone);
+  const wall = new Date(at.getTime() + offsetMs).toISOString().slice(0, 19);
+
+  const offsetMinutes = Math.round(Math.abs(offsetMs) / 60_000);
+  const sign = offsetMs < 0 ? "-" : "+";
+  const hh = String(Math.floor(offsetMinutes / 60)).padStart(2, "0");
+  const mm = String(offsetMinutes % 60).padStart(2, "0");
+  return `${wall}${sign}${hh}:${mm}`;
+}
+
+/**
+ * The wall-clock time of a `ScheduleTransition.localTimes` entry, e.g.
+ * "2:00 PM" for "2024-03-15T14:00:00-07:00".
+ */
+export function formatLocalTime(localIso: string): string {
+  return new Date(`${localIso.slice(0, 19)}Z`).toLocaleTimeString([], {
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * The canonical IANA name for a timezone setting (e.g. "europe/london"
+ * becomes "Europe/London"), or null when it is not a timezone.
+ */
+export function canonicalTimeZone(timeZone: string): string | null {
+  if (!timeZone.trim()) return null;
+  try {
+    return new Intl.DateTimeFormat("en-US", { timeZone: timeZone.trim() }).resolvedOptions().timeZone;
+  } catch {
+    return null;
   }
-  return thresholds;
 }
 
 // ─── Block Resolution ─────────────────────────────────────────────────────────
 
 interface BlockPosition {
-  /** 0-based index into schedule.blocks */
+  /** 0-based index into the rotation's blocks; -1 for a weekly block */
   blockIndex: number;
-  /** Absolute timestamp (ms) when this block started */
+  /** Wall-clock timestamp (ms) when this block started */
   blockStartMs: number;
-  /** Absolute timestamp (ms) when this block ends / next block begins */
+  /** Wall-clock timestamp (ms) when this block ends / next block begins */
   blockEndMs: number;
 }
 
 /**
- * Given any timestamp, resolve which schedule block is active and the
- * precise start/end timestamps of that block occurrence.
+ * Given any wall-clock timestamp, resolve which schedule block is active and
+ * the wall-clock start/end of that block occurrence.
  *
  * Complexity: O(B) where B = blocks.length (typically ≤ 12).
  */
 function resolveBlock(
   atMs: number,
   anchorMs: number,
-  schedule: CustodySchedule,
   thresholds: number[]
 ): BlockPosition {
   const cycleDurationMs = thresholds.at(-1)!;
@@ -478,83 +656,307 @@ function resolveBlock(
   };
 }
 
+// ─── Rotations ────────────────────────────────────────────────────────────────
+
+/**
+ * One rotation and the wall-clock moment it takes over: the family schedule
+ * from the beginning, then each approved version from its effective date,
+ * and within either, each step-up phase and then the long-term rotation.
+ */
+interface Rotation {
+  schedule: CustodySchedule;
+  /** Wall-clock timestamp (ms) this rotation takes over; -Infinity for the first */
+  startMs: number;
+  /** YYYY-MM-DD block[0] first started; weekly blocks count their weeks from it */
+  anchorDate: string;
+  /** Wall-clock timestamp (ms) at which block[0] first became active */
+  anchorMs: number;
+  thresholds: number[];
+  weeklyBlocks: WeeklyBlock[];
+  /** Seasons with a usable rotation, and each one's cumulative thresholds */
+  seasons: ScheduleSeason[];
+  seasonThresholds: Map<ScheduleSeason, number[]>;
+}
+
+/** Wall-clock timestamp (ms) of `hour` o'clock on a YYYY-MM-DD date */
+function wallClockAtHour(date: string, hour: number): number {
+  const [year, month, day] = date.split("-").map(Number) as [number, number, number];
+  return Date.UTC(year, month - 1, day, hour, 0, 0, 0);
+}
+
+function buildRotation(schedule: CustodySchedule, familyAnchorDate: string, startMs: number): Rotation {
+  const seasonThresholds = new Map(
+    (schedule.seasons ?? []).map((season) => [season, buildThresholds(season.blocks, schedule.transitionHour)])
+  );
+  const anchorDate = schedule.anchorDate ?? familyAnchorDate;
+  return {
+    schedule,
+    startMs,
+    anchorDate,
+    anchorMs:
+      wallClockAtHour(anchorDate, schedule.transitionHour) +
+      firstBlockOffsetMs(schedule.blocks, schedule.transitionHour),
+    thresholds: buildThresholds(schedule.blocks, schedule.transitionHour),
+    weeklyBlocks: schedule.weeklyBlocks ?? [],
+    seasons: [...seasonThresholds.keys()].filter(
+      (season) => (seasonThresholds.get(season)!.at(-1) ?? 0) > 0
+    ),
+    seasonThresholds,
+  };
+}
+
+/**
+ * The rotations of one schedule taking over at `startMs`: the stage in
+ * force then, from `startMs`, and every later phase stage.  A later stage
+ * restarts at its block[0] on its start date; the first keeps the
+ * schedule's anchor.  Seasons and weekly blocks belong to the long-term
+ * rotation.
+ */
+function buildScheduleRotations(
+  schedule: CustodySchedule,
+  family: Family,
+  startMs: number
+): Rotation[] {
+  const stages = schedulePhaseStages(schedule, family.children).map((stage) => ({
+    stage,
+    startMs: stage.startDate ? wallClockAtHour(stage.startDate, schedule.transitionHour) : -Infinity,
+  }));
+
+  let first = 0;
+  while (first + 1 < stages.length && stages[first + 1].startMs <= startMs) {
+    first++;
+  }
+
+  return stages.slice(first).map(({ stage, startMs: stageStartMs }, index) =>
+    buildRotation(
+      {
+        ...schedule,
+        name: stage.name,
+        blocks: stage.blocks,
+        anchorDate: stage.startDate ?? schedule.anchorDate,
+        seasons: stage.endDate === null ? schedule.seasons : undefined,
+        weeklyBlocks: stage.endDate === null ? schedule.weeklyBlocks : undefined,
+        phases: undefined,
+      },
+      family.custodyAnchorDate,
+      index === 0 ? startMs : stageStartMs
+    )
+  );
+}
+
+/**
+ * The block of `rotation` in force at a wall-clock moment: a season's while
+ * one is running, otherwise the school-year rotation's, cut short where a
+ * season starts or ends so those moments are boundaries too.
+ */
+function resolveRotationBlock(
+  rotation: Rotation,
+  wallMs: number
+): BlockPosition & { parentId: string } {
+  const spans: SeasonSpan[] =
+    rotation.seasons.length > 0
+      ? seasonSpansAround(rotation.seasons, wallMs, rotation.schedule.transitionHour)
+      : [];
+
+  const current = spans.find((span) => span.startMs <= wallMs && wallMs < span.endMs);
+  if (current) {
+    const pos = resolveBlock(
+      wallMs,
+      current.startMs + firstBlockOffsetMs(current.season.blocks, rotation.schedule.transitionHour),
+      rotation.seasonThresholds.get(current.season)!
+    );
+    return {
+      blockIndex: pos.blockIndex,
+      blockStartMs: Math.max(pos.blockStartMs, current.startMs),
+      blockEndMs: Math.min(pos.blockEndMs, current.endMs),
+      parentId: current.season.blocks[pos.blockIndex].parentId,
+    };
+  }
+
+  return resolveSchoolYearBlock(rotation, wallMs, spans);
+}
+
+/**
+ * The school-year block at a wall-clock moment outside seasons: a weekly
+ * block's while one is running, otherwise the rotation's, cut short where a
+ * season or weekly block starts or ends.
+ */
+function resolveSchoolYearBlock(
+  rotation: Rotation,
+  wallMs: number,
+  seasonSpans: readonly SeasonSpan[]
+): BlockPosition & { parentId: string } {
+  const weeklySpans: WeeklySpan[] =
+    rotation.weeklyBlocks.length > 0
+      ? weeklySpansAround(rotation.weeklyBlocks, rotation.anchorDate, wallMs)
+      : [];
+  const visit = weeklySpans.find((span) => span.startMs <= wallMs && wallMs < span.endMs);
+
+  let position: BlockPosition & { parentId: string };
+  if (visit) {
+    position = {
+      blockIndex: -1,
+      blockStartMs: visit.startMs,
+      blockEndMs: visit.endMs,
+      parentId: visit.block.parentId,
+    };
+  } else {
+    const pos = resolveBlock(wallMs, rotation.anchorMs, rotation.thresholds);
+    position = { ...pos, parentId: rotation.schedule.blocks[pos.blockIndex].parentId };
+  }
+
+  for (const span of [...seasonSpans, ...weeklySpans]) {
+    if (span.endMs <= wallMs && span.endMs > position.blockStartMs) position.blockStartMs = span.endMs;
+    if (span.startMs > wallMs && span.startMs < position.blockEndMs) position.blockEndMs = span.startMs;
+  }
+  return position;
+}
+
+// ─── Override Resolution ──────────────────────────────────────────────────────
+
+/**
+ * How far getStatus / getUpcomingTransitions will scan for a change of
+ * custodian before giving up (e.g. a single-parent schedule).
+ */
+const MAX_CHANGE_SCAN_MS = 366 * MS_PER_DAY;
+
+/** An active override resolved to absolute instants and a known parent. */
+interface ResolvedOverride {
+  override: ScheduleOverride;
+  startMs: number;
+  endMs: number;
+  parent: Parent;
+}
+
+interface Custodian {
+  parent: Parent;
+  /** Set when an override (rather than the base rotation) decides custody */
+  override?: ScheduleOverride;
+}
+
 // ─── Public API ───────────────────────────────────────────────────────────────
 
 export class CustodyEngine {
   private readonly family: Family;
-  private readonly schedule: CustodySchedule;
-  private readonly anchorMs: number;
-  private readonly thresholds: number[];
+  private readonly timeZone: string;
+  /** The family schedule, then each version, phase by phase, in the order they take over. */
+  private readonly rotations: Rotation[];
   private readonly parentMap: Map<string, Parent>;
+  /** Active overrides, highest precedence first. */
+  private readonly overrides: ResolvedOverride[];
 
   /**
-   * @param family  Complete family record including both parents and schedule.
+   * @param family     Complete family record including its caregivers and schedule.
+   * @param overrides  Schedule overrides (holiday, swap, mediation, manual) to
+   *                   layer on top of the base rotation.  Only `active` ones
+   *                   are applied; where they overlap, the highest priority
+   *                   (then most recently created) wins.
    *
-   * The anchor timestamp is derived from `family.custodyAnchorDate` treated as
-   * a local calendar date at the schedule's `transitionHour`.  Callers MUST
-   * ensure all Date objects passed to public methods use the same timezone.
+   * The anchor date (`schedule.anchorDate`, else `family.custodyAnchorDate`)
+   * and `schedule.transitionHour` are interpreted in `family.timezone`; Date
+   * arguments and results are absolute instants.  The engine follows
+   * `family.schedule`; use `CustodyEngine.forChild` for a child on their own
+   * rotation.  While one of `schedule.seasons` is running its blocks replace
+   * the school-year rotation, which picks up where its own cycle has reached
+   * when the season ends.  Each of `family.scheduleVersions` takes over from
+   * its effective date, so moments before it keep the earlier rotation.  A
+   * schedule's step-up `phases` run before its blocks, each ending on its
+   * date or at a child's age (`family.children` dates of birth).  Blocks
+   * with a `startTime` hand over at that local time instead of the
+   * transition hour, and `schedule.weeklyBlocks` (every other weekend, a
+   * midweek dinner) hold custody on their weekdays over the rotation.
+   *
+   * @throws Error if the family's timezone is not a valid IANA zone.
    */
-  constructor(family: Family) {
+  constructor(family: Family, overrides: ScheduleOverride[] = []) {
     this.family = family;
-    this.schedule = family.schedule;
+    this.timeZone = family.timezone || DEFAULT_FAMILY_TIMEZONE;
 
-    // Build anchor: the moment block[0] first became active.
-    // Parse the ISO date to midnight UTC, then shift to local transition hour.
-    const [year, month, day] = family.custodyAnchorDate
-      .split("-")
-      .map(Number) as [number, number, number];
-    const anchorDate = new Date(year, month - 1, day, this.schedule.transitionHour, 0, 0, 0);
-    this.anchorMs = anchorDate.getTime();
+    if (!validateTimezone(this.timeZone)) {
+      throw new Error(`CustodyEngine: invalid timezone "${this.timeZone}"`);
+    }
 
-    this.thresholds = buildThresholds(this.schedule.blocks);
+    // Anchors, version start dates and phase ends are local wall-clock
+    // moments.  Each schedule's phases stop where the next version starts.
+    const eras = [
+      { schedule: family.schedule, startMs: -Infinity },
+      ...(family.scheduleVersions ?? [])
+        .filter((version) => version.schedule.blocks.length > 0)
+        .map((version) => ({
+          schedule: version.schedule,
+          startMs: wallClockAtHour(version.effectiveDate, version.schedule.transitionHour),
+        }))
+        .sort((a, b) => a.startMs - b.startMs),
+    ];
+    this.rotations = eras.flatMap((era, index) =>
+      buildScheduleRotations(era.schedule, family, era.startMs).filter(
+        (rotation) => rotation.startMs < (eras[index + 1]?.startMs ?? Infinity)
+      )
+    );
 
     // Index parents for O(1) lookup by id.
     this.parentMap = new Map<string, Parent>(
       family.parents.map((p) => [p.id, p])
     );
+
+    this.overrides = overrides
+      .filter((o) => o.status === "active")
+      .sort(compareOverridePrecedence)
+      .flatMap((override) => {
+        const parent = this.parentMap.get(override.custodianParentId);
+        const startMs = Date.parse(override.effectiveStart);
+        const endMs = Date.parse(override.effectiveEnd);
+        if (!parent || !(startMs < endMs)) return [];
+        return [{ override, startMs, endMs, parent }];
+      });
+  }
+
+  /**
+   * Engine for one child: follows the child's own schedule when they have
+   * one, otherwise the family schedule.  Overrides apply to every child.
+   */
+  static forChild(family: Family, childId: string, overrides: ScheduleOverride[] = []): CustodyEngine {
+    return new CustodyEngine(familyForChild(family, childId), overrides);
   }
 
   // ── Core Query Methods ───────────────────────────────────────────────────
 
   /**
-   * Returns the full custody status at the given moment (defaults to now).
+   * Returns the full custody status at the given moment (defaults to now),
+   * taking active overrides into account.
    *
    * @example
-   * const engine = new CustodyEngine(family);
+   * const engine = new CustodyEngine(family, activeOverrides);
    * const status = engine.getStatus();
    * console.log(`${status.currentParent.name} has custody.`);
    * console.log(`Next transition in ${status.minutesUntilTransition} minutes.`);
    */
   getStatus(at: Date = new Date()): CustodyStatus {
     const atMs = at.getTime();
-    const pos = resolveBlock(atMs, this.anchorMs, this.schedule, this.thresholds);
-    const block = this.schedule.blocks[pos.blockIndex];
-    const parent = this.parentMap.get(block.parentId);
-
-    if (!parent) {
-      throw new Error(
-        `CustodyEngine: parentId "${block.parentId}" not found in family.parents`
-      );
-    }
+    const custodian = this.custodianAt(atMs);
+    const periodStartMs = this.previousChangeAt(atMs);
+    const periodEndMs =
+      this.nextChange(atMs, atMs + MAX_CHANGE_SCAN_MS)?.atMs ??
+      this.nextBoundaryAfter(atMs);
 
     const minutesUntilTransition = Math.max(
       0,
-      Math.floor((pos.blockEndMs - atMs) / 60_000)
+      Math.floor((periodEndMs - atMs) / 60_000)
     );
 
     return {
-      currentParent: parent,
-      periodStart: new Date(pos.blockStartMs),
-      periodEnd: new Date(pos.blockEndMs),
+      currentParent: custodian.parent,
+      periodStart: new Date(periodStartMs),
+      periodEnd: new Date(periodEndMs),
       minutesUntilTransition,
+      override: custodian.override,
     };
   }
 
   /**
-   * Returns the next N custody transitions after the given moment.
-   *
-   * Iterates through successive block boundaries – O(N × B) where B is
-   * blocks.length.  For typical N ≤ 30 and B ≤ 12 this is negligible.
+   * Returns the next N custody transitions after the given moment.  A
+   * transition is any moment custody changes hands – a base block boundary
+   * or the start/end of an override.
    *
    * @param count  How many upcoming transitions to return (default 5).
    */
@@ -562,65 +964,40 @@ export class CustodyEngine {
     const transitions: ScheduleTransition[] = [];
     let curMs = at.getTime();
 
-    for (let i = 0; i < count; i++) {
-      const current = resolveBlock(curMs, this.anchorMs, this.schedule, this.thresholds);
-      const fromBlock = this.schedule.blocks[current.blockIndex];
-      const nextBlockIndex = (current.blockIndex + 1) % this.schedule.blocks.length;
-      const toBlock = this.schedule.blocks[nextBlockIndex];
+    while (transitions.length < count) {
+      const change = this.nextChange(curMs, curMs + MAX_CHANGE_SCAN_MS);
+      if (!change) break;
 
-      const fromParent = this.parentMap.get(fromBlock.parentId);
-      const toParent = this.parentMap.get(toBlock.parentId);
-
-      if (!fromParent || !toParent) {
-        throw new Error("CustodyEngine: invalid parentId in schedule blocks");
-      }
-
-      transitions.push({
-        at: new Date(current.blockEndMs),
-        fromParent,
-        toParent,
-      });
+      transitions.push(this.buildTransition(change.atMs, change.from, change.to));
 
       // Advance past this transition to find the next one.
-      curMs = current.blockEndMs + 1;
+      curMs = change.atMs;
     }
 
     return transitions;
   }
 
   /**
-   * Returns every transition that falls within [rangeStart, rangeEnd].
+   * Returns every transition that falls within (rangeStart, rangeEnd].
    *
    * Useful for populating a month view on the calendar.
    *
-   * Complexity: O((rangeMs / MS_PER_DAY) × (1/avgBlockDays)) – proportional
-   * to the number of transitions in the range, which is bounded by the
-   * calendar range requested.
+   * Complexity: proportional to the number of block and override boundaries
+   * in the range.
    */
   getTransitionsInRange(rangeStart: Date, rangeEnd: Date): ScheduleTransition[] {
     const transitions: ScheduleTransition[] = [];
-    let curMs = rangeStart.getTime();
     const endMs = rangeEnd.getTime();
+    let curMs = rangeStart.getTime();
 
-    while (curMs <= endMs) {
-      const pos = resolveBlock(curMs, this.anchorMs, this.schedule, this.thresholds);
-      const transitionMs = pos.blockEndMs;
-
-      if (transitionMs > endMs) break;
-
-      const fromBlock = this.schedule.blocks[pos.blockIndex];
-      const nextIndex = (pos.blockIndex + 1) % this.schedule.blocks.length;
-      const toBlock = this.schedule.blocks[nextIndex];
-
-      const fromParent = this.parentMap.get(fromBlock.parentId);
-      const toParent = this.parentMap.get(toBlock.parentId);
-
-      if (!fromParent || !toParent) break;
+    for (;;) {
+      const change = this.nextChange(curMs, endMs);
+      if (!change) break;
 
-      transitions.push({ at: new Date(transitionMs), fromParent, toParent });
+      transitions.push(this.buildTransition(change.atMs, change.from, change.to));
 
-      // Advance to just after this transition.
-      curMs = transitionMs + 1;
+      // Advance to this transition.
+      curMs = change.atMs;
     }
 
     return transitions;
@@ -630,47 +1007,380 @@ export class CustodyEngine {
    * Calculates each parent's custody percentage over a given window.
    *
    * Returns a map from parentId → percentage (0–100, two decimal places).
-   * All percentages sum to 100.
+   * All percentages sum to 100.  Based on the school-year rotation and
+   * weekly blocks of the schedule in force at `at` (defaults to now);
+   * seasons are not included.
    *
-   * Complexity: O(B) – one pass over the schedule blocks.
+   * Complexity: O(B) – one pass over the schedule blocks, or over the
+   * blocks of the weeks it takes the rotation and weekly blocks to line up.
    */
-  getCustodyPercentages(): Record<string, number> {
-    const cycleDays = this.schedule.blocks.reduce((s, b) => s + b.days, 0);
-    const daysByParent: Record<string, number> = {};
+  getCustodyPercentages(at: Date = new Date()): Record<string, number> {
+    const rotation = this.rotations[this.rotationIndexAt(toWallClockMs(at.getTime(), this.timeZone))];
+    const msByParent: Record<string, number> = {};
+    const add = (parentId: string, ms: number) => {
+      msByParent[parentId] = (msByParent[parentId] ?? 0) + ms;
+    };
 
-    for (const block of this.schedule.blocks) {
-      daysByParent[block.parentId] =
-        (daysByParent[block.parentId] ?? 0) + block.days;
+    if (rotation.weeklyBlocks.length === 0) {
+      rotation.schedule.blocks.forEach((block, i) =>
+        add(block.parentId, rotation.thresholds[i] - (rotation.thresholds[i - 1] ?? 0))
+      );
+    } else {
+      const cycleDays = rotation.schedule.blocks.reduce((s, b) => s + b.days, 0);
+      const windowDays = rotation.weeklyBlocks.reduce((days, block) => {
+        const weekDays = (block.everyWeeks ?? 1) * 7;
+        return (days * weekDays) / greatestCommonDivisor(days, weekDays);
+      }, cycleDays);
+      const windowEndMs = rotation.anchorMs + windowDays * MS_PER_DAY;
+      for (let cursor = rotation.anchorMs; cursor < windowEndMs; ) {
+        const pos = resolveSchoolYearBlock(rotation, cursor, []);
+        const endMs = Math.min(pos.blockEndMs, windowEndMs);
+        if (endMs <= cursor) break;
+        add(pos.parentId, endMs - cursor);
+        cursor = endMs;
+      }
     }
 
+    const totalMs = Object.values(msByParent).reduce((sum, ms) => sum + ms, 0);
     const result: Record<string, number> = {};
-    for (const [parentId, days] of Object.entries(daysByParent)) {
-      result[parentId] = Math.round((days / cycleDays) * 10_000) / 100;
+    for (const [parentId, ms] of Object.entries(msByParent)) {
+      result[parentId] = Math.round((ms / totalMs) * 10_000) / 100;
     }
     return result;
   }
 
   /**
-   * Determines which parent has custody on every day in a month.
+   * Determines which parent has custody on every day in a month, where days
+   * are calendar days in the family's timezone.
    *
    * Returns a  Map<"YYYY-MM-DD" string, Parent> for fast calendar rendering.
    *
-   * Complexity: O(D × B) where D = days in month ≤ 31.
+   * Complexity: O(D × (B + O)) where D = days in month ≤ 31, O = overrides.
    */
   getMonthCustodyMap(year: number, month: number): Map<string, Parent> {
     const map = new Map<string, Parent>();
-    const daysInMonth = new Date(year, month, 0).getDate(); // month is 1-based
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate(); // month is 1-based
 
     for (let d = 1; d <= daysInMonth; d++) {
-      // Query at noon local time to avoid DST boundary issues.
-      const queryDate = new Date(year, month - 1, d, 12, 0, 0, 0);
-      const status = this.getStatus(queryDate);
+      // Query at local noon, which is never inside a DST gap.
+      const noonMs = fromWallClockMs(Date.UTC(year, month - 1, d, 12, 0, 0, 0), this.timeZone);
       const key = `${year}-${String(month).padStart(2, "0")}-${String(d).padStart(2, "0")}`;
-      map.set(key, status.currentParent);
+      map.set(key, this.custodianAt(noonMs).parent);
     }
 
     return map;
   }
+
+  // ── Internal ─────────────────────────────────────────────────────────────
+
+  /** Who has custody at an instant: the winning override, else the base block. */
+  private custodianAt(atMs: number): Custodian {
+    return this.findCustodian(atMs) ?? {
+      parent: this.parentById(this.blockAt(toWallClockMs(atMs, this.timeZone)).parentId),
+    };
+  }
+
+  /** As custodianAt, but undefined when the base block names a parent not in the family. */
+  private findCustodian(atMs: number): Custodian | undefined {
+    for (const o of this.overrides) {
+      if (o.startMs <= atMs && atMs < o.endMs) {
+        return { parent: o.parent, override: o.override };
+      }
+    }
+
+    const pos = this.blockAt(toWallClockMs(atMs, this.timeZone));
+    const parent = this.parentMap.get(pos.parentId);
+    return parent ? { parent } : undefined;
+  }
+
+  /**
+   * The block in force at a wall-clock moment, from the rotation in force
+   * then and cut short where the next rotation takes over.
+   */
+  private blockAt(wallMs: number): BlockPosition & { parentId: string } {
+    const index = this.rotationIndexAt(wallMs);
+    const rotation = this.rotations[index];
+    const pos = resolveRotationBlock(rotation, wallMs);
+    return {
+      ...pos,
+      blockStartMs: Math.max(pos.blockStartMs, rotation.startMs),
+      blockEndMs: Math.min(pos.blockEndMs, this.rotations[index + 1]?.startMs ?? Infinity),
+    };
+  }
+
+  /** Index of the last rotation to take over at or before a wall-clock moment. */
+  private rotationIndexAt(wallMs: number): number {
+    let index = 0;
+    while (index + 1 < this.rotations.length && this.rotations[index + 1].startMs <= wallMs) {
+      index++;
+    }
+    return index;
+  }
+
+  /** Earliest block or override boundary strictly after `ms`. */
+  private nextBoundaryAfter(ms: number): number {
+    const pos = this.blockAt(toWallClockMs(ms, this.timeZone));
+    let next = fromWallClockMs(pos.blockEndMs, this.timeZone);
+
+    for (const o of this.overrides) {
+      if (o.startMs > ms && o.startMs < next) next = o.startMs;
+      if (o.endMs > ms && o.endMs < next) next = o.endMs;
+    }
+    return next;
+  }
+
+  /** Latest block or override boundary at or before `ms`. */
+  private boundaryAtOrBefore(ms: number): number {
+    const pos = this.blockAt(toWallClockMs(ms, this.timeZone));
+    let prev = fromWallClockMs(pos.blockStartMs, this.timeZone);
+
+    for (const o of this.overrides) {
+      if (o.startMs <= ms && o.startMs > prev) prev = o.startMs;
+      if (o.endMs <= ms && o.endMs > prev) prev = o.endMs;
+    }
+    return prev;
+  }
+
+  /**
+   * First moment after `fromMs` (and no later than `untilMs`) at which the
+   * custodian changes, or null if custody does not change hands in between.
+   * A block naming a parent the family does not have also ends the scan, so
+   * one bad stored block cuts transition lists short rather than failing
+   * every caller.
+   */
+  private nextChange(
+    fromMs: number,
+    untilMs: number
+  ): { atMs: number; from: Parent; to: Parent } | null {
+    const current = this.findCustodian(fromMs)?.parent;
+    if (!current) return null;
+    let cursor = fromMs;
+
+    for (;;) {
+      const boundary = this.nextBoundaryAfter(cursor);
+      if (boundary > untilMs) return null;
+
+      const next = this.findCustodian(boundary)?.parent;
+      if (!next) return null;
+      if (next.id !== current.id) {
+        return { atMs: boundary, from: current, to: next };
+      }
+      cursor = boundary;
+    }
+  }
+
+  /** Moment the custody period containing `atMs` began. */
+  private previousChangeAt(atMs: number): number {
+    const currentId = this.custodianAt(atMs).parent.id;
+    const limitMs = atMs - MAX_CHANGE_SCAN_MS;
+    let cursor = atMs;
+
+    while (cursor >= limitMs) {
+      const boundary = this.boundaryAtOrBefore(cursor);
+      if (this.custodianAt(boundary - 1).parent.id !== currentId) {
+        return boundary;
+      }
+      cursor = boundary - 1;
+    }
+
+    return this.boundaryAtOrBefore(atMs);
+  }
+
+  private parentById(parentId: string): Parent {
+    const parent = this.parentMap.get(parentId);
+
+    if (!parent) {
+      throw new Error(
+        `CustodyEngine: parentId "${parentId}" not found in family.parents`
+      );
+    }
+    return parent;
+  }
+
+  /**
+   * Builds a transition, including the handoff time in each parent's own
+   * timezone.
+   */
+  private buildTransition(atMs: number, fromParent: Parent, toParent: Parent): ScheduleTransition {
+    const at = new Date(atMs);
+
+    const localTimes: Record<string, string> = {};
+    for (const parent of this.family.parents) {
+      localTimes[parent.id] = formatInstantInTimeZone(
+        at,
+        parent.timezone || this.timeZone
+      );
+    }
+
+    return { at, fromParent, toParent, localTimes };
+  }
+}
+
+// ─── Per-Child Custody ────────────────────────────────────────────────────────
+
+/**
+ * The family as seen by one child: `schedule` is the one that child follows.
+ * Versions of the family schedule do not apply to a child on their own.
+ */
+export function familyForChild(family: Family, childId: string): Family {
+  const own = family.childSchedules?.[childId];
+  return own ? { ...family, schedule: own, scheduleVersions: undefined } : family;
+}
+
+/**
+ * Where each child is at a moment.  Children on the family schedule share one
+ * engine; each child with their own schedule gets theirs.
+ */
+export function getChildCustodyAt(
+  family: Family,
+  at: Date = new Date(),
+  overrides: ScheduleOverride[] = []
+): ChildCustody[] {
+  const shared = new CustodyEngine(family, overrides).getStatus(at).currentParent;
+  return family.children.map((child) => ({
+    child,
+    parent: family.childSchedules?.[child.id]
+      ? CustodyEngine.forChild(family, child.id, overrides).getStatus(at).currentParent
+      : shared,
+  }));
+}
+
+/**
+ * Where each child is on every day of a month (1-based), keyed by
+ * "YYYY-MM-DD" in the family's timezone.
+ */
+export function getMonthChildCustodyMap(
+  family: Family,
+  year: number,
+  month: number,
+  overrides: ScheduleOverride[] = []
+): Map<string, ChildCustody[]> {
+  const shared = new CustodyEngine(family, overrides).getMonthCustodyMap(year, month);
+  const perChild = family.children.map((child) => ({
+    child,
+    days: family.childSchedules?.[child.id]
+      ? CustodyEngine.forChild(family, child.id, overrides).getMonthCustodyMap(year, month)
+      : shared,
+  }));
+
+  const map = new Map<string, ChildCustody[]>();
+  for (const dateStr of shared.keys()) {
+    map.set(
+      dateStr,
+      perChild.map(({ child, days }) => ({ child, parent: days.get(dateStr)! }))
+    );
+  }
+  return map;
+}
+
+/**
+ * Converts a stored schedule row into a `CustodySchedule` with its seasons,
+ * phases and weekly blocks.  Null when its blocks are missing or
+ * unparseable.
+ */
+export function toCustodySchedule(row: DbCustodySchedule): CustodySchedule | null {
+  let blocks: unknown;
+  try {
+    blocks = JSON.parse(row.blocks);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(blocks) || blocks.length === 0) return null;
+  return {
+    id: row.id,
+    name: row.name,
+    transitionHour: row.transitionHour,
+    blocks: blocks as ScheduleBlock[],
+    anchorDate: row.anchorDate,
+    seasons: parseScheduleSeasons(row.seasons),
+    phases: parseSchedulePhases(row.phases, row.childId),
+    weeklyBlocks: parseWeeklyBlocks(row.weeklyBlocks),
+  };
+}
+
+/**
+ * Converts stored child schedules into `Family.childSchedules`.  Rows whose
+ * blocks are missing or unparseable are skipped, leaving that child on the
+ * family schedule.
+ */
+export function toChildSchedules(rows: DbCustodySchedule[]): Record<string, CustodySchedule> {
+  const schedules: Record<string, CustodySchedule> = {};
+  for (const row of rows) {
+    const schedule = row.childId ? toCustodySchedule(row) : null;
+    if (row.childId && schedule) {
+      schedules[row.childId] = schedule;
+    }
+  }
+  return schedules;
+}
+
+/**
+ * Converts approved version rows into `Family.scheduleVersions`.  Rows whose
+ * blocks are missing or unparseable are skipped, leaving the previous
+ * rotation in force.
+ */
+export function toScheduleVersions(rows: DbCustodyScheduleVersion[]): ScheduleVersion[] {
+  const versions: ScheduleVersion[] = [];
+  for (const row of rows) {
+    if (row.status !== "approved") continue;
+    let blocks: unknown;
+    try {
+      blocks = JSON.parse(row.blocks);
+    } catch {
+      continue;
+    }
+    if (!Array.isArray(blocks) || blocks.length === 0) continue;
+    versions.push({
+      id: row.id,
+      effectiveDate: row.effectiveDate,
+      schedule: {
+        id: row.id,
+        name: row.name,
+        transitionHour: row.transitionHour,
+        blocks: blocks as ScheduleBlock[],
+        anchorDate: row.anchorDate,
+        seasons: parseScheduleSeasons(row.seasons),
+        phases: parseSchedulePhases(row.phases),
+        weeklyBlocks: parseWeeklyBlocks(row.weeklyBlocks),
+      },
+    });
+  }
+  return versions;
+}
+
+/**
+ * Base custody periods from CustodyEngine over `range`, in the generator's
+ * event shape, for calendars drawn from events.  Unlike the preset
+ * generator, these follow everything the engine knows about the schedule.
+ * Overrides are left to ScheduleOverrideEngine, as for generated events.
+ */
+export function custodyEngineEvents(
+  family: Family,
+  range: { start: Date; end: Date },
+  options: { childId: string; source: string }
+): ScheduleEvent[] {
+  const timeZone = family.timezone || DEFAULT_FAMILY_TIMEZONE;
+  const format = (ms: number) => formatInstantInTimeZone(new Date(ms), timeZone);
+  const engine = new CustodyEngine(family);
+  const endMs = range.end.getTime();
+  const bounds = [
+    range.start.getTime(),
+    ...engine
+      .getTransitionsInRange(range.start, range.end)
+      .map((t) => t.at.getTime())
+      .filter((atMs) => atMs < endMs),
+  ];
+
+  return bounds.map((periodStartMs, index) => ({
+    start_at: format(periodStartMs),
+    end_at: format(bounds[index + 1] ?? endMs),
+    parent_id: engine.getStatus(new Date(periodStartMs)).currentParent.id,
+    custody_type: "base" as const,
+    source_pattern: options.source,
+    cycle_id: `${options.source}-${periodStartMs}`,
+    child_id: options.childId,
+    family_id: family.id,
+  }));
 }
 
 // ─── Factory Helpers ──────────────────────────────────────────────────────────
@@ -716,6 +1426,26 @@ export const SchedulePresets = {
       { parentId: parentBId, days: 3, label: "3 days B" },
     ];
   },
+
+  /**
+   * Resolves a family's `scheduleId` ("alternating-weeks", "3-4-4-3",
+   * "2-2-3") to preset blocks.  Unknown ids fall back to 2-2-3.
+   */
+  forScheduleId(
+    scheduleId: string | null | undefined,
+    parentAId: string,
+    parentBId: string
+  ): CustodySchedule["blocks"] {
+    switch (scheduleId) {
+      case "alternating-weeks":
+        return SchedulePresets.alternatingWeeks(parentAId, parentBId);
+      case "3-4-4-3":
+        return SchedulePresets.threeFourFourThree(parentAId, parentBId);
+      case "2-2-3":
+      default:
+        return SchedulePresets.twoTwoThree(parentAId, parentBId);
+    }
+  },
 } as const;
 
 /**
@@ -2,7 +2,7 @@
  * KidSchedule – DashboardAggregator
  */
 
-import { CustodyEngine } from "@/lib/custody";
+import { CustodyEngine, getChildCustodyAt } from "@/lib/custody";
 import { CalendarMonthEngine } from "@/lib/calendar-engine";
 import { ConflictClimateAnalyzer } from "@/lib/conflict-analyzer";
 import { SettingsEngine } from "@/lib/settings-engine";
@@ -17,46 +17,37 @@ import type {
   Parent,
   Reminder,
   ScheduleChangeRequest,
+  ScheduleOverride,
 } from "@/lib";
 
 // ─── Helper Functions ─────────────────────────────────────────────────────────
 
 /**
- * Calculate monthly ownership percentages for the current month.
+ * Calculate monthly ownership percentages for the current month, counting
+ * calendar days in the family's timezone (not the server's).
  */
 function calculateMonthlyOwnership(engine: CustodyEngine, family: Family, now: Date): { [parentId: string]: number } {
-  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
-  const monthEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59, 999);
-
-  const transitions = engine.getTransitionsInRange(monthStart, monthEnd);
+  const [year, month] = now
+    .toLocaleDateString("en-CA", { timeZone: family.timezone })
+    .split("-")
+    .map(Number);
+  const custodyMap = engine.getMonthCustodyMap(year, month);
 
   const ownership: { [parentId: string]: number } = {};
-  const totalMs = monthEnd.getTime() - monthStart.getTime();
 
   // Initialize ownership for all parents
   for (const parent of family.parents) {
     ownership[parent.id] = 0;
   }
 
-  // Add the initial period from month start to first transition
-  let currentTime = monthStart.getTime();
-  let currentParent = engine.getStatus(monthStart).currentParent;
-
-  for (const transition of transitions) {
-    const periodMs = transition.at.getTime() - currentTime;
-    ownership[currentParent.id] += periodMs;
-    currentParent = transition.toParent;
-    currentTime = transition.at.getTime();
+  for (const parent of custodyMap.values()) {
+    ownership[parent.id] = (ownership[parent.id] ?? 0) + 1;
   }
 
-  // Add the final period from last transition to month end
-  const finalPeriodMs = monthEnd.getTime() - currentTime;
-  ownership[currentParent.id] += finalPeriodMs;
-
   // Convert to percentages
   const percentages: { [parentId: string]: number } = {};
-  for (const [parentId, ms] of Object.entries(ownership)) {
-    percentages[parentId] = Math.round((ms / totalMs) * 100);
+  for (const [parentId, days] of Object.entries(ownership)) {
+    percentages[parentId] = Math.round((days / custodyMap.size) * 100);
   }
 
   return percentages;
@@ -67,7 +58,7 @@ function calculateMonthlyOwnership(engine: CustodyEngine, family: Family, now: D
 export interface AggregatorInput {
   /** The authenticated user's parent record. */
   currentParent: Parent;
-  /** The full family document (includes both parents + children + schedule). */
+  /** The full family document (caregivers, children and their schedules). */
   family: Family;
   /** All calendar events – aggregator will filter/sort. */
   events: CalendarEvent[];
@@ -81,6 +72,8 @@ export interface AggregatorInput {
   moments: Moment[];
   /** Reminders owned by this parent. */
   reminders: Reminder[];
+  /** Active schedule overrides (holidays, approved swaps, …). */
+  overrides?: ScheduleOverride[];
   /** Reference "now" – injectable for testing (defaults to new Date()). */
   now?: Date;
   /** Max upcoming events to surface (defaults to 5). */
@@ -218,8 +211,9 @@ export function aggregateDashboard(input: AggregatorInput): DashboardData {
   const activityCount = input.activityCount ?? 10;
 
   // ── Custody Status ─────────────────────────────────────────────────────────
-  const engine = new CustodyEngine(input.family);
+  const engine = new CustodyEngine(input.family, input.overrides);
   const custody = engine.getStatus(now);
+  const childCustody = getChildCustodyAt(input.family, now, input.overrides);
 
   // ── Upcoming Transitions ───────────────────────────────────────────────────
   const upcomingTransitions = engine.getUpcomingTransitions(now, 5);
@@ -241,7 +235,7 @@ export function aggregateDashboard(input: AggregatorInput): DashboardData {
   const familySettings = settingsEngine.resolveFamilySettings(input.family.id, {
     conflictWindow: { windowMins: input.conflictWindowMins ?? 120 },
   });
-  const calendarEngine = new CalendarMonthEngine(input.family);
+  const calendarEngine = new CalendarMonthEngine(input.family, input.overrides);
   const calendarConflicts = calendarEngine.detectConflicts(
     input.events,
     familySettings.conflictWindow.windowMins
@@ -274,6 +268,7 @@ export function aggregateDashboard(input: AggregatorInput): DashboardData {
     family: input.family,
     currentParent: input.currentParent,
     custody,
+    childCustody,
     upcomingTransitions,
     monthlyOwnership,
     upcomingEvents,
@@ -0,0 +1,204 @@
+/**
+ * KidSchedule – Exchange Rates
+ *
+ * Each family settles expenses in one base currency.  An expense paid in
+ * another currency keeps its original amount and is converted when it is
+ * recorded: the rate, its source and the converted amount are stored on the
+ * expense (ExchangeRateSnapshot), so balances and reports never change when
+ * rates move afterwards.
+ *
+ * The rate is the one the parent enters (e.g. from their card statement) or,
+ * failing that, the one in the local rates file at EXCHANGE_RATES_FILE.  No
+ * rate service is called at request time; the file is refreshed out of band.
+ * It holds one or more dated tables, each quoting currencies per one unit of
+ * its base:
+ *
+ *   [{ "date": "2025-03-03", "base": "EUR", "rates": { "USD": 1.0482, "GBP": 0.8261 } }]
+ */
+
+import { promises as fs } from "node:fs";
+import { db } from "@/lib/persistence";
+import type { DbFamily, ExchangeRateSnapshot } from "@/lib/persistence/types";
+import type { LedgerResult } from "@/lib/expense-ledger";
+import { isCurrencyCode } from "@/lib/expense-engine";
+import { logEvent } from "@/lib/observability/logger";
+
+export const DEFAULT_BASE_CURRENCY = "USD";
+
+/** A rate table older than this is not used for an expense */
+const MAX_RATE_AGE_DAYS = 7;
+
+export interface RateTable {
+  date: string; // ISO date
+  base: string;
+  rates: Record<string, number>; // units per one `base`
+}
+
+// ─── Rates File ───────────────────────────────────────────────────────────────
+
+function isRateTable(value: unknown): value is RateTable {
+  if (!value || typeof value !== "object") return false;
+  const table = value as Partial<RateTable>;
+  return (
+    typeof table.date === "string" &&
+    /^\d{4}-\d{2}-\d{2}$/.test(table.date) &&
+    typeof table.base === "string" &&
+    /^[A-Z]{3}$/.test(table.base) &&
+    !!table.rates &&
+    typeof table.rates === "object" &&
+    Object.values(table.rates).every((rate) => typeof rate === "number" && Number.isFinite(rate) && rate > 0)
+  );
+}
+
+/** The tables in a rates file's JSON, oldest first; malformed tables are skipped */
+export function parseRatesFile(json: unknown): RateTable[] {
+  const entries = Array.isArray(json) ? json : [json];
+  return entries.filter(isRateTable).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+let cachedFile: { path: string; mtimeMs: number; tables: RateTable[] } | null = null;
+
+/** Tables from EXCHANGE_RATES_FILE, re-read when the file changes; empty when there is none */
+export async function loadRateTables(): Promise<RateTable[]> {
+  const path = process.env.EXCHANGE_RATES_FILE;
+  if (!path) {
+    return [];
+  }
+
+  try {
+    const { mtimeMs } = await fs.stat(path);
+    if (cachedFile?.path === path && cachedFile.mtimeMs === mtimeMs) {
+      return cachedFile.tables;
+    }
+    const tables = parseRatesFile(JSON.parse(await fs.readFile(path, "utf8")));
+    cachedFile = { path, mtimeMs, tables };
+    return tables;
+  } catch (error) {
+    logEvent("warn", "exchange_rates.file_unreadable", {
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    return [];
+  }
+}
+
+/** Reset the cached rates file (tests only). */
+export function _test_resetRatesCache(): void {
+  cachedFile = null;
+}
+
+function daysBetween(from: string, to: string): number {
+  return (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000;
+}
+
+/**
+ * Units of `to` per one unit of `from` on `date`, from the latest table
+ * dated on or before it (within a week) that quotes both currencies.
+ */
+export function findRate(
+  tables: RateTable[],
+  from: string,
+  to: string,
+  date: string
+): { rate: number; date: string } | null {
+  for (let i = tables.length - 1; i >= 0; i--) {
+    const table = tables[i];
+    if (table.date > date) continue;
+    if (daysBetween(table.date, date) > MAX_RATE_AGE_DAYS) break;
+
+    const quote = (currency: string) => (currency === table.base ? 1 : table.rates[currency]);
+    const fromRate = quote(from);
+    const toRate = quote(to);
+    if (fromRate && toRate) {
+      return { rate: Number((toRate / fromRate).toFixed(10)), date: table.date };
+    }
+  }
+  return null;
+}
+
+// ─── Snapshots ────────────────────────────────────────────────────────────────
+
+export function convertToBase(amountCents: number, exchangeRate: number): number {
+  return Math.round(amountCents * exchangeRate);
+}
+
+/**
+ * The conversion to store on an expense paid in `currency`: at the parent's
+ * rate when given, otherwise at the rates file's rate for the date.  Null
+ * when the expense is already in the base currency.
+ */
+export async function snapshotExchangeRate(input: {
+  amountCents: number;
+  currency: string;
+  baseCurrency: string;
+  date: string;
+  manualRate?: number;
+}): Promise<LedgerResult<{ snapshot: ExchangeRateSnapshot | null }>> {
+  const { amountCents, currency, baseCurrency, date, manualRate } = input;
+  if (currency === baseCurrency) {
+    return { success: true, snapshot: null };
+  }
+
+  if (manualRate !== undefined) {
+    if (!Number.isFinite(manualRate) || manualRate <= 0) {
+      return { success: false, error: "Exchange rate must be a positive number" };
+    }
+    return {
+      success: true,
+      snapshot: {
+        baseCurrency,
+        baseAmount: convertToBase(amountCents, manualRate),
+        exchangeRate: manualRate,
+        exchangeRateSource: "manual",
+        exchangeRateDate: date,
+      },
+    };
+  }
+
+  const found = findRate(await loadRateTables(), currency, baseCurrency, date);
+  if (!found) {
+    return {
+      success: false,
+      error: `No ${currency} to ${baseCurrency} rate is available for ${date}. Enter the exchange rate you paid at.`,
+    };
+  }
+  return {
+    success: true,
+    snapshot: {
+      baseCurrency,
+      baseAmount: convertToBase(amountCents, found.rate),
+      exchangeRate: found.rate,
+      exchangeRateSource: "rates_file",
+      exchangeRateDate: found.date,
+    },
+  };
+}
+
+// ─── Base Currency ────────────────────────────────────────────────────────────
+
+export function familyBaseCurrency(family: Pick<DbFamily, "baseCurrency"> | null | undefined): string {
+  return family?.baseCurrency ?? DEFAULT_BASE_CURRENCY;
+}
+
+/**
+ * Change the currency a family settles in.  Recorded expenses were
+ * converted to the old base currency, so it can only change before the
+ * first expense is logged.
+ */
+export async function setFamilyBaseCurrency(
+  familyId: string,
+  currency: string
+): Promise<LedgerResult<{ family: DbFamily }>> {
+  if (!isCurrencyCode(currency)) {
+    return { success: false, error: "Choose a supported currency" };
+  }
+  if ((await db.expenses.findByFamilyId(familyId)).length > 0) {
+    return { success: false, error: "The base currency cannot change once expenses have been logged" };
+  }
+
+  const family = await db.families.update(familyId, { baseCurrency: currency });
+  if (!family) {
+    return { success: false, error: "Family not found" };
+  }
+  logEvent("info", "family.base_currency_changed", { familyId, currency });
+  return { success: true, family };
+}
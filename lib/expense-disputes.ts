@@ -0,0 +1,441 @@
+/**
+ * KidSchedule – Expense Disputes
+ *
+ * Either parent can dispute a shared expense with a reason.  The dispute is
+ * a message thread (like change-request discussions) where any message may
+ * propose an adjusted amount or split; the other parent accepts or rejects
+ * it.  Accepting applies the adjustment to the expense and closes the
+ * dispute as "adjusted"; the parent who opened it may instead withdraw it.
+ * While open, the expense is "disputed" and left out of the settlement
+ * balance; on close the ledger status is restored.  The invoices PDF and
+ * the communication report render the history from loadDisputeHistory().
+ */
+
+import { db, runInTransaction } from "@/lib/persistence";
+import type { UnitOfWork } from "@/lib/persistence/repositories";
+import type { DbExpense, DbExpenseDispute, DbExpenseDisputeMessage } from "@/lib/persistence/types";
+import { formatCurrency } from "@/lib/expense-engine";
+import { syncExpenseStatus, type LedgerResult } from "@/lib/expense-ledger";
+import { convertToBase } from "@/lib/exchange-rates";
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+export const MAX_DISPUTE_MESSAGE_LENGTH = 2000;
+
+const SPLIT_METHODS: ReadonlySet<string> = new Set(["50-50", "custom", "one-parent"]);
+const RATIO_TOLERANCE = 0.001;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** A proposed change to an expense; at least one field is set */
+export interface ExpenseAdjustment {
+  totalAmount?: number; // cents
+  splitMethod?: DbExpense["splitMethod"];
+  splitRatio?: Record<string, number>;
+}
+
+/** A dispute with its thread, for reports */
+export interface DisputeHistoryEntry {
+  dispute: DbExpenseDispute;
+  expenseTitle: string;
+  currency: string;
+  messages: DbExpenseDisputeMessage[];
+  /** The accepted proposal, when the dispute was resolved by adjustment */
+  adjustment?: ExpenseAdjustment;
+}
+
+// ─── Adjustments ──────────────────────────────────────────────────────────────
+
+/**
+ * Reads an adjustment from a request body: `totalAmount` in cents,
+ * `splitMethod` and, for custom splits, `splitRatio` (parentId → fraction).
+ * Returns null when the body proposes nothing.
+ */
+export function parseAdjustment(input: unknown): ExpenseAdjustment | null {
+  if (!input || typeof input !== "object") return null;
+  const raw = input as Record<string, unknown>;
+  const adjustment: ExpenseAdjustment = {};
+
+  if (raw.totalAmount !== undefined && raw.totalAmount !== null) {
+    adjustment.totalAmount = Number(raw.totalAmount);
+  }
+  if (typeof raw.splitMethod === "string") {
+    adjustment.splitMethod = raw.splitMethod as DbExpense["splitMethod"];
+  }
+  if (raw.splitRatio && typeof raw.splitRatio === "object") {
+    adjustment.splitRatio = Object.fromEntries(
+      Object.entries(raw.splitRatio as Record<string, unknown>).map(([id, value]) => [id, Number(value)])
+    );
+  }
+
+  return Object.keys(adjustment).length > 0 ? adjustment : null;
+}
+
+/** Why an adjustment cannot apply to the family, or null when it is valid */
+export function validateAdjustment(adjustment: ExpenseAdjustment, parentIds: string[]): string | null {
+  if (adjustment.totalAmount === undefined && adjustment.splitMethod === undefined) {
+    return "Propose a new amount or split";
+  }
+  if (
+    adjustment.totalAmount !== undefined &&
+    (!Number.isInteger(adjustment.totalAmount) || adjustment.totalAmount < 0)
+  ) {
+    return "Amount must be a whole number of cents";
+  }
+  if (adjustment.splitMethod !== undefined && !SPLIT_METHODS.has(adjustment.splitMethod)) {
+    return "Unknown split method";
+  }
+
+  if (adjustment.splitMethod === "custom") {
+    const ratio = adjustment.splitRatio ?? {};
+    const entries = Object.entries(ratio);
+    if (entries.length === 0) {
+      return "A custom split needs each parent's share";
+    }
+    if (entries.some(([id, value]) => !parentIds.includes(id) || !(value >= 0 && value <= 1))) {
+      return "Custom split shares must be between 0 and 1 for parents in this family";
+    }
+    const total = entries.reduce((sum, [, value]) => sum + value, 0);
+    if (Math.abs(total - 1) > RATIO_TOLERANCE) {
+      return "Custom split shares must add up to 100%";
+    }
+  } else if (adjustment.splitRatio !== undefined) {
+    return "Split shares only apply to a custom split";
+  }
+
+  return null;
+}
+
+function proposalOf(message: DbExpenseDisputeMessage): ExpenseAdjustment {
+  return {
+    totalAmount: message.proposedTotalAmount,
+    splitMethod: message.proposedSplitMethod,
+    splitRatio: message.proposedSplitRatio,
+  };
+}
+
+function describeSplit(
+  splitMethod: DbExpense["splitMethod"],
+  splitRatio: Record<string, number> | undefined,
+  parentName: (id: string) => string
+): string {
+  if (splitMethod !== "custom" || !splitRatio) return splitMethod;
+  return Object.entries(splitRatio)
+    .map(([id, value]) => `${parentName(id)} ${Math.round(value * 100)}%`)
+    .join(" / ");
+}
+
+/**
+ * Human-readable change, e.g. "amount $120.00 → $80.00; split 50-50 → Alex 70% / Sam 30%"
+ */
+export function describeAdjustment(
+  adjustment: ExpenseAdjustment,
+  original: Pick<DbExpenseDispute, "originalTotalAmount" | "originalSplitMethod" | "originalSplitRatio">,
+  currency: string,
+  parentName: (id: string) => string
+): string {
+  const parts: string[] = [];
+  if (adjustment.totalAmount !== undefined) {
+    parts.push(
+      `amount ${formatCurrency(original.originalTotalAmount, currency)} → ${formatCurrency(adjustment.totalAmount, currency)}`
+    );
+  }
+  if (adjustment.splitMethod !== undefined) {
+    parts.push(
+      `split ${describeSplit(original.originalSplitMethod, original.originalSplitRatio, parentName)} → ` +
+        describeSplit(adjustment.splitMethod, adjustment.splitRatio, parentName)
+    );
+  }
+  return parts.join("; ");
+}
+
+// ─── Lifecycle ────────────────────────────────────────────────────────────────
+
+/** Put the expense back to the status the ledger derives for it */
+async function restoreExpenseStatus(txDb: UnitOfWork, dispute: DbExpenseDispute): Promise<void> {
+  const expense = await txDb.expenses.findById(dispute.expenseId);
+  if (!expense) return;
+  const restored = await txDb.expenses.updatePaymentStatus(expense.id, dispute.previousPaymentStatus);
+  // Payments or an adjusted amount may have changed what the ledger derives
+  await syncExpenseStatus(txDb, restored ?? { ...expense, paymentStatus: dispute.previousPaymentStatus });
+}
+
+/**
+ * Open a dispute on an expense.  The reason becomes the first message of
+ * the thread and may carry a proposed adjustment.
+ */
+export async function openExpenseDispute(input: {
+  expense: DbExpense;
+  openedBy: string;
+  reason: string;
+  proposal?: ExpenseAdjustment | null;
+}): Promise<LedgerResult<{ dispute: DbExpenseDispute; message: DbExpenseDisputeMessage }>> {
+  const { expense, openedBy, proposal } = input;
+  const reason = input.reason.trim();
+
+  if (!reason) {
+    return { success: false, error: "Give a reason for the dispute" };
+  }
+  if (reason.length > MAX_DISPUTE_MESSAGE_LENGTH) {
+    return { success: false, error: `Reason must be ${MAX_DISPUTE_MESSAGE_LENGTH} characters or fewer` };
+  }
+  if (proposal) {
+    const parents = await db.parents.findByFamilyId(expense.familyId);
+    const invalid = validateAdjustment(proposal, parents.map((p) => p.id));
+    if (invalid) return { success: false, error: invalid };
+  }
+
+  try {
+    return await runInTransaction(async (txDb) => {
+      const dispute = await txDb.expenseDisputes.create({
+        familyId: expense.familyId,
+        expenseId: expense.id,
+        openedBy,
+        reason,
+        // A bare "disputed" label from before disputes were tracked counts as unpaid
+        previousPaymentStatus: expense.paymentStatus === "disputed" ? "unpaid" : expense.paymentStatus,
+        originalTotalAmount: expense.totalAmount,
+        originalSplitMethod: expense.splitMethod,
+        originalSplitRatio: expense.splitRatio,
+      });
+      const message = await txDb.expenseDisputeMessages.create({
+        disputeId: dispute.id,
+        familyId: expense.familyId,
+        senderParentId: openedBy,
+        body: reason,
+        proposedTotalAmount: proposal?.totalAmount,
+        proposedSplitMethod: proposal?.splitMethod,
+        proposedSplitRatio: proposal?.splitRatio,
+        proposalStatus: proposal ? "pending" : undefined,
+      });
+      await txDb.expenses.updatePaymentStatus(expense.id, "disputed");
+      return { success: true as const, dispute, message };
+    });
+  } catch (error) {
+    if ((error as { code?: string }).code === "23505") {
+      return { success: false, error: "This expense already has an open dispute" };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Add a message to an open dispute.  A message with a proposal replaces any
+ * proposal still waiting for an answer.
+ */
+export async function postDisputeMessage(input: {
+  dispute: DbExpenseDispute;
+  senderParentId: string;
+  body: string;
+  proposal?: ExpenseAdjustment | null;
+}): Promise<LedgerResult<{ message: DbExpenseDisputeMessage }>> {
+  const { dispute, senderParentId, proposal } = input;
+  const body = input.body.trim();
+
+  if (dispute.status !== "open") {
+    return { success: false, error: "Dispute is closed" };
+  }
+  if (!body) {
+    return { success: false, error: "Message body is required" };
+  }
+  if (body.length > MAX_DISPUTE_MESSAGE_LENGTH) {
+    return { success: false, error: `Message must be ${MAX_DISPUTE_MESSAGE_LENGTH} characters or fewer` };
+  }
+  if (proposal) {
+    const parents = await db.parents.findByFamilyId(dispute.familyId);
+    const invalid = validateAdjustment(proposal, parents.map((p) => p.id));
+    if (invalid) return { success: false, error: invalid };
+  }
+
+  return runInTransaction(async (txDb) => {
+    if (proposal) {
+      await txDb.expenseDisputeMessages.supersedePending(dispute.id);
+    }
+    const message = await txDb.expenseDisputeMessages.create({
+      disputeId: dispute.id,
+      familyId: dispute.familyId,
+      senderParentId,
+      body,
+      proposedTotalAmount: proposal?.totalAmount,
+      proposedSplitMethod: proposal?.splitMethod,
+      proposedSplitRatio: proposal?.splitRatio,
+      proposalStatus: proposal ? "pending" : undefined,
+    });
+    return { success: true as const, message };
+  });
+}
+
+/**
+ * Accept or reject the pending proposal in `messageId`; only the parent who
+ * did not propose it may answer.  Accepting applies it and closes the
+ * dispute as "adjusted".
+ */
+export async function respondToDisputeProposal(input: {
+  dispute: DbExpenseDispute;
+  messageId: string;
+  respondedBy: string;
+  decision: "accept" | "reject";
+}): Promise<LedgerResult<{ dispute: DbExpenseDispute; message: DbExpenseDisputeMessage }>> {
+  const { dispute, messageId, respondedBy, decision } = input;
+
+  if (dispute.status !== "open") {
+    return { success: false, error: "Dispute is closed" };
+  }
+  const proposal = (await db.expenseDisputeMessages.findByDisputeId(dispute.id)).find((m) => m.id === messageId);
+  if (!proposal || proposal.proposalStatus !== "pending") {
+    return { success: false, error: "Proposal is not waiting for an answer" };
+  }
+  if (proposal.senderParentId === respondedBy) {
+    return { success: false, error: "The other parent must answer this proposal" };
+  }
+
+  return runInTransaction(async (txDb) => {
+    const answered = await txDb.expenseDisputeMessages.respondToProposal(
+      messageId,
+      decision === "accept" ? "accepted" : "rejected",
+      respondedBy
+    );
+    if (!answered) {
+      return { success: false as const, error: "Proposal is not waiting for an answer" };
+    }
+    if (decision === "reject") {
+      return { success: true as const, dispute, message: answered };
+    }
+
+    const adjustment = proposalOf(answered);
+    const amount: Partial<DbExpense> = {};
+    if (adjustment.totalAmount !== undefined) {
+      amount.totalAmount = adjustment.totalAmount;
+      // A foreign-currency expense is re-converted at the rate it was recorded at
+      const expense = await txDb.expenses.findById(dispute.expenseId);
+      if (expense?.exchangeRate !== undefined) {
+        amount.baseAmount = convertToBase(adjustment.totalAmount, expense.exchangeRate);
+      }
+    }
+    await txDb.expenses.update(dispute.expenseId, {
+      ...amount,
+      ...(adjustment.splitMethod === undefined
+        ? {}
+        : { splitMethod: adjustment.splitMethod, splitRatio: adjustment.splitRatio }),
+    });
+    const resolved = await txDb.expenseDisputes.resolve(dispute.id, "adjusted", respondedBy);
+    if (!resolved) {
+      throw new Error(`Expense dispute ${dispute.id} closed during acceptance`);
+    }
+    await restoreExpenseStatus(txDb, resolved);
+    return { success: true as const, dispute: resolved, message: answered };
+  });
+}
+
+/** Withdraw an open dispute; the expense stands as it was */
+export async function withdrawExpenseDispute(
+  dispute: DbExpenseDispute,
+  parentId: string
+): Promise<LedgerResult<{ dispute: DbExpenseDispute }>> {
+  if (dispute.openedBy !== parentId) {
+    return { success: false, error: "Only the parent who opened the dispute can withdraw it" };
+  }
+
+  return runInTransaction(async (txDb) => {
+    const withdrawn = await txDb.expenseDisputes.resolve(dispute.id, "withdrawn", parentId);
+    if (!withdrawn) {
+      return { success: false as const, error: "Dispute is closed" };
+    }
+    await txDb.expenseDisputeMessages.supersedePending(dispute.id);
+    await restoreExpenseStatus(txDb, withdrawn);
+    return { success: true as const, dispute: withdrawn };
+  });
+}
+
+// ─── History ──────────────────────────────────────────────────────────────────
+
+/**
+ * Every dispute in the family with its thread, oldest first.  `filter`
+ * narrows to disputes on given expenses or opened within a period.
+ */
+export async function loadDisputeHistory(
+  familyId: string,
+  filter: { expenseIds?: Set<string>; start?: string; end?: string } = {}
+): Promise<DisputeHistoryEntry[]> {
+  const [disputes, expenses] = await Promise.all([
+    db.expenseDisputes.findByFamilyId(familyId),
+    db.expenses.findByFamilyId(familyId),
+  ]);
+  const expenseById = new Map(expenses.map((e) => [e.id, e]));
+  const startMs = filter.start ? Date.parse(filter.start) : -Infinity;
+  const endMs = filter.end ? Date.parse(filter.end) : Infinity;
+
+  const selected = disputes.filter((d) => {
+    if (filter.expenseIds && !filter.expenseIds.has(d.expenseId)) return false;
+    const openedMs = Date.parse(d.createdAt);
+    return openedMs >= startMs && openedMs <= endMs;
+  });
+
+  return Promise.all(
+    selected.map(async (dispute) =>
+      toDisputeHistoryEntry(
+        dispute,
+        expenseById.get(dispute.expenseId),
+        await db.expenseDisputeMessages.findByDisputeId(dispute.id)
+      )
+    )
+  );
+}
+
+export function toDisputeHistoryEntry(
+  dispute: DbExpenseDispute,
+  expense: Pick<DbExpense, "title" | "currency"> | undefined,
+  messages: DbExpenseDisputeMessage[]
+): DisputeHistoryEntry {
+  const accepted = messages.find((m) => m.proposalStatus === "accepted");
+  return {
+    dispute,
+    expenseTitle: expense?.title ?? "Deleted expense",
+    currency: expense?.currency ?? "USD",
+    messages,
+    adjustment: accepted ? proposalOf(accepted) : undefined,
+  };
+}
+
+/**
+ * Plain-text lines describing one dispute and how it ended, for PDF
+ * reports: the opening reason, each reply or proposal with its answer, and
+ * the outcome.
+ */
+export function formatDisputeLines(entry: DisputeHistoryEntry, parentName: (id: string) => string): string[] {
+  const { dispute, currency } = entry;
+  const day = (iso: string) => iso.slice(0, 10);
+  const lines = [
+    `${entry.expenseTitle} (${formatCurrency(dispute.originalTotalAmount, currency)}, ${dispute.originalSplitMethod}) ` +
+      `- disputed by ${parentName(dispute.openedBy)} on ${day(dispute.createdAt)}: ${dispute.reason}`,
+  ];
+
+  for (const message of entry.messages.slice(1)) {
+    lines.push(`  ${day(message.createdAt)} ${parentName(message.senderParentId)}: ${message.body}`);
+  }
+  for (const message of entry.messages.filter((m) => m.proposalStatus)) {
+    const change = describeAdjustment(proposalOf(message), dispute, currency, parentName);
+    const answer = message.respondedBy
+      ? ` by ${parentName(message.respondedBy)} on ${day(message.respondedAt ?? message.createdAt)}`
+      : "";
+    lines.push(`  Proposal from ${parentName(message.senderParentId)}: ${change} - ${message.proposalStatus}${answer}`);
+  }
+
+  switch (dispute.status) {
+    case "adjusted":
+      lines.push(
+        `  Outcome: adjusted (${entry.adjustment ? describeAdjustment(entry.adjustment, dispute, currency, parentName) : "see proposal"})` +
+          ` on ${day(dispute.resolvedAt ?? dispute.updatedAt)}`
+      );
+      break;
+    case "withdrawn":
+      lines.push(
+        `  Outcome: withdrawn by ${parentName(dispute.resolvedBy ?? dispute.openedBy)} on ` +
+          `${day(dispute.resolvedAt ?? dispute.updatedAt)}; original expense stands`
+      );
+      break;
+    default:
+      lines.push("  Outcome: still open");
+  }
+  return lines;
+}
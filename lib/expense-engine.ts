@@ -4,6 +4,7 @@
  */
 
 import type { ExpenseCategory } from "@/lib";
+import type { ExpenseFrequency } from "@/lib/persistence/types";
 
 export type ExpenseSplitType = "equal" | "standard" | "custom";
 
@@ -27,6 +28,13 @@ export type AddExpenseInput = {
   splitType: ExpenseSplitType;
   customYouPercent: number | null;
   receiptFileName?: string;
+  /** Set when the expense repeats; the date incurred is the first occurrence */
+  repeatFrequency?: ExpenseFrequency;
+  repeatUntil?: string;
+  /** ISO-4217 code the expense was paid in; the family's base currency when unset */
+  currency?: string;
+  /** Base currency per one unit of `currency`, when the parent enters it */
+  exchangeRateText?: string;
 };
 
 export type AddExpenseValidation = {
@@ -71,6 +79,55 @@ export const SPLIT_PRESETS: readonly SplitPreset[] = [
   },
 ] as const;
 
+export const EXPENSE_FREQUENCY_OPTIONS: ReadonlyArray<{ value: ExpenseFrequency; label: string }> = [
+  { value: "weekly", label: "Weekly" },
+  { value: "biweekly", label: "Every 2 weeks" },
+  { value: "monthly", label: "Monthly" },
+  { value: "quarterly", label: "Quarterly" },
+  { value: "yearly", label: "Yearly" },
+];
+
+export function isExpenseFrequency(value: unknown): value is ExpenseFrequency {
+  return EXPENSE_FREQUENCY_OPTIONS.some((option) => option.value === value);
+}
+
+export function formatFrequency(frequency: ExpenseFrequency): string {
+  return EXPENSE_FREQUENCY_OPTIONS.find((option) => option.value === frequency)?.label ?? frequency;
+}
+
+/** Currencies expenses can be recorded in and families can settle in */
+export const CURRENCY_OPTIONS: ReadonlyArray<{ value: string; label: string }> = [
+  { value: "USD", label: "US Dollar" },
+  { value: "EUR", label: "Euro" },
+  { value: "GBP", label: "British Pound" },
+  { value: "CAD", label: "Canadian Dollar" },
+  { value: "AUD", label: "Australian Dollar" },
+  { value: "NZD", label: "New Zealand Dollar" },
+  { value: "CHF", label: "Swiss Franc" },
+  { value: "SEK", label: "Swedish Krona" },
+  { value: "NOK", label: "Norwegian Krone" },
+  { value: "DKK", label: "Danish Krone" },
+  { value: "PLN", label: "Polish Zloty" },
+  { value: "JPY", label: "Japanese Yen" },
+  { value: "SGD", label: "Singapore Dollar" },
+  { value: "HKD", label: "Hong Kong Dollar" },
+  { value: "INR", label: "Indian Rupee" },
+  { value: "ILS", label: "Israeli Shekel" },
+  { value: "MXN", label: "Mexican Peso" },
+  { value: "BRL", label: "Brazilian Real" },
+  { value: "ZAR", label: "South African Rand" },
+];
+
+export function isCurrencyCode(value: unknown): value is string {
+  return CURRENCY_OPTIONS.some((option) => option.value === value);
+}
+
+/** An exchange rate typed by a parent, or null when it is not a positive number */
+export function parseExchangeRate(value: string): number | null {
+  const parsed = Number(value.replaceAll(",", "").trim());
+  return value.trim() && Number.isFinite(parsed) && parsed > 0 && parsed < 1_000_000 ? parsed : null;
+}
+
 const MAX_EXPENSE_CENTS = 100_000_000; // $1,000,000.00
 
 function isIsoDate(value: string): boolean {
@@ -153,6 +210,34 @@ function validateCustomSplit(input: AddExpenseInput): AddExpenseValidation {
   return { valid: true };
 }
 
+function validateRepeat(input: AddExpenseInput): AddExpenseValidation {
+  if (!input.repeatFrequency || !input.repeatUntil) {
+    return { valid: true };
+  }
+
+  if (!isIsoDate(input.repeatUntil)) {
+    return { valid: false, error: "Enter a valid date for when the expense stops repeating." };
+  }
+
+  if (compareIsoDatesAsTime(input.repeatUntil, input.dateIncurred) < 0) {
+    return { valid: false, error: "An expense cannot stop repeating before the date incurred." };
+  }
+
+  return { valid: true };
+}
+
+function validateCurrency(input: AddExpenseInput): AddExpenseValidation {
+  if (input.currency !== undefined && !isCurrencyCode(input.currency)) {
+    return { valid: false, error: "Choose the currency the expense was paid in." };
+  }
+
+  if (input.exchangeRateText && parseExchangeRate(input.exchangeRateText) === null) {
+    return { valid: false, error: "Enter the exchange rate as a positive number." };
+  }
+
+  return { valid: true };
+}
+
 function categoryExists(value: string): value is ExpenseCategory {
   return EXPENSE_CATEGORY_OPTIONS.some((option) => option.value === value);
 }
@@ -194,6 +279,8 @@ export function parseExpenseFormData(formData: FormData): AddExpenseInput {
   const category: ExpenseCategory = categoryExists(rawCategory) ? rawCategory : "medical";
 
   const customYouPercent = parseCustomPercent(customPercentText);
+  const rawRepeat = readFormString(formData, "repeat");
+  const repeatFrequency = isExpenseFrequency(rawRepeat) ? rawRepeat : undefined;
 
   return {
     expenseName: sanitizeExpenseName(readFormString(formData, "expenseName")),
@@ -203,6 +290,10 @@ export function parseExpenseFormData(formData: FormData): AddExpenseInput {
     splitType,
     customYouPercent,
     receiptFileName: receipt && receipt.size > 0 ? receipt.name : undefined,
+    repeatFrequency,
+    repeatUntil: repeatFrequency ? readFormString(formData, "repeatUntil") || undefined : undefined,
+    currency: readFormString(formData, "currency").toUpperCase() || undefined,
+    exchangeRateText: readFormString(formData, "exchangeRate") || undefined,
   };
 }
 
@@ -212,6 +303,8 @@ export function validateAddExpenseInput(input: AddExpenseInput, todayIso: string
     validateAmount(input.amountText),
     validateDate(input.dateIncurred, todayIso),
     validateCustomSplit(input),
+    validateRepeat(input),
+    validateCurrency(input),
   ];
 
   const firstError = validators.find((result) => !result.valid);
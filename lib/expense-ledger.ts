@@ -0,0 +1,561 @@
+/**
+ * KidSchedule – Expense Settlement Ledger
+ *
+ * Works out who owes whom for shared expenses from the payments parents
+ * record against them.  Each expense creates one obligation per party
+ * sharing it (their share, owed to the parent who paid): the co-parent of a
+ * 50-50 expense, or everyone named in a custom split.  Payments reduce it, so an
+ * expense can be unpaid, partially paid or paid.  The running balance
+ * between two parents is what is still outstanding in each direction, and
+ * settling up pays it off in one go.  The expenses page and the invoices
+ * PDF both read their numbers from here.
+ *
+ * Everything is settled in the family's base currency: an expense paid in
+ * another currency is owed and paid at the converted amount stored on it
+ * when it was recorded (lib/exchange-rates).
+ */
+
+import { randomUUID } from "node:crypto";
+import { db, runInTransaction } from "@/lib/persistence";
+import type { UnitOfWork } from "@/lib/persistence/repositories";
+import type {
+  DbExpense,
+  DbExpensePayment,
+  DbExpensePaymentStatus,
+  DbParent,
+  DbReimbursementRequest,
+} from "@/lib/persistence/types";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** The expense fields the ledger reads; satisfied by both DbExpense and Expense */
+export type LedgerExpense = Pick<
+  DbExpense,
+  | "id"
+  | "totalAmount"
+  | "currency"
+  | "baseAmount"
+  | "baseCurrency"
+  | "splitMethod"
+  | "splitRatio"
+  | "paidBy"
+  | "paymentStatus"
+  | "date"
+>;
+
+export type LedgerPayment = Pick<DbExpensePayment, "expenseId" | "fromParentId" | "toParentId" | "amountCents">;
+
+/** What one co-parent owes the parent who paid an expense */
+export interface ExpenseObligation {
+  debtorId: string;
+  creditorId: string;
+  shareCents: number;
+  paidCents: number;
+  outstandingCents: number;
+}
+
+export interface ExpenseLedgerLine<E extends LedgerExpense = LedgerExpense> {
+  expense: E;
+  obligations: ExpenseObligation[];
+  paidCents: number;
+  outstandingCents: number;
+  status: DbExpensePaymentStatus;
+}
+
+export interface SettlementBalance {
+  youOweThem: number;
+  theyOweYou: number;
+  /** Positive when the other parent owes you */
+  netBalance: number;
+}
+
+export interface SettleUpAllocation {
+  expenseId: string;
+  fromParentId: string;
+  toParentId: string;
+  amountCents: number;
+  currency: string;
+}
+
+/**
+ * Clearing every outstanding obligation between two parents.  Obligations
+ * in opposite directions cancel out, so only `amountCents` (the net)
+ * actually changes hands, from `fromParentId` to `toParentId`.
+ */
+export interface SettleUpPlan {
+  fromParentId: string;
+  toParentId: string;
+  amountCents: number;
+  currency: string;
+  allocations: SettleUpAllocation[];
+}
+
+/** One line of "who paid whom and when": a payment, or a whole settle-up */
+export interface LedgerHistoryEntry {
+  id: string;
+  kind: DbExpensePayment["kind"];
+  fromParentId: string;
+  toParentId: string;
+  amountCents: number;
+  currency: string;
+  paidAt: string;
+  expenseIds: string[];
+  note?: string;
+}
+
+export type LedgerResult<T> = { success: true } & T | { success: false; error: string };
+
+// ─── Shares & Obligations ─────────────────────────────────────────────────────
+
+/** The amount an expense is settled at: converted to the base currency when paid in another */
+export function settlementAmount(expense: Pick<LedgerExpense, "totalAmount" | "baseAmount">): number {
+  return expense.baseAmount ?? expense.totalAmount;
+}
+
+export function settlementCurrency(expense: Pick<LedgerExpense, "currency" | "baseCurrency">): string {
+  return expense.baseCurrency ?? expense.currency;
+}
+
+/**
+ * A parent's share of an expense, in cents of the settlement currency.
+ *
+ *   "50-50":      half the total
+ *   "custom":     splitRatio[parentId] × total
+ *   "one-parent": the full total for the payer, 0 for everyone else
+ */
+export function calculateParentShare(
+  expense: Pick<LedgerExpense, "totalAmount" | "baseAmount" | "splitMethod" | "splitRatio" | "paidBy">,
+  parentId: string
+): number {
+  const total = settlementAmount(expense);
+
+  if (expense.splitMethod === "50-50") {
+    return Math.round(total / 2);
+  }
+
+  if (expense.splitMethod === "custom" && expense.splitRatio) {
+    const ratio = expense.splitRatio[parentId] ?? 0;
+    return Math.round(total * ratio);
+  }
+
+  if (expense.splitMethod === "one-parent") {
+    return expense.paidBy === parentId ? total : 0;
+  }
+
+  return 0;
+}
+
+/**
+ * The family's caregivers in the order the ledger looks for a 50-50
+ * expense's co-parent: parents first, then step-parents, grandparents and
+ * other caregivers, who only share costs when a custom split names them.
+ */
+export function ledgerParentIds(parents: ReadonlyArray<Pick<DbParent, "id" | "caregiverRole">>): string[] {
+  const isParent = (p: Pick<DbParent, "caregiverRole">) => (p.caregiverRole ?? "parent") === "parent";
+  return [...parents.filter(isParent), ...parents.filter((p) => !isParent(p))].map((p) => p.id);
+}
+
+/**
+ * Who owes the payer a share of an expense: the co-parent (the first of
+ * `parentIds` besides the payer) for a 50-50 split, the other parties named
+ * in a custom split, and nobody for a one-parent expense.
+ */
+export function expenseDebtorIds(
+  expense: Pick<LedgerExpense, "splitMethod" | "splitRatio" | "paidBy">,
+  parentIds: readonly string[]
+): string[] {
+  if (expense.splitMethod === "50-50") {
+    const coParentId = parentIds.find((id) => id !== expense.paidBy);
+    return coParentId ? [coParentId] : [];
+  }
+  const ratio = expense.splitMethod === "custom" ? expense.splitRatio : undefined;
+  return ratio ? parentIds.filter((id) => id !== expense.paidBy && id in ratio) : [];
+}
+
+function deriveStatus(expense: LedgerExpense, obligations: ExpenseObligation[]): DbExpensePaymentStatus {
+  if (expense.paymentStatus === "disputed") return "disputed";
+  const outstanding = obligations.reduce((sum, o) => sum + o.outstandingCents, 0);
+  const paid = obligations.reduce((sum, o) => sum + o.paidCents, 0);
+  if (outstanding === 0) return "paid";
+  return paid > 0 ? "partially_paid" : "unpaid";
+}
+
+/**
+ * One ledger line per expense: each debtor's share, what they have paid
+ * toward it and what is left.  Expenses already marked paid before any
+ * payment was recorded count as settled outside the ledger.
+ *
+ * `parentIds` is the family in `ledgerParentIds` order.
+ */
+export function buildExpenseLedger<E extends LedgerExpense>(
+  expenses: E[],
+  payments: LedgerPayment[],
+  parentIds: string[]
+): ExpenseLedgerLine<E>[] {
+  const paymentsByExpense = new Map<string, LedgerPayment[]>();
+  for (const payment of payments) {
+    const list = paymentsByExpense.get(payment.expenseId) ?? [];
+    list.push(payment);
+    paymentsByExpense.set(payment.expenseId, list);
+  }
+
+  return expenses.map((expense) => {
+    const expensePayments = paymentsByExpense.get(expense.id) ?? [];
+    const settledOutsideLedger = expense.paymentStatus === "paid" && expensePayments.length === 0;
+
+    const obligations: ExpenseObligation[] = [];
+    for (const debtorId of expenseDebtorIds(expense, parentIds)) {
+      const shareCents = calculateParentShare(expense, debtorId);
+      if (shareCents <= 0) continue;
+
+      const paidCents = settledOutsideLedger
+        ? shareCents
+        : expensePayments
+            .filter((p) => p.fromParentId === debtorId && p.toParentId === expense.paidBy)
+            .reduce((sum, p) => sum + p.amountCents, 0);
+      obligations.push({
+        debtorId,
+        creditorId: expense.paidBy,
+        shareCents,
+        paidCents,
+        outstandingCents: Math.max(0, shareCents - paidCents),
+      });
+    }
+
+    return {
+      expense,
+      obligations,
+      paidCents: obligations.reduce((sum, o) => sum + o.paidCents, 0),
+      outstandingCents: obligations.reduce((sum, o) => sum + o.outstandingCents, 0),
+      status: deriveStatus(expense, obligations),
+    };
+  });
+}
+
+/** The obligation `debtorId` has on a line, if any */
+export function findObligation(line: ExpenseLedgerLine, debtorId: string): ExpenseObligation | undefined {
+  return line.obligations.find((o) => o.debtorId === debtorId);
+}
+
+// ─── Balances ─────────────────────────────────────────────────────────────────
+
+function outstandingBetween(
+  lines: ExpenseLedgerLine[],
+  debtorId: string,
+  creditorId: string
+): Array<{ line: ExpenseLedgerLine; obligation: ExpenseObligation }> {
+  const owed: Array<{ line: ExpenseLedgerLine; obligation: ExpenseObligation }> = [];
+  for (const line of lines) {
+    // Disputed expenses are not owed until the dispute is resolved
+    if (line.status === "disputed") continue;
+    const obligation = line.obligations.find(
+      (o) => o.debtorId === debtorId && o.creditorId === creditorId && o.outstandingCents > 0
+    );
+    if (obligation) owed.push({ line, obligation });
+  }
+  return owed;
+}
+
+/**
+ * Running balance between two parents: what is still outstanding in each
+ * direction after recorded payments.
+ *
+ * Complexity: O(E) where E = number of ledger lines
+ */
+export function calculateSettlement(
+  lines: ExpenseLedgerLine[],
+  currentParentId: string,
+  otherParentId: string
+): SettlementBalance {
+  const sum = (owed: ReturnType<typeof outstandingBetween>) =>
+    owed.reduce((total, { obligation }) => total + obligation.outstandingCents, 0);
+
+  const youOweThem = sum(outstandingBetween(lines, currentParentId, otherParentId));
+  const theyOweYou = sum(outstandingBetween(lines, otherParentId, currentParentId));
+
+  return { youOweThem, theyOweYou, netBalance: theyOweYou - youOweThem };
+}
+
+/**
+ * Everything needed to settle up between two parents, oldest expense
+ * first; null when nothing is outstanding either way.
+ */
+export function planSettleUp(
+  lines: ExpenseLedgerLine[],
+  currentParentId: string,
+  otherParentId: string
+): SettleUpPlan | null {
+  const owed = [
+    ...outstandingBetween(lines, currentParentId, otherParentId),
+    ...outstandingBetween(lines, otherParentId, currentParentId),
+  ].sort((a, b) => a.line.expense.date.localeCompare(b.line.expense.date));
+
+  if (owed.length === 0) {
+    return null;
+  }
+
+  const { netBalance } = calculateSettlement(lines, currentParentId, otherParentId);
+  return {
+    fromParentId: netBalance > 0 ? otherParentId : currentParentId,
+    toParentId: netBalance > 0 ? currentParentId : otherParentId,
+    amountCents: Math.abs(netBalance),
+    currency: settlementCurrency(owed[0].line.expense),
+    allocations: owed.map(({ line, obligation }) => ({
+      expenseId: line.expense.id,
+      fromParentId: obligation.debtorId,
+      toParentId: obligation.creditorId,
+      amountCents: obligation.outstandingCents,
+      currency: settlementCurrency(line.expense),
+    })),
+  };
+}
+
+// ─── History ──────────────────────────────────────────────────────────────────
+
+/**
+ * Who paid whom and when, newest first.  The rows of one settle-up are
+ * collapsed into a single entry for the net amount that changed hands.
+ */
+export function buildPaymentHistory(payments: DbExpensePayment[]): LedgerHistoryEntry[] {
+  const entries: LedgerHistoryEntry[] = [];
+  const settlements = new Map<string, DbExpensePayment[]>();
+
+  for (const payment of payments) {
+    if (payment.kind === "settle_up" && payment.settlementId) {
+      const rows = settlements.get(payment.settlementId) ?? [];
+      rows.push(payment);
+      settlements.set(payment.settlementId, rows);
+      continue;
+    }
+    entries.push({
+      id: payment.id,
+      kind: payment.kind,
+      fromParentId: payment.fromParentId,
+      toParentId: payment.toParentId,
+      amountCents: payment.amountCents,
+      currency: payment.currency,
+      paidAt: payment.paidAt,
+      expenseIds: [payment.expenseId],
+      note: payment.note,
+    });
+  }
+
+  for (const [settlementId, rows] of settlements) {
+    const first = rows[0];
+    let net = 0;
+    for (const row of rows) {
+      net += row.fromParentId === first.fromParentId ? row.amountCents : -row.amountCents;
+    }
+    entries.push({
+      id: settlementId,
+      kind: "settle_up",
+      fromParentId: net >= 0 ? first.fromParentId : first.toParentId,
+      toParentId: net >= 0 ? first.toParentId : first.fromParentId,
+      amountCents: Math.abs(net),
+      currency: first.currency,
+      paidAt: first.paidAt,
+      expenseIds: [...new Set(rows.map((row) => row.expenseId))],
+      note: first.note,
+    });
+  }
+
+  return entries.sort((a, b) => Date.parse(b.paidAt) - Date.parse(a.paidAt));
+}
+
+// ─── Ledger Operations ────────────────────────────────────────────────────────
+
+async function loadLedgerLine(txDb: UnitOfWork, expense: DbExpense): Promise<ExpenseLedgerLine<DbExpense>> {
+  const [parents, payments] = await Promise.all([
+    txDb.parents.findByFamilyId(expense.familyId),
+    txDb.expensePayments.findByExpenseId(expense.id),
+  ]);
+  return buildExpenseLedger([expense], payments, ledgerParentIds(parents))[0];
+}
+
+/**
+ * Store the status the ledger now derives for the expense, and close any
+ * reimbursement request whose debtor has paid their share in full.
+ */
+export async function syncExpenseStatus(
+  txDb: UnitOfWork,
+  expense: DbExpense
+): Promise<ExpenseLedgerLine<DbExpense>> {
+  const line = await loadLedgerLine(txDb, expense);
+  if (line.status !== expense.paymentStatus) {
+    await txDb.expenses.updatePaymentStatus(expense.id, line.status);
+  }
+
+  for (const request of await txDb.reimbursementRequests.findPendingByExpenseId(expense.id)) {
+    if ((findObligation(line, request.requestedFrom)?.outstandingCents ?? 0) === 0) {
+      await txDb.reimbursementRequests.resolve(request.id, "paid");
+    }
+  }
+  return line;
+}
+
+/**
+ * Record a (possibly partial) payment toward `fromParentId`'s share of an
+ * expense.  Either side of the obligation may record it.
+ */
+export async function recordExpensePayment(input: {
+  expense: DbExpense;
+  fromParentId: string;
+  amountCents: number;
+  recordedBy: string;
+  paidAt?: string;
+  note?: string;
+}): Promise<LedgerResult<{ payment: DbExpensePayment; line: ExpenseLedgerLine<DbExpense> }>> {
+  const { expense, fromParentId, amountCents, recordedBy } = input;
+
+  if (expense.paymentStatus === "disputed") {
+    return { success: false, error: "This expense is disputed" };
+  }
+  if (!Number.isInteger(amountCents) || amountCents <= 0) {
+    return { success: false, error: "Amount must be a positive number of cents" };
+  }
+  if (recordedBy !== fromParentId && recordedBy !== expense.paidBy) {
+    return { success: false, error: "Only the parents involved can record this payment" };
+  }
+
+  return runInTransaction(async (txDb) => {
+    const obligation = findObligation(await loadLedgerLine(txDb, expense), fromParentId);
+    if (!obligation || obligation.outstandingCents === 0) {
+      return { success: false, error: "Nothing is owed on this expense" };
+    }
+    if (amountCents > obligation.outstandingCents) {
+      return { success: false, error: "Payment is more than what is owed" };
+    }
+
+    const [request] = (await txDb.reimbursementRequests.findPendingByExpenseId(expense.id)).filter(
+      (r) => r.requestedFrom === fromParentId
+    );
+    const payment = await txDb.expensePayments.create({
+      familyId: expense.familyId,
+      expenseId: expense.id,
+      fromParentId,
+      toParentId: expense.paidBy,
+      amountCents,
+      currency: settlementCurrency(expense),
+      kind: "payment",
+      reimbursementRequestId: request?.id,
+      note: input.note,
+      paidAt: input.paidAt ?? new Date().toISOString(),
+      recordedBy,
+    });
+
+    const line = await syncExpenseStatus(txDb, expense);
+    return { success: true, payment, line };
+  });
+}
+
+/**
+ * Pay off the running balance between two parents: every outstanding
+ * obligation between them is cleared with settle-up rows sharing one
+ * settlement id.
+ */
+export async function settleUp(input: {
+  familyId: string;
+  currentParentId: string;
+  otherParentId: string;
+  recordedBy: string;
+  note?: string;
+}): Promise<LedgerResult<{ plan: SettleUpPlan; settlementId: string }>> {
+  return runInTransaction(async (txDb) => {
+    const [expenses, payments, parents] = await Promise.all([
+      txDb.expenses.findByFamilyId(input.familyId),
+      txDb.expensePayments.findByFamilyId(input.familyId),
+      txDb.parents.findByFamilyId(input.familyId),
+    ]);
+    if (!parents.some((p) => p.id === input.otherParentId)) {
+      return { success: false, error: "Co-parent not found in this family" };
+    }
+
+    const lines = buildExpenseLedger(expenses, payments, ledgerParentIds(parents));
+    const plan = planSettleUp(lines, input.currentParentId, input.otherParentId);
+    if (!plan) {
+      return { success: false, error: "Nothing to settle" };
+    }
+
+    const settlementId = randomUUID();
+    const paidAt = new Date().toISOString();
+    for (const allocation of plan.allocations) {
+      await txDb.expensePayments.create({
+        familyId: input.familyId,
+        expenseId: allocation.expenseId,
+        fromParentId: allocation.fromParentId,
+        toParentId: allocation.toParentId,
+        amountCents: allocation.amountCents,
+        currency: allocation.currency,
+        kind: "settle_up",
+        settlementId,
+        note: input.note,
+        paidAt,
+        recordedBy: input.recordedBy,
+      });
+    }
+
+    const settledIds = new Set(plan.allocations.map((a) => a.expenseId));
+    for (const expense of expenses.filter((e) => settledIds.has(e.id))) {
+      await syncExpenseStatus(txDb, expense);
+    }
+
+    return { success: true, plan, settlementId };
+  });
+}
+
+/**
+ * Ask a co-parent to reimburse their outstanding share of an expense the
+ * requesting parent paid.
+ */
+export async function requestReimbursement(input: {
+  expense: DbExpense;
+  requestedBy: string;
+  requestedFrom: string;
+  note?: string;
+}): Promise<LedgerResult<{ request: DbReimbursementRequest }>> {
+  const { expense, requestedBy, requestedFrom } = input;
+
+  if (requestedBy !== expense.paidBy) {
+    return { success: false, error: "Only the parent who paid can request reimbursement" };
+  }
+  if (expense.paymentStatus === "disputed") {
+    return { success: false, error: "This expense is disputed" };
+  }
+
+  const obligation = findObligation(await loadLedgerLine(db, expense), requestedFrom);
+  if (!obligation || obligation.outstandingCents === 0) {
+    return { success: false, error: "Nothing is owed on this expense" };
+  }
+
+  try {
+    const request = await db.reimbursementRequests.create({
+      familyId: expense.familyId,
+      expenseId: expense.id,
+      requestedBy,
+      requestedFrom,
+      amountCents: obligation.outstandingCents,
+      note: input.note,
+    });
+    return { success: true, request };
+  } catch (error) {
+    if ((error as { code?: string }).code === "23505") {
+      return { success: false, error: "A reimbursement request is already pending" };
+    }
+    throw error;
+  }
+}
+
+/** Withdraw a pending request; only the parent who made it may */
+export async function cancelReimbursementRequest(
+  request: DbReimbursementRequest,
+  cancelledBy: string
+): Promise<LedgerResult<{ request: DbReimbursementRequest }>> {
+  if (request.requestedBy !== cancelledBy) {
+    return { success: false, error: "Only the requesting parent can cancel this request" };
+  }
+  const cancelled = await db.reimbursementRequests.resolve(request.id, "cancelled");
+  if (!cancelled) {
+    return { success: false, error: "Request is no longer pending" };
+  }
+  return { success: true, request: cancelled };
+}
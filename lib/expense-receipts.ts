@@ -0,0 +1,243 @@
+/**
+ * KidSchedule – Expense Receipts
+ *
+ * PDF and image receipts attached to expenses.  Files are written to object
+ * storage under `receipts/<familyId>/` and only ever served through signed
+ * URLs; the expense's receiptUrl keeps the latest receipt's storage key.
+ *
+ * Text-based PDF receipts are read (lib/pdf-text, no OCR) for the total,
+ * date and merchant: the add-expense form uses them to pre-fill itself and
+ * they are stored with the receipt.  Image receipts are stored as-is.
+ * Receipts back reimbursement claims, so they are never deleted.
+ */
+
+import { Readable as NodeReadable } from "node:stream";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+import { db } from "@/lib/persistence";
+import type { DbExpense, DbExpenseReceipt, ReceiptExtraction } from "@/lib/persistence/types";
+import { buildStorageKey, getStorageAdapter } from "@/lib/storage";
+import { extractPdfText } from "@/lib/pdf-text";
+import type { LedgerResult } from "@/lib/expense-ledger";
+import { logEvent } from "@/lib/observability/logger";
+
+// ─── Files ────────────────────────────────────────────────────────────────────
+
+export const RECEIPT_MAX_BYTES = 10 * 1024 * 1024; // 10MB
+
+const RECEIPT_EXTENSIONS: Record<DbExpenseReceipt["contentType"], string[]> = {
+  "application/pdf": ["pdf"],
+  "image/jpeg": ["jpg", "jpeg"],
+  "image/png": ["png"],
+};
+
+export interface ReceiptFile {
+  name: string;
+  type: string;
+  size: number;
+}
+
+export function isReceiptContentType(value: string): value is DbExpenseReceipt["contentType"] {
+  return value in RECEIPT_EXTENSIONS;
+}
+
+/** Why a file cannot be a receipt, or null when it can */
+export function validateReceiptFile(file: ReceiptFile): string | null {
+  const contentType = file.type.toLowerCase().trim();
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  if (!isReceiptContentType(contentType) || !RECEIPT_EXTENSIONS[contentType].includes(extension)) {
+    return "Receipts must be a PDF, JPG or PNG file";
+  }
+  if (file.size <= 0) {
+    return "The receipt file is empty";
+  }
+  if (file.size > RECEIPT_MAX_BYTES) {
+    return `Receipts must be ${RECEIPT_MAX_BYTES / 1024 / 1024}MB or smaller`;
+  }
+  return null;
+}
+
+// ─── Parsing ──────────────────────────────────────────────────────────────────
+
+const MONEY_PATTERN = /(\d{1,3}(?:,\d{3})+|\d+)\.(\d{2})(?!\d)/g;
+
+/** Labels of the amount actually charged, most specific first */
+const TOTAL_LABELS = [
+  /\b(?:grand\s+total|total\s+due|amount\s+due|balance\s+due)\b/i,
+  /\b(?:total\s+paid|amount\s+paid|total\s+charged)\b/i,
+  /\btotal\b/i,
+];
+const NOT_TOTAL = /\bsub[\s-]?total\b|^\s*(?:sales\s+)?tax\b/i;
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const MONTH_NAME = "(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?";
+const DATE_PATTERNS: Array<[RegExp, (m: RegExpExecArray) => [number, number, number]]> = [
+  [/\b(\d{4})-(\d{2})-(\d{2})\b/, (m) => [Number(m[1]), Number(m[2]), Number(m[3])]],
+  [
+    /\b(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})\b/,
+    (m) => [m[3].length === 2 ? 2000 + Number(m[3]) : Number(m[3]), Number(m[1]), Number(m[2])],
+  ],
+  [
+    new RegExp(`\\b${MONTH_NAME}\\s+(\\d{1,2}),?\\s+(\\d{4})\\b`, "i"),
+    (m) => [Number(m[3]), MONTHS.indexOf(m[1].toLowerCase()) + 1, Number(m[2])],
+  ],
+  [
+    new RegExp(`\\b(\\d{1,2})\\s+${MONTH_NAME},?\\s+(\\d{4})\\b`, "i"),
+    (m) => [Number(m[3]), MONTHS.indexOf(m[2].toLowerCase()) + 1, Number(m[1])],
+  ],
+];
+const DATE_LABEL = /\b(?:date|issued|purchased|paid|transaction)\b/i;
+
+const MERCHANT_LABEL = /^(?:merchant|store|vendor|sold\s+by|billed\s+by|from)\s*:\s*(.+)$/i;
+const NOT_MERCHANT = /^(?:(?:sales\s+|tax\s+)?(?:receipt|invoice)|order|bill|page|date|tel|phone|fax|www\.|https?:)\b/i;
+
+function amountsIn(line: string | undefined): number[] {
+  if (!line) return [];
+  return Array.from(line.matchAll(MONEY_PATTERN), (m) => Number(m[1].replaceAll(",", "")) * 100 + Number(m[2]));
+}
+
+function dateIn(line: string): string | undefined {
+  for (const [pattern, parts] of DATE_PATTERNS) {
+    const match = pattern.exec(line);
+    if (!match) continue;
+    const [year, month, day] = parts(match);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day) {
+      return date.toISOString().slice(0, 10);
+    }
+  }
+  return undefined;
+}
+
+function findTotal(lines: string[]): number | undefined {
+  for (const label of TOTAL_LABELS) {
+    // Totals sit at the bottom, so the last labelled amount wins
+    for (let i = lines.length - 1; i >= 0; i--) {
+      if (!label.test(lines[i]) || NOT_TOTAL.test(lines[i])) continue;
+      const amounts = amountsIn(lines[i]);
+      const amount = amounts.length > 0 ? amounts[amounts.length - 1] : amountsIn(lines[i + 1])[0];
+      if (amount) return amount;
+    }
+  }
+  const all = lines.flatMap((line) => amountsIn(line));
+  return all.length > 0 ? Math.max(...all) : undefined;
+}
+
+function findMerchant(lines: string[]): string | undefined {
+  for (const line of lines) {
+    const labelled = MERCHANT_LABEL.exec(line);
+    if (labelled) return labelled[1].trim();
+  }
+  const candidate = lines.find(
+    (line) =>
+      (line.match(/[a-z]/gi)?.length ?? 0) >= 3 &&
+      line.length <= 60 &&
+      !NOT_MERCHANT.test(line) &&
+      amountsIn(line).length === 0 &&
+      !dateIn(line)
+  );
+  return candidate?.replace(/[\s:,;-]+$/, "");
+}
+
+/** Total, date and merchant from a receipt's text; fields that cannot be found are left out */
+export function parseReceiptText(text: string): ReceiptExtraction {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  if (lines.length === 0) {
+    return {};
+  }
+
+  const labelledDate = lines.filter((line) => DATE_LABEL.test(line)).map(dateIn).find(Boolean);
+  const extraction: ReceiptExtraction = {
+    merchant: findMerchant(lines),
+    amountCents: findTotal(lines),
+    date: labelledDate ?? lines.map(dateIn).find(Boolean),
+  };
+  return Object.fromEntries(
+    Object.entries(extraction).filter(([, value]) => value !== undefined)
+  ) as ReceiptExtraction;
+}
+
+/** What can be read from a receipt file: text-based PDFs only */
+export function readReceiptFields(body: Buffer, contentType: string): ReceiptExtraction {
+  return contentType === "application/pdf" ? parseReceiptText(extractPdfText(body)) : {};
+}
+
+// ─── Storage ──────────────────────────────────────────────────────────────────
+
+/**
+ * Store a receipt file and attach it to an expense, reading what it can
+ * from the file.  The stored object is removed again if the row cannot be
+ * written.
+ */
+export async function attachExpenseReceipt(input: {
+  expense: DbExpense;
+  body: Buffer;
+  fileName: string;
+  contentType: string;
+  uploadedBy: string;
+}): Promise<LedgerResult<{ receipt: DbExpenseReceipt }>> {
+  const { expense, body, uploadedBy } = input;
+  const contentType = input.contentType.toLowerCase().trim();
+  const fileName = input.fileName.trim() || "receipt";
+
+  const error = validateReceiptFile({ name: fileName, type: contentType, size: body.length });
+  if (error || !isReceiptContentType(contentType)) {
+    return { success: false, error: error ?? "Receipts must be a PDF, JPG or PNG file" };
+  }
+
+  const storageKey = buildStorageKey(
+    "receipts",
+    expense.familyId,
+    crypto.randomUUID(),
+    RECEIPT_EXTENSIONS[contentType][0]
+  );
+  const storage = getStorageAdapter();
+  await storage.upload(storageKey, body, contentType);
+
+  let receipt: DbExpenseReceipt;
+  try {
+    const fields = readReceiptFields(body, contentType);
+    receipt = await db.expenseReceipts.create({
+      familyId: expense.familyId,
+      expenseId: expense.id,
+      storageKey,
+      fileName,
+      contentType,
+      sizeBytes: body.length,
+      extractedMerchant: fields.merchant,
+      extractedAmountCents: fields.amountCents,
+      extractedDate: fields.date,
+      uploadedBy,
+    });
+    await db.expenses.update(expense.id, { receiptUrl: storageKey });
+  } catch (createError) {
+    // Don't leave an orphaned object behind the failed record
+    await storage.delete(storageKey).catch(() => undefined);
+    throw createError;
+  }
+
+  logEvent("info", "expense_receipt.attached", {
+    familyId: expense.familyId,
+    expenseId: expense.id,
+    receiptId: receipt.id,
+    contentType,
+    sizeBytes: body.length,
+    extracted: receipt.extractedAmountCents !== undefined,
+  });
+  return { success: true, receipt };
+}
+
+/** A receipt's file contents, or null when the object is missing from storage */
+export async function readReceiptFile(receipt: DbExpenseReceipt): Promise<Buffer | null> {
+  const object = await getStorageAdapter().getStream(receipt.storageKey);
+  if (!object) {
+    return null;
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of NodeReadable.fromWeb(object.body as NodeReadableStream)) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
@@ -8,14 +8,28 @@
 import PDFDocument from "pdfkit";
 import type { ExportJobRecord, ExportResult, ExportType, ExpenseCategory } from "@/lib";
 import { getDb } from "@/lib/persistence";
-import type { DbMoment } from "@/lib/persistence/types";
+import type { DbExpense, DbExpenseReceipt, DbMoment } from "@/lib/persistence/types";
 import { generateCustodyCompliancePdf } from "@/lib/pdf-generator";
 import type { HashedMessage, PdfGeneratorConfig } from "@/lib/pdf-generator";
 import { CustodyComplianceEngine } from "@/lib/custody";
 import { generateCommunicationReport } from "@/lib/communication-report";
-import { formatCurrency } from "@/lib/expense-engine";
+import { formatCurrency, formatFrequency } from "@/lib/expense-engine";
+import {
+  buildExpenseLedger,
+  buildPaymentHistory,
+  calculateSettlement,
+  ledgerParentIds,
+  settlementAmount,
+} from "@/lib/expense-ledger";
+import { familyBaseCurrency } from "@/lib/exchange-rates";
+import { formatDisputeLines, loadDisputeHistory } from "@/lib/expense-disputes";
+import { buildSupportStatement } from "@/lib/child-support";
+import { readReceiptFile } from "@/lib/expense-receipts";
+import { extractPdfText } from "@/lib/pdf-text";
 import { logEvent } from "@/lib/observability/logger";
-import type { Readable } from "node:stream";
+import { Readable as NodeReadable, type Readable } from "node:stream";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+import { getStorageAdapter, storageKeyFromReference } from "@/lib/storage";
 
 /**
  * Generate an export file based on job type
@@ -169,11 +183,61 @@ async function generateInvoicesPdf(job: ExportJobRecord): Promise<ExportResult>
 
   const parents = await db.parents.findByFamilyId(job.familyId);
   const parentMap = new Map(parents.map((parent) => [parent.id, parent.name]));
+  const baseCurrency = familyBaseCurrency(await db.families.findById(job.familyId));
 
   const sortedExpenses = [...expenses].sort(
     (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
   );
 
+  // Ledger figures cover only the expenses in the report
+  const expenseIds = new Set(expenses.map((expense) => expense.id));
+  const payments = (await db.expensePayments.findByFamilyId(job.familyId)).filter((payment) =>
+    expenseIds.has(payment.expenseId)
+  );
+  const ledger = buildExpenseLedger(sortedExpenses, payments, ledgerParentIds(parents));
+  const ledgerStatus = new Map(ledger.map((line) => [line.expense.id, line.status]));
+  const history = buildPaymentHistory(payments);
+  const disputes = await loadDisputeHistory(job.familyId, { expenseIds });
+
+  // Recurring templates, with the occurrences generated in the period
+  const recurringTemplates = (await db.recurringExpenses.findByFamilyId(job.familyId))
+    .map((template) => ({
+      template,
+      generated: sortedExpenses.filter((expense) => expense.recurringExpenseId === template.id).length,
+    }))
+    .filter(({ template, generated }) => generated > 0 || template.status === "active");
+
+  // Support: expected versus received within the period, arrears as of its end
+  const today = formatIsoDate(new Date());
+  const supportAsOf = dateRange && dateRange.endDate.slice(0, 10) < today ? dateRange.endDate.slice(0, 10) : today;
+  const supportFrom = dateRange?.startDate.slice(0, 10) ?? "";
+  const obligations = await db.supportObligations.findByFamilyId(job.familyId);
+  const supportPayments = obligations.length > 0 ? await db.supportPayments.findByFamilyId(job.familyId) : [];
+  const supportStatements = obligations.map((obligation) => {
+    const statement = buildSupportStatement(obligation, supportPayments, supportAsOf);
+    const expectedInPeriod = statement.installments
+      .filter((installment) => installment.dueDate >= supportFrom)
+      .reduce((sum, installment) => sum + installment.expectedCents, 0);
+    const receivedInPeriod = supportPayments
+      .filter((p) => p.obligationId === obligation.id && p.receivedOn >= supportFrom && p.receivedOn <= supportAsOf)
+      .reduce((sum, p) => sum + p.amountCents, 0);
+    return { statement, expectedInPeriod, receivedInPeriod };
+  });
+
+  // Receipt files for the appendix, in report order; fetched up front as the
+  // document is written synchronously
+  const expenseOrder = new Map(sortedExpenses.map((expense, index) => [expense.id, index]));
+  const receipts = (await db.expenseReceipts.findByFamilyId(job.familyId))
+    .filter((receipt) => expenseIds.has(receipt.expenseId))
+    .sort((a, b) => expenseOrder.get(a.expenseId)! - expenseOrder.get(b.expenseId)!);
+  const receiptFiles = await Promise.all(
+    receipts.map(async (receipt) => ({
+      receipt,
+      expense: sortedExpenses[expenseOrder.get(receipt.expenseId)!],
+      body: await readReceiptFile(receipt).catch(() => null),
+    }))
+  );
+
   const categoryCounts: Record<ExpenseCategory, number> = {
     medical: 0,
     education: 0,
@@ -183,13 +247,18 @@ async function generateInvoicesPdf(job: ExportJobRecord): Promise<ExportResult>
     other: 0,
   };
 
+  // Original amounts per currency paid in; the report total and settlement
+  // use each expense's conversion to the base currency
   const currencyTotals: Record<string, number> = {};
+  let baseTotal = 0;
 
   sortedExpenses.forEach((expense) => {
     categoryCounts[expense.category] += 1;
     currencyTotals[expense.currency] =
       (currencyTotals[expense.currency] ?? 0) + expense.totalAmount;
+    baseTotal += settlementAmount(expense);
   });
+  const hasForeignExpenses = Object.keys(currencyTotals).some((currency) => currency !== baseCurrency);
 
   const rangeLabel = dateRange
     ? `${dateRange.startDate} → ${dateRange.endDate}`
@@ -222,19 +291,39 @@ async function generateInvoicesPdf(job: ExportJobRecord): Promise<ExportResult>
     if (sortedExpenses.length > 0) {
       doc.text(`Currencies: ${Object.keys(currencyTotals).join(", ")}`);
     }
+    doc.text(`Base currency: ${baseCurrency}`);
 
     doc.moveDown(0.5);
-    doc.font("Helvetica-Bold").fontSize(11).text("Totals by Currency");
+    doc.font("Helvetica-Bold").fontSize(11).text("Totals");
     if (Object.keys(currencyTotals).length === 0) {
       doc.font("Helvetica").fontSize(10).text("No expenses recorded for this period.");
     } else {
-      Object.entries(currencyTotals)
-        .sort((a, b) => b[1] - a[1])
-        .forEach(([currency, total]) => {
-          doc.font("Helvetica").fontSize(10).text(
-            `${currency}: ${formatCurrency(total, currency)}`
-          );
-        });
+      doc.font("Helvetica").fontSize(10).text(`Total (${baseCurrency}): ${formatCurrency(baseTotal, baseCurrency)}`);
+      if (hasForeignExpenses) {
+        Object.entries(currencyTotals)
+          .sort((a, b) => b[1] - a[1])
+          .forEach(([currency, total]) => {
+            doc.font("Helvetica").fontSize(10).text(
+              `Paid in ${currency}: ${formatCurrency(total, currency)}`
+            );
+          });
+      }
+    }
+
+    doc.moveDown(0.5);
+    doc.font("Helvetica-Bold").fontSize(11).text("Settlement");
+    const paidTotal = ledger.reduce((sum, line) => sum + line.paidCents, 0);
+    const outstandingTotal = ledger.reduce((sum, line) => sum + line.outstandingCents, 0);
+    doc.font("Helvetica").fontSize(10).text(
+      `Reimbursed: ${formatCurrency(paidTotal, baseCurrency)} · Outstanding: ${formatCurrency(outstandingTotal, baseCurrency)}`
+    );
+    for (let i = 0; i < parents.length; i++) {
+      for (let j = i + 1; j < parents.length; j++) {
+        const { netBalance } = calculateSettlement(ledger, parents[i].id, parents[j].id);
+        if (netBalance === 0) continue;
+        const [debtor, creditor] = netBalance > 0 ? [parents[j], parents[i]] : [parents[i], parents[j]];
+        doc.text(`${debtor.name} owes ${creditor.name}: ${formatCurrency(Math.abs(netBalance), baseCurrency)}`);
+      }
     }
 
     doc.moveDown(0.5);
@@ -284,12 +373,34 @@ async function generateInvoicesPdf(job: ExportJobRecord): Promise<ExportResult>
         doc.text(paidByName, TABLE_COLUMNS[4].x, rowY, {
           width: TABLE_COLUMNS[4].width,
         });
-        doc.text(formatPaymentStatus(expense.paymentStatus), TABLE_COLUMNS[5].x, rowY, {
+        doc.text(formatPaymentStatus(ledgerStatus.get(expense.id) ?? expense.paymentStatus), TABLE_COLUMNS[5].x, rowY, {
           width: TABLE_COLUMNS[5].width,
         });
 
         rowY += TABLE_ROW_HEIGHT;
 
+        if (expense.baseAmount !== undefined && expense.exchangeRate !== undefined && expense.baseCurrency) {
+          rowY = ensureRowSpace(doc, rowY, DESCRIPTION_ROW_HEIGHT);
+          doc.font("Helvetica").fontSize(8).fillColor("#374151");
+          doc.text(
+            `${formatCurrency(expense.baseAmount, expense.baseCurrency)} at 1 ${expense.currency} = ${
+              expense.exchangeRate
+            } ${expense.baseCurrency} (${
+              expense.exchangeRateSource === "manual" ? "rate entered" : "rates file"
+            }, ${expense.exchangeRateDate ?? expense.date})`,
+            TABLE_COLUMNS[1].x,
+            rowY,
+            {
+              width:
+                TABLE_COLUMNS[1].width +
+                TABLE_COLUMNS[2].width +
+                TABLE_COLUMNS[3].width,
+            }
+          );
+          rowY += DESCRIPTION_ROW_HEIGHT;
+          doc.fillColor("#000000");
+        }
+
         if (expense.description) {
           rowY = ensureRowSpace(doc, rowY, DESCRIPTION_ROW_HEIGHT);
           doc.font("Helvetica-Oblique").fontSize(8).fillColor("#374151");
@@ -310,6 +421,78 @@ async function generateInvoicesPdf(job: ExportJobRecord): Promise<ExportResult>
       });
     }
 
+    if (history.length > 0) {
+      doc.moveDown();
+      doc.font("Helvetica-Bold").fontSize(11).fillColor("#000000").text("Payment History", 50);
+      doc.moveDown(0.5);
+      history.forEach((entry) => {
+        const from = parentMap.get(entry.fromParentId) ?? "Unknown";
+        const to = parentMap.get(entry.toParentId) ?? "Unknown";
+        doc.font("Helvetica").fontSize(9).text(
+          `${formatExpenseDate(entry.paidAt)}: ${from} paid ${to} ${formatCurrency(entry.amountCents, entry.currency)}` +
+            (entry.kind === "settle_up"
+              ? ` (settle up, ${entry.expenseIds.length} ${entry.expenseIds.length === 1 ? "expense" : "expenses"})`
+              : "")
+        );
+      });
+    }
+
+    if (disputes.length > 0) {
+      const parentName = (id: string) => parentMap.get(id) ?? "Unknown";
+      doc.moveDown();
+      doc.font("Helvetica-Bold").fontSize(11).fillColor("#000000").text("Disputes", 50);
+      doc.moveDown(0.5);
+      disputes.forEach((entry) => {
+        formatDisputeLines(entry, parentName).forEach((line) => {
+          doc.font("Helvetica").fontSize(9).text(line);
+        });
+        doc.moveDown(0.5);
+      });
+    }
+
+    if (recurringTemplates.length > 0) {
+      doc.moveDown();
+      doc.font("Helvetica-Bold").fontSize(11).fillColor("#000000").text("Recurring Expenses", 50);
+      doc.moveDown(0.5);
+      recurringTemplates.forEach(({ template, generated }) => {
+        const schedule =
+          template.status === "active"
+            ? `next ${formatExpenseDate(template.nextDueDate)}`
+            : template.status;
+        doc.font("Helvetica").fontSize(9).text(
+          `${template.title}: ${formatCurrency(template.totalAmount, template.currency)} ${formatFrequency(
+            template.frequency
+          ).toLowerCase()}, paid by ${parentMap.get(template.paidBy) ?? "Unknown"} · ${generated} in this report · ${schedule}`
+        );
+      });
+    }
+
+    if (supportStatements.length > 0) {
+      doc.moveDown();
+      doc.font("Helvetica-Bold").fontSize(11).fillColor("#000000").text("Child Support", 50);
+      doc.moveDown(0.5);
+      supportStatements.forEach(({ statement, expectedInPeriod, receivedInPeriod }) => {
+        const { obligation } = statement;
+        const currency = obligation.currency;
+        doc.font("Helvetica").fontSize(9).text(
+          `${parentMap.get(obligation.payerParentId) ?? "Unknown"} pays ${
+            parentMap.get(obligation.payeeParentId) ?? "Unknown"
+          } ${formatCurrency(obligation.amountCents, currency)} ${formatFrequency(obligation.frequency).toLowerCase()}` +
+            (obligation.orderReference ? ` (order ${obligation.orderReference})` : "")
+        );
+        doc.text(
+          `Expected: ${formatCurrency(expectedInPeriod, currency)} · Received: ${formatCurrency(receivedInPeriod, currency)}`
+        );
+        doc.text(
+          statement.inArrears
+            ? `In arrears as of ${formatExpenseDate(supportAsOf)}: ${formatCurrency(statement.arrearsCents, currency)}` +
+                (statement.overdueSince ? ` (overdue since ${formatExpenseDate(statement.overdueSince)})` : "")
+            : `Up to date as of ${formatExpenseDate(supportAsOf)}`
+        );
+        doc.moveDown(0.5);
+      });
+    }
+
     doc.moveDown(0.5);
     doc.font("Helvetica").fontSize(8).text(
       "Report generated by KidSchedule. Keep this document for your records.",
@@ -318,12 +501,17 @@ async function generateInvoicesPdf(job: ExportJobRecord): Promise<ExportResult>
       }
     );
 
+    if (receiptFiles.length > 0) {
+      renderReceiptsAppendix(doc, receiptFiles);
+    }
+
     doc.end();
   });
 
   logEvent("info", "Invoices PDF generated", {
     familyId: job.familyId,
     expenseCount: sortedExpenses.length,
+    receiptCount: receiptFiles.length,
     sizeBytes: buffer.length,
   });
 
@@ -387,6 +575,70 @@ type MomentsArchiveParams = {
   endDate?: string;
 };
 
+const RECEIPT_TRANSCRIPT_LENGTH = 3000;
+
+/**
+ * One receipt per page: images are drawn on the page, PDF receipts are
+ * embedded as file attachments with their text transcribed, so the report
+ * carries the evidence for every claim in it.
+ */
+function renderReceiptsAppendix(
+  doc: PdfKitDocument,
+  receiptFiles: Array<{ receipt: DbExpenseReceipt; expense: DbExpense; body: Buffer | null }>
+): void {
+  receiptFiles.forEach(({ receipt, expense, body }, index) => {
+    doc.addPage();
+    if (index === 0) {
+      doc.font("Helvetica-Bold").fontSize(14).fillColor("#000000").text("Appendix: Receipts", 50);
+      doc.moveDown(0.5);
+    }
+
+    doc.font("Helvetica-Bold").fontSize(11).fillColor("#000000").text(
+      `Receipt ${index + 1} of ${receiptFiles.length}: ${expense.title}`,
+      50
+    );
+    doc.font("Helvetica").fontSize(9).text(
+      `${formatExpenseDate(expense.date)} · ${formatCurrency(expense.totalAmount, expense.currency)} · ${receipt.fileName}`
+    );
+    doc.moveDown();
+
+    if (!body) {
+      doc.text("The receipt file is no longer available.");
+      return;
+    }
+
+    if (receipt.contentType === "application/pdf") {
+      doc.file(body, {
+        name: receipt.fileName,
+        type: receipt.contentType,
+        description: `Receipt for ${expense.title}`,
+        creationDate: new Date(receipt.createdAt),
+      });
+      doc.text(`The original receipt is attached to this PDF as "${receipt.fileName}".`);
+      const transcript = extractPdfText(body);
+      if (transcript) {
+        doc.moveDown();
+        doc.font("Helvetica-Bold").fontSize(9).text("Transcript");
+        doc.font("Courier").fontSize(8).text(
+          transcript.length > RECEIPT_TRANSCRIPT_LENGTH
+            ? `${transcript.slice(0, RECEIPT_TRANSCRIPT_LENGTH)}…`
+            : transcript
+        );
+      }
+      return;
+    }
+
+    try {
+      doc.image(body, {
+        fit: [doc.page.width - 100, doc.page.height - doc.y - PAGE_BOTTOM_BUFFER - 50],
+        align: "center",
+      });
+    } catch {
+      doc.text("The receipt image could not be read.");
+    }
+  });
+}
+
 function resolveInvoiceDateRange(params: InvoicePdfParams): InvoiceDateRange | null {
   if (!params.startDate && !params.endDate) {
     return null;
@@ -460,6 +712,8 @@ function formatPaymentStatus(status: string): string {
   switch (status) {
     case "paid":
       return "Paid";
+    case "partially_paid":
+      return "Partly paid";
     case "unpaid":
       return "Unpaid";
     case "disputed":
@@ -541,12 +795,26 @@ async function buildMomentsArchive(
 
           if (moment.mediaUrl && moment.mediaType === "photo") {
             imageCounter += 1;
-            const ext = getImageExtensionFromUrl(moment.mediaUrl);
+            const storageKey = storageKeyFromReference(moment.mediaUrl);
+            const ext = storageKey
+              ? storageKey.slice(storageKey.lastIndexOf(".") + 1)
+              : getImageExtensionFromUrl(moment.mediaUrl);
             imageFilename = `${isoDate}-moment-${imageCounter}.${ext}`;
 
             try {
-              const imageBuffer = await downloadImageWithTimeout(moment.mediaUrl);
-              archive.append(imageBuffer, { name: `images/${imageFilename}` });
+              if (storageKey) {
+                // Stream straight from storage rather than buffering each image
+                const object = await getStorageAdapter().getStream(storageKey);
+                if (!object) {
+                  throw new Error(`Missing from storage: ${storageKey}`);
+                }
+                archive.append(NodeReadable.fromWeb(object.body as NodeReadableStream), {
+                  name: `images/${imageFilename}`,
+                });
+              } else {
+                const imageBuffer = await downloadImageWithTimeout(moment.mediaUrl);
+                archive.append(imageBuffer, { name: `images/${imageFilename}` });
+              }
             } catch (error) {
               logEvent("warn", "Failed to download image for moment", {
                 momentId: moment.id,
@@ -903,8 +1171,14 @@ async function generateMessageTranscriptPdfExport(job: ExportJobRecord): Promise
       compliancePercentage: 100,
       totalDeviations: 0,
       totalOverrides: 0,
+      totalExchanges: 0,
+      lateExchanges: 0,
+      missedExchanges: 0,
+      disputedExchanges: 0,
+      averageLatenessMinutes: 0,
     },
     periods: [],
+    exchanges: [],
     overrides: [],
     changeRequests: [],
     generatedAt: new Date().toISOString(),
@@ -1020,8 +1294,14 @@ async function generateCommunicationReportExport(job: ExportJobRecord): Promise<
       compliancePercentage: report.complianceHighlights.compliancePercentage,
       totalDeviations: report.complianceHighlights.totalDeviations,
       totalOverrides: 0,
+      totalExchanges: 0,
+      lateExchanges: 0,
+      missedExchanges: 0,
+      disputedExchanges: 0,
+      averageLatenessMinutes: 0,
     },
     periods: [],
+    exchanges: [],
     overrides: [],
     changeRequests: [],
     generatedAt: report.generatedAt,
@@ -1035,10 +1315,14 @@ async function generateCommunicationReportExport(job: ExportJobRecord): Promise<
     documentType: "custody-compliance",
   };
 
+  const participantName = (id: string) =>
+    report.participants.find((p) => p.parentId === id)?.name ?? "Unknown";
+
   const pdfResult = await generateCustodyCompliancePdf(
     pdfReport as Parameters<typeof generateCustodyCompliancePdf>[0],
     hashedMessages,
-    config
+    config,
+    { disputeLog: report.expenseDisputes.map((entry) => formatDisputeLines(entry, participantName)) }
   );
 
   // Store metadata
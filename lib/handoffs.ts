@@ -0,0 +1,128 @@
+/**
+ * KidSchedule – Handoff Exchanges
+ *
+ * Matches parents' recorded check-ins against the scheduled custody
+ * transitions to measure what actually happened at each exchange: on time,
+ * late (and by how much), missed, or disputed by the other parent.  Also
+ * derives who actually had the kids over time, which compliance reports use
+ * in place of calendar events.
+ */
+
+import type { ScheduleTransition } from "@/lib";
+import type { DbHandoffCheckIn } from "@/lib/persistence/types";
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** An exchange up to this many minutes after the scheduled time is on time */
+export const HANDOFF_GRACE_MINUTES = 15;
+
+/** How far from a scheduled transition a check-in may be and still count for it */
+export const HANDOFF_MATCH_WINDOW_HOURS = 12;
+
+const MS_PER_MINUTE = 60 * 1000;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type HandoffExchangeStatus = "on_time" | "late" | "missed" | "disputed";
+
+export interface HandoffExchange {
+  /** Scheduled transition time */
+  scheduledAt: string;
+  fromParentId: string;
+  toParentId: string;
+  status: HandoffExchangeStatus;
+  /** When the exchange happened, from the earliest undisputed check-in */
+  occurredAt?: string;
+  /** Minutes after the scheduled time; 0 when early, on the dot or missed */
+  latenessMinutes: number;
+  checkInId?: string;
+  /** Whether the other parent confirmed the check-in */
+  confirmed: boolean;
+}
+
+/** A moment actual custody passed to `parentId`, per a check-in */
+export interface CustodySwitch {
+  atMs: number;
+  parentId: string;
+  checkInId: string;
+}
+
+// ─── Matching ─────────────────────────────────────────────────────────────────
+
+/**
+ * Pair each scheduled transition with the check-ins recorded for it: same
+ * direction of hand-over, within HANDOFF_MATCH_WINDOW_HOURS.  A drop-off and
+ * a pick-up for the same exchange both belong to it; the earliest undisputed
+ * one decides when it happened.
+ */
+export function matchHandoffExchanges(
+  transitions: Array<Pick<ScheduleTransition, "at" | "fromParent" | "toParent">>,
+  checkIns: DbHandoffCheckIn[],
+): HandoffExchange[] {
+  const windowMs = HANDOFF_MATCH_WINDOW_HOURS * 60 * MS_PER_MINUTE;
+  const used = new Set<string>();
+
+  return [...transitions]
+    .sort((a, b) => a.at.getTime() - b.at.getTime())
+    .map((transition) => {
+      const scheduledMs = transition.at.getTime();
+      const candidates = checkIns.filter(
+        (c) =>
+          !used.has(c.id) &&
+          c.fromParentId === transition.fromParent.id &&
+          c.toParentId === transition.toParent.id &&
+          Math.abs(Date.parse(c.occurredAt) - scheduledMs) <= windowMs
+      );
+      candidates.forEach((c) => used.add(c.id));
+
+      const exchange: HandoffExchange = {
+        scheduledAt: transition.at.toISOString(),
+        fromParentId: transition.fromParent.id,
+        toParentId: transition.toParent.id,
+        status: "missed",
+        latenessMinutes: 0,
+        confirmed: false,
+      };
+
+      const [first] = candidates
+        .filter((c) => c.status !== "disputed")
+        .sort((a, b) => Date.parse(a.occurredAt) - Date.parse(b.occurredAt));
+      if (!first) {
+        return candidates.length > 0 ? { ...exchange, status: "disputed" } : exchange;
+      }
+
+      const latenessMinutes = Math.max(0, Math.round((Date.parse(first.occurredAt) - scheduledMs) / MS_PER_MINUTE));
+      return {
+        ...exchange,
+        status: latenessMinutes > HANDOFF_GRACE_MINUTES ? "late" : "on_time",
+        occurredAt: first.occurredAt,
+        latenessMinutes,
+        checkInId: first.id,
+        confirmed: candidates.some((c) => c.status === "confirmed"),
+      };
+    });
+}
+
+// ─── Actual Custody ───────────────────────────────────────────────────────────
+
+/**
+ * Moments custody actually changed hands, oldest first.  Disputed check-ins
+ * are ignored; check-ins outside any scheduled exchange still count, since
+ * the kids did move.
+ */
+export function custodySwitches(checkIns: DbHandoffCheckIn[]): CustodySwitch[] {
+  return checkIns
+    .filter((c) => c.status !== "disputed")
+    .map((c) => ({ atMs: Date.parse(c.occurredAt), parentId: c.toParentId, checkInId: c.id }))
+    .sort((a, b) => a.atMs - b.atMs);
+}
+
+/** The switch in effect at `atMs`, or null before the first one. */
+export function custodySwitchAt(switches: CustodySwitch[], atMs: number): CustodySwitch | null {
+  let current: CustodySwitch | null = null;
+  for (const s of switches) {
+    if (s.atMs > atMs) break;
+    current = s;
+  }
+  return current;
+}
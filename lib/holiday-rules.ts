@@ -0,0 +1,243 @@
+/**
+ * KidSchedule – Holiday Rules
+ *
+ * Computed holidays and the custody terms parenting plans attach to them.
+ * A holiday definition either carries a fixed date (one year only) or a
+ * HolidayDateRule that yields its date in any year: "fourth Thursday of
+ * November", "Easter Sunday", "December 24".  A family's exception rule for
+ * a holiday can widen the custody period to a window with its own exchange
+ * times and give the holiday to different parents by year, e.g.
+ * "Thanksgiving: odd years Mom, even years Dad, Wednesday 6 PM to Sunday
+ * 6 PM".
+ *
+ * Jurisdictions nest: a family in "US-CA" gets the "US-CA" and "US"
+ * holidays.
+ *
+ * Pure functions only — lib/schedule-override loads the rows and persists
+ * the resulting overrides.
+ */
+
+import { fromWallClockMs } from "@/lib/custody";
+import type {
+  DbHolidayDefinition,
+  HolidayAssignment,
+  HolidayDateRule,
+  HolidayWindow,
+} from "@/lib/persistence/types";
+
+export const DEFAULT_HOLIDAY_JURISDICTION = "US";
+
+const JURISDICTION_PATTERN = /^[A-Z]{2}(?:-[A-Z0-9]{1,3})?$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Longest custody period a holiday window may cover */
+const MAX_WINDOW_DAYS = 21;
+
+// ─── Jurisdictions ────────────────────────────────────────────────────────────
+
+export function isHolidayJurisdiction(value: string): boolean {
+  return JURISDICTION_PATTERN.test(value);
+}
+
+/** The jurisdictions whose holidays apply, most specific first: "US-CA" → ["US-CA", "US"] */
+export function jurisdictionChain(jurisdiction: string | undefined): string[] {
+  const code = jurisdiction || DEFAULT_HOLIDAY_JURISDICTION;
+  const [country] = code.split("-");
+  return country === code ? [code] : [code, country];
+}
+
+// ─── Dates ────────────────────────────────────────────────────────────────────
+
+function isoDate(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+/** Western (Gregorian) Easter Sunday — the anonymous Gregorian algorithm */
+export function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return isoDate(year, month, day);
+}
+
+/** The holiday's date in `year`, or null when the rule has none (e.g. a fifth Monday) */
+export function holidayDateInYear(rule: HolidayDateRule, year: number): string | null {
+  switch (rule.kind) {
+    case "fixed": {
+      const date = isoDate(year, rule.month, rule.day);
+      // February 29 only exists in leap years
+      return Number(date.slice(5, 7)) === rule.month ? date : null;
+    }
+    case "nth_weekday": {
+      if (rule.nth < 0) {
+        const lastOfMonth = new Date(Date.UTC(year, rule.month, 0));
+        const back = (lastOfMonth.getUTCDay() - rule.weekday + 7) % 7;
+        return isoDate(year, rule.month, lastOfMonth.getUTCDate() - back);
+      }
+      const firstWeekday = new Date(Date.UTC(year, rule.month - 1, 1)).getUTCDay();
+      const day = 1 + ((rule.weekday - firstWeekday + 7) % 7) + (rule.nth - 1) * 7;
+      const date = isoDate(year, rule.month, day);
+      return Number(date.slice(5, 7)) === rule.month ? date : null;
+    }
+    case "easter":
+      return addDays(easterSunday(year), rule.offsetDays);
+  }
+}
+
+/**
+ * The dates a holiday falls on in [startDate, endDate): its own date for a
+ * one-off holiday, one per year for a computed one.
+ */
+export function holidayDatesInRange(
+  holiday: Pick<DbHolidayDefinition, "date" | "rule">,
+  startDate: string,
+  endDate: string
+): string[] {
+  const inRange = (date: string) => date >= startDate.slice(0, 10) && date < endDate.slice(0, 10);
+  if (!holiday.rule) {
+    return holiday.date && inRange(holiday.date) ? [holiday.date] : [];
+  }
+
+  const dates: string[] = [];
+  // Easter offsets can cross a year boundary, so look one year either side
+  for (let year = Number(startDate.slice(0, 4)) - 1; year <= Number(endDate.slice(0, 4)) + 1; year++) {
+    const date = holidayDateInYear(holiday.rule, year);
+    if (date && inRange(date)) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+// ─── Custody Terms ────────────────────────────────────────────────────────────
+
+/** Who has the holiday falling on `date`; `custodianParentId` when there is no assignment */
+export function holidayCustodian(
+  rule: { custodianParentId: string; assignment?: HolidayAssignment },
+  date: string
+): string {
+  const { assignment } = rule;
+  const year = Number(date.slice(0, 4));
+  if (assignment?.mode === "alternate_years") {
+    return year % 2 === 0 ? assignment.evenYearParentId : assignment.oddYearParentId;
+  }
+  if (assignment?.mode === "rotate" && assignment.parentIds.length > 0) {
+    const count = assignment.parentIds.length;
+    return assignment.parentIds[(((year - assignment.startYear) % count) + count) % count];
+  }
+  return rule.custodianParentId;
+}
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * The custody period for a holiday falling on `date`, as ISO instants.
+ * Window times are wall-clock times in `timeZone`; without a window the
+ * holiday covers its calendar day there, local midnight to the next.
+ */
+export function holidayPeriod(
+  date: string,
+  window: HolidayWindow | undefined,
+  timeZone: string
+): { effectiveStart: string; effectiveEnd: string } {
+  const at = (offsetDays: number, time: string) =>
+    new Date(
+      fromWallClockMs(Date.parse(`${addDays(date, offsetDays)}T00:00:00Z`) + minutesOf(time) * 60_000, timeZone)
+    ).toISOString();
+  if (!window) {
+    return { effectiveStart: at(0, "00:00"), effectiveEnd: at(1, "00:00") };
+  }
+  return {
+    effectiveStart: at(window.startOffsetDays, window.startTime),
+    effectiveEnd: at(window.endOffsetDays, window.endTime),
+  };
+}
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+const isInt = (value: unknown, min: number, max: number): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= min && value <= max;
+
+/** Why a date rule is unusable, or null when it is fine */
+export function validateHolidayDateRule(rule: unknown): string | null {
+  const value = (rule ?? {}) as Partial<Record<string, unknown>>;
+  switch (value.kind) {
+    case "fixed":
+      if (!isInt(value.month, 1, 12) || !isInt(value.day, 1, 31)) {
+        return "Fixed holidays need a month (1-12) and day (1-31)";
+      }
+      return holidayDateInYear({ kind: "fixed", month: value.month, day: value.day }, 2024)
+        ? null
+        : "That day does not exist in that month";
+    case "nth_weekday":
+      if (!isInt(value.month, 1, 12) || !isInt(value.weekday, 0, 6)) {
+        return "Weekday holidays need a month (1-12) and weekday (0 = Sunday to 6 = Saturday)";
+      }
+      return isInt(value.nth, 1, 5) || value.nth === -1 ? null : "nth must be 1-5, or -1 for the last weekday";
+    case "easter":
+      return isInt(value.offsetDays, -60, 60) ? null : "Easter offsets must be whole days within 60 of Easter";
+    default:
+      return "Holiday rules must be fixed, nth_weekday or easter";
+  }
+}
+
+/** Why a custody window is unusable, or null when it is fine */
+export function validateHolidayWindow(window: unknown): string | null {
+  const value = (window ?? {}) as Partial<Record<string, unknown>>;
+  if (
+    !isInt(value.startOffsetDays, -MAX_WINDOW_DAYS, MAX_WINDOW_DAYS) ||
+    !isInt(value.endOffsetDays, -MAX_WINDOW_DAYS, MAX_WINDOW_DAYS)
+  ) {
+    return `Window offsets must be whole days within ${MAX_WINDOW_DAYS} of the holiday`;
+  }
+  if (typeof value.startTime !== "string" || typeof value.endTime !== "string") {
+    return "Window start and end times are required";
+  }
+  if (!TIME_PATTERN.test(value.startTime) || !TIME_PATTERN.test(value.endTime)) {
+    return "Window times must be HH:MM";
+  }
+  const start = value.startOffsetDays * 1440 + minutesOf(value.startTime);
+  const end = value.endOffsetDays * 1440 + minutesOf(value.endTime);
+  if (end <= start) {
+    return "The window must end after it starts";
+  }
+  return end - start > MAX_WINDOW_DAYS * 1440 ? `Windows can cover at most ${MAX_WINDOW_DAYS} days` : null;
+}
+
+/** Why a year-by-year assignment is unusable for a family with `parentIds`, or null when it is fine */
+export function validateHolidayAssignment(assignment: unknown, parentIds: readonly string[]): string | null {
+  const value = (assignment ?? {}) as Partial<Record<string, unknown>>;
+  const isParent = (id: unknown) => typeof id === "string" && parentIds.includes(id);
+  switch (value.mode) {
+    case "alternate_years":
+      return isParent(value.oddYearParentId) && isParent(value.evenYearParentId)
+        ? null
+        : "Odd and even years must each go to a parent in the family";
+    case "rotate":
+      if (!Array.isArray(value.parentIds) || value.parentIds.length < 2 || !value.parentIds.every(isParent)) {
+        return "Rotations need at least two parents in the family";
+      }
+      return isInt(value.startYear, 1900, 2200) ? null : "Rotations need a start year";
+    default:
+      return "Assignments must be alternate_years or rotate";
+  }
+}
@@ -1,3 +1,5 @@
+import { formatInstantInTimeZone } from '@/lib/custody';
+
 // Metadata about a family used when generating calendar feeds.  The
 // `timezone` field is optional; when present the generated iCalendar will
 // include a minimal VTIMEZONE component and timed events will have a TZID
@@ -18,6 +20,14 @@ export interface DbCalendarEvent {
   endDate: Date;
   isAllDay: boolean;
   category: string;
+  /**
+   * Explicit UID.  Generated events (custody periods, handoffs) have no row
+   * id, so they supply a stable UID of their own; rows default to
+   * `event-<id>@<familyId>.kidschedule.app`.
+   */
+  uid?: string;
+  /** Publish as TRANSP:TRANSPARENT so the event does not block free/busy. */
+  transparent?: boolean;
 }
 
 /**
@@ -55,6 +65,15 @@ function formatDateTimeUTC(date: Date): string {
   return `${year}${month}${day}T${hours}${minutes}${seconds}Z`;
 }
 
+/**
+ * Formats a Date object as YYYYMMDDTHHmmss wall-clock time in `timezone`,
+ * for use with a TZID parameter (a trailing Z would contradict the TZID).
+ */
+function formatDateTimeLocal(date: Date, timezone: string): string {
+  // "2024-03-15T17:00:00-04:00" → "20240315T170000"
+  return formatInstantInTimeZone(date, timezone).slice(0, 19).replace(/[-:]/g, '');
+}
+
 /**
  * Helper that builds a VEVENT block for a single calendar event.
  * Keeping this logic separate reduces complexity in the main generator.
@@ -66,7 +85,7 @@ function buildVEvent(
 ): string[] {
   const vevent: string[] = [
     'BEGIN:VEVENT',
-    `UID:event-${event.id}@${familyId}.kidschedule.app`,
+    `UID:${event.uid ?? `event-${event.id}@${familyId}.kidschedule.app`}`,
     `DTSTAMP:${formatDateTimeUTC(new Date())}`,
     `SUMMARY:${sanitizeICalValue(event.title)}`,
   ];
@@ -74,7 +93,7 @@ function buildVEvent(
   if (event.isAllDay) {
     vevent.push(`DTSTART;VALUE=DATE:${formatDateOnly(event.startDate)}`);
   } else if (timezone) {
-    vevent.push(`DTSTART;TZID=${timezone}:${formatDateTimeUTC(event.startDate)}`);
+    vevent.push(`DTSTART;TZID=${timezone}:${formatDateTimeLocal(event.startDate, timezone)}`);
   } else {
     vevent.push(`DTSTART:${formatDateTimeUTC(event.startDate)}`);
   }
@@ -89,9 +108,13 @@ function buildVEvent(
 
   vevent.push(`CATEGORIES:${sanitizeICalValue(event.category)}`);
 
+  if (event.transparent) {
+    vevent.push('TRANSP:TRANSPARENT');
+  }
+
   if (!event.isAllDay) {
     if (timezone) {
-      vevent.push(`DTEND;TZID=${timezone}:${formatDateTimeUTC(event.endDate)}`);
+      vevent.push(`DTEND;TZID=${timezone}:${formatDateTimeLocal(event.endDate, timezone)}`);
     } else {
       vevent.push(`DTEND:${formatDateTimeUTC(event.endDate)}`);
     }
@@ -4,6 +4,7 @@
  */
 
 import { isFeatureEnabled, getFeatureConfig, getAllFeatureFlags, type FeatureFlagConfig } from "./feature-flags";
+import type { HolidayAssignment, HolidayWindow } from "./persistence/types";
 
 // ─── Feature Flags ───────────────────────────────────────────────────────────
 
@@ -48,13 +49,28 @@ export class ServerError extends Error {
 
 export type ParentId = string; // opaque UUID
 
+/**
+ * How a caregiver relates to the children.  Custody math treats every
+ * caregiver alike; the role is for display and permissions.
+ */
+export type CaregiverRole = "parent" | "step_parent" | "grandparent" | "guardian" | "other";
+
+/** A caregiver who can hold custody – a parent, step-parent, grandparent, … */
 export interface Parent {
   id: ParentId;
   name: string;
   email: string;
+  /** Defaults to "parent" */
+  role?: CaregiverRole;
   avatarUrl?: string;
   /** Phone number used for SMS verification */
   phone?: string;
+  /**
+   * IANA timezone the parent lives in (e.g. "America/Los_Angeles").  Used for
+   * display and notification quiet hours; custody math always runs in the
+   * family's timezone.
+   */
+  timezone?: string;
 }
 
 export interface Child {
@@ -67,11 +83,35 @@ export interface Child {
 
 export interface Family {
   id: string;
-  parents: [Parent, Parent];
+  /**
+   * Every caregiver who can hold custody, primary account holder first.
+   * Usually two parents; blended families and grandparent caregivers add more.
+   */
+  parents: Parent[];
   children: Child[];
   /** The ISO-8601 date that the custody arrangement started for cycle math */
   custodyAnchorDate: string;
+  /**
+   * IANA timezone (e.g. "America/New_York") in which the anchor date and
+   * `schedule.transitionHour` are interpreted.  Handoffs stay at the same
+   * local wall-clock time across DST changes.
+   */
+  timezone: string;
+  /**
+   * Schedule every child follows unless they have their own; the one in
+   * force before the first of `scheduleVersions`
+   */
   schedule: CustodySchedule;
+  /**
+   * Approved changes to `schedule`, each taking over on its effective date,
+   * so earlier dates keep the rotation that applied then
+   */
+  scheduleVersions?: ScheduleVersion[];
+  /**
+   * Schedules for children on a different rotation than `schedule`, keyed by
+   * child id (e.g. an older sibling on alternating weeks).
+   */
+  childSchedules?: Record<string, CustodySchedule>;
 }
 
 // ─── Custody Schedule ─────────────────────────────────────────────────────────
@@ -83,21 +123,130 @@ export interface Family {
  * The engine loops through these blocks indefinitely from the anchor date.
  */
 export interface ScheduleBlock {
+  /** Caregiver holding this block; any member of `Family.parents` */
   parentId: ParentId;
-  days: number; // number of 24-hour calendar days in this continuous block
+  /**
+   * Calendar days from the day this block starts to the day the next one
+   * does.  0 for a block that ends the same day, e.g. a 4-8 PM dinner visit
+   * (the next block then starts at a later `startTime`).
+   */
+  days: number;
+  /**
+   * Exchange time ("HH:MM") this block starts at, when it differs from the
+   * schedule's `transitionHour` (e.g. Friday pickup at 18:00, Monday drop-off
+   * at school at 08:00).
+   */
+  startTime?: string;
   /** Optional label shown in the calendar (e.g. "Weekend", "Weekday") */
   label?: string;
 }
 
+/**
+ * A block tied to the days of the week rather than a place in the rotation,
+ * e.g. "every other weekend, Friday 18:00 to Sunday 18:00" or "every
+ * Wednesday, 16:00 to 20:00".  It holds custody while it runs and the
+ * rotation underneath resumes when it ends.  The first occurrence is on the
+ * first `startDay` on or after the schedule's anchor date.
+ */
+export interface WeeklyBlock {
+  /** Caregiver holding this block; any member of `Family.parents` */
+  parentId: ParentId;
+  /** Day of the week it starts, 0 (Sunday) to 6 (Saturday) */
+  startDay: number;
+  /** "HH:MM" on `startDay` */
+  startTime: string;
+  /** Day of the week it ends; the same day as `startDay` for a visit of a few hours */
+  endDay: number;
+  /** "HH:MM" on `endDay` */
+  endTime: string;
+  /** 1 for every week (default), 2 for every other week, up to 4 */
+  everyWeeks?: number;
+  /** e.g. "Wednesday dinner", "Weekend" */
+  label?: string;
+}
+
 export interface CustodySchedule {
   id: string;
   name: string; // e.g. "2-2-3 Rotation", "Alternating Weeks"
   blocks: ScheduleBlock[];
   /**
-   * Hour of day (0-23) at which transitions occur.
-   * Default is 17 (5 PM – school pickup).
+   * Hour of day (0-23) at which transitions occur, unless a block sets its
+   * own `startTime`.  Default is 17 (5 PM – school pickup).
    */
   transitionHour: number;
+  /**
+   * Date (YYYY-MM-DD) block[0] of this schedule first started, when it
+   * differs from `Family.custodyAnchorDate` (e.g. a child's own rotation).
+   */
+  anchorDate?: string;
+  /**
+   * Parts of every year that follow their own rotation instead of `blocks`
+   * (summer, winter break).  `blocks` is the school-year rotation and keeps
+   * counting from its anchor through the seasons.
+   */
+  seasons?: ScheduleSeason[];
+  /**
+   * Step-up phases run in order before `blocks`, e.g. daytime visits, then
+   * one overnight a week, until the child is old enough for the long-term
+   * rotation.  Each hands over to the next (and the last to `blocks`) at
+   * the transition hour on its end date, where that rotation restarts at
+   * block[0].  Seasons apply once `blocks` is in force.
+   */
+  phases?: SchedulePhase[];
+  /**
+   * Weekday-anchored blocks laid over `blocks`, e.g. every other weekend
+   * plus a midweek dinner on top of a primary parent's `[{ days: 7 }]`.
+   * Like `blocks` they give way to seasons and step-up phases.
+   */
+  weeklyBlocks?: WeeklyBlock[];
+}
+
+/**
+ * One stage of a step-up plan, e.g. "One overnight a week until 18 months".
+ * The last phase still needs an end; `CustodySchedule.blocks` follows it.
+ */
+export interface SchedulePhase {
+  /** e.g. "Daytime visits", "One overnight" */
+  name: string;
+  blocks: ScheduleBlock[];
+  until: SchedulePhaseEnd;
+}
+
+/**
+ * When a phase hands over: on a fixed date, or when a child reaches an age.
+ * An age counts from `Child.dateOfBirth`; without `childId` it is the child
+ * the schedule belongs to, else the family's youngest child.
+ */
+export type SchedulePhaseEnd =
+  | { kind: "date"; date: string }
+  | { kind: "age"; months: number; childId?: string };
+
+/**
+ * A recurring part of the year with its own rotation, e.g. "Summer:
+ * alternating weeks from June 15 to August 20".  The season takes over at
+ * the schedule's transition hour on `startMonthDay` and hands back at the
+ * transition hour on `endMonthDay`; an end before the start spans New Year.
+ */
+export interface ScheduleSeason {
+  /** e.g. "Summer", "Winter Break" */
+  name: string;
+  /** MM-DD the season starts each year */
+  startMonthDay: string;
+  /** MM-DD the school-year rotation resumes */
+  endMonthDay: string;
+  /** Rotation during the season; restarts at blocks[0] every year */
+  blocks: ScheduleBlock[];
+}
+
+/**
+ * A family schedule that replaces the previous one from `effectiveDate`
+ * (YYYY-MM-DD) at its own transition hour.  Its `anchorDate` falls back to
+ * `Family.custodyAnchorDate` when unset.
+ */
+export interface ScheduleVersion {
+  id: string;
+  effectiveDate: string;
+  schedule: CustodySchedule;
 }
 
 // ─── Schedule Generation Engine (CAL-003) ────────────────────────────────────
@@ -224,6 +373,14 @@ export interface CustodyStatus {
   transitionLocation?: string;
   /** Minutes remaining until the next transition */
   minutesUntilTransition: number;
+  /** The override (holiday, swap, …) in force, when it decides custody */
+  override?: ScheduleOverride;
+}
+
+/** Where one child is: their caregiver at a moment or on a day */
+export interface ChildCustody {
+  child: Child;
+  parent: Parent;
 }
 
 export interface ScheduleTransition {
@@ -231,6 +388,11 @@ export interface ScheduleTransition {
   fromParent: Parent;
   toParent: Parent;
   location?: string;
+  /**
+   * The handoff moment rendered in each parent's own timezone, keyed by
+   * parentId (ISO-8601 with offset, e.g. "2024-03-15T14:00:00-07:00").
+   */
+  localTimes?: Record<ParentId, string>;
 }
 
 // ─── Calendar Events ──────────────────────────────────────────────────────────
@@ -259,6 +421,12 @@ export interface CalendarEvent {
   parentId?: ParentId;
   confirmationStatus: ConfirmationStatus;
   createdBy: ParentId;
+  /** RRULE value for a recurring series (occurrences are expanded on read) */
+  recurrenceRule?: string;
+  /** Set on expanded occurrences: the id of the series they belong to */
+  recurringEventId?: string;
+  /** Set on expanded occurrences: scheduled start before any per-occurrence edit */
+  originalStartAt?: string;
 }
 
 // ─── Schedule Change Requests ─────────────────────────────────────────────────
@@ -358,6 +526,8 @@ export interface HolidayExceptionRule {
   custodianParentId: ParentId;
   isEnabled: boolean;
   notes?: string;
+  window?: HolidayWindow;
+  assignment?: HolidayAssignment;
 }
 
 // ─── Expenses ─────────────────────────────────────────────────────────────────
@@ -372,7 +542,7 @@ export type ExpenseCategory =
 
 export type SplitMethod = "50-50" | "custom" | "one-parent";
 
-export type PaymentStatus = "unpaid" | "paid" | "disputed";
+export type PaymentStatus = "unpaid" | "partially_paid" | "paid" | "disputed";
 
 export interface Expense {
   id: string;
@@ -382,6 +552,10 @@ export interface Expense {
   category: ExpenseCategory;
   totalAmount: number; // in cents to avoid float rounding
   currency: string;   // ISO-4217, e.g. "USD"
+  /** totalAmount converted to the family's base currency, when paid in another */
+  baseAmount?: number;
+  baseCurrency?: string;
+  exchangeRate?: number;
   splitMethod: SplitMethod;
   /** Only used when splitMethod = "custom". Values sum to 1.0 */
   splitRatio?: Record<ParentId, number>;
@@ -636,7 +810,12 @@ export type AuthErrorCode =
   | "service_unavailable"
   | "token_expired"
   | "token_invalid"
-  | "oauth_failed";
+  | "oauth_failed"
+  | "mfa_required"           // Password accepted; a second factor is still needed
+  | "mfa_invalid";
+
+/** Ways to satisfy a second-factor check */
+export type MfaMethod = "totp" | "webauthn" | "recovery_code";
 
 export interface AuthCredentials {
   email: string;
@@ -691,6 +870,14 @@ export interface AuthResult {
   attemptsRemaining?: number;
   /** ISO datetime when lockout expires (if locked) */
   lockedUntil?: string;
+  /** Second-factor methods the user can complete (when error is "mfa_required") */
+  mfaMethods?: MfaMethod[];
+}
+
+/** A user's enrolled second factors, and whether one was verified for this attempt */
+export interface SecondFactorState {
+  methods: MfaMethod[];
+  verified: boolean;
 }
 
 export interface RateLimitState {
@@ -878,6 +1065,8 @@ export interface DashboardData {
   family: Family;
   currentParent: Parent;
   custody: CustodyStatus;
+  /** Each child's caregiver right now; differs from `custody` for children on their own schedule */
+  childCustody: ChildCustody[];
   upcomingTransitions: ScheduleTransition[];
   monthlyOwnership: { [parentId: string]: number }; // Percentage ownership for current month
   upcomingEvents: CalendarEvent[];
@@ -9,7 +9,13 @@
  *
  * Available Jobs:
  * - purge-deleted-documents: Hard-delete documents soft-deleted 30+ days ago (FERPA compliance)
+ * - notification-events: Unread-message notifications and daily notification digests
+ * - recurring-expenses: Generate expenses from due recurring expense templates
  */
 
 export { purgeDeletedDocuments, getJobConfig } from "./purge-deleted-documents";
 export type { PurgeResult } from "./purge-deleted-documents";
+export { runNotificationEventsJob, getNotificationEventsJobConfig } from "./notification-events";
+export type { NotificationEventsJobResult } from "./notification-events";
+export { runRecurringExpensesJob, getRecurringExpensesJobConfig } from "./recurring-expenses";
+export type { RecurringExpensesJobResult } from "./recurring-expenses";
@@ -0,0 +1,83 @@
+/**
+ * KidSchedule – Notification Events Job
+ *
+ * Hourly job for the notification event bus:
+ * 1. Publish `message.unread` for messages unread longer than the threshold
+ * 2. Send daily digest emails to parents whose digest hour has passed
+ *
+ * Both steps are idempotent (events are deduplicated per recipient and
+ * digested events leave the pending queue), so overlapping or repeated runs
+ * do not double-notify.
+ */
+
+import { NotificationEventBus, type NotificationDigestResult } from "@/lib/notification-events";
+import { logEvent } from "@/lib/observability/logger";
+
+export interface NotificationEventsJobResult {
+  success: boolean;
+  unreadMessageEvents: number;
+  digests: NotificationDigestResult;
+  startedAt: string;
+  completedAt: string;
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Run the unread-message scan and digest delivery.  Errors are captured in
+ * the result rather than thrown.
+ */
+export async function runNotificationEventsJob(
+  now: Date = new Date(),
+  unreadAfterHours: number = getNotificationEventsJobConfig().unreadAfterHours
+): Promise<NotificationEventsJobResult> {
+  const startedAt = new Date();
+  const bus = new NotificationEventBus();
+  let unreadMessageEvents = 0;
+  let digests: NotificationDigestResult = { recipients: 0, events: 0, failed: 0 };
+
+  try {
+    unreadMessageEvents = await bus.notifyUnreadMessages(now, unreadAfterHours);
+    digests = await bus.sendDigests(now);
+
+    const completedAt = new Date();
+    logEvent("info", "Notification events job completed", {
+      unreadMessageEvents,
+      digestRecipients: digests.recipients,
+      digestEvents: digests.events,
+      digestFailures: digests.failed,
+    });
+    return {
+      success: true,
+      unreadMessageEvents,
+      digests,
+      startedAt: startedAt.toISOString(),
+      completedAt: completedAt.toISOString(),
+      durationMs: completedAt.getTime() - startedAt.getTime(),
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const completedAt = new Date();
+    logEvent("error", "Notification events job failed", { error: errorMessage });
+    return {
+      success: false,
+      unreadMessageEvents,
+      digests,
+      startedAt: startedAt.toISOString(),
+      completedAt: completedAt.toISOString(),
+      durationMs: completedAt.getTime() - startedAt.getTime(),
+      error: errorMessage,
+    };
+  }
+}
+
+export function getNotificationEventsJobConfig() {
+  return {
+    name: "notification-events",
+    description: "Notify parents of long-unread messages and send daily notification digests",
+    enabled: process.env.NOTIFICATION_EVENTS_JOB_ENABLED !== "false",
+    // Hourly, so each parent's digest goes out within the hour they chose
+    cronSchedule: process.env.NOTIFICATION_EVENTS_JOB_CRON || "5 * * * *",
+    unreadAfterHours: Number(process.env.UNREAD_MESSAGE_NOTIFY_HOURS) || 12,
+  };
+}
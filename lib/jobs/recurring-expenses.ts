@@ -0,0 +1,74 @@
+/**
+ * KidSchedule – Recurring Expenses Job
+ *
+ * Daily job that turns due recurring expense templates into expense rows.
+ * Generation skips occurrences that already have an expense, so a repeated
+ * or overlapping run does not create duplicates.
+ */
+
+import { generateAllDueExpenses } from "@/lib/recurring-expenses";
+import { logEvent } from "@/lib/observability/logger";
+
+export interface RecurringExpensesJobResult {
+  success: boolean;
+  templates: number;
+  generatedExpenses: number;
+  failedTemplates: number;
+  startedAt: string;
+  completedAt: string;
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Generate every occurrence due on or before `now`'s date.  Errors are
+ * captured in the result rather than thrown.
+ */
+export async function runRecurringExpensesJob(now: Date = new Date()): Promise<RecurringExpensesJobResult> {
+  const startedAt = new Date();
+  const asOfDate = now.toISOString().slice(0, 10);
+
+  try {
+    const result = await generateAllDueExpenses(asOfDate);
+
+    const completedAt = new Date();
+    logEvent("info", "Recurring expenses job completed", {
+      asOfDate,
+      templates: result.templates,
+      generatedExpenses: result.expenses,
+      failedTemplates: result.failed,
+    });
+    return {
+      success: result.failed === 0,
+      templates: result.templates,
+      generatedExpenses: result.expenses,
+      failedTemplates: result.failed,
+      startedAt: startedAt.toISOString(),
+      completedAt: completedAt.toISOString(),
+      durationMs: completedAt.getTime() - startedAt.getTime(),
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const completedAt = new Date();
+    logEvent("error", "Recurring expenses job failed", { error: errorMessage });
+    return {
+      success: false,
+      templates: 0,
+      generatedExpenses: 0,
+      failedTemplates: 0,
+      startedAt: startedAt.toISOString(),
+      completedAt: completedAt.toISOString(),
+      durationMs: completedAt.getTime() - startedAt.getTime(),
+      error: errorMessage,
+    };
+  }
+}
+
+export function getRecurringExpensesJobConfig() {
+  return {
+    name: "recurring-expenses",
+    description: "Generate expenses from recurring expense templates that are due",
+    enabled: process.env.RECURRING_EXPENSES_JOB_ENABLED !== "false",
+    cronSchedule: process.env.RECURRING_EXPENSES_JOB_CRON || "15 5 * * *",
+  };
+}
@@ -0,0 +1,293 @@
+/**
+ * KidSchedule – Notification Event Bus
+ *
+ * Tells the other parent about things that need their attention outside of
+ * custody transitions: new and countered schedule change requests, expenses
+ * awaiting reimbursement, messages left unread, and vault documents waiting
+ * for a signature.
+ *
+ * Routes and actions publish a typed event; the bus picks the recipients,
+ * records one notification_events row per recipient (deduplicated), renders
+ * the event's template and either delivers it right away over the parent's
+ * preferred channels or leaves it pending for their daily digest email.
+ */
+
+import { getDb } from "@/lib/persistence";
+import type { DbNotificationEvent, DbParent, NotificationEventType } from "@/lib/persistence";
+import { NotificationDeliveryService, type NotificationContent } from "@/lib/notification";
+import { digestCutoff, resolveNotificationPreferences } from "@/lib/notification-preferences";
+import { formatCurrency } from "@/lib/expense-engine";
+import { logEvent } from "@/lib/observability/logger";
+
+// ─── Event Types ──────────────────────────────────────────────────────────────
+
+/** Template variables each event type carries */
+export interface NotificationEventPayloads {
+  "change_request.created": { requestId: string; title: string };
+  "change_request.countered": { requestId: string; title: string; note: string };
+  "expense.awaiting_reimbursement": { expenseId: string; title: string; amountCents: number; currency: string };
+  "message.unread": { messageId: string; threadId: string; hoursUnread: number };
+  "vault.signature_requested": { documentId: string; title: string; actionDeadline: string | null };
+}
+
+/**
+ * Something that happened in a family.  `actorParentId` is the parent who
+ * caused it (for unread messages, the sender); everyone else in the family
+ * is notified unless `recipientParentIds` narrows it down.
+ */
+export type NotificationEvent = {
+  [T in NotificationEventType]: {
+    type: T;
+    familyId: string;
+    actorParentId: string;
+    recipientParentIds?: string[];
+    payload: NotificationEventPayloads[T];
+  };
+}[NotificationEventType];
+
+type StoredPayload<T extends NotificationEventType> = NotificationEventPayloads[T] & { actorName: string };
+
+// ─── Templates ────────────────────────────────────────────────────────────────
+
+interface RenderedEvent extends NotificationContent {
+  subject: string;
+  /** One line for the digest email */
+  summary: string;
+}
+
+const TEMPLATES: { [T in NotificationEventType]: (payload: StoredPayload<T>) => RenderedEvent } = {
+  "change_request.created": ({ actorName, title, requestId }) => ({
+    subject: `${actorName} requested a schedule change`,
+    body: `${actorName} asked for a schedule change: ${title}. Review and respond in KidSchedule.`,
+    summary: `${actorName} requested a schedule change: ${title}`,
+    url: `/calendar/change-request/${requestId}`,
+  }),
+  "change_request.countered": ({ actorName, title, note, requestId }) => ({
+    subject: `${actorName} countered your schedule change request`,
+    body: `${actorName} responded to "${title}" with a counter-proposal: "${note}"`,
+    summary: `${actorName} countered "${title}"`,
+    url: `/calendar/change-request/${requestId}`,
+  }),
+  "expense.awaiting_reimbursement": ({ actorName, title, amountCents, currency }) => ({
+    subject: `${actorName} logged an expense for reimbursement`,
+    body: `${actorName} paid for "${title}". Your share is ${formatCurrency(amountCents, currency)}.`,
+    summary: `${title}: your share is ${formatCurrency(amountCents, currency)}`,
+    url: "/expenses",
+  }),
+  "message.unread": ({ actorName, hoursUnread }) => ({
+    subject: `Unread message from ${actorName}`,
+    body: `You have had an unread message from ${actorName} for ${hoursUnread} hours.`,
+    summary: `Unread message from ${actorName} (${hoursUnread}h)`,
+    url: "/messages",
+  }),
+  "vault.signature_requested": ({ actorName, title, actionDeadline }) => {
+    const due = actionDeadline ? ` by ${actionDeadline.slice(0, 10)}` : "";
+    return {
+      subject: `Signature needed: ${title}`,
+      body: `${actorName} added "${title}" to the school vault. It needs your signature${due}.`,
+      summary: `Sign "${title}"${due}`,
+      url: "/school",
+    };
+  },
+};
+
+/** Renders a stored event with its type's template. */
+export function renderNotificationEvent(event: Pick<DbNotificationEvent, "eventType" | "payload">): RenderedEvent {
+  const template = TEMPLATES[event.eventType] as (payload: DbNotificationEvent["payload"]) => RenderedEvent;
+  return { ...template(event.payload), tag: event.eventType };
+}
+
+/** Renders several events as one summary email, oldest first. */
+export function renderDigest(events: DbNotificationEvent[]): NotificationContent {
+  const lines = events.map((event) => `• ${renderNotificationEvent(event).summary}`);
+  return {
+    subject: events.length === 1 ? "1 update in KidSchedule" : `${events.length} updates in KidSchedule`,
+    body: `Here is what happened since your last summary:\n\n${lines.join("\n")}`,
+  };
+}
+
+function entityIdOf(event: NotificationEvent): string {
+  switch (event.type) {
+    case "change_request.created":
+    case "change_request.countered":
+      return event.payload.requestId;
+    case "expense.awaiting_reimbursement":
+      return event.payload.expenseId;
+    case "message.unread":
+      return event.payload.messageId;
+    case "vault.signature_requested":
+      return event.payload.documentId;
+  }
+}
+
+// ─── Bus ──────────────────────────────────────────────────────────────────────
+
+export interface NotificationDigestResult {
+  recipients: number;
+  events: number;
+  failed: number;
+}
+
+export class NotificationEventBus {
+  private readonly db = getDb();
+  private readonly delivery = new NotificationDeliveryService();
+
+  /**
+   * Record and route an event to each recipient.  Returns the rows created;
+   * recipients who were already notified of this entity are skipped.
+   */
+  async publish(event: NotificationEvent): Promise<DbNotificationEvent[]> {
+    const parents = await this.db.parents.findByFamilyId(event.familyId);
+    const actor = parents.find((p) => p.id === event.actorParentId);
+    const recipients = parents.filter((p) =>
+      event.recipientParentIds ? event.recipientParentIds.includes(p.id) : p.id !== event.actorParentId
+    );
+
+    const payload = { ...event.payload, actorName: actor?.name ?? "Your co-parent" };
+    const dedupeKey = `${event.type}:${entityIdOf(event)}`;
+    const created: DbNotificationEvent[] = [];
+
+    for (const recipient of recipients) {
+      const row = await this.publishTo(recipient, event, payload, dedupeKey);
+      if (row) {
+        created.push(row);
+      }
+    }
+
+    return created;
+  }
+
+  private async publishTo(
+    recipient: DbParent,
+    event: NotificationEvent,
+    payload: DbNotificationEvent["payload"],
+    dedupeKey: string
+  ): Promise<DbNotificationEvent | null> {
+    const preferences = resolveNotificationPreferences(
+      await this.db.notificationPreferences.findByParentId(recipient.id)
+    );
+    const eventPreference = preferences.events[event.type];
+
+    const row = await this.db.notificationEvents.create({
+      familyId: event.familyId,
+      recipientParentId: recipient.id,
+      eventType: event.type,
+      payload,
+      dedupeKey,
+      status: eventPreference.enabled ? "pending" : "skipped",
+    });
+    if (!row || row.status === "skipped" || preferences.digestHour !== undefined) {
+      // Duplicate, turned off, or waiting for the daily digest
+      return row;
+    }
+
+    const result = await this.delivery.deliverToParent(
+      recipient.id,
+      eventPreference.channels,
+      renderNotificationEvent(row)
+    );
+    return this.db.notificationEvents.update(row.id, {
+      status: result.success ? "sent" : "failed",
+      deliveryMethod: result.deliveryMethod,
+      sentAt: result.success ? new Date().toISOString() : undefined,
+      errorMessage: result.success ? undefined : result.error,
+    });
+  }
+
+  /**
+   * Send each parent one email summarising their pending events.  Parents
+   * with a digest hour only receive events created before their most recent
+   * digest time; events still pending for anyone else (e.g. they turned the
+   * digest off) go out on the next run.
+   */
+  async sendDigests(now: Date = new Date()): Promise<NotificationDigestResult> {
+    const pending = await this.db.notificationEvents.findPending(now.toISOString());
+    const byRecipient = new Map<string, DbNotificationEvent[]>();
+    for (const event of pending) {
+      const events = byRecipient.get(event.recipientParentId) ?? [];
+      events.push(event);
+      byRecipient.set(event.recipientParentId, events);
+    }
+
+    const result: NotificationDigestResult = { recipients: 0, events: 0, failed: 0 };
+
+    for (const [parentId, events] of byRecipient) {
+      const preferences = resolveNotificationPreferences(
+        await this.db.notificationPreferences.findByParentId(parentId)
+      );
+      let due = events;
+      if (preferences.digestHour !== undefined) {
+        const cutoff = digestCutoff(now, preferences.digestHour, await this.timeZoneOf(parentId));
+        due = events.filter((event) => new Date(event.createdAt) < cutoff);
+      }
+      if (due.length === 0) {
+        continue;
+      }
+
+      const delivery = await this.delivery.deliverToParent(parentId, ["email"], renderDigest(due));
+      if (!delivery.success) {
+        result.failed++;
+        logEvent("warn", "Notification digest failed", { parentId, events: due.length, error: delivery.error });
+        continue;
+      }
+
+      result.recipients++;
+      result.events += await this.db.notificationEvents.markDigested(
+        due.map((event) => event.id),
+        now.toISOString()
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Publish `message.unread` for messages unread for at least
+   * `thresholdHours`.  Safe to run repeatedly: each message notifies once.
+   */
+  async notifyUnreadMessages(now: Date, thresholdHours: number): Promise<number> {
+    const sentBefore = new Date(now.getTime() - thresholdHours * 60 * 60 * 1000);
+    const messages = await this.db.messages.findUnreadSentBefore(sentBefore.toISOString());
+
+    let published = 0;
+    for (const message of messages) {
+      const created = await this.publish({
+        type: "message.unread",
+        familyId: message.familyId,
+        actorParentId: message.senderId,
+        payload: {
+          messageId: message.id,
+          threadId: message.threadId,
+          hoursUnread: Math.floor((now.getTime() - new Date(message.sentAt).getTime()) / (60 * 60 * 1000)),
+        },
+      });
+      published += created.length;
+    }
+    return published;
+  }
+
+  private async timeZoneOf(parentId: string): Promise<string> {
+    const parent = await this.db.parents.findById(parentId);
+    if (parent?.timezone) {
+      return parent.timezone;
+    }
+    const family = parent ? await this.db.families.findById(parent.familyId) : null;
+    return family?.timezone ?? "UTC";
+  }
+}
+
+/**
+ * Publish an event without letting notification problems fail the caller's
+ * request; errors are logged.
+ */
+export async function publishNotificationEvent(event: NotificationEvent): Promise<void> {
+  try {
+    await new NotificationEventBus().publish(event);
+  } catch (error) {
+    logEvent("error", "Notification event publish failed", {
+      type: event.type,
+      familyId: event.familyId,
+      error: error instanceof Error ? error.message : "unknown",
+    });
+  }
+}
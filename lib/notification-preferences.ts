@@ -0,0 +1,218 @@
+/**
+ * KidSchedule – Notification Preferences
+ *
+ * Resolves a parent's stored notification settings against the defaults and
+ * decides what happens to an alert that would land inside their quiet hours:
+ * it is deferred to the end of quiet hours while that is still before the
+ * transition, and otherwise rerouted to a silent channel (email).  Also
+ * covers the general notification events and the daily digest cutoff.
+ *
+ * Pure functions only — the scheduler and delivery service load the rows.
+ */
+
+import { fromWallClockMs, toWallClockMs } from "@/lib/custody";
+import type {
+  DbNotificationPreference,
+  NotificationChannel,
+  NotificationEventPreference,
+  NotificationEventType,
+  NotificationTypePreference,
+  ScheduledNotificationType,
+} from "@/lib/persistence/types";
+
+// ─── Defaults ─────────────────────────────────────────────────────────────────
+
+export const NOTIFICATION_TYPES: readonly ScheduledNotificationType[] = [
+  "transition_24h",
+  "transition_same_day",
+  "transition_reminder",
+];
+
+export const NOTIFICATION_CHANNELS: readonly NotificationChannel[] = ["sms", "email", "push"];
+
+/** Behaviour for parents who never saved preferences */
+export const DEFAULT_NOTIFICATION_TYPE_PREFERENCES: Readonly<
+  Record<ScheduledNotificationType, NotificationTypePreference>
+> = {
+  transition_24h: { enabled: true, channels: ["sms"], leadMinutes: 24 * 60 },
+  transition_same_day: { enabled: true, channels: ["sms"], leadMinutes: 2 * 60 },
+  transition_reminder: { enabled: true, channels: ["push"], leadMinutes: 15 },
+};
+
+export const NOTIFICATION_EVENT_TYPES: readonly NotificationEventType[] = [
+  "change_request.created",
+  "change_request.countered",
+  "expense.awaiting_reimbursement",
+  "message.unread",
+  "vault.signature_requested",
+];
+
+/** Every event is on by default; push is tried first where it helps to be prompt */
+export const DEFAULT_NOTIFICATION_EVENT_PREFERENCES: Readonly<
+  Record<NotificationEventType, NotificationEventPreference>
+> = {
+  "change_request.created": { enabled: true, channels: ["push", "email"] },
+  "change_request.countered": { enabled: true, channels: ["push", "email"] },
+  "expense.awaiting_reimbursement": { enabled: true, channels: ["email"] },
+  "message.unread": { enabled: true, channels: ["push", "email"] },
+  "vault.signature_requested": { enabled: true, channels: ["email"] },
+};
+
+export const MIN_LEAD_MINUTES = 5;
+export const MAX_LEAD_MINUTES = 7 * 24 * 60;
+
+/** Channels that do not buzz a phone, so they may be used during quiet hours */
+const SILENT_CHANNELS: readonly NotificationChannel[] = ["email"];
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// ─── Resolution ───────────────────────────────────────────────────────────────
+
+export interface QuietHours {
+  /** "HH:MM" wall time quiet hours begin */
+  start: string;
+  /** "HH:MM" wall time quiet hours end; earlier than `start` when they wrap midnight */
+  end: string;
+}
+
+export interface NotificationPreferences {
+  types: Record<ScheduledNotificationType, NotificationTypePreference>;
+  events: Record<NotificationEventType, NotificationEventPreference>;
+  quietHours?: QuietHours;
+  /** Local hour of the daily digest; undefined sends events immediately */
+  digestHour?: number;
+}
+
+/**
+ * Merges a stored preference row over the defaults.  A type or event with no
+ * channels left is treated as disabled.
+ */
+export function resolveNotificationPreferences(
+  stored?: DbNotificationPreference | null
+): NotificationPreferences {
+  const types = {} as Record<ScheduledNotificationType, NotificationTypePreference>;
+  for (const type of NOTIFICATION_TYPES) {
+    const preference = stored?.types[type] ?? DEFAULT_NOTIFICATION_TYPE_PREFERENCES[type];
+    types[type] = {
+      enabled: preference.enabled && preference.channels.length > 0,
+      channels: [...preference.channels],
+      leadMinutes: preference.leadMinutes,
+    };
+  }
+
+  const events = {} as Record<NotificationEventType, NotificationEventPreference>;
+  for (const type of NOTIFICATION_EVENT_TYPES) {
+    const preference = stored?.events?.[type] ?? DEFAULT_NOTIFICATION_EVENT_PREFERENCES[type];
+    events[type] = {
+      enabled: preference.enabled && preference.channels.length > 0,
+      channels: [...preference.channels],
+    };
+  }
+
+  const quietHours =
+    stored?.quietHoursStart && stored.quietHoursEnd
+      ? { start: stored.quietHoursStart, end: stored.quietHoursEnd }
+      : undefined;
+
+  return { types, events, quietHours, digestHour: stored?.digestHour ?? undefined };
+}
+
+// ─── Quiet Hours ──────────────────────────────────────────────────────────────
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/** Parses "HH:MM" into minutes after midnight, or null if malformed. */
+export function parseTimeOfDay(value: string): number | null {
+  const match = TIME_OF_DAY_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * If `at` falls inside quiet hours in `timeZone`, returns the instant they
+ * end; otherwise null.  Equal start and end times mean no quiet hours.
+ */
+export function quietHoursEndAfter(at: Date, quietHours: QuietHours | undefined, timeZone: string): Date | null {
+  if (!quietHours) {
+    return null;
+  }
+  const start = parseTimeOfDay(quietHours.start);
+  const end = parseTimeOfDay(quietHours.end);
+  if (start === null || end === null || start === end) {
+    return null;
+  }
+
+  const wallMs = toWallClockMs(at.getTime(), timeZone);
+  const dayStartMs = wallMs - (((wallMs % DAY_MS) + DAY_MS) % DAY_MS);
+  const minuteOfDay = Math.floor((wallMs - dayStartMs) / MINUTE_MS);
+
+  let endWallMs: number;
+  if (start < end) {
+    // Same-day window, e.g. 13:00–15:00
+    if (minuteOfDay < start || minuteOfDay >= end) return null;
+    endWallMs = dayStartMs + end * MINUTE_MS;
+  } else if (minuteOfDay >= start) {
+    // Wrapping window, evening side: ends tomorrow
+    endWallMs = dayStartMs + DAY_MS + end * MINUTE_MS;
+  } else if (minuteOfDay < end) {
+    // Wrapping window, morning side: ends today
+    endWallMs = dayStartMs + end * MINUTE_MS;
+  } else {
+    return null;
+  }
+
+  return new Date(fromWallClockMs(endWallMs, timeZone));
+}
+
+export type QuietHoursDecision =
+  | { action: "send"; channels: NotificationChannel[]; rerouted: boolean }
+  | { action: "defer"; until: Date };
+
+/**
+ * Decides how to handle an alert due at `at` for a transition at
+ * `transitionAt`, given the channels it would normally use.
+ */
+export function applyQuietHours(
+  at: Date,
+  transitionAt: Date,
+  channels: NotificationChannel[],
+  preferences: NotificationPreferences,
+  timeZone: string
+): QuietHoursDecision {
+  const quietEnd = quietHoursEndAfter(at, preferences.quietHours, timeZone);
+  if (!quietEnd) {
+    return { action: "send", channels, rerouted: false };
+  }
+
+  // Waiting is only useful if the alert still arrives before the handoff
+  if (quietEnd < transitionAt) {
+    return { action: "defer", until: quietEnd };
+  }
+
+  const silent = channels.filter((channel) => SILENT_CHANNELS.includes(channel));
+  return {
+    action: "send",
+    channels: silent.length > 0 ? silent : [...SILENT_CHANNELS],
+    rerouted: silent.length !== channels.length,
+  };
+}
+
+// ─── Digest ───────────────────────────────────────────────────────────────────
+
+/**
+ * The most recent daily digest time at or before `now`: `digestHour`:00 in
+ * `timeZone`, today or yesterday.  Events created before it belong in the
+ * digest due now; later ones wait for tomorrow's.
+ */
+export function digestCutoff(now: Date, digestHour: number, timeZone: string): Date {
+  const wallMs = toWallClockMs(now.getTime(), timeZone);
+  const dayStartMs = wallMs - (((wallMs % DAY_MS) + DAY_MS) % DAY_MS);
+  let cutoffWallMs = dayStartMs + digestHour * 60 * MINUTE_MS;
+  if (cutoffWallMs > wallMs) {
+    cutoffWallMs -= DAY_MS;
+  }
+  return new Date(fromWallClockMs(cutoffWallMs, timeZone));
+}
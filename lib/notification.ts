@@ -2,20 +2,29 @@
  * KidSchedule – Notification Delivery Service
  *
  * Handles delivery of scheduled notifications through SMS, email, and push channels.
- * Integrates with existing provider infrastructure.
+ * Integrates with existing provider infrastructure.  Parent notification
+ * preferences are re-checked at delivery time, since they may have changed
+ * after the notification was scheduled.
  */
 
 import { getDb } from "@/lib/persistence";
+import type { DbNotificationPreference, NotificationChannel, ScheduledNotificationType } from "@/lib/persistence";
 import type { Parent } from "@/lib";
 import { getSmsSender } from "@/lib/providers/sms";
 import { getEmailSender } from "@/lib/providers/email";
+import { getPushSender } from "@/lib/providers/push";
 import { logEvent } from "@/lib/observability/logger";
+import {
+  applyQuietHours,
+  resolveNotificationPreferences,
+  type NotificationPreferences,
+} from "@/lib/notification-preferences";
 
 export interface NotificationDeliveryRequest {
   notificationId: string;
   parentId: string;
-  notificationType: "transition_24h" | "transition_same_day" | "transition_reminder";
-  deliveryMethod: "sms" | "email" | "push";
+  notificationType: ScheduledNotificationType;
+  deliveryMethod: NotificationChannel;
   transitionAt: string;
   fromParentName: string;
   toParentName: string;
@@ -28,12 +37,23 @@ export interface NotificationDeliveryResult {
   error?: string;
   retryable?: boolean; // Whether this error can be retried
   nextRetryAt?: string; // When to retry next (ISO string)
+  deferredUntil?: string; // Rescheduled past the parent's quiet hours (ISO string)
+  deliveryMethod?: NotificationChannel; // Channel actually used
+}
+
+/** Rendered message; `url` and `tag` shape the push notification */
+export interface NotificationContent {
+  subject?: string;
+  body: string;
+  url?: string;
+  tag?: string;
 }
 
 export class NotificationDeliveryService {
   private readonly db = getDb();
   private readonly smsProvider = getSmsSender();
   private readonly emailProvider = getEmailSender();
+  private readonly pushProvider = getPushSender();
 
   // Exponential backoff schedule for retries (in minutes)
   private readonly RETRY_BACKOFF_SCHEDULE = [1, 5, 30]; // 1min, 5min, 30min
@@ -54,36 +74,59 @@ export class NotificationDeliveryService {
         };
       }
 
-      // Generate notification content
-      const content = this.generateNotificationContent(request);
-
-      // Deliver based on method
-      let result: NotificationDeliveryResult;
-
-      switch (request.deliveryMethod) {
-        case "sms":
-          result = await this.deliverSms(parent, content);
-          break;
-        case "email":
-          result = await this.deliverEmail(parent, content);
-          break;
-        case "push":
-          result = await this.deliverPush();
-          break;
-        default:
-          return {
-            success: false,
-            error: `Unsupported delivery method: ${request.deliveryMethod}`,
-            retryable: false,
-          };
+      const preferences = resolveNotificationPreferences(
+        await this.db.notificationPreferences.findByParentId(parent.id),
+      );
+      const typePreference = preferences.types[request.notificationType];
+      if (!typePreference.enabled) {
+        await this.db.scheduledNotifications.update(request.notificationId, { deliveryStatus: "cancelled" });
+        logEvent("info", "Notification cancelled by parent preferences", {
+          notificationId: request.notificationId,
+          parentId: request.parentId,
+          notificationType: request.notificationType,
+        });
+        return {
+          success: false,
+          error: "Notification type disabled in parent preferences",
+          retryable: false,
+        };
+      }
+
+      const decision = applyQuietHours(
+        new Date(),
+        new Date(request.transitionAt),
+        this.withoutUnreachableSms(
+          this.orderChannels(request.deliveryMethod, typePreference.channels),
+          parent,
+        ),
+        preferences,
+        parent.timeZone,
+      );
+      if (decision.action === "defer") {
+        const deferredUntil = decision.until.toISOString();
+        await this.db.scheduledNotifications.update(request.notificationId, { scheduledAt: deferredUntil });
+        logEvent("info", "Notification deferred past quiet hours", {
+          notificationId: request.notificationId,
+          parentId: request.parentId,
+          deferredUntil,
+        });
+        return { success: false, retryable: false, deferredUntil };
       }
 
+      // Generate notification content
+      const content = this.generateNotificationContent(request, parent.timeZone);
+
+      // Try each channel in preference order until one succeeds
+      const result = await this.deliverFirstAvailable(decision.channels, parent, content);
+      const deliveryMethod = result.deliveryMethod ?? decision.channels[0];
+
       // Update notification status in database
       await this.updateNotificationStatus(
         request.notificationId,
         result.success,
         result.messageId,
         result.error,
+        deliveryMethod === request.deliveryMethod ? undefined : deliveryMethod,
       );
 
       return result;
@@ -102,10 +145,125 @@ export class NotificationDeliveryService {
     }
   }
 
+  /**
+   * Deliver arbitrary content to a parent over the first of `channels` that
+   * succeeds.  Used for notification events, which have no transition to
+   * wait for: during quiet hours they only go out over silent channels.
+   */
+  async deliverToParent(
+    parentId: string,
+    channels: NotificationChannel[],
+    content: NotificationContent,
+  ): Promise<NotificationDeliveryResult> {
+    const parent = await this.getParentById(parentId);
+    if (!parent) {
+      return {
+        success: false,
+        error: `Parent not found: ${parentId}`,
+        retryable: false,
+      };
+    }
+
+    const now = new Date();
+    const preferences = resolveNotificationPreferences(
+      await this.db.notificationPreferences.findByParentId(parent.id),
+    );
+    const decision = applyQuietHours(
+      now,
+      now,
+      this.withoutUnreachableSms(channels, parent),
+      preferences,
+      parent.timeZone,
+    );
+    if (decision.action === "defer") {
+      // Unreachable: quiet hours never end before "now"
+      return { success: false, retryable: true, deferredUntil: decision.until.toISOString() };
+    }
+
+    return this.deliverFirstAvailable(decision.channels, parent, content);
+  }
+
+  /**
+   * Try each channel in order until one succeeds; the result records the
+   * channel that delivered (or the last one tried).
+   */
+  private async deliverFirstAvailable(
+    channels: NotificationChannel[],
+    parent: Parent,
+    content: NotificationContent,
+  ): Promise<NotificationDeliveryResult> {
+    let result: NotificationDeliveryResult = {
+      success: false,
+      error: "No delivery channel available",
+    };
+    for (const channel of channels) {
+      result = { ...(await this.deliverVia(channel, parent, content)), deliveryMethod: channel };
+      if (result.success) {
+        break;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Put the channel chosen at scheduling time first when the parent still
+   * allows it, followed by their other channels as fallbacks.
+   */
+  private orderChannels(
+    requested: NotificationChannel,
+    preferred: NotificationChannel[],
+  ): NotificationChannel[] {
+    if (!preferred.includes(requested)) {
+      return preferred;
+    }
+    return [requested, ...preferred.filter((channel) => channel !== requested)];
+  }
+
+  /**
+   * Parents may keep their phone number private.  SMS can never reach them,
+   * so it is swapped for push and email, which still deliver the reminder.
+   */
+  private withoutUnreachableSms(channels: NotificationChannel[], parent: Parent): NotificationChannel[] {
+    if (parent.phone || !channels.includes("sms")) {
+      return channels;
+    }
+    const reachable = channels.filter((channel) => channel !== "sms");
+    for (const fallback of ["push", "email"] as const) {
+      if (!reachable.includes(fallback)) {
+        reachable.push(fallback);
+      }
+    }
+    return reachable;
+  }
+
+  /**
+   * Deliver through a single channel.
+   */
+  private async deliverVia(
+    channel: NotificationChannel,
+    parent: Parent,
+    content: NotificationContent,
+  ): Promise<NotificationDeliveryResult> {
+    switch (channel) {
+      case "sms":
+        return this.deliverSms(parent, content);
+      case "email":
+        return this.deliverEmail(parent, content);
+      case "push":
+        return this.deliverPush(parent, content);
+      default:
+        return {
+          success: false,
+          error: `Unsupported delivery method: ${channel as string}`,
+          retryable: false,
+        };
+    }
+  }
+
   /**
    * Generate notification content based on type.
    */
-  private generateNotificationContent(request: NotificationDeliveryRequest): {
+  private generateNotificationContent(request: NotificationDeliveryRequest, timeZone: string): {
     subject?: string;
     body: string;
   } {
@@ -115,7 +273,7 @@ export class NotificationDeliveryService {
       weekday: "long",
       hour: "numeric",
       minute: "2-digit",
-      timeZone: "UTC", // Should use parent's timezone
+      timeZone,
     });
 
     let locationText = "";
@@ -235,33 +393,97 @@ export class NotificationDeliveryService {
   }
 
   /**
-   * Deliver push notification.
-   * Note: Push notifications require additional setup with FCM/APNs.
+   * Deliver push notification to every browser the parent subscribed.
+   * Subscriptions the push service reports as gone are removed; other
+   * failures are retryable, so the usual retry backoff applies.
    */
-  private async deliverPush(): Promise<NotificationDeliveryResult> {
-    // Push notification delivery not yet implemented
-    // This would require FCM token storage and Firebase/APNs integration
+  private async deliverPush(
+    parent: Parent,
+    content: NotificationContent,
+  ): Promise<NotificationDeliveryResult> {
+    const subscriptions = await this.db.pushSubscriptions.findByParentId(parent.id);
+    if (subscriptions.length === 0) {
+      return {
+        success: false,
+        error: "Parent has no push subscriptions",
+      };
+    }
+
+    let delivered = false;
+    let messageId: string | undefined;
+    let lastError: string | undefined;
+    let retryable = false;
+    for (const subscription of subscriptions) {
+      try {
+        const result = await this.pushProvider.send({
+          subscription: {
+            endpoint: subscription.endpoint,
+            keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+          },
+          payload: {
+            title: content.subject || "Custody Transition Notification",
+            body: content.body,
+            url: content.url ?? "/calendar",
+            tag: content.tag ?? "custody-transition",
+          },
+          urgency: "high",
+        });
+
+        if (result.success) {
+          delivered = true;
+          messageId ??= result.messageId;
+          await this.db.pushSubscriptions.markUsed(subscription.id);
+        } else if (result.expired) {
+          await this.db.pushSubscriptions.deleteByEndpoint(subscription.endpoint);
+          logEvent("info", "Removed expired push subscription", {
+            parentId: parent.id,
+            subscriptionId: subscription.id,
+            statusCode: result.statusCode,
+          });
+          lastError = result.error;
+        } else {
+          lastError = result.error;
+          retryable = true;
+        }
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : "Push delivery failed";
+        retryable = true;
+      }
+    }
+
+    if (delivered) {
+      return { success: true, messageId };
+    }
     return {
       success: false,
-      error: "Push notifications not yet implemented",
+      error: lastError,
+      retryable,
     };
   }
 
   /**
-   * Get parent by ID.
+   * Get parent by ID, with the timezone their quiet hours and message times
+   * use: their own, else the family's.
    */
-  private async getParentById(parentId: string): Promise<Parent | null> {
+  private async getParentById(parentId: string): Promise<(Parent & { timeZone: string }) | null> {
     const parent = await this.db.parents.findById(parentId);
     if (!parent) {
       return null;
     }
 
+    let timeZone = parent.timezone;
+    if (!timeZone) {
+      const family = await this.db.families.findById(parent.familyId);
+      timeZone = family?.timezone ?? "UTC";
+    }
+
     return {
       id: parent.id,
       name: parent.name,
       email: parent.email,
       avatarUrl: parent.avatarUrl ?? undefined,
       phone: parent.phone ?? undefined,
+      timeZone,
     };
   }
 
@@ -273,6 +495,7 @@ export class NotificationDeliveryService {
     success: boolean,
     messageId?: string,
     error?: string,
+    deliveryMethod?: NotificationChannel,
   ): Promise<void> {
     let sentAt: string | undefined;
     let deliveryStatus: "sent" | "failed";
@@ -291,6 +514,7 @@ export class NotificationDeliveryService {
     await this.db.scheduledNotifications.update(notificationId, {
       sentAt,
       deliveryStatus,
+      deliveryMethod,
       messageId,
       errorMessage,
     });
@@ -383,6 +607,8 @@ export class NotificationDeliveryService {
  *
  * Uses CustodyEngine to determine real parent-to-parent transitions
  * from the family's custody schedule, eliminating hardcoded parent IDs.
+ * Each recipient's notification preferences pick which alerts are sent,
+ * how far ahead, over which channel, and around which quiet hours.
  */
 
 import type { ScheduleTransition } from "@/lib";
@@ -391,9 +617,9 @@ export interface ScheduledNotification {
   id: string;
   familyId: string;
   parentId: string;
-  notificationType: "transition_24h" | "transition_same_day" | "transition_reminder";
+  notificationType: ScheduledNotificationType;
   scheduledAt: string;
-  deliveryMethod: "sms" | "email" | "push";
+  deliveryMethod: NotificationChannel;
   transitionAt: string;
   fromParentId: string;
   toParentId: string;
@@ -406,7 +632,10 @@ export interface NotificationScheduleInput {
   /** Transitions from CustodyEngine.getUpcomingTransitions() - source of truth */
   transitions: ScheduleTransition[];
   now: Date;
+  /** Family timezone; quiet hours use the parent's own timezone when set */
   timeZone?: string;
+  /** Stored preferences of the family's parents; parents without a row get the defaults */
+  preferences?: DbNotificationPreference[];
 }
 
 export interface NotificationScheduleResult {
@@ -421,12 +650,28 @@ interface TransitionInfo {
   toParentId: string;
 }
 
+/**
+ * Who each alert is for, and the suffix of its notification ID.  The
+ * receiving parent gets the advance alert and the final reminder; the
+ * parent handing off gets the same-day alert.
+ */
+const NOTIFICATION_KINDS: ReadonlyArray<{
+  type: ScheduledNotificationType;
+  recipient: "fromParent" | "toParent";
+  idSuffix: string;
+}> = [
+  { type: "transition_24h", recipient: "toParent", idSuffix: "24h" },
+  { type: "transition_same_day", recipient: "fromParent", idSuffix: "same_day" },
+  { type: "transition_reminder", recipient: "toParent", idSuffix: "reminder" },
+];
+
 export class NotificationSchedulerEngine {
 
   /**
    * Generate scheduled notifications for upcoming custody transitions.
-   * Creates 24h advance alerts and same-day notifications based on real
-   * custody transitions from CustodyEngine.
+   * Creates 24h advance alerts, same-day notifications and final reminders
+   * based on real custody transitions from CustodyEngine, as allowed by
+   * each recipient's preferences.
    */
   scheduleNotifications(input: NotificationScheduleInput): NotificationScheduleResult {
     const { familyId, transitions, now } = input;
@@ -439,25 +684,29 @@ export class NotificationSchedulerEngine {
       toParentId: transition.toParent.id,
     }));
 
+    const storedPreferences = new Map((input.preferences ?? []).map(p => [p.parentId, p]));
+    const preferencesFor = (parentId: string) =>
+      resolveNotificationPreferences(storedPreferences.get(parentId));
+    const timeZoneFor = (parentId: string) =>
+      input.parents.find(p => p.id === parentId)?.timezone ?? input.timeZone ?? "UTC";
+
     const notifications: ScheduledNotification[] = [];
 
     for (const transition of transitionInfos) {
-      // Create 24-hour advance notification
-      const advanceNotification = this.createAdvanceNotification(transition, now);
-      if (advanceNotification) {
-        notifications.push(advanceNotification);
-      }
-
-      // Create same-day notification (2 hours before transition)
-      const sameDayNotification = this.createSameDayNotification(transition, now);
-      if (sameDayNotification) {
-        notifications.push(sameDayNotification);
-      }
-
-      // Create reminder notification (15 minutes before transition)
-      const reminderNotification = this.createReminderNotification(transition, now);
-      if (reminderNotification) {
-        notifications.push(reminderNotification);
+      for (const kind of NOTIFICATION_KINDS) {
+        const parentId = kind.recipient === "toParent" ? transition.toParentId : transition.fromParentId;
+        const notification = this.createNotification(
+          transition,
+          kind.type,
+          kind.idSuffix,
+          parentId,
+          preferencesFor(parentId),
+          timeZoneFor(parentId),
+          now,
+        );
+        if (notification) {
+          notifications.push(notification);
+        }
       }
     }
 
@@ -468,84 +717,52 @@ export class NotificationSchedulerEngine {
   }
 
   /**
-   * Create 24-hour advance notification for a transition.
-   * Notifies the receiving parent 24 hours before the transition.
+   * Create one alert for a transition, `leadMinutes` ahead of it.  Alerts
+   * the parent turned off, or whose send time has already passed, are
+   * skipped; ones landing in quiet hours are deferred or rerouted.
    */
-  private createAdvanceNotification(
+  private createNotification(
     transition: TransitionInfo,
+    type: ScheduledNotificationType,
+    idSuffix: string,
+    parentId: string,
+    preferences: NotificationPreferences,
+    timeZone: string,
     now: Date,
   ): ScheduledNotification | null {
-    const advanceTime = new Date(transition.transitionAt.getTime() - 24 * 60 * 60 * 1000);
-
-    // Only create if advance time is in the future
-    if (advanceTime <= now) {
+    const typePreference = preferences.types[type];
+    if (!typePreference.enabled) {
       return null;
     }
 
-    return {
-      id: this.generateNotificationId(transition, "24h"),
-      familyId: transition.familyId,
-      parentId: transition.toParentId, // Notify the receiving parent
-      notificationType: "transition_24h",
-      scheduledAt: advanceTime.toISOString(),
-      deliveryMethod: "sms", // Default to SMS, can be configured per parent
-      transitionAt: transition.transitionAt.toISOString(),
-      fromParentId: transition.fromParentId,
-      toParentId: transition.toParentId,
-    };
-  }
+    let scheduledAt = new Date(transition.transitionAt.getTime() - typePreference.leadMinutes * 60 * 1000);
 
-  /**
-   * Create same-day notification for a transition (2 hours before).
-   * Notifies the sending parent 2 hours before the transition.
-   */
-  private createSameDayNotification(
-    transition: TransitionInfo,
-    now: Date,
-  ): ScheduledNotification | null {
-    const sameDayTime = new Date(transition.transitionAt.getTime() - 2 * 60 * 60 * 1000);
-
-    // Only create if same-day time is in the future
-    if (sameDayTime <= now) {
+    // Only create if the send time is in the future
+    if (scheduledAt <= now) {
       return null;
     }
 
-    return {
-      id: this.generateNotificationId(transition, "same_day"),
-      familyId: transition.familyId,
-      parentId: transition.fromParentId, // Notify the sending parent
-      notificationType: "transition_same_day",
-      scheduledAt: sameDayTime.toISOString(),
-      deliveryMethod: "sms",
-      transitionAt: transition.transitionAt.toISOString(),
-      fromParentId: transition.fromParentId,
-      toParentId: transition.toParentId,
-    };
-  }
-
-  /**
-   * Create reminder notification for a transition (15 minutes before).
-   * Notifies the receiving parent 15 minutes before the transition.
-   */
-  private createReminderNotification(
-    transition: TransitionInfo,
-    now: Date,
-  ): ScheduledNotification | null {
-    const REMINDER_MINUTES_BEFORE = 15;
-    const reminderTime = new Date(transition.transitionAt.getTime() - REMINDER_MINUTES_BEFORE * 60 * 1000);
-
-    // Only create if reminder time is in the future
-    if (reminderTime <= now) {
-      return null;
+    let deliveryMethod = typePreference.channels[0];
+    const decision = applyQuietHours(
+      scheduledAt,
+      transition.transitionAt,
+      typePreference.channels,
+      preferences,
+      timeZone,
+    );
+    if (decision.action === "defer") {
+      scheduledAt = decision.until;
+    } else {
+      deliveryMethod = decision.channels[0];
     }
 
     return {
-      id: this.generateNotificationId(transition, "reminder"),
+      id: this.generateNotificationId(transition, idSuffix),
       familyId: transition.familyId,
-      parentId: transition.toParentId, // Notify the receiving parent
-      notificationType: "transition_reminder",
-      scheduledAt: reminderTime.toISOString(),
-      deliveryMethod: "push", // Use push for reminders
+      parentId,
+      notificationType: type,
+      scheduledAt: scheduledAt.toISOString(),
+      deliveryMethod,
       transitionAt: transition.transitionAt.toISOString(),
       fromParentId: transition.fromParentId,
       toParentId: transition.toParentId,
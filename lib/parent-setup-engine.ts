@@ -9,6 +9,7 @@
  */
 
 import { db } from "@/lib/persistence";
+import { DEFAULT_FAMILY_TIMEZONE } from "@/lib/custody";
 import type { DbParent } from "@/lib/persistence/types";
 
 export interface ParentSetupResult {
@@ -49,6 +50,7 @@ export async function ensureParentExists(userId: string): Promise<ParentSetupRes
     name: familyName,
     custodyAnchorDate: today,
     scheduleId: "",
+    timezone: DEFAULT_FAMILY_TIMEZONE,
   });
 
   // ── Create parent record linking user to family
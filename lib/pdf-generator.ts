@@ -27,6 +27,11 @@ export interface PdfGeneratorConfig {
   documentType: "custody-compliance" | "message-transcript" | "schedule";
 }
 
+export interface PdfGeneratorOptions {
+  /** Expense dispute history, one block of pre-formatted lines per dispute */
+  disputeLog?: string[][];
+}
+
 export interface PdfGenerationResult {
   buffer: Buffer;
   hash: string;
@@ -39,7 +44,8 @@ export interface PdfGenerationResult {
 export async function generateCustodyCompliancePdf(
   report: CustodyComplianceReport,
   messages: HashedMessage[],
-  config: PdfGeneratorConfig
+  config: PdfGeneratorConfig,
+  options: PdfGeneratorOptions = {}
 ): Promise<PdfGenerationResult> {
   return new Promise((resolve, reject) => {
     const doc = new PDFDocument({
@@ -77,6 +83,16 @@ export async function generateCustodyCompliancePdf(
       // Summary section
       addSummaryPage(doc, report, config);
 
+      // Recorded exchanges
+      if (report.exchanges.length > 0) {
+        addExchangeLogPage(doc, report);
+      }
+
+      // Expense disputes and their resolution
+      if (options.disputeLog && options.disputeLog.length > 0) {
+        addDisputeLogPage(doc, options.disputeLog);
+      }
+
       // Message hash pages
       for (const message of messages) {
         addMessagePage(doc, message);
@@ -169,12 +185,71 @@ function addSummaryPage(
     `Compliance Rate: ${report.summary.compliancePercentage.toFixed(1)}%`
   );
 
+  if (report.summary.totalExchanges > 0) {
+    doc.moveDown();
+    doc.fontSize(11).font("Helvetica-Bold").text("Exchanges:");
+    doc.fontSize(11).font("Helvetica").text(`Scheduled Exchanges: ${report.summary.totalExchanges}`);
+    doc.text(
+      `Late: ${report.summary.lateExchanges} ` +
+        `(average ${Math.round(report.summary.averageLatenessMinutes)} minutes late)`
+    );
+    doc.text(`Missed: ${report.summary.missedExchanges}`);
+    doc.text(`Disputed: ${report.summary.disputedExchanges}`);
+  }
+
   doc.moveDown();
 
   doc.fontSize(10).text("--- End of Summary ---");
   doc.addPage();
 }
 
+function addExchangeLogPage(doc: InstanceType<typeof PDFDocument>, report: CustodyComplianceReport): void {
+  const parentName = (id: string) => report.parents.find((p) => p.id === id)?.name ?? "Unknown";
+
+  doc.fontSize(16).font("Helvetica-Bold").text("Exchange Log");
+  doc.moveDown();
+
+  doc.fontSize(9).font("Helvetica");
+  for (const exchange of report.exchanges) {
+    let outcome: string;
+    switch (exchange.status) {
+      case "late":
+        outcome = `LATE by ${exchange.latenessMinutes} min (at ${exchange.occurredAt})`;
+        break;
+      case "missed":
+        outcome = "MISSED - no check-in recorded";
+        break;
+      case "disputed":
+        outcome = "DISPUTED by the other parent";
+        break;
+      default:
+        outcome = `On time (at ${exchange.occurredAt})`;
+    }
+    const confirmation = exchange.checkInId ? (exchange.confirmed ? ", confirmed" : ", unconfirmed") : "";
+    doc.text(
+      `${exchange.scheduledAt}  ${parentName(exchange.fromParentId)} -> ${parentName(exchange.toParentId)}: ` +
+        `${outcome}${confirmation}`
+    );
+  }
+
+  doc.addPage();
+}
+
+function addDisputeLogPage(doc: InstanceType<typeof PDFDocument>, disputeLog: string[][]): void {
+  doc.fontSize(16).font("Helvetica-Bold").text("Expense Disputes");
+  doc.moveDown();
+
+  doc.fontSize(9).font("Helvetica");
+  for (const lines of disputeLog) {
+    for (const line of lines) {
+      doc.text(line, { width: 500 });
+    }
+    doc.moveDown(0.5);
+  }
+
+  doc.addPage();
+}
+
 function addMessagePage(doc: InstanceType<typeof PDFDocument>, message: HashedMessage): void {
   doc.fontSize(12).font("Helvetica-Bold").text(`Message #${message.index}`);
 
@@ -0,0 +1,303 @@
+/**
+ * KidSchedule – PDF Text Extraction
+ *
+ * Reads the text a PDF draws, without OCR or a PDF library: content streams
+ * are inflated (FlateDecode or unfiltered) and the strings shown by the Tj,
+ * TJ, ' and " operators are decoded as single-byte WinAnsi text or UTF-16.
+ * That covers text-based receipts and invoices from point-of-sale and
+ * invoicing tools.  Scanned receipts yield no text, and fonts that need a
+ * ToUnicode map to decode (most embedded CID fonts) are not supported.
+ *
+ * Inflating is capped per stream and per file, so a small upload that
+ * decompresses to gigabytes (a "zip bomb") is cut short instead of
+ * exhausting memory.
+ */
+
+import { inflateSync } from "node:zlib";
+
+// ─── Streams ──────────────────────────────────────────────────────────────────
+
+const STREAM_START = /\bobj\b((?:(?!\bendobj\b)[\s\S])*?)\bstream(?:\r\n|\n|\r)/g;
+
+/** Largest one content stream may inflate to; larger streams are skipped */
+export const MAX_STREAM_BYTES = 4 * 1024 * 1024;
+/** Total inflated bytes read from one file before giving up on the rest */
+export const MAX_DECODED_BYTES = 16 * 1024 * 1024;
+
+/** Dictionaries of streams that never hold page text */
+function isNonTextStream(dict: string): boolean {
+  return (
+    /\/Subtype\s*\/(?!Form\b)/.test(dict) ||
+    /\/Type\s*\/(?:XRef|ObjStm|Metadata|EmbeddedFile)\b/.test(dict) ||
+    /\/Length[123]\b/.test(dict)
+  );
+}
+
+/**
+ * A stream's content (null when undecodable) and how many bytes inflating
+ * it produced.  A stream that inflates past `maxBytes` is given up on and
+ * counts as `maxBytes`.
+ */
+function decodeStream(dict: string, data: string, maxBytes: number): { content: string | null; inflated: number } {
+  const filter = /\/Filter\s*(\[[^\]]*\]|\/\w+)/.exec(dict)?.[1];
+  if (!filter) {
+    return { content: data, inflated: 0 };
+  }
+  if (filter.replace(/[[\]\s]/g, "") !== "/FlateDecode") {
+    return { content: null, inflated: 0 };
+  }
+  try {
+    const content = inflateSync(Buffer.from(data, "latin1"), { maxOutputLength: maxBytes }).toString("latin1");
+    return { content, inflated: content.length };
+  } catch (error) {
+    const tooLarge = (error as { code?: string }).code === "ERR_BUFFER_TOO_LARGE";
+    return { content: null, inflated: tooLarge ? maxBytes : 0 };
+  }
+}
+
+function* contentStreams(pdf: Buffer): Generator<string> {
+  const raw = pdf.toString("latin1");
+  STREAM_START.lastIndex = 0;
+
+  let budget = MAX_DECODED_BYTES;
+  let match: RegExpExecArray | null;
+  while (budget > 0 && (match = STREAM_START.exec(raw))) {
+    const dict = match[1];
+    const start = match.index + match[0].length;
+    const directLength = /\/Length\s+(\d+)(?!\s+\d+\s+R)/.exec(dict);
+    const end = directLength ? start + Number(directLength[1]) : raw.indexOf("endstream", start);
+    if (end < start) break;
+    STREAM_START.lastIndex = end;
+
+    if (isNonTextStream(dict)) continue;
+    const { content, inflated } = decodeStream(dict, raw.slice(start, end), Math.min(MAX_STREAM_BYTES, budget));
+    budget -= inflated;
+    if (content && /\bBT\b/.test(content)) {
+      yield content;
+    }
+  }
+}
+
+// ─── Strings ──────────────────────────────────────────────────────────────────
+
+/** WinAnsi code points that differ from Latin-1 */
+const WIN_ANSI: Record<number, string> = {
+  0x80: "€",
+  0x85: "…",
+  0x91: "‘",
+  0x92: "’",
+  0x93: "“",
+  0x94: "”",
+  0x95: "•",
+  0x96: "–",
+  0x97: "—",
+  0xa0: " ",
+};
+
+function decodeBytes(bytes: number[]): string {
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    let text = "";
+    for (let i = 2; i + 1 < bytes.length; i += 2) {
+      text += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+    }
+    return text;
+  }
+  return bytes
+    .filter((b) => b >= 0x20 || b === 0x09)
+    .map((b) => WIN_ANSI[b] ?? String.fromCharCode(b))
+    .join("");
+}
+
+const LITERAL_ESCAPES: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+
+/** Reads a literal string starting after its "("; returns the bytes and the index after ")" */
+function readLiteral(content: string, index: number): [number[], number] {
+  const bytes: number[] = [];
+  let depth = 1;
+  let i = index;
+  while (i < content.length) {
+    const ch = content[i];
+    if (ch === "\\") {
+      const next = content[i + 1];
+      if (next === undefined) break;
+      if (next in LITERAL_ESCAPES) {
+        bytes.push(LITERAL_ESCAPES[next]);
+        i += 2;
+      } else if (/[0-7]/.test(next)) {
+        const octal = /^[0-7]{1,3}/.exec(content.slice(i + 1, i + 4))![0];
+        bytes.push(parseInt(octal, 8) & 0xff);
+        i += 1 + octal.length;
+      } else if (next === "\r" || next === "\n") {
+        i += content.slice(i + 1, i + 3) === "\r\n" ? 3 : 2;
+      } else {
+        bytes.push(next.charCodeAt(0));
+        i += 2;
+      }
+      continue;
+    }
+    if (ch === "(") depth++;
+    if (ch === ")" && --depth === 0) {
+      return [bytes, i + 1];
+    }
+    bytes.push(ch.charCodeAt(0));
+    i++;
+  }
+  return [bytes, i];
+}
+
+function readHex(content: string, index: number): [number[], number] {
+  const end = content.indexOf(">", index);
+  const close = end === -1 ? content.length : end;
+  let hex = content.slice(index, close).replace(/[^0-9a-fA-F]/g, "");
+  if (hex.length % 2 === 1) hex += "0";
+  const bytes: number[] = [];
+  for (let i = 0; i < hex.length; i += 2) {
+    bytes.push(parseInt(hex.slice(i, i + 2), 16));
+  }
+  return [bytes, close + 1];
+}
+
+// ─── Content Operators ────────────────────────────────────────────────────────
+
+type Operand = number | string | { text: string } | Operand[];
+
+const DELIMITERS = "()<>[]{}/%";
+
+function isWhitespace(ch: string): boolean {
+  return ch === " " || ch === "\n" || ch === "\r" || ch === "\t" || ch === "\f" || ch === "\0";
+}
+
+/** Appends the text shown by one content stream to `lines` */
+function collectText(content: string, lines: string[]): void {
+  let line = "";
+  let lastY: number | null = null;
+  const stack: Operand[][] = [[]];
+  const operands = () => stack[stack.length - 1];
+
+  const newLine = () => {
+    if (line.trim()) lines.push(line);
+    line = "";
+  };
+  const show = (operand: Operand | undefined) => {
+    if (operand && typeof operand === "object" && "text" in operand) line += operand.text;
+  };
+
+  let i = 0;
+  while (i < content.length) {
+    const ch = content[i];
+    if (isWhitespace(ch)) {
+      i++;
+    } else if (ch === "%") {
+      while (i < content.length && content[i] !== "\n" && content[i] !== "\r") i++;
+    } else if (ch === "(") {
+      const [bytes, next] = readLiteral(content, i + 1);
+      operands().push({ text: decodeBytes(bytes) });
+      i = next;
+    } else if (ch === "<" && content[i + 1] === "<") {
+      i += 2;
+    } else if (ch === ">" && content[i + 1] === ">") {
+      i += 2;
+    } else if (ch === "<") {
+      const [bytes, next] = readHex(content, i + 1);
+      operands().push({ text: decodeBytes(bytes) });
+      i = next;
+    } else if (ch === "[") {
+      stack.push([]);
+      i++;
+    } else if (ch === "]") {
+      const array = stack.length > 1 ? stack.pop()! : [];
+      operands().push(array);
+      i++;
+    } else if (ch === "/") {
+      let end = i + 1;
+      while (end < content.length && !isWhitespace(content[end]) && !DELIMITERS.includes(content[end])) end++;
+      operands().push(content.slice(i, end));
+      i = end;
+    } else {
+      let end = i;
+      while (end < content.length && !isWhitespace(content[end]) && !DELIMITERS.includes(content[end])) end++;
+      if (end === i) {
+        i++;
+        continue;
+      }
+      const token = content.slice(i, end);
+      i = end;
+
+      if (/^[+-]?(?:\d+\.?\d*|\.\d+)$/.test(token)) {
+        operands().push(Number(token));
+        continue;
+      }
+
+      const args = operands();
+      switch (token) {
+        case "Tj":
+          show(args[args.length - 1]);
+          break;
+        case "TJ": {
+          const array = args[args.length - 1];
+          if (Array.isArray(array)) {
+            for (const item of array) {
+              // Large negative adjustments are gaps between words
+              if (typeof item === "number" && item < -200) line += " ";
+              else show(item);
+            }
+          }
+          break;
+        }
+        case "'":
+        case '"':
+          newLine();
+          show(args[args.length - 1]);
+          break;
+        case "T*":
+        case "ET":
+          newLine();
+          break;
+        case "Td":
+        case "TD": {
+          const ty = args[args.length - 1];
+          if (typeof ty === "number" && ty !== 0) newLine();
+          else if (line) line += " ";
+          break;
+        }
+        case "Tm": {
+          const y = args[args.length - 1];
+          if (typeof y === "number" && y !== lastY) {
+            newLine();
+            lastY = y;
+          } else if (line) {
+            line += " ";
+          }
+          break;
+        }
+        case "ID": {
+          // Inline image data runs to EI
+          const end = content.indexOf("EI", i);
+          i = end === -1 ? content.length : end + 2;
+          break;
+        }
+      }
+      stack.length = 1;
+      stack[0] = [];
+    }
+  }
+  newLine();
+}
+
+/**
+ * The text of a PDF, one line per line of text drawn, in drawing order.
+ * Returns an empty string for PDFs without decodable text.
+ */
+export function extractPdfText(pdf: Buffer): string {
+  if (pdf.subarray(0, 5).toString("latin1") !== "%PDF-") {
+    return "";
+  }
+  const lines: string[] = [];
+  for (const content of contentStreams(pdf)) {
+    collectText(content, lines);
+  }
+  return lines
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
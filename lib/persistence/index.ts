@@ -9,11 +9,13 @@
  *   const user = await db.users.findByEmail(\"user@example.com\");
  *
  * The persistence layer uses PostgreSQL in production via postgres.js.
+ * Set DB_DRIVER=memory to run against the in-memory UnitOfWork instead.
  * @internal Server-only module – should not be imported in client components.
  */
 
 import type { UnitOfWork } from "./repositories";
-import { createPostgresUnitOfWork, checkDatabaseConnection } from "./postgres";
+import { createPostgresUnitOfWork, checkDatabaseConnection, withTransaction } from "./postgres";
+import { createMemoryUnitOfWork, isMemoryUnitOfWork } from "./memory";
 
 // ─── Database Instance ────────────────────────────────────────────────────────
 
@@ -25,11 +27,12 @@ let _dbInstance: UnitOfWork | null = null;
 
 /**
  * Returns the database unit of work instance.
- * Initializes with PostgreSQL on first call.
+ * Initializes on first call: in-memory when DB_DRIVER=memory, otherwise PostgreSQL.
  */
 export function getDb(): UnitOfWork {
   if (!_dbInstance) {
-    _dbInstance = createPostgresUnitOfWork();
+    _dbInstance =
+      process.env.DB_DRIVER === "memory" ? createMemoryUnitOfWork() : createPostgresUnitOfWork();
   }
   return _dbInstance;
 }
@@ -47,9 +50,34 @@ export async function initDb(uow: UnitOfWork): Promise<void> {
  * Returns true if connected, false otherwise.
  */
 export async function checkConnection(): Promise<boolean> {
+  if (isMemoryUnitOfWork(getDb())) {
+    return true;
+  }
   return await checkDatabaseConnection();
 }
 
+/**
+ * Runs `fn` in a transaction against whichever backend getDb() uses.
+ * Everything written through the provided UnitOfWork is rolled back if
+ * `fn` throws.
+ */
+export async function runInTransaction<T>(fn: (uow: UnitOfWork) => Promise<T>): Promise<T> {
+  const current = getDb();
+  if (!isMemoryUnitOfWork(current)) {
+    return withTransaction((tx) => fn(createPostgresUnitOfWork(tx)));
+  }
+
+  await current.beginTransaction();
+  try {
+    const result = await fn(current);
+    await current.commit();
+    return result;
+  } catch (error) {
+    await current.rollback();
+    throw error;
+  }
+}
+
 /**
  * Shorthand export for convenience.
  * Usage: import { db } from "@/lib/persistence";
@@ -77,3 +105,12 @@ export function _test_resetDbInstance(): void {
 export * from "./types";
 export * from "./repositories";
 export { withTransaction, createPostgresUnitOfWork } from "./postgres";
+export {
+  createMemoryUnitOfWork,
+  isMemoryUnitOfWork,
+  seedReferenceData,
+  MemoryStore,
+  UniqueViolationError,
+  CheckViolationError,
+} from "./memory";
+export type { MemoryUnitOfWork, MemoryStoreOptions } from "./memory";
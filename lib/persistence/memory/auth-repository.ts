@@ -0,0 +1,532 @@
+/**
+ * KidSchedule – In-Memory Auth Repositories
+ *
+ * Users, sessions, password resets, phone verifications, MFA factors,
+ * recovery codes and challenges, audit logs and rate limits.
+ */
+
+import type {
+  AuditLogRepository,
+  MfaChallengeRepository,
+  MfaFactorRepository,
+  MfaRecoveryCodeRepository,
+  PasswordResetRepository,
+  PhoneVerificationRepository,
+  RateLimitRepository,
+  SessionRepository,
+  UserRepository,
+  UserUpdateInput,
+} from "../repositories";
+import type {
+  AuditAction,
+  DbAuditLog,
+  DbMfaChallenge,
+  DbMfaFactor,
+  DbMfaRecoveryCode,
+  DbPasswordResetRequest,
+  DbPhoneVerification,
+  DbRateLimit,
+  DbSession,
+  DbUser,
+} from "../types";
+import { compact, ms, newId, orderBy, page, UniqueViolationError, type MemoryStore } from "./store";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ─── Users ────────────────────────────────────────────────────────────────────
+
+export function createMemoryUserRepository(store: MemoryStore): UserRepository {
+  const users = store.table<DbUser>("users");
+
+  function assertEmailFree(email: string, exceptId?: string): void {
+    if (users.find((u) => u.email === email && u.id !== exceptId)) {
+      throw new UniqueViolationError("users_email_key");
+    }
+  }
+
+  function touch(id: string, change: (user: DbUser) => DbUser): boolean {
+    return users.update(id, (user) => ({ ...change(user), updatedAt: store.nowIso() })) !== null;
+  }
+
+  return {
+    async findById(id) {
+      return users.get(id);
+    },
+
+    async findByEmail(email) {
+      const normalized = email.toLowerCase().trim();
+      return users.find((u) => u.email === normalized);
+    },
+
+    async create(user) {
+      const email = user.email.toLowerCase().trim();
+      assertEmailFree(email);
+      const now = store.nowIso();
+      return users.insert(
+        compact<DbUser>({
+          id: newId(),
+          email,
+          emailVerified: user.emailVerified,
+          passwordHash: user.passwordHash,
+          fullName: user.fullName,
+          phone: user.phone,
+          phoneVerified: user.phoneVerified,
+          isDisabled: user.isDisabled,
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+    },
+
+    async update(id: string, data: UserUpdateInput) {
+      const fields: Partial<DbUser> = {};
+      if (data.email !== undefined) fields.email = data.email.toLowerCase().trim();
+      if (data.emailVerified !== undefined) fields.emailVerified = data.emailVerified;
+      if (data.emailVerifiedAt !== undefined) fields.emailVerifiedAt = data.emailVerifiedAt || undefined;
+      if (data.fullName !== undefined) fields.fullName = data.fullName;
+      if (data.phone !== undefined) {
+        fields.phone = data.phone && data.phone.trim().length > 0 ? data.phone : undefined;
+      }
+      if (data.phoneVerified !== undefined) fields.phoneVerified = data.phoneVerified;
+      if (data.phoneVerifiedAt !== undefined) fields.phoneVerifiedAt = data.phoneVerifiedAt || undefined;
+      if (data.lastLoginAt !== undefined) fields.lastLoginAt = data.lastLoginAt || undefined;
+      if (data.lastLoginIp !== undefined) fields.lastLoginIp = data.lastLoginIp;
+
+      if (Object.keys(fields).length === 0) {
+        return users.get(id);
+      }
+      if (typeof fields.email === "string") {
+        assertEmailFree(fields.email, id);
+      }
+      return users.update(id, (user) => compact({ ...user, ...fields, updatedAt: store.nowIso() }));
+    },
+
+    async updatePassword(id, passwordHash) {
+      return touch(id, (user) => ({ ...user, passwordHash }));
+    },
+
+    async markEmailVerified(id) {
+      return touch(id, (user) => ({ ...user, emailVerified: true, emailVerifiedAt: store.nowIso() }));
+    },
+
+    async markPhoneVerified(id, phone) {
+      return touch(id, (user) => ({ ...user, phone, phoneVerified: true, phoneVerifiedAt: store.nowIso() }));
+    },
+
+    async disable(id, reason) {
+      return touch(id, (user) =>
+        compact({ ...user, isDisabled: true, disabledAt: store.nowIso(), disabledReason: reason })
+      );
+    },
+  };
+}
+
+// ─── Sessions ─────────────────────────────────────────────────────────────────
+
+export function createMemorySessionRepository(store: MemoryStore): SessionRepository {
+  const sessions = store.table<DbSession>("sessions");
+  const isLive = (s: DbSession) => !s.isRevoked && ms(s.expiresAt) > store.now().getTime();
+
+  function revokeWhere(predicate: (s: DbSession) => boolean, reason?: string): number {
+    return sessions.updateWhere(predicate, (s) =>
+      compact({ ...s, isRevoked: true, revokedAt: store.nowIso(), revokeReason: reason })
+    ).length;
+  }
+
+  return {
+    async findById(id) {
+      return sessions.get(id);
+    },
+
+    async findByRefreshTokenHash(hash) {
+      return sessions.find((s) => s.refreshTokenHash === hash && isLive(s));
+    },
+
+    async findActiveByUserId(userId) {
+      return orderBy(
+        sessions.filter((s) => s.userId === userId && isLive(s)),
+        [(s) => s.createdAt, "desc"]
+      );
+    },
+
+    async create(session) {
+      return sessions.insert(
+        compact<DbSession>({
+          id: newId(),
+          userId: session.userId,
+          refreshTokenHash: session.refreshTokenHash,
+          createdAt: store.nowIso(),
+          expiresAt: new Date(session.expiresAt).toISOString(),
+          ip: session.ip,
+          userAgent: session.userAgent,
+          isRevoked: false,
+        })
+      );
+    },
+
+    async rotate(id, newRefreshTokenHash, newExpiresAt) {
+      const current = sessions.get(id);
+      if (!current || current.isRevoked) return null;
+      return sessions.update(id, (s) => ({
+        ...s,
+        refreshTokenHash: newRefreshTokenHash,
+        expiresAt: new Date(newExpiresAt).toISOString(),
+        rotatedAt: store.nowIso(),
+      }));
+    },
+
+    async revoke(id, reason) {
+      return revokeWhere((s) => s.id === id, reason) > 0;
+    },
+
+    async revokeAllForUser(userId, reason) {
+      return revokeWhere((s) => s.userId === userId && !s.isRevoked, reason);
+    },
+
+    async deleteExpired() {
+      const now = store.now().getTime();
+      return sessions.deleteWhere(
+        (s) =>
+          ms(s.expiresAt) < now - 30 * MS_PER_DAY ||
+          (s.isRevoked && ms(s.revokedAt) < now - 7 * MS_PER_DAY)
+      );
+    },
+  };
+}
+
+// ─── Password Resets ──────────────────────────────────────────────────────────
+
+export function createMemoryPasswordResetRepository(store: MemoryStore): PasswordResetRepository {
+  const resets = store.table<DbPasswordResetRequest>("password_reset_tokens");
+
+  return {
+    async findById(id) {
+      return resets.get(id);
+    },
+
+    async findByTokenHash(hash) {
+      const now = store.now().getTime();
+      return resets.find((r) => r.tokenHash === hash && !r.usedAt && ms(r.expiresAt) > now);
+    },
+
+    async findByEmail(email) {
+      const normalized = email.toLowerCase();
+      return orderBy(
+        resets.filter((r) => r.email === normalized),
+        [(r) => r.requestedAt, "desc"]
+      );
+    },
+
+    async create(request) {
+      return resets.insert(
+        compact<DbPasswordResetRequest>({
+          id: newId(),
+          email: request.email.toLowerCase(),
+          tokenHash: request.tokenHash,
+          requestedAt: store.nowIso(),
+          expiresAt: new Date(request.expiresAt).toISOString(),
+          ip: request.ip,
+          userAgent: request.userAgent,
+        })
+      );
+    },
+
+    async markUsed(id) {
+      return resets.update(id, (r) => ({ ...r, usedAt: store.nowIso() })) !== null;
+    },
+
+    async deleteExpired() {
+      const cutoff = store.now().getTime() - 7 * MS_PER_DAY;
+      return resets.deleteWhere((r) => ms(r.expiresAt) < cutoff);
+    },
+
+    async countRecentByEmail(email, windowMs) {
+      const normalized = email.toLowerCase();
+      const since = store.now().getTime() - windowMs;
+      return resets.count((r) => r.email === normalized && ms(r.requestedAt) > since);
+    },
+  };
+}
+
+// ─── Phone Verifications ──────────────────────────────────────────────────────
+
+export function createMemoryPhoneVerificationRepository(store: MemoryStore): PhoneVerificationRepository {
+  const verifications = store.table<DbPhoneVerification>("phone_verifications");
+
+  function latestPending(predicate: (v: DbPhoneVerification) => boolean): DbPhoneVerification | null {
+    const now = store.now().getTime();
+    const pending = verifications.filter((v) => predicate(v) && !v.verifiedAt && ms(v.expiresAt) > now);
+    return orderBy(pending, [(v) => v.requestedAt, "desc"])[0] ?? null;
+  }
+
+  return {
+    async findById(id) {
+      return verifications.get(id);
+    },
+
+    async findByUserId(userId) {
+      return latestPending((v) => v.userId === userId);
+    },
+
+    async findByPhone(phone) {
+      return latestPending((v) => v.phone === phone);
+    },
+
+    async create(verification) {
+      return verifications.insert(
+        compact<DbPhoneVerification>({
+          id: newId(),
+          userId: verification.userId,
+          phone: verification.phone,
+          otpHash: verification.otpHash,
+          requestedAt: store.nowIso(),
+          expiresAt: new Date(verification.expiresAt).toISOString(),
+          attemptCount: 0,
+          ip: verification.ip,
+          userAgent: verification.userAgent,
+        })
+      );
+    },
+
+    async incrementAttempts(id) {
+      return verifications.update(id, (v) => ({ ...v, attemptCount: v.attemptCount + 1 }));
+    },
+
+    async markVerified(id) {
+      return verifications.update(id, (v) => ({ ...v, verifiedAt: store.nowIso() })) !== null;
+    },
+
+    async deleteExpired() {
+      const cutoff = store.now().getTime() - MS_PER_DAY;
+      return verifications.deleteWhere((v) => ms(v.expiresAt) < cutoff);
+    },
+  };
+}
+
+// ─── MFA Factors ──────────────────────────────────────────────────────────────
+
+export function createMemoryMfaFactorRepository(store: MemoryStore): MfaFactorRepository {
+  const factors = store.table<DbMfaFactor>("mfa_factors");
+
+  return {
+    async findById(id) {
+      return factors.get(id);
+    },
+
+    async findByUserId(userId) {
+      return orderBy(factors.filter((f) => f.userId === userId), [(f) => f.createdAt, "asc"]);
+    },
+
+    async findConfirmedByUserId(userId) {
+      return orderBy(
+        factors.filter((f) => f.userId === userId && Boolean(f.confirmedAt)),
+        [(f) => f.createdAt, "asc"]
+      );
+    },
+
+    async findByCredentialId(credentialId) {
+      return factors.find((f) => f.credentialId === credentialId);
+    },
+
+    async create(factor) {
+      if (factor.credentialId && factors.find((f) => f.credentialId === factor.credentialId)) {
+        throw new UniqueViolationError("idx_mfa_factors_credential_id");
+      }
+      return factors.insert(
+        compact<DbMfaFactor>({
+          id: newId(),
+          userId: factor.userId,
+          type: factor.type,
+          label: factor.label,
+          totpSecretEncrypted: factor.totpSecretEncrypted,
+          credentialId: factor.credentialId,
+          publicKey: factor.publicKey,
+          signCount: factor.signCount,
+          transports: factor.transports,
+          confirmedAt: factor.confirmedAt,
+          createdAt: store.nowIso(),
+        })
+      );
+    },
+
+    async confirm(id) {
+      return factors.update(id, (f) => ({ ...f, confirmedAt: f.confirmedAt ?? store.nowIso() }));
+    },
+
+    async recordTotpUse(id, step) {
+      const factor = factors.get(id);
+      if (!factor || (factor.totpLastUsedStep !== undefined && factor.totpLastUsedStep >= step)) {
+        return false;
+      }
+      factors.update(id, (f) => ({ ...f, totpLastUsedStep: step, lastUsedAt: store.nowIso() }));
+      return true;
+    },
+
+    async recordWebAuthnUse(id, signCount) {
+      factors.update(id, (f) => ({ ...f, signCount, lastUsedAt: store.nowIso() }));
+    },
+
+    async delete(id, userId) {
+      return factors.deleteWhere((f) => f.id === id && f.userId === userId) > 0;
+    },
+
+    async deleteUnconfirmed(userId) {
+      return factors.deleteWhere((f) => f.userId === userId && !f.confirmedAt);
+    },
+  };
+}
+
+// ─── MFA Recovery Codes ───────────────────────────────────────────────────────
+
+export function createMemoryMfaRecoveryCodeRepository(store: MemoryStore): MfaRecoveryCodeRepository {
+  const codes = store.table<DbMfaRecoveryCode>("mfa_recovery_codes");
+
+  return {
+    async countUnusedByUserId(userId) {
+      return codes.count((c) => c.userId === userId && !c.usedAt);
+    },
+
+    async replaceForUser(userId, codeHashes) {
+      codes.deleteWhere((c) => c.userId === userId);
+      const createdAt = store.nowIso();
+      return codeHashes.map((codeHash) => codes.insert({ id: newId(), userId, codeHash, createdAt }));
+    },
+
+    async consume(userId, codeHash) {
+      const code = codes.find((c) => c.userId === userId && c.codeHash === codeHash && !c.usedAt);
+      if (!code) return false;
+      codes.update(code.id, (c) => ({ ...c, usedAt: store.nowIso() }));
+      return true;
+    },
+
+    async deleteByUserId(userId) {
+      return codes.deleteWhere((c) => c.userId === userId);
+    },
+  };
+}
+
+// ─── MFA Challenges ───────────────────────────────────────────────────────────
+
+export function createMemoryMfaChallengeRepository(store: MemoryStore): MfaChallengeRepository {
+  const challenges = store.table<DbMfaChallenge>("mfa_challenges");
+
+  return {
+    async findById(id) {
+      return challenges.get(id);
+    },
+
+    async create(challenge) {
+      return challenges.insert(
+        compact<DbMfaChallenge>({
+          id: newId(),
+          userId: challenge.userId,
+          purpose: challenge.purpose,
+          challenge: challenge.challenge,
+          rememberMe: challenge.rememberMe,
+          attemptCount: 0,
+          expiresAt: new Date(challenge.expiresAt).toISOString(),
+          createdAt: store.nowIso(),
+        })
+      );
+    },
+
+    async incrementAttempts(id) {
+      return challenges.update(id, (c) => ({ ...c, attemptCount: c.attemptCount + 1 }));
+    },
+
+    async consume(id) {
+      const challenge = challenges.get(id);
+      if (!challenge || challenge.consumedAt) return false;
+      challenges.update(id, (c) => ({ ...c, consumedAt: store.nowIso() }));
+      return true;
+    },
+
+    async deleteExpired() {
+      const cutoff = store.now().getTime() - MS_PER_DAY;
+      return challenges.deleteWhere((c) => ms(c.expiresAt) < cutoff);
+    },
+  };
+}
+
+// ─── Audit Logs ───────────────────────────────────────────────────────────────
+
+export function createMemoryAuditLogRepository(store: MemoryStore): AuditLogRepository {
+  const logs = store.table<DbAuditLog>("audit_logs");
+  const newestFirst = (rows: DbAuditLog[], limit: number) =>
+    page(orderBy(rows, [(l) => l.timestamp, "desc"]), limit);
+
+  return {
+    async create(log) {
+      return logs.insert(
+        compact<DbAuditLog>({
+          id: newId(),
+          userId: log.userId,
+          action: log.action,
+          metadata: log.metadata,
+          ip: log.ip,
+          userAgent: log.userAgent,
+          timestamp: store.nowIso(),
+        })
+      );
+    },
+
+    async findByUserId(userId, limit = 100) {
+      return newestFirst(logs.filter((l) => l.userId === userId), limit);
+    },
+
+    async findByAction(action: AuditAction, limit = 100) {
+      return newestFirst(logs.filter((l) => l.action === action), limit);
+    },
+
+    async findRecent(limit) {
+      return newestFirst(logs.all(), limit);
+    },
+  };
+}
+
+// ─── Rate Limits ──────────────────────────────────────────────────────────────
+
+export function createMemoryRateLimitRepository(store: MemoryStore): RateLimitRepository {
+  const limits = store.table<DbRateLimit>("rate_limits", (row) => row.key);
+
+  return {
+    async get(key) {
+      return limits.get(key);
+    },
+
+    async increment(key, windowMs) {
+      const now = store.now();
+      const current = limits.get(key);
+      if (!current) {
+        return limits.insert({ key, windowStartedAt: now.toISOString(), count: 1 });
+      }
+      const windowExpired = ms(current.windowStartedAt) < now.getTime() - windowMs;
+      return limits.put({
+        ...current,
+        count: windowExpired ? 1 : current.count + 1,
+        windowStartedAt: windowExpired ? now.toISOString() : current.windowStartedAt,
+      });
+    },
+
+    async setLockout(key, lockedUntil) {
+      const current = limits.get(key);
+      limits.put({
+        ...(current ?? { key, windowStartedAt: store.nowIso(), count: 0 }),
+        lockedUntil: new Date(lockedUntil).toISOString(),
+      });
+    },
+
+    async clear(key) {
+      limits.delete(key);
+    },
+
+    async clearExpired() {
+      const now = store.now().getTime();
+      return limits.deleteWhere(
+        (l) =>
+          ms(l.windowStartedAt) < now - 60 * 60 * 1000 &&
+          (!l.lockedUntil || ms(l.lockedUntil) < now)
+      );
+    },
+  };
+}
@@ -0,0 +1,455 @@
+/**
+ * KidSchedule – In-Memory Billing Repositories
+ *
+ * Stripe customers, payment methods, subscriptions, invoices, Stripe and
+ * Twilio webhook events, and plan tiers (seeded by the store).
+ */
+
+import type {
+  InvoiceRepository,
+  PaymentMethodRepository,
+  PlanTierRepository,
+  StripeCustomerRepository,
+  SubscriptionRepository,
+  TwilioWebhookEventRepository,
+  WebhookEventRepository,
+} from "../repositories";
+import { HttpError } from "../repositories";
+import type {
+  DbInvoice,
+  DbPaymentMethod,
+  DbPlanTier,
+  DbStripeCustomer,
+  DbSubscription,
+  DbTwilioWebhookEvent,
+  DbWebhookEvent,
+} from "../types";
+import { TwilioWebhookEventInputSchema } from "../types";
+import { compact, ms, newId, orderBy, page, UniqueViolationError, type MemoryStore } from "./store";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const toIso = (value: string) => new Date(value).toISOString();
+
+// ─── Stripe Customers ─────────────────────────────────────────────────────────
+
+export function createMemoryStripeCustomerRepository(store: MemoryStore): StripeCustomerRepository {
+  const customers = store.table<DbStripeCustomer>("stripe_customers");
+
+  return {
+    async findByUserId(userId) {
+      return customers.find((c) => c.userId === userId);
+    },
+
+    async findByStripeId(stripeCustomerId) {
+      return customers.find((c) => c.stripeCustomerId === stripeCustomerId);
+    },
+
+    async create(data) {
+      if (customers.find((c) => c.userId === data.userId)) {
+        throw new UniqueViolationError("idx_stripe_customers_user_id");
+      }
+      if (customers.find((c) => c.stripeCustomerId === data.stripeCustomerId)) {
+        throw new UniqueViolationError("stripe_customers_stripe_customer_id_key");
+      }
+      const now = store.nowIso();
+      return customers.insert(
+        compact<DbStripeCustomer>({
+          id: newId(),
+          userId: data.userId,
+          stripeCustomerId: data.stripeCustomerId,
+          email: data.email,
+          name: data.name || undefined,
+          currency: data.currency,
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+    },
+
+    async update(id, data) {
+      if (data.name === undefined) return customers.get(id);
+      return customers.update(id, (c) => ({ ...c, name: data.name, updatedAt: store.nowIso() }));
+    },
+  };
+}
+
+// ─── Payment Methods ──────────────────────────────────────────────────────────
+
+export function createMemoryPaymentMethodRepository(store: MemoryStore): PaymentMethodRepository {
+  const methods = store.table<DbPaymentMethod>("payment_methods");
+  const liveFor = (customerId: string) => (m: DbPaymentMethod) =>
+    m.stripeCustomerId === customerId && !m.isDeleted;
+
+  return {
+    async findByCustomer(stripeCustomerLocalId) {
+      return orderBy(
+        methods.filter(liveFor(stripeCustomerLocalId)),
+        [(m) => m.isDefault, "desc"],
+        [(m) => m.createdAt, "desc"]
+      );
+    },
+
+    async findDefault(stripeCustomerLocalId) {
+      const live = liveFor(stripeCustomerLocalId);
+      return methods.find((m) => live(m) && m.isDefault);
+    },
+
+    async findByStripeId(stripePaymentMethodId) {
+      return methods.find((m) => m.stripePaymentMethodId === stripePaymentMethodId && !m.isDeleted);
+    },
+
+    async create(data) {
+      if (methods.find((m) => m.stripePaymentMethodId === data.stripePaymentMethodId)) {
+        throw new UniqueViolationError("payment_methods_stripe_payment_method_id_key");
+      }
+      const now = store.nowIso();
+      return methods.insert(
+        compact<DbPaymentMethod>({
+          id: newId(),
+          stripeCustomerId: data.stripeCustomerId,
+          stripePaymentMethodId: data.stripePaymentMethodId,
+          type: data.type,
+          last4: data.last4,
+          brand: data.brand,
+          expMonth: data.expMonth,
+          expYear: data.expYear,
+          isDefault: data.isDefault,
+          isDeleted: data.isDeleted,
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+    },
+
+    async setDefault(id, stripeCustomerLocalId) {
+      const now = store.nowIso();
+      methods.updateWhere(
+        (m) => m.stripeCustomerId === stripeCustomerLocalId && m.isDefault,
+        (m) => ({ ...m, isDefault: false, updatedAt: now })
+      );
+      methods.updateWhere(
+        (m) => m.id === id && m.stripeCustomerId === stripeCustomerLocalId,
+        (m) => ({ ...m, isDefault: true, updatedAt: now })
+      );
+    },
+
+    async softDelete(id) {
+      const method = methods.get(id);
+      if (!method) return;
+      const now = store.nowIso();
+      methods.update(id, (m) => ({ ...m, isDeleted: true, deletedAt: now, isDefault: false, updatedAt: now }));
+
+      // Promote the oldest remaining method when the default was removed
+      if (method.isDefault) {
+        const [next] = orderBy(methods.filter(liveFor(method.stripeCustomerId)), [(m) => m.createdAt, "asc"]);
+        if (next) {
+          methods.update(next.id, (m) => ({ ...m, isDefault: true, updatedAt: now }));
+        }
+      }
+    },
+  };
+}
+
+// ─── Subscriptions ────────────────────────────────────────────────────────────
+
+export function createMemorySubscriptionRepository(store: MemoryStore): SubscriptionRepository {
+  const subscriptions = store.table<DbSubscription>("subscriptions");
+  const latest = (rows: DbSubscription[]) => orderBy(rows, [(s) => s.createdAt, "desc"])[0] ?? null;
+
+  return {
+    async findByCustomer(stripeCustomerLocalId) {
+      return latest(subscriptions.filter((s) => s.stripeCustomerId === stripeCustomerLocalId));
+    },
+
+    async findByStripeId(stripeSubscriptionId) {
+      return subscriptions.find((s) => s.stripeSubscriptionId === stripeSubscriptionId);
+    },
+
+    async findActive(stripeCustomerLocalId) {
+      return latest(
+        subscriptions.filter(
+          (s) =>
+            s.stripeCustomerId === stripeCustomerLocalId && (s.status === "active" || s.status === "trialing")
+        )
+      );
+    },
+
+    async create(data) {
+      if (subscriptions.find((s) => s.stripeSubscriptionId === data.stripeSubscriptionId)) {
+        throw new UniqueViolationError("subscriptions_stripe_subscription_id_key");
+      }
+      const now = store.nowIso();
+      return subscriptions.insert(
+        compact<DbSubscription>({
+          id: newId(),
+          stripeCustomerId: data.stripeCustomerId,
+          stripeSubscriptionId: data.stripeSubscriptionId,
+          stripePriceId: data.stripePriceId,
+          planTier: data.planTier,
+          status: data.status,
+          currentPeriodStart: toIso(data.currentPeriodStart),
+          currentPeriodEnd: toIso(data.currentPeriodEnd),
+          cancelAtPeriodEnd: data.cancelAtPeriodEnd,
+          trialStart: data.trialStart ? toIso(data.trialStart) : undefined,
+          trialEnd: data.trialEnd ? toIso(data.trialEnd) : undefined,
+          quantity: data.quantity,
+          usedStorageBytes: 0,
+          metadata: data.metadata,
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+    },
+
+    async update(id, data) {
+      // COALESCE semantics: only provided values replace stored ones
+      return subscriptions.update(id, (s) => ({
+        ...s,
+        status: data.status || s.status,
+        currentPeriodStart: data.currentPeriodStart ? toIso(data.currentPeriodStart) : s.currentPeriodStart,
+        currentPeriodEnd: data.currentPeriodEnd ? toIso(data.currentPeriodEnd) : s.currentPeriodEnd,
+        cancelAtPeriodEnd: data.cancelAtPeriodEnd ?? s.cancelAtPeriodEnd,
+        ...(data.canceledAt ? { canceledAt: toIso(data.canceledAt) } : {}),
+        updatedAt: store.nowIso(),
+      }));
+    },
+  };
+}
+
+// ─── Invoices ─────────────────────────────────────────────────────────────────
+
+export function createMemoryInvoiceRepository(store: MemoryStore): InvoiceRepository {
+  const invoices = store.table<DbInvoice>("invoices");
+  const newestFirst = (rows: DbInvoice[]) => orderBy(rows, [(i) => i.createdAt, "desc"]);
+
+  return {
+    async findByCustomer(stripeCustomerLocalId, limit = 50) {
+      return page(newestFirst(invoices.filter((i) => i.stripeCustomerId === stripeCustomerLocalId)), limit);
+    },
+
+    async findByStripeId(stripeInvoiceId) {
+      return invoices.find((i) => i.stripeInvoiceId === stripeInvoiceId);
+    },
+
+    async findBySubscription(subscriptionId) {
+      return newestFirst(invoices.filter((i) => i.subscriptionId === subscriptionId));
+    },
+
+    async findOpen(stripeCustomerLocalId) {
+      return newestFirst(
+        invoices.filter(
+          (i) => i.stripeCustomerId === stripeCustomerLocalId && (i.status === "open" || i.status === "draft")
+        )
+      );
+    },
+
+    async upsert(data) {
+      const now = store.nowIso();
+      const fields = compact({
+        status: data.status,
+        billingReason: data.billingReason,
+        subtotal: data.subtotal,
+        total: data.total,
+        amountDue: data.amountDue,
+        amountPaid: data.amountPaid,
+        amountRemaining: data.amountRemaining,
+        tax: data.tax,
+        dueDate: data.dueDate ? toIso(data.dueDate) : undefined,
+        paidAt: data.paidAt ? toIso(data.paidAt) : undefined,
+        voidedAt: data.voidedAt ? toIso(data.voidedAt) : undefined,
+        invoicePdf: data.invoicePdf,
+        hostedInvoiceUrl: data.hostedInvoiceUrl,
+        metadata: data.metadata,
+      });
+
+      // ON CONFLICT (stripe_invoice_id) keeps the customer, subscription and currency
+      const existing = invoices.find((i) => i.stripeInvoiceId === data.stripeInvoiceId);
+      if (existing) {
+        return invoices.put(
+          compact<DbInvoice>({
+            id: existing.id,
+            stripeCustomerId: existing.stripeCustomerId,
+            subscriptionId: existing.subscriptionId,
+            stripeInvoiceId: existing.stripeInvoiceId,
+            currency: existing.currency,
+            ...fields,
+            createdAt: existing.createdAt,
+            updatedAt: now,
+          })
+        );
+      }
+      return invoices.insert(
+        compact<DbInvoice>({
+          id: newId(),
+          stripeCustomerId: data.stripeCustomerId,
+          subscriptionId: data.subscriptionId,
+          stripeInvoiceId: data.stripeInvoiceId,
+          currency: data.currency,
+          ...fields,
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+    },
+  };
+}
+
+// ─── Stripe Webhook Events ────────────────────────────────────────────────────
+
+export function createMemoryWebhookEventRepository(store: MemoryStore): WebhookEventRepository {
+  const events = store.table<DbWebhookEvent>("webhook_events");
+
+  return {
+    async findByStripeEventId(stripeEventId) {
+      return events.find((e) => e.stripeEventId === stripeEventId);
+    },
+
+    async createIfNotExists(data) {
+      const existing = events.find((e) => e.stripeEventId === data.stripeEventId);
+      if (existing) {
+        return { event: existing, alreadyProcessed: !!existing.processedAt };
+      }
+      const event = events.insert(
+        compact<DbWebhookEvent>({
+          id: newId(),
+          stripeEventId: data.stripeEventId,
+          type: data.type,
+          apiVersion: data.apiVersion || undefined,
+          payload: data.payload,
+          retryCount: 0,
+          createdAt: store.nowIso(),
+        })
+      );
+      return { event, alreadyProcessed: false };
+    },
+
+    async markProcessed(id) {
+      events.update(id, (e) => ({ ...e, processedAt: store.nowIso() }));
+    },
+
+    async markFailed(id, error) {
+      events.update(id, (e) => ({ ...e, processingError: error, retryCount: e.retryCount + 1 }));
+    },
+
+    async findUnprocessed(limit = 50) {
+      return page(orderBy(events.filter((e) => !e.processedAt), [(e) => e.createdAt, "asc"]), limit);
+    },
+  };
+}
+
+// ─── Twilio Webhook Events ────────────────────────────────────────────────────
+
+export function createMemoryTwilioWebhookEventRepository(store: MemoryStore): TwilioWebhookEventRepository {
+  const events = store.table<DbTwilioWebhookEvent>("twilio_webhook_events");
+  const archive = store.table<DbTwilioWebhookEvent>("archive_twilio_webhook_events");
+  const oldestFirst = (rows: DbTwilioWebhookEvent[]) => orderBy(rows, [(e) => e.createdAt, "asc"]);
+  const cutoff = (daysOld: number) => store.now().getTime() - daysOld * MS_PER_DAY;
+
+  function mustUpdate(
+    id: string,
+    change: (event: DbTwilioWebhookEvent) => DbTwilioWebhookEvent
+  ): DbTwilioWebhookEvent {
+    const updated = events.update(id, change);
+    if (!updated) {
+      throw new HttpError(`Twilio webhook event with id ${id} not found`, 404);
+    }
+    return updated;
+  }
+
+  return {
+    async create(data) {
+      const validated = TwilioWebhookEventInputSchema.parse(data);
+      if (events.find((e) => e.messageSid === validated.messageSid)) {
+        throw new UniqueViolationError("twilio_webhook_events_message_sid_key");
+      }
+      return events.insert({
+        id: newId(),
+        messageSid: validated.messageSid,
+        phoneNumber: validated.phoneNumber,
+        eventType: validated.eventType,
+        timestamp: new Date(validated.timestamp).toISOString(),
+        payload: validated.payload,
+        processingState: "pending",
+        createdAt: store.nowIso(),
+      });
+    },
+
+    async findByMessageSid(messageSid) {
+      return events.find((e) => e.messageSid === messageSid);
+    },
+
+    async findByPhoneAndEventType(phoneNumber, eventType, timestamp) {
+      const matching = events.filter((e) => e.phoneNumber === phoneNumber && e.eventType === eventType);
+      if (timestamp) {
+        const at = ms(timestamp);
+        return matching.find((e) => ms(e.timestamp) === at) ?? null;
+      }
+      return orderBy(matching, [(e) => ms(e.timestamp), "desc"])[0] ?? null;
+    },
+
+    async markProcessing(id) {
+      const [updated] = events.updateWhere(
+        (e) => e.id === id && e.processingState === "pending",
+        (e) => ({ ...e, processingState: "processing" })
+      );
+      if (!updated) {
+        throw new HttpError(`Twilio webhook event with id ${id} not found or already processing`, 409);
+      }
+      return updated;
+    },
+
+    async markProcessed(id, processedAt) {
+      return mustUpdate(id, (e) => ({
+        ...e,
+        processedAt: processedAt ? toIso(processedAt) : store.nowIso(),
+        processingState: "processed",
+      }));
+    },
+
+    async markError(id, errorMessage) {
+      return mustUpdate(id, (e) => ({ ...e, errorMessage, processingState: "failed" }));
+    },
+
+    async findUnprocessed(limit = 50) {
+      return page(oldestFirst(events.filter((e) => !e.processedAt)), limit);
+    },
+
+    async findOlderThan(daysOld, limit = 100) {
+      const before = cutoff(daysOld);
+      return page(oldestFirst(events.filter((e) => ms(e.createdAt) < before)), limit);
+    },
+
+    async archiveOldEvents(daysOld = 90, limit = 10000) {
+      const before = cutoff(daysOld);
+      const archivable = page(
+        events.filter((e) => ms(e.createdAt) < before && e.processingState !== "processing"),
+        limit
+      );
+      for (const event of archivable) {
+        archive.put(event);
+        events.delete(event.id);
+      }
+      return archivable.length;
+    },
+  };
+}
+
+// ─── Plan Tiers ───────────────────────────────────────────────────────────────
+
+export function createMemoryPlanTierRepository(store: MemoryStore): PlanTierRepository {
+  const tiers = store.table<DbPlanTier>("plan_tiers");
+
+  return {
+    async findAll() {
+      return orderBy(
+        tiers.filter((t) => t.isActive),
+        [(t) => t.monthlyPriceCents, "asc"]
+      );
+    },
+
+    async findById(id) {
+      return tiers.get(id);
+    },
+  };
+}
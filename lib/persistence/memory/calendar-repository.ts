@@ -0,0 +1,393 @@
+/**
+ * KidSchedule – In-Memory Calendar Repositories
+ *
+ * Custody schedules and their dated versions, calendar events (with
+ * recurrence exceptions), feed tokens and per-family conflict windows.
+ */
+
+import type {
+  CalendarEventExceptionRepository,
+  CalendarEventRepository,
+  CalendarFeedTokenRepository,
+  ConflictWindowRepository,
+  CustodyScheduleRepository,
+  CustodyScheduleVersionRepository,
+} from "../repositories";
+import type {
+  DbCalendarEvent,
+  DbCalendarEventException,
+  DbCalendarFeedToken,
+  DbConflictWindow,
+  DbCustodySchedule,
+  DbCustodyScheduleVersion,
+} from "../types";
+import { compact, ms, newId, orderBy, UniqueViolationError, type MemoryStore } from "./store";
+
+const toIso = (value: string) => new Date(value).toISOString();
+
+// ─── Custody Schedules ────────────────────────────────────────────────────────
+
+export function createMemoryCustodyScheduleRepository(store: MemoryStore): CustodyScheduleRepository {
+  const schedules = store.table<DbCustodySchedule>("custody_schedules");
+
+  return {
+    async findById(id) {
+      return schedules.get(id);
+    },
+
+    async findByFamilyId(familyId) {
+      return orderBy(
+        schedules.filter((s) => s.familyId === familyId),
+        [(s) => s.createdAt, "asc"]
+      );
+    },
+
+    async findActiveByFamilyId(familyId) {
+      return schedules.find((s) => s.familyId === familyId && !s.childId && s.isActive);
+    },
+
+    async findActiveChildSchedules(familyId) {
+      return orderBy(
+        schedules.filter((s) => s.familyId === familyId && Boolean(s.childId) && s.isActive),
+        [(s) => s.createdAt, "asc"]
+      );
+    },
+
+    async create(schedule) {
+      if (
+        schedule.childId &&
+        schedule.isActive &&
+        schedules.find((s) => s.childId === schedule.childId && s.isActive)
+      ) {
+        throw new UniqueViolationError("idx_custody_schedules_active_child");
+      }
+      const now = store.nowIso();
+      return schedules.insert(compact<DbCustodySchedule>({
+        id: newId(),
+        familyId: schedule.familyId,
+        childId: schedule.childId,
+        name: schedule.name,
+        transitionHour: schedule.transitionHour,
+        blocks: schedule.blocks,
+        anchorDate: schedule.anchorDate,
+        seasons: schedule.seasons,
+        phases: schedule.phases,
+        weeklyBlocks: schedule.weeklyBlocks,
+        isActive: schedule.isActive,
+        createdAt: now,
+        updatedAt: now,
+      }));
+    },
+
+    async update(id, data) {
+      return schedules.update(id, (s) => ({
+        ...s,
+        name: data.name ?? s.name,
+        transitionHour: data.transitionHour ?? s.transitionHour,
+        blocks: data.blocks ?? s.blocks,
+        anchorDate: data.anchorDate ?? s.anchorDate,
+        seasons: data.seasons ?? s.seasons,
+        phases: data.phases ?? s.phases,
+        weeklyBlocks: data.weeklyBlocks ?? s.weeklyBlocks,
+        isActive: data.isActive ?? s.isActive,
+        updatedAt: store.nowIso(),
+      }));
+    },
+
+    async setActive(familyId, scheduleId) {
+      const target = schedules.find((s) => s.id === scheduleId && s.familyId === familyId);
+      if (!target) return false;
+      schedules.updateWhere(
+        (s) => s.familyId === familyId && s.childId === target.childId,
+        (s) => ({ ...s, isActive: false })
+      );
+      schedules.updateWhere(
+        (s) => s.id === scheduleId,
+        (s) => ({ ...s, isActive: true, updatedAt: store.nowIso() })
+      );
+      return true;
+    },
+  };
+}
+
+// ─── Custody Schedule Versions ────────────────────────────────────────────────
+
+export function createMemoryCustodyScheduleVersionRepository(store: MemoryStore): CustodyScheduleVersionRepository {
+  const versions = store.table<DbCustodyScheduleVersion>("custody_schedule_versions");
+
+  return {
+    async findById(id) {
+      return versions.get(id);
+    },
+
+    async findByFamilyId(familyId) {
+      return orderBy(
+        versions.filter((v) => v.familyId === familyId),
+        [(v) => v.createdAt, "asc"]
+      );
+    },
+
+    async findApprovedByFamilyId(familyId) {
+      return orderBy(
+        versions.filter((v) => v.familyId === familyId && v.status === "approved"),
+        [(v) => v.effectiveDate, "asc"]
+      );
+    },
+
+    async create(version) {
+      if (versions.find((v) => v.familyId === version.familyId && v.status === "pending")) {
+        throw new UniqueViolationError("idx_custody_schedule_versions_pending");
+      }
+      const now = store.nowIso();
+      return versions.insert(compact<DbCustodyScheduleVersion>({
+        id: newId(),
+        familyId: version.familyId,
+        name: version.name,
+        transitionHour: version.transitionHour,
+        blocks: version.blocks,
+        seasons: version.seasons,
+        phases: version.phases,
+        weeklyBlocks: version.weeklyBlocks,
+        anchorDate: version.anchorDate,
+        effectiveDate: version.effectiveDate,
+        reason: version.reason,
+        status: "pending",
+        proposedBy: version.proposedBy,
+        createdAt: now,
+        updatedAt: now,
+      }));
+    },
+
+    async respond(id, status, respondedBy) {
+      const target = versions.get(id);
+      if (
+        target &&
+        status === "approved" &&
+        versions.find(
+          (v) =>
+            v.familyId === target.familyId &&
+            v.status === "approved" &&
+            v.effectiveDate === target.effectiveDate
+        )
+      ) {
+        throw new UniqueViolationError("idx_custody_schedule_versions_effective");
+      }
+      const now = store.nowIso();
+      const [responded] = versions.updateWhere(
+        (v) => v.id === id && v.status === "pending",
+        (v) => ({ ...v, status, respondedBy, respondedAt: now, updatedAt: now })
+      );
+      return responded ?? null;
+    },
+  };
+}
+
+// ─── Calendar Events ──────────────────────────────────────────────────────────
+
+export function createMemoryCalendarEventRepository(store: MemoryStore): CalendarEventRepository {
+  const events = store.table<DbCalendarEvent>("calendar_events");
+  const exceptions = store.table<DbCalendarEventException>("calendar_event_exceptions");
+  const byStart = (rows: DbCalendarEvent[]) => orderBy(rows, [(e) => ms(e.startAt), "asc"]);
+
+  function assertExternalIdFree(event: Pick<DbCalendarEvent, "familyId" | "externalId">): void {
+    if (
+      event.externalId &&
+      events.find((e) => e.familyId === event.familyId && e.externalId === event.externalId)
+    ) {
+      throw new UniqueViolationError("idx_calendar_events_family_external_id");
+    }
+  }
+
+  return {
+    async findById(id) {
+      return events.get(id);
+    },
+
+    async findByFamilyId(familyId) {
+      return byStart(events.filter((e) => e.familyId === familyId));
+    },
+
+    async findByFamilyIdAndDateRange(familyId, startAt, endAt) {
+      // Recurring series are returned when any occurrence may fall in range;
+      // callers expand them with expandEventOccurrences.
+      const rangeStart = ms(startAt);
+      const rangeEnd = ms(endAt);
+      return byStart(
+        events.filter((e) => {
+          if (e.familyId !== familyId) return false;
+          const start = ms(e.startAt);
+          if (start >= rangeStart && start <= rangeEnd) return true;
+          return (
+            !!e.recurrenceRule &&
+            start <= rangeEnd &&
+            (!e.recurrenceEndAt || ms(e.recurrenceEndAt) >= rangeStart)
+          );
+        })
+      );
+    },
+
+    async create(event) {
+      assertExternalIdFree(event);
+      const now = store.nowIso();
+      return events.insert(
+        compact<DbCalendarEvent>({
+          id: newId(),
+          familyId: event.familyId,
+          title: event.title,
+          description: event.description,
+          category: event.category,
+          startAt: toIso(event.startAt),
+          endAt: toIso(event.endAt),
+          allDay: event.allDay,
+          location: event.location,
+          parentId: event.parentId,
+          confirmationStatus: event.confirmationStatus,
+          createdBy: event.createdBy,
+          externalId: event.externalId,
+          externalSource: event.externalSource,
+          recurrenceRule: event.recurrenceRule,
+          recurrenceEndAt: event.recurrenceEndAt ? toIso(event.recurrenceEndAt) : undefined,
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+    },
+
+    async update(id, data) {
+      const fields: Record<string, string | boolean | null> = {};
+      if (data.title !== undefined) fields.title = data.title;
+      if (data.description !== undefined) fields.description = data.description || null;
+      if (data.category !== undefined) fields.category = data.category;
+      if (data.startAt !== undefined) fields.startAt = toIso(data.startAt);
+      if (data.endAt !== undefined) fields.endAt = toIso(data.endAt);
+      if (data.allDay !== undefined) fields.allDay = data.allDay;
+      if (data.location !== undefined) fields.location = data.location || null;
+      if (data.parentId !== undefined) fields.parentId = data.parentId || null;
+      if (data.confirmationStatus !== undefined) fields.confirmationStatus = data.confirmationStatus;
+      if (data.recurrenceRule !== undefined) fields.recurrenceRule = data.recurrenceRule || null;
+      if (data.recurrenceEndAt !== undefined) {
+        fields.recurrenceEndAt = data.recurrenceEndAt ? toIso(data.recurrenceEndAt) : null;
+      }
+      if (Object.keys(fields).length === 0) return events.get(id);
+      return events.update(id, (e) => compact({ ...e, ...fields, updatedAt: store.nowIso() }));
+    },
+
+    async delete(id) {
+      const deleted = events.delete(id);
+      if (deleted) {
+        // ON DELETE CASCADE
+        exceptions.deleteWhere((x) => x.eventId === id);
+      }
+      return deleted;
+    },
+  };
+}
+
+// ─── Calendar Event Exceptions ────────────────────────────────────────────────
+
+export function createMemoryCalendarEventExceptionRepository(
+  store: MemoryStore
+): CalendarEventExceptionRepository {
+  const exceptions = store.table<DbCalendarEventException>("calendar_event_exceptions");
+  const byOriginalStart = (rows: DbCalendarEventException[]) =>
+    orderBy(rows, [(x) => ms(x.originalStartAt), "asc"]);
+
+  return {
+    async findByFamilyId(familyId) {
+      return byOriginalStart(exceptions.filter((x) => x.familyId === familyId));
+    },
+
+    async findByEventId(eventId) {
+      return byOriginalStart(exceptions.filter((x) => x.eventId === eventId));
+    },
+
+    async upsert(exception) {
+      const originalStartAt = toIso(exception.originalStartAt);
+      const fields = compact({
+        eventId: exception.eventId,
+        familyId: exception.familyId,
+        originalStartAt,
+        cancelled: exception.cancelled,
+        title: exception.title,
+        description: exception.description,
+        category: exception.category,
+        startAt: exception.startAt ? toIso(exception.startAt) : undefined,
+        endAt: exception.endAt ? toIso(exception.endAt) : undefined,
+        allDay: exception.allDay,
+        location: exception.location,
+        parentId: exception.parentId,
+      });
+
+      const now = store.nowIso();
+      const existing = exceptions.find(
+        (x) => x.eventId === exception.eventId && x.originalStartAt === originalStartAt
+      );
+      if (existing) {
+        return exceptions.put({ ...fields, id: existing.id, createdAt: existing.createdAt, updatedAt: now });
+      }
+      return exceptions.insert({ ...fields, id: newId(), createdAt: now, updatedAt: now });
+    },
+
+    async deleteByEventIdFrom(eventId, fromStartAt) {
+      const from = ms(fromStartAt);
+      return exceptions.deleteWhere((x) => x.eventId === eventId && ms(x.originalStartAt) >= from);
+    },
+  };
+}
+
+// ─── Calendar Feed Tokens ─────────────────────────────────────────────────────
+
+export function createMemoryCalendarFeedTokenRepository(store: MemoryStore): CalendarFeedTokenRepository {
+  const tokens = store.table<DbCalendarFeedToken>("calendar_feed_tokens");
+  const isActiveFor = (parentId: string) => (t: DbCalendarFeedToken) =>
+    t.parentId === parentId && !t.revokedAt;
+
+  return {
+    async findById(id) {
+      return tokens.get(id);
+    },
+
+    async findActiveByParentId(parentId) {
+      return orderBy(tokens.filter(isActiveFor(parentId)), [(t) => t.createdAt, "desc"])[0] ?? null;
+    },
+
+    async create(token) {
+      // Partial unique index: one active token per parent
+      if (tokens.find(isActiveFor(token.parentId))) {
+        throw new UniqueViolationError("idx_calendar_feed_tokens_parent_active");
+      }
+      return tokens.insert({
+        id: newId(),
+        familyId: token.familyId,
+        parentId: token.parentId,
+        secret: token.secret,
+        createdByUserId: token.createdByUserId,
+        createdAt: store.nowIso(),
+      });
+    },
+
+    async revokeActiveByParentId(parentId) {
+      return tokens.updateWhere(isActiveFor(parentId), (t) => ({ ...t, revokedAt: store.nowIso() }));
+    },
+
+    async markUsed(id) {
+      tokens.update(id, (t) => ({ ...t, lastUsedAt: store.nowIso() }));
+    },
+  };
+}
+
+// ─── Conflict Windows ─────────────────────────────────────────────────────────
+
+export function createMemoryConflictWindowRepository(store: MemoryStore): ConflictWindowRepository {
+  const windows = store.table<DbConflictWindow>("conflict_windows", (row) => row.familyId);
+
+  return {
+    async findByFamilyId(familyId) {
+      return windows.get(familyId);
+    },
+
+    async upsert(familyId, windowMins) {
+      return windows.put({ familyId, windowMins, updatedAt: store.nowIso() });
+    },
+  };
+}
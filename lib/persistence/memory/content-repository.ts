@@ -0,0 +1,210 @@
+/**
+ * KidSchedule – In-Memory Content Repositories
+ *
+ * Blog posts and categories (read-mostly; seeded by the store) and family
+ * moments with their reactions.
+ */
+
+import type {
+  BlogCategoryRepository,
+  BlogPostRepository,
+  MomentReactionRepository,
+  MomentRepository,
+} from "../repositories";
+import type { DbBlogCategory, DbBlogPost, DbMoment, DbMomentReaction } from "../types";
+import { compact, newId, orderBy, page, UniqueViolationError, type MemoryStore } from "./store";
+
+// ─── Blog Posts ───────────────────────────────────────────────────────────────
+
+export function createMemoryBlogPostRepository(store: MemoryStore): BlogPostRepository {
+  const posts = store.table<DbBlogPost>("blog_posts");
+
+  function bump(id: string, field: "viewCount" | "shareCount"): void {
+    posts.update(id, (p) => ({ ...p, [field]: p[field] + 1 }));
+  }
+
+  return {
+    async findById(id) {
+      return posts.get(id);
+    },
+
+    async findBySlug(slug) {
+      return posts.find((p) => p.slug === slug);
+    },
+
+    async findPublished({ limit, offset, categories, sort = "recent" }) {
+      // categories ?| array: the post matches when it carries any of them
+      const wanted = categories && categories.length > 0 ? new Set(categories) : null;
+      const matching = posts.filter(
+        (p) =>
+          p.isPublished &&
+          (!wanted || (JSON.parse(p.categories) as string[]).some((c) => wanted.has(c)))
+      );
+      const sorted =
+        sort === "popular"
+          ? orderBy(matching, [(p) => p.viewCount, "desc"])
+          : orderBy(matching, [(p) => p.publishedAt, "desc"]);
+      return { posts: page(sorted, limit, offset), total: matching.length };
+    },
+
+    async findFeatured() {
+      return (
+        orderBy(
+          posts.filter((p) => p.isFeatured && p.isPublished),
+          [(p) => p.publishedAt, "desc"]
+        )[0] ?? null
+      );
+    },
+
+    async incrementViewCount(id) {
+      bump(id, "viewCount");
+    },
+
+    async incrementShareCount(id) {
+      bump(id, "shareCount");
+    },
+  };
+}
+
+// ─── Blog Categories ──────────────────────────────────────────────────────────
+
+export function createMemoryBlogCategoryRepository(store: MemoryStore): BlogCategoryRepository {
+  const categories = store.table<DbBlogCategory>("blog_categories", (row) => String(row.id));
+
+  return {
+    async findAll() {
+      return orderBy(categories.all(), [(c) => c.name, "asc"]);
+    },
+
+    async findBySlug(slug) {
+      return categories.find((c) => c.slug === slug);
+    },
+  };
+}
+
+// ─── Moments ──────────────────────────────────────────────────────────────────
+
+export function createMemoryMomentRepository(store: MemoryStore): MomentRepository {
+  const moments = store.table<DbMoment>("moments");
+  const reactions = store.table<DbMomentReaction>("moment_reactions");
+  const newestFirst = (rows: DbMoment[]) => orderBy(rows, [(m) => m.createdAt, "desc"]);
+
+  return {
+    async findById(id) {
+      return moments.get(id);
+    },
+
+    async findByFamilyId(familyId) {
+      return newestFirst(moments.filter((m) => m.familyId === familyId));
+    },
+
+    async findByFamilyIdOrderedByRecent(familyId, limit, offset) {
+      return page(newestFirst(moments.filter((m) => m.familyId === familyId)), limit ?? 50, offset ?? 0);
+    },
+
+    async create(moment) {
+      const now = store.nowIso();
+      return moments.insert(
+        compact<DbMoment>({
+          id: newId(),
+          familyId: moment.familyId,
+          uploadedBy: moment.uploadedBy,
+          mediaUrl: moment.mediaUrl,
+          thumbnailUrl: moment.thumbnailUrl,
+          mediaType: moment.mediaType,
+          title: moment.title,
+          caption: moment.caption,
+          childTag: moment.childTag,
+          visibility: moment.visibility,
+          takenAt: moment.takenAt,
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+    },
+
+    async update(id, data) {
+      const fields: Partial<DbMoment> = {};
+      if (data.caption !== undefined) fields.caption = data.caption;
+      if (data.thumbnailUrl !== undefined) fields.thumbnailUrl = data.thumbnailUrl;
+      if (data.takenAt !== undefined) fields.takenAt = data.takenAt;
+      if (Object.keys(fields).length === 0) return moments.get(id);
+      return moments.update(id, (m) => compact({ ...m, ...fields, updatedAt: store.nowIso() }));
+    },
+
+    async delete(id) {
+      const deleted = moments.delete(id);
+      if (deleted) {
+        // ON DELETE CASCADE
+        reactions.deleteWhere((r) => r.momentId === id);
+      }
+      return deleted;
+    },
+  };
+}
+
+// ─── Moment Reactions ─────────────────────────────────────────────────────────
+
+export function createMemoryMomentReactionRepository(store: MemoryStore): MomentReactionRepository {
+  const reactions = store.table<DbMomentReaction>("moment_reactions");
+  const newestFirst = (rows: DbMomentReaction[]) => orderBy(rows, [(r) => r.reactedAt, "desc"]);
+  const byParent = (momentId: string, parentId: string) => (r: DbMomentReaction) =>
+    r.momentId === momentId && r.parentId === parentId;
+
+  return {
+    async findById(id) {
+      return reactions.get(id);
+    },
+
+    async findByMomentId(momentId) {
+      return newestFirst(reactions.filter((r) => r.momentId === momentId));
+    },
+
+    async findByMomentIdAndParentId(momentId, parentId) {
+      return reactions.find(byParent(momentId, parentId));
+    },
+
+    async findByMomentIdsWithReactions(momentIds) {
+      const map = new Map<string, DbMomentReaction[]>();
+      const moments = store.table<DbMoment>("moments");
+      for (const momentId of new Set(momentIds)) {
+        if (!moments.get(momentId)) continue;
+        map.set(momentId, newestFirst(reactions.filter((r) => r.momentId === momentId)));
+      }
+      return map;
+    },
+
+    async create(reaction) {
+      // One reaction per parent per moment
+      if (reactions.find(byParent(reaction.momentId, reaction.parentId))) {
+        throw new UniqueViolationError("unique_moment_emoji_per_parent");
+      }
+      return reactions.insert({
+        id: newId(),
+        momentId: reaction.momentId,
+        parentId: reaction.parentId,
+        emoji: reaction.emoji,
+        reactedAt: reaction.reactedAt,
+      });
+    },
+
+    async addReaction(momentId, parentId, emoji) {
+      const reactedAt = store.nowIso();
+      const existing = reactions.find(byParent(momentId, parentId));
+      if (existing) {
+        reactions.put({ ...existing, emoji, reactedAt });
+        return { id: existing.id, isNew: false };
+      }
+      const created = reactions.insert({ id: newId(), momentId, parentId, emoji, reactedAt });
+      return { id: created.id, isNew: true };
+    },
+
+    async delete(id) {
+      return reactions.delete(id);
+    },
+
+    async deleteByMomentIdAndParentId(momentId, parentId) {
+      return reactions.deleteWhere(byParent(momentId, parentId)) > 0;
+    },
+  };
+}
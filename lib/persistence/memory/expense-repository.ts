@@ -0,0 +1,524 @@
+/**
+ * KidSchedule – In-Memory Expense Repositories
+ *
+ * Expenses, their receipts, their settlement ledger (payments between
+ * parents and reimbursement requests), disputes, recurring expense templates and
+ * support obligations.
+ */
+
+import type {
+  ExpenseDisputeMessageRepository,
+  ExpenseDisputeRepository,
+  ExpensePaymentRepository,
+  ExpenseReceiptRepository,
+  ExpenseRepository,
+  RecurringExpenseRepository,
+  ReimbursementRequestRepository,
+  SupportObligationRepository,
+  SupportPaymentRepository,
+} from "../repositories";
+import type {
+  DbExpense,
+  DbExpenseDispute,
+  DbExpenseDisputeMessage,
+  DbExpensePayment,
+  DbExpenseReceipt,
+  DbRecurringExpense,
+  DbReimbursementRequest,
+  DbSupportObligation,
+  DbSupportPayment,
+} from "../types";
+import {
+  applyPatch,
+  CheckViolationError,
+  compact,
+  ms,
+  newId,
+  orderBy,
+  UniqueViolationError,
+  type MemoryStore,
+} from "./store";
+
+// ─── Expenses ─────────────────────────────────────────────────────────────────
+
+export function createMemoryExpenseRepository(store: MemoryStore): ExpenseRepository {
+  const expenses = store.table<DbExpense>("expenses");
+  const newestFirst = (rows: DbExpense[]) =>
+    orderBy(rows, [(e) => e.date, "desc"], [(e) => e.createdAt, "desc"]);
+
+  return {
+    async findById(id) {
+      return expenses.get(id);
+    },
+
+    async findByFamilyId(familyId) {
+      return newestFirst(expenses.filter((e) => e.familyId === familyId));
+    },
+
+    async findByFamilyIdAndDateRange(familyId, startDate, endDate) {
+      return newestFirst(
+        expenses.filter((e) => e.familyId === familyId && e.date >= startDate && e.date <= endDate)
+      );
+    },
+
+    async create(expense) {
+      if (
+        expense.recurringExpenseId &&
+        expenses.find((e) => e.recurringExpenseId === expense.recurringExpenseId && e.date === expense.date)
+      ) {
+        throw new UniqueViolationError("idx_expenses_recurring_occurrence");
+      }
+      const now = store.nowIso();
+      return expenses.insert(
+        compact<DbExpense>({
+          id: newId(),
+          familyId: expense.familyId,
+          title: expense.title,
+          description: expense.description,
+          category: expense.category,
+          totalAmount: expense.totalAmount,
+          currency: expense.currency,
+          splitMethod: expense.splitMethod,
+          splitRatio: expense.splitRatio,
+          paidBy: expense.paidBy,
+          paymentStatus: expense.paymentStatus,
+          receiptUrl: expense.receiptUrl,
+          date: expense.date,
+          recurringExpenseId: expense.recurringExpenseId,
+          baseCurrency: expense.baseCurrency,
+          baseAmount: expense.baseAmount,
+          exchangeRate: expense.exchangeRate,
+          exchangeRateSource: expense.exchangeRateSource,
+          exchangeRateDate: expense.exchangeRateDate,
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+    },
+
+    async update(id, data) {
+      const fields = {
+        title: data.title,
+        description: data.description,
+        category: data.category,
+        totalAmount: data.totalAmount,
+        currency: data.currency,
+        splitMethod: data.splitMethod,
+        splitRatio: data.splitRatio,
+        paymentStatus: data.paymentStatus,
+        receiptUrl: data.receiptUrl,
+        date: data.date,
+        baseCurrency: data.baseCurrency,
+        baseAmount: data.baseAmount,
+        exchangeRate: data.exchangeRate,
+        exchangeRateSource: data.exchangeRateSource,
+        exchangeRateDate: data.exchangeRateDate,
+      };
+      if (Object.values(fields).every((value) => value === undefined)) return expenses.get(id);
+      return expenses.update(id, (e) => ({ ...applyPatch(e, fields), updatedAt: store.nowIso() }));
+    },
+
+    async updatePaymentStatus(id, status) {
+      return expenses.update(id, (e) => ({ ...e, paymentStatus: status, updatedAt: store.nowIso() }));
+    },
+
+    async delete(id) {
+      return expenses.delete(id);
+    },
+  };
+}
+
+// ─── Expense Payments ─────────────────────────────────────────────────────────
+
+export function createMemoryExpensePaymentRepository(store: MemoryStore): ExpensePaymentRepository {
+  const payments = store.table<DbExpensePayment>("expense_payments");
+  const newestFirst = (rows: DbExpensePayment[]) =>
+    orderBy(rows, [(p) => ms(p.paidAt), "desc"], [(p) => p.createdAt, "desc"]);
+
+  return {
+    async findByFamilyId(familyId) {
+      return newestFirst(payments.filter((p) => p.familyId === familyId));
+    },
+
+    async findByExpenseId(expenseId) {
+      return newestFirst(payments.filter((p) => p.expenseId === expenseId));
+    },
+
+    async create(payment) {
+      if (payment.fromParentId === payment.toParentId) {
+        throw new CheckViolationError("expense_payments_check");
+      }
+      return payments.insert(
+        compact<DbExpensePayment>({
+          id: newId(),
+          familyId: payment.familyId,
+          expenseId: payment.expenseId,
+          fromParentId: payment.fromParentId,
+          toParentId: payment.toParentId,
+          amountCents: payment.amountCents,
+          currency: payment.currency,
+          kind: payment.kind,
+          settlementId: payment.settlementId,
+          reimbursementRequestId: payment.reimbursementRequestId,
+          note: payment.note,
+          paidAt: new Date(payment.paidAt).toISOString(),
+          recordedBy: payment.recordedBy,
+          createdAt: store.nowIso(),
+        })
+      );
+    },
+  };
+}
+
+// ─── Receipts ─────────────────────────────────────────────────────────────────
+
+export function createMemoryExpenseReceiptRepository(store: MemoryStore): ExpenseReceiptRepository {
+  const receipts = store.table<DbExpenseReceipt>("expense_receipts");
+  const oldestFirst = (rows: DbExpenseReceipt[]) => orderBy(rows, [(r) => r.createdAt, "asc"]);
+
+  return {
+    async findById(id) {
+      return receipts.get(id);
+    },
+
+    async findByExpenseId(expenseId) {
+      return oldestFirst(receipts.filter((r) => r.expenseId === expenseId));
+    },
+
+    async findByFamilyId(familyId) {
+      return oldestFirst(receipts.filter((r) => r.familyId === familyId));
+    },
+
+    async create(receipt) {
+      if (receipts.find((r) => r.storageKey === receipt.storageKey)) {
+        throw new UniqueViolationError("expense_receipts_storage_key_key");
+      }
+      return receipts.insert(
+        compact<DbExpenseReceipt>({
+          id: newId(),
+          familyId: receipt.familyId,
+          expenseId: receipt.expenseId,
+          storageKey: receipt.storageKey,
+          fileName: receipt.fileName,
+          contentType: receipt.contentType,
+          sizeBytes: receipt.sizeBytes,
+          extractedMerchant: receipt.extractedMerchant,
+          extractedAmountCents: receipt.extractedAmountCents,
+          extractedDate: receipt.extractedDate,
+          uploadedBy: receipt.uploadedBy,
+          createdAt: store.nowIso(),
+        })
+      );
+    },
+  };
+}
+
+// ─── Reimbursement Requests ───────────────────────────────────────────────────
+
+export function createMemoryReimbursementRequestRepository(
+  store: MemoryStore
+): ReimbursementRequestRepository {
+  const requests = store.table<DbReimbursementRequest>("reimbursement_requests");
+
+  return {
+    async findById(id) {
+      return requests.get(id);
+    },
+
+    async findByFamilyId(familyId) {
+      return orderBy(
+        requests.filter((r) => r.familyId === familyId),
+        [(r) => r.createdAt, "desc"]
+      );
+    },
+
+    async findPendingByExpenseId(expenseId) {
+      return requests.filter((r) => r.expenseId === expenseId && r.status === "pending");
+    },
+
+    async create(request) {
+      if (request.requestedBy === request.requestedFrom) {
+        throw new CheckViolationError("reimbursement_requests_check");
+      }
+      const duplicate = requests.find(
+        (r) =>
+          r.expenseId === request.expenseId &&
+          r.requestedFrom === request.requestedFrom &&
+          r.status === "pending"
+      );
+      if (duplicate) {
+        throw new UniqueViolationError("idx_reimbursement_requests_pending");
+      }
+      const now = store.nowIso();
+      return requests.insert(
+        compact<DbReimbursementRequest>({
+          id: newId(),
+          familyId: request.familyId,
+          expenseId: request.expenseId,
+          requestedBy: request.requestedBy,
+          requestedFrom: request.requestedFrom,
+          amountCents: request.amountCents,
+          note: request.note,
+          status: "pending",
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+    },
+
+    async resolve(id, status) {
+      const now = store.nowIso();
+      const [resolved] = requests.updateWhere(
+        (r) => r.id === id && r.status === "pending",
+        (r) => ({ ...r, status, resolvedAt: now, updatedAt: now })
+      );
+      return resolved ?? null;
+    },
+  };
+}
+
+// ─── Expense Disputes ─────────────────────────────────────────────────────────
+
+export function createMemoryExpenseDisputeRepository(store: MemoryStore): ExpenseDisputeRepository {
+  const disputes = store.table<DbExpenseDispute>("expense_disputes");
+  const oldestFirst = (rows: DbExpenseDispute[]) => orderBy(rows, [(d) => d.createdAt, "asc"]);
+
+  return {
+    async findById(id) {
+      return disputes.get(id);
+    },
+
+    async findByFamilyId(familyId) {
+      return oldestFirst(disputes.filter((d) => d.familyId === familyId));
+    },
+
+    async findByExpenseId(expenseId) {
+      return oldestFirst(disputes.filter((d) => d.expenseId === expenseId));
+    },
+
+    async create(dispute) {
+      if (disputes.find((d) => d.expenseId === dispute.expenseId && d.status === "open")) {
+        throw new UniqueViolationError("idx_expense_disputes_open");
+      }
+      const now = store.nowIso();
+      return disputes.insert(
+        compact<DbExpenseDispute>({
+          id: newId(),
+          familyId: dispute.familyId,
+          expenseId: dispute.expenseId,
+          openedBy: dispute.openedBy,
+          reason: dispute.reason,
+          status: "open",
+          previousPaymentStatus: dispute.previousPaymentStatus,
+          originalTotalAmount: dispute.originalTotalAmount,
+          originalSplitMethod: dispute.originalSplitMethod,
+          originalSplitRatio: dispute.originalSplitRatio,
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+    },
+
+    async resolve(id, status, resolvedBy) {
+      const now = store.nowIso();
+      const [resolved] = disputes.updateWhere(
+        (d) => d.id === id && d.status === "open",
+        (d) => ({ ...d, status, resolvedBy, resolvedAt: now, updatedAt: now })
+      );
+      return resolved ?? null;
+    },
+  };
+}
+
+export function createMemoryExpenseDisputeMessageRepository(store: MemoryStore): ExpenseDisputeMessageRepository {
+  const messages = store.table<DbExpenseDisputeMessage>("expense_dispute_messages");
+
+  return {
+    async findByDisputeId(disputeId) {
+      return orderBy(
+        messages.filter((m) => m.disputeId === disputeId),
+        [(m) => m.createdAt, "asc"]
+      );
+    },
+
+    async create(msg) {
+      const isProposal = msg.proposedTotalAmount !== undefined || msg.proposedSplitMethod !== undefined;
+      if (isProposal !== (msg.proposalStatus !== undefined)) {
+        throw new CheckViolationError("expense_dispute_messages_check");
+      }
+      return messages.insert(
+        compact<DbExpenseDisputeMessage>({
+          id: newId(),
+          disputeId: msg.disputeId,
+          familyId: msg.familyId,
+          senderParentId: msg.senderParentId,
+          body: msg.body,
+          proposedTotalAmount: msg.proposedTotalAmount,
+          proposedSplitMethod: msg.proposedSplitMethod,
+          proposedSplitRatio: msg.proposedSplitRatio,
+          proposalStatus: msg.proposalStatus,
+          createdAt: store.nowIso(),
+        })
+      );
+    },
+
+    async respondToProposal(id, status, respondedBy) {
+      const [answered] = messages.updateWhere(
+        (m) => m.id === id && m.proposalStatus === "pending",
+        (m) => ({ ...m, proposalStatus: status, respondedBy, respondedAt: store.nowIso() })
+      );
+      return answered ?? null;
+    },
+
+    async supersedePending(disputeId) {
+      return messages.updateWhere(
+        (m) => m.disputeId === disputeId && m.proposalStatus === "pending",
+        (m) => ({ ...m, proposalStatus: "superseded" })
+      ).length;
+    },
+  };
+}
+
+// ─── Recurring Expenses ───────────────────────────────────────────────────────
+
+export function createMemoryRecurringExpenseRepository(store: MemoryStore): RecurringExpenseRepository {
+  const templates = store.table<DbRecurringExpense>("recurring_expenses");
+  const byTitle = (rows: DbRecurringExpense[]) => orderBy(rows, [(t) => t.title, "asc"]);
+
+  return {
+    async findById(id) {
+      return templates.get(id);
+    },
+
+    async findByFamilyId(familyId) {
+      return byTitle(templates.filter((t) => t.familyId === familyId));
+    },
+
+    async findDue(asOfDate) {
+      return orderBy(
+        templates.filter((t) => t.status === "active" && t.nextDueDate <= asOfDate),
+        [(t) => t.nextDueDate, "asc"]
+      );
+    },
+
+    async create(template) {
+      if (template.endDate && template.endDate < template.startDate) {
+        throw new CheckViolationError("recurring_expenses_check");
+      }
+      const now = store.nowIso();
+      return templates.insert(
+        compact<DbRecurringExpense>({
+          id: newId(),
+          familyId: template.familyId,
+          title: template.title,
+          description: template.description,
+          category: template.category,
+          totalAmount: template.totalAmount,
+          currency: template.currency,
+          exchangeRate: template.exchangeRate,
+          splitMethod: template.splitMethod,
+          splitRatio: template.splitRatio,
+          paidBy: template.paidBy,
+          frequency: template.frequency,
+          startDate: template.startDate,
+          endDate: template.endDate,
+          nextDueDate: template.nextDueDate,
+          status: "active",
+          createdBy: template.createdBy,
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+    },
+
+    async advance(id, nextDueDate, status) {
+      return templates.update(id, (t) => ({ ...t, nextDueDate, status, updatedAt: store.nowIso() }));
+    },
+
+    async updateStatus(id, status) {
+      return templates.update(id, (t) => ({ ...t, status, updatedAt: store.nowIso() }));
+    },
+  };
+}
+
+// ─── Support Obligations ──────────────────────────────────────────────────────
+
+export function createMemorySupportObligationRepository(store: MemoryStore): SupportObligationRepository {
+  const obligations = store.table<DbSupportObligation>("support_obligations");
+
+  return {
+    async findById(id) {
+      return obligations.get(id);
+    },
+
+    async findByFamilyId(familyId) {
+      return orderBy(
+        obligations.filter((o) => o.familyId === familyId),
+        [(o) => o.startDate, "asc"]
+      );
+    },
+
+    async create(obligation) {
+      if (
+        obligation.payerParentId === obligation.payeeParentId ||
+        (obligation.endDate && obligation.endDate < obligation.startDate)
+      ) {
+        throw new CheckViolationError("support_obligations_check");
+      }
+      const now = store.nowIso();
+      return obligations.insert(
+        compact<DbSupportObligation>({
+          id: newId(),
+          familyId: obligation.familyId,
+          payerParentId: obligation.payerParentId,
+          payeeParentId: obligation.payeeParentId,
+          amountCents: obligation.amountCents,
+          currency: obligation.currency,
+          frequency: obligation.frequency,
+          startDate: obligation.startDate,
+          endDate: obligation.endDate,
+          graceDays: obligation.graceDays,
+          orderReference: obligation.orderReference,
+          createdBy: obligation.createdBy,
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+    },
+
+    async end(id, endDate) {
+      return obligations.update(id, (o) => ({ ...o, endDate, updatedAt: store.nowIso() }));
+    },
+  };
+}
+
+export function createMemorySupportPaymentRepository(store: MemoryStore): SupportPaymentRepository {
+  const payments = store.table<DbSupportPayment>("support_payments");
+  const oldestFirst = (rows: DbSupportPayment[]) =>
+    orderBy(rows, [(p) => p.receivedOn, "asc"], [(p) => p.createdAt, "asc"]);
+
+  return {
+    async findByObligationId(obligationId) {
+      return oldestFirst(payments.filter((p) => p.obligationId === obligationId));
+    },
+
+    async findByFamilyId(familyId) {
+      return oldestFirst(payments.filter((p) => p.familyId === familyId));
+    },
+
+    async create(payment) {
+      return payments.insert(
+        compact<DbSupportPayment>({
+          id: newId(),
+          obligationId: payment.obligationId,
+          familyId: payment.familyId,
+          amountCents: payment.amountCents,
+          receivedOn: payment.receivedOn,
+          note: payment.note,
+          recordedBy: payment.recordedBy,
+          createdAt: store.nowIso(),
+        })
+      );
+    },
+  };
+}
@@ -0,0 +1,266 @@
+/**
+ * KidSchedule – In-Memory Export Repositories
+ *
+ * Export jobs, export metadata with per-message hashes and verification
+ * attempts, and public share tokens.
+ */
+
+import { randomBytes } from "crypto";
+import type { ExportJobRecord } from "@/lib";
+import type {
+  ExportJobsRepository,
+  ExportMessageHashRepository,
+  ExportMetadataRepository,
+  ExportShareTokenRepository,
+  ExportVerificationAttemptRepository,
+} from "../repositories";
+import type {
+  DbExportMessageHash,
+  DbExportMetadata,
+  DbExportShareToken,
+  DbExportVerificationAttempt,
+} from "../types";
+import { applyPatch, compact, ms, newId, orderBy, page, type MemoryStore } from "./store";
+
+// ─── Export Jobs ──────────────────────────────────────────────────────────────
+
+export function createMemoryExportJobsRepository(store: MemoryStore): ExportJobsRepository {
+  const jobs = store.table<ExportJobRecord>("export_jobs");
+  const metadata = store.table<DbExportMetadata>("export_metadata");
+  const newestFirst = (rows: ExportJobRecord[]) => orderBy(rows, [(j) => j.createdAt, "desc"]);
+
+  return {
+    async findById(id) {
+      return jobs.get(id);
+    },
+
+    async findByFamilyId(familyId) {
+      return page(newestFirst(jobs.filter((j) => j.familyId === familyId)), 100);
+    },
+
+    async findByUserId(userId) {
+      return page(newestFirst(jobs.filter((j) => j.userId === userId)), 100);
+    },
+
+    async findByStatus(status) {
+      return page(
+        orderBy(
+          jobs.filter((j) => j.status === status),
+          [(j) => j.createdAt, "asc"]
+        ),
+        1000
+      );
+    },
+
+    async findByMessageId(messageId) {
+      const exportIds = new Set(
+        metadata.filter((m) => m.includedMessageIds.includes(messageId)).map((m) => m.exportId)
+      );
+      return newestFirst(jobs.filter((j) => exportIds.has(j.id)));
+    },
+
+    async create(data) {
+      const now = store.nowIso();
+      return jobs.insert({
+        id: newId(),
+        familyId: data.familyId,
+        userId: data.userId,
+        type: data.type as ExportJobRecord["type"],
+        params: data.params,
+        status: "queued",
+        retryCount: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+    },
+
+    async update(id, data) {
+      const fields = {
+        status: data.status,
+        resultUrl: data.resultUrl,
+        mimeType: data.mimeType,
+        error: data.error,
+        completedAt: data.completedAt,
+        sizeBytes: data.sizeBytes,
+        retryCount: data.retryCount,
+      };
+      if (Object.values(fields).every((value) => value === undefined)) return jobs.get(id);
+      return jobs.update(id, (j) => ({ ...applyPatch(j, fields), updatedAt: store.nowIso() }));
+    },
+  };
+}
+
+// ─── Export Metadata ──────────────────────────────────────────────────────────
+
+export function createMemoryExportMetadataRepository(store: MemoryStore): ExportMetadataRepository {
+  const metadata = store.table<DbExportMetadata>("export_metadata");
+
+  function setVerification(id: string, verificationId: string): DbExportMetadata | null {
+    return metadata.update(id, (m) => ({ ...m, hashChainVerificationId: verificationId, updatedAt: store.nowIso() }));
+  }
+
+  return {
+    async findById(id) {
+      return metadata.get(id);
+    },
+
+    async findByExportId(exportId) {
+      return metadata.find((m) => m.exportId === exportId);
+    },
+
+    async findByFamilyId(familyId) {
+      return orderBy(
+        metadata.filter((m) => m.familyId === familyId),
+        [(m) => m.createdAt, "desc"]
+      );
+    },
+
+    async create(data) {
+      const now = store.nowIso();
+      return metadata.insert(
+        compact<DbExportMetadata>({
+          id: newId(),
+          exportId: data.exportId,
+          familyId: data.familyId,
+          reportType: data.reportType,
+          hashChainVerificationId: data.hashChainVerificationId || undefined,
+          includedMessageIds: data.includedMessageIds,
+          custodyPeriodStart: data.custodyPeriodStart || undefined,
+          custodyPeriodEnd: data.custodyPeriodEnd || undefined,
+          pdfHash: data.pdfHash,
+          pdfSizeBytes: data.pdfSizeBytes,
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+    },
+
+    async update(id, data) {
+      if (data.hashChainVerificationId === undefined) return metadata.get(id);
+      return setVerification(id, data.hashChainVerificationId);
+    },
+
+    async linkVerification(exportMetadataId, verificationId) {
+      setVerification(exportMetadataId, verificationId);
+      return true;
+    },
+  };
+}
+
+// ─── Export Message Hashes ────────────────────────────────────────────────────
+
+export function createMemoryExportMessageHashRepository(store: MemoryStore): ExportMessageHashRepository {
+  const hashes = store.table<DbExportMessageHash>("export_message_hashes");
+
+  return {
+    async findByExportMetadataId(exportMetadataId) {
+      return orderBy(
+        hashes.filter((h) => h.exportMetadataId === exportMetadataId),
+        [(h) => h.chainIndex, "asc"]
+      );
+    },
+
+    async createBatch(batch) {
+      const createdAt = store.nowIso();
+      return batch.map((hash) =>
+        hashes.insert(
+          compact<DbExportMessageHash>({
+            id: newId(),
+            exportMetadataId: hash.exportMetadataId,
+            messageId: hash.messageId,
+            chainIndex: hash.chainIndex,
+            messageHash: hash.messageHash,
+            previousHash: hash.previousHash,
+            sentAt: hash.sentAt,
+            senderId: hash.senderId,
+            messagePreview: hash.messagePreview || undefined,
+            createdAt,
+          })
+        )
+      );
+    },
+  };
+}
+
+// ─── Export Verification Attempts ─────────────────────────────────────────────
+
+export function createMemoryExportVerificationAttemptRepository(
+  store: MemoryStore
+): ExportVerificationAttemptRepository {
+  const attempts = store.table<DbExportVerificationAttempt>("export_verification_attempts");
+
+  return {
+    async findByExportMetadataId(exportMetadataId) {
+      return orderBy(
+        attempts.filter((a) => a.exportMetadataId === exportMetadataId),
+        [(a) => ms(a.verifiedAt), "desc"]
+      );
+    },
+
+    async create(data) {
+      return attempts.insert(
+        compact<DbExportVerificationAttempt>({
+          id: newId(),
+          exportMetadataId: data.exportMetadataId,
+          verifiedBy: data.verifiedBy,
+          verifiedAt: data.verifiedAt,
+          verificationStatus: data.verificationStatus,
+          isValid: data.isValid,
+          integrityStatus: data.integrityStatus || undefined,
+          pdfHashMatch: data.pdfHashMatch,
+          errorsDetected: data.errorsDetected,
+          ipAddress: data.ipAddress || undefined,
+          userAgent: data.userAgent || undefined,
+          createdAt: store.nowIso(),
+        })
+      );
+    },
+  };
+}
+
+// ─── Export Share Tokens ──────────────────────────────────────────────────────
+
+export function createMemoryExportShareTokenRepository(store: MemoryStore): ExportShareTokenRepository {
+  const tokens = store.table<DbExportShareToken>("export_share_tokens");
+
+  return {
+    async findByToken(token) {
+      const now = store.now().getTime();
+      return tokens.find((t) => t.token === token && ms(t.expiresAt) > now);
+    },
+
+    async findByExportId(exportId) {
+      return orderBy(
+        tokens.filter((t) => t.exportId === exportId),
+        [(t) => t.createdAt, "desc"]
+      );
+    },
+
+    async create(exportId, userId, expiresAt, scope = "external") {
+      const created = tokens.insert({
+        id: newId(),
+        exportId,
+        token: randomBytes(32).toString("hex"),
+        scope,
+        createdAt: store.nowIso(),
+        expiresAt: expiresAt.toISOString(),
+        accessCount: 0,
+        createdByUserId: userId,
+      });
+      return { token: created.token, id: created.id };
+    },
+
+    async updateAccessCount(tokenId) {
+      tokens.update(tokenId, (t) => ({ ...t, accessCount: t.accessCount + 1, lastAccessedAt: store.nowIso() }));
+    },
+
+    async revoke(tokenId) {
+      tokens.update(tokenId, (t) => ({ ...t, expiresAt: store.nowIso() }));
+    },
+
+    async deleteExpired() {
+      const now = store.now().getTime();
+      return tokens.deleteWhere((t) => ms(t.expiresAt) < now);
+    },
+  };
+}
@@ -0,0 +1,221 @@
+/**
+ * KidSchedule – In-Memory Family Repositories
+ *
+ * Families, parents, co-parent invitations and children.
+ */
+
+import type {
+  ChildRepository,
+  FamilyRepository,
+  ParentInvitationRepository,
+  ParentRepository,
+  ParentUpdateInput,
+} from "../repositories";
+import type { DbChild, DbFamily, DbParent, DbParentInvitation } from "../types";
+import { compact, ms, newId, orderBy, type MemoryStore } from "./store";
+
+/** DATE columns come back as YYYY-MM-DD */
+function toDateOnly(value: string): string {
+  return new Date(value).toISOString().slice(0, 10);
+}
+
+/** Blank strings clear optional text columns, as in the Postgres repository */
+function blankToNull(value: string | null): string | null {
+  return value && value.trim().length > 0 ? value : null;
+}
+
+// ─── Families ─────────────────────────────────────────────────────────────────
+
+export function createMemoryFamilyRepository(store: MemoryStore): FamilyRepository {
+  const families = store.table<DbFamily>("families");
+  const parents = store.table<DbParent>("parents");
+
+  return {
+    async findById(id) {
+      return families.get(id);
+    },
+
+    async findByParentUserId(userId) {
+      const parent = parents.find((p) => p.userId === userId);
+      return parent ? families.get(parent.familyId) : null;
+    },
+
+    async create(family) {
+      const now = store.nowIso();
+      return families.insert(
+        compact<DbFamily>({
+          id: newId(),
+          name: family.name,
+          custodyAnchorDate: toDateOnly(family.custodyAnchorDate),
+          scheduleId: family.scheduleId,
+          timezone: family.timezone,
+          baseCurrency: family.baseCurrency ?? "USD",
+          holidayJurisdiction: family.holidayJurisdiction ?? "US",
+          proxyPhoneNumber: family.proxyPhoneNumber,
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+    },
+
+    async update(id, data) {
+      const fields: Partial<DbFamily> = {};
+      if (data.name !== undefined) fields.name = data.name;
+      if (data.custodyAnchorDate !== undefined) fields.custodyAnchorDate = toDateOnly(data.custodyAnchorDate);
+      if (data.scheduleId !== undefined) fields.scheduleId = data.scheduleId;
+      if (data.timezone !== undefined) fields.timezone = data.timezone;
+      if (data.baseCurrency !== undefined) fields.baseCurrency = data.baseCurrency;
+      if (data.holidayJurisdiction !== undefined) fields.holidayJurisdiction = data.holidayJurisdiction;
+      if (Object.keys(fields).length === 0) return families.get(id);
+      return families.update(id, (family) => ({ ...family, ...fields }));
+    },
+  };
+}
+
+// ─── Parents ──────────────────────────────────────────────────────────────────
+
+export function createMemoryParentRepository(store: MemoryStore): ParentRepository {
+  const parents = store.table<DbParent>("parents");
+
+  return {
+    async findById(id) {
+      return parents.get(id);
+    },
+
+    async findByUserId(userId) {
+      return parents.find((p) => p.userId === userId);
+    },
+
+    async findByFamilyId(familyId) {
+      return parents.filter((p) => p.familyId === familyId);
+    },
+
+    async create(parent) {
+      return parents.insert(
+        compact<DbParent>({
+          id: newId(),
+          userId: parent.userId,
+          familyId: parent.familyId,
+          name: parent.name,
+          email: parent.email,
+          phone: parent.phone,
+          avatarUrl: parent.avatarUrl,
+          timezone: parent.timezone,
+          role: parent.role,
+          caregiverRole: parent.caregiverRole ?? "parent",
+          createdAt: store.nowIso(),
+        })
+      );
+    },
+
+    async update(id: string, data: ParentUpdateInput) {
+      const fields: Record<string, string | null> = {};
+      if (data.name !== undefined) fields.name = data.name;
+      if (data.email !== undefined) fields.email = data.email.toLowerCase().trim();
+      if (data.phone !== undefined) fields.phone = blankToNull(data.phone);
+      if (data.avatarUrl !== undefined) fields.avatarUrl = blankToNull(data.avatarUrl);
+      if (data.timezone !== undefined) fields.timezone = blankToNull(data.timezone);
+      if (data.caregiverRole !== undefined) fields.caregiverRole = data.caregiverRole;
+      if (Object.keys(fields).length === 0) return parents.get(id);
+      return parents.update(id, (parent) => compact({ ...parent, ...fields }));
+    },
+  };
+}
+
+// ─── Parent Invitations ───────────────────────────────────────────────────────
+
+export function createMemoryParentInvitationRepository(store: MemoryStore): ParentInvitationRepository {
+  const invitations = store.table<DbParentInvitation>("parent_invitations");
+  const newestFirst = (rows: DbParentInvitation[]) => orderBy(rows, [(i) => i.createdAt, "desc"]);
+
+  return {
+    async findById(id) {
+      return invitations.get(id);
+    },
+
+    async findByFamilyId(familyId) {
+      return newestFirst(invitations.filter((i) => i.familyId === familyId));
+    },
+
+    async findPendingByFamilyId(familyId) {
+      const now = store.now().getTime();
+      return newestFirst(
+        invitations.filter(
+          (i) =>
+            i.familyId === familyId &&
+            i.status === "pending" &&
+            (!i.expiresAt || ms(i.expiresAt) > now)
+        )
+      );
+    },
+
+    async create(invitation) {
+      const now = store.nowIso();
+      return invitations.insert(
+        compact<DbParentInvitation>({
+          id: newId(),
+          familyId: invitation.familyId,
+          invitedByUserId: invitation.invitedByUserId,
+          invitedName: invitation.invitedName,
+          email: invitation.email.toLowerCase().trim(),
+          phone: invitation.phone,
+          role: invitation.role,
+          caregiverRole: invitation.caregiverRole ?? "parent",
+          status: invitation.status,
+          token: invitation.token,
+          expiresAt: invitation.expiresAt ? new Date(invitation.expiresAt).toISOString() : undefined,
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+    },
+
+    async updateStatus(id, status) {
+      return invitations.update(id, (i) => ({ ...i, status, updatedAt: store.nowIso() }));
+    },
+  };
+}
+
+// ─── Children ─────────────────────────────────────────────────────────────────
+
+export function createMemoryChildRepository(store: MemoryStore): ChildRepository {
+  const children = store.table<DbChild>("children");
+
+  return {
+    async findById(id) {
+      return children.get(id);
+    },
+
+    async findByFamilyId(familyId) {
+      return children.filter((c) => c.familyId === familyId);
+    },
+
+    async create(child) {
+      return children.insert(
+        compact<DbChild>({
+          id: newId(),
+          familyId: child.familyId,
+          firstName: child.firstName,
+          lastName: child.lastName,
+          dateOfBirth: toDateOnly(child.dateOfBirth),
+          avatarUrl: child.avatarUrl,
+          createdAt: store.nowIso(),
+        })
+      );
+    },
+
+    async update(id, data) {
+      const fields: Record<string, string | null> = {};
+      if (data.firstName !== undefined) fields.firstName = data.firstName;
+      if (data.lastName !== undefined) fields.lastName = data.lastName;
+      if (data.dateOfBirth !== undefined) fields.dateOfBirth = toDateOnly(data.dateOfBirth);
+      if (data.avatarUrl !== undefined) fields.avatarUrl = data.avatarUrl || null;
+      if (Object.keys(fields).length === 0) return children.get(id);
+      return children.update(id, (child) => compact({ ...child, ...fields }));
+    },
+
+    async delete(id) {
+      return children.delete(id);
+    },
+  };
+}
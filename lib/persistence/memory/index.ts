@@ -0,0 +1,287 @@
+/**
+ * KidSchedule – In-Memory Unit of Work
+ *
+ * A complete UnitOfWork backed by process memory, for local development
+ * without Postgres and as a shared, realistic fake in tests.  Repositories
+ * mirror the Postgres implementations' filters, ordering, upserts, soft
+ * deletes and status transitions, and raise UniqueViolationError /
+ * CheckViolationError where the schema would reject a write.
+ *
+ * Usage:
+ *   await initDb(createMemoryUnitOfWork());          // tests
+ *   DB_DRIVER=memory pnpm dev                        // local development
+ *
+ * Transactions snapshot the whole store: rollback() restores it.  They do
+ * not isolate concurrent requests from each other.
+ */
+
+import type { UnitOfWork } from "../repositories";
+import type { DbBlogCategory, DbPlanTier } from "../types";
+import {
+  createMemoryAuditLogRepository,
+  createMemoryMfaChallengeRepository,
+  createMemoryMfaFactorRepository,
+  createMemoryMfaRecoveryCodeRepository,
+  createMemoryPasswordResetRepository,
+  createMemoryPhoneVerificationRepository,
+  createMemoryRateLimitRepository,
+  createMemorySessionRepository,
+  createMemoryUserRepository,
+} from "./auth-repository";
+import {
+  createMemoryInvoiceRepository,
+  createMemoryPaymentMethodRepository,
+  createMemoryPlanTierRepository,
+  createMemoryStripeCustomerRepository,
+  createMemorySubscriptionRepository,
+  createMemoryTwilioWebhookEventRepository,
+  createMemoryWebhookEventRepository,
+} from "./billing-repository";
+import {
+  createMemoryCalendarEventExceptionRepository,
+  createMemoryCalendarEventRepository,
+  createMemoryCalendarFeedTokenRepository,
+  createMemoryConflictWindowRepository,
+  createMemoryCustodyScheduleRepository,
+  createMemoryCustodyScheduleVersionRepository,
+} from "./calendar-repository";
+import {
+  createMemoryBlogCategoryRepository,
+  createMemoryBlogPostRepository,
+  createMemoryMomentReactionRepository,
+  createMemoryMomentRepository,
+} from "./content-repository";
+import {
+  createMemoryExpenseDisputeMessageRepository,
+  createMemoryExpenseDisputeRepository,
+  createMemoryExpensePaymentRepository,
+  createMemoryExpenseReceiptRepository,
+  createMemoryExpenseRepository,
+  createMemoryRecurringExpenseRepository,
+  createMemoryReimbursementRequestRepository,
+  createMemorySupportObligationRepository,
+  createMemorySupportPaymentRepository,
+} from "./expense-repository";
+import {
+  createMemoryExportJobsRepository,
+  createMemoryExportMessageHashRepository,
+  createMemoryExportMetadataRepository,
+  createMemoryExportShareTokenRepository,
+  createMemoryExportVerificationAttemptRepository,
+} from "./export-repository";
+import {
+  createMemoryChildRepository,
+  createMemoryFamilyRepository,
+  createMemoryParentInvitationRepository,
+  createMemoryParentRepository,
+} from "./family-repository";
+import {
+  createMemoryMediationTopicRepository,
+  createMemoryMediationWarningRepository,
+} from "./mediation-repository";
+import {
+  createMemoryHashChainVerificationRepository,
+  createMemoryMessageRepository,
+  createMemoryMessageThreadRepository,
+  createMemorySmsRelayParticipantRepository,
+  createMemorySmsSubscriptionRepository,
+} from "./messaging-repository";
+import {
+  createMemoryNotificationEventRepository,
+  createMemoryNotificationPreferenceRepository,
+  createMemoryPushSubscriptionRepository,
+  createMemoryReminderRepository,
+  createMemoryScheduledNotificationRepository,
+} from "./notification-repository";
+import {
+  createMemoryChangeRequestMessageRepository,
+  createMemoryHandoffCheckInRepository,
+  createMemoryHolidayExceptionRuleRepository,
+  createMemoryHolidayRepository,
+  createMemoryScheduleChangeRequestRepository,
+  createMemoryScheduleOverrideRepository,
+} from "./schedule-repository";
+import {
+  createMemoryLunchAccountRepository,
+  createMemoryLunchMenuRepository,
+  createMemoryLunchTransactionRepository,
+  createMemorySchoolContactRepository,
+  createMemorySchoolEventRepository,
+  createMemorySchoolVaultDocumentRepository,
+  createMemoryVolunteerTaskRepository,
+} from "./school-repository";
+import { MemoryStore, type MemoryStoreSnapshot } from "./store";
+
+// ─── Reference Data ───────────────────────────────────────────────────────────
+
+// Rows the migrations insert (0004_blog, 0020_billing, 0027_plan_tier_storage_limits)
+const SEED_EPOCH = "2024-01-01T00:00:00.000Z";
+
+const BLOG_CATEGORIES: DbBlogCategory[] = [
+  { id: 1, slug: "custody-basics", name: "Custody Basics", description: "Foundational knowledge about custody arrangements", createdAt: SEED_EPOCH },
+  { id: 2, slug: "schedules", name: "Schedules", description: "Custody schedule patterns and templates", createdAt: SEED_EPOCH },
+  { id: 3, slug: "coparenting", name: "Co-Parenting", description: "Tips for effective co-parenting", createdAt: SEED_EPOCH },
+  { id: 4, slug: "legal", name: "Legal", description: "Legal considerations and resources", createdAt: SEED_EPOCH },
+  { id: 5, slug: "wellness", name: "Wellness", description: "Mental health and self-care for parents", createdAt: SEED_EPOCH },
+];
+
+const PLAN_TIERS: DbPlanTier[] = [
+  {
+    id: "free",
+    displayName: "Free",
+    monthlyPriceCents: 0,
+    annualPriceCents: 0,
+    features: ["Basic schedule", "Message history (30 days)"],
+    maxChildren: 2,
+    maxDocuments: 10,
+    maxStorageBytes: 104857600,
+    isActive: true,
+    createdAt: SEED_EPOCH,
+  },
+  {
+    id: "starter",
+    displayName: "Starter",
+    monthlyPriceCents: 999,
+    annualPriceCents: 0,
+    features: ["Unlimited history", "SMS relay", "PDF exports"],
+    maxChildren: 4,
+    maxDocuments: 100,
+    maxStorageBytes: 2147483648,
+    isActive: true,
+    createdAt: SEED_EPOCH,
+  },
+  {
+    id: "professional",
+    displayName: "Professional",
+    monthlyPriceCents: 2499,
+    annualPriceCents: 0,
+    features: ["All Starter features", "Communication reports", "Priority support"],
+    isActive: true,
+    createdAt: SEED_EPOCH,
+  },
+];
+
+/** Inserts the reference rows the migrations seed, leaving existing rows alone. */
+export function seedReferenceData(store: MemoryStore): void {
+  const categories = store.table<DbBlogCategory>("blog_categories", (row) => String(row.id));
+  for (const category of BLOG_CATEGORIES) {
+    if (!categories.get(String(category.id))) categories.insert(category);
+  }
+  const tiers = store.table<DbPlanTier>("plan_tiers");
+  for (const tier of PLAN_TIERS) {
+    if (!tiers.get(tier.id)) tiers.insert(tier);
+  }
+}
+
+// ─── Unit of Work ─────────────────────────────────────────────────────────────
+
+export interface MemoryUnitOfWork extends UnitOfWork {
+  /** Backing store; tests may seed or inspect tables directly */
+  readonly store: MemoryStore;
+}
+
+export function createMemoryUnitOfWork(store: MemoryStore = new MemoryStore()): MemoryUnitOfWork {
+  seedReferenceData(store);
+
+  // Open transactions, innermost last
+  const snapshots: MemoryStoreSnapshot[] = [];
+
+  return {
+    store,
+
+    users: createMemoryUserRepository(store),
+    sessions: createMemorySessionRepository(store),
+    passwordResets: createMemoryPasswordResetRepository(store),
+    phoneVerifications: createMemoryPhoneVerificationRepository(store),
+    mfaFactors: createMemoryMfaFactorRepository(store),
+    mfaRecoveryCodes: createMemoryMfaRecoveryCodeRepository(store),
+    mfaChallenges: createMemoryMfaChallengeRepository(store),
+    auditLogs: createMemoryAuditLogRepository(store),
+    rateLimits: createMemoryRateLimitRepository(store),
+    families: createMemoryFamilyRepository(store),
+    parents: createMemoryParentRepository(store),
+    parentInvitations: createMemoryParentInvitationRepository(store),
+    children: createMemoryChildRepository(store),
+    custodySchedules: createMemoryCustodyScheduleRepository(store),
+    custodyScheduleVersions: createMemoryCustodyScheduleVersionRepository(store),
+    calendarEvents: createMemoryCalendarEventRepository(store),
+    calendarEventExceptions: createMemoryCalendarEventExceptionRepository(store),
+    calendarFeedTokens: createMemoryCalendarFeedTokenRepository(store),
+    scheduleChangeRequests: createMemoryScheduleChangeRequestRepository(store),
+    changeRequestMessages: createMemoryChangeRequestMessageRepository(store),
+    scheduleOverrides: createMemoryScheduleOverrideRepository(store),
+    handoffCheckIns: createMemoryHandoffCheckInRepository(store),
+    holidays: createMemoryHolidayRepository(store),
+    holidayExceptionRules: createMemoryHolidayExceptionRuleRepository(store),
+    blogPosts: createMemoryBlogPostRepository(store),
+    blogCategories: createMemoryBlogCategoryRepository(store),
+    schoolEvents: createMemorySchoolEventRepository(store),
+    volunteerTasks: createMemoryVolunteerTaskRepository(store),
+    schoolContacts: createMemorySchoolContactRepository(store),
+    schoolVaultDocuments: createMemorySchoolVaultDocumentRepository(store),
+    lunchMenus: createMemoryLunchMenuRepository(store),
+    lunchAccounts: createMemoryLunchAccountRepository(store),
+    lunchTransactions: createMemoryLunchTransactionRepository(store),
+    expenses: createMemoryExpenseRepository(store),
+    expensePayments: createMemoryExpensePaymentRepository(store),
+    expenseReceipts: createMemoryExpenseReceiptRepository(store),
+    reimbursementRequests: createMemoryReimbursementRequestRepository(store),
+    expenseDisputes: createMemoryExpenseDisputeRepository(store),
+    expenseDisputeMessages: createMemoryExpenseDisputeMessageRepository(store),
+    recurringExpenses: createMemoryRecurringExpenseRepository(store),
+    supportObligations: createMemorySupportObligationRepository(store),
+    supportPayments: createMemorySupportPaymentRepository(store),
+    reminders: createMemoryReminderRepository(store),
+    conflictWindows: createMemoryConflictWindowRepository(store),
+    messageThreads: createMemoryMessageThreadRepository(store),
+    messages: createMemoryMessageRepository(store),
+    hashChainVerifications: createMemoryHashChainVerificationRepository(store),
+    smsRelayParticipants: createMemorySmsRelayParticipantRepository(store),
+    smsSubscriptions: createMemorySmsSubscriptionRepository(store),
+    moments: createMemoryMomentRepository(store),
+    momentReactions: createMemoryMomentReactionRepository(store),
+    scheduledNotifications: createMemoryScheduledNotificationRepository(store),
+    notificationPreferences: createMemoryNotificationPreferenceRepository(store),
+    pushSubscriptions: createMemoryPushSubscriptionRepository(store),
+    notificationEvents: createMemoryNotificationEventRepository(store),
+    exportJobs: createMemoryExportJobsRepository(store),
+    exportMetadata: createMemoryExportMetadataRepository(store),
+    exportMessageHashes: createMemoryExportMessageHashRepository(store),
+    exportVerificationAttempts: createMemoryExportVerificationAttemptRepository(store),
+    exportShareTokens: createMemoryExportShareTokenRepository(store),
+    stripeCustomers: createMemoryStripeCustomerRepository(store),
+    paymentMethods: createMemoryPaymentMethodRepository(store),
+    subscriptions: createMemorySubscriptionRepository(store),
+    invoices: createMemoryInvoiceRepository(store),
+    webhookEvents: createMemoryWebhookEventRepository(store),
+    twilioWebhookEvents: createMemoryTwilioWebhookEventRepository(store),
+    planTiers: createMemoryPlanTierRepository(store),
+    mediationTopics: createMemoryMediationTopicRepository(store),
+    mediationWarnings: createMemoryMediationWarningRepository(store),
+
+    async beginTransaction() {
+      snapshots.push(store.snapshot());
+    },
+    async commit() {
+      if (!snapshots.pop()) {
+        throw new Error("[UoW] commit() called without an open transaction");
+      }
+    },
+    async rollback() {
+      const snapshot = snapshots.pop();
+      if (!snapshot) {
+        throw new Error("[UoW] rollback() called without an open transaction");
+      }
+      store.restore(snapshot);
+    },
+  };
+}
+
+export function isMemoryUnitOfWork(uow: UnitOfWork): uow is MemoryUnitOfWork {
+  return (uow as Partial<MemoryUnitOfWork>).store instanceof MemoryStore;
+}
+
+// ─── Exports ──────────────────────────────────────────────────────────────────
+
+export { MemoryStore, UniqueViolationError, CheckViolationError } from "./store";
+export type { MemoryStoreOptions } from "./store";
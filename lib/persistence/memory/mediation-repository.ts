@@ -0,0 +1,135 @@
+/**
+ * KidSchedule – In-Memory Mediation Repositories
+ *
+ * Mediation topics and tone warnings raised against family messages.
+ */
+
+import type { MediationTopicRepository, MediationWarningRepository } from "../repositories";
+import type { DbMediationTopic, DbMediationWarning } from "../types";
+import { compact, ms, newId, orderBy, type MemoryStore } from "./store";
+
+// ─── Mediation Topics ─────────────────────────────────────────────────────────
+
+export function createMemoryMediationTopicRepository(store: MemoryStore): MediationTopicRepository {
+  const topics = store.table<DbMediationTopic>("mediation_topics");
+  const newestFirst = (rows: DbMediationTopic[]) => orderBy(rows, [(t) => t.createdAt, "desc"]);
+
+  return {
+    async findById(id) {
+      return topics.get(id);
+    },
+
+    async findByFamilyId(familyId) {
+      return newestFirst(topics.filter((t) => t.familyId === familyId));
+    },
+
+    async findByFamilyIdAndStatus(familyId, status) {
+      return newestFirst(topics.filter((t) => t.familyId === familyId && t.status === status));
+    },
+
+    async create(topic) {
+      const now = store.nowIso();
+      return topics.insert(
+        compact<DbMediationTopic>({
+          id: newId(),
+          familyId: topic.familyId,
+          parentId: topic.parentId,
+          title: topic.title,
+          description: topic.description,
+          status: topic.status,
+          draftSuggestion: topic.draftSuggestion,
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+    },
+
+    async update(id, data) {
+      const fields: Record<string, string | null> = {};
+      if (data.title !== undefined) fields.title = data.title;
+      if (data.description !== undefined) fields.description = data.description || null;
+      if (data.status !== undefined) fields.status = data.status;
+      if (data.draftSuggestion !== undefined) fields.draftSuggestion = data.draftSuggestion || null;
+      if (data.resolvedAt !== undefined) {
+        fields.resolvedAt = data.resolvedAt ? new Date(data.resolvedAt).toISOString() : null;
+      }
+      if (Object.keys(fields).length === 0) return topics.get(id);
+      return topics.update(id, (t) => compact({ ...t, ...fields, updatedAt: store.nowIso() }));
+    },
+
+    async saveDraft(id, draftSuggestion) {
+      return topics.update(id, (t) => ({ ...t, draftSuggestion, updatedAt: store.nowIso() }));
+    },
+
+    async resolve(id) {
+      const now = store.nowIso();
+      return topics.update(id, (t) => ({ ...t, status: "resolved", resolvedAt: now, updatedAt: now }));
+    },
+
+    async delete(id) {
+      return topics.delete(id);
+    },
+  };
+}
+
+// ─── Mediation Warnings ───────────────────────────────────────────────────────
+
+export function createMemoryMediationWarningRepository(store: MemoryStore): MediationWarningRepository {
+  const warnings = store.table<DbMediationWarning>("mediation_warnings");
+  const newestFirst = (rows: DbMediationWarning[]) => orderBy(rows, [(w) => ms(w.flaggedAt), "desc"]);
+
+  return {
+    async findById(id) {
+      return warnings.get(id);
+    },
+
+    async findByFamilyId(familyId) {
+      return newestFirst(warnings.filter((w) => w.familyId === familyId));
+    },
+
+    async findByFamilyIdAndDateRange(familyId, startDate, endDate) {
+      const start = ms(startDate);
+      const end = ms(endDate);
+      return newestFirst(
+        warnings.filter((w) => w.familyId === familyId && ms(w.flaggedAt) >= start && ms(w.flaggedAt) <= end)
+      );
+    },
+
+    async findUndismissedByFamilyId(familyId) {
+      return newestFirst(warnings.filter((w) => w.familyId === familyId && !w.dismissed));
+    },
+
+    async create(warning) {
+      const now = store.nowIso();
+      return warnings.insert({
+        id: newId(),
+        familyId: warning.familyId,
+        messageId: warning.messageId,
+        senderParentId: warning.senderParentId,
+        category: warning.category,
+        severity: warning.severity,
+        title: warning.title,
+        description: warning.description,
+        excerpt: warning.excerpt,
+        flaggedAt: new Date(warning.flaggedAt).toISOString(),
+        dismissed: false,
+        createdAt: now,
+        updatedAt: now,
+      });
+    },
+
+    async dismiss(id, dismissedBy) {
+      const now = store.nowIso();
+      return warnings.update(id, (w) => ({ ...w, dismissed: true, dismissedAt: now, dismissedBy, updatedAt: now }));
+    },
+
+    async getStats(familyId) {
+      const family = warnings.filter((w) => w.familyId === familyId);
+      return {
+        total: family.length,
+        undismissed: family.filter((w) => !w.dismissed).length,
+        highSeverityCount: family.filter((w) => w.severity === "high").length,
+      };
+    },
+  };
+}
@@ -0,0 +1,305 @@
+/**
+ * KidSchedule – In-Memory Messaging Repositories
+ *
+ * Message threads, hash-chained messages and their verifications, SMS relay
+ * participants and SMS opt-in/opt-out subscriptions.
+ */
+
+import type {
+  HashChainVerificationRepository,
+  MessageRepository,
+  MessageThreadRepository,
+  SmsRelayParticipantRepository,
+  SmsSubscriptionRepository,
+} from "../repositories";
+import type {
+  DbHashChainVerification,
+  DbMessage,
+  DbMessageThread,
+  DbSmsRelayParticipant,
+  DbSmsSubscription,
+} from "../types";
+import { computeMessageHash } from "../../hash-chain-engine";
+import { compact, ms, newId, orderBy, page, UniqueViolationError, type MemoryStore } from "./store";
+
+// ─── Message Threads ──────────────────────────────────────────────────────────
+
+export function createMemoryMessageThreadRepository(store: MemoryStore): MessageThreadRepository {
+  const threads = store.table<DbMessageThread>("message_threads");
+  const messages = store.table<DbMessage>("messages");
+  const mostRecent = (rows: DbMessageThread[]) => orderBy(rows, [(t) => ms(t.lastMessageAt), "desc"]);
+
+  return {
+    async findById(id) {
+      return threads.get(id);
+    },
+
+    async findByFamilyId(familyId) {
+      return mostRecent(threads.filter((t) => t.familyId === familyId));
+    },
+
+    async findByParticipantsAndSubject(familyId, participantIds, subjectKeyword) {
+      const keyword = subjectKeyword.toLowerCase();
+      const candidates = threads.filter(
+        (t) => t.familyId === familyId && !!t.subject && t.subject.toLowerCase().includes(keyword)
+      );
+      // Both participants must have posted in the thread
+      const matching = candidates.filter((t) => {
+        const senders = new Set(messages.filter((m) => m.threadId === t.id).map((m) => m.senderId));
+        return participantIds.every((id) => senders.has(id));
+      });
+      return mostRecent(matching)[0] ?? null;
+    },
+
+    async create(thread) {
+      const now = store.nowIso();
+      return threads.insert(
+        compact<DbMessageThread>({
+          id: newId(),
+          familyId: thread.familyId,
+          subject: thread.subject,
+          createdAt: now,
+          lastMessageAt: now,
+        })
+      );
+    },
+
+    async update(id, data) {
+      if (data.subject === undefined) return null;
+      return threads.update(id, (t) => ({ ...t, subject: data.subject }));
+    },
+  };
+}
+
+// ─── Messages ─────────────────────────────────────────────────────────────────
+
+export function createMemoryMessageRepository(store: MemoryStore): MessageRepository {
+  const messages = store.table<DbMessage>("messages");
+  const threads = store.table<DbMessageThread>("message_threads");
+  const newestFirst = (rows: DbMessage[]) => orderBy(rows, [(m) => ms(m.sentAt), "desc"]);
+
+  return {
+    async findById(id) {
+      return messages.get(id);
+    },
+
+    async findByThreadId(threadId) {
+      return orderBy(
+        messages.filter((m) => m.threadId === threadId),
+        [(m) => m.chainIndex, "asc"]
+      );
+    },
+
+    async findByFamilyId(familyId) {
+      return newestFirst(messages.filter((m) => m.familyId === familyId));
+    },
+
+    async findUnreadByFamilyId(familyId) {
+      return newestFirst(messages.filter((m) => m.familyId === familyId && !m.readAt));
+    },
+
+    async findUnreadSentBefore(sentBefore, limit = 200) {
+      return page(
+        orderBy(
+          messages.filter((m) => !m.readAt && ms(m.sentAt) < ms(sentBefore)),
+          [(m) => ms(m.sentAt), "asc"]
+        ),
+        limit
+      );
+    },
+
+    async create(data) {
+      // Link onto the end of the thread's hash chain
+      const [last] = orderBy(
+        messages.filter((m) => m.threadId === data.threadId),
+        [(m) => m.chainIndex, "desc"]
+      );
+      const chainIndex = last ? last.chainIndex + 1 : 0;
+      const previousHash = last ? last.messageHash : null;
+      const messageHash = await computeMessageHash(
+        {
+          threadId: data.threadId,
+          senderId: data.senderId,
+          body: data.body,
+          sentAt: data.sentAt,
+          chainIndex,
+        },
+        previousHash
+      );
+
+      const now = store.nowIso();
+      const message = messages.insert(
+        compact<DbMessage>({
+          id: newId(),
+          threadId: data.threadId,
+          familyId: data.familyId,
+          senderId: data.senderId,
+          body: data.body,
+          sentAt: data.sentAt,
+          readAt: data.readAt,
+          attachmentIds: data.attachmentIds,
+          toneAnalysis: data.toneAnalysis,
+          messageHash,
+          previousHash: previousHash ?? undefined,
+          chainIndex,
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+      threads.update(data.threadId, (t) => ({ ...t, lastMessageAt: data.sentAt }));
+      return message;
+    },
+
+    async markAsRead(id, readAt) {
+      return messages.update(id, (m) => ({ ...m, readAt, updatedAt: store.nowIso() }));
+    },
+
+    async update() {
+      throw new Error("Messages cannot be updated after creation for hash chain integrity");
+    },
+  };
+}
+
+// ─── Hash Chain Verifications ─────────────────────────────────────────────────
+
+export function createMemoryHashChainVerificationRepository(store: MemoryStore): HashChainVerificationRepository {
+  const verifications = store.table<DbHashChainVerification>("hash_chain_verifications");
+  const newestFirst = (rows: DbHashChainVerification[]) => orderBy(rows, [(v) => ms(v.verifiedAt), "desc"]);
+
+  return {
+    async findById(id) {
+      return verifications.get(id);
+    },
+
+    async findByThreadId(threadId) {
+      return newestFirst(verifications.filter((v) => v.threadId === threadId));
+    },
+
+    async create(data) {
+      return verifications.insert(
+        compact<DbHashChainVerification>({
+          id: newId(),
+          threadId: data.threadId,
+          verifiedAt: data.verifiedAt,
+          verifiedBy: data.verifiedBy,
+          isValid: data.isValid,
+          tamperDetectedAtIndex: data.tamperDetectedAtIndex,
+          verificationReport: data.verificationReport,
+        })
+      );
+    },
+
+    async findLatestByThreadId(threadId) {
+      return newestFirst(verifications.filter((v) => v.threadId === threadId))[0] ?? null;
+    },
+  };
+}
+
+// ─── SMS Relay Participants ───────────────────────────────────────────────────
+
+export function createMemorySmsRelayParticipantRepository(store: MemoryStore): SmsRelayParticipantRepository {
+  const participants = store.table<DbSmsRelayParticipant>("sms_relay_participants");
+
+  return {
+    async findByParentId(parentId) {
+      return participants.find((p) => p.parentId === parentId);
+    },
+
+    async findByFamilyId(familyId) {
+      return orderBy(
+        participants.filter((p) => p.familyId === familyId && p.isActive),
+        [(p) => p.enrolledAt, "asc"]
+      );
+    },
+
+    async findByProxyNumber(proxyNumber) {
+      return participants.find((p) => p.proxyNumber === proxyNumber && p.isActive);
+    },
+
+    async findByPhoneAndFamily(phone, familyId) {
+      return participants.find((p) => p.phone === phone && p.familyId === familyId && p.isActive);
+    },
+
+    async create(data) {
+      if (participants.find((p) => p.familyId === data.familyId && p.parentId === data.parentId)) {
+        throw new UniqueViolationError("sms_relay_participants_family_id_parent_id_key");
+      }
+      return participants.insert({
+        id: newId(),
+        familyId: data.familyId,
+        parentId: data.parentId,
+        phone: data.phone,
+        proxyNumber: data.proxyNumber,
+        isActive: true,
+        enrolledAt: store.nowIso(),
+      });
+    },
+
+    async deactivate(parentId) {
+      participants.updateWhere((p) => p.parentId === parentId, (p) => ({ ...p, isActive: false }));
+    },
+  };
+}
+
+// ─── SMS Subscriptions ────────────────────────────────────────────────────────
+
+export function createMemorySmsSubscriptionRepository(store: MemoryStore): SmsSubscriptionRepository {
+  const subscriptions = store.table<DbSmsSubscription>("sms_subscriptions");
+
+  return {
+    async findByPhoneNumber(phoneNumber) {
+      return subscriptions.find((s) => s.phoneNumber === phoneNumber);
+    },
+
+    async findByFamilyAndPhone(familyId, phoneNumber) {
+      return subscriptions.find((s) => s.familyId === familyId && s.phoneNumber === phoneNumber);
+    },
+
+    async findById(id) {
+      return subscriptions.get(id);
+    },
+
+    async create(data) {
+      if (subscriptions.find((s) => s.familyId === data.familyId && s.phoneNumber === data.phoneNumber)) {
+        throw new UniqueViolationError("sms_subscriptions_family_id_phone_number_key");
+      }
+      const now = store.nowIso();
+      return subscriptions.insert({
+        id: newId(),
+        familyId: data.familyId,
+        phoneNumber: data.phoneNumber,
+        optedOut: false,
+        optedOutAt: null,
+        createdAt: now,
+        updatedAt: now,
+      });
+    },
+
+    async update(id, data) {
+      if (data.optedOut === undefined && data.optedOutAt === undefined) {
+        return subscriptions.get(id);
+      }
+      return subscriptions.update(id, (s) => ({
+        ...s,
+        optedOut: data.optedOut ?? s.optedOut,
+        optedOutAt:
+          data.optedOutAt === undefined
+            ? s.optedOutAt
+            : data.optedOutAt
+              ? new Date(data.optedOutAt).toISOString()
+              : null,
+        updatedAt: store.nowIso(),
+      }));
+    },
+
+    async findOptedOut(limit = 100) {
+      return page(
+        orderBy(
+          subscriptions.filter((s) => s.optedOut),
+          [(s) => (s.optedOutAt ? ms(s.optedOutAt) : undefined), "desc"]
+        ),
+        limit
+      );
+    },
+  };
+}
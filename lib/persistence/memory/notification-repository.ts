@@ -0,0 +1,345 @@
+/**
+ * KidSchedule – In-Memory Notification Repositories
+ *
+ * Parent reminders, scheduled custody-transition notifications,
+ * per-parent notification preferences, browser push subscriptions and the
+ * notification event outbox.
+ */
+
+import type {
+  NotificationEventRepository,
+  NotificationPreferenceRepository,
+  PushSubscriptionRepository,
+  ReminderRepository,
+  ScheduledNotificationRepository,
+} from "../repositories";
+import type {
+  DbNotificationEvent,
+  DbNotificationPreference,
+  DbPushSubscription,
+  DbReminder,
+  DbScheduledNotification,
+} from "../types";
+import { applyPatch, compact, ms, newId, orderBy, page, type MemoryStore } from "./store";
+
+const toIso = (value: string) => new Date(value).toISOString();
+
+// ─── Reminders ────────────────────────────────────────────────────────────────
+
+export function createMemoryReminderRepository(store: MemoryStore): ReminderRepository {
+  const reminders = store.table<DbReminder>("reminders");
+  const byDue = (rows: DbReminder[]) =>
+    orderBy(rows, [(r) => (r.dueAt ? ms(r.dueAt) : undefined), "asc"], [(r) => r.createdAt, "asc"]);
+
+  return {
+    async findById(id) {
+      return reminders.get(id);
+    },
+
+    async findByParentId(parentId) {
+      return byDue(reminders.filter((r) => r.parentId === parentId));
+    },
+
+    async findPendingByParentId(parentId) {
+      return byDue(reminders.filter((r) => r.parentId === parentId && !r.completed));
+    },
+
+    async findByFamilyId(familyId) {
+      return byDue(reminders.filter((r) => r.familyId === familyId));
+    },
+
+    async create(reminder) {
+      return reminders.insert(
+        compact<DbReminder>({
+          id: newId(),
+          familyId: reminder.familyId,
+          parentId: reminder.parentId,
+          text: reminder.text,
+          dueAt: reminder.dueAt ? toIso(reminder.dueAt) : undefined,
+          completed: reminder.completed ?? false,
+          completedAt: reminder.completedAt ? toIso(reminder.completedAt) : undefined,
+          createdAt: store.nowIso(),
+        })
+      );
+    },
+
+    async complete(id) {
+      const [completed] = reminders.updateWhere(
+        (r) => r.id === id && !r.completed,
+        (r) => ({ ...r, completed: true, completedAt: store.nowIso() })
+      );
+      return completed ?? null;
+    },
+
+    async update(id, data) {
+      return reminders.update(id, (r) =>
+        compact({
+          ...r,
+          text: data.text ?? r.text,
+          dueAt: data.dueAt === undefined ? r.dueAt : data.dueAt ? toIso(data.dueAt) : undefined,
+          completed: data.completed ?? r.completed,
+          completedAt:
+            data.completedAt === undefined ? r.completedAt : data.completedAt ? toIso(data.completedAt) : undefined,
+        })
+      );
+    },
+
+    async delete(id) {
+      return reminders.delete(id);
+    },
+  };
+}
+
+// ─── Scheduled Notifications ──────────────────────────────────────────────────
+
+export function createMemoryScheduledNotificationRepository(store: MemoryStore): ScheduledNotificationRepository {
+  const notifications = store.table<DbScheduledNotification>("scheduled_notifications");
+  const bySchedule = (rows: DbScheduledNotification[], direction: "asc" | "desc") =>
+    orderBy(rows, [(n) => ms(n.scheduledAt), direction]);
+
+  function pendingBetween(startTime: string, endTime: string, limit: number): DbScheduledNotification[] {
+    const start = ms(startTime);
+    const end = ms(endTime);
+    return page(
+      bySchedule(
+        notifications.filter(
+          (n) => n.deliveryStatus === "pending" && ms(n.scheduledAt) >= start && ms(n.scheduledAt) <= end
+        ),
+        "asc"
+      ),
+      limit
+    );
+  }
+
+  return {
+    async findById(id) {
+      return notifications.get(id);
+    },
+
+    async findPendingByTimeRange(startTime, endTime, limit = 100) {
+      return pendingBetween(startTime, endTime, limit);
+    },
+
+    async findPendingByTimeRangeForDelivery(startTime, endTime, limit = 100) {
+      // No row locks to take: a single process owns the store
+      return pendingBetween(startTime, endTime, limit);
+    },
+
+    async findByFamilyId(familyId) {
+      return bySchedule(notifications.filter((n) => n.familyId === familyId), "desc");
+    },
+
+    async findByParentId(parentId) {
+      return bySchedule(notifications.filter((n) => n.parentId === parentId), "desc");
+    },
+
+    async findFailed(limit = 50) {
+      return page(bySchedule(notifications.filter((n) => n.deliveryStatus === "failed"), "asc"), limit);
+    },
+
+    async findExisting(transitionAt, parentId, notificationType) {
+      const at = ms(transitionAt);
+      return notifications.find(
+        (n) => ms(n.transitionAt) === at && n.parentId === parentId && n.notificationType === notificationType
+      );
+    },
+
+    async findFailedForRetry(limit = 50) {
+      // ORDER BY last_retry_at ASC NULLS FIRST
+      return page(
+        orderBy(
+          notifications.filter((n) => n.deliveryStatus === "failed" && n.retryCount < 3),
+          [(n) => (n.lastRetryAt ? ms(n.lastRetryAt) : Number.NEGATIVE_INFINITY), "asc"]
+        ),
+        limit
+      );
+    },
+
+    async create(notification) {
+      const now = store.nowIso();
+      return notifications.insert(
+        compact<DbScheduledNotification>({
+          id: newId(),
+          familyId: notification.familyId,
+          parentId: notification.parentId,
+          notificationType: notification.notificationType,
+          scheduledAt: toIso(notification.scheduledAt),
+          deliveryMethod: notification.deliveryMethod,
+          deliveryStatus: notification.deliveryStatus,
+          transitionAt: toIso(notification.transitionAt),
+          fromParentId: notification.fromParentId,
+          toParentId: notification.toParentId,
+          location: notification.location || undefined,
+          retryCount: notification.retryCount,
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+    },
+
+    async update(id, data) {
+      const fields = {
+        scheduledAt: data.scheduledAt === undefined ? undefined : toIso(data.scheduledAt),
+        sentAt: data.sentAt,
+        deliveryStatus: data.deliveryStatus,
+        deliveryMethod: data.deliveryMethod,
+        messageId: data.messageId,
+        errorMessage: data.errorMessage,
+        retryCount: data.retryCount,
+        lastRetryAt: data.lastRetryAt,
+      };
+      if (Object.values(fields).every((value) => value === undefined)) return null;
+      return notifications.update(id, (n) => ({ ...applyPatch(n, fields), updatedAt: store.nowIso() }));
+    },
+
+    async cancel(id) {
+      return (
+        notifications.update(id, (n) => ({ ...n, deliveryStatus: "cancelled", updatedAt: store.nowIso() })) !== null
+      );
+    },
+
+    async delete(id) {
+      return notifications.delete(id);
+    },
+  };
+}
+
+// ─── Notification Preferences ─────────────────────────────────────────────────
+
+export function createMemoryNotificationPreferenceRepository(store: MemoryStore): NotificationPreferenceRepository {
+  const preferences = store.table<DbNotificationPreference>("notification_preferences", (row) => row.parentId);
+
+  return {
+    async findByParentId(parentId) {
+      return preferences.get(parentId);
+    },
+
+    async findByFamilyId(familyId) {
+      return preferences.filter((p) => p.familyId === familyId);
+    },
+
+    async upsert(preference) {
+      const now = store.nowIso();
+      const existing = preferences.get(preference.parentId);
+      return preferences.put(
+        compact<DbNotificationPreference>({
+          parentId: preference.parentId,
+          familyId: preference.familyId,
+          types: preference.types,
+          events: preference.events ?? {},
+          quietHoursStart: preference.quietHoursStart,
+          quietHoursEnd: preference.quietHoursEnd,
+          digestHour: preference.digestHour,
+          createdAt: existing?.createdAt ?? now,
+          updatedAt: now,
+        })
+      );
+    },
+  };
+}
+
+// ─── Push Subscriptions ───────────────────────────────────────────────────────
+
+export function createMemoryPushSubscriptionRepository(store: MemoryStore): PushSubscriptionRepository {
+  const subscriptions = store.table<DbPushSubscription>("push_subscriptions");
+  const byEndpoint = (endpoint: string) => subscriptions.find((s) => s.endpoint === endpoint);
+
+  return {
+    async findByParentId(parentId) {
+      return orderBy(
+        subscriptions.filter((s) => s.parentId === parentId),
+        [(s) => s.createdAt, "asc"]
+      );
+    },
+
+    async findByEndpoint(endpoint) {
+      return byEndpoint(endpoint);
+    },
+
+    async upsert(subscription) {
+      const now = store.nowIso();
+      const existing = byEndpoint(subscription.endpoint);
+      return subscriptions.put(
+        compact<DbPushSubscription>({
+          id: existing?.id ?? newId(),
+          parentId: subscription.parentId,
+          endpoint: subscription.endpoint,
+          p256dh: subscription.p256dh,
+          auth: subscription.auth,
+          userAgent: subscription.userAgent,
+          lastUsedAt: existing?.lastUsedAt,
+          createdAt: existing?.createdAt ?? now,
+          updatedAt: now,
+        })
+      );
+    },
+
+    async markUsed(id) {
+      subscriptions.update(id, (s) => ({ ...s, lastUsedAt: store.nowIso() }));
+    },
+
+    async deleteByEndpoint(endpoint) {
+      return subscriptions.deleteWhere((s) => s.endpoint === endpoint) > 0;
+    },
+  };
+}
+
+// ─── Notification Events ──────────────────────────────────────────────────────
+
+export function createMemoryNotificationEventRepository(store: MemoryStore): NotificationEventRepository {
+  const events = store.table<DbNotificationEvent>("notification_events");
+
+  return {
+    async findById(id) {
+      return events.get(id);
+    },
+
+    async findByRecipient(recipientParentId, limit = 50) {
+      return page(
+        orderBy(
+          events.filter((e) => e.recipientParentId === recipientParentId),
+          [(e) => ms(e.createdAt), "desc"]
+        ),
+        limit
+      );
+    },
+
+    async findPending(createdBefore, limit = 500) {
+      return page(
+        orderBy(
+          events.filter((e) => e.status === "pending" && ms(e.createdAt) < ms(createdBefore)),
+          [(e) => ms(e.createdAt), "asc"]
+        ),
+        limit
+      );
+    },
+
+    async create(event) {
+      const duplicate = events.find(
+        (e) => e.recipientParentId === event.recipientParentId && e.dedupeKey === event.dedupeKey
+      );
+      if (duplicate) {
+        return null;
+      }
+      return events.insert(
+        compact<DbNotificationEvent>({
+          ...event,
+          id: newId(),
+          createdAt: store.nowIso(),
+        })
+      );
+    },
+
+    async update(id, data) {
+      // Like the Postgres UPDATE, an update without errorMessage clears it
+      return events.update(id, (e) => compact({ ...applyPatch(e, data), errorMessage: data.errorMessage }));
+    },
+
+    async markDigested(ids, sentAt) {
+      return events.updateWhere(
+        (e) => ids.includes(e.id) && e.status === "pending",
+        (e) => ({ ...e, status: "digested", deliveryMethod: "email", sentAt: toIso(sentAt) })
+      ).length;
+    },
+  };
+}
@@ -0,0 +1,438 @@
+/**
+ * KidSchedule – In-Memory Schedule Domain Repositories
+ *
+ * Change requests (and their discussion messages), schedule overrides,
+ * handoff check-ins, holiday definitions and holiday exception rules.
+ */
+
+import type {
+  ChangeRequestMessageRepository,
+  HandoffCheckInRepository,
+  HolidayExceptionRuleRepository,
+  HolidayRepository,
+  ScheduleChangeRequestRepository,
+  ScheduleOverrideRepository,
+} from "../repositories";
+import type {
+  DbChangeRequestMessage,
+  DbHandoffCheckIn,
+  DbHolidayDefinition,
+  DbHolidayExceptionRule,
+  DbScheduleChangeRequest,
+  DbScheduleOverride,
+} from "../types";
+import { CheckViolationError, compact, ms, newId, orderBy, type MemoryStore } from "./store";
+
+// Mirrors schedule_change_requests_status_check (0022) and the change_type check (0021)
+const CHANGE_REQUEST_STATUSES = new Set([
+  "pending",
+  "accepted",
+  "approved",
+  "declined",
+  "countered",
+  "withdrawn",
+  "cancelled",
+  "expired",
+]);
+const CHANGE_TYPES = new Set(["swap", "cancel", "extra"]);
+
+// ─── Schedule Change Requests ─────────────────────────────────────────────────
+
+export function createMemoryScheduleChangeRequestRepository(store: MemoryStore): ScheduleChangeRequestRepository {
+  const requests = store.table<DbScheduleChangeRequest>("schedule_change_requests");
+  const newestFirst = (rows: DbScheduleChangeRequest[]) => orderBy(rows, [(r) => r.createdAt, "desc"]);
+
+  function respond(
+    id: string,
+    status: string,
+    respondedBy: string,
+    responseNote?: string
+  ): DbScheduleChangeRequest | null {
+    return requests.update(id, (r) =>
+      compact({ ...r, status, respondedBy, responseNote, respondedAt: store.nowIso() })
+    );
+  }
+
+  return {
+    async findById(id) {
+      return requests.get(id);
+    },
+
+    async findByFamilyId(familyId) {
+      return newestFirst(requests.filter((r) => r.familyId === familyId));
+    },
+
+    async findByFamilyIdAndStatus(familyId, status) {
+      return newestFirst(requests.filter((r) => r.familyId === familyId && r.status === status));
+    },
+
+    async findByRequestedBy(familyId, parentId) {
+      return newestFirst(requests.filter((r) => r.familyId === familyId && r.requestedBy === parentId));
+    },
+
+    async findPendingByFamilyId(familyId) {
+      return newestFirst(requests.filter((r) => r.familyId === familyId && r.status === "pending"));
+    },
+
+    async create(request) {
+      const changeType = request.changeType ?? "swap";
+      if (!CHANGE_REQUEST_STATUSES.has(request.status)) {
+        throw new CheckViolationError("schedule_change_requests_status_check");
+      }
+      if (!CHANGE_TYPES.has(changeType)) {
+        throw new CheckViolationError("schedule_change_requests_change_type_check");
+      }
+      return requests.insert(
+        compact<DbScheduleChangeRequest>({
+          id: newId(),
+          familyId: request.familyId,
+          requestedBy: request.requestedBy,
+          title: request.title,
+          description: request.description,
+          givingUpPeriodStart: new Date(request.givingUpPeriodStart).toISOString(),
+          givingUpPeriodEnd: new Date(request.givingUpPeriodEnd).toISOString(),
+          requestedMakeUpStart: new Date(request.requestedMakeUpStart).toISOString(),
+          requestedMakeUpEnd: new Date(request.requestedMakeUpEnd).toISOString(),
+          status: request.status,
+          changeType,
+          expiresAt: request.expiresAt ? new Date(request.expiresAt).toISOString() : undefined,
+          createdAt: store.nowIso(),
+        })
+      );
+    },
+
+    async approve(id, respondedBy, responseNote) {
+      return respond(id, "accepted", respondedBy, responseNote);
+    },
+
+    async decline(id, respondedBy, responseNote) {
+      return respond(id, "declined", respondedBy, responseNote);
+    },
+
+    async counter(id, respondedBy, responseNote) {
+      return respond(id, "countered", respondedBy, responseNote);
+    },
+
+    async withdraw(id, withdrawnBy) {
+      // Only a pending request can be withdrawn
+      const withdrawn = requests.updateWhere(
+        (r) => r.id === id && r.status === "pending",
+        (r) => ({ ...r, status: "withdrawn", respondedBy: withdrawnBy, respondedAt: store.nowIso() })
+      );
+      return withdrawn.length > 0;
+    },
+
+    async revoke(id, revokedBy, responseNote) {
+      const [revoked] = requests.updateWhere(
+        (r) => r.id === id && r.status === "accepted",
+        (r) => compact({ ...r, status: "cancelled", respondedBy: revokedBy, responseNote, respondedAt: store.nowIso() })
+      );
+      return revoked ?? null;
+    },
+  };
+}
+
+// ─── Change Request Messages ──────────────────────────────────────────────────
+
+export function createMemoryChangeRequestMessageRepository(store: MemoryStore): ChangeRequestMessageRepository {
+  const messages = store.table<DbChangeRequestMessage>("schedule_change_request_messages");
+
+  return {
+    async findByRequestId(requestId) {
+      return orderBy(
+        messages.filter((m) => m.requestId === requestId),
+        [(m) => m.createdAt, "asc"]
+      );
+    },
+
+    async create(msg) {
+      if (msg.body.length < 1 || msg.body.length > 2000) {
+        throw new CheckViolationError("schedule_change_request_messages_body_check");
+      }
+      return messages.insert({
+        id: newId(),
+        requestId: msg.requestId,
+        familyId: msg.familyId,
+        senderParentId: msg.senderParentId,
+        body: msg.body,
+        createdAt: store.nowIso(),
+      });
+    },
+  };
+}
+
+// ─── Schedule Overrides ───────────────────────────────────────────────────────
+
+export function createMemoryScheduleOverrideRepository(store: MemoryStore): ScheduleOverrideRepository {
+  const overrides = store.table<DbScheduleOverride>("schedule_overrides");
+  const byPrecedence = (rows: DbScheduleOverride[]) =>
+    orderBy(rows, [(o) => o.priority, "desc"], [(o) => o.createdAt, "desc"]);
+
+  return {
+    async findById(id) {
+      return overrides.get(id);
+    },
+
+    async findByFamilyId(familyId) {
+      return orderBy(
+        overrides.filter((o) => o.familyId === familyId),
+        [(o) => o.createdAt, "desc"]
+      );
+    },
+
+    async findActiveByFamilyId(familyId) {
+      return byPrecedence(overrides.filter((o) => o.familyId === familyId && o.status === "active"));
+    },
+
+    async findByTimeRange(familyId, startDate, endDate) {
+      const start = ms(startDate);
+      const end = ms(endDate);
+      return byPrecedence(
+        overrides.filter(
+          (o) => o.familyId === familyId && ms(o.effectiveStart) < end && ms(o.effectiveEnd) > start
+        )
+      );
+    },
+
+    async create(override) {
+      return overrides.insert(
+        compact<DbScheduleOverride>({
+          id: newId(),
+          familyId: override.familyId,
+          type: override.overrideType,
+          overrideType: override.overrideType,
+          title: override.title,
+          description: override.description,
+          effectiveStart: new Date(override.effectiveStart).toISOString(),
+          effectiveEnd: new Date(override.effectiveEnd).toISOString(),
+          custodianParentId: override.custodianParentId,
+          sourceEventId: override.sourceEventId,
+          sourceRequestId: override.sourceRequestId,
+          sourceMediationId: override.sourceMediationId,
+          priority: override.priority,
+          status: override.status,
+          createdAt: store.nowIso(),
+          createdBy: override.createdBy,
+          notes: override.notes,
+        })
+      );
+    },
+
+    async update(id, data) {
+      return overrides.update(id, (o) => {
+        const overrideType = data.overrideType ?? data.type ?? o.overrideType;
+        return compact({
+          ...o,
+          type: overrideType,
+          overrideType,
+          title: data.title ?? o.title,
+          description: data.description ?? o.description,
+          effectiveStart: data.effectiveStart ? new Date(data.effectiveStart).toISOString() : o.effectiveStart,
+          effectiveEnd: data.effectiveEnd ? new Date(data.effectiveEnd).toISOString() : o.effectiveEnd,
+          custodianParentId: data.custodianParentId ?? o.custodianParentId,
+          priority: data.priority ?? o.priority,
+          status: data.status ?? o.status,
+          notes: data.notes ?? o.notes,
+        });
+      });
+    },
+
+    async cancel(id) {
+      return overrides.update(id, (o) => ({ ...o, status: "cancelled" })) !== null;
+    },
+
+    async cancelBySourceRequestId(requestId) {
+      return overrides.updateWhere(
+        (o) => o.sourceRequestId === requestId && o.status === "active",
+        (o) => ({ ...o, status: "cancelled" })
+      ).length;
+    },
+  };
+}
+
+// ─── Handoff Check-Ins ────────────────────────────────────────────────────────
+
+export function createMemoryHandoffCheckInRepository(store: MemoryStore): HandoffCheckInRepository {
+  const checkIns = store.table<DbHandoffCheckIn>("handoff_check_ins");
+
+  return {
+    async findById(id) {
+      return checkIns.get(id);
+    },
+
+    async findByFamilyIdAndRange(familyId, start, end) {
+      return orderBy(
+        checkIns.filter(
+          (c) => c.familyId === familyId && ms(c.occurredAt) >= ms(start) && ms(c.occurredAt) < ms(end)
+        ),
+        [(c) => ms(c.occurredAt), "asc"]
+      );
+    },
+
+    async create(checkIn) {
+      if (checkIn.fromParentId === checkIn.toParentId) {
+        throw new CheckViolationError("handoff_check_ins_check");
+      }
+      const now = store.nowIso();
+      return checkIns.insert(
+        compact<DbHandoffCheckIn>({
+          id: newId(),
+          familyId: checkIn.familyId,
+          kind: checkIn.kind,
+          occurredAt: new Date(checkIn.occurredAt).toISOString(),
+          fromParentId: checkIn.fromParentId,
+          toParentId: checkIn.toParentId,
+          recordedBy: checkIn.recordedBy,
+          note: checkIn.note,
+          status: "pending",
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+    },
+
+    async respond(id, status, respondedBy, responseNote) {
+      const now = store.nowIso();
+      const [answered] = checkIns.updateWhere(
+        (c) => c.id === id && c.status === "pending",
+        (c) => compact({ ...c, status, respondedBy, respondedAt: now, responseNote, updatedAt: now })
+      );
+      return answered ?? null;
+    },
+  };
+}
+
+// ─── Holidays ─────────────────────────────────────────────────────────────────
+
+export function createMemoryHolidayRepository(store: MemoryStore): HolidayRepository {
+  const holidays = store.table<DbHolidayDefinition>("holiday_definitions");
+  const byDate = (rows: DbHolidayDefinition[]) => orderBy(rows, [(h) => h.date, "asc"]);
+
+  return {
+    async findById(id) {
+      return holidays.get(id);
+    },
+
+    async findByJurisdiction(jurisdiction) {
+      return byDate(holidays.filter((h) => h.jurisdiction === jurisdiction));
+    },
+
+    async findByDateRange(jurisdiction, startDate, endDate) {
+      return byDate(
+        holidays.filter(
+          (h) => h.jurisdiction === jurisdiction && h.date !== undefined && h.date >= startDate && h.date < endDate
+        )
+      );
+    },
+
+    async findByFamily(familyId) {
+      return byDate(holidays.filter((h) => h.familyId === familyId));
+    },
+
+    async create(holiday) {
+      if ((holiday.date === undefined) === (holiday.rule === undefined)) {
+        throw new CheckViolationError("holiday_definitions_date_or_rule");
+      }
+      return holidays.insert(
+        compact<DbHolidayDefinition>({
+          id: newId(),
+          name: holiday.name,
+          date: holiday.date?.slice(0, 10),
+          rule: holiday.rule,
+          type: holiday.type,
+          jurisdiction: holiday.jurisdiction,
+          description: holiday.description,
+          familyId: holiday.familyId,
+          createdAt: store.nowIso(),
+        })
+      );
+    },
+  };
+}
+
+// ─── Holiday Exception Rules ──────────────────────────────────────────────────
+
+export function createMemoryHolidayExceptionRuleRepository(store: MemoryStore): HolidayExceptionRuleRepository {
+  // Keyed by (family_id, holiday_id); the row id is the holiday id, as in Postgres
+  const rules = store.table<DbHolidayExceptionRule>(
+    "holiday_exception_rules",
+    (row) => `${row.familyId}:${row.holidayId}`
+  );
+  const keyOf = (familyId: string, holidayId: string) => `${familyId}:${holidayId}`;
+
+  return {
+    async findByFamilyId(familyId) {
+      return rules.filter((r) => r.familyId === familyId);
+    },
+
+    async findByFamilyAndHoliday(familyId, holidayId) {
+      return rules.get(keyOf(familyId, holidayId));
+    },
+
+    async findPendingByFamilyId(familyId) {
+      return orderBy(
+        rules.filter((r) => r.familyId === familyId && r.approvalStatus === "pending"),
+        [(r) => r.proposedAt, "asc"]
+      );
+    },
+
+    async propose(rule, proposedBy) {
+      const now = store.nowIso();
+      const changeLog: DbHolidayExceptionRule["changeLog"] = [
+        { action: "propose", actor: proposedBy, timestamp: now, details: {} },
+      ];
+      const existing = rules.get(keyOf(rule.familyId, rule.holidayId));
+      if (existing) {
+        // ON CONFLICT re-opens the proposal but keeps the stored terms
+        return rules.put({
+          ...existing,
+          approvalStatus: "pending",
+          proposedBy,
+          proposedAt: now,
+          changeLog,
+          updatedAt: now,
+        });
+      }
+      return rules.insert(
+        compact<DbHolidayExceptionRule>({
+          id: rule.holidayId,
+          familyId: rule.familyId,
+          holidayId: rule.holidayId,
+          custodianParentId: rule.custodianParentId,
+          isEnabled: rule.isEnabled,
+          notes: rule.notes,
+          window: rule.window,
+          assignment: rule.assignment,
+          approvalStatus: "pending",
+          proposedBy,
+          proposedAt: now,
+          changeLog,
+          createdAt: now,
+          updatedAt: now,
+        }),
+        "holiday_exception_rules_pkey"
+      );
+    },
+
+    async confirm(familyId, holidayId, confirmedBy, approved) {
+      const current = rules.get(keyOf(familyId, holidayId));
+      if (!current || current.approvalStatus !== "pending") return null;
+      const now = store.nowIso();
+      return rules.put({
+        ...current,
+        approvalStatus: approved ? "approved" : "rejected",
+        confirmedBy,
+        confirmedAt: now,
+        changeLog: [
+          ...current.changeLog,
+          { action: approved ? "confirm" : "reject", actor: confirmedBy, timestamp: now, details: {} },
+        ],
+        updatedAt: now,
+      });
+    },
+
+    async delete(familyId, holidayId) {
+      return rules.delete(keyOf(familyId, holidayId));
+    },
+  };
+}
@@ -0,0 +1,441 @@
+/**
+ * KidSchedule – In-Memory School Domain Repositories
+ *
+ * School events, volunteer tasks, contacts, the document vault (with
+ * plan quotas and storage accounting), and lunch menus, accounts and
+ * transactions.
+ */
+
+import type {
+  LunchAccountRepository,
+  LunchMenuRepository,
+  LunchTransactionRepository,
+  SchoolContactRepository,
+  SchoolEventRepository,
+  SchoolVaultDocumentRepository,
+  VolunteerTaskRepository,
+} from "../repositories";
+import { HttpError } from "../repositories";
+import type {
+  DbLunchAccount,
+  DbLunchMenu,
+  DbLunchTransaction,
+  DbParent,
+  DbPlanTier,
+  DbSchoolContact,
+  DbSchoolEvent,
+  DbSchoolVaultDocument,
+  DbStripeCustomer,
+  DbSubscription,
+  DbVolunteerTask,
+} from "../types";
+import { compact, ms, newId, orderBy, page, type MemoryStore } from "./store";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const toIso = (value: string) => new Date(value).toISOString();
+
+// ─── School Contacts ──────────────────────────────────────────────────────────
+
+export function createMemorySchoolContactRepository(store: MemoryStore): SchoolContactRepository {
+  const contacts = store.table<DbSchoolContact>("school_contacts");
+
+  return {
+    async findById(id) {
+      return contacts.get(id);
+    },
+
+    async findByFamilyId(familyId) {
+      return orderBy(
+        contacts.filter((c) => c.familyId === familyId),
+        [(c) => c.name, "asc"]
+      );
+    },
+  };
+}
+
+// ─── School Events ────────────────────────────────────────────────────────────
+
+export function createMemorySchoolEventRepository(store: MemoryStore): SchoolEventRepository {
+  const events = store.table<DbSchoolEvent>("school_events");
+  const byStart = (rows: DbSchoolEvent[]) => orderBy(rows, [(e) => ms(e.startAt), "asc"]);
+
+  return {
+    async findById(id) {
+      return events.get(id);
+    },
+
+    async findByFamilyId(familyId) {
+      return byStart(events.filter((e) => e.familyId === familyId));
+    },
+
+    async findUpcoming(familyId, fromDate) {
+      const from = ms(fromDate);
+      return page(byStart(events.filter((e) => e.familyId === familyId && ms(e.startAt) >= from)), 50);
+    },
+
+    async create(event) {
+      const now = store.nowIso();
+      return events.insert(
+        compact<DbSchoolEvent>({
+          id: newId(),
+          familyId: event.familyId,
+          title: event.title,
+          description: event.description,
+          eventType: event.eventType,
+          startAt: toIso(event.startAt),
+          endAt: toIso(event.endAt),
+          location: event.location,
+          isAllDay: event.isAllDay,
+          attendingParentIds: event.attendingParentIds,
+          actionRequired: event.actionRequired,
+          actionDeadline: event.actionDeadline ? toIso(event.actionDeadline) : undefined,
+          actionDescription: event.actionDescription,
+          volunteerTaskIds: event.volunteerTaskIds,
+          accentColor: event.accentColor,
+          icon: event.icon,
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+    },
+
+    async update(id, data) {
+      const fields: Partial<DbSchoolEvent> = {};
+      if (data.title !== undefined) fields.title = data.title;
+      if (data.description !== undefined) fields.description = data.description;
+      if (data.startAt !== undefined) fields.startAt = toIso(data.startAt);
+      if (data.endAt !== undefined) fields.endAt = toIso(data.endAt);
+      if (Object.keys(fields).length === 0) return events.get(id);
+      return events.update(id, (e) => compact({ ...e, ...fields, updatedAt: store.nowIso() }));
+    },
+
+    async delete(id) {
+      return events.delete(id);
+    },
+  };
+}
+
+// ─── Volunteer Tasks ──────────────────────────────────────────────────────────
+
+export function createMemoryVolunteerTaskRepository(store: MemoryStore): VolunteerTaskRepository {
+  const tasks = store.table<DbVolunteerTask>("volunteer_tasks");
+  const bySchedule = (rows: DbVolunteerTask[]) => orderBy(rows, [(t) => ms(t.scheduledFor), "asc"]);
+
+  return {
+    async findById(id) {
+      return tasks.get(id);
+    },
+
+    async findByFamilyId(familyId) {
+      return bySchedule(tasks.filter((t) => t.familyId === familyId));
+    },
+
+    async findByEventId(eventId) {
+      return bySchedule(tasks.filter((t) => t.eventId === eventId));
+    },
+
+    async findUnassigned(familyId) {
+      return bySchedule(
+        tasks.filter((t) => t.familyId === familyId && !t.assignedParentId && t.status === "open")
+      );
+    },
+
+    async create(task) {
+      const now = store.nowIso();
+      return tasks.insert(
+        compact<DbVolunteerTask>({
+          id: newId(),
+          familyId: task.familyId,
+          eventId: task.eventId,
+          title: task.title,
+          description: task.description,
+          assignedParentId: task.assignedParentId,
+          status: task.status,
+          estimatedHours: task.estimatedHours,
+          scheduledFor: toIso(task.scheduledFor),
+          icon: task.icon,
+          iconColor: task.iconColor,
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+    },
+
+    async assign(id, parentId) {
+      return tasks.update(id, (t) => ({
+        ...t,
+        assignedParentId: parentId,
+        status: "assigned",
+        updatedAt: store.nowIso(),
+      }));
+    },
+
+    async complete(id) {
+      const now = store.nowIso();
+      return tasks.update(id, (t) => ({ ...t, status: "completed", completedAt: now, updatedAt: now }));
+    },
+  };
+}
+
+// ─── School Vault Documents ───────────────────────────────────────────────────
+
+const ALLOWED_FILE_TYPES = new Set<string>(["pdf", "docx", "xlsx", "jpg", "png"]);
+
+const STATUS_LABELS: Record<string, string> = {
+  available: "Available",
+  pending_signature: "Awaiting Signature",
+  signed: "Signed",
+  expired: "Expired",
+};
+
+export function createMemorySchoolVaultDocumentRepository(store: MemoryStore): SchoolVaultDocumentRepository {
+  const documents = store.table<DbSchoolVaultDocument>("school_vault_documents");
+  const families = store.table<{ id: string }>("families");
+  const parents = store.table<DbParent>("parents");
+  const customers = store.table<DbStripeCustomer>("stripe_customers");
+  const subscriptions = store.table<DbSubscription>("subscriptions");
+  const planTiers = store.table<DbPlanTier>("plan_tiers");
+
+  const newestFirst = (rows: DbSchoolVaultDocument[]) => orderBy(rows, [(d) => d.addedAt, "desc"]);
+  const live = (familyId: string) => (d: DbSchoolVaultDocument) => d.familyId === familyId && !d.isDeleted;
+
+  /** First active/trialing subscription held by any member of the family */
+  function familySubscription(familyId: string): DbSubscription | null {
+    const userIds = new Set(parents.filter((p) => p.familyId === familyId).map((p) => p.userId));
+    const customerIds = new Set(customers.filter((c) => userIds.has(c.userId)).map((c) => c.id));
+    return subscriptions.find(
+      (s) => customerIds.has(s.stripeCustomerId) && (s.status === "active" || s.status === "trialing")
+    );
+  }
+
+  function adjustUsedStorage(familyId: string, deltaBytes: number): void {
+    const subscription = familySubscription(familyId);
+    if (!subscription) return;
+    subscriptions.update(subscription.id, (s) => ({
+      ...s,
+      usedStorageBytes: Math.max(0, (s.usedStorageBytes ?? 0) + deltaBytes),
+    }));
+  }
+
+  return {
+    async findById(id) {
+      return documents.get(id);
+    },
+
+    async findByFamilyId(familyId) {
+      return orderBy(
+        documents.filter((d) => d.familyId === familyId),
+        [(d) => (d.status === "pending_signature" ? 0 : 1), "asc"],
+        [(d) => d.addedAt, "desc"]
+      );
+    },
+
+    async findByStatus(familyId, status, limit, offset) {
+      const isLive = live(familyId);
+      return page(newestFirst(documents.filter((d) => isLive(d) && d.status === status)), limit, offset);
+    },
+
+    async findExpired(familyId, limit, offset) {
+      const isLive = live(familyId);
+      const now = store.now().getTime();
+      return page(
+        newestFirst(
+          documents.filter(
+            (d) =>
+              isLive(d) && (d.status === "expired" || (!!d.actionDeadline && ms(d.actionDeadline) < now))
+          )
+        ),
+        limit,
+        offset
+      );
+    },
+
+    async findPending(familyId, limit, offset) {
+      const isLive = live(familyId);
+      return page(
+        newestFirst(documents.filter((d) => isLive(d) && d.status === "pending_signature")),
+        limit,
+        offset
+      );
+    },
+
+    async create(input) {
+      if (!ALLOWED_FILE_TYPES.has(input.fileType.toLowerCase())) {
+        throw new HttpError(
+          `Invalid file type: ${input.fileType}. Allowed types: ${Array.from(ALLOWED_FILE_TYPES).join(", ")}`,
+          400
+        );
+      }
+      if (!families.get(input.familyId)) {
+        throw new HttpError("Family not found", 404);
+      }
+
+      const subscription = familySubscription(input.familyId);
+      const maxDocuments = subscription ? planTiers.get(subscription.planTier)?.maxDocuments : undefined;
+      const documentCount = documents.count(live(input.familyId));
+      if (maxDocuments != null && maxDocuments > 0 && documentCount >= maxDocuments) {
+        throw new HttpError(`Document quota exceeded: ${documentCount}/${maxDocuments} documents`, 429);
+      }
+
+      const now = store.nowIso();
+      const document = documents.insert(
+        compact<DbSchoolVaultDocument>({
+          id: newId(),
+          familyId: input.familyId,
+          title: input.title,
+          fileType: input.fileType.toLowerCase(),
+          status: "available",
+          statusLabel: STATUS_LABELS.available,
+          addedAt: now,
+          addedBy: input.addedBy,
+          updatedAt: now,
+          isDeleted: false,
+          sizeBytes: input.sizeBytes,
+          url: input.url,
+          actionDeadline: input.actionDeadline ? toIso(input.actionDeadline) : undefined,
+        })
+      );
+      if (input.sizeBytes && input.sizeBytes > 0) {
+        adjustUsedStorage(input.familyId, input.sizeBytes);
+      }
+      return document;
+    },
+
+    async update(id, input) {
+      if (input.status === undefined && input.title === undefined && input.actionDeadline === undefined) {
+        throw new HttpError("No fields to update", 400);
+      }
+      if (input.status !== undefined && !(input.status in STATUS_LABELS)) {
+        throw new HttpError(
+          `Invalid status: ${input.status}. Allowed statuses: available, pending_signature, signed, expired`,
+          400
+        );
+      }
+      const [updated] = documents.updateWhere(
+        (d) => d.id === id && !d.isDeleted,
+        (d) =>
+          compact({
+            ...d,
+            ...(input.status !== undefined
+              ? { status: input.status, statusLabel: STATUS_LABELS[input.status] }
+              : {}),
+            title: input.title ?? d.title,
+            actionDeadline:
+              input.actionDeadline === undefined
+                ? d.actionDeadline
+                : input.actionDeadline
+                  ? toIso(input.actionDeadline)
+                  : undefined,
+            updatedAt: store.nowIso(),
+          })
+      );
+      return updated ?? null;
+    },
+
+    async delete(id, familyId) {
+      const document = documents.get(id);
+      if (!document || document.isDeleted) return false;
+      if (document.familyId !== familyId) {
+        throw new HttpError("Family ID mismatch", 403);
+      }
+      documents.update(id, (d) => ({ ...d, isDeleted: true, updatedAt: store.nowIso() }));
+      if (document.sizeBytes && document.sizeBytes > 0) {
+        adjustUsedStorage(familyId, -document.sizeBytes);
+      }
+      return true;
+    },
+
+    async hardDelete() {
+      const cutoff = store.now().getTime() - 30 * MS_PER_DAY;
+      return documents.deleteWhere((d) => d.isDeleted && ms(d.addedAt) < cutoff);
+    },
+  };
+}
+
+// ─── Lunch Menus ──────────────────────────────────────────────────────────────
+
+export function createMemoryLunchMenuRepository(store: MemoryStore): LunchMenuRepository {
+  const menus = store.table<DbLunchMenu>("lunch_menus", (row) => `${row.familyId}:${row.date}`);
+
+  return {
+    async findByFamilyIdSince(familyId, fromDate) {
+      return orderBy(
+        menus.filter((m) => m.familyId === familyId && m.date >= fromDate.slice(0, 10)),
+        [(m) => m.date, "asc"]
+      );
+    },
+  };
+}
+
+// ─── Lunch Accounts ───────────────────────────────────────────────────────────
+
+export function createMemoryLunchAccountRepository(store: MemoryStore): LunchAccountRepository {
+  const accounts = store.table<DbLunchAccount>("lunch_accounts");
+
+  return {
+    async findById(id) {
+      return accounts.get(id);
+    },
+
+    async findByFamilyId(familyId) {
+      return accounts.filter((a) => a.familyId === familyId);
+    },
+
+    async findByChildId(childId) {
+      return accounts.find((a) => a.childId === childId);
+    },
+
+    async create(data) {
+      return accounts.insert(
+        compact<DbLunchAccount>({
+          id: newId(),
+          familyId: data.familyId,
+          childId: data.childId,
+          accountNumber: data.accountNumber,
+          balanceCents: data.balanceCents,
+          autoReloadEnabled: data.autoReloadEnabled,
+          autoReloadThresholdCents: data.autoReloadThresholdCents,
+          autoReloadAmountCents: data.autoReloadAmountCents,
+          createdAt: store.nowIso(),
+        })
+      );
+    },
+
+    async updateBalance(id, balanceCents) {
+      return accounts.update(id, (a) => ({ ...a, balanceCents, lastTransactionAt: store.nowIso() }));
+    },
+  };
+}
+
+// ─── Lunch Transactions ───────────────────────────────────────────────────────
+
+export function createMemoryLunchTransactionRepository(store: MemoryStore): LunchTransactionRepository {
+  const transactions = store.table<DbLunchTransaction>("lunch_transactions");
+
+  return {
+    async findByAccountId(accountId, limit = 100) {
+      return page(
+        orderBy(
+          transactions.filter((t) => t.accountId === accountId),
+          [(t) => t.transactionDate, "desc"]
+        ),
+        limit
+      );
+    },
+
+    async create(data) {
+      return transactions.insert(
+        compact<DbLunchTransaction>({
+          id: newId(),
+          accountId: data.accountId,
+          amountCents: data.amountCents,
+          transactionType: data.transactionType,
+          description: data.description,
+          transactionDate: data.transactionDate.slice(0, 10),
+          createdAt: store.nowIso(),
+        })
+      );
+    },
+  };
+}
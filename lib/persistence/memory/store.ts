@@ -0,0 +1,259 @@
+/**
+ * KidSchedule – In-Memory Store
+ *
+ * Table storage shared by the in-memory repositories.  Rows are cloned on
+ * the way in and out, so callers can no more mutate stored state than they
+ * could a database row.  Unique constraints the repositories rely on raise
+ * UniqueViolationError with Postgres' SQLSTATE so callers handling "23505"
+ * behave the same against either backend.
+ */
+
+import { randomUUID } from "crypto";
+
+// ─── Errors ───────────────────────────────────────────────────────────────────
+
+export class UniqueViolationError extends Error {
+  /** Postgres SQLSTATE for unique_violation */
+  readonly code = "23505";
+
+  constructor(readonly constraint: string) {
+    super(`duplicate key value violates unique constraint "${constraint}"`);
+    this.name = "UniqueViolationError";
+  }
+}
+
+export class CheckViolationError extends Error {
+  /** Postgres SQLSTATE for check_violation */
+  readonly code = "23514";
+
+  constructor(readonly constraint: string) {
+    super(`new row violates check constraint "${constraint}"`);
+    this.name = "CheckViolationError";
+  }
+}
+
+/**
+ * Rows are plain JSON data (ISO strings, numbers, arrays, records), so a JSON
+ * round trip is a full deep copy; jsdom test environments lack structuredClone.
+ */
+function clone<T>(row: T): T {
+  return JSON.parse(JSON.stringify(row)) as T;
+}
+
+// ─── Table ────────────────────────────────────────────────────────────────────
+
+/**
+ * One table: rows keyed by primary key, kept in insertion order so that
+ * ties in ORDER BY resolve the same way on every run.
+ */
+export class MemoryTable<T extends object> {
+  private rows = new Map<string, T>();
+
+  constructor(private readonly keyOf: (row: T) => string) {}
+
+  get(key: string): T | null {
+    const row = this.rows.get(key);
+    return row ? clone(row) : null;
+  }
+
+  all(): T[] {
+    return [...this.rows.values()].map((row) => clone(row));
+  }
+
+  filter(predicate: (row: T) => boolean): T[] {
+    return [...this.rows.values()].filter(predicate).map((row) => clone(row));
+  }
+
+  find(predicate: (row: T) => boolean): T | null {
+    for (const row of this.rows.values()) {
+      if (predicate(row)) return clone(row);
+    }
+    return null;
+  }
+
+  count(predicate: (row: T) => boolean = () => true): number {
+    let total = 0;
+    for (const row of this.rows.values()) {
+      if (predicate(row)) total++;
+    }
+    return total;
+  }
+
+  /** Inserts a new row; throws UniqueViolationError on a duplicate primary key. */
+  insert(row: T, constraint = "pkey"): T {
+    const key = this.keyOf(row);
+    if (this.rows.has(key)) {
+      throw new UniqueViolationError(constraint);
+    }
+    this.rows.set(key, clone(row));
+    return clone(row);
+  }
+
+  /** Replaces the row with the same key, or inserts it. */
+  put(row: T): T {
+    this.rows.set(this.keyOf(row), clone(row));
+    return clone(row);
+  }
+
+  /** Applies `change` to the row with `key`; null when there is no such row. */
+  update(key: string, change: (row: T) => T): T | null {
+    const row = this.rows.get(key);
+    if (!row) return null;
+    const next = change(clone(row));
+    this.rows.set(key, clone(next));
+    return clone(next);
+  }
+
+  /** Applies `change` to every matching row and returns the updated rows. */
+  updateWhere(predicate: (row: T) => boolean, change: (row: T) => T): T[] {
+    const updated: T[] = [];
+    for (const [key, row] of this.rows) {
+      if (!predicate(row)) continue;
+      const next = change(clone(row));
+      this.rows.set(key, clone(next));
+      updated.push(clone(next));
+    }
+    return updated;
+  }
+
+  delete(key: string): boolean {
+    return this.rows.delete(key);
+  }
+
+  deleteWhere(predicate: (row: T) => boolean): number {
+    let deleted = 0;
+    for (const [key, row] of this.rows) {
+      if (predicate(row)) {
+        this.rows.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  /** @internal used by MemoryStore snapshots */
+  _dump(): Map<string, T> {
+    // Stored rows are replaced, never mutated, so sharing them is safe
+    return new Map(this.rows);
+  }
+
+  /** @internal used by MemoryStore snapshots */
+  _load(rows: Map<string, T>): void {
+    this.rows = new Map(rows);
+  }
+}
+
+// ─── Store ────────────────────────────────────────────────────────────────────
+
+export type MemoryStoreSnapshot = Map<string, Map<string, object>>;
+
+export interface MemoryStoreOptions {
+  /** Clock used for created/updated timestamps and expiry checks (default: wall clock) */
+  now?: () => Date;
+}
+
+/**
+ * All tables of one in-memory database.  Repositories created from the same
+ * store see each other's writes, like repositories sharing a connection.
+ */
+export class MemoryStore {
+  private readonly tables = new Map<string, MemoryTable<object>>();
+  private readonly clock: () => Date;
+
+  constructor(options: MemoryStoreOptions = {}) {
+    this.clock = options.now ?? (() => new Date());
+  }
+
+  /** Returns the named table, created on first use. */
+  table<T extends object>(name: string, keyOf: (row: T) => string = (row) => (row as { id: string }).id): MemoryTable<T> {
+    let table = this.tables.get(name);
+    if (!table) {
+      table = new MemoryTable<object>(keyOf as (row: object) => string);
+      this.tables.set(name, table);
+    }
+    return table as unknown as MemoryTable<T>;
+  }
+
+  now(): Date {
+    return this.clock();
+  }
+
+  nowIso(): string {
+    return this.clock().toISOString();
+  }
+
+  snapshot(): MemoryStoreSnapshot {
+    const snapshot: MemoryStoreSnapshot = new Map();
+    for (const [name, table] of this.tables) {
+      snapshot.set(name, table._dump());
+    }
+    return snapshot;
+  }
+
+  restore(snapshot: MemoryStoreSnapshot): void {
+    for (const [name, table] of this.tables) {
+      table._load(snapshot.get(name) ?? new Map());
+    }
+  }
+}
+
+// ─── Row Helpers ──────────────────────────────────────────────────────────────
+
+export function newId(): string {
+  return randomUUID();
+}
+
+/**
+ * Merges an update into a row the way the Postgres repositories' dynamic
+ * UPDATEs do: undefined leaves a column alone, null clears it.
+ */
+export function applyPatch<T extends object>(row: T, data: object): T {
+  const next: Record<string, unknown> = { ...(row as Record<string, unknown>) };
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    if (value === null) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+  }
+  return next as T;
+}
+
+/** Drops undefined/null values so stored rows match rowToDb output. */
+export function compact<T extends object>(row: T): T {
+  return Object.fromEntries(
+    Object.entries(row).filter(([, value]) => value !== undefined && value !== null)
+  ) as T;
+}
+
+type SortValue = string | number | boolean | undefined | null;
+
+/**
+ * Sorts rows by one or more keys.  Missing values sort last, as NULLs do in
+ * Postgres for ascending order.  The sort is stable, so ties keep insertion
+ * order.
+ */
+export function orderBy<T>(rows: T[], ...keys: Array<[(row: T) => SortValue, "asc" | "desc"]>): T[] {
+  return [...rows].sort((a, b) => {
+    for (const [valueOf, direction] of keys) {
+      const left = valueOf(a);
+      const right = valueOf(b);
+      if (left === right) continue;
+      if (left === undefined || left === null) return direction === "asc" ? 1 : -1;
+      if (right === undefined || right === null) return direction === "asc" ? -1 : 1;
+      const order = left < right ? -1 : 1;
+      return direction === "asc" ? order : -order;
+    }
+    return 0;
+  });
+}
+
+/** LIMIT / OFFSET */
+export function page<T>(rows: T[], limit?: number, offset = 0): T[] {
+  return limit === undefined ? rows.slice(offset) : rows.slice(offset, offset + limit);
+}
+
+export function ms(iso: string | undefined): number {
+  return iso ? Date.parse(iso) : Number.NaN;
+}
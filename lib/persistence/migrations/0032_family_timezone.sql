@@ -0,0 +1,9 @@
+-- Migration: 0032_family_timezone
+-- Stores the IANA timezone custody transitions are computed in, plus an
+-- optional per-parent display timezone for co-parents living in other zones.
+
+ALTER TABLE families
+  ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'America/New_York';
+
+ALTER TABLE parents
+  ADD COLUMN IF NOT EXISTS timezone TEXT;
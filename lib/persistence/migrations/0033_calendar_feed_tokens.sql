@@ -0,0 +1,22 @@
+-- Migration: 0033_calendar_feed_tokens
+-- Per-parent calendar subscription tokens.  Feed URLs carry
+-- `<id>.<HMAC(server secret, id:parent_id:secret)>`; rotating or revoking
+-- sets revoked_at so old URLs stop resolving immediately.
+
+CREATE TABLE calendar_feed_tokens (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+  parent_id UUID NOT NULL REFERENCES parents(id) ON DELETE CASCADE,
+  secret TEXT NOT NULL,
+  created_by_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  revoked_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_calendar_feed_tokens_family_id ON calendar_feed_tokens(family_id);
+
+-- At most one live token per parent; rotation revokes before inserting.
+CREATE UNIQUE INDEX idx_calendar_feed_tokens_parent_active
+  ON calendar_feed_tokens(parent_id)
+  WHERE revoked_at IS NULL;
@@ -0,0 +1,11 @@
+-- Migration: 0034_calendar_event_external_ids
+-- Tracks the source of events imported from external .ics calendars so a
+-- re-import updates existing rows instead of duplicating them.
+
+ALTER TABLE calendar_events
+  ADD COLUMN external_id TEXT,
+  ADD COLUMN external_source TEXT;
+
+CREATE UNIQUE INDEX idx_calendar_events_family_external_id
+  ON calendar_events(family_id, external_id)
+  WHERE external_id IS NOT NULL;
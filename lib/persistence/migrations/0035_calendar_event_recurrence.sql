@@ -0,0 +1,36 @@
+-- Migration: 0035_calendar_event_recurrence
+-- Recurring calendar events.  A series is a single calendar_events row with
+-- an RRULE; occurrences are expanded on read.  recurrence_end_at caches the
+-- end of the last occurrence (NULL = open-ended) so date-range queries can
+-- find series that overlap the range.  Edits and cancellations of single
+-- occurrences live in calendar_event_exceptions, keyed by the occurrence's
+-- original start.
+
+ALTER TABLE calendar_events
+  ADD COLUMN recurrence_rule TEXT,
+  ADD COLUMN recurrence_end_at TIMESTAMPTZ;
+
+CREATE INDEX idx_calendar_events_family_recurring
+  ON calendar_events(family_id, start_at)
+  WHERE recurrence_rule IS NOT NULL;
+
+CREATE TABLE calendar_event_exceptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  event_id UUID NOT NULL REFERENCES calendar_events(id) ON DELETE CASCADE,
+  family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+  original_start_at TIMESTAMPTZ NOT NULL,
+  cancelled BOOLEAN NOT NULL DEFAULT FALSE,
+  title TEXT,
+  description TEXT,
+  category TEXT,
+  start_at TIMESTAMPTZ,
+  end_at TIMESTAMPTZ,
+  all_day BOOLEAN,
+  location TEXT,
+  parent_id UUID REFERENCES parents(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (event_id, original_start_at)
+);
+
+CREATE INDEX idx_calendar_event_exceptions_family_id ON calendar_event_exceptions(family_id);
@@ -0,0 +1,19 @@
+-- Migration: 0036_notification_preferences
+-- Per-parent notification settings: which transition alerts to send, over
+-- which channels and how far ahead, plus optional quiet hours.  Quiet hours
+-- are wall-clock times in the parent's timezone and may wrap midnight.
+
+CREATE TABLE notification_preferences (
+  parent_id UUID PRIMARY KEY REFERENCES parents(id) ON DELETE CASCADE,
+  family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+  -- { "<notification type>": { "enabled", "channels", "leadMinutes" } }
+  type_settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  quiet_hours_start TIME,
+  quiet_hours_end TIME,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT notification_preferences_quiet_hours_pair
+    CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL))
+);
+
+CREATE INDEX idx_notification_preferences_family_id ON notification_preferences(family_id);
@@ -0,0 +1,20 @@
+-- Migration: 0037_push_subscriptions
+-- Browser Web Push subscriptions, one per browser/device a parent enables
+-- push on.  Endpoints are unique push-service URLs; a browser re-subscribing
+-- with a known endpoint takes it over.  Rows are removed when the parent
+-- unsubscribes or the push service reports the endpoint gone (404/410).
+
+CREATE TABLE push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  parent_id UUID NOT NULL REFERENCES parents(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  -- Browser payload encryption keys (base64url)
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_push_subscriptions_parent_id ON push_subscriptions(parent_id);
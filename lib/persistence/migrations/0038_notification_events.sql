@@ -0,0 +1,32 @@
+-- Migration: 0038_notification_events
+-- General notification events (change requests, expenses, unread messages,
+-- vault signatures) beyond custody transitions.  Each row is one
+-- notification owed to one parent; pending rows wait for that parent's
+-- daily digest.  Preferences gain per-event channels and a digest hour.
+
+ALTER TABLE notification_preferences
+  -- { "<event type>": { "enabled", "channels" } }
+  ADD COLUMN event_settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Local hour of the daily summary email; NULL sends events immediately
+  ADD COLUMN digest_hour SMALLINT
+    CONSTRAINT notification_preferences_digest_hour_range CHECK (digest_hour BETWEEN 0 AND 23);
+
+CREATE TABLE notification_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+  recipient_parent_id UUID NOT NULL REFERENCES parents(id) ON DELETE CASCADE,
+  event_type VARCHAR(64) NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  dedupe_key VARCHAR(255) NOT NULL,
+  status VARCHAR(16) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sent', 'digested', 'failed', 'skipped')),
+  delivery_method VARCHAR(16) CHECK (delivery_method IN ('sms', 'email', 'push')),
+  sent_at TIMESTAMPTZ,
+  error_message TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT notification_events_recipient_dedupe UNIQUE (recipient_parent_id, dedupe_key)
+);
+
+CREATE INDEX idx_notification_events_pending ON notification_events(created_at)
+  WHERE status = 'pending';
+CREATE INDEX idx_notification_events_recipient ON notification_events(recipient_parent_id, created_at DESC);
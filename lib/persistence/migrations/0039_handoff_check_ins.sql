@@ -0,0 +1,25 @@
+-- Migration: 0039_handoff_check_ins
+-- Records of actual custody exchanges.  Either parent records a check-in
+-- ("drop_off" when handing the kids over, "pick_up" when receiving them);
+-- the other parent confirms or disputes it.  Compliance reports measure
+-- lateness, missed exchanges and make-up time from these rows.
+
+CREATE TABLE handoff_check_ins (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('drop_off', 'pick_up')),
+  occurred_at TIMESTAMPTZ NOT NULL,
+  from_parent_id UUID NOT NULL REFERENCES parents(id) ON DELETE CASCADE,
+  to_parent_id UUID NOT NULL REFERENCES parents(id) ON DELETE CASCADE,
+  recorded_by UUID NOT NULL REFERENCES parents(id) ON DELETE CASCADE,
+  note TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'disputed')),
+  responded_by UUID REFERENCES parents(id) ON DELETE SET NULL,
+  responded_at TIMESTAMPTZ,
+  response_note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (from_parent_id <> to_parent_id)
+);
+
+CREATE INDEX idx_handoff_check_ins_family_occurred ON handoff_check_ins(family_id, occurred_at);
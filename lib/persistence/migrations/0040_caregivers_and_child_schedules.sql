@@ -0,0 +1,26 @@
+-- Migration: 0040_caregivers_and_child_schedules
+-- Families may have more than two caregivers (step-parents, grandparents,
+-- guardians), each with a relation to the children, and children may follow
+-- their own custody schedule instead of the family-wide one.
+
+ALTER TABLE parents
+  ADD COLUMN IF NOT EXISTS caregiver_role TEXT NOT NULL DEFAULT 'parent'
+    CHECK (caregiver_role IN ('parent', 'step_parent', 'grandparent', 'guardian', 'other'));
+
+ALTER TABLE parent_invitations
+  ADD COLUMN IF NOT EXISTS caregiver_role TEXT NOT NULL DEFAULT 'parent'
+    CHECK (caregiver_role IN ('parent', 'step_parent', 'grandparent', 'guardian', 'other'));
+
+-- A schedule with child_id set is that child's own rotation; NULL is the
+-- schedule every other child follows.  anchor_date, when set, replaces
+-- families.custody_anchor_date as the day the rotation started.
+ALTER TABLE custody_schedules
+  ADD COLUMN IF NOT EXISTS child_id UUID REFERENCES children(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS anchor_date DATE;
+
+CREATE INDEX IF NOT EXISTS idx_custody_schedules_child_id
+  ON custody_schedules(child_id) WHERE child_id IS NOT NULL;
+
+-- At most one active schedule per child
+CREATE UNIQUE INDEX IF NOT EXISTS idx_custody_schedules_active_child
+  ON custody_schedules(child_id) WHERE is_active AND child_id IS NOT NULL;
@@ -0,0 +1,69 @@
+-- Migration: 0041_mfa
+-- Optional second factors for user accounts: TOTP authenticator apps and
+-- WebAuthn passkeys, single-use recovery codes, and the short-lived
+-- challenges that sit between a password check (or a step-up prompt) and
+-- the second-factor check.
+-- Rollback: DROP TABLE mfa_challenges, mfa_recovery_codes, mfa_factors CASCADE;
+
+-- ─── Factors ──────────────────────────────────────────────────────────────────
+
+CREATE TABLE mfa_factors (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('totp', 'webauthn')),
+  label TEXT NOT NULL,
+  -- TOTP: AES-256-GCM encrypted base32 secret; last accepted 30s step (replay guard)
+  totp_secret_encrypted TEXT,
+  totp_last_used_step BIGINT,
+  -- WebAuthn: base64url credential id, SPKI public key (base64url DER), signature counter
+  credential_id TEXT,
+  public_key TEXT,
+  sign_count BIGINT NOT NULL DEFAULT 0,
+  transports TEXT[] NOT NULL DEFAULT '{}',
+  -- NULL until a TOTP enrollment is confirmed with a first valid code
+  confirmed_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT mfa_factors_totp_secret CHECK (type <> 'totp' OR totp_secret_encrypted IS NOT NULL),
+  CONSTRAINT mfa_factors_webauthn_key CHECK (
+    type <> 'webauthn' OR (credential_id IS NOT NULL AND public_key IS NOT NULL)
+  )
+);
+
+CREATE INDEX idx_mfa_factors_user_id ON mfa_factors(user_id);
+
+CREATE UNIQUE INDEX idx_mfa_factors_credential_id
+  ON mfa_factors(credential_id)
+  WHERE credential_id IS NOT NULL;
+
+-- ─── Recovery Codes ───────────────────────────────────────────────────────────
+
+CREATE TABLE mfa_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, code_hash)
+);
+
+-- ─── Challenges ───────────────────────────────────────────────────────────────
+
+CREATE TABLE mfa_challenges (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  purpose TEXT NOT NULL CHECK (purpose IN ('login', 'step_up', 'webauthn_register')),
+  -- Random base64url WebAuthn challenge, when a passkey ceremony is possible
+  challenge TEXT,
+  remember_me BOOLEAN NOT NULL DEFAULT FALSE,
+  attempt_count INT NOT NULL DEFAULT 0,
+  expires_at TIMESTAMPTZ NOT NULL,
+  consumed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_mfa_challenges_user_id ON mfa_challenges(user_id);
+
+-- Index for cleanup jobs
+CREATE INDEX idx_mfa_challenges_expires_at ON mfa_challenges(expires_at)
+  WHERE consumed_at IS NULL;
@@ -0,0 +1,66 @@
+-- Migration: 0042_expense_ledger
+-- Settlement ledger for shared expenses.  Every payment between parents is
+-- recorded against the expense it pays for, so an expense can be partially
+-- paid and the running balance is the sum of what is still outstanding.
+-- A "settle up" writes one row per expense it clears, all sharing a
+-- settlement_id; reimbursement requests ask the other parent for their share.
+
+ALTER TABLE expenses DROP CONSTRAINT IF EXISTS expenses_payment_status_check;
+ALTER TABLE expenses
+  ADD CONSTRAINT expenses_payment_status_check
+    CHECK (payment_status IN ('unpaid', 'partially_paid', 'paid', 'disputed'));
+
+-- ─── Reimbursement Requests ───────────────────────────────────────────────────
+
+CREATE TABLE reimbursement_requests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+  expense_id UUID NOT NULL REFERENCES expenses(id) ON DELETE CASCADE,
+  requested_by UUID NOT NULL REFERENCES parents(id) ON DELETE CASCADE,
+  requested_from UUID NOT NULL REFERENCES parents(id) ON DELETE CASCADE,
+  amount_cents BIGINT NOT NULL CHECK (amount_cents > 0),
+  note TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'cancelled')),
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (requested_by <> requested_from)
+);
+
+CREATE INDEX idx_reimbursement_requests_family ON reimbursement_requests(family_id, created_at DESC);
+
+-- One open request per expense and debtor
+CREATE UNIQUE INDEX idx_reimbursement_requests_pending
+  ON reimbursement_requests(expense_id, requested_from) WHERE status = 'pending';
+
+-- ─── Expense Payments ─────────────────────────────────────────────────────────
+
+CREATE TABLE expense_payments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+  expense_id UUID NOT NULL REFERENCES expenses(id) ON DELETE CASCADE,
+  from_parent_id UUID NOT NULL REFERENCES parents(id) ON DELETE CASCADE,
+  to_parent_id UUID NOT NULL REFERENCES parents(id) ON DELETE CASCADE,
+  amount_cents BIGINT NOT NULL CHECK (amount_cents > 0),
+  currency TEXT NOT NULL DEFAULT 'USD',
+  kind TEXT NOT NULL CHECK (kind IN ('payment', 'settle_up')),
+  settlement_id UUID,
+  reimbursement_request_id UUID REFERENCES reimbursement_requests(id) ON DELETE SET NULL,
+  note TEXT,
+  paid_at TIMESTAMPTZ NOT NULL,
+  recorded_by UUID NOT NULL REFERENCES parents(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (from_parent_id <> to_parent_id),
+  CHECK ((kind = 'settle_up') = (settlement_id IS NOT NULL))
+);
+
+CREATE INDEX idx_expense_payments_family_paid ON expense_payments(family_id, paid_at DESC);
+CREATE INDEX idx_expense_payments_expense ON expense_payments(expense_id);
+
+-- ─── DOWN Migration ───────────────────────────────────────────────────────────
+-- DROP TABLE IF EXISTS expense_payments;
+-- DROP TABLE IF EXISTS reimbursement_requests;
+-- UPDATE expenses SET payment_status = 'unpaid' WHERE payment_status = 'partially_paid';
+-- ALTER TABLE expenses DROP CONSTRAINT IF EXISTS expenses_payment_status_check;
+-- ALTER TABLE expenses ADD CONSTRAINT expenses_payment_status_check
+--   CHECK (payment_status IN ('unpaid', 'paid', 'disputed'));
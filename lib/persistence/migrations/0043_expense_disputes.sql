@@ -0,0 +1,56 @@
+-- Migration: 0043_expense_disputes
+-- Disputes over shared expenses.  A parent opens one with a reason; both
+-- parents discuss it in a message thread (modeled on
+-- change_request_messages) where any message may propose an adjusted amount
+-- or split.  The other parent accepts or rejects each proposal: accepting
+-- applies it to the expense and resolves the dispute as "adjusted";
+-- the parent who opened it may instead withdraw it, leaving the expense as
+-- it was.  The original figures are kept so reports show what changed.
+
+CREATE TABLE expense_disputes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+  expense_id UUID NOT NULL REFERENCES expenses(id) ON DELETE CASCADE,
+  opened_by UUID NOT NULL REFERENCES parents(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'adjusted', 'withdrawn')),
+  -- Expense state when the dispute was opened
+  previous_payment_status TEXT NOT NULL,
+  original_total_amount BIGINT NOT NULL,
+  original_split_method TEXT NOT NULL,
+  original_split_ratio JSONB,
+  resolved_by UUID REFERENCES parents(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_expense_disputes_family ON expense_disputes(family_id, created_at);
+CREATE INDEX idx_expense_disputes_expense ON expense_disputes(expense_id);
+
+-- At most one open dispute per expense
+CREATE UNIQUE INDEX idx_expense_disputes_open
+  ON expense_disputes(expense_id) WHERE status = 'open';
+
+CREATE TABLE expense_dispute_messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  dispute_id UUID NOT NULL REFERENCES expense_disputes(id) ON DELETE CASCADE,
+  family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+  sender_parent_id UUID NOT NULL REFERENCES parents(id) ON DELETE CASCADE,
+  body TEXT NOT NULL,
+  -- Set when the message proposes a resolution
+  proposed_total_amount BIGINT CHECK (proposed_total_amount >= 0),
+  proposed_split_method TEXT CHECK (proposed_split_method IN ('50-50', 'custom', 'one-parent')),
+  proposed_split_ratio JSONB,
+  proposal_status TEXT CHECK (proposal_status IN ('pending', 'accepted', 'rejected', 'superseded')),
+  responded_by UUID REFERENCES parents(id) ON DELETE SET NULL,
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((proposal_status IS NULL) = (proposed_total_amount IS NULL AND proposed_split_method IS NULL))
+);
+
+CREATE INDEX idx_expense_dispute_messages_dispute ON expense_dispute_messages(dispute_id, created_at);
+
+-- ─── DOWN Migration ───────────────────────────────────────────────────────────
+-- DROP TABLE IF EXISTS expense_dispute_messages;
+-- DROP TABLE IF EXISTS expense_disputes;
@@ -0,0 +1,84 @@
+-- Migration: 0044_recurring_expenses_and_support
+-- Recurring expense templates (tuition, daycare, ...) that generate an
+-- expense row on each due date, and court-ordered support obligations with
+-- the payments received against them.  Expected support is derived from the
+-- obligation's schedule, so arrears are never stored, only computed.
+
+-- ─── Recurring Expenses ───────────────────────────────────────────────────────
+
+CREATE TABLE recurring_expenses (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  category TEXT NOT NULL,
+  total_amount BIGINT NOT NULL CHECK (total_amount > 0),
+  currency TEXT NOT NULL DEFAULT 'USD',
+  split_method TEXT NOT NULL CHECK (split_method IN ('50-50', 'custom', 'one-parent')),
+  split_ratio JSONB,
+  paid_by UUID NOT NULL REFERENCES parents(id) ON DELETE CASCADE,
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'biweekly', 'monthly', 'quarterly', 'yearly')),
+  start_date DATE NOT NULL,
+  end_date DATE,
+  -- Next occurrence that has not generated an expense yet
+  next_due_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'ended')),
+  created_by UUID NOT NULL REFERENCES parents(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX idx_recurring_expenses_family ON recurring_expenses(family_id);
+CREATE INDEX idx_recurring_expenses_due ON recurring_expenses(next_due_date) WHERE status = 'active';
+
+ALTER TABLE expenses
+  ADD COLUMN recurring_expense_id UUID REFERENCES recurring_expenses(id) ON DELETE SET NULL;
+
+-- One generated expense per template occurrence, so generation can be retried
+CREATE UNIQUE INDEX idx_expenses_recurring_occurrence
+  ON expenses(recurring_expense_id, date) WHERE recurring_expense_id IS NOT NULL;
+
+-- ─── Support Obligations ──────────────────────────────────────────────────────
+
+CREATE TABLE support_obligations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+  payer_parent_id UUID NOT NULL REFERENCES parents(id) ON DELETE CASCADE,
+  payee_parent_id UUID NOT NULL REFERENCES parents(id) ON DELETE CASCADE,
+  amount_cents BIGINT NOT NULL CHECK (amount_cents > 0),
+  currency TEXT NOT NULL DEFAULT 'USD',
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'biweekly', 'monthly', 'quarterly', 'yearly')),
+  start_date DATE NOT NULL,
+  end_date DATE,
+  -- Days after a due date before an unpaid installment counts as arrears
+  grace_days INTEGER NOT NULL DEFAULT 0 CHECK (grace_days >= 0),
+  order_reference TEXT,
+  created_by UUID NOT NULL REFERENCES parents(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (payer_parent_id <> payee_parent_id),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX idx_support_obligations_family ON support_obligations(family_id);
+
+CREATE TABLE support_payments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  obligation_id UUID NOT NULL REFERENCES support_obligations(id) ON DELETE CASCADE,
+  family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+  amount_cents BIGINT NOT NULL CHECK (amount_cents > 0),
+  received_on DATE NOT NULL,
+  note TEXT,
+  recorded_by UUID NOT NULL REFERENCES parents(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_support_payments_obligation ON support_payments(obligation_id, received_on);
+
+-- ─── DOWN Migration ───────────────────────────────────────────────────────────
+-- DROP TABLE IF EXISTS support_payments;
+-- DROP TABLE IF EXISTS support_obligations;
+-- DROP INDEX IF EXISTS idx_expenses_recurring_occurrence;
+-- ALTER TABLE expenses DROP COLUMN IF EXISTS recurring_expense_id;
+-- DROP TABLE IF EXISTS recurring_expenses;
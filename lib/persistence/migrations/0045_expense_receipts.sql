@@ -0,0 +1,27 @@
+-- Migration: 0045_expense_receipts
+-- Receipt files (PDF or image) attached to expenses.  Files live in object
+-- storage under receipts/<family_id>/; the row keeps the storage key and the
+-- amount, date and merchant read from text-based PDF receipts.  Receipts
+-- back reimbursement claims, so they are append-only.
+-- expenses.receipt_url holds the storage key of the latest receipt.
+
+CREATE TABLE expense_receipts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+  expense_id UUID NOT NULL REFERENCES expenses(id) ON DELETE CASCADE,
+  storage_key TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL CHECK (content_type IN ('application/pdf', 'image/jpeg', 'image/png')),
+  size_bytes INTEGER NOT NULL CHECK (size_bytes > 0),
+  extracted_merchant TEXT,
+  extracted_amount_cents BIGINT,
+  extracted_date DATE,
+  uploaded_by UUID NOT NULL REFERENCES parents(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_expense_receipts_expense ON expense_receipts(expense_id, created_at);
+CREATE INDEX idx_expense_receipts_family ON expense_receipts(family_id);
+
+-- ─── DOWN Migration ───────────────────────────────────────────────────────────
+-- DROP TABLE IF EXISTS expense_receipts;
@@ -0,0 +1,27 @@
+-- Migration: 0046_multi_currency_expenses
+-- Families settle expenses in one base currency.  An expense paid in another
+-- currency keeps its original amount and stores the exchange rate it was
+-- converted at when it was recorded (entered by the parent or read from the
+-- local rates file), so balances never move when rates do.
+
+ALTER TABLE families
+  ADD COLUMN base_currency TEXT NOT NULL DEFAULT 'USD' CHECK (base_currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE expenses
+  ADD COLUMN base_currency TEXT,
+  -- total_amount converted to base_currency, in cents
+  ADD COLUMN base_amount BIGINT CHECK (base_amount >= 0),
+  -- base_currency units per one unit of currency
+  ADD COLUMN exchange_rate NUMERIC(20, 10) CHECK (exchange_rate > 0),
+  ADD COLUMN exchange_rate_source TEXT CHECK (exchange_rate_source IN ('manual', 'rates_file')),
+  ADD COLUMN exchange_rate_date DATE,
+  ADD CONSTRAINT expenses_exchange_rate_snapshot CHECK (
+    (base_currency IS NULL AND base_amount IS NULL AND exchange_rate IS NULL
+      AND exchange_rate_source IS NULL AND exchange_rate_date IS NULL)
+    OR (base_currency IS NOT NULL AND base_amount IS NOT NULL AND exchange_rate IS NOT NULL
+      AND exchange_rate_source IS NOT NULL AND exchange_rate_date IS NOT NULL)
+  );
+
+-- Rate for generated occurrences when the rates file has none for the date
+ALTER TABLE recurring_expenses
+  ADD COLUMN exchange_rate NUMERIC(20, 10) CHECK (exchange_rate > 0);
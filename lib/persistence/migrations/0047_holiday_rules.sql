@@ -0,0 +1,48 @@
+-- Migration: 0047_holiday_rules
+-- Computed holidays and year-by-year holiday custody.  A holiday definition
+-- either has a fixed date (one year) or a rule that yields its date every
+-- year (fixed month/day, nth weekday of a month, or days from Easter).
+-- Exception rules can widen the holiday to a window with its own exchange
+-- times and give it to different parents in odd/even years or in rotation.
+-- Each family follows its own holiday jurisdiction instead of always "US".
+
+ALTER TABLE families
+  ADD COLUMN holiday_jurisdiction TEXT NOT NULL DEFAULT 'US'
+    CHECK (holiday_jurisdiction ~ '^[A-Z]{2}(-[A-Z0-9]{1,3})?$');
+
+ALTER TABLE holiday_definitions
+  ALTER COLUMN date DROP NOT NULL,
+  -- {"kind":"fixed","month":12,"day":25} | {"kind":"nth_weekday","month":11,"weekday":4,"nth":4}
+  -- | {"kind":"easter","offsetDays":0}
+  ADD COLUMN rule JSONB,
+  ADD CONSTRAINT holiday_definitions_date_or_rule CHECK ((date IS NULL) <> (rule IS NULL));
+
+CREATE INDEX idx_holiday_definitions_rule_based
+  ON holiday_definitions(jurisdiction)
+  WHERE rule IS NOT NULL;
+
+ALTER TABLE holiday_exception_rules
+  -- {"startOffsetDays":-1,"startTime":"18:00","endOffsetDays":3,"endTime":"18:00"}, family timezone
+  ADD COLUMN time_window JSONB,
+  -- {"mode":"alternate_years","oddYearParentId":...,"evenYearParentId":...}
+  -- | {"mode":"rotate","parentIds":[...],"startYear":2025}
+  ADD COLUMN assignment JSONB;
+
+-- ─── Computed US Holidays ────────────────────────────────────────────────────
+
+INSERT INTO holiday_definitions (id, name, rule, type, jurisdiction, description) VALUES
+  ('us-new-years-day', 'New Year''s Day', '{"kind":"fixed","month":1,"day":1}', 'federal', 'US', 'Federal holiday'),
+  ('us-martin-luther-king-day', 'Martin Luther King Jr. Day', '{"kind":"nth_weekday","month":1,"weekday":1,"nth":3}', 'federal', 'US', 'Federal holiday'),
+  ('us-washington-birthday', 'Washington''s Birthday', '{"kind":"nth_weekday","month":2,"weekday":1,"nth":3}', 'federal', 'US', 'Federal holiday'),
+  ('us-easter', 'Easter Sunday', '{"kind":"easter","offsetDays":0}', 'religious', 'US', NULL),
+  ('us-mothers-day', 'Mother''s Day', '{"kind":"nth_weekday","month":5,"weekday":0,"nth":2}', 'cultural', 'US', NULL),
+  ('us-memorial-day', 'Memorial Day', '{"kind":"nth_weekday","month":5,"weekday":1,"nth":-1}', 'federal', 'US', 'Federal holiday'),
+  ('us-fathers-day', 'Father''s Day', '{"kind":"nth_weekday","month":6,"weekday":0,"nth":3}', 'cultural', 'US', NULL),
+  ('us-independence-day', 'Independence Day', '{"kind":"fixed","month":7,"day":4}', 'federal', 'US', 'Federal holiday'),
+  ('us-labor-day', 'Labor Day', '{"kind":"nth_weekday","month":9,"weekday":1,"nth":1}', 'federal', 'US', 'Federal holiday'),
+  ('us-halloween', 'Halloween', '{"kind":"fixed","month":10,"day":31}', 'cultural', 'US', NULL),
+  ('us-thanksgiving', 'Thanksgiving Day', '{"kind":"nth_weekday","month":11,"weekday":4,"nth":4}', 'federal', 'US', 'Federal holiday'),
+  ('us-christmas-eve', 'Christmas Eve', '{"kind":"fixed","month":12,"day":24}', 'religious', 'US', NULL),
+  ('us-christmas-day', 'Christmas Day', '{"kind":"fixed","month":12,"day":25}', 'federal', 'US', 'Federal holiday'),
+  ('us-new-years-eve', 'New Year''s Eve', '{"kind":"fixed","month":12,"day":31}', 'cultural', 'US', NULL)
+ON CONFLICT (id) DO NOTHING;
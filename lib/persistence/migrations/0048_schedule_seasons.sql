@@ -0,0 +1,12 @@
+-- Migration: 0048_schedule_seasons
+-- Seasonal rotations.  Most parenting plans switch to a different rotation
+-- over summer and school breaks; a schedule's seasons recur every year
+-- between month/day bounds and replace its blocks (the school-year
+-- rotation) while they run.
+--
+-- [{"name":"Summer","startMonthDay":"06-15","endMonthDay":"08-20",
+--   "blocks":[{"parentId":...,"days":7},{"parentId":...,"days":7}]}]
+
+ALTER TABLE custody_schedules
+  ADD COLUMN seasons JSONB NOT NULL DEFAULT '[]'
+    CHECK (jsonb_typeof(seasons) = 'array');
@@ -0,0 +1,40 @@
+-- Migration: 0049_custody_schedule_versions
+-- Dated versions of a family's schedule.  Changing the rotation, its anchor
+-- or the exchange hour used to rewrite custody_schedules / families in
+-- place, so past months and old compliance reports were recomputed with the
+-- new rotation.  A version instead takes effect on a date: one parent
+-- proposes it, the other approves it, and the engine follows whichever
+-- approved version was in force at each moment.  The family's schedule
+-- stays as the one in force before the first version.
+
+CREATE TABLE custody_schedule_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  transition_hour INTEGER NOT NULL CHECK (transition_hour BETWEEN 0 AND 23),
+  -- [{"parentId":...,"days":7}], as custody_schedules.blocks
+  blocks JSONB NOT NULL CHECK (jsonb_typeof(blocks) = 'array'),
+  seasons JSONB NOT NULL DEFAULT '[]' CHECK (jsonb_typeof(seasons) = 'array'),
+  anchor_date DATE NOT NULL,
+  -- Takes over at transition_hour on this date, in the family timezone
+  effective_date DATE NOT NULL,
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'withdrawn')),
+  proposed_by UUID NOT NULL REFERENCES parents(id) ON DELETE CASCADE,
+  responded_by UUID REFERENCES parents(id) ON DELETE SET NULL,
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_custody_schedule_versions_family
+  ON custody_schedule_versions(family_id, created_at);
+
+-- One proposal waiting for an answer per family
+CREATE UNIQUE INDEX idx_custody_schedule_versions_pending
+  ON custody_schedule_versions(family_id) WHERE status = 'pending';
+
+-- Approved versions follow one another, one per effective date
+CREATE UNIQUE INDEX idx_custody_schedule_versions_effective
+  ON custody_schedule_versions(family_id, effective_date) WHERE status = 'approved';
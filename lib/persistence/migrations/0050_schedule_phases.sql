@@ -0,0 +1,13 @@
+-- Migration: 0050_schedule_phases
+-- Step-up plans.  Parenting plans for infants and toddlers start with
+-- shorter stays (daytime visits, one overnight a week) and step up to the
+-- long-term rotation in `blocks`.  Each phase ends on a date or when a
+-- child reaches an age; the next phase takes over at the transition hour.
+--
+-- [{"name":"One overnight","blocks":[{"parentId":...,"days":6},{"parentId":...,"days":1}],
+--   "until":{"kind":"age","months":18,"childId":...}},
+--  {"name":"2-2-5-5 trial","blocks":[...],"until":{"kind":"date","date":"2026-09-01"}}]
+
+ALTER TABLE custody_schedules
+  ADD COLUMN phases JSONB NOT NULL DEFAULT '[]'
+    CHECK (jsonb_typeof(phases) = 'array');
@@ -0,0 +1,12 @@
+-- Migration: 0051_weekly_blocks
+-- Weekday-anchored custody.  Parenting plans often read "every other
+-- weekend, Friday 6 PM to Sunday 6 PM, plus every Wednesday 4-8 PM"; each
+-- weekly block holds custody over the rotation in `blocks` while it runs.
+-- Blocks in `blocks` may also carry their own "startTime" exchange time.
+--
+-- [{"parentId":...,"startDay":5,"startTime":"18:00","endDay":0,"endTime":"18:00","everyWeeks":2,"label":"Weekend"},
+--  {"parentId":...,"startDay":3,"startTime":"16:00","endDay":3,"endTime":"20:00","label":"Wednesday dinner"}]
+
+ALTER TABLE custody_schedules
+  ADD COLUMN weekly_blocks JSONB NOT NULL DEFAULT '[]'
+    CHECK (jsonb_typeof(weekly_blocks) = 'array');
@@ -0,0 +1,10 @@
+-- Migration: 0052_schedule_version_phases
+-- Step-up phases on schedule versions.  A version replaces the whole
+-- schedule from its effective date, so a change that starts (or keeps) a
+-- step-up plan carries its phases as custody_schedules.phases does; they
+-- run from the version's anchor date and stop where the next version
+-- takes over.
+
+ALTER TABLE custody_schedule_versions
+  ADD COLUMN phases JSONB NOT NULL DEFAULT '[]'
+    CHECK (jsonb_typeof(phases) = 'array');
@@ -0,0 +1,10 @@
+-- Migration: 0053_schedule_version_weekly_blocks
+-- Weekly blocks on schedule versions.  A version replaces the whole
+-- schedule from its effective date, so a change that keeps (or adds)
+-- "every other weekend plus Wednesday dinner" carries its weekly blocks as
+-- custody_schedules.weekly_blocks does; their weeks count from the
+-- version's anchor date, or from the end of its step-up phases.
+
+ALTER TABLE custody_schedule_versions
+  ADD COLUMN weekly_blocks JSONB NOT NULL DEFAULT '[]'
+    CHECK (jsonb_typeof(weekly_blocks) = 'array');
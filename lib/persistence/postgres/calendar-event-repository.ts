@@ -2,8 +2,8 @@
  * KidSchedule – PostgreSQL Calendar Event Repository
  */
 
-import type { CalendarEventRepository } from "../repositories";
-import type { DbCalendarEvent } from "../types";
+import type { CalendarEventExceptionRepository, CalendarEventRepository } from "../repositories";
+import type { DbCalendarEvent, DbCalendarEventException } from "../types";
 import { sql, type SqlClient } from "./client";
 
 type EventRow = {
@@ -19,6 +19,28 @@ type EventRow = {
   parentId: string | null;
   confirmationStatus: string;
   createdBy: string;
+  externalId: string | null;
+  externalSource: string | null;
+  recurrenceRule: string | null;
+  recurrenceEndAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+type ExceptionRow = {
+  id: string;
+  eventId: string;
+  familyId: string;
+  originalStartAt: Date;
+  cancelled: boolean;
+  title: string | null;
+  description: string | null;
+  category: string | null;
+  startAt: Date | null;
+  endAt: Date | null;
+  allDay: boolean | null;
+  location: string | null;
+  parentId: string | null;
   createdAt: Date;
   updatedAt: Date;
 };
@@ -37,6 +59,30 @@ function rowToDb(row: EventRow): DbCalendarEvent {
     parentId: row.parentId ?? undefined,
     confirmationStatus: row.confirmationStatus,
     createdBy: row.createdBy,
+    externalId: row.externalId ?? undefined,
+    externalSource: row.externalSource ?? undefined,
+    recurrenceRule: row.recurrenceRule ?? undefined,
+    recurrenceEndAt: row.recurrenceEndAt?.toISOString(),
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+function exceptionRowToDb(row: ExceptionRow): DbCalendarEventException {
+  return {
+    id: row.id,
+    eventId: row.eventId,
+    familyId: row.familyId,
+    originalStartAt: row.originalStartAt.toISOString(),
+    cancelled: row.cancelled,
+    title: row.title ?? undefined,
+    description: row.description ?? undefined,
+    category: row.category ?? undefined,
+    startAt: row.startAt?.toISOString(),
+    endAt: row.endAt?.toISOString(),
+    allDay: row.allDay ?? undefined,
+    location: row.location ?? undefined,
+    parentId: row.parentId ?? undefined,
     createdAt: row.createdAt.toISOString(),
     updatedAt: row.updatedAt.toISOString(),
   };
@@ -61,11 +107,19 @@ export function createCalendarEventRepository(tx?: SqlClient): CalendarEventRepo
     },
 
     async findByFamilyIdAndDateRange(familyId: string, startAt: string, endAt: string): Promise<DbCalendarEvent[]> {
+      // Recurring series are returned when any occurrence may fall in range;
+      // callers expand them with expandEventOccurrences.
       const rows = await query<EventRow[]>`
         SELECT * FROM calendar_events 
         WHERE family_id = ${familyId} 
-          AND start_at >= ${new Date(startAt)} 
-          AND start_at <= ${new Date(endAt)}
+          AND (
+            (start_at >= ${new Date(startAt)} AND start_at <= ${new Date(endAt)})
+            OR (
+              recurrence_rule IS NOT NULL
+              AND start_at <= ${new Date(endAt)}
+              AND (recurrence_end_at IS NULL OR recurrence_end_at >= ${new Date(startAt)})
+            )
+          )
         ORDER BY start_at
       `;
       return rows.map(rowToDb);
@@ -75,11 +129,14 @@ export function createCalendarEventRepository(tx?: SqlClient): CalendarEventRepo
       const rows = await query<EventRow[]>`
         INSERT INTO calendar_events (
           family_id, title, description, category, start_at, end_at, all_day, 
-          location, parent_id, confirmation_status, created_by
+          location, parent_id, confirmation_status, created_by, external_id, external_source,
+          recurrence_rule, recurrence_end_at
         ) VALUES (
           ${event.familyId}, ${event.title}, ${event.description ?? null}, ${event.category},
           ${new Date(event.startAt)}, ${new Date(event.endAt)}, ${event.allDay},
-          ${event.location ?? null}, ${event.parentId ?? null}, ${event.confirmationStatus}, ${event.createdBy}
+          ${event.location ?? null}, ${event.parentId ?? null}, ${event.confirmationStatus}, ${event.createdBy},
+          ${event.externalId ?? null}, ${event.externalSource ?? null},
+          ${event.recurrenceRule ?? null}, ${event.recurrenceEndAt ? new Date(event.recurrenceEndAt) : null}
         )
         RETURNING *
       `;
@@ -88,18 +145,36 @@ export function createCalendarEventRepository(tx?: SqlClient): CalendarEventRepo
 
     async update(id: string, data: Partial<DbCalendarEvent>): Promise<DbCalendarEvent | null> {
       const updates: string[] = [];
-      if (data.title !== undefined) updates.push(`title = '${data.title}'`);
-      if (data.description !== undefined) updates.push(`description = ${data.description ? `'${data.description}'` : "NULL"}`);
-      if (data.category !== undefined) updates.push(`category = '${data.category}'`);
-      if (data.startAt !== undefined) updates.push(`start_at = '${data.startAt}'`);
-      if (data.endAt !== undefined) updates.push(`end_at = '${data.endAt}'`);
-      if (data.confirmationStatus !== undefined) updates.push(`confirmation_status = '${data.confirmationStatus}'`);
-      
+      const values: (string | boolean | Date | null)[] = [];
+      const set = (column: string, value: string | boolean | Date | null) => {
+        values.push(value);
+        updates.push(`${column} = $${values.length}`);
+      };
+
+      if (data.title !== undefined) set("title", data.title);
+      if (data.description !== undefined) set("description", data.description || null);
+      if (data.category !== undefined) set("category", data.category);
+      if (data.startAt !== undefined) set("start_at", new Date(data.startAt));
+      if (data.endAt !== undefined) set("end_at", new Date(data.endAt));
+      if (data.allDay !== undefined) set("all_day", data.allDay);
+      if (data.location !== undefined) set("location", data.location || null);
+      if (data.parentId !== undefined) set("parent_id", data.parentId || null);
+      if (data.confirmationStatus !== undefined) set("confirmation_status", data.confirmationStatus);
+      // `null` clears the rule / end (turning a series back into a single event)
+      if (data.recurrenceRule !== undefined) set("recurrence_rule", data.recurrenceRule || null);
+      if (data.recurrenceEndAt !== undefined) {
+        set("recurrence_end_at", data.recurrenceEndAt ? new Date(data.recurrenceEndAt) : null);
+      }
+
       if (updates.length === 0) return this.findById(id);
 
-      const rows = await query<EventRow[]>`
-        UPDATE calendar_events SET ${sql.unsafe(updates.join(", "))}, updated_at = NOW() WHERE id = ${id} RETURNING *
+      const statement = `
+        UPDATE calendar_events
+        SET ${updates.join(", ")}, updated_at = NOW()
+        WHERE id = $${values.length + 1}
+        RETURNING *
       `;
+      const rows = await query.unsafe<EventRow[]>(statement, [...values, id]);
       return rows[0] ? rowToDb(rows[0]) : null;
     },
 
@@ -109,3 +184,62 @@ export function createCalendarEventRepository(tx?: SqlClient): CalendarEventRepo
     },
   };
 }
+
+export function createCalendarEventExceptionRepository(tx?: SqlClient): CalendarEventExceptionRepository {
+  const query = (tx ?? sql) as typeof sql;
+
+  return {
+    async findByFamilyId(familyId: string): Promise<DbCalendarEventException[]> {
+      const rows = await query<ExceptionRow[]>`
+        SELECT * FROM calendar_event_exceptions WHERE family_id = ${familyId} ORDER BY original_start_at
+      `;
+      return rows.map(exceptionRowToDb);
+    },
+
+    async findByEventId(eventId: string): Promise<DbCalendarEventException[]> {
+      const rows = await query<ExceptionRow[]>`
+        SELECT * FROM calendar_event_exceptions WHERE event_id = ${eventId} ORDER BY original_start_at
+      `;
+      return rows.map(exceptionRowToDb);
+    },
+
+    async upsert(
+      exception: Omit<DbCalendarEventException, "id" | "createdAt" | "updatedAt">
+    ): Promise<DbCalendarEventException> {
+      const rows = await query<ExceptionRow[]>`
+        INSERT INTO calendar_event_exceptions (
+          event_id, family_id, original_start_at, cancelled, title, description, category,
+          start_at, end_at, all_day, location, parent_id
+        ) VALUES (
+          ${exception.eventId}, ${exception.familyId}, ${new Date(exception.originalStartAt)},
+          ${exception.cancelled}, ${exception.title ?? null}, ${exception.description ?? null},
+          ${exception.category ?? null},
+          ${exception.startAt ? new Date(exception.startAt) : null},
+          ${exception.endAt ? new Date(exception.endAt) : null},
+          ${exception.allDay ?? null}, ${exception.location ?? null}, ${exception.parentId ?? null}
+        )
+        ON CONFLICT (event_id, original_start_at) DO UPDATE SET
+          cancelled = EXCLUDED.cancelled,
+          title = EXCLUDED.title,
+          description = EXCLUDED.description,
+          category = EXCLUDED.category,
+          start_at = EXCLUDED.start_at,
+          end_at = EXCLUDED.end_at,
+          all_day = EXCLUDED.all_day,
+          location = EXCLUDED.location,
+          parent_id = EXCLUDED.parent_id,
+          updated_at = NOW()
+        RETURNING *
+      `;
+      return exceptionRowToDb(rows[0]);
+    },
+
+    async deleteByEventIdFrom(eventId: string, fromStartAt: string): Promise<number> {
+      const result = await query`
+        DELETE FROM calendar_event_exceptions
+        WHERE event_id = ${eventId} AND original_start_at >= ${new Date(fromStartAt)}
+      `;
+      return result.count;
+    },
+  };
+}
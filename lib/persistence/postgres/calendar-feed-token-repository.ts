@@ -0,0 +1,97 @@
+/**
+ * KidSchedule – PostgreSQL Calendar Feed Token Repository
+ */
+
+import type { CalendarFeedTokenRepository } from "../repositories";
+import type { DbCalendarFeedToken } from "../types";
+import { sql, type SqlClient } from "./client";
+
+type FeedTokenRow = {
+  id: string;
+  familyId: string;
+  parentId: string;
+  secret: string;
+  createdByUserId: string;
+  createdAt: Date;
+  revokedAt: Date | null;
+  lastUsedAt: Date | null;
+};
+
+function rowToDb(row: FeedTokenRow): DbCalendarFeedToken {
+  return {
+    id: row.id,
+    familyId: row.familyId,
+    parentId: row.parentId,
+    secret: row.secret,
+    createdByUserId: row.createdByUserId,
+    createdAt: row.createdAt.toISOString(),
+    revokedAt: row.revokedAt?.toISOString(),
+    lastUsedAt: row.lastUsedAt?.toISOString(),
+  };
+}
+
+export function createCalendarFeedTokenRepository(tx?: SqlClient): CalendarFeedTokenRepository {
+  // Cast to postgres.Sql for TypeScript generic inference in template literals
+  // The union type (Sql | TransactionSql) causes generic type inference to fail
+  const query = (tx ?? sql) as typeof sql;
+
+  return {
+    async findById(id: string): Promise<DbCalendarFeedToken | null> {
+      const rows = await query<FeedTokenRow[]>`
+        SELECT * FROM calendar_feed_tokens WHERE id = ${id}
+      `;
+      return rows[0] ? rowToDb(rows[0]) : null;
+    },
+
+    async findActiveByParentId(parentId: string): Promise<DbCalendarFeedToken | null> {
+      const rows = await query<FeedTokenRow[]>`
+        SELECT * FROM calendar_feed_tokens
+        WHERE parent_id = ${parentId}
+          AND revoked_at IS NULL
+        ORDER BY created_at DESC
+        LIMIT 1
+      `;
+      return rows[0] ? rowToDb(rows[0]) : null;
+    },
+
+    async create(
+      token: Omit<DbCalendarFeedToken, "id" | "createdAt" | "revokedAt" | "lastUsedAt">
+    ): Promise<DbCalendarFeedToken> {
+      const rows = await query<FeedTokenRow[]>`
+        INSERT INTO calendar_feed_tokens (
+          family_id,
+          parent_id,
+          secret,
+          created_by_user_id
+        )
+        VALUES (
+          ${token.familyId},
+          ${token.parentId},
+          ${token.secret},
+          ${token.createdByUserId}
+        )
+        RETURNING *
+      `;
+      return rowToDb(rows[0]);
+    },
+
+    async revokeActiveByParentId(parentId: string): Promise<DbCalendarFeedToken[]> {
+      const rows = await query<FeedTokenRow[]>`
+        UPDATE calendar_feed_tokens
+        SET revoked_at = NOW()
+        WHERE parent_id = ${parentId}
+          AND revoked_at IS NULL
+        RETURNING *
+      `;
+      return rows.map(rowToDb);
+    },
+
+    async markUsed(id: string): Promise<void> {
+      await query`
+        UPDATE calendar_feed_tokens
+        SET last_used_at = NOW()
+        WHERE id = ${id}
+      `;
+    },
+  };
+}
@@ -19,7 +19,7 @@ import { logEvent } from "@/lib/observability/logger";
 
 const DATABASE_URL = process.env.DATABASE_URL;
 
-if (!DATABASE_URL) {
+if (!DATABASE_URL && process.env.DB_DRIVER !== "memory") {
   logEvent("warn", "DATABASE_URL not set. Database operations will fail in production.", {
     source: "db",
   });
@@ -1,8 +1,12 @@
 /**
  * KidSchedule – PostgreSQL Custody Schedule Repository
  *
- * Manages weekly custody schedule blocks for a family.
- * Schema source: migrations/0003_calendar.sql
+ * Manages weekly custody schedule blocks for a family and for children on
+ * their own rotation, plus the seasons that replace them part of the year,
+ * the step-up phases that come before them and the weekly blocks laid over
+ * them.
+ * Schema source: migrations/0003_calendar.sql, 0040_caregivers_and_child_schedules.sql,
+ * 0048_schedule_seasons.sql, 0050_schedule_phases.sql, 0051_weekly_blocks.sql
  */
 
 import type { CustodyScheduleRepository } from "../repositories";
@@ -12,9 +16,14 @@ import { sql, type SqlClient } from "./client";
 type ScheduleRow = {
   id: string;
   family_id: string;
+  child_id: string | null;
   name: string;
   transition_hour: number;
   blocks: string; // JSONB stored as string
+  anchor_date: Date | null;
+  seasons: string; // JSONB stored as string
+  phases: string; // JSONB stored as string
+  weekly_blocks: string; // JSONB stored as string
   is_active: boolean;
   created_at: Date;
   updated_at: Date;
@@ -24,9 +33,14 @@ function rowToDb(r: ScheduleRow): DbCustodySchedule {
   return {
     id: r.id,
     familyId: r.family_id,
+    childId: r.child_id ?? undefined,
     name: r.name,
     transitionHour: r.transition_hour,
     blocks: typeof r.blocks === "string" ? r.blocks : JSON.stringify(r.blocks),
+    anchorDate: r.anchor_date ? r.anchor_date.toISOString().slice(0, 10) : undefined,
+    seasons: typeof r.seasons === "string" ? r.seasons : JSON.stringify(r.seasons ?? []),
+    phases: typeof r.phases === "string" ? r.phases : JSON.stringify(r.phases ?? []),
+    weeklyBlocks: typeof r.weekly_blocks === "string" ? r.weekly_blocks : JSON.stringify(r.weekly_blocks ?? []),
     isActive: r.is_active,
     createdAt: r.created_at.toISOString(),
     updatedAt: r.updated_at.toISOString(),
@@ -55,17 +69,31 @@ export function createCustodyScheduleRepository(tx?: SqlClient): CustodySchedule
 
     async findActiveByFamilyId(familyId) {
       const rows = await q<ScheduleRow[]>`
-        SELECT * FROM custody_schedules WHERE family_id = ${familyId} AND is_active = true LIMIT 1
+        SELECT * FROM custody_schedules
+        WHERE family_id = ${familyId} AND child_id IS NULL AND is_active = true
+        LIMIT 1
       `;
       return rows[0] ? rowToDb(rows[0]) : null;
     },
 
+    async findActiveChildSchedules(familyId) {
+      const rows = await q<ScheduleRow[]>`
+        SELECT * FROM custody_schedules
+        WHERE family_id = ${familyId} AND child_id IS NOT NULL AND is_active = true
+        ORDER BY created_at ASC
+      `;
+      return rows.map(rowToDb);
+    },
+
     async create(schedule) {
       const rows = await q<ScheduleRow[]>`
-        INSERT INTO custody_schedules (family_id, name, transition_hour, blocks, is_active)
+        INSERT INTO custody_schedules (
+          family_id, child_id, name, transition_hour, blocks, anchor_date, seasons, phases, weekly_blocks, is_active
+        )
         VALUES (
-          ${schedule.familyId}, ${schedule.name}, ${schedule.transitionHour},
-          ${schedule.blocks}::jsonb, ${schedule.isActive}
+          ${schedule.familyId}, ${schedule.childId ?? null}, ${schedule.name}, ${schedule.transitionHour},
+          ${schedule.blocks}::jsonb, ${schedule.anchorDate ?? null}, ${schedule.seasons ?? "[]"}::jsonb,
+          ${schedule.phases ?? "[]"}::jsonb, ${schedule.weeklyBlocks ?? "[]"}::jsonb, ${schedule.isActive}
         )
         RETURNING *
       `;
@@ -78,6 +106,10 @@ export function createCustodyScheduleRepository(tx?: SqlClient): CustodySchedule
           name            = COALESCE(${data.name ?? null}, name),
           transition_hour = COALESCE(${data.transitionHour ?? null}, transition_hour),
           blocks          = CASE WHEN ${data.blocks !== undefined} THEN ${data.blocks ?? null}::jsonb ELSE blocks END,
+          anchor_date     = CASE WHEN ${data.anchorDate !== undefined} THEN ${data.anchorDate ?? null}::date ELSE anchor_date END,
+          seasons         = CASE WHEN ${data.seasons !== undefined} THEN ${data.seasons ?? "[]"}::jsonb ELSE seasons END,
+          phases          = CASE WHEN ${data.phases !== undefined} THEN ${data.phases ?? "[]"}::jsonb ELSE phases END,
+          weekly_blocks   = CASE WHEN ${data.weeklyBlocks !== undefined} THEN ${data.weeklyBlocks ?? "[]"}::jsonb ELSE weekly_blocks END,
           is_active       = COALESCE(${data.isActive ?? null}, is_active),
           updated_at      = NOW()
         WHERE id = ${id}
@@ -87,8 +119,16 @@ export function createCustodyScheduleRepository(tx?: SqlClient): CustodySchedule
     },
 
     async setActive(familyId, scheduleId) {
-      // Deactivate all, then activate the selected one — all in-sequence
-      await q`UPDATE custody_schedules SET is_active = false WHERE family_id = ${familyId}`;
+      // Deactivate the others for the same child (or family-wide), then
+      // activate the selected one — all in-sequence
+      await q`
+        UPDATE custody_schedules SET is_active = false
+        WHERE family_id = ${familyId}
+          AND EXISTS (SELECT 1 FROM custody_schedules WHERE id = ${scheduleId} AND family_id = ${familyId})
+          AND child_id IS NOT DISTINCT FROM (
+            SELECT child_id FROM custody_schedules WHERE id = ${scheduleId} AND family_id = ${familyId}
+          )
+      `;
       const result = await q`
         UPDATE custody_schedules SET is_active = true, updated_at = NOW()
         WHERE id = ${scheduleId} AND family_id = ${familyId}
@@ -0,0 +1,125 @@
+/**
+ * KidSchedule – PostgreSQL Custody Schedule Version Repository
+ *
+ * Dated versions of a family's schedule: proposed by one parent, approved
+ * or rejected by the other, and never edited once approved.
+ * Schema source: migrations/0049_custody_schedule_versions.sql,
+ * 0052_schedule_version_phases.sql, 0053_schedule_version_weekly_blocks.sql
+ */
+
+import type { CustodyScheduleVersionRepository } from "../repositories";
+import type { DbCustodyScheduleVersion, ScheduleVersionStatus } from "../types";
+import { sql, type SqlClient } from "./client";
+
+type ScheduleVersionRow = {
+  id: string;
+  familyId: string;
+  name: string;
+  transitionHour: number;
+  blocks: unknown; // JSONB
+  seasons: unknown; // JSONB
+  phases: unknown; // JSONB
+  weeklyBlocks: unknown; // JSONB
+  anchorDate: string | Date;
+  effectiveDate: string | Date;
+  reason: string | null;
+  status: ScheduleVersionStatus;
+  proposedBy: string;
+  respondedBy: string | null;
+  respondedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+function toIsoDate(value: string | Date): string {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : value;
+}
+
+function toJson(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value ?? []);
+}
+
+function rowToDb(row: ScheduleVersionRow): DbCustodyScheduleVersion {
+  return {
+    id: row.id,
+    familyId: row.familyId,
+    name: row.name,
+    transitionHour: row.transitionHour,
+    blocks: toJson(row.blocks),
+    seasons: toJson(row.seasons),
+    phases: toJson(row.phases),
+    weeklyBlocks: toJson(row.weeklyBlocks),
+    anchorDate: toIsoDate(row.anchorDate),
+    effectiveDate: toIsoDate(row.effectiveDate),
+    reason: row.reason ?? undefined,
+    status: row.status,
+    proposedBy: row.proposedBy,
+    respondedBy: row.respondedBy ?? undefined,
+    respondedAt: row.respondedAt?.toISOString(),
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+export function createCustodyScheduleVersionRepository(tx?: SqlClient): CustodyScheduleVersionRepository {
+  // Cast to postgres.Sql for TypeScript generic inference in template literals
+  // The union type (Sql | TransactionSql) causes generic type inference to fail
+  const q = (tx ?? sql) as typeof sql;
+
+  return {
+    async findById(id) {
+      const rows = await q<ScheduleVersionRow[]>`
+        SELECT * FROM custody_schedule_versions WHERE id = ${id} LIMIT 1
+      `;
+      return rows[0] ? rowToDb(rows[0]) : null;
+    },
+
+    async findByFamilyId(familyId) {
+      const rows = await q<ScheduleVersionRow[]>`
+        SELECT * FROM custody_schedule_versions
+        WHERE family_id = ${familyId}
+        ORDER BY created_at ASC
+      `;
+      return rows.map(rowToDb);
+    },
+
+    async findApprovedByFamilyId(familyId) {
+      const rows = await q<ScheduleVersionRow[]>`
+        SELECT * FROM custody_schedule_versions
+        WHERE family_id = ${familyId} AND status = 'approved'
+        ORDER BY effective_date ASC
+      `;
+      return rows.map(rowToDb);
+    },
+
+    async create(version) {
+      const rows = await q<ScheduleVersionRow[]>`
+        INSERT INTO custody_schedule_versions (
+          family_id, name, transition_hour, blocks, seasons, phases, weekly_blocks,
+          anchor_date, effective_date, reason, proposed_by
+        )
+        VALUES (
+          ${version.familyId}, ${version.name}, ${version.transitionHour},
+          ${version.blocks}::jsonb, ${version.seasons ?? "[]"}::jsonb, ${version.phases ?? "[]"}::jsonb,
+          ${version.weeklyBlocks ?? "[]"}::jsonb,
+          ${version.anchorDate}, ${version.effectiveDate}, ${version.reason ?? null}, ${version.proposedBy}
+        )
+        RETURNING *
+      `;
+      return rowToDb(rows[0]);
+    },
+
+    async respond(id, status, respondedBy) {
+      const rows = await q<ScheduleVersionRow[]>`
+        UPDATE custody_schedule_versions
+        SET status = ${status},
+            responded_by = ${respondedBy},
+            responded_at = NOW(),
+            updated_at = NOW()
+        WHERE id = ${id} AND status = 'pending'
+        RETURNING *
+      `;
+      return rows[0] ? rowToDb(rows[0]) : null;
+    },
+  };
+}
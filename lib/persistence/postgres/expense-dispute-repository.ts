@@ -0,0 +1,236 @@
+/**
+ * KidSchedule – PostgreSQL Expense Dispute Repositories
+ *
+ * Disputes over shared expenses and their discussion threads, including
+ * proposed adjustments and the other parent's answer to each.
+ */
+
+import type { ExpenseDisputeMessageRepository, ExpenseDisputeRepository } from "../repositories";
+import type { DbExpense, DbExpenseDispute, DbExpenseDisputeMessage } from "../types";
+import { sql, type SqlClient } from "./client";
+
+function normalizeRatio(ratio: Record<string, number | string> | null): Record<string, number> | undefined {
+  if (!ratio) return undefined;
+  return Object.fromEntries(
+    Object.entries(ratio).map(([parentId, value]) => [parentId, typeof value === "string" ? parseFloat(value) : value])
+  );
+}
+
+// ─── Expense Disputes ─────────────────────────────────────────────────────────
+
+type ExpenseDisputeRow = {
+  id: string;
+  familyId: string;
+  expenseId: string;
+  openedBy: string;
+  reason: string;
+  status: DbExpenseDispute["status"];
+  previousPaymentStatus: DbExpenseDispute["previousPaymentStatus"];
+  originalTotalAmount: string | number;
+  originalSplitMethod: DbExpense["splitMethod"];
+  originalSplitRatio: Record<string, number | string> | null;
+  resolvedBy: string | null;
+  resolvedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+function disputeRowToDb(row: ExpenseDisputeRow): DbExpenseDispute {
+  return {
+    id: row.id,
+    familyId: row.familyId,
+    expenseId: row.expenseId,
+    openedBy: row.openedBy,
+    reason: row.reason,
+    status: row.status,
+    previousPaymentStatus: row.previousPaymentStatus,
+    originalTotalAmount: Number(row.originalTotalAmount),
+    originalSplitMethod: row.originalSplitMethod,
+    originalSplitRatio: normalizeRatio(row.originalSplitRatio),
+    resolvedBy: row.resolvedBy ?? undefined,
+    resolvedAt: row.resolvedAt?.toISOString(),
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+export function createExpenseDisputeRepository(tx?: SqlClient): ExpenseDisputeRepository {
+  // Cast to postgres.Sql for TypeScript generic inference in template literals
+  // The union type (Sql | TransactionSql) causes generic type inference to fail
+  const query = (tx ?? sql) as typeof sql;
+
+  return {
+    async findById(id: string): Promise<DbExpenseDispute | null> {
+      const rows = await query<ExpenseDisputeRow[]>`
+        SELECT * FROM expense_disputes WHERE id = ${id}
+      `;
+      return rows[0] ? disputeRowToDb(rows[0]) : null;
+    },
+
+    async findByFamilyId(familyId: string): Promise<DbExpenseDispute[]> {
+      const rows = await query<ExpenseDisputeRow[]>`
+        SELECT * FROM expense_disputes
+        WHERE family_id = ${familyId}
+        ORDER BY created_at ASC
+      `;
+      return rows.map(disputeRowToDb);
+    },
+
+    async findByExpenseId(expenseId: string): Promise<DbExpenseDispute[]> {
+      const rows = await query<ExpenseDisputeRow[]>`
+        SELECT * FROM expense_disputes
+        WHERE expense_id = ${expenseId}
+        ORDER BY created_at ASC
+      `;
+      return rows.map(disputeRowToDb);
+    },
+
+    async create(dispute): Promise<DbExpenseDispute> {
+      const rows = await query<ExpenseDisputeRow[]>`
+        INSERT INTO expense_disputes (
+          family_id,
+          expense_id,
+          opened_by,
+          reason,
+          previous_payment_status,
+          original_total_amount,
+          original_split_method,
+          original_split_ratio
+        )
+        VALUES (
+          ${dispute.familyId},
+          ${dispute.expenseId},
+          ${dispute.openedBy},
+          ${dispute.reason},
+          ${dispute.previousPaymentStatus},
+          ${dispute.originalTotalAmount},
+          ${dispute.originalSplitMethod},
+          ${dispute.originalSplitRatio ? JSON.stringify(dispute.originalSplitRatio) : null}
+        )
+        RETURNING *
+      `;
+      return disputeRowToDb(rows[0]);
+    },
+
+    async resolve(
+      id: string,
+      status: "adjusted" | "withdrawn",
+      resolvedBy: string
+    ): Promise<DbExpenseDispute | null> {
+      const rows = await query<ExpenseDisputeRow[]>`
+        UPDATE expense_disputes
+        SET status = ${status},
+            resolved_by = ${resolvedBy},
+            resolved_at = NOW(),
+            updated_at = NOW()
+        WHERE id = ${id} AND status = 'open'
+        RETURNING *
+      `;
+      return rows[0] ? disputeRowToDb(rows[0]) : null;
+    },
+  };
+}
+
+// ─── Expense Dispute Messages ─────────────────────────────────────────────────
+
+type ExpenseDisputeMessageRow = {
+  id: string;
+  disputeId: string;
+  familyId: string;
+  senderParentId: string;
+  body: string;
+  proposedTotalAmount: string | number | null;
+  proposedSplitMethod: DbExpense["splitMethod"] | null;
+  proposedSplitRatio: Record<string, number | string> | null;
+  proposalStatus: DbExpenseDisputeMessage["proposalStatus"] | null;
+  respondedBy: string | null;
+  respondedAt: Date | null;
+  createdAt: Date;
+};
+
+function messageRowToDb(row: ExpenseDisputeMessageRow): DbExpenseDisputeMessage {
+  return {
+    id: row.id,
+    disputeId: row.disputeId,
+    familyId: row.familyId,
+    senderParentId: row.senderParentId,
+    body: row.body,
+    proposedTotalAmount: row.proposedTotalAmount === null ? undefined : Number(row.proposedTotalAmount),
+    proposedSplitMethod: row.proposedSplitMethod ?? undefined,
+    proposedSplitRatio: normalizeRatio(row.proposedSplitRatio),
+    proposalStatus: row.proposalStatus ?? undefined,
+    respondedBy: row.respondedBy ?? undefined,
+    respondedAt: row.respondedAt?.toISOString(),
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+export function createExpenseDisputeMessageRepository(tx?: SqlClient): ExpenseDisputeMessageRepository {
+  // Cast to postgres.Sql for TypeScript generic inference in template literals
+  // The union type (Sql | TransactionSql) causes generic type inference to fail
+  const query = (tx ?? sql) as typeof sql;
+
+  return {
+    async findByDisputeId(disputeId: string): Promise<DbExpenseDisputeMessage[]> {
+      const rows = await query<ExpenseDisputeMessageRow[]>`
+        SELECT * FROM expense_dispute_messages
+        WHERE dispute_id = ${disputeId}
+        ORDER BY created_at ASC
+      `;
+      return rows.map(messageRowToDb);
+    },
+
+    async create(msg): Promise<DbExpenseDisputeMessage> {
+      const rows = await query<ExpenseDisputeMessageRow[]>`
+        INSERT INTO expense_dispute_messages (
+          dispute_id,
+          family_id,
+          sender_parent_id,
+          body,
+          proposed_total_amount,
+          proposed_split_method,
+          proposed_split_ratio,
+          proposal_status
+        )
+        VALUES (
+          ${msg.disputeId},
+          ${msg.familyId},
+          ${msg.senderParentId},
+          ${msg.body},
+          ${msg.proposedTotalAmount ?? null},
+          ${msg.proposedSplitMethod ?? null},
+          ${msg.proposedSplitRatio ? JSON.stringify(msg.proposedSplitRatio) : null},
+          ${msg.proposalStatus ?? null}
+        )
+        RETURNING *
+      `;
+      return messageRowToDb(rows[0]);
+    },
+
+    async respondToProposal(
+      id: string,
+      status: "accepted" | "rejected",
+      respondedBy: string
+    ): Promise<DbExpenseDisputeMessage | null> {
+      const rows = await query<ExpenseDisputeMessageRow[]>`
+        UPDATE expense_dispute_messages
+        SET proposal_status = ${status},
+            responded_by = ${respondedBy},
+            responded_at = NOW()
+        WHERE id = ${id} AND proposal_status = 'pending'
+        RETURNING *
+      `;
+      return rows[0] ? messageRowToDb(rows[0]) : null;
+    },
+
+    async supersedePending(disputeId: string): Promise<number> {
+      const rows = await query`
+        UPDATE expense_dispute_messages
+        SET proposal_status = 'superseded'
+        WHERE dispute_id = ${disputeId} AND proposal_status = 'pending'
+        RETURNING id
+      `;
+      return rows.length;
+    },
+  };
+}
@@ -0,0 +1,209 @@
+/**
+ * KidSchedule – PostgreSQL Expense Ledger Repositories
+ *
+ * Payments between parents recorded against shared expenses, and the
+ * reimbursement requests that ask for them.
+ */
+
+import type { ExpensePaymentRepository, ReimbursementRequestRepository } from "../repositories";
+import type { DbExpensePayment, DbReimbursementRequest } from "../types";
+import { sql, type SqlClient } from "./client";
+
+// ─── Expense Payments ─────────────────────────────────────────────────────────
+
+type ExpensePaymentRow = {
+  id: string;
+  familyId: string;
+  expenseId: string;
+  fromParentId: string;
+  toParentId: string;
+  amountCents: string | number;
+  currency: string;
+  kind: DbExpensePayment["kind"];
+  settlementId: string | null;
+  reimbursementRequestId: string | null;
+  note: string | null;
+  paidAt: Date;
+  recordedBy: string;
+  createdAt: Date;
+};
+
+function paymentRowToDb(row: ExpensePaymentRow): DbExpensePayment {
+  return {
+    id: row.id,
+    familyId: row.familyId,
+    expenseId: row.expenseId,
+    fromParentId: row.fromParentId,
+    toParentId: row.toParentId,
+    amountCents: Number(row.amountCents),
+    currency: row.currency,
+    kind: row.kind,
+    settlementId: row.settlementId ?? undefined,
+    reimbursementRequestId: row.reimbursementRequestId ?? undefined,
+    note: row.note ?? undefined,
+    paidAt: row.paidAt.toISOString(),
+    recordedBy: row.recordedBy,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+export function createExpensePaymentRepository(tx?: SqlClient): ExpensePaymentRepository {
+  // Cast to postgres.Sql for TypeScript generic inference in template literals
+  // The union type (Sql | TransactionSql) causes generic type inference to fail
+  const query = (tx ?? sql) as typeof sql;
+
+  return {
+    async findByFamilyId(familyId: string): Promise<DbExpensePayment[]> {
+      const rows = await query<ExpensePaymentRow[]>`
+        SELECT * FROM expense_payments
+        WHERE family_id = ${familyId}
+        ORDER BY paid_at DESC, created_at DESC
+      `;
+      return rows.map(paymentRowToDb);
+    },
+
+    async findByExpenseId(expenseId: string): Promise<DbExpensePayment[]> {
+      const rows = await query<ExpensePaymentRow[]>`
+        SELECT * FROM expense_payments
+        WHERE expense_id = ${expenseId}
+        ORDER BY paid_at DESC, created_at DESC
+      `;
+      return rows.map(paymentRowToDb);
+    },
+
+    async create(payment): Promise<DbExpensePayment> {
+      const rows = await query<ExpensePaymentRow[]>`
+        INSERT INTO expense_payments (
+          family_id,
+          expense_id,
+          from_parent_id,
+          to_parent_id,
+          amount_cents,
+          currency,
+          kind,
+          settlement_id,
+          reimbursement_request_id,
+          note,
+          paid_at,
+          recorded_by
+        )
+        VALUES (
+          ${payment.familyId},
+          ${payment.expenseId},
+          ${payment.fromParentId},
+          ${payment.toParentId},
+          ${payment.amountCents},
+          ${payment.currency},
+          ${payment.kind},
+          ${payment.settlementId ?? null},
+          ${payment.reimbursementRequestId ?? null},
+          ${payment.note ?? null},
+          ${payment.paidAt},
+          ${payment.recordedBy}
+        )
+        RETURNING *
+      `;
+      return paymentRowToDb(rows[0]);
+    },
+  };
+}
+
+// ─── Reimbursement Requests ───────────────────────────────────────────────────
+
+type ReimbursementRequestRow = {
+  id: string;
+  familyId: string;
+  expenseId: string;
+  requestedBy: string;
+  requestedFrom: string;
+  amountCents: string | number;
+  note: string | null;
+  status: DbReimbursementRequest["status"];
+  resolvedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+function requestRowToDb(row: ReimbursementRequestRow): DbReimbursementRequest {
+  return {
+    id: row.id,
+    familyId: row.familyId,
+    expenseId: row.expenseId,
+    requestedBy: row.requestedBy,
+    requestedFrom: row.requestedFrom,
+    amountCents: Number(row.amountCents),
+    note: row.note ?? undefined,
+    status: row.status,
+    resolvedAt: row.resolvedAt?.toISOString(),
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+export function createReimbursementRequestRepository(tx?: SqlClient): ReimbursementRequestRepository {
+  // Cast to postgres.Sql for TypeScript generic inference in template literals
+  // The union type (Sql | TransactionSql) causes generic type inference to fail
+  const query = (tx ?? sql) as typeof sql;
+
+  return {
+    async findById(id: string): Promise<DbReimbursementRequest | null> {
+      const rows = await query<ReimbursementRequestRow[]>`
+        SELECT * FROM reimbursement_requests WHERE id = ${id}
+      `;
+      return rows[0] ? requestRowToDb(rows[0]) : null;
+    },
+
+    async findByFamilyId(familyId: string): Promise<DbReimbursementRequest[]> {
+      const rows = await query<ReimbursementRequestRow[]>`
+        SELECT * FROM reimbursement_requests
+        WHERE family_id = ${familyId}
+        ORDER BY created_at DESC
+      `;
+      return rows.map(requestRowToDb);
+    },
+
+    async findPendingByExpenseId(expenseId: string): Promise<DbReimbursementRequest[]> {
+      const rows = await query<ReimbursementRequestRow[]>`
+        SELECT * FROM reimbursement_requests
+        WHERE expense_id = ${expenseId} AND status = 'pending'
+        ORDER BY created_at ASC
+      `;
+      return rows.map(requestRowToDb);
+    },
+
+    async create(request): Promise<DbReimbursementRequest> {
+      const rows = await query<ReimbursementRequestRow[]>`
+        INSERT INTO reimbursement_requests (
+          family_id,
+          expense_id,
+          requested_by,
+          requested_from,
+          amount_cents,
+          note
+        )
+        VALUES (
+          ${request.familyId},
+          ${request.expenseId},
+          ${request.requestedBy},
+          ${request.requestedFrom},
+          ${request.amountCents},
+          ${request.note ?? null}
+        )
+        RETURNING *
+      `;
+      return requestRowToDb(rows[0]);
+    },
+
+    async resolve(id: string, status: "paid" | "cancelled"): Promise<DbReimbursementRequest | null> {
+      const rows = await query<ReimbursementRequestRow[]>`
+        UPDATE reimbursement_requests
+        SET status = ${status},
+            resolved_at = NOW(),
+            updated_at = NOW()
+        WHERE id = ${id} AND status = 'pending'
+        RETURNING *
+      `;
+      return rows[0] ? requestRowToDb(rows[0]) : null;
+    },
+  };
+}
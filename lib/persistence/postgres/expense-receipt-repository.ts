@@ -0,0 +1,107 @@
+/**
+ * KidSchedule – PostgreSQL Expense Receipt Repository
+ *
+ * Receipt files attached to expenses.  The files themselves live in object
+ * storage; rows keep the storage key and the fields read from the receipt.
+ */
+
+import type { ExpenseReceiptRepository } from "../repositories";
+import type { DbExpenseReceipt } from "../types";
+import { sql, type SqlClient } from "./client";
+
+type ExpenseReceiptRow = {
+  id: string;
+  familyId: string;
+  expenseId: string;
+  storageKey: string;
+  fileName: string;
+  contentType: DbExpenseReceipt["contentType"];
+  sizeBytes: number;
+  extractedMerchant: string | null;
+  extractedAmountCents: string | number | null;
+  extractedDate: string | Date | null;
+  uploadedBy: string;
+  createdAt: Date;
+};
+
+function rowToDb(row: ExpenseReceiptRow): DbExpenseReceipt {
+  const extractedDate = row.extractedDate instanceof Date ? row.extractedDate.toISOString().slice(0, 10) : row.extractedDate;
+  return {
+    id: row.id,
+    familyId: row.familyId,
+    expenseId: row.expenseId,
+    storageKey: row.storageKey,
+    fileName: row.fileName,
+    contentType: row.contentType,
+    sizeBytes: row.sizeBytes,
+    extractedMerchant: row.extractedMerchant ?? undefined,
+    extractedAmountCents: row.extractedAmountCents === null ? undefined : Number(row.extractedAmountCents),
+    extractedDate: extractedDate ?? undefined,
+    uploadedBy: row.uploadedBy,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+export function createExpenseReceiptRepository(tx?: SqlClient): ExpenseReceiptRepository {
+  // Cast to postgres.Sql for TypeScript generic inference in template literals
+  // The union type (Sql | TransactionSql) causes generic type inference to fail
+  const query = (tx ?? sql) as typeof sql;
+
+  return {
+    async findById(id: string): Promise<DbExpenseReceipt | null> {
+      const rows = await query<ExpenseReceiptRow[]>`
+        SELECT * FROM expense_receipts WHERE id = ${id}
+      `;
+      return rows[0] ? rowToDb(rows[0]) : null;
+    },
+
+    async findByExpenseId(expenseId: string): Promise<DbExpenseReceipt[]> {
+      const rows = await query<ExpenseReceiptRow[]>`
+        SELECT * FROM expense_receipts
+        WHERE expense_id = ${expenseId}
+        ORDER BY created_at ASC
+      `;
+      return rows.map(rowToDb);
+    },
+
+    async findByFamilyId(familyId: string): Promise<DbExpenseReceipt[]> {
+      const rows = await query<ExpenseReceiptRow[]>`
+        SELECT * FROM expense_receipts
+        WHERE family_id = ${familyId}
+        ORDER BY created_at ASC
+      `;
+      return rows.map(rowToDb);
+    },
+
+    async create(receipt): Promise<DbExpenseReceipt> {
+      const rows = await query<ExpenseReceiptRow[]>`
+        INSERT INTO expense_receipts (
+          family_id,
+          expense_id,
+          storage_key,
+          file_name,
+          content_type,
+          size_bytes,
+          extracted_merchant,
+          extracted_amount_cents,
+          extracted_date,
+          uploaded_by
+        )
+        VALUES (
+          ${receipt.familyId},
+          ${receipt.expenseId},
+          ${receipt.storageKey},
+          ${receipt.fileName},
+          ${receipt.contentType},
+          ${receipt.sizeBytes},
+          ${receipt.extractedMerchant ?? null},
+          ${receipt.extractedAmountCents ?? null},
+          ${receipt.extractedDate ?? null},
+          ${receipt.uploadedBy}
+        )
+        RETURNING *
+      `;
+      return rowToDb(rows[0]);
+    },
+  };
+}
@@ -23,6 +23,12 @@ type ExpenseRow = {
   paymentStatus: string;
   receiptUrl: string | null;
   date: string | Date;
+  recurringExpenseId: string | null;
+  baseCurrency: string | null;
+  baseAmount: string | number | null;
+  exchangeRate: string | number | null;
+  exchangeRateSource: DbExpense["exchangeRateSource"] | null;
+  exchangeRateDate: string | Date | null;
   createdAt: string | Date;
   updatedAt: string | Date;
 };
@@ -69,6 +75,12 @@ function rowToDb(row: ExpenseRow): DbExpense {
     paymentStatus: row.paymentStatus as DbExpense["paymentStatus"],
     receiptUrl: row.receiptUrl ?? undefined,
     date: toIsoDate(row.date),
+    recurringExpenseId: row.recurringExpenseId ?? undefined,
+    baseCurrency: row.baseCurrency ?? undefined,
+    baseAmount: row.baseAmount === null ? undefined : Number(row.baseAmount),
+    exchangeRate: row.exchangeRate === null ? undefined : Number(row.exchangeRate),
+    exchangeRateSource: row.exchangeRateSource ?? undefined,
+    exchangeRateDate: row.exchangeRateDate ? toIsoDate(row.exchangeRateDate) : undefined,
     createdAt: toIsoDateTime(row.createdAt),
     updatedAt: toIsoDateTime(row.updatedAt),
   };
@@ -129,6 +141,12 @@ export function createExpenseRepository(tx?: SqlClient): ExpenseRepository {
           payment_status,
           receipt_url,
           date,
+          recurring_expense_id,
+          base_currency,
+          base_amount,
+          exchange_rate,
+          exchange_rate_source,
+          exchange_rate_date,
           created_at,
           updated_at
         )
@@ -145,6 +163,12 @@ export function createExpenseRepository(tx?: SqlClient): ExpenseRepository {
           ${expense.paymentStatus},
           ${expense.receiptUrl ?? null},
           ${expense.date},
+          ${expense.recurringExpenseId ?? null},
+          ${expense.baseCurrency ?? null},
+          ${expense.baseAmount ?? null},
+          ${expense.exchangeRate ?? null},
+          ${expense.exchangeRateSource ?? null},
+          ${expense.exchangeRateDate ?? null},
           ${now},
           ${now}
         )
@@ -157,69 +181,35 @@ export function createExpenseRepository(tx?: SqlClient): ExpenseRepository {
       id: string,
       data: Partial<DbExpense>
     ): Promise<DbExpense | null> {
-      const now = new Date().toISOString();
-
-      // Build dynamic update clause
-      const updates: string[] = [];
-      const values: unknown[] = [];
-
-      if (data.title !== undefined) {
-        updates.push("title");
-        values.push(data.title);
-      }
-      if (data.description !== undefined) {
-        updates.push("description");
-        values.push(data.description ?? null);
-      }
-      if (data.category !== undefined) {
-        updates.push("category");
-        values.push(data.category);
-      }
-      if (data.totalAmount !== undefined) {
-        updates.push("total_amount");
-        values.push(data.totalAmount);
-      }
-      if (data.currency !== undefined) {
-        updates.push("currency");
-        values.push(data.currency);
+      // Column → value for every field present in the patch
+      const columns: Record<string, unknown> = {};
+
+      if (data.title !== undefined) columns.title = data.title;
+      if (data.description !== undefined) columns.description = data.description ?? null;
+      if (data.category !== undefined) columns.category = data.category;
+      if (data.totalAmount !== undefined) columns.total_amount = data.totalAmount;
+      if (data.currency !== undefined) columns.currency = data.currency;
+      if (data.splitMethod !== undefined) columns.split_method = data.splitMethod;
+      if ("splitRatio" in data) {
+        columns.split_ratio = data.splitRatio ? JSON.stringify(data.splitRatio) : null;
       }
-      if (data.splitMethod !== undefined) {
-        updates.push("split_method");
-        values.push(data.splitMethod);
-      }
-      if (data.splitRatio !== undefined) {
-        updates.push("split_ratio");
-        values.push(data.splitRatio ? JSON.stringify(data.splitRatio) : null);
-      }
-      if (data.paymentStatus !== undefined) {
-        updates.push("payment_status");
-        values.push(data.paymentStatus);
-      }
-      if (data.receiptUrl !== undefined) {
-        updates.push("receipt_url");
-        values.push(data.receiptUrl ?? null);
-      }
-      if (data.date !== undefined) {
-        updates.push("date");
-        values.push(data.date);
-      }
-
-      updates.push("updated_at");
-      values.push(now);
-
-      if (updates.length === 1) {
-        // Only updated_at changed, or nothing to update
+      if (data.paymentStatus !== undefined) columns.payment_status = data.paymentStatus;
+      if (data.receiptUrl !== undefined) columns.receipt_url = data.receiptUrl ?? null;
+      if (data.date !== undefined) columns.date = data.date;
+      if (data.baseCurrency !== undefined) columns.base_currency = data.baseCurrency;
+      if (data.baseAmount !== undefined) columns.base_amount = data.baseAmount;
+      if (data.exchangeRate !== undefined) columns.exchange_rate = data.exchangeRate;
+      if (data.exchangeRateSource !== undefined) columns.exchange_rate_source = data.exchangeRateSource;
+      if (data.exchangeRateDate !== undefined) columns.exchange_rate_date = data.exchangeRateDate;
+
+      if (Object.keys(columns).length === 0) {
         return this.findById(id);
       }
 
-      // Build SET clause dynamically
-      const setClause = updates
-        .map((col, i) => `${col} = $${i + 1}`)
-        .join(", ");
-
+      // updated_at is maintained by the expenses_updated_at trigger
       const rows = await query<ExpenseRow[]>`
         UPDATE expenses
-        SET ${setClause}
+        SET ${query(columns)}
         WHERE id = ${id}
         RETURNING *
       `;
@@ -227,6 +217,19 @@ export function createExpenseRepository(tx?: SqlClient): ExpenseRepository {
       return rows[0] ? rowToDb(rows[0]) : null;
     },
 
+    async updatePaymentStatus(
+      id: string,
+      status: DbExpense["paymentStatus"]
+    ): Promise<DbExpense | null> {
+      const rows = await query<ExpenseRow[]>`
+        UPDATE expenses
+        SET payment_status = ${status}
+        WHERE id = ${id}
+        RETURNING *
+      `;
+      return rows[0] ? rowToDb(rows[0]) : null;
+    },
+
     async delete(id: string): Promise<boolean> {
       // Note: postgres.js doesn't return rowCount directly on DELETE
       // We check if a row was found and deleted by querying first
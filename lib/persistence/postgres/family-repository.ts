@@ -12,6 +12,9 @@ type FamilyRow = {
   name: string;
   custodyAnchorDate: Date;
   scheduleId: string | null;
+  timezone: string;
+  baseCurrency: string;
+  holidayJurisdiction: string;
   createdAt: Date;
   updatedAt: Date;
 };
@@ -22,6 +25,9 @@ function rowToDb(row: FamilyRow): DbFamily {
     name: row.name,
     custodyAnchorDate: row.custodyAnchorDate.toISOString().slice(0, 10),
     scheduleId: row.scheduleId ?? "",
+    timezone: row.timezone,
+    baseCurrency: row.baseCurrency,
+    holidayJurisdiction: row.holidayJurisdiction,
     proxyPhoneNumber: getProxyNumberForFamily(row.id) ?? undefined,
     createdAt: row.createdAt.toISOString(),
     updatedAt: row.updatedAt.toISOString(),
@@ -51,8 +57,8 @@ export function createFamilyRepository(tx?: SqlClient): FamilyRepository {
 
     async create(family: Omit<DbFamily, "id" | "createdAt" | "updatedAt">): Promise<DbFamily> {
       const rows = await query<FamilyRow[]>`
-        INSERT INTO families (name, custody_anchor_date, schedule_id)
-        VALUES (${family.name}, ${new Date(family.custodyAnchorDate)}, ${family.scheduleId || null})
+        INSERT INTO families (name, custody_anchor_date, schedule_id, timezone, base_currency, holiday_jurisdiction)
+        VALUES (${family.name}, ${new Date(family.custodyAnchorDate)}, ${family.scheduleId || null}, ${family.timezone}, ${family.baseCurrency ?? "USD"}, ${family.holidayJurisdiction ?? "US"})
         RETURNING *
       `;
       return rowToDb(rows[0]);
@@ -63,6 +69,9 @@ export function createFamilyRepository(tx?: SqlClient): FamilyRepository {
       if (data.name !== undefined) updates.push(`name = '${data.name}'`);
       if (data.custodyAnchorDate !== undefined) updates.push(`custody_anchor_date = '${data.custodyAnchorDate}'`);
       if (data.scheduleId !== undefined) updates.push(`schedule_id = '${data.scheduleId}'`);
+      if (data.timezone !== undefined) updates.push(`timezone = '${data.timezone}'`);
+      if (data.baseCurrency !== undefined) updates.push(`base_currency = '${data.baseCurrency}'`);
+      if (data.holidayJurisdiction !== undefined) updates.push(`holiday_jurisdiction = '${data.holidayJurisdiction}'`);
       
       if (updates.length === 0) return this.findById(id);
 
@@ -0,0 +1,113 @@
+/**
+ * KidSchedule – PostgreSQL Handoff Check-In Repository
+ */
+
+import type { HandoffCheckInRepository } from "../repositories";
+import type { DbHandoffCheckIn } from "../types";
+import { sql, type SqlClient } from "./client";
+
+type HandoffCheckInRow = {
+  id: string;
+  familyId: string;
+  kind: DbHandoffCheckIn["kind"];
+  occurredAt: Date;
+  fromParentId: string;
+  toParentId: string;
+  recordedBy: string;
+  note: string | null;
+  status: DbHandoffCheckIn["status"];
+  respondedBy: string | null;
+  respondedAt: Date | null;
+  responseNote: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+function rowToDb(row: HandoffCheckInRow): DbHandoffCheckIn {
+  return {
+    id: row.id,
+    familyId: row.familyId,
+    kind: row.kind,
+    occurredAt: row.occurredAt.toISOString(),
+    fromParentId: row.fromParentId,
+    toParentId: row.toParentId,
+    recordedBy: row.recordedBy,
+    note: row.note ?? undefined,
+    status: row.status,
+    respondedBy: row.respondedBy ?? undefined,
+    respondedAt: row.respondedAt?.toISOString(),
+    responseNote: row.responseNote ?? undefined,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+export function createHandoffCheckInRepository(tx?: SqlClient): HandoffCheckInRepository {
+  // Cast to postgres.Sql for TypeScript generic inference in template literals
+  // The union type (Sql | TransactionSql) causes generic type inference to fail
+  const query = (tx ?? sql) as typeof sql;
+
+  return {
+    async findById(id: string): Promise<DbHandoffCheckIn | null> {
+      const rows = await query<HandoffCheckInRow[]>`
+        SELECT * FROM handoff_check_ins WHERE id = ${id}
+      `;
+      return rows[0] ? rowToDb(rows[0]) : null;
+    },
+
+    async findByFamilyIdAndRange(familyId: string, start: string, end: string): Promise<DbHandoffCheckIn[]> {
+      const rows = await query<HandoffCheckInRow[]>`
+        SELECT * FROM handoff_check_ins
+        WHERE family_id = ${familyId}
+          AND occurred_at >= ${start}
+          AND occurred_at < ${end}
+        ORDER BY occurred_at ASC
+      `;
+      return rows.map(rowToDb);
+    },
+
+    async create(checkIn): Promise<DbHandoffCheckIn> {
+      const rows = await query<HandoffCheckInRow[]>`
+        INSERT INTO handoff_check_ins (
+          family_id,
+          kind,
+          occurred_at,
+          from_parent_id,
+          to_parent_id,
+          recorded_by,
+          note
+        )
+        VALUES (
+          ${checkIn.familyId},
+          ${checkIn.kind},
+          ${checkIn.occurredAt},
+          ${checkIn.fromParentId},
+          ${checkIn.toParentId},
+          ${checkIn.recordedBy},
+          ${checkIn.note ?? null}
+        )
+        RETURNING *
+      `;
+      return rowToDb(rows[0]);
+    },
+
+    async respond(
+      id: string,
+      status: "confirmed" | "disputed",
+      respondedBy: string,
+      responseNote?: string
+    ): Promise<DbHandoffCheckIn | null> {
+      const rows = await query<HandoffCheckInRow[]>`
+        UPDATE handoff_check_ins
+        SET status = ${status},
+            responded_by = ${respondedBy},
+            responded_at = NOW(),
+            response_note = ${responseNote ?? null},
+            updated_at = NOW()
+        WHERE id = ${id} AND status = 'pending'
+        RETURNING *
+      `;
+      return rows[0] ? rowToDb(rows[0]) : null;
+    },
+  };
+}
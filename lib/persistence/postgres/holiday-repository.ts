@@ -3,13 +3,20 @@
  */
 
 import type { HolidayRepository, HolidayExceptionRuleRepository } from "../repositories";
-import type { DbHolidayDefinition, DbHolidayExceptionRule } from "../types";
+import type {
+  DbHolidayDefinition,
+  DbHolidayExceptionRule,
+  HolidayAssignment,
+  HolidayDateRule,
+  HolidayWindow,
+} from "../types";
 import { sql, type SqlClient } from "./client";
 
 type HolidayRow = {
   id: string;
   name: string;
-  date: Date;
+  date: Date | null;
+  rule: HolidayDateRule | null;
   type: string;
   jurisdiction: string;
   description: string | null;
@@ -21,7 +28,8 @@ function rowToDb(row: HolidayRow): DbHolidayDefinition {
   return {
     id: row.id,
     name: row.name,
-    date: row.date.toISOString().split('T')[0], // YYYY-MM-DD format
+    date: row.date?.toISOString().split('T')[0], // YYYY-MM-DD format
+    rule: row.rule ?? undefined,
     type: row.type as DbHolidayDefinition["type"],
     jurisdiction: row.jurisdiction,
     description: row.description ?? undefined,
@@ -68,8 +76,11 @@ export function createHolidayRepository(tx?: SqlClient): HolidayRepository {
 
     async create(holiday: Omit<DbHolidayDefinition, "id" | "createdAt">): Promise<DbHolidayDefinition> {
       const rows = await q<HolidayRow[]>`
-        INSERT INTO holiday_definitions (name, date, type, jurisdiction, description, family_id)
-        VALUES (${holiday.name}, ${holiday.date}, ${holiday.type}, ${holiday.jurisdiction}, ${holiday.description ?? null}, ${holiday.familyId ?? null})
+        INSERT INTO holiday_definitions (name, date, rule, type, jurisdiction, description, family_id)
+        VALUES (
+          ${holiday.name}, ${holiday.date ?? null}, ${holiday.rule ? JSON.stringify(holiday.rule) : null}, ${holiday.type},
+          ${holiday.jurisdiction}, ${holiday.description ?? null}, ${holiday.familyId ?? null}
+        )
         RETURNING *
       `;
       return rowToDb(rows[0]);
@@ -85,6 +96,8 @@ type RuleRow = {
   custodian_parent_id: string;
   is_enabled: boolean;
   notes: string | null;
+  time_window: HolidayWindow | null;
+  assignment: HolidayAssignment | null;
   approval_status: "pending" | "approved" | "rejected";
   proposed_by: string;
   proposed_at: Date;
@@ -108,6 +121,8 @@ function ruleRowToDb(row: RuleRow): DbHolidayExceptionRule {
     custodianParentId: row.custodian_parent_id,
     isEnabled: row.is_enabled,
     notes: row.notes ?? undefined,
+    window: row.time_window ?? undefined,
+    assignment: row.assignment ?? undefined,
     approvalStatus: row.approval_status,
     proposedBy: row.proposed_by,
     proposedAt: row.proposed_at.toISOString(),
@@ -162,10 +177,11 @@ export function createHolidayExceptionRuleRepository(tx?: SqlClient): HolidayExc
 
       const rows = await q<RuleRow[]>`
         INSERT INTO holiday_exception_rules (
-          family_id, holiday_id, custodian_parent_id, is_enabled, notes,
+          family_id, holiday_id, custodian_parent_id, is_enabled, notes, time_window, assignment,
           approval_status, proposed_by, proposed_at, change_log
         ) VALUES (
           ${rule.familyId}, ${rule.holidayId}, ${rule.custodianParentId}, ${rule.isEnabled}, ${rule.notes ?? null},
+          ${rule.window ? JSON.stringify(rule.window) : null}, ${rule.assignment ? JSON.stringify(rule.assignment) : null},
           'pending', ${proposedBy}, NOW(), ${JSON.stringify(initialChangeLog)}
         )
         ON CONFLICT (family_id, holiday_id) DO UPDATE SET
@@ -11,6 +11,11 @@ import { createUserRepository } from "./user-repository";
 import { createSessionRepository } from "./session-repository";
 import { createPasswordResetRepository } from "./password-reset-repository";
 import { createPhoneVerificationRepository } from "./phone-verification-repository";
+import {
+  createMfaFactorRepository,
+  createMfaRecoveryCodeRepository,
+  createMfaChallengeRepository,
+} from "./mfa-repository";
 import { createAuditLogRepository } from "./audit-log-repository";
 import { createRateLimitRepository } from "./rate-limit-repository";
 import { createFamilyRepository } from "./family-repository";
@@ -18,12 +23,18 @@ import { createParentRepository } from "./parent-repository";
 import { createParentInvitationRepository } from "./parent-invitation-repository";
 import { createChildRepository } from "./child-repository";
 import { createCustodyScheduleRepository } from "./custody-schedule-repository";
-import { createCalendarEventRepository } from "./calendar-event-repository";
+import { createCustodyScheduleVersionRepository } from "./custody-schedule-version-repository";
+import {
+  createCalendarEventRepository,
+  createCalendarEventExceptionRepository,
+} from "./calendar-event-repository";
+import { createCalendarFeedTokenRepository } from "./calendar-feed-token-repository";
 import {
   createScheduleChangeRequestRepository,
   createChangeRequestMessageRepository,
   createScheduleOverrideRepository,
 } from "./schedule-repository";
+import { createHandoffCheckInRepository } from "./handoff-check-in-repository";
 import { createHolidayRepository, createHolidayExceptionRuleRepository } from "./holiday-repository";
 import { createBlogPostRepository, createBlogCategoryRepository } from "./blog-repository";
 import { createVolunteerTaskRepository } from "./volunteer-task-repository";
@@ -38,6 +49,20 @@ import {
   createLunchTransactionRepository,
 } from "./lunch-repository";
 import { createExpenseRepository } from "./expense-repository";
+import { createExpenseReceiptRepository } from "./expense-receipt-repository";
+import {
+  createExpensePaymentRepository,
+  createReimbursementRequestRepository,
+} from "./expense-ledger-repository";
+import {
+  createExpenseDisputeMessageRepository,
+  createExpenseDisputeRepository,
+} from "./expense-dispute-repository";
+import {
+  createRecurringExpenseRepository,
+  createSupportObligationRepository,
+  createSupportPaymentRepository,
+} from "./recurring-expense-repository";
 import { createReminderRepository } from "./reminder-repository";
 import { createConflictWindowRepository } from "./conflict-window-repository";
 import {
@@ -49,6 +74,9 @@ import { createSmsRelayParticipantRepository } from "./sms-relay-repository";
 import { createSmsSubscriptionRepository } from "./sms-subscriptions-repository";
 import { createMomentRepository, createMomentReactionRepository } from "./moments-repository";
 import { createScheduledNotificationRepository } from "./scheduled-notification-repository";
+import { createNotificationPreferenceRepository } from "./notification-preference-repository";
+import { createPushSubscriptionRepository } from "./push-subscription-repository";
+import { createNotificationEventRepository } from "./notification-event-repository";
 import {
   createExportJobsRepository,
   createExportMetadataRepository,
@@ -92,6 +120,9 @@ export function createPostgresUnitOfWork(tx?: SqlClient): UnitOfWork {
     sessions: createSessionRepository(tx),
     passwordResets: createPasswordResetRepository(tx),
     phoneVerifications: createPhoneVerificationRepository(tx),
+    mfaFactors: createMfaFactorRepository(tx),
+    mfaRecoveryCodes: createMfaRecoveryCodeRepository(tx),
+    mfaChallenges: createMfaChallengeRepository(tx),
     auditLogs: createAuditLogRepository(tx),
     rateLimits: createRateLimitRepository(tx),
     families: createFamilyRepository(tx),
@@ -99,10 +130,14 @@ export function createPostgresUnitOfWork(tx?: SqlClient): UnitOfWork {
     parentInvitations: createParentInvitationRepository(tx),
     children: createChildRepository(tx),
     custodySchedules: createCustodyScheduleRepository(tx),
+    custodyScheduleVersions: createCustodyScheduleVersionRepository(tx),
     calendarEvents: createCalendarEventRepository(tx),
+    calendarEventExceptions: createCalendarEventExceptionRepository(tx),
+    calendarFeedTokens: createCalendarFeedTokenRepository(tx),
     scheduleChangeRequests: createScheduleChangeRequestRepository(tx),
     changeRequestMessages: createChangeRequestMessageRepository(tx),
     scheduleOverrides: createScheduleOverrideRepository(tx),
+    handoffCheckIns: createHandoffCheckInRepository(tx),
     holidays: createHolidayRepository(tx),
     holidayExceptionRules: createHolidayExceptionRuleRepository(tx),
     blogPosts: createBlogPostRepository(tx),
@@ -114,7 +149,15 @@ export function createPostgresUnitOfWork(tx?: SqlClient): UnitOfWork {
     lunchMenus: createLunchMenuRepository(tx),
     lunchAccounts: createLunchAccountRepository(tx),
     lunchTransactions: createLunchTransactionRepository(tx),
-    expenses: createExpenseRepository(),
+    expenses: createExpenseRepository(tx),
+    expensePayments: createExpensePaymentRepository(tx),
+    expenseReceipts: createExpenseReceiptRepository(tx),
+    reimbursementRequests: createReimbursementRequestRepository(tx),
+    expenseDisputes: createExpenseDisputeRepository(tx),
+    expenseDisputeMessages: createExpenseDisputeMessageRepository(tx),
+    recurringExpenses: createRecurringExpenseRepository(tx),
+    supportObligations: createSupportObligationRepository(tx),
+    supportPayments: createSupportPaymentRepository(tx),
     reminders: createReminderRepository(tx),
     conflictWindows: createConflictWindowRepository(tx),
     messageThreads: createMessageThreadRepository(),
@@ -125,6 +168,9 @@ export function createPostgresUnitOfWork(tx?: SqlClient): UnitOfWork {
     moments: createMomentRepository(),
     momentReactions: createMomentReactionRepository(),
     scheduledNotifications: createScheduledNotificationRepository(tx),
+    notificationPreferences: createNotificationPreferenceRepository(tx),
+    pushSubscriptions: createPushSubscriptionRepository(tx),
+    notificationEvents: createNotificationEventRepository(tx),
     exportJobs: createExportJobsRepository(tx),
     exportMetadata: createExportMetadataRepository(tx),
     exportMessageHashes: createExportMessageHashRepository(tx),
@@ -146,6 +146,18 @@ export function createMessageRepository(): MessageRepository {
       `) as unknown as DbMessage[];
     },
 
+    async findUnreadSentBefore(sentBefore: string, limit = 200): Promise<DbMessage[]> {
+      return (await sql`
+        SELECT id, thread_id, family_id, sender_id, body, sent_at, read_at,
+               attachment_ids, tone_analysis, message_hash, previous_hash,
+               chain_index, created_at, updated_at
+        FROM messages
+        WHERE read_at IS NULL AND sent_at < ${sentBefore}
+        ORDER BY sent_at ASC
+        LIMIT ${limit}
+      `) as unknown as DbMessage[];
+    },
+
     async create(data: Omit<DbMessage, "id" | "createdAt" | "updatedAt">): Promise<DbMessage> {
       // Get the last message in the thread to determine chain index and previous hash
       const lastMessages = await sql<{ message_hash: string; chain_index: number }[]>`
@@ -0,0 +1,303 @@
+/**
+ * KidSchedule – PostgreSQL MFA Repositories
+ *
+ * Second factors (TOTP and WebAuthn), recovery codes and pending
+ * second-factor challenges.
+ */
+
+import type {
+  MfaChallengeRepository,
+  MfaFactorRepository,
+  MfaRecoveryCodeRepository,
+} from "../repositories";
+import type { DbMfaChallenge, DbMfaFactor, DbMfaRecoveryCode } from "../types";
+import { sql, type SqlClient } from "./client";
+
+// ─── Factors ──────────────────────────────────────────────────────────────────
+
+type FactorRow = {
+  id: string;
+  userId: string;
+  type: DbMfaFactor["type"];
+  label: string;
+  totpSecretEncrypted: string | null;
+  // BIGINT columns arrive as strings
+  totpLastUsedStep: string | null;
+  credentialId: string | null;
+  publicKey: string | null;
+  signCount: string;
+  transports: string[] | null;
+  confirmedAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+};
+
+function factorRowToDb(row: FactorRow): DbMfaFactor {
+  return {
+    id: row.id,
+    userId: row.userId,
+    type: row.type,
+    label: row.label,
+    totpSecretEncrypted: row.totpSecretEncrypted ?? undefined,
+    totpLastUsedStep: row.totpLastUsedStep === null ? undefined : Number(row.totpLastUsedStep),
+    credentialId: row.credentialId ?? undefined,
+    publicKey: row.publicKey ?? undefined,
+    signCount: Number(row.signCount),
+    transports: row.transports ?? [],
+    confirmedAt: row.confirmedAt?.toISOString(),
+    lastUsedAt: row.lastUsedAt?.toISOString(),
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+export function createMfaFactorRepository(tx?: SqlClient): MfaFactorRepository {
+  // Cast to postgres.Sql for TypeScript generic inference in template literals
+  // The union type (Sql | TransactionSql) causes generic type inference to fail
+  const query = (tx ?? sql) as typeof sql;
+
+  return {
+    async findById(id: string): Promise<DbMfaFactor | null> {
+      const rows = await query<FactorRow[]>`SELECT * FROM mfa_factors WHERE id = ${id}`;
+      return rows[0] ? factorRowToDb(rows[0]) : null;
+    },
+
+    async findByUserId(userId: string): Promise<DbMfaFactor[]> {
+      const rows = await query<FactorRow[]>`
+        SELECT * FROM mfa_factors WHERE user_id = ${userId} ORDER BY created_at ASC
+      `;
+      return rows.map(factorRowToDb);
+    },
+
+    async findConfirmedByUserId(userId: string): Promise<DbMfaFactor[]> {
+      const rows = await query<FactorRow[]>`
+        SELECT * FROM mfa_factors
+        WHERE user_id = ${userId} AND confirmed_at IS NOT NULL
+        ORDER BY created_at ASC
+      `;
+      return rows.map(factorRowToDb);
+    },
+
+    async findByCredentialId(credentialId: string): Promise<DbMfaFactor | null> {
+      const rows = await query<FactorRow[]>`
+        SELECT * FROM mfa_factors WHERE credential_id = ${credentialId}
+      `;
+      return rows[0] ? factorRowToDb(rows[0]) : null;
+    },
+
+    async create(
+      factor: Omit<DbMfaFactor, "id" | "createdAt" | "lastUsedAt" | "totpLastUsedStep">
+    ): Promise<DbMfaFactor> {
+      const rows = await query<FactorRow[]>`
+        INSERT INTO mfa_factors (
+          user_id,
+          type,
+          label,
+          totp_secret_encrypted,
+          credential_id,
+          public_key,
+          sign_count,
+          transports,
+          confirmed_at
+        )
+        VALUES (
+          ${factor.userId},
+          ${factor.type},
+          ${factor.label},
+          ${factor.totpSecretEncrypted ?? null},
+          ${factor.credentialId ?? null},
+          ${factor.publicKey ?? null},
+          ${factor.signCount},
+          ${factor.transports},
+          ${factor.confirmedAt ? new Date(factor.confirmedAt) : null}
+        )
+        RETURNING *
+      `;
+      return factorRowToDb(rows[0]);
+    },
+
+    async confirm(id: string): Promise<DbMfaFactor | null> {
+      const rows = await query<FactorRow[]>`
+        UPDATE mfa_factors
+        SET confirmed_at = COALESCE(confirmed_at, NOW())
+        WHERE id = ${id}
+        RETURNING *
+      `;
+      return rows[0] ? factorRowToDb(rows[0]) : null;
+    },
+
+    async recordTotpUse(id: string, step: number): Promise<boolean> {
+      // Conditional update so two requests racing with the same code cannot both win
+      const rows = await query`
+        UPDATE mfa_factors
+        SET totp_last_used_step = ${step}, last_used_at = NOW()
+        WHERE id = ${id}
+          AND (totp_last_used_step IS NULL OR totp_last_used_step < ${step})
+        RETURNING id
+      `;
+      return rows.length > 0;
+    },
+
+    async recordWebAuthnUse(id: string, signCount: number): Promise<void> {
+      await query`
+        UPDATE mfa_factors
+        SET sign_count = ${signCount}, last_used_at = NOW()
+        WHERE id = ${id}
+      `;
+    },
+
+    async delete(id: string, userId: string): Promise<boolean> {
+      const result = await query`
+        DELETE FROM mfa_factors WHERE id = ${id} AND user_id = ${userId}
+      `;
+      return result.count > 0;
+    },
+
+    async deleteUnconfirmed(userId: string): Promise<number> {
+      const result = await query`
+        DELETE FROM mfa_factors WHERE user_id = ${userId} AND confirmed_at IS NULL
+      `;
+      return result.count;
+    },
+  };
+}
+
+// ─── Recovery Codes ───────────────────────────────────────────────────────────
+
+type RecoveryCodeRow = {
+  id: string;
+  userId: string;
+  codeHash: string;
+  usedAt: Date | null;
+  createdAt: Date;
+};
+
+function recoveryCodeRowToDb(row: RecoveryCodeRow): DbMfaRecoveryCode {
+  return {
+    id: row.id,
+    userId: row.userId,
+    codeHash: row.codeHash,
+    usedAt: row.usedAt?.toISOString(),
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+export function createMfaRecoveryCodeRepository(tx?: SqlClient): MfaRecoveryCodeRepository {
+  const query = (tx ?? sql) as typeof sql;
+
+  return {
+    async countUnusedByUserId(userId: string): Promise<number> {
+      const rows = await query<{ count: string }[]>`
+        SELECT COUNT(*) AS count FROM mfa_recovery_codes
+        WHERE user_id = ${userId} AND used_at IS NULL
+      `;
+      return Number(rows[0]?.count ?? 0);
+    },
+
+    async replaceForUser(userId: string, codeHashes: string[]): Promise<DbMfaRecoveryCode[]> {
+      await query`DELETE FROM mfa_recovery_codes WHERE user_id = ${userId}`;
+      if (codeHashes.length === 0) {
+        return [];
+      }
+      const rows = await query<RecoveryCodeRow[]>`
+        INSERT INTO mfa_recovery_codes ${query(codeHashes.map((codeHash) => ({ user_id: userId, code_hash: codeHash })))}
+        RETURNING *
+      `;
+      return rows.map(recoveryCodeRowToDb);
+    },
+
+    async consume(userId: string, codeHash: string): Promise<boolean> {
+      const rows = await query`
+        UPDATE mfa_recovery_codes
+        SET used_at = NOW()
+        WHERE user_id = ${userId} AND code_hash = ${codeHash} AND used_at IS NULL
+        RETURNING id
+      `;
+      return rows.length > 0;
+    },
+
+    async deleteByUserId(userId: string): Promise<number> {
+      const result = await query`DELETE FROM mfa_recovery_codes WHERE user_id = ${userId}`;
+      return result.count;
+    },
+  };
+}
+
+// ─── Challenges ───────────────────────────────────────────────────────────────
+
+type ChallengeRow = {
+  id: string;
+  userId: string;
+  purpose: DbMfaChallenge["purpose"];
+  challenge: string | null;
+  rememberMe: boolean;
+  attemptCount: number;
+  expiresAt: Date;
+  consumedAt: Date | null;
+  createdAt: Date;
+};
+
+function challengeRowToDb(row: ChallengeRow): DbMfaChallenge {
+  return {
+    id: row.id,
+    userId: row.userId,
+    purpose: row.purpose,
+    challenge: row.challenge ?? undefined,
+    rememberMe: row.rememberMe,
+    attemptCount: row.attemptCount,
+    expiresAt: row.expiresAt.toISOString(),
+    consumedAt: row.consumedAt?.toISOString(),
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+export function createMfaChallengeRepository(tx?: SqlClient): MfaChallengeRepository {
+  const query = (tx ?? sql) as typeof sql;
+
+  return {
+    async findById(id: string): Promise<DbMfaChallenge | null> {
+      const rows = await query<ChallengeRow[]>`SELECT * FROM mfa_challenges WHERE id = ${id}`;
+      return rows[0] ? challengeRowToDb(rows[0]) : null;
+    },
+
+    async create(
+      challenge: Omit<DbMfaChallenge, "id" | "createdAt" | "attemptCount" | "consumedAt">
+    ): Promise<DbMfaChallenge> {
+      const rows = await query<ChallengeRow[]>`
+        INSERT INTO mfa_challenges (user_id, purpose, challenge, remember_me, expires_at)
+        VALUES (
+          ${challenge.userId},
+          ${challenge.purpose},
+          ${challenge.challenge ?? null},
+          ${challenge.rememberMe},
+          ${new Date(challenge.expiresAt)}
+        )
+        RETURNING *
+      `;
+      return challengeRowToDb(rows[0]);
+    },
+
+    async incrementAttempts(id: string): Promise<DbMfaChallenge | null> {
+      const rows = await query<ChallengeRow[]>`
+        UPDATE mfa_challenges SET attempt_count = attempt_count + 1 WHERE id = ${id} RETURNING *
+      `;
+      return rows[0] ? challengeRowToDb(rows[0]) : null;
+    },
+
+    async consume(id: string): Promise<boolean> {
+      const rows = await query`
+        UPDATE mfa_challenges
+        SET consumed_at = NOW()
+        WHERE id = ${id} AND consumed_at IS NULL
+        RETURNING id
+      `;
+      return rows.length > 0;
+    },
+
+    async deleteExpired(): Promise<number> {
+      const result = await query`
+        DELETE FROM mfa_challenges WHERE expires_at < NOW() - INTERVAL '1 day'
+      `;
+      return result.count;
+    },
+  };
+}
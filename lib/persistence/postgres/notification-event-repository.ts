@@ -0,0 +1,130 @@
+/**
+ * KidSchedule – PostgreSQL Notification Event Repository
+ */
+
+import type { NotificationEventRepository } from "../repositories";
+import type { DbNotificationEvent } from "../types";
+import { sql, type SqlClient } from "./client";
+
+type NotificationEventRow = {
+  id: string;
+  familyId: string;
+  recipientParentId: string;
+  eventType: DbNotificationEvent["eventType"];
+  payload: DbNotificationEvent["payload"];
+  dedupeKey: string;
+  status: DbNotificationEvent["status"];
+  deliveryMethod: DbNotificationEvent["deliveryMethod"] | null;
+  sentAt: Date | null;
+  errorMessage: string | null;
+  createdAt: Date;
+};
+
+function rowToDb(row: NotificationEventRow): DbNotificationEvent {
+  return {
+    id: row.id,
+    familyId: row.familyId,
+    recipientParentId: row.recipientParentId,
+    eventType: row.eventType,
+    payload: row.payload ?? {},
+    dedupeKey: row.dedupeKey,
+    status: row.status,
+    deliveryMethod: row.deliveryMethod ?? undefined,
+    sentAt: row.sentAt?.toISOString(),
+    errorMessage: row.errorMessage ?? undefined,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+export function createNotificationEventRepository(tx?: SqlClient): NotificationEventRepository {
+  // Cast to postgres.Sql for TypeScript generic inference in template literals
+  // The union type (Sql | TransactionSql) causes generic type inference to fail
+  const query = (tx ?? sql) as typeof sql;
+
+  return {
+    async findById(id: string): Promise<DbNotificationEvent | null> {
+      const rows = await query<NotificationEventRow[]>`
+        SELECT * FROM notification_events WHERE id = ${id}
+      `;
+      return rows[0] ? rowToDb(rows[0]) : null;
+    },
+
+    async findByRecipient(recipientParentId: string, limit = 50): Promise<DbNotificationEvent[]> {
+      const rows = await query<NotificationEventRow[]>`
+        SELECT * FROM notification_events
+        WHERE recipient_parent_id = ${recipientParentId}
+        ORDER BY created_at DESC
+        LIMIT ${limit}
+      `;
+      return rows.map(rowToDb);
+    },
+
+    async findPending(createdBefore: string, limit = 500): Promise<DbNotificationEvent[]> {
+      const rows = await query<NotificationEventRow[]>`
+        SELECT * FROM notification_events
+        WHERE status = 'pending' AND created_at < ${createdBefore}
+        ORDER BY created_at ASC
+        LIMIT ${limit}
+      `;
+      return rows.map(rowToDb);
+    },
+
+    async create(event: Omit<DbNotificationEvent, "id" | "createdAt">): Promise<DbNotificationEvent | null> {
+      const rows = await query<NotificationEventRow[]>`
+        INSERT INTO notification_events (
+          family_id,
+          recipient_parent_id,
+          event_type,
+          payload,
+          dedupe_key,
+          status,
+          delivery_method,
+          sent_at,
+          error_message
+        )
+        VALUES (
+          ${event.familyId},
+          ${event.recipientParentId},
+          ${event.eventType},
+          ${JSON.stringify(event.payload)},
+          ${event.dedupeKey},
+          ${event.status},
+          ${event.deliveryMethod ?? null},
+          ${event.sentAt ?? null},
+          ${event.errorMessage ?? null}
+        )
+        ON CONFLICT (recipient_parent_id, dedupe_key) DO NOTHING
+        RETURNING *
+      `;
+      return rows[0] ? rowToDb(rows[0]) : null;
+    },
+
+    async update(
+      id: string,
+      data: Partial<Pick<DbNotificationEvent, "status" | "deliveryMethod" | "sentAt" | "errorMessage">>
+    ): Promise<DbNotificationEvent | null> {
+      const rows = await query<NotificationEventRow[]>`
+        UPDATE notification_events SET
+          status          = COALESCE(${data.status ?? null}, status),
+          delivery_method = COALESCE(${data.deliveryMethod ?? null}, delivery_method),
+          sent_at         = COALESCE(${data.sentAt ?? null}, sent_at),
+          error_message   = ${data.errorMessage ?? null}
+        WHERE id = ${id}
+        RETURNING *
+      `;
+      return rows[0] ? rowToDb(rows[0]) : null;
+    },
+
+    async markDigested(ids: string[], sentAt: string): Promise<number> {
+      if (ids.length === 0) {
+        return 0;
+      }
+      const result = await query`
+        UPDATE notification_events
+        SET status = 'digested', delivery_method = 'email', sent_at = ${sentAt}
+        WHERE id = ANY(${ids}) AND status = 'pending'
+      `;
+      return result.count;
+    },
+  };
+}
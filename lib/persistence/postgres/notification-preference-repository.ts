@@ -0,0 +1,90 @@
+/**
+ * KidSchedule – PostgreSQL Notification Preference Repository
+ */
+
+import type { NotificationPreferenceRepository } from "../repositories";
+import type { DbNotificationPreference } from "../types";
+import { sql, type SqlClient } from "./client";
+
+type NotificationPreferenceRow = {
+  parentId: string;
+  familyId: string;
+  typeSettings: DbNotificationPreference["types"];
+  eventSettings: NonNullable<DbNotificationPreference["events"]>;
+  quietHoursStart: string | null; // TIME, e.g. "22:00:00"
+  quietHoursEnd: string | null;
+  digestHour: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+function rowToDb(row: NotificationPreferenceRow): DbNotificationPreference {
+  return {
+    parentId: row.parentId,
+    familyId: row.familyId,
+    types: row.typeSettings ?? {},
+    events: row.eventSettings ?? {},
+    quietHoursStart: row.quietHoursStart?.slice(0, 5),
+    quietHoursEnd: row.quietHoursEnd?.slice(0, 5),
+    digestHour: row.digestHour ?? undefined,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+export function createNotificationPreferenceRepository(tx?: SqlClient): NotificationPreferenceRepository {
+  // Cast to postgres.Sql for TypeScript generic inference in template literals
+  // The union type (Sql | TransactionSql) causes generic type inference to fail
+  const query = (tx ?? sql) as typeof sql;
+
+  return {
+    async findByParentId(parentId: string): Promise<DbNotificationPreference | null> {
+      const rows = await query<NotificationPreferenceRow[]>`
+        SELECT * FROM notification_preferences WHERE parent_id = ${parentId}
+      `;
+      return rows[0] ? rowToDb(rows[0]) : null;
+    },
+
+    async findByFamilyId(familyId: string): Promise<DbNotificationPreference[]> {
+      const rows = await query<NotificationPreferenceRow[]>`
+        SELECT * FROM notification_preferences WHERE family_id = ${familyId}
+      `;
+      return rows.map(rowToDb);
+    },
+
+    async upsert(
+      preference: Omit<DbNotificationPreference, "createdAt" | "updatedAt">
+    ): Promise<DbNotificationPreference> {
+      const rows = await query<NotificationPreferenceRow[]>`
+        INSERT INTO notification_preferences (
+          parent_id,
+          family_id,
+          type_settings,
+          event_settings,
+          quiet_hours_start,
+          quiet_hours_end,
+          digest_hour
+        )
+        VALUES (
+          ${preference.parentId},
+          ${preference.familyId},
+          ${JSON.stringify(preference.types)},
+          ${JSON.stringify(preference.events ?? {})},
+          ${preference.quietHoursStart ?? null},
+          ${preference.quietHoursEnd ?? null},
+          ${preference.digestHour ?? null}
+        )
+        ON CONFLICT (parent_id) DO UPDATE SET
+          family_id         = EXCLUDED.family_id,
+          type_settings     = EXCLUDED.type_settings,
+          event_settings    = EXCLUDED.event_settings,
+          quiet_hours_start = EXCLUDED.quiet_hours_start,
+          quiet_hours_end   = EXCLUDED.quiet_hours_end,
+          digest_hour       = EXCLUDED.digest_hour,
+          updated_at        = NOW()
+        RETURNING *
+      `;
+      return rowToDb(rows[0]);
+    },
+  };
+}
@@ -3,7 +3,7 @@
  */
 
 import type { ParentInvitationRepository } from "../repositories";
-import type { DbParentInvitation } from "../types";
+import type { DbCaregiverRole, DbParentInvitation } from "../types";
 import { sql, type SqlClient } from "./client";
 
 type ParentInvitationRow = {
@@ -14,6 +14,7 @@ type ParentInvitationRow = {
   email: string;
   phone: string | null;
   role: "secondary";
+  caregiverRole: DbCaregiverRole;
   status: DbParentInvitation["status"];
   token: string;
   expiresAt: Date | null;
@@ -32,6 +33,7 @@ function rowToDb(row: ParentInvitationRow): DbParentInvitation {
     email: row.email,
     phone: row.phone ?? undefined,
     role: row.role,
+    caregiverRole: row.caregiverRole,
     status: row.status,
     token: row.token,
     expiresAt: row.expiresAt?.toISOString(),
@@ -89,6 +91,7 @@ export function createParentInvitationRepository(tx?: SqlClient): ParentInvitati
           email,
           phone,
           role,
+          caregiver_role,
           status,
           token,
           expires_at
@@ -100,6 +103,7 @@ export function createParentInvitationRepository(tx?: SqlClient): ParentInvitati
           ${invitation.email.toLowerCase().trim()},
           ${invitation.phone ?? null},
           ${invitation.role},
+          ${invitation.caregiverRole ?? "parent"},
           ${invitation.status},
           ${invitation.token},
           ${invitation.expiresAt ? new Date(invitation.expiresAt) : null}
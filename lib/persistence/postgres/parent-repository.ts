@@ -3,7 +3,7 @@
  */
 
 import type { ParentRepository, ParentUpdateInput } from "../repositories";
-import type { DbParent } from "../types";
+import type { DbCaregiverRole, DbParent } from "../types";
 import { sql, type SqlClient } from "./client";
 
 type ParentRow = {
@@ -14,7 +14,9 @@ type ParentRow = {
   email: string;
   phone: string | null;
   avatarUrl: string | null;
+  timezone: string | null;
   role: "primary" | "secondary";
+  caregiverRole: DbCaregiverRole;
   createdAt: Date;
 };
 
@@ -27,7 +29,9 @@ function rowToDb(row: ParentRow): DbParent {
     email: row.email,
     phone: row.phone ?? undefined,
     avatarUrl: row.avatarUrl ?? undefined,
+    timezone: row.timezone ?? undefined,
     role: row.role,
+    caregiverRole: row.caregiverRole,
     createdAt: row.createdAt.toISOString(),
   };
 }
@@ -55,8 +59,8 @@ export function createParentRepository(tx?: SqlClient): ParentRepository {
 
     async create(parent: Omit<DbParent, "id" | "createdAt">): Promise<DbParent> {
       const rows = await query<ParentRow[]>`
-        INSERT INTO parents (user_id, family_id, name, email, phone, avatar_url, role)
-        VALUES (${parent.userId}, ${parent.familyId}, ${parent.name}, ${parent.email}, ${parent.phone ?? null}, ${parent.avatarUrl ?? null}, ${parent.role})
+        INSERT INTO parents (user_id, family_id, name, email, phone, avatar_url, timezone, role, caregiver_role)
+        VALUES (${parent.userId}, ${parent.familyId}, ${parent.name}, ${parent.email}, ${parent.phone ?? null}, ${parent.avatarUrl ?? null}, ${parent.timezone ?? null}, ${parent.role}, ${parent.caregiverRole ?? "parent"})
         RETURNING *
       `;
       return rowToDb(rows[0]);
@@ -86,6 +90,16 @@ export function createParentRepository(tx?: SqlClient): ParentRepository {
         values.push(data.avatarUrl && data.avatarUrl.trim().length > 0 ? data.avatarUrl : null);
       }
 
+      if (data.timezone !== undefined) {
+        updates.push(`timezone = $${values.length + 1}`);
+        values.push(data.timezone && data.timezone.trim().length > 0 ? data.timezone : null);
+      }
+
+      if (data.caregiverRole !== undefined) {
+        updates.push(`caregiver_role = $${values.length + 1}`);
+        values.push(data.caregiverRole);
+      }
+
       if (updates.length === 0) return this.findById(id);
 
       const idParamIndex = values.length + 1;
@@ -0,0 +1,93 @@
+/**
+ * KidSchedule – PostgreSQL Push Subscription Repository
+ */
+
+import type { PushSubscriptionRepository } from "../repositories";
+import type { DbPushSubscription } from "../types";
+import { sql, type SqlClient } from "./client";
+
+type PushSubscriptionRow = {
+  id: string;
+  parentId: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  userAgent: string | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+function rowToDb(row: PushSubscriptionRow): DbPushSubscription {
+  return {
+    id: row.id,
+    parentId: row.parentId,
+    endpoint: row.endpoint,
+    p256dh: row.p256dh,
+    auth: row.auth,
+    userAgent: row.userAgent ?? undefined,
+    lastUsedAt: row.lastUsedAt?.toISOString(),
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+export function createPushSubscriptionRepository(tx?: SqlClient): PushSubscriptionRepository {
+  // Cast to postgres.Sql for TypeScript generic inference in template literals
+  // The union type (Sql | TransactionSql) causes generic type inference to fail
+  const query = (tx ?? sql) as typeof sql;
+
+  return {
+    async findByParentId(parentId: string): Promise<DbPushSubscription[]> {
+      const rows = await query<PushSubscriptionRow[]>`
+        SELECT * FROM push_subscriptions
+        WHERE parent_id = ${parentId}
+        ORDER BY created_at ASC
+      `;
+      return rows.map(rowToDb);
+    },
+
+    async findByEndpoint(endpoint: string): Promise<DbPushSubscription | null> {
+      const rows = await query<PushSubscriptionRow[]>`
+        SELECT * FROM push_subscriptions WHERE endpoint = ${endpoint}
+      `;
+      return rows[0] ? rowToDb(rows[0]) : null;
+    },
+
+    async upsert(
+      subscription: Omit<DbPushSubscription, "id" | "lastUsedAt" | "createdAt" | "updatedAt">
+    ): Promise<DbPushSubscription> {
+      const rows = await query<PushSubscriptionRow[]>`
+        INSERT INTO push_subscriptions (parent_id, endpoint, p256dh, auth, user_agent)
+        VALUES (
+          ${subscription.parentId},
+          ${subscription.endpoint},
+          ${subscription.p256dh},
+          ${subscription.auth},
+          ${subscription.userAgent ?? null}
+        )
+        ON CONFLICT (endpoint) DO UPDATE SET
+          parent_id  = EXCLUDED.parent_id,
+          p256dh     = EXCLUDED.p256dh,
+          auth       = EXCLUDED.auth,
+          user_agent = EXCLUDED.user_agent,
+          updated_at = NOW()
+        RETURNING *
+      `;
+      return rowToDb(rows[0]);
+    },
+
+    async markUsed(id: string): Promise<void> {
+      await query`
+        UPDATE push_subscriptions SET last_used_at = NOW() WHERE id = ${id}
+      `;
+    },
+
+    async deleteByEndpoint(endpoint: string): Promise<boolean> {
+      const result = await query`
+        DELETE FROM push_subscriptions WHERE endpoint = ${endpoint}
+      `;
+      return result.count > 0;
+    },
+  };
+}
@@ -0,0 +1,361 @@
+/**
+ * KidSchedule – PostgreSQL Recurring Expense & Support Repositories
+ *
+ * Recurring expense templates that generate expense rows on schedule, and
+ * court-ordered support obligations with the payments received.
+ */
+
+import type {
+  RecurringExpenseRepository,
+  SupportObligationRepository,
+  SupportPaymentRepository,
+} from "../repositories";
+import type {
+  DbExpense,
+  DbRecurringExpense,
+  DbSupportObligation,
+  DbSupportPayment,
+  ExpenseFrequency,
+} from "../types";
+import { sql, type SqlClient } from "./client";
+
+function toIsoDate(value: string | Date): string {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : value;
+}
+
+function normalizeRatio(ratio: Record<string, number | string> | null): Record<string, number> | undefined {
+  if (!ratio) return undefined;
+  return Object.fromEntries(
+    Object.entries(ratio).map(([parentId, value]) => [parentId, typeof value === "string" ? parseFloat(value) : value])
+  );
+}
+
+// ─── Recurring Expenses ───────────────────────────────────────────────────────
+
+type RecurringExpenseRow = {
+  id: string;
+  familyId: string;
+  title: string;
+  description: string | null;
+  category: DbExpense["category"];
+  totalAmount: string | number;
+  currency: string;
+  exchangeRate: string | number | null;
+  splitMethod: DbExpense["splitMethod"];
+  splitRatio: Record<string, number | string> | null;
+  paidBy: string;
+  frequency: ExpenseFrequency;
+  startDate: string | Date;
+  endDate: string | Date | null;
+  nextDueDate: string | Date;
+  status: DbRecurringExpense["status"];
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+function recurringRowToDb(row: RecurringExpenseRow): DbRecurringExpense {
+  return {
+    id: row.id,
+    familyId: row.familyId,
+    title: row.title,
+    description: row.description ?? undefined,
+    category: row.category,
+    totalAmount: Number(row.totalAmount),
+    currency: row.currency,
+    exchangeRate: row.exchangeRate === null ? undefined : Number(row.exchangeRate),
+    splitMethod: row.splitMethod,
+    splitRatio: normalizeRatio(row.splitRatio),
+    paidBy: row.paidBy,
+    frequency: row.frequency,
+    startDate: toIsoDate(row.startDate),
+    endDate: row.endDate ? toIsoDate(row.endDate) : undefined,
+    nextDueDate: toIsoDate(row.nextDueDate),
+    status: row.status,
+    createdBy: row.createdBy,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+export function createRecurringExpenseRepository(tx?: SqlClient): RecurringExpenseRepository {
+  // Cast to postgres.Sql for TypeScript generic inference in template literals
+  // The union type (Sql | TransactionSql) causes generic type inference to fail
+  const query = (tx ?? sql) as typeof sql;
+
+  return {
+    async findById(id: string): Promise<DbRecurringExpense | null> {
+      const rows = await query<RecurringExpenseRow[]>`
+        SELECT * FROM recurring_expenses WHERE id = ${id}
+      `;
+      return rows[0] ? recurringRowToDb(rows[0]) : null;
+    },
+
+    async findByFamilyId(familyId: string): Promise<DbRecurringExpense[]> {
+      const rows = await query<RecurringExpenseRow[]>`
+        SELECT * FROM recurring_expenses
+        WHERE family_id = ${familyId}
+        ORDER BY title ASC
+      `;
+      return rows.map(recurringRowToDb);
+    },
+
+    async findDue(asOfDate: string): Promise<DbRecurringExpense[]> {
+      const rows = await query<RecurringExpenseRow[]>`
+        SELECT * FROM recurring_expenses
+        WHERE status = 'active' AND next_due_date <= ${asOfDate}
+        ORDER BY next_due_date ASC
+      `;
+      return rows.map(recurringRowToDb);
+    },
+
+    async create(template): Promise<DbRecurringExpense> {
+      const rows = await query<RecurringExpenseRow[]>`
+        INSERT INTO recurring_expenses (
+          family_id,
+          title,
+          description,
+          category,
+          total_amount,
+          currency,
+          exchange_rate,
+          split_method,
+          split_ratio,
+          paid_by,
+          frequency,
+          start_date,
+          end_date,
+          next_due_date,
+          created_by
+        )
+        VALUES (
+          ${template.familyId},
+          ${template.title},
+          ${template.description ?? null},
+          ${template.category},
+          ${template.totalAmount},
+          ${template.currency},
+          ${template.exchangeRate ?? null},
+          ${template.splitMethod},
+          ${template.splitRatio ? JSON.stringify(template.splitRatio) : null},
+          ${template.paidBy},
+          ${template.frequency},
+          ${template.startDate},
+          ${template.endDate ?? null},
+          ${template.nextDueDate},
+          ${template.createdBy}
+        )
+        RETURNING *
+      `;
+      return recurringRowToDb(rows[0]);
+    },
+
+    async advance(
+      id: string,
+      nextDueDate: string,
+      status: "active" | "ended"
+    ): Promise<DbRecurringExpense | null> {
+      const rows = await query<RecurringExpenseRow[]>`
+        UPDATE recurring_expenses
+        SET next_due_date = ${nextDueDate},
+            status = ${status},
+            updated_at = NOW()
+        WHERE id = ${id}
+        RETURNING *
+      `;
+      return rows[0] ? recurringRowToDb(rows[0]) : null;
+    },
+
+    async updateStatus(id: string, status: DbRecurringExpense["status"]): Promise<DbRecurringExpense | null> {
+      const rows = await query<RecurringExpenseRow[]>`
+        UPDATE recurring_expenses
+        SET status = ${status},
+            updated_at = NOW()
+        WHERE id = ${id}
+        RETURNING *
+      `;
+      return rows[0] ? recurringRowToDb(rows[0]) : null;
+    },
+  };
+}
+
+// ─── Support Obligations ──────────────────────────────────────────────────────
+
+type SupportObligationRow = {
+  id: string;
+  familyId: string;
+  payerParentId: string;
+  payeeParentId: string;
+  amountCents: string | number;
+  currency: string;
+  frequency: ExpenseFrequency;
+  startDate: string | Date;
+  endDate: string | Date | null;
+  graceDays: number;
+  orderReference: string | null;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+function obligationRowToDb(row: SupportObligationRow): DbSupportObligation {
+  return {
+    id: row.id,
+    familyId: row.familyId,
+    payerParentId: row.payerParentId,
+    payeeParentId: row.payeeParentId,
+    amountCents: Number(row.amountCents),
+    currency: row.currency,
+    frequency: row.frequency,
+    startDate: toIsoDate(row.startDate),
+    endDate: row.endDate ? toIsoDate(row.endDate) : undefined,
+    graceDays: row.graceDays,
+    orderReference: row.orderReference ?? undefined,
+    createdBy: row.createdBy,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+export function createSupportObligationRepository(tx?: SqlClient): SupportObligationRepository {
+  // Cast to postgres.Sql for TypeScript generic inference in template literals
+  // The union type (Sql | TransactionSql) causes generic type inference to fail
+  const query = (tx ?? sql) as typeof sql;
+
+  return {
+    async findById(id: string): Promise<DbSupportObligation | null> {
+      const rows = await query<SupportObligationRow[]>`
+        SELECT * FROM support_obligations WHERE id = ${id}
+      `;
+      return rows[0] ? obligationRowToDb(rows[0]) : null;
+    },
+
+    async findByFamilyId(familyId: string): Promise<DbSupportObligation[]> {
+      const rows = await query<SupportObligationRow[]>`
+        SELECT * FROM support_obligations
+        WHERE family_id = ${familyId}
+        ORDER BY start_date ASC
+      `;
+      return rows.map(obligationRowToDb);
+    },
+
+    async create(obligation): Promise<DbSupportObligation> {
+      const rows = await query<SupportObligationRow[]>`
+        INSERT INTO support_obligations (
+          family_id,
+          payer_parent_id,
+          payee_parent_id,
+          amount_cents,
+          currency,
+          frequency,
+          start_date,
+          end_date,
+          grace_days,
+          order_reference,
+          created_by
+        )
+        VALUES (
+          ${obligation.familyId},
+          ${obligation.payerParentId},
+          ${obligation.payeeParentId},
+          ${obligation.amountCents},
+          ${obligation.currency},
+          ${obligation.frequency},
+          ${obligation.startDate},
+          ${obligation.endDate ?? null},
+          ${obligation.graceDays},
+          ${obligation.orderReference ?? null},
+          ${obligation.createdBy}
+        )
+        RETURNING *
+      `;
+      return obligationRowToDb(rows[0]);
+    },
+
+    async end(id: string, endDate: string): Promise<DbSupportObligation | null> {
+      const rows = await query<SupportObligationRow[]>`
+        UPDATE support_obligations
+        SET end_date = ${endDate},
+            updated_at = NOW()
+        WHERE id = ${id}
+        RETURNING *
+      `;
+      return rows[0] ? obligationRowToDb(rows[0]) : null;
+    },
+  };
+}
+
+// ─── Support Payments ─────────────────────────────────────────────────────────
+
+type SupportPaymentRow = {
+  id: string;
+  obligationId: string;
+  familyId: string;
+  amountCents: string | number;
+  receivedOn: string | Date;
+  note: string | null;
+  recordedBy: string;
+  createdAt: Date;
+};
+
+function paymentRowToDb(row: SupportPaymentRow): DbSupportPayment {
+  return {
+    id: row.id,
+    obligationId: row.obligationId,
+    familyId: row.familyId,
+    amountCents: Number(row.amountCents),
+    receivedOn: toIsoDate(row.receivedOn),
+    note: row.note ?? undefined,
+    recordedBy: row.recordedBy,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+export function createSupportPaymentRepository(tx?: SqlClient): SupportPaymentRepository {
+  // Cast to postgres.Sql for TypeScript generic inference in template literals
+  // The union type (Sql | TransactionSql) causes generic type inference to fail
+  const query = (tx ?? sql) as typeof sql;
+
+  return {
+    async findByObligationId(obligationId: string): Promise<DbSupportPayment[]> {
+      const rows = await query<SupportPaymentRow[]>`
+        SELECT * FROM support_payments
+        WHERE obligation_id = ${obligationId}
+        ORDER BY received_on ASC, created_at ASC
+      `;
+      return rows.map(paymentRowToDb);
+    },
+
+    async findByFamilyId(familyId: string): Promise<DbSupportPayment[]> {
+      const rows = await query<SupportPaymentRow[]>`
+        SELECT * FROM support_payments
+        WHERE family_id = ${familyId}
+        ORDER BY received_on ASC, created_at ASC
+      `;
+      return rows.map(paymentRowToDb);
+    },
+
+    async create(payment): Promise<DbSupportPayment> {
+      const rows = await query<SupportPaymentRow[]>`
+        INSERT INTO support_payments (
+          obligation_id,
+          family_id,
+          amount_cents,
+          received_on,
+          note,
+          recorded_by
+        )
+        VALUES (
+          ${payment.obligationId},
+          ${payment.familyId},
+          ${payment.amountCents},
+          ${payment.receivedOn},
+          ${payment.note ?? null},
+          ${payment.recordedBy}
+        )
+        RETURNING *
+      `;
+      return paymentRowToDb(rows[0]);
+    },
+  };
+}
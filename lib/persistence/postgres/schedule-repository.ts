@@ -174,6 +174,19 @@ export function createScheduleChangeRequestRepository(tx?: SqlClient): ScheduleC
       `;
       return rows.length > 0;
     },
+
+    async revoke(id: string, revokedBy: string, responseNote?: string): Promise<DbScheduleChangeRequest | null> {
+      const rows = await q<RequestRow[]>`
+        UPDATE schedule_change_requests
+        SET status = 'cancelled',
+            responded_by = ${revokedBy},
+            response_note = ${responseNote ?? null},
+            responded_at = NOW()
+        WHERE id = ${id} AND status = 'accepted'
+        RETURNING *
+      `;
+      return rows[0] ? requestRowToDb(rows[0]) : null;
+    },
   };
 }
 
@@ -352,5 +365,14 @@ export function createScheduleOverrideRepository(tx?: SqlClient): ScheduleOverri
       `;
       return rows.length > 0;
     },
+
+    async cancelBySourceRequestId(requestId: string): Promise<number> {
+      const result = await q`
+        UPDATE schedule_overrides
+        SET status = 'cancelled'
+        WHERE source_request_id = ${requestId} AND status = 'active'
+      `;
+      return result.count;
+    },
   };
 }
@@ -44,8 +44,10 @@ export interface CreateScheduledNotificationData {
 }
 
 export interface UpdateScheduledNotificationData {
+  scheduledAt?: string;
   sentAt?: string;
   deliveryStatus?: DbScheduledNotification["deliveryStatus"];
+  deliveryMethod?: DbScheduledNotification["deliveryMethod"];
   messageId?: string;
   errorMessage?: string;
   retryCount?: number;
@@ -229,6 +231,10 @@ export function createScheduledNotificationRepository(tx?: SqlClient): Scheduled
       const updateFields = [];
       const values = [];
 
+      if (data.scheduledAt !== undefined) {
+        updateFields.push('scheduled_at = $' + (values.length + 1));
+        values.push(data.scheduledAt);
+      }
       if (data.sentAt !== undefined) {
         updateFields.push('sent_at = $' + (values.length + 1));
         values.push(data.sentAt);
@@ -237,6 +243,10 @@ export function createScheduledNotificationRepository(tx?: SqlClient): Scheduled
         updateFields.push('delivery_status = $' + (values.length + 1));
         values.push(data.deliveryStatus);
       }
+      if (data.deliveryMethod !== undefined) {
+        updateFields.push('delivery_method = $' + (values.length + 1));
+        values.push(data.deliveryMethod);
+      }
       if (data.messageId !== undefined) {
         updateFields.push('message_id = $' + (values.length + 1));
         values.push(data.messageId);
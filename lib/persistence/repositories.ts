@@ -16,6 +16,9 @@ import type {
   DbSession,
   DbPasswordResetRequest,
   DbPhoneVerification,
+  DbMfaFactor,
+  DbMfaRecoveryCode,
+  DbMfaChallenge,
   DbAuditLog,
   DbRateLimit,
   DbFamily,
@@ -23,10 +26,14 @@ import type {
   DbParentInvitation,
   DbChild,
   DbCustodySchedule,
+  DbCustodyScheduleVersion,
   DbCalendarEvent,
+  DbCalendarEventException,
+  DbCalendarFeedToken,
   DbScheduleChangeRequest,
   DbChangeRequestMessage,
   DbScheduleOverride,
+  DbHandoffCheckIn,
   DbHolidayDefinition,
   DbHolidayExceptionRule,
   DbBlogPost,
@@ -39,6 +46,14 @@ import type {
   DbLunchAccount,
   DbLunchTransaction,
   DbExpense,
+  DbExpensePayment,
+  DbExpenseReceipt,
+  DbReimbursementRequest,
+  DbExpenseDispute,
+  DbExpenseDisputeMessage,
+  DbRecurringExpense,
+  DbSupportObligation,
+  DbSupportPayment,
   DbMessageThread,
   DbMessage,
   DbHashChainVerification,
@@ -47,6 +62,9 @@ import type {
   DbMoment,
   DbMomentReaction,
   DbScheduledNotification,
+  DbNotificationPreference,
+  DbNotificationEvent,
+  DbPushSubscription,
   DbExportMetadata,
   DbExportMessageHash,
   DbExportVerificationAttempt,
@@ -123,6 +141,50 @@ export interface PhoneVerificationRepository {
   deleteExpired(): Promise<number>;
 }
 
+// ─── MFA Repositories ─────────────────────────────────────────────────────────
+
+export interface MfaFactorRepository {
+  findById(id: string): Promise<DbMfaFactor | null>;
+  /** All of a user's factors, including unconfirmed TOTP enrollments */
+  findByUserId(userId: string): Promise<DbMfaFactor[]>;
+  /** Factors that can satisfy a second-factor check */
+  findConfirmedByUserId(userId: string): Promise<DbMfaFactor[]>;
+  findByCredentialId(credentialId: string): Promise<DbMfaFactor | null>;
+  create(
+    factor: Omit<DbMfaFactor, "id" | "createdAt" | "lastUsedAt" | "totpLastUsedStep">
+  ): Promise<DbMfaFactor>;
+  confirm(id: string): Promise<DbMfaFactor | null>;
+  /**
+   * Records a TOTP code at `step`.  Returns false when `step` is not newer
+   * than the last accepted one, i.e. the code is being replayed.
+   */
+  recordTotpUse(id: string, step: number): Promise<boolean>;
+  recordWebAuthnUse(id: string, signCount: number): Promise<void>;
+  delete(id: string, userId: string): Promise<boolean>;
+  /** Drops TOTP enrollments that were never confirmed */
+  deleteUnconfirmed(userId: string): Promise<number>;
+}
+
+export interface MfaRecoveryCodeRepository {
+  countUnusedByUserId(userId: string): Promise<number>;
+  /** Replaces every code for the user with a fresh set */
+  replaceForUser(userId: string, codeHashes: string[]): Promise<DbMfaRecoveryCode[]>;
+  /** Marks an unused code as used; false when no such unused code exists */
+  consume(userId: string, codeHash: string): Promise<boolean>;
+  deleteByUserId(userId: string): Promise<number>;
+}
+
+export interface MfaChallengeRepository {
+  findById(id: string): Promise<DbMfaChallenge | null>;
+  create(
+    challenge: Omit<DbMfaChallenge, "id" | "createdAt" | "attemptCount" | "consumedAt">
+  ): Promise<DbMfaChallenge>;
+  incrementAttempts(id: string): Promise<DbMfaChallenge | null>;
+  /** Marks the challenge used; false when it was already consumed */
+  consume(id: string): Promise<boolean>;
+  deleteExpired(): Promise<number>;
+}
+
 // ─── Audit Log Repository ─────────────────────────────────────────────────────
 
 export interface AuditLogRepository {
@@ -162,9 +224,10 @@ export interface ParentRepository {
 }
 
 export type ParentUpdateInput =
-  Partial<Omit<DbParent, "phone" | "avatarUrl">> & {
+  Partial<Omit<DbParent, "phone" | "avatarUrl" | "timezone">> & {
     phone?: string | null;
     avatarUrl?: string | null;
+    timezone?: string | null;
   };
 
 export interface ParentInvitationRepository {
@@ -195,12 +258,40 @@ export interface ChildRepository {
 export interface CustodyScheduleRepository {
   findById(id: string): Promise<DbCustodySchedule | null>;
   findByFamilyId(familyId: string): Promise<DbCustodySchedule[]>;
+  /** The active family-wide schedule (not a child's own) */
   findActiveByFamilyId(familyId: string): Promise<DbCustodySchedule | null>;
+  /** Active schedules of children on their own rotation, at most one per child */
+  findActiveChildSchedules(familyId: string): Promise<DbCustodySchedule[]>;
   create(schedule: Omit<DbCustodySchedule, "id" | "createdAt" | "updatedAt">): Promise<DbCustodySchedule>;
   update(id: string, data: Partial<DbCustodySchedule>): Promise<DbCustodySchedule | null>;
+  /**
+   * Activate a schedule, deactivating the others for the same child (or the
+   * other family-wide schedules when it has no child).
+   */
   setActive(familyId: string, scheduleId: string): Promise<boolean>;
 }
 
+export interface CustodyScheduleVersionRepository {
+  findById(id: string): Promise<DbCustodyScheduleVersion | null>;
+  /** Every version of the family's schedule, oldest proposal first */
+  findByFamilyId(familyId: string): Promise<DbCustodyScheduleVersion[]>;
+  /** Approved versions, earliest effective date first */
+  findApprovedByFamilyId(familyId: string): Promise<DbCustodyScheduleVersion[]>;
+  /** At most one pending version per family (partial unique index) */
+  create(
+    version: Omit<
+      DbCustodyScheduleVersion,
+      "id" | "status" | "respondedBy" | "respondedAt" | "createdAt" | "updatedAt"
+    >
+  ): Promise<DbCustodyScheduleVersion>;
+  /** Close a pending version; null when it is not pending */
+  respond(
+    id: string,
+    status: "approved" | "rejected" | "withdrawn",
+    respondedBy: string
+  ): Promise<DbCustodyScheduleVersion | null>;
+}
+
 // ─── Calendar Event Repository ────────────────────────────────────────────────
 
 export interface CalendarEventRepository {
@@ -216,6 +307,32 @@ export interface CalendarEventRepository {
   delete(id: string): Promise<boolean>;
 }
 
+// ─── Calendar Event Exception Repository ──────────────────────────────────────
+
+export interface CalendarEventExceptionRepository {
+  findByFamilyId(familyId: string): Promise<DbCalendarEventException[]>;
+  findByEventId(eventId: string): Promise<DbCalendarEventException[]>;
+  /** Inserts or replaces the exception for (eventId, originalStartAt). */
+  upsert(
+    exception: Omit<DbCalendarEventException, "id" | "createdAt" | "updatedAt">
+  ): Promise<DbCalendarEventException>;
+  /** Removes exceptions for occurrences originally starting at or after `fromStartAt`. */
+  deleteByEventIdFrom(eventId: string, fromStartAt: string): Promise<number>;
+}
+
+// ─── Calendar Feed Token Repository ───────────────────────────────────────────
+
+export interface CalendarFeedTokenRepository {
+  findById(id: string): Promise<DbCalendarFeedToken | null>;
+  findActiveByParentId(parentId: string): Promise<DbCalendarFeedToken | null>;
+  create(
+    token: Omit<DbCalendarFeedToken, "id" | "createdAt" | "revokedAt" | "lastUsedAt">
+  ): Promise<DbCalendarFeedToken>;
+  /** Revokes every active token for the parent; returns the revoked rows. */
+  revokeActiveByParentId(parentId: string): Promise<DbCalendarFeedToken[]>;
+  markUsed(id: string): Promise<void>;
+}
+
 // ─── Schedule Change Request Repository ───────────────────────────────────────
 
 export interface ScheduleChangeRequestRepository {
@@ -229,6 +346,8 @@ export interface ScheduleChangeRequestRepository {
   decline(id: string, respondedBy: string, responseNote?: string): Promise<DbScheduleChangeRequest | null>;
   counter(id: string, respondedBy: string, responseNote: string): Promise<DbScheduleChangeRequest | null>;
   withdraw(id: string, withdrawnBy: string): Promise<boolean>;
+  /** Reverses an accepted request (status "cancelled"); null if it was not accepted */
+  revoke(id: string, revokedBy: string, responseNote?: string): Promise<DbScheduleChangeRequest | null>;
 }
 
 // ─── Change Request Message Repository ───────────────────────────────────────
@@ -257,6 +376,26 @@ export interface ScheduleOverrideRepository {
     data: Partial<DbScheduleOverride>
   ): Promise<DbScheduleOverride | null>;
   cancel(id: string): Promise<boolean>;
+  /** Cancels the active overrides materialized from a change request; returns how many */
+  cancelBySourceRequestId(requestId: string): Promise<number>;
+}
+
+// ─── Handoff Check-In Repository ──────────────────────────────────────────────
+
+export interface HandoffCheckInRepository {
+  findById(id: string): Promise<DbHandoffCheckIn | null>;
+  /** Check-ins whose exchange happened in [start, end), oldest first */
+  findByFamilyIdAndRange(familyId: string, start: string, end: string): Promise<DbHandoffCheckIn[]>;
+  create(
+    checkIn: Omit<DbHandoffCheckIn, "id" | "status" | "respondedBy" | "respondedAt" | "responseNote" | "createdAt" | "updatedAt">
+  ): Promise<DbHandoffCheckIn>;
+  /** Confirms or disputes a pending check-in; null if it was already answered */
+  respond(
+    id: string,
+    status: "confirmed" | "disputed",
+    respondedBy: string,
+    responseNote?: string
+  ): Promise<DbHandoffCheckIn | null>;
 }
 
 // ─── Holiday Repository ───────────────────────────────────────────────────────
@@ -486,9 +625,112 @@ export interface ExpenseRepository {
   ): Promise<DbExpense[]>;
   create(expense: Omit<DbExpense, "id" | "createdAt" | "updatedAt">): Promise<DbExpense>;
   update(id: string, data: Partial<DbExpense>): Promise<DbExpense | null>;
+  /** Stores the status the settlement ledger derived from recorded payments */
+  updatePaymentStatus(id: string, status: DbExpense["paymentStatus"]): Promise<DbExpense | null>;
   delete(id: string): Promise<boolean>;
 }
 
+// ─── Expense Payment Repository ───────────────────────────────────────────────
+
+export interface ExpensePaymentRepository {
+  /** Newest payment first */
+  findByFamilyId(familyId: string): Promise<DbExpensePayment[]>;
+  findByExpenseId(expenseId: string): Promise<DbExpensePayment[]>;
+  create(payment: Omit<DbExpensePayment, "id" | "createdAt">): Promise<DbExpensePayment>;
+}
+
+// ─── Expense Receipt Repository ───────────────────────────────────────────────
+
+/** Receipts are append-only: they are evidence for reimbursement claims */
+export interface ExpenseReceiptRepository {
+  findById(id: string): Promise<DbExpenseReceipt | null>;
+  /** Oldest first */
+  findByExpenseId(expenseId: string): Promise<DbExpenseReceipt[]>;
+  /** Oldest first */
+  findByFamilyId(familyId: string): Promise<DbExpenseReceipt[]>;
+  create(receipt: Omit<DbExpenseReceipt, "id" | "createdAt">): Promise<DbExpenseReceipt>;
+}
+
+// ─── Reimbursement Request Repository ─────────────────────────────────────────
+
+export interface ReimbursementRequestRepository {
+  findById(id: string): Promise<DbReimbursementRequest | null>;
+  /** Newest request first */
+  findByFamilyId(familyId: string): Promise<DbReimbursementRequest[]>;
+  findPendingByExpenseId(expenseId: string): Promise<DbReimbursementRequest[]>;
+  /** Throws a unique violation if the debtor already has a pending request for the expense */
+  create(
+    request: Omit<DbReimbursementRequest, "id" | "status" | "resolvedAt" | "createdAt" | "updatedAt">
+  ): Promise<DbReimbursementRequest>;
+  /** Marks a pending request paid or cancelled; null if it was not pending */
+  resolve(id: string, status: "paid" | "cancelled"): Promise<DbReimbursementRequest | null>;
+}
+
+// ─── Expense Dispute Repositories ─────────────────────────────────────────────
+
+export interface ExpenseDisputeRepository {
+  findById(id: string): Promise<DbExpenseDispute | null>;
+  /** Oldest first */
+  findByFamilyId(familyId: string): Promise<DbExpenseDispute[]>;
+  /** Oldest first */
+  findByExpenseId(expenseId: string): Promise<DbExpenseDispute[]>;
+  /** Throws a unique violation if the expense already has an open dispute */
+  create(
+    dispute: Omit<DbExpenseDispute, "id" | "status" | "resolvedBy" | "resolvedAt" | "createdAt" | "updatedAt">
+  ): Promise<DbExpenseDispute>;
+  /** Closes an open dispute; null if it was already closed */
+  resolve(id: string, status: "adjusted" | "withdrawn", resolvedBy: string): Promise<DbExpenseDispute | null>;
+}
+
+export interface ExpenseDisputeMessageRepository {
+  /** Oldest first */
+  findByDisputeId(disputeId: string): Promise<DbExpenseDisputeMessage[]>;
+  create(
+    msg: Omit<DbExpenseDisputeMessage, "id" | "respondedBy" | "respondedAt" | "createdAt">
+  ): Promise<DbExpenseDisputeMessage>;
+  /** Accepts or rejects a pending proposal; null if it was not pending */
+  respondToProposal(
+    id: string,
+    status: "accepted" | "rejected",
+    respondedBy: string
+  ): Promise<DbExpenseDisputeMessage | null>;
+  /** Marks the dispute's pending proposals superseded; returns how many */
+  supersedePending(disputeId: string): Promise<number>;
+}
+
+// ─── Recurring Expense Repository ─────────────────────────────────────────────
+
+export interface RecurringExpenseRepository {
+  findById(id: string): Promise<DbRecurringExpense | null>;
+  findByFamilyId(familyId: string): Promise<DbRecurringExpense[]>;
+  /** Active templates with an occurrence due on or before `asOfDate` */
+  findDue(asOfDate: string): Promise<DbRecurringExpense[]>;
+  create(
+    template: Omit<DbRecurringExpense, "id" | "status" | "createdAt" | "updatedAt">
+  ): Promise<DbRecurringExpense>;
+  /** Moves the template past the occurrences it has generated */
+  advance(id: string, nextDueDate: string, status: "active" | "ended"): Promise<DbRecurringExpense | null>;
+  updateStatus(id: string, status: DbRecurringExpense["status"]): Promise<DbRecurringExpense | null>;
+}
+
+// ─── Support Obligation Repositories ──────────────────────────────────────────
+
+export interface SupportObligationRepository {
+  findById(id: string): Promise<DbSupportObligation | null>;
+  findByFamilyId(familyId: string): Promise<DbSupportObligation[]>;
+  create(obligation: Omit<DbSupportObligation, "id" | "createdAt" | "updatedAt">): Promise<DbSupportObligation>;
+  /** Sets the date of the last installment owed */
+  end(id: string, endDate: string): Promise<DbSupportObligation | null>;
+}
+
+export interface SupportPaymentRepository {
+  /** Oldest first */
+  findByObligationId(obligationId: string): Promise<DbSupportPayment[]>;
+  /** Oldest first */
+  findByFamilyId(familyId: string): Promise<DbSupportPayment[]>;
+  create(payment: Omit<DbSupportPayment, "id" | "createdAt">): Promise<DbSupportPayment>;
+}
+
 // ─── Message Thread Repository ────────────────────────────────────────────────
 
 export interface MessageThreadRepository {
@@ -511,6 +753,8 @@ export interface MessageRepository {
   findByThreadId(threadId: string): Promise<DbMessage[]>;
   findByFamilyId(familyId: string): Promise<DbMessage[]>;
   findUnreadByFamilyId(familyId: string): Promise<DbMessage[]>;
+  /** Unread messages across all families sent before `sentBefore`, oldest first. */
+  findUnreadSentBefore(sentBefore: string, limit?: number): Promise<DbMessage[]>;
   create(message: Omit<DbMessage, "id" | "createdAt" | "updatedAt">): Promise<DbMessage>;
   markAsRead(id: string, readAt: string): Promise<DbMessage | null>;
   update(id: string, data: Partial<DbMessage>): Promise<DbMessage | null>;
@@ -610,6 +854,45 @@ export interface ScheduledNotificationRepository {
   delete(id: string): Promise<boolean>;
 }
 
+// ─── Notification Preference Repository ──────────────────────────────────────
+
+export interface NotificationPreferenceRepository {
+  findByParentId(parentId: string): Promise<DbNotificationPreference | null>;
+  findByFamilyId(familyId: string): Promise<DbNotificationPreference[]>;
+  /** Inserts or replaces the parent's preferences. */
+  upsert(preference: Omit<DbNotificationPreference, "createdAt" | "updatedAt">): Promise<DbNotificationPreference>;
+}
+
+// ─── Notification Event Repository ───────────────────────────────────────────
+
+export interface NotificationEventRepository {
+  findById(id: string): Promise<DbNotificationEvent | null>;
+  findByRecipient(recipientParentId: string, limit?: number): Promise<DbNotificationEvent[]>;
+  /** Pending events (awaiting a digest) created before `createdBefore`, oldest first. */
+  findPending(createdBefore: string, limit?: number): Promise<DbNotificationEvent[]>;
+  /** Records an event; returns null when the recipient already has one with this dedupe key. */
+  create(event: Omit<DbNotificationEvent, "id" | "createdAt">): Promise<DbNotificationEvent | null>;
+  update(
+    id: string,
+    data: Partial<Pick<DbNotificationEvent, "status" | "deliveryMethod" | "sentAt" | "errorMessage">>
+  ): Promise<DbNotificationEvent | null>;
+  /** Marks events as included in a digest sent at `sentAt`; returns how many changed. */
+  markDigested(ids: string[], sentAt: string): Promise<number>;
+}
+
+// ─── Push Subscription Repository ─────────────────────────────────────────────
+
+export interface PushSubscriptionRepository {
+  findByParentId(parentId: string): Promise<DbPushSubscription[]>;
+  findByEndpoint(endpoint: string): Promise<DbPushSubscription | null>;
+  /** Registers a subscription, taking over the endpoint if it was already known. */
+  upsert(
+    subscription: Omit<DbPushSubscription, "id" | "lastUsedAt" | "createdAt" | "updatedAt">
+  ): Promise<DbPushSubscription>;
+  markUsed(id: string): Promise<void>;
+  deleteByEndpoint(endpoint: string): Promise<boolean>;
+}
+
 // ─── Export Jobs Repository ───────────────────────────────────────────────────
 
 export interface ExportJobsRepository {
@@ -805,6 +1088,9 @@ export interface UnitOfWork {
   sessions: SessionRepository;
   passwordResets: PasswordResetRepository;
   phoneVerifications: PhoneVerificationRepository;
+  mfaFactors: MfaFactorRepository;
+  mfaRecoveryCodes: MfaRecoveryCodeRepository;
+  mfaChallenges: MfaChallengeRepository;
   auditLogs: AuditLogRepository;
   rateLimits: RateLimitRepository;
   families: FamilyRepository;
@@ -812,10 +1098,14 @@ export interface UnitOfWork {
   parentInvitations: ParentInvitationRepository;
   children: ChildRepository;
   custodySchedules: CustodyScheduleRepository;
+  custodyScheduleVersions: CustodyScheduleVersionRepository;
   calendarEvents: CalendarEventRepository;
+  calendarEventExceptions: CalendarEventExceptionRepository;
+  calendarFeedTokens: CalendarFeedTokenRepository;
   scheduleChangeRequests: ScheduleChangeRequestRepository;
   changeRequestMessages: ChangeRequestMessageRepository;
   scheduleOverrides: ScheduleOverrideRepository;
+  handoffCheckIns: HandoffCheckInRepository;
   holidays: HolidayRepository;
   holidayExceptionRules: HolidayExceptionRuleRepository;
   blogPosts: BlogPostRepository;
@@ -828,6 +1118,14 @@ export interface UnitOfWork {
   lunchAccounts: LunchAccountRepository;
   lunchTransactions: LunchTransactionRepository;
   expenses: ExpenseRepository;
+  expensePayments: ExpensePaymentRepository;
+  expenseReceipts: ExpenseReceiptRepository;
+  reimbursementRequests: ReimbursementRequestRepository;
+  expenseDisputes: ExpenseDisputeRepository;
+  expenseDisputeMessages: ExpenseDisputeMessageRepository;
+  recurringExpenses: RecurringExpenseRepository;
+  supportObligations: SupportObligationRepository;
+  supportPayments: SupportPaymentRepository;
   reminders: ReminderRepository;
   conflictWindows: ConflictWindowRepository;
   messageThreads: MessageThreadRepository;
@@ -838,6 +1136,9 @@ export interface UnitOfWork {
   moments: MomentRepository;
   momentReactions: MomentReactionRepository;
   scheduledNotifications: ScheduledNotificationRepository;
+  notificationPreferences: NotificationPreferenceRepository;
+  pushSubscriptions: PushSubscriptionRepository;
+  notificationEvents: NotificationEventRepository;
   exportJobs: ExportJobsRepository;
   stripeCustomers: StripeCustomerRepository;
   paymentMethods: PaymentMethodRepository;
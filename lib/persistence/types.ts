@@ -71,6 +71,55 @@ export interface DbPhoneVerification {
   userAgent?: string;
 }
 
+// ─── Multi-Factor Authentication Entities ─────────────────────────────────────
+
+export type DbMfaFactorType = "totp" | "webauthn";
+
+export interface DbMfaFactor {
+  id: string;
+  userId: string;
+  type: DbMfaFactorType;
+  /** User-facing name, e.g. "Authenticator app" or "MacBook Touch ID" */
+  label: string;
+  /** TOTP only: AES-256-GCM encrypted base32 secret */
+  totpSecretEncrypted?: string;
+  /** TOTP only: last accepted 30-second step, so a code cannot be replayed */
+  totpLastUsedStep?: number;
+  /** WebAuthn only: base64url credential id */
+  credentialId?: string;
+  /** WebAuthn only: base64url SPKI (DER) public key */
+  publicKey?: string;
+  signCount: number;
+  transports: string[];
+  /** Unset until a TOTP enrollment is confirmed with a first valid code */
+  confirmedAt?: string;
+  lastUsedAt?: string;
+  createdAt: string;
+}
+
+export interface DbMfaRecoveryCode {
+  id: string;
+  userId: string;
+  codeHash: string;
+  usedAt?: string;
+  createdAt: string;
+}
+
+export type DbMfaChallengePurpose = "login" | "step_up" | "webauthn_register";
+
+export interface DbMfaChallenge {
+  id: string;
+  userId: string;
+  purpose: DbMfaChallengePurpose;
+  /** Random base64url WebAuthn challenge, when a passkey ceremony is possible */
+  challenge?: string;
+  rememberMe: boolean;
+  attemptCount: number;
+  expiresAt: string;
+  consumedAt?: string;
+  createdAt: string;
+}
+
 // ─── Audit Log Entity ─────────────────────────────────────────────────────────
 
 export type AuditAction =
@@ -83,6 +132,12 @@ export type AuditAction =
   | "user.phone_verify_request"
   | "user.phone_verify_success"
   | "user.phone_verify_failed"
+  | "user.mfa_enroll"
+  | "user.mfa_remove"
+  | "user.mfa_challenge_failed"
+  | "user.mfa_recovery_code_used"
+  | "user.mfa_recovery_codes_regenerate"
+  | "user.mfa_step_up"
   | "session.create"
   | "session.refresh"
   | "session.revoke"
@@ -92,12 +147,15 @@ export type AuditAction =
   | "calendar.event.create"
   | "calendar.event.update"
   | "calendar.event.delete"
+  | "calendar.event.import"
   | "holiday.rule.propose"
   | "holiday.rule.confirm"
   | "holiday.rule.reject"
   | "holiday.definition.create"
   | "vault.document.download"
-  | "vault.document.delete";
+  | "vault.document.delete"
+  | "calendar.feed_token.create"
+  | "calendar.feed_token.revoke";
 
 export interface DbAuditLog {
   id: string;
@@ -125,11 +183,19 @@ export interface DbFamily {
   name: string;
   custodyAnchorDate: string;
   scheduleId: string;
+  /** IANA timezone used for custody transitions, e.g. "America/New_York" */
+  timezone: string;
+  /** ISO-4217 currency balances are settled in; USD when unset */
+  baseCurrency?: string;
+  /** Holiday calendar the family follows, e.g. "US" or "US-CA"; US when unset */
+  holidayJurisdiction?: string;
   proxyPhoneNumber?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+export type DbCaregiverRole = "parent" | "step_parent" | "grandparent" | "guardian" | "other";
+
 export interface DbParent {
   id: string;
   userId: string;
@@ -138,7 +204,12 @@ export interface DbParent {
   email: string;
   phone?: string;
   avatarUrl?: string;
+  /** IANA timezone for displaying handoff times; falls back to the family's */
+  timezone?: string;
+  /** Account role: the primary holder manages the family */
   role: "primary" | "secondary";
+  /** Relation to the children; "parent" when unset */
+  caregiverRole?: DbCaregiverRole;
   createdAt: string;
 }
 
@@ -152,6 +223,8 @@ export interface DbParentInvitation {
   email: string;
   phone?: string;
   role: "secondary";
+  /** Relation to the children the invitee will join as; "parent" when unset */
+  caregiverRole?: DbCaregiverRole;
   status: DbParentInvitationStatus;
   token: string;
   expiresAt?: string;
@@ -174,14 +247,51 @@ export interface DbChild {
 export interface DbCustodySchedule {
   id: string;
   familyId: string;
+  /** Set for a child's own rotation; unset for the family-wide schedule */
+  childId?: string;
   name: string;
   transitionHour: number;
   blocks: string;             // JSON-serialized ScheduleBlock[]
+  /** YYYY-MM-DD the rotation started; the family's anchor date when unset */
+  anchorDate?: string;
+  seasons?: string;           // JSON-serialized ScheduleSeason[]
+  phases?: string;            // JSON-serialized SchedulePhase[]
+  weeklyBlocks?: string;      // JSON-serialized WeeklyBlock[]
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+export type ScheduleVersionStatus = "pending" | "approved" | "rejected" | "withdrawn";
+
+/**
+ * A change to the family-wide schedule that takes effect on a date.  One
+ * parent proposes it and the other approves it; approved versions are never
+ * edited, so custody before `effectiveDate` keeps following the version
+ * (or original schedule) that was in force then.
+ */
+export interface DbCustodyScheduleVersion {
+  id: string;
+  familyId: string;
+  name: string;
+  transitionHour: number;
+  blocks: string;             // JSON-serialized ScheduleBlock[]
+  seasons?: string;           // JSON-serialized ScheduleSeason[]
+  phases?: string;            // JSON-serialized SchedulePhase[]
+  weeklyBlocks?: string;      // JSON-serialized WeeklyBlock[]
+  /** YYYY-MM-DD block[0] of this rotation starts (or started) */
+  anchorDate: string;
+  /** YYYY-MM-DD it takes over, at its transition hour in the family timezone */
+  effectiveDate: string;
+  reason?: string;
+  status: ScheduleVersionStatus;
+  proposedBy: string;         // parentId
+  respondedBy?: string;       // parentId
+  respondedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface DbCalendarEvent {
   id: string;
   familyId: string;
@@ -195,10 +305,61 @@ export interface DbCalendarEvent {
   parentId?: string;
   confirmationStatus: string;
   createdBy: string;
+  /** Source UID (plus occurrence start) for events imported from an .ics feed */
+  externalId?: string;
+  /** Where an imported event came from, e.g. the feed URL or "upload" */
+  externalSource?: string;
+  /** RFC 5545 RRULE value (without the "RRULE:" prefix) for a recurring series */
+  recurrenceRule?: string;
+  /** End of the series' last occurrence; absent for open-ended series */
+  recurrenceEndAt?: string;
+  /** Expanded occurrences only: id of the series row this instance belongs to */
+  recurringEventId?: string;
+  /** Expanded occurrences only: the instance's scheduled start before any edit */
+  originalStartAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A per-occurrence edit or cancellation of a recurring calendar event,
+ * keyed by the occurrence's original start.  Unset fields inherit from the
+ * series.
+ */
+export interface DbCalendarEventException {
+  id: string;
+  eventId: string;
+  familyId: string;
+  originalStartAt: string;
+  cancelled: boolean;
+  title?: string;
+  description?: string;
+  category?: string;
+  startAt?: string;
+  endAt?: string;
+  allDay?: boolean;
+  location?: string;
+  parentId?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Per-parent calendar subscription token.  The URL token is
+ * `<id>.<HMAC(server secret, id:parentId:secret)>`, so a feed URL can be
+ * re-derived for display but not forged from a database read alone.
+ */
+export interface DbCalendarFeedToken {
+  id: string;
+  familyId: string;
+  parentId: string;
+  secret: string;             // random per-token key material (hex)
+  createdByUserId: string;
+  createdAt: string;
+  revokedAt?: string;
+  lastUsedAt?: string;
+}
+
 export interface DbScheduleChangeRequest {
   id: string;
   familyId: string;
@@ -325,6 +486,7 @@ export interface DbSchoolVaultDocument {
   updatedAt: string;
   isDeleted: boolean;
   sizeBytes?: number;
+  /** Storage key of the file (older rows: `/uploads/<key>`); never served directly */
   url?: string;
   actionDeadline?: string;
 }
@@ -372,7 +534,22 @@ export interface DbLunchTransaction {
 
 // ─── Expense Entities ─────────────────────────────────────────────────────────
 
-export interface DbExpense {
+export type ExchangeRateSource = "manual" | "rates_file";
+
+/**
+ * An expense paid in another currency, converted to the family's base
+ * currency at the rate when it was recorded.
+ */
+export interface ExchangeRateSnapshot {
+  baseCurrency: string;
+  baseAmount: number; // cents in baseCurrency
+  exchangeRate: number; // baseCurrency per one unit of the expense currency
+  exchangeRateSource: ExchangeRateSource;
+  exchangeRateDate: string; // ISO date the rate is for
+}
+
+/** Snapshot fields are set only when currency differs from the family's base currency */
+export interface DbExpense extends Partial<ExchangeRateSnapshot> {
   id: string;
   familyId: string;
   title: string;
@@ -383,13 +560,188 @@ export interface DbExpense {
   splitMethod: "50-50" | "custom" | "one-parent";
   splitRatio?: Record<string, number>; // parentId → percentage mapping
   paidBy: string; // parentId
-  paymentStatus: "unpaid" | "paid" | "disputed";
+  paymentStatus: DbExpensePaymentStatus;
   receiptUrl?: string;
   date: string; // ISO date
+  recurringExpenseId?: string; // template that generated it
   createdAt: string;
   updatedAt: string;
 }
 
+export type DbExpensePaymentStatus = "unpaid" | "partially_paid" | "paid" | "disputed";
+
+export type ExpensePaymentKind = "payment" | "settle_up";
+
+/**
+ * Money one parent paid another toward their share of an expense.  A settle
+ * up writes one row per expense it clears, all with the same settlementId.
+ */
+export interface DbExpensePayment {
+  id: string;
+  familyId: string;
+  expenseId: string;
+  fromParentId: string; // parent who owed
+  toParentId: string;   // parent who fronted the expense
+  amountCents: number;
+  currency: string;
+  kind: ExpensePaymentKind;
+  settlementId?: string;
+  reimbursementRequestId?: string;
+  note?: string;
+  paidAt: string;
+  recordedBy: string; // parentId
+  createdAt: string;
+}
+
+export type ReimbursementRequestStatus = "pending" | "paid" | "cancelled";
+
+/** A parent who fronted an expense asking another for their share */
+export interface DbReimbursementRequest {
+  id: string;
+  familyId: string;
+  expenseId: string;
+  requestedBy: string;   // parentId owed the money
+  requestedFrom: string; // parentId who owes it
+  amountCents: number;
+  note?: string;
+  status: ReimbursementRequestStatus;
+  resolvedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Fields read from a text-based PDF receipt */
+export interface ReceiptExtraction {
+  merchant?: string;
+  amountCents?: number;
+  date?: string; // ISO date
+}
+
+/**
+ * A receipt file attached to an expense.  The file lives in object storage
+ * under `receipts/<familyId>/`; what could be read from it is kept alongside.
+ */
+export interface DbExpenseReceipt {
+  id: string;
+  familyId: string;
+  expenseId: string;
+  storageKey: string;
+  fileName: string;
+  contentType: "application/pdf" | "image/jpeg" | "image/png";
+  sizeBytes: number;
+  extractedMerchant?: string;
+  extractedAmountCents?: number;
+  extractedDate?: string;
+  uploadedBy: string; // parentId
+  createdAt: string;
+}
+
+export type ExpenseDisputeStatus = "open" | "adjusted" | "withdrawn";
+
+/**
+ * A parent's objection to a shared expense.  Keeps the expense's figures
+ * from when it was opened so reports can show what an adjustment changed.
+ */
+export interface DbExpenseDispute {
+  id: string;
+  familyId: string;
+  expenseId: string;
+  openedBy: string; // parentId
+  reason: string;
+  status: ExpenseDisputeStatus;
+  previousPaymentStatus: DbExpensePaymentStatus;
+  originalTotalAmount: number; // cents
+  originalSplitMethod: DbExpense["splitMethod"];
+  originalSplitRatio?: Record<string, number>;
+  resolvedBy?: string; // parentId
+  resolvedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ExpenseDisputeProposalStatus = "pending" | "accepted" | "rejected" | "superseded";
+
+/**
+ * One message in a dispute thread.  A message that proposes a resolution
+ * carries the adjusted amount and/or split and a proposalStatus.
+ */
+export interface DbExpenseDisputeMessage {
+  id: string;
+  disputeId: string;
+  familyId: string;
+  senderParentId: string;
+  body: string;
+  proposedTotalAmount?: number; // cents
+  proposedSplitMethod?: DbExpense["splitMethod"];
+  proposedSplitRatio?: Record<string, number>;
+  proposalStatus?: ExpenseDisputeProposalStatus;
+  respondedBy?: string; // parentId
+  respondedAt?: string;
+  createdAt: string;
+}
+
+export type ExpenseFrequency = "weekly" | "biweekly" | "monthly" | "quarterly" | "yearly";
+
+export type RecurringExpenseStatus = "active" | "paused" | "ended";
+
+/**
+ * Template for an expense that repeats (tuition, daycare).  Each occurrence
+ * from startDate up to endDate generates one DbExpense; nextDueDate is the
+ * first occurrence not generated yet.
+ */
+export interface DbRecurringExpense {
+  id: string;
+  familyId: string;
+  title: string;
+  description?: string;
+  category: DbExpense["category"];
+  totalAmount: number; // cents per occurrence
+  currency: string;
+  /** Manual rate for occurrences the rates file has no rate for */
+  exchangeRate?: number;
+  splitMethod: DbExpense["splitMethod"];
+  splitRatio?: Record<string, number>;
+  paidBy: string; // parentId
+  frequency: ExpenseFrequency;
+  startDate: string; // ISO date
+  endDate?: string;  // ISO date, inclusive
+  nextDueDate: string;
+  status: RecurringExpenseStatus;
+  createdBy: string; // parentId
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Court-ordered support one parent pays the other on a schedule */
+export interface DbSupportObligation {
+  id: string;
+  familyId: string;
+  payerParentId: string;
+  payeeParentId: string;
+  amountCents: number; // per installment
+  currency: string;
+  frequency: ExpenseFrequency;
+  startDate: string; // ISO date of the first installment
+  endDate?: string;  // ISO date, inclusive
+  graceDays: number;
+  orderReference?: string; // court order / case number
+  createdBy: string; // parentId
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Support actually received against an obligation */
+export interface DbSupportPayment {
+  id: string;
+  obligationId: string;
+  familyId: string;
+  amountCents: number;
+  receivedOn: string; // ISO date
+  note?: string;
+  recordedBy: string; // parentId
+  createdAt: string;
+}
+
 // ─── Messaging & Hash Chain Entities ───────────────────────────────────────────
 
 export interface DbMessageThread {
@@ -503,6 +855,7 @@ export interface DbMoment {
   id: string;
   familyId: string;
   uploadedBy: string; // parentId
+  /** Storage key of the media; older moments hold a static or external URL */
   mediaUrl: string;
   thumbnailUrl?: string;
   mediaType: "photo" | "video";
@@ -554,10 +907,44 @@ export interface DbScheduleOverride {
   notes?: string;
 }
 
+/**
+ * How a recurring holiday's date is worked out each year: a fixed month and
+ * day, the nth weekday of a month (nth -1 = last), or days from Western
+ * Easter Sunday.
+ */
+export type HolidayDateRule =
+  | { kind: "fixed"; month: number; day: number }
+  | { kind: "nth_weekday"; month: number; weekday: number; nth: number }
+  | { kind: "easter"; offsetDays: number };
+
+/**
+ * The custody period around a holiday, in the family's timezone: from
+ * `startTime` `startOffsetDays` from the holiday to `endTime` `endOffsetDays`
+ * from it.  Thanksgiving "Wednesday 6 PM to Sunday 6 PM" is -1 18:00 to
+ * 3 18:00.
+ */
+export interface HolidayWindow {
+  startOffsetDays: number;
+  startTime: string; // HH:MM
+  endOffsetDays: number;
+  endTime: string; // HH:MM
+}
+
+/**
+ * Who has the holiday in a given year.  "alternate_years" splits odd and
+ * even years; "rotate" walks `parentIds` in order, one per year from
+ * `startYear`.
+ */
+export type HolidayAssignment =
+  | { mode: "alternate_years"; oddYearParentId: string; evenYearParentId: string }
+  | { mode: "rotate"; parentIds: string[]; startYear: number };
+
 export interface DbHolidayDefinition {
   id: string;
   name: string;
-  date: string; // YYYY-MM-DD
+  /** Set for one-off holidays; computed holidays have a `rule` instead */
+  date?: string; // YYYY-MM-DD
+  rule?: HolidayDateRule;
   type: "federal" | "state" | "religious" | "cultural" | "custom";
   jurisdiction: string;
   description?: string;
@@ -572,6 +959,10 @@ export interface DbHolidayExceptionRule {
   custodianParentId: string; // The parent who receives the holiday custody override
   isEnabled: boolean;
   notes?: string;
+  /** Custody period around the holiday; the whole day when unset */
+  window?: HolidayWindow;
+  /** Year-by-year custodian; custodianParentId every year when unset */
+  assignment?: HolidayAssignment;
   approvalStatus: "pending" | "approved" | "rejected";
   proposedBy: string; // parentId who proposed this rule
   proposedAt: string; // ISO timestamp
@@ -587,17 +978,49 @@ export interface DbHolidayExceptionRule {
   updatedAt: string;
 }
 
+// ─── Handoff Check-Ins ────────────────────────────────────────────────────────
+
+export type HandoffCheckInKind = "drop_off" | "pick_up";
+export type HandoffCheckInStatus = "pending" | "confirmed" | "disputed";
+
+/**
+ * One parent's record of a custody exchange: the parent handing the kids
+ * over records "drop_off", the one receiving them "pick_up".  The other
+ * parent confirms or disputes it.
+ */
+export interface DbHandoffCheckIn {
+  id: string;
+  familyId: string;
+  kind: HandoffCheckInKind;
+  /** When the exchange actually happened */
+  occurredAt: string;
+  fromParentId: string; // parent handing the kids over
+  toParentId: string;   // parent receiving them
+  recordedBy: string;   // parentId
+  note?: string;
+  status: HandoffCheckInStatus;
+  respondedBy?: string; // parentId who confirmed/disputed
+  respondedAt?: string;
+  responseNote?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 // ─── Scheduled Notifications ─────────────────────────────────────────────────
 
+export type ScheduledNotificationType = "transition_24h" | "transition_same_day" | "transition_reminder";
+
+export type NotificationChannel = "sms" | "email" | "push";
+
 export interface DbScheduledNotification {
   id: string;
   familyId: string;
   parentId: string;
-  notificationType: "transition_24h" | "transition_same_day" | "transition_reminder";
+  notificationType: ScheduledNotificationType;
   scheduledAt: string;
   sentAt?: string;
   deliveryStatus: "pending" | "sent" | "failed" | "cancelled";
-  deliveryMethod: "sms" | "email" | "push";
+  deliveryMethod: NotificationChannel;
   messageId?: string;
   errorMessage?: string;
   transitionAt: string;
@@ -610,6 +1033,90 @@ export interface DbScheduledNotification {
   updatedAt: string;
 }
 
+export interface NotificationTypePreference {
+  enabled: boolean;
+  /** Channels to try, most preferred first */
+  channels: NotificationChannel[];
+  /** Minutes before the transition to send */
+  leadMinutes: number;
+}
+
+/**
+ * A parent's notification settings.  Types missing from `types` use the
+ * defaults in lib/notification-preferences.  Quiet hours are "HH:MM" wall
+ * times in the parent's timezone (falling back to the family's) and may
+ * wrap midnight, e.g. 22:00–07:00.
+ */
+export interface DbNotificationPreference {
+  parentId: string;
+  familyId: string;
+  types: Partial<Record<ScheduledNotificationType, NotificationTypePreference>>;
+  /** Per-event settings; event types missing here use the defaults */
+  events?: Partial<Record<NotificationEventType, NotificationEventPreference>>;
+  quietHoursStart?: string;
+  quietHoursEnd?: string;
+  /**
+   * Local hour (0–23) of a single daily summary email.  When set, events
+   * are batched into the digest instead of being sent one by one.
+   */
+  digestHour?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ─── Notification Events ──────────────────────────────────────────────────────
+
+export type NotificationEventType =
+  | "change_request.created"
+  | "change_request.countered"
+  | "expense.awaiting_reimbursement"
+  | "message.unread"
+  | "vault.signature_requested";
+
+export interface NotificationEventPreference {
+  enabled: boolean;
+  /** Channels to try, most preferred first */
+  channels: NotificationChannel[];
+}
+
+/**
+ * One notification owed to one parent about something that happened in the
+ * family.  Rows are written by the notification event bus and double as its
+ * outbox: `pending` rows wait for the recipient's daily digest.
+ */
+export interface DbNotificationEvent {
+  id: string;
+  familyId: string;
+  recipientParentId: string;
+  eventType: NotificationEventType;
+  /** Template variables for the event type */
+  payload: Record<string, string | number | null>;
+  /** Unique per recipient, so retried publishes and re-scans notify once */
+  dedupeKey: string;
+  status: "pending" | "sent" | "digested" | "failed" | "skipped";
+  deliveryMethod?: NotificationChannel;
+  sentAt?: string;
+  errorMessage?: string;
+  createdAt: string;
+}
+
+/**
+ * A browser Web Push subscription registered by a parent.  `endpoint` is the
+ * push service URL and is unique; `p256dh` and `auth` are the browser's
+ * base64url payload encryption keys.
+ */
+export interface DbPushSubscription {
+  id: string;
+  parentId: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  userAgent?: string;
+  lastUsedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 // ─── Billing Entities (BILL-001) ──────────────────────────────────────────────
 
 export interface DbStripeCustomer {
@@ -0,0 +1,85 @@
+/**
+ * KidSchedule – Push Provider Factory
+ *
+ * Returns the configured push sender based on PUSH_PROVIDER environment variable.
+ * Supports: webpush, console (dev logging)
+ */
+
+import type { PushSender, PushSendOptions, PushSendResult, PushSubscriptionTarget } from "../types";
+import { WebPushAdapter, generateVapidKeys } from "./web-push-adapter";
+
+// ─── Console Adapter (Development) ────────────────────────────────────────────
+
+/**
+ * Development-only push sender that logs to console.
+ * Never use in production – no notifications are actually sent.
+ */
+class ConsolePushAdapter implements PushSender {
+  readonly providerName = "console";
+  readonly publicKey = process.env.VAPID_PUBLIC_KEY || undefined;
+
+  async send(options: PushSendOptions): Promise<PushSendResult> {
+    const { subscription, payload } = options;
+
+    console.log("\n" + "=".repeat(60));
+    console.log("🔔 PUSH (DEV MODE - NOT SENT)");
+    console.log("=".repeat(60));
+    console.log(`Endpoint: ${new URL(subscription.endpoint).origin}/…`);
+    console.log(`Title:    ${payload.title}`);
+    console.log(`Body:     ${payload.body}`);
+    if (payload.url) {
+      console.log(`URL:      ${payload.url}`);
+    }
+    console.log("=".repeat(60) + "\n");
+
+    return {
+      success: true,
+      messageId: `dev-${Date.now()}`,
+    };
+  }
+
+  async verifyConfiguration(): Promise<boolean> {
+    return true;
+  }
+}
+
+// ─── Factory ──────────────────────────────────────────────────────────────────
+
+let cachedSender: PushSender | null = null;
+
+/**
+ * Returns the configured push sender instance.
+ * Caches the instance for reuse across requests.
+ *
+ * Environment variable PUSH_PROVIDER controls which adapter is used:
+ *   - "webpush" → WebPushAdapter
+ *   - "console" or undefined → ConsolePushAdapter (dev only)
+ */
+export function getPushSender(): PushSender {
+  if (cachedSender) {
+    return cachedSender;
+  }
+
+  const provider = process.env.PUSH_PROVIDER?.toLowerCase() ?? "console";
+
+  switch (provider) {
+    case "webpush":
+      cachedSender = new WebPushAdapter();
+      break;
+    case "console":
+    default:
+      if (process.env.NODE_ENV === "production") {
+        console.warn(
+          "[Push] Using console adapter in production. Set PUSH_PROVIDER to webpush."
+        );
+      }
+      cachedSender = new ConsolePushAdapter();
+      break;
+  }
+
+  return cachedSender;
+}
+
+// Re-export types
+export type { PushSender, PushSendOptions, PushSendResult, PushSubscriptionTarget };
+export { WebPushAdapter, ConsolePushAdapter, generateVapidKeys };
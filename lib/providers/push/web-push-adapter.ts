@@ -0,0 +1,225 @@
+/**
+ * KidSchedule – Web Push Adapter
+ *
+ * Sends notifications to browsers through their push service (FCM, Mozilla
+ * autopush, Apple) using the Web Push protocol directly:
+ *   - VAPID (RFC 8292) identifies this server with an ES256-signed JWT
+ *   - Payloads are encrypted for the subscription with aes128gcm (RFC 8291)
+ *
+ * Required environment variables:
+ *   VAPID_PUBLIC_KEY  - Base64url uncompressed P-256 public key (65 bytes)
+ *   VAPID_PRIVATE_KEY - Base64url P-256 private scalar (32 bytes)
+ *   VAPID_SUBJECT     - Contact URI for push services, e.g. mailto:ops@kidschedule.com
+ *
+ * Generate a key pair once with `generateVapidKeys()` and keep it stable:
+ * rotating the public key invalidates every existing browser subscription.
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc8030
+ */
+
+import {
+  createECDH,
+  createCipheriv,
+  createPrivateKey,
+  hkdfSync,
+  randomBytes,
+  sign,
+  type KeyObject,
+} from "crypto";
+import type { PushSender, PushSendOptions, PushSendResult, PushSubscriptionTarget } from "../types";
+
+// Push services reject JWTs valid for more than 24 hours
+const VAPID_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+// A single aes128gcm record; payloads stay well below the 4 KiB push limit
+const RECORD_SIZE = 4096;
+
+// ─── Encoding Helpers ─────────────────────────────────────────────────────────
+
+function toBase64Url(buffer: Buffer): string {
+  return buffer.toString("base64url");
+}
+
+function fromBase64Url(value: string): Buffer {
+  return Buffer.from(value, "base64url");
+}
+
+/**
+ * Generates a VAPID key pair in the base64url form VAPID_PUBLIC_KEY and
+ * VAPID_PRIVATE_KEY expect.
+ */
+export function generateVapidKeys(): { publicKey: string; privateKey: string } {
+  const ecdh = createECDH("prime256v1");
+  ecdh.generateKeys();
+  return {
+    publicKey: toBase64Url(ecdh.getPublicKey()),
+    privateKey: toBase64Url(ecdh.getPrivateKey()),
+  };
+}
+
+function importVapidPrivateKey(publicKey: string, privateKey: string): KeyObject {
+  const point = fromBase64Url(publicKey);
+  if (point.length !== 65 || point[0] !== 0x04) {
+    throw new Error("VAPID_PUBLIC_KEY must be an uncompressed P-256 point");
+  }
+  return createPrivateKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      x: toBase64Url(point.subarray(1, 33)),
+      y: toBase64Url(point.subarray(33, 65)),
+      d: privateKey,
+    },
+    format: "jwk",
+  });
+}
+
+// ─── VAPID ────────────────────────────────────────────────────────────────────
+
+/**
+ * Builds the `Authorization: vapid t=…, k=…` header value for a push
+ * endpoint.  The JWT audience is the endpoint's origin.
+ */
+export function createVapidAuthorization(
+  endpoint: string,
+  keys: { publicKey: string; privateKey: KeyObject; subject: string },
+  now: Date = new Date()
+): string {
+  const header = toBase64Url(Buffer.from(JSON.stringify({ typ: "JWT", alg: "ES256" })));
+  const claims = toBase64Url(
+    Buffer.from(
+      JSON.stringify({
+        aud: new URL(endpoint).origin,
+        exp: Math.floor(now.getTime() / 1000) + VAPID_TOKEN_TTL_SECONDS,
+        sub: keys.subject,
+      })
+    )
+  );
+  const signingInput = `${header}.${claims}`;
+  // JWS ES256 wants the raw r||s signature, not DER
+  const signature = sign("sha256", Buffer.from(signingInput), {
+    key: keys.privateKey,
+    dsaEncoding: "ieee-p1363",
+  });
+  return `vapid t=${signingInput}.${toBase64Url(signature)}, k=${keys.publicKey}`;
+}
+
+// ─── Payload Encryption ───────────────────────────────────────────────────────
+
+/**
+ * Encrypts `plaintext` for a subscription using the aes128gcm content
+ * coding (RFC 8188) with Web Push key derivation (RFC 8291).  The result is
+ * the complete request body: header (salt, record size, sender key) followed
+ * by a single encrypted record.
+ */
+export function encryptPushPayload(subscription: PushSubscriptionTarget, plaintext: Buffer): Buffer {
+  const userAgentPublicKey = fromBase64Url(subscription.keys.p256dh);
+  const authSecret = fromBase64Url(subscription.keys.auth);
+
+  // Fresh sender key pair and salt for every message
+  const ecdh = createECDH("prime256v1");
+  ecdh.generateKeys();
+  const senderPublicKey = ecdh.getPublicKey();
+  const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+  const salt = randomBytes(16);
+
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), userAgentPublicKey, senderPublicKey]);
+  const ikm = Buffer.from(hkdfSync("sha256", sharedSecret, authSecret, keyInfo, 32));
+  const contentKey = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: aes128gcm\0"), 16));
+  const nonce = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: nonce\0"), 12));
+
+  // 0x02 marks the final (and only) record
+  const record = Buffer.concat([plaintext, Buffer.from([0x02])]);
+  if (record.length + 16 > RECORD_SIZE) {
+    throw new Error("Push payload too large");
+  }
+  const cipher = createCipheriv("aes-128-gcm", contentKey, nonce);
+  const ciphertext = Buffer.concat([cipher.update(record), cipher.final(), cipher.getAuthTag()]);
+
+  const recordSize = Buffer.alloc(4);
+  recordSize.writeUInt32BE(RECORD_SIZE);
+  return Buffer.concat([salt, recordSize, Buffer.from([senderPublicKey.length]), senderPublicKey, ciphertext]);
+}
+
+// ─── Adapter ──────────────────────────────────────────────────────────────────
+
+export class WebPushAdapter implements PushSender {
+  readonly providerName = "webpush";
+  readonly publicKey?: string;
+
+  private readonly privateKey: KeyObject | null = null;
+  private readonly subject: string;
+
+  constructor() {
+    this.publicKey = process.env.VAPID_PUBLIC_KEY || undefined;
+    this.subject = process.env.VAPID_SUBJECT ?? "mailto:support@kidschedule.com";
+
+    const privateKey = process.env.VAPID_PRIVATE_KEY;
+    if (!this.publicKey || !privateKey) {
+      console.warn("[WebPushAdapter] VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY not configured");
+      return;
+    }
+    try {
+      this.privateKey = importVapidPrivateKey(this.publicKey, privateKey);
+    } catch (error) {
+      console.error("[WebPushAdapter] Invalid VAPID key pair:", error instanceof Error ? error.message : error);
+    }
+  }
+
+  async send(options: PushSendOptions): Promise<PushSendResult> {
+    if (!this.publicKey || !this.privateKey) {
+      return { success: false, error: "Web Push is not configured", errorCode: "NOT_CONFIGURED" };
+    }
+
+    const { subscription, payload, ttlSeconds = DEFAULT_TTL_SECONDS, urgency = "normal" } = options;
+
+    let body: Buffer;
+    try {
+      body = encryptPushPayload(subscription, Buffer.from(JSON.stringify(payload)));
+    } catch (error) {
+      // Malformed keys mean the subscription can never be delivered to
+      const message = error instanceof Error ? error.message : "Encryption failed";
+      return { success: false, error: message, errorCode: "INVALID_SUBSCRIPTION", expired: true };
+    }
+
+    try {
+      const response = await fetch(subscription.endpoint, {
+        method: "POST",
+        headers: {
+          Authorization: createVapidAuthorization(subscription.endpoint, {
+            publicKey: this.publicKey,
+            privateKey: this.privateKey,
+            subject: this.subject,
+          }),
+          "Content-Encoding": "aes128gcm",
+          "Content-Type": "application/octet-stream",
+          TTL: String(ttlSeconds),
+          Urgency: urgency,
+        },
+        body: new Uint8Array(body),
+      });
+
+      if (response.ok) {
+        // Push services return the message resource in Location
+        const messageId = response.headers.get("Location") ?? undefined;
+        return { success: true, messageId, statusCode: response.status };
+      }
+
+      return {
+        success: false,
+        statusCode: response.status,
+        error: `Push service error: ${response.status}`,
+        errorCode: `HTTP_${response.status}`,
+        // 404 / 410: the browser unsubscribed or the subscription expired
+        expired: response.status === 404 || response.status === 410,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return { success: false, error: `Network error: ${message}`, errorCode: "NETWORK_ERROR" };
+    }
+  }
+
+  async verifyConfiguration(): Promise<boolean> {
+    return Boolean(this.publicKey && this.privateKey);
+  }
+}
@@ -1,7 +1,7 @@
 /**
  * KidSchedule – Provider Interface Types
  *
- * Common types shared across all communication providers (email, SMS).
+ * Common types shared across all communication providers (email, SMS, push).
  * Providers are pluggable adapters that implement a standard interface.
  */
 
@@ -75,6 +75,56 @@ export interface SmsSender {
   verifyConfiguration(): Promise<boolean>;
 }
 
+// ─── Push Provider Types ──────────────────────────────────────────────────────
+
+/** A browser's PushSubscription, as returned by `subscription.toJSON()` */
+export interface PushSubscriptionTarget {
+  endpoint: string;
+  keys: {
+    /** Base64url-encoded P-256 public key of the user agent */
+    p256dh: string;
+    /** Base64url-encoded 16-byte authentication secret */
+    auth: string;
+  };
+}
+
+/** Rendered by the service worker as a system notification */
+export interface PushPayload {
+  title: string;
+  body: string;
+  /** Page opened when the notification is clicked */
+  url?: string;
+  /** Notifications with the same tag replace each other */
+  tag?: string;
+}
+
+export interface PushSendOptions {
+  subscription: PushSubscriptionTarget;
+  payload: PushPayload;
+  /** Seconds the push service may hold the message for an offline device */
+  ttlSeconds?: number;
+  urgency?: "very-low" | "low" | "normal" | "high";
+}
+
+export interface PushSendResult {
+  success: boolean;
+  messageId?: string;
+  statusCode?: number;
+  error?: string;
+  errorCode?: string;
+  /** The subscription no longer exists (404/410) and should be deleted */
+  expired?: boolean;
+}
+
+export interface PushSender {
+  readonly providerName: string;
+  /** VAPID public key browsers subscribe with (base64url), if configured */
+  readonly publicKey?: string;
+  send(options: PushSendOptions): Promise<PushSendResult>;
+  /** Verify provider credentials are configured correctly */
+  verifyConfiguration(): Promise<boolean>;
+}
+
 // ─── Email Template IDs ───────────────────────────────────────────────────────
 
 export const EMAIL_TEMPLATES = {
@@ -10,6 +10,7 @@ export type CalendarAction =
   | "createEvent"
   | "updateEvent"
   | "deleteEvent"
+  | "importEvents"
   | "submitChangeRequest"
   | "respondToChangeRequest";
 
@@ -23,6 +24,7 @@ export const LIMITS: Record<CalendarAction, LimitConfig> = {
   createEvent: { requests: 50, windowMs: 3600000 },
   updateEvent: { requests: 50, windowMs: 3600000 },
   deleteEvent: { requests: 50, windowMs: 3600000 },
+  importEvents: { requests: 10, windowMs: 3600000 },
   submitChangeRequest: { requests: 10, windowMs: 86400000 },
   respondToChangeRequest: { requests: 100, windowMs: 3600000 },
 };
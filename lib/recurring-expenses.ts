@@ -0,0 +1,296 @@
+/**
+ * KidSchedule – Recurring Expenses
+ *
+ * Templates for expenses that repeat on a schedule (tuition, daycare).  Each
+ * occurrence from the template's start date up to its end date becomes one
+ * ordinary expense row, tagged with the template id, so the ledger, disputes
+ * and reports treat it like any hand-entered expense.
+ *
+ * Occurrences are always counted from the start date (the 31st stays the
+ * last day of shorter months instead of drifting), and generation is
+ * idempotent: an occurrence that already has an expense is skipped.  The
+ * recurring-expenses job calls generateAllDueExpenses() daily; creating a
+ * template generates anything already due straight away.
+ *
+ * Occurrences in a foreign currency are converted at the template's rate
+ * when one was entered, otherwise at the rates file's rate for their date;
+ * a template with no rate for a due date generates the occurrences before
+ * it and stays due there until one is available.
+ */
+
+import { db, runInTransaction } from "@/lib/persistence";
+import type {
+  DbExpense,
+  DbRecurringExpense,
+  ExchangeRateSnapshot,
+  ExpenseFrequency,
+} from "@/lib/persistence/types";
+import {
+  calculateParentShare,
+  expenseDebtorIds,
+  ledgerParentIds,
+  settlementCurrency,
+  type LedgerResult,
+} from "@/lib/expense-ledger";
+import { isExpenseFrequency } from "@/lib/expense-engine";
+import { familyBaseCurrency, snapshotExchangeRate } from "@/lib/exchange-rates";
+import { publishNotificationEvent } from "@/lib/notification-events";
+import { logEvent } from "@/lib/observability/logger";
+
+// ─── Schedule ─────────────────────────────────────────────────────────────────
+
+/** A start date, optional inclusive end date and frequency */
+export interface RecurrenceSchedule {
+  startDate: string;
+  endDate?: string;
+  frequency: ExpenseFrequency;
+}
+
+const MONTHS_PER_PERIOD: Partial<Record<ExpenseFrequency, number>> = { monthly: 1, quarterly: 3, yearly: 12 };
+const DAYS_PER_PERIOD: Partial<Record<ExpenseFrequency, number>> = { weekly: 7, biweekly: 14 };
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** The `index`-th occurrence (0 = start date) of a schedule */
+export function occurrenceDate(startDate: string, frequency: ExpenseFrequency, index: number): string {
+  const start = new Date(`${startDate}T00:00:00Z`);
+  const days = DAYS_PER_PERIOD[frequency];
+  if (days !== undefined) {
+    return isoDate(new Date(start.getTime() + index * days * 86_400_000));
+  }
+
+  const months = start.getUTCMonth() + index * (MONTHS_PER_PERIOD[frequency] ?? 1);
+  const year = start.getUTCFullYear() + Math.floor(months / 12);
+  const month = months % 12;
+  // Clamp to the last day of shorter months
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return isoDate(new Date(Date.UTC(year, month, Math.min(start.getUTCDate(), lastDay))));
+}
+
+/** Occurrences within [from, to] (inclusive) that fall inside the schedule */
+export function occurrencesBetween(schedule: RecurrenceSchedule, from: string, to: string): string[] {
+  const last = schedule.endDate && schedule.endDate < to ? schedule.endDate : to;
+  const dates: string[] = [];
+  for (let index = 0; ; index++) {
+    const date = occurrenceDate(schedule.startDate, schedule.frequency, index);
+    if (date > last) break;
+    if (date >= from) dates.push(date);
+  }
+  return dates;
+}
+
+/** First occurrence after `date`, or null once the schedule has ended */
+export function nextOccurrenceAfter(schedule: RecurrenceSchedule, date: string): string | null {
+  for (let index = 0; ; index++) {
+    const next = occurrenceDate(schedule.startDate, schedule.frequency, index);
+    if (schedule.endDate && next > schedule.endDate) return null;
+    if (next > date) return next;
+  }
+}
+
+// ─── Templates ────────────────────────────────────────────────────────────────
+
+export type CreateRecurringExpenseInput = Omit<
+  DbRecurringExpense,
+  "id" | "nextDueDate" | "status" | "createdAt" | "updatedAt"
+>;
+
+/**
+ * Create a template and generate every occurrence already due by `today`
+ * (including the start date itself when it is not in the future).
+ */
+export async function createRecurringExpense(
+  input: CreateRecurringExpenseInput,
+  today: string = isoDate(new Date())
+): Promise<LedgerResult<{ template: DbRecurringExpense; generated: DbExpense[] }>> {
+  if (!isExpenseFrequency(input.frequency)) {
+    return { success: false, error: "Choose how often the expense repeats" };
+  }
+  if (!Number.isInteger(input.totalAmount) || input.totalAmount <= 0) {
+    return { success: false, error: "Amount must be a positive number of cents" };
+  }
+  if (input.endDate && input.endDate < input.startDate) {
+    return { success: false, error: "The end date must be on or after the first date" };
+  }
+  // Fail before creating anything when an occurrence already due cannot be converted
+  for (const date of occurrencesBetween(input, input.startDate, today)) {
+    const conversion = await convertOccurrence(input, date);
+    if (!conversion.success) {
+      return conversion;
+    }
+  }
+
+  const template = await db.recurringExpenses.create({ ...input, nextDueDate: input.startDate });
+  const generated = await generateDueExpenses(template, today);
+
+  logEvent("info", "recurring_expense.created", {
+    recurringExpenseId: template.id,
+    familyId: template.familyId,
+    frequency: template.frequency,
+    generated: generated.length,
+  });
+
+  const current = (await db.recurringExpenses.findById(template.id)) ?? template;
+  return { success: true, template: current, generated };
+}
+
+/**
+ * Create an expense for each occurrence from the template's next due date up
+ * to `asOfDate`, then move the template past them (ending it after its last
+ * occurrence).  An occurrence with no exchange rate stops generation there:
+ * it becomes the next due date and is retried on later runs.  Returns the
+ * expenses created.
+ */
+export async function generateDueExpenses(template: DbRecurringExpense, asOfDate: string): Promise<DbExpense[]> {
+  if (template.status !== "active" || template.nextDueDate > asOfDate) {
+    return [];
+  }
+
+  const dates: string[] = [];
+  const snapshots = new Map<string, ExchangeRateSnapshot | null>();
+  let missingRateDate: string | null = null;
+  for (const date of occurrencesBetween(template, template.nextDueDate, asOfDate)) {
+    const conversion = await convertOccurrence(template, date);
+    if (!conversion.success) {
+      missingRateDate = date;
+      logEvent("warn", "recurring_expense.rate_missing", {
+        recurringExpenseId: template.id,
+        familyId: template.familyId,
+        date,
+      });
+      break;
+    }
+    dates.push(date);
+    snapshots.set(date, conversion.snapshot);
+  }
+
+  const generated = await runInTransaction(async (txDb) => {
+    const existing = new Set(
+      (await txDb.expenses.findByFamilyIdAndDateRange(template.familyId, template.nextDueDate, asOfDate))
+        .filter((e) => e.recurringExpenseId === template.id)
+        .map((e) => e.date)
+    );
+
+    const created: DbExpense[] = [];
+    for (const date of dates.filter((d) => !existing.has(d))) {
+      created.push(
+        await txDb.expenses.create({
+          familyId: template.familyId,
+          title: template.title,
+          description: template.description,
+          category: template.category,
+          totalAmount: template.totalAmount,
+          currency: template.currency,
+          splitMethod: template.splitMethod,
+          splitRatio: template.splitRatio,
+          paidBy: template.paidBy,
+          paymentStatus: "unpaid",
+          date,
+          recurringExpenseId: template.id,
+          ...snapshots.get(date),
+        })
+      );
+    }
+
+    const next = missingRateDate ?? nextOccurrenceAfter(template, asOfDate);
+    await txDb.recurringExpenses.advance(
+      template.id,
+      next ?? template.nextDueDate,
+      next ? "active" : "ended"
+    );
+    return created;
+  });
+
+  await notifyGenerated(template, generated);
+  return generated;
+}
+
+/** The conversion for one occurrence of a template paid in a foreign currency */
+async function convertOccurrence(
+  template: Pick<DbRecurringExpense, "familyId" | "totalAmount" | "currency" | "exchangeRate">,
+  date: string
+) {
+  const family = await db.families.findById(template.familyId);
+  return snapshotExchangeRate({
+    amountCents: template.totalAmount,
+    currency: template.currency,
+    baseCurrency: familyBaseCurrency(family),
+    date,
+    manualRate: template.exchangeRate,
+  });
+}
+
+/** Ask whoever shares each generated expense for their share */
+async function notifyGenerated(template: DbRecurringExpense, expenses: DbExpense[]): Promise<void> {
+  if (expenses.length === 0) return;
+  const parentIds = ledgerParentIds(await db.parents.findByFamilyId(template.familyId));
+
+  for (const expense of expenses) {
+    for (const debtorId of expenseDebtorIds(expense, parentIds)) {
+      const amountCents = calculateParentShare(expense, debtorId);
+      if (amountCents === 0) continue;
+      await publishNotificationEvent({
+        type: "expense.awaiting_reimbursement",
+        familyId: expense.familyId,
+        actorParentId: expense.paidBy,
+        recipientParentIds: [debtorId],
+        payload: { expenseId: expense.id, title: expense.title, amountCents, currency: settlementCurrency(expense) },
+      });
+    }
+  }
+}
+
+/**
+ * Generate due occurrences for every active template.  One template failing
+ * does not stop the others.
+ */
+export async function generateAllDueExpenses(
+  asOfDate: string
+): Promise<{ templates: number; expenses: number; failed: number }> {
+  const due = await db.recurringExpenses.findDue(asOfDate);
+  let expenses = 0;
+  let failed = 0;
+
+  for (const template of due) {
+    try {
+      expenses += (await generateDueExpenses(template, asOfDate)).length;
+    } catch (error) {
+      failed++;
+      logEvent("error", "recurring_expense.generation_failed", {
+        recurringExpenseId: template.id,
+        familyId: template.familyId,
+        error: error instanceof Error ? error.message : "unknown",
+      });
+    }
+  }
+
+  return { templates: due.length, expenses, failed };
+}
+
+/**
+ * Pause, resume or end a template.  Resuming skips the occurrences missed
+ * while paused and continues from the next one on or after `today`.
+ */
+export async function setRecurringExpenseStatus(
+  template: DbRecurringExpense,
+  status: DbRecurringExpense["status"],
+  today: string = isoDate(new Date())
+): Promise<LedgerResult<{ template: DbRecurringExpense }>> {
+  if (template.status === "ended") {
+    return { success: false, error: "This recurring expense has ended" };
+  }
+
+  if (status === "active") {
+    const yesterday = isoDate(new Date(Date.parse(`${today}T00:00:00Z`) - 86_400_000));
+    const next = template.nextDueDate >= today ? template.nextDueDate : nextOccurrenceAfter(template, yesterday);
+    const updated = await db.recurringExpenses.advance(template.id, next ?? template.nextDueDate, next ? "active" : "ended");
+    if (!updated) return { success: false, error: "Recurring expense not found" };
+    return { success: true, template: updated };
+  }
+
+  const updated = await db.recurringExpenses.updateStatus(template.id, status);
+  if (!updated) return { success: false, error: "Recurring expense not found" };
+  return { success: true, template: updated };
+}
@@ -8,6 +8,14 @@ import type {
   Family,
   ParentId,
 } from "@/lib";
+import type { HolidayAssignment, HolidayWindow } from "@/lib/persistence/types";
+import {
+  holidayCustodian,
+  holidayDatesInRange,
+  holidayPeriod,
+  jurisdictionChain,
+} from "@/lib/holiday-rules";
+import { DEFAULT_FAMILY_TIMEZONE } from "@/lib/custody";
 
 // ─── Override Types ──────────────────────────────────────────────────────────
 
@@ -87,6 +95,25 @@ export interface HolidayExceptionRule {
   custodianParentId: ParentId;
   isEnabled: boolean;
   notes?: string;
+  window?: HolidayWindow;
+  assignment?: HolidayAssignment;
+}
+
+// ─── Precedence ──────────────────────────────────────────────────────────────
+
+/**
+ * Sort comparator placing the override that wins an overlap first: higher
+ * priority, then the most recently created.  Shared with CustodyEngine so the
+ * calendar and custody status always agree.
+ */
+export function compareOverridePrecedence(
+  a: Pick<ScheduleOverride, "priority" | "createdAt">,
+  b: Pick<ScheduleOverride, "priority" | "createdAt">,
+): number {
+  if (a.priority !== b.priority) {
+    return b.priority - a.priority;
+  }
+  return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
 }
 
 // ─── Public API ──────────────────────────────────────────────────────────────
@@ -110,12 +137,7 @@ export class ScheduleOverrideEngine {
     // Sort overrides by priority (highest first), then by creation date
     const sortedOverrides = overrides
       .filter(o => o.status === "active")
-      .sort((a, b) => {
-        if (a.priority !== b.priority) {
-          return b.priority - a.priority;
-        }
-        return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-      });
+      .sort(compareOverridePrecedence);
 
     let modifiedEvents = [...baseEvents];
 
@@ -190,7 +212,10 @@ export class ScheduleOverrideEngine {
   }
 
   /**
-   * Create holiday exception overrides for a given time period.
+   * Create holiday exception overrides for a given time period.  Each entry
+   * in `holidays` is one dated occurrence; a computed holiday appears once
+   * per year.  The rule's window and year-by-year assignment decide the
+   * period and custodian of each occurrence.
    */
   static createHolidayOverrides(
     holidays: HolidayDefinition[],
@@ -214,18 +239,21 @@ export class ScheduleOverrideEngine {
       }
 
       // Create override for the holiday
-      const overrideStart = `${holiday.date}T00:00:00.000Z`;
-      const overrideEnd = `${holiday.date}T23:59:59.999Z`;
+      const { effectiveStart: overrideStart, effectiveEnd: overrideEnd } = holidayPeriod(
+        holiday.date,
+        rule.window,
+        family.timezone || DEFAULT_FAMILY_TIMEZONE,
+      );
 
       overrides.push({
-        id: `holiday-${holiday.id}-${family.id}`,
+        id: `holiday-${holiday.id}-${holiday.date}-${family.id}`,
         familyId: family.id,
         type: "holiday",
         title: `${holiday.name} Exception`,
         description: rule.notes || `Holiday exception for ${holiday.name}`,
         effectiveStart: overrideStart,
         effectiveEnd: overrideEnd,
-        custodianParentId: rule.custodianParentId,
+        custodianParentId: holidayCustodian(rule, holiday.date),
         sourceEventId: holiday.id,
         priority: 20, // Holiday priority
         status: "active",
@@ -238,29 +266,51 @@ export class ScheduleOverrideEngine {
   }
 
   /**
-   * Create swap request overrides from approved change requests.
+   * Create swap request overrides from approved change requests: the
+   * giving-up period goes to `takenBy` (the approving caregiver; by default
+   * the first other caregiver) and the make-up period to the requester.
+   * Empty periods (e.g. a plain cancellation) are skipped.
    */
   static createSwapOverrides(
     requests: ScheduleChangeRequest[],
     family: Family,
+    takenBy?: ParentId,
   ): ScheduleOverride[] {
     return requests
       .filter(r => r.status === "accepted")
-      .map(request => ({
-        id: `swap-${request.id}`,
-        familyId: request.familyId,
-        type: "swap",
-        title: request.title,
-        description: request.description,
-        effectiveStart: request.givingUpPeriodStart,
-        effectiveEnd: request.givingUpPeriodEnd,
-        custodianParentId: this.getOtherParentId(request.requestedBy, family),
-        sourceRequestId: request.id,
-        priority: 15, // Swap priority
-        status: "active",
-        createdAt: request.respondedAt || request.createdAt,
-        createdBy: request.requestedBy,
-      }));
+      .flatMap(request => {
+        const base = {
+          familyId: request.familyId,
+          type: "swap" as const,
+          title: request.title,
+          description: request.description,
+          sourceRequestId: request.id,
+          priority: 15, // Swap priority
+          status: "active" as const,
+          createdAt: request.respondedAt || request.createdAt,
+          createdBy: request.requestedBy,
+        };
+        const periods = [
+          {
+            ...base,
+            id: `swap-${request.id}`,
+            effectiveStart: request.givingUpPeriodStart,
+            effectiveEnd: request.givingUpPeriodEnd,
+            custodianParentId: takenBy ?? this.getOtherParentId(request.requestedBy, family),
+          },
+          {
+            ...base,
+            id: `swap-${request.id}-makeup`,
+            title: `${request.title} (make-up)`,
+            effectiveStart: request.requestedMakeUpStart,
+            effectiveEnd: request.requestedMakeUpEnd,
+            custodianParentId: request.requestedBy,
+          },
+        ];
+        return periods.filter(
+          p => new Date(p.effectiveStart).getTime() < new Date(p.effectiveEnd).getTime(),
+        );
+      });
   }
 
   // ─── Private Methods ────────────────────────────────────────────────────────
@@ -386,16 +436,17 @@ export class ScheduleOverrideEngine {
  *
  * Responsibilities:
  * 1. Fetch approved holiday exception rules (approvalStatus === "approved" && isEnabled === true)
- * 2. Fetch holiday definitions for the family's jurisdiction
+ * 2. Fetch holiday definitions for the family's jurisdiction and its own
+ *    holidays, and work out the dates of computed ones in the range
  * 3. Call ScheduleOverrideEngine.createHolidayOverrides() with fetched data
- * 4. Persist generated overrides via scheduleOverrideRepository.create()
+ * 4. Persist generated overrides via scheduleOverrideRepository.create(),
+ *    reusing ones persisted by an earlier run
  * 5. Return generated overrides
  * 6. Handle errors gracefully without blocking schedule generation
  */
 
 import { getDb } from "@/lib/persistence";
 import { logEvent } from "@/lib/observability/logger";
-import type { Parent } from "@/lib";
 import type { DbScheduleOverride } from "@/lib/persistence";
 
 /**
@@ -405,7 +456,7 @@ import type { DbScheduleOverride } from "@/lib/persistence";
  * 1. Fetches approved holiday exception rules for the family
  * 2. Fetches holiday definitions for the family's jurisdiction
  * 3. Generates override records using ScheduleOverrideEngine
- * 4. Persists overrides to the database
+ * 4. Persists overrides not already in the database
  * 5. Returns the persisted overrides
  *
  * Errors are logged but do not block schedule generation (graceful degradation).
@@ -459,9 +510,27 @@ export async function generateAndPersistHolidayOverrides(
       return [];
     }
 
-    // Fetch holiday definitions for jurisdiction (default to "US")
-    const jurisdiction = "US";
-    holidays = await db.holidays.findByDateRange(jurisdiction, startDate, endDate);
+    // The family's jurisdiction (a subdivision includes its country's
+    // holidays) plus its own; other families' holidays are never used
+    const ruleHolidayIds = new Set(approvedRules.map((rule) => rule.holidayId));
+    const definitions = [
+      ...(await Promise.all(
+        jurisdictionChain(dbFamily.holidayJurisdiction).map((jurisdiction) =>
+          db.holidays.findByJurisdiction(jurisdiction),
+        ),
+      )).flat(),
+      ...(await db.holidays.findByFamily(familyId)),
+    ].filter(
+      (h, index, all) =>
+        ruleHolidayIds.has(h.id) &&
+        (!h.familyId || h.familyId === familyId) &&
+        all.findIndex((other) => other.id === h.id) === index,
+    );
+
+    // One entry per date the holiday falls on in the range
+    holidays = definitions.flatMap((h) =>
+      holidayDatesInRange(h, startDate, endDate).map((date) => ({ ...h, date })),
+    );
   } catch (error) {
     logEvent("warn", "Failed to fetch family data or holiday definitions", {
       familyId,
@@ -479,9 +548,11 @@ export async function generateAndPersistHolidayOverrides(
       email: p.email,
       avatarUrl: p.avatarUrl ?? undefined,
       phone: p.phone ?? undefined,
-    })) as [Parent, Parent],
+      role: p.caregiverRole,
+    })),
     children: [],
     custodyAnchorDate: dbFamily.custodyAnchorDate,
+    timezone: dbFamily.timezone,
     schedule: {
       id: "",
       name: "Schedule",
@@ -503,6 +574,8 @@ export async function generateAndPersistHolidayOverrides(
       custodianParentId: rule.custodianParentId,
       isEnabled: rule.isEnabled,
       notes: rule.notes,
+      window: rule.window,
+      assignment: rule.assignment,
     })),
     startDate,
     endDate,
@@ -517,7 +590,22 @@ export async function generateAndPersistHolidayOverrides(
   try {
     const persistedOverrides: DbScheduleOverride[] = [];
 
+    // Overrides from an earlier run for the same occurrence are reused
+    const periodKey = (o: Pick<ScheduleOverride, "sourceEventId" | "effectiveStart" | "effectiveEnd" | "custodianParentId">) =>
+      [o.sourceEventId, new Date(o.effectiveStart).getTime(), new Date(o.effectiveEnd).getTime(), o.custodianParentId].join("|");
+    const existing = new Map(
+      (await db.scheduleOverrides.findActiveByFamilyId(familyId))
+        .filter((o) => o.overrideType === "holiday")
+        .map((o) => [periodKey(o), o]),
+    );
+
     for (const override of overrides) {
+      const reused = existing.get(periodKey(override));
+      if (reused) {
+        persistedOverrides.push(reused);
+        continue;
+      }
+
       const persisted = await db.scheduleOverrides.create({
         familyId: override.familyId,
         type: override.type,
@@ -0,0 +1,189 @@
+/**
+ * KidSchedule – Schedule Phases
+ *
+ * Step-up plans for young children.  Parenting plans for infants and
+ * toddlers rarely start on the long-term rotation: they begin with daytime
+ * visits, move to one overnight a week, and only later reach 2-2-5-5 or
+ * alternating weeks.  Each phase ends on a date or when a child reaches an
+ * age, and the next one takes over by itself.
+ *
+ * schedulePhaseStages() turns a schedule into the dated stages CustodyEngine
+ * switches between; the wizard renders the same stages as a timeline.
+ */
+
+import type { Child, CustodySchedule, ScheduleBlock, SchedulePhase, SchedulePhaseEnd } from "@/lib";
+
+const MAX_PHASE_NAME_LENGTH = 60;
+const MAX_PHASES = 6;
+/** Age-based ends up to 18 years */
+const MAX_PHASE_AGE_MONTHS = 216;
+
+/** One stretch of a schedule on a single rotation */
+export interface PhaseStage {
+  /** The phase's name, or the schedule's for its long-term rotation */
+  name: string;
+  blocks: ScheduleBlock[];
+  /** YYYY-MM-DD this stage takes over; null for the first stage */
+  startDate: string | null;
+  /** YYYY-MM-DD the next stage takes over; null for the long-term rotation */
+  endDate: string | null;
+  /** The phase's end as planned; null for the long-term rotation */
+  until: SchedulePhaseEnd | null;
+}
+
+function isIsoDate(value: unknown): value is string {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+/**
+ * `date` plus whole calendar months, clamped to the end of shorter months:
+ * a child born on January 31 turns one month old on February 28 (or 29).
+ */
+export function addMonthsToIsoDate(date: string, months: number): string {
+  const [year, month, day] = date.split("-").map(Number) as [number, number, number];
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+/**
+ * The YYYY-MM-DD a phase hands over, or null when it cannot be worked out
+ * (the child is no longer in the family or has no date of birth).
+ */
+export function phaseEndDate(end: SchedulePhaseEnd, children: readonly Child[]): string | null {
+  if (end.kind === "date") {
+    return isIsoDate(end.date) ? end.date : null;
+  }
+
+  const youngestFirst = children
+    .filter((c) => isIsoDate(c.dateOfBirth))
+    .sort((a, b) => b.dateOfBirth.localeCompare(a.dateOfBirth));
+  const child = end.childId ? children.find((c) => c.id === end.childId) : youngestFirst[0];
+  return child && isIsoDate(child.dateOfBirth) ? addMonthsToIsoDate(child.dateOfBirth, end.months) : null;
+}
+
+/**
+ * The schedule's phases in order, then its long-term rotation.  A phase
+ * whose end cannot be worked out, or that ends before the previous one
+ * does (the child is already past that age), is skipped.
+ */
+export function schedulePhaseStages(schedule: CustodySchedule, children: readonly Child[]): PhaseStage[] {
+  const stages: PhaseStage[] = [];
+  let startDate: string | null = null;
+
+  for (const phase of schedule.phases ?? []) {
+    const endDate = phaseEndDate(phase.until, children);
+    if (!endDate || (startDate !== null && endDate <= startDate)) continue;
+    stages.push({ name: phase.name, blocks: phase.blocks, startDate, endDate, until: phase.until });
+    startDate = endDate;
+  }
+
+  stages.push({ name: schedule.name, blocks: schedule.blocks, startDate, endDate: null, until: null });
+  return stages;
+}
+
+/** e.g. "until 2025-06-01", "until 18 months old" */
+export function describePhaseEnd(end: SchedulePhaseEnd, childName?: (id: string) => string): string {
+  if (end.kind === "date") {
+    return `until ${end.date}`;
+  }
+  const age =
+    end.months % 12 === 0 ? `${end.months / 12} year${end.months === 12 ? "" : "s"}` : `${end.months} months`;
+  const who = end.childId && childName ? `${childName(end.childId)} is` : "";
+  return who ? `until ${who} ${age} old` : `until ${age} old`;
+}
+
+/**
+ * Reads stored phases (`DbCustodySchedule.phases`).  Missing or unparseable
+ * JSON means no phases, leaving the long-term rotation in force throughout.
+ * Age-based ends without a child count from `childId` when given (the child
+ * a schedule belongs to).
+ */
+export function parseSchedulePhases(raw: string | null | undefined, childId?: string): SchedulePhase[] {
+  if (!raw) return [];
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return (parsed as SchedulePhase[])
+      .filter(
+        (p) => Array.isArray(p?.blocks) && p.blocks.length > 0 && (p.until?.kind === "date" || p.until?.kind === "age")
+      )
+      .map((p) =>
+        p.until.kind === "age" && !p.until.childId && childId ? { ...p, until: { ...p.until, childId } } : p
+      );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Why a schedule's phases are unusable for a family with `parentIds` and
+ * `childIds`, or null when they are fine.  Ends of the same kind (dates, or
+ * ages of the same child) must come in order.
+ */
+export function validateSchedulePhases(
+  phases: unknown,
+  parentIds: readonly string[],
+  childIds: readonly string[]
+): string | null {
+  if (!Array.isArray(phases)) {
+    return "Phases must be a list";
+  }
+  if (phases.length > MAX_PHASES) {
+    return `A plan can have at most ${MAX_PHASES} phases`;
+  }
+
+  const latestEnd = new Map<string, number | string>();
+  for (const value of phases as Array<Partial<Record<string, unknown>>>) {
+    const name = typeof value?.name === "string" ? value.name.trim() : "";
+    if (!name || name.length > MAX_PHASE_NAME_LENGTH) {
+      return `Phases need a name of at most ${MAX_PHASE_NAME_LENGTH} characters`;
+    }
+
+    const blocks = value.blocks;
+    if (!Array.isArray(blocks) || blocks.length === 0) {
+      return `${name} needs a rotation`;
+    }
+    for (const block of blocks as Array<Partial<Record<string, unknown>>>) {
+      if (typeof block?.days !== "number" || !Number.isInteger(block.days) || block.days < 1) {
+        return `${name} blocks must each last a whole number of days`;
+      }
+      if (typeof block.parentId !== "string" || !parentIds.includes(block.parentId)) {
+        return `${name} blocks must each go to a parent in the family`;
+      }
+    }
+
+    const until = (value.until ?? {}) as Partial<Record<string, unknown>>;
+    let key: string;
+    let end: number | string;
+    if (until.kind === "date") {
+      if (!isIsoDate(until.date)) {
+        return `${name} must end on a YYYY-MM-DD date`;
+      }
+      key = "date";
+      end = until.date;
+    } else if (until.kind === "age") {
+      const months = until.months;
+      if (typeof months !== "number" || !Number.isInteger(months) || months < 1 || months > MAX_PHASE_AGE_MONTHS) {
+        return `${name} must end at an age of 1 to ${MAX_PHASE_AGE_MONTHS} months`;
+      }
+      if (until.childId !== undefined && (typeof until.childId !== "string" || !childIds.includes(until.childId))) {
+        return `${name} must end at the age of a child in the family`;
+      }
+      key = `age:${until.childId ?? ""}`;
+      end = months;
+    } else {
+      return `${name} must end on a date or at an age`;
+    }
+
+    const previous = latestEnd.get(key);
+    if (previous !== undefined && end <= previous) {
+      return `${name} must end after the phase before it`;
+    }
+    latestEnd.set(key, end);
+  }
+  return null;
+}
@@ -0,0 +1,128 @@
+/**
+ * KidSchedule – Schedule Seasons
+ *
+ * Parts of the year that follow their own rotation: most parenting plans
+ * switch from the school-year schedule to a different one over summer and
+ * the longer school breaks.  A season is stored as month/day bounds so it
+ * recurs every year; CustodyEngine asks for the occurrences around a moment
+ * and switches block lists at their boundaries.
+ *
+ * Times are wall-clock milliseconds in the family's timezone (see
+ * `toWallClockMs` in lib/custody), so a season starts and ends at the
+ * schedule's transition hour local time.
+ */
+
+import type { ScheduleSeason } from "@/lib";
+
+const MONTH_DAY_PATTERN = /^(\d{2})-(\d{2})$/;
+const MAX_SEASON_NAME_LENGTH = 60;
+
+/** One year's occurrence of a season */
+export interface SeasonSpan {
+  season: ScheduleSeason;
+  /** Wall-clock ms the season's rotation takes over */
+  startMs: number;
+  /** Wall-clock ms the school-year rotation resumes */
+  endMs: number;
+}
+
+/** [month, day] for an MM-DD that exists every year, else null */
+function parseMonthDay(value: unknown): [number, number] | null {
+  const match = typeof value === "string" ? MONTH_DAY_PATTERN.exec(value) : null;
+  if (!match) return null;
+  const month = Number(match[1]);
+  const day = Number(match[2]);
+  // 2023 is not a leap year, so February 29 is rejected
+  const date = new Date(Date.UTC(2023, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? [month, day] : null;
+}
+
+/**
+ * Occurrences of `seasons` that start in the year before, of or after
+ * `wallMs`, in start order.  Seasons with unusable bounds are skipped.
+ */
+export function seasonSpansAround(
+  seasons: readonly ScheduleSeason[],
+  wallMs: number,
+  transitionHour: number
+): SeasonSpan[] {
+  const year = new Date(wallMs).getUTCFullYear();
+  const spans: SeasonSpan[] = [];
+
+  for (const season of seasons) {
+    const start = parseMonthDay(season.startMonthDay);
+    const end = parseMonthDay(season.endMonthDay);
+    if (!start || !end || season.startMonthDay === season.endMonthDay) continue;
+    const spansNewYear = season.endMonthDay < season.startMonthDay;
+
+    for (let y = year - 1; y <= year + 1; y++) {
+      spans.push({
+        season,
+        startMs: Date.UTC(y, start[0] - 1, start[1], transitionHour),
+        endMs: Date.UTC(spansNewYear ? y + 1 : y, end[0] - 1, end[1], transitionHour),
+      });
+    }
+  }
+
+  return spans.sort((a, b) => a.startMs - b.startMs);
+}
+
+/**
+ * Reads stored seasons (`DbCustodySchedule.seasons`).  Missing or
+ * unparseable JSON means no seasons, leaving the school-year rotation in
+ * force all year.
+ */
+export function parseScheduleSeasons(raw: string | null | undefined): ScheduleSeason[] {
+  if (!raw) return [];
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed)
+      ? (parsed as ScheduleSeason[]).filter((s) => Array.isArray(s?.blocks) && s.blocks.length > 0)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Why a schedule's seasons are unusable for a family with `parentIds`, or null when they are fine */
+export function validateScheduleSeasons(seasons: unknown, parentIds: readonly string[]): string | null {
+  if (!Array.isArray(seasons)) {
+    return "Seasons must be a list";
+  }
+
+  for (const value of seasons as Array<Partial<Record<string, unknown>>>) {
+    const name = typeof value?.name === "string" ? value.name.trim() : "";
+    if (!name || name.length > MAX_SEASON_NAME_LENGTH) {
+      return `Seasons need a name of at most ${MAX_SEASON_NAME_LENGTH} characters`;
+    }
+    if (!parseMonthDay(value.startMonthDay) || !parseMonthDay(value.endMonthDay)) {
+      return `${name} must start and end on an MM-DD that exists every year`;
+    }
+    if (value.startMonthDay === value.endMonthDay) {
+      return `${name} must end on a different day than it starts`;
+    }
+    const blocks = value.blocks;
+    if (!Array.isArray(blocks) || blocks.length === 0) {
+      return `${name} needs a rotation`;
+    }
+    for (const block of blocks as Array<Partial<Record<string, unknown>>>) {
+      if (typeof block?.days !== "number" || !Number.isInteger(block.days) || block.days < 1) {
+        return `${name} blocks must each last a whole number of days`;
+      }
+      if (typeof block.parentId !== "string" || !parentIds.includes(block.parentId)) {
+        return `${name} blocks must each go to a parent in the family`;
+      }
+    }
+  }
+
+  // Any two seasons that overlap do so within the years around a reference date
+  const spans = seasonSpansAround(seasons as ScheduleSeason[], Date.UTC(2024, 6, 1), 0);
+  let latest = spans[0];
+  for (const span of spans.slice(1)) {
+    if (span.startMs < latest.endMs) {
+      return `${latest.season.name} and ${span.season.name} overlap`;
+    }
+    latest = span.endMs > latest.endMs ? span : latest;
+  }
+  return null;
+}
@@ -0,0 +1,512 @@
+/**
+ * KidSchedule – Schedule Versions
+ *
+ * Changes to a family's custody schedule take effect on a date instead of
+ * rewriting it in place.  One parent proposes a new rotation, exchange hour
+ * or anchor with an effective date; the other approves or rejects it (like
+ * holiday rules), and the proposer may withdraw it while it waits.  Approved
+ * versions are never edited, so CustodyEngine, compliance reports and
+ * exports keep grading past days against the schedule that was in force on
+ * them.  A later change is another version with a later effective date.
+ *
+ * The history view renders loadScheduleHistory(): every proposal, who
+ * answered it and when, and what it changed from the schedule before it.
+ */
+
+import type {
+  CustodySchedule,
+  Family,
+  ScheduleBlock,
+  ScheduleEvent,
+  SchedulePhase,
+  ScheduleSeason,
+  ScheduleVersion,
+  WeeklyBlock,
+} from "@/lib";
+import {
+  DEFAULT_FAMILY_TIMEZONE,
+  custodyEngineEvents,
+  formatInstantInTimeZone,
+  fromWallClockMs,
+  toScheduleVersions,
+  toWallClockMs,
+} from "@/lib/custody";
+import { buildFeedFamily } from "@/lib/custody-feed";
+import { describePhaseEnd, parseSchedulePhases, validateSchedulePhases } from "@/lib/schedule-phases";
+import { parseScheduleSeasons, validateScheduleSeasons } from "@/lib/schedule-seasons";
+import {
+  describeWeeklyBlock,
+  parseWeeklyBlocks,
+  validateBlockTimes,
+  validateWeeklyBlocks,
+} from "@/lib/schedule-weekly";
+import { db, runInTransaction } from "@/lib/persistence";
+import type { DbCustodyScheduleVersion, DbFamily, DbParent } from "@/lib/persistence/types";
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+export const MAX_SCHEDULE_NAME_LENGTH = 80;
+export const MAX_SCHEDULE_REASON_LENGTH = 2000;
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type ScheduleVersionResult<T> = ({ success: true } & T) | { success: false; error: string };
+
+/** The parts of a schedule a version can change */
+export interface ScheduleTerms {
+  name: string;
+  transitionHour: number;
+  blocks: ScheduleBlock[];
+  seasons: ScheduleSeason[];
+  /** Step-up phases run from `anchorDate` before `blocks` */
+  phases: SchedulePhase[];
+  /** Held over `blocks` on set weekdays, e.g. every other weekend */
+  weeklyBlocks: WeeklyBlock[];
+  /** YYYY-MM-DD block[0] of the rotation starts (or started) */
+  anchorDate: string;
+}
+
+export interface ScheduleVersionProposal extends ScheduleTerms {
+  effectiveDate: string;
+  reason?: string;
+}
+
+/** A version with what it changes from the schedule in force before its effective date */
+export interface ScheduleHistoryEntry {
+  version: DbCustodyScheduleVersion;
+  changes: string[];
+}
+
+export interface ScheduleHistory {
+  /** The schedule in force before the first version, when the family has one */
+  original: ScheduleTerms | null;
+  /** Every version, newest proposal first */
+  entries: ScheduleHistoryEntry[];
+  /** The approved terms in force now */
+  current: ScheduleTerms | null;
+}
+
+// ─── Terms ────────────────────────────────────────────────────────────────────
+
+function isIsoDate(value: unknown): value is string {
+  const match = typeof value === "string" ? ISO_DATE_PATTERN.exec(value) : null;
+  if (!match) return false;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date.toISOString().slice(0, 10) === value;
+}
+
+/** The family's calendar date at `now`, YYYY-MM-DD */
+export function todayInTimeZone(timeZone: string, now: Date = new Date()): string {
+  return new Date(toWallClockMs(now.getTime(), timeZone)).toISOString().slice(0, 10);
+}
+
+function termsOfSchedule(schedule: CustodySchedule, familyAnchorDate: string): ScheduleTerms {
+  return {
+    name: schedule.name,
+    transitionHour: schedule.transitionHour,
+    blocks: schedule.blocks,
+    seasons: schedule.seasons ?? [],
+    phases: schedule.phases ?? [],
+    weeklyBlocks: schedule.weeklyBlocks ?? [],
+    anchorDate: schedule.anchorDate ?? familyAnchorDate,
+  };
+}
+
+function termsOfVersion(version: DbCustodyScheduleVersion): ScheduleTerms {
+  let blocks: ScheduleBlock[] = [];
+  try {
+    const parsed: unknown = JSON.parse(version.blocks);
+    blocks = Array.isArray(parsed) ? (parsed as ScheduleBlock[]) : [];
+  } catch {
+    // Unreadable blocks describe as an empty rotation
+  }
+  return {
+    name: version.name,
+    transitionHour: version.transitionHour,
+    blocks,
+    seasons: parseScheduleSeasons(version.seasons),
+    phases: parseSchedulePhases(version.phases),
+    weeklyBlocks: parseWeeklyBlocks(version.weeklyBlocks),
+    anchorDate: version.anchorDate,
+  };
+}
+
+/**
+ * Reads a proposal from a request body.  Missing fields come back empty so
+ * validateScheduleVersion names them.
+ */
+export function parseScheduleVersionProposal(input: unknown): ScheduleVersionProposal {
+  const raw = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+  const text = (value: unknown) => (typeof value === "string" ? value : "");
+  return {
+    name: text(raw.name),
+    transitionHour: Number(raw.transitionHour),
+    blocks: Array.isArray(raw.blocks) ? (raw.blocks as ScheduleBlock[]) : [],
+    seasons: (raw.seasons ?? []) as ScheduleSeason[],
+    phases: (raw.phases ?? []) as SchedulePhase[],
+    weeklyBlocks: (raw.weeklyBlocks ?? []) as WeeklyBlock[],
+    anchorDate: text(raw.anchorDate),
+    effectiveDate: text(raw.effectiveDate),
+    reason: typeof raw.reason === "string" ? raw.reason : undefined,
+  };
+}
+
+/**
+ * Why a proposal is unusable for a family with `parentIds` and `childIds`
+ * (whose ages may end its phases), or null when it is fine.
+ */
+export function validateScheduleVersion(
+  proposal: ScheduleVersionProposal,
+  parentIds: readonly string[],
+  childIds: readonly string[] = []
+): string | null {
+  const name = proposal.name.trim();
+  if (!name || name.length > MAX_SCHEDULE_NAME_LENGTH) {
+    return `Name the schedule in at most ${MAX_SCHEDULE_NAME_LENGTH} characters`;
+  }
+  if (!Number.isInteger(proposal.transitionHour) || proposal.transitionHour < 0 || proposal.transitionHour > 23) {
+    return "Exchange hour must be 0-23";
+  }
+  if (!Array.isArray(proposal.blocks) || proposal.blocks.length === 0) {
+    return "The schedule needs a rotation";
+  }
+  for (const block of proposal.blocks) {
+    if (!Number.isInteger(block?.days) || block.days < 0) {
+      return "Rotation blocks must each last a whole number of days";
+    }
+    if (!parentIds.includes(block.parentId)) {
+      return "Rotation blocks must each go to a parent in the family";
+    }
+  }
+  const timesError = validateBlockTimes(proposal.blocks, proposal.transitionHour);
+  if (timesError) {
+    return timesError;
+  }
+  if (!isIsoDate(proposal.anchorDate)) {
+    return "Anchor date must be a YYYY-MM-DD date";
+  }
+  if (!isIsoDate(proposal.effectiveDate)) {
+    return "Effective date must be a YYYY-MM-DD date";
+  }
+  if ((proposal.reason?.length ?? 0) > MAX_SCHEDULE_REASON_LENGTH) {
+    return `Reason must be ${MAX_SCHEDULE_REASON_LENGTH} characters or fewer`;
+  }
+  return (
+    validateScheduleSeasons(proposal.seasons, parentIds) ??
+    validateSchedulePhases(proposal.phases, parentIds, childIds) ??
+    validateWeeklyBlocks(proposal.weeklyBlocks, parentIds, proposal.anchorDate)
+  );
+}
+
+// ─── Descriptions ─────────────────────────────────────────────────────────────
+
+function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, "0")}:00`;
+}
+
+/** e.g. "Alex 2d, Sam 2d, Alex 3d", "Alex 2d, Sam 0d from 16:00, Alex 5d from 20:00" */
+export function describeRotation(blocks: readonly ScheduleBlock[], parentName: (id: string) => string): string {
+  return blocks.length > 0
+    ? blocks
+        .map((b) => `${parentName(b.parentId)} ${b.days}d${b.startTime ? ` from ${b.startTime}` : ""}`)
+        .join(", ")
+    : "none";
+}
+
+function describeSeasons(seasons: readonly ScheduleSeason[], parentName: (id: string) => string): string {
+  return seasons.length > 0
+    ? seasons
+        .map((s) => `${s.name} ${s.startMonthDay} to ${s.endMonthDay} (${describeRotation(s.blocks, parentName)})`)
+        .join("; ")
+    : "none";
+}
+
+function describePhases(phases: readonly SchedulePhase[], parentName: (id: string) => string): string {
+  return phases.length > 0
+    ? phases
+        .map((p) => `${p.name} ${describePhaseEnd(p.until)} (${describeRotation(p.blocks, parentName)})`)
+        .join("; ")
+    : "none";
+}
+
+function describeWeeklyBlocks(blocks: readonly WeeklyBlock[], parentName: (id: string) => string): string {
+  return blocks.length > 0
+    ? blocks.map((b) => `${parentName(b.parentId)} ${describeWeeklyBlock(b)}`).join("; ")
+    : "none";
+}
+
+/**
+ * What `next` changes from `previous`, one line per changed term, e.g.
+ * "Exchange time 17:00 → 18:00".  Empty when the terms are the same.
+ */
+export function describeScheduleChange(
+  previous: ScheduleTerms | null,
+  next: ScheduleTerms,
+  parentName: (id: string) => string
+): string[] {
+  const rotation = (terms: ScheduleTerms) => `${terms.name} (${describeRotation(terms.blocks, parentName)})`;
+  if (!previous) {
+    return [
+      `Rotation ${rotation(next)}`,
+      `Exchange time ${formatHour(next.transitionHour)}`,
+      `Anchored on ${next.anchorDate}`,
+    ];
+  }
+
+  const changes: string[] = [];
+  if (
+    previous.name !== next.name ||
+    describeRotation(previous.blocks, parentName) !== describeRotation(next.blocks, parentName)
+  ) {
+    changes.push(`Rotation ${rotation(previous)} → ${rotation(next)}`);
+  }
+  if (previous.transitionHour !== next.transitionHour) {
+    changes.push(`Exchange time ${formatHour(previous.transitionHour)} → ${formatHour(next.transitionHour)}`);
+  }
+  if (previous.anchorDate !== next.anchorDate) {
+    changes.push(`Anchor ${previous.anchorDate} → ${next.anchorDate}`);
+  }
+  const seasonsBefore = describeSeasons(previous.seasons, parentName);
+  const seasonsAfter = describeSeasons(next.seasons, parentName);
+  if (seasonsBefore !== seasonsAfter) {
+    changes.push(`Seasons ${seasonsBefore} → ${seasonsAfter}`);
+  }
+  const phasesBefore = describePhases(previous.phases, parentName);
+  const phasesAfter = describePhases(next.phases, parentName);
+  if (phasesBefore !== phasesAfter) {
+    changes.push(`Step-up phases ${phasesBefore} → ${phasesAfter}`);
+  }
+  const weeklyBefore = describeWeeklyBlocks(previous.weeklyBlocks, parentName);
+  const weeklyAfter = describeWeeklyBlocks(next.weeklyBlocks, parentName);
+  if (weeklyBefore !== weeklyAfter) {
+    changes.push(`Weekly blocks ${weeklyBefore} → ${weeklyAfter}`);
+  }
+  return changes;
+}
+
+/** The approved terms in force just before `effectiveDate` */
+function termsBefore(
+  effectiveDate: string,
+  original: ScheduleTerms | null,
+  approved: readonly DbCustodyScheduleVersion[]
+): ScheduleTerms | null {
+  const earlier = approved.filter((v) => v.effectiveDate < effectiveDate).at(-1);
+  return earlier ? termsOfVersion(earlier) : original;
+}
+
+// ─── Loading ──────────────────────────────────────────────────────────────────
+
+/** The family's approved versions, ready for `Family.scheduleVersions` */
+export async function loadScheduleVersions(familyId: string): Promise<ScheduleVersion[]> {
+  return toScheduleVersions(await db.custodyScheduleVersions.findApprovedByFamilyId(familyId));
+}
+
+async function loadOriginalTerms(family: DbFamily, parents: DbParent[]): Promise<ScheduleTerms | null> {
+  const active = await db.custodySchedules.findActiveByFamilyId(family.id);
+  const feedFamily = buildFeedFamily(family, parents, active);
+  return feedFamily ? termsOfSchedule(feedFamily.schedule, family.custodyAnchorDate) : null;
+}
+
+/** Every version of the family's schedule with what each one changed */
+export async function loadScheduleHistory(family: DbFamily, now: Date = new Date()): Promise<ScheduleHistory> {
+  const [parents, versions] = await Promise.all([
+    db.parents.findByFamilyId(family.id),
+    db.custodyScheduleVersions.findByFamilyId(family.id),
+  ]);
+  const original = await loadOriginalTerms(family, parents);
+  const parentName = (id: string) => parents.find((p) => p.id === id)?.name ?? "Former parent";
+  const approved = versions
+    .filter((v) => v.status === "approved")
+    .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+
+  const today = todayInTimeZone(family.timezone, now);
+  const inForce = approved.filter((v) => v.effectiveDate <= today).at(-1);
+
+  return {
+    original,
+    entries: versions
+      .slice()
+      .reverse()
+      .map((version) => ({
+        version,
+        changes: describeScheduleChange(
+          termsBefore(version.effectiveDate, original, approved),
+          termsOfVersion(version),
+          parentName
+        ),
+      })),
+    current: inForce ? termsOfVersion(inForce) : original,
+  };
+}
+
+// ─── Lifecycle ────────────────────────────────────────────────────────────────
+
+/**
+ * Propose a new version of the family schedule.  It must take effect after
+ * today in the family's timezone, and after the latest approved version, so
+ * custody already past is never rewritten.
+ */
+export async function proposeScheduleVersion(input: {
+  family: DbFamily;
+  proposedBy: string;
+  proposal: ScheduleVersionProposal;
+  now?: Date;
+}): Promise<ScheduleVersionResult<{ version: DbCustodyScheduleVersion }>> {
+  const { family, proposedBy, proposal } = input;
+
+  const [parents, children, approved] = await Promise.all([
+    db.parents.findByFamilyId(family.id),
+    db.children.findByFamilyId(family.id),
+    db.custodyScheduleVersions.findApprovedByFamilyId(family.id),
+  ]);
+  const invalid = validateScheduleVersion(
+    proposal,
+    parents.map((p) => p.id),
+    children.map((c) => c.id)
+  );
+  if (invalid) {
+    return { success: false, error: invalid };
+  }
+  if (proposal.effectiveDate <= todayInTimeZone(family.timezone, input.now)) {
+    return { success: false, error: "A schedule change must take effect after today" };
+  }
+  const latest = approved.at(-1);
+  if (latest && proposal.effectiveDate <= latest.effectiveDate) {
+    return {
+      success: false,
+      error: `A schedule change must take effect after ${latest.effectiveDate}, when the last approved change does`,
+    };
+  }
+
+  try {
+    const version = await db.custodyScheduleVersions.create({
+      familyId: family.id,
+      name: proposal.name.trim(),
+      transitionHour: proposal.transitionHour,
+      blocks: JSON.stringify(proposal.blocks),
+      seasons: JSON.stringify(proposal.seasons),
+      phases: JSON.stringify(proposal.phases),
+      weeklyBlocks: JSON.stringify(proposal.weeklyBlocks),
+      anchorDate: proposal.anchorDate,
+      effectiveDate: proposal.effectiveDate,
+      reason: proposal.reason?.trim() || undefined,
+      proposedBy,
+    });
+    return { success: true, version };
+  } catch (error) {
+    if ((error as { code?: string }).code === "23505") {
+      return { success: false, error: "A schedule change is already waiting for an answer" };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Approve or reject a pending version; only a parent who did not propose
+ * it may answer, and it can no longer be approved once its effective date
+ * has arrived.
+ */
+export async function respondToScheduleVersion(input: {
+  family: DbFamily;
+  version: DbCustodyScheduleVersion;
+  respondedBy: string;
+  decision: "approve" | "reject";
+  now?: Date;
+}): Promise<ScheduleVersionResult<{ version: DbCustodyScheduleVersion }>> {
+  const { family, version, respondedBy, decision } = input;
+
+  if (version.status !== "pending") {
+    return { success: false, error: "This schedule change is not waiting for an answer" };
+  }
+  if (version.proposedBy === respondedBy) {
+    return { success: false, error: "The other parent must answer this schedule change" };
+  }
+  if (decision === "approve" && version.effectiveDate <= todayInTimeZone(family.timezone, input.now)) {
+    return { success: false, error: "The effective date has passed; propose the change again with a later date" };
+  }
+
+  try {
+    return await runInTransaction(async (txDb) => {
+      if (decision === "approve") {
+        const latest = (await txDb.custodyScheduleVersions.findApprovedByFamilyId(family.id)).at(-1);
+        if (latest && version.effectiveDate <= latest.effectiveDate) {
+          return {
+            success: false as const,
+            error: `Another change already takes effect on ${latest.effectiveDate}; propose this one again with a later date`,
+          };
+        }
+      }
+      const answered = await txDb.custodyScheduleVersions.respond(
+        version.id,
+        decision === "approve" ? "approved" : "rejected",
+        respondedBy
+      );
+      if (!answered) {
+        return { success: false as const, error: "This schedule change is not waiting for an answer" };
+      }
+      return { success: true as const, version: answered };
+    });
+  } catch (error) {
+    if ((error as { code?: string }).code === "23505") {
+      return { success: false, error: "Another change already takes effect on that date" };
+    }
+    throw error;
+  }
+}
+
+/** Withdraw a pending version; only the parent who proposed it may */
+export async function withdrawScheduleVersion(
+  version: DbCustodyScheduleVersion,
+  parentId: string
+): Promise<ScheduleVersionResult<{ version: DbCustodyScheduleVersion }>> {
+  if (version.proposedBy !== parentId) {
+    return { success: false, error: "Only the parent who proposed this change can withdraw it" };
+  }
+  const withdrawn = await db.custodyScheduleVersions.respond(version.id, "withdrawn", parentId);
+  if (!withdrawn) {
+    return { success: false, error: "This schedule change is not waiting for an answer" };
+  }
+  return { success: true, version: withdrawn };
+}
+
+// ─── Calendar Events ──────────────────────────────────────────────────────────
+
+/**
+ * Replaces the base custody events from the first version's start onward
+ * with periods from CustodyEngine.  The preset generator behind the
+ * calendar grid only knows the family's original rotation; overrides are
+ * applied to the result afterwards as before.
+ */
+export function applyScheduleVersionEvents(
+  family: Family,
+  events: ScheduleEvent[],
+  range: { start: Date; end: Date }
+): ScheduleEvent[] {
+  const first = family.scheduleVersions
+    ?.slice()
+    .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate))[0];
+  if (!first) return events;
+
+  const timeZone = family.timezone || DEFAULT_FAMILY_TIMEZONE;
+  const cutoffMs = fromWallClockMs(
+    Date.parse(`${first.effectiveDate}T00:00:00Z`) + first.schedule.transitionHour * MS_PER_HOUR,
+    timeZone
+  );
+  if (cutoffMs >= range.end.getTime()) return events;
+
+  const format = (ms: number) => formatInstantInTimeZone(new Date(ms), timeZone);
+  const kept = events
+    .filter((e) => Date.parse(e.start_at) < cutoffMs)
+    .map((e) => (Date.parse(e.end_at) > cutoffMs ? { ...e, end_at: format(cutoffMs) } : e));
+
+  const versioned = custodyEngineEvents(
+    family,
+    { start: new Date(Math.max(cutoffMs, range.start.getTime())), end: range.end },
+    { childId: events[0]?.child_id ?? "", source: "schedule-version" }
+  );
+
+  return [...kept, ...versioned];
+}
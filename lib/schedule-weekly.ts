@@ -0,0 +1,224 @@
+/**
+ * KidSchedule – Weekly Blocks & Exchange Times
+ *
+ * Many parenting plans are written against the days of the week rather
+ * than a counted rotation: "every other weekend, Friday 6 PM to Sunday
+ * 6 PM, plus every Wednesday 4-8 PM for dinner".  A weekly block recurs
+ * every `everyWeeks` weeks and holds custody while it runs; CustodyEngine
+ * asks for the occurrences around a moment and cuts the rotation short at
+ * their boundaries, the same way it handles seasons.
+ *
+ * Rotation blocks can also start at their own exchange time
+ * (`ScheduleBlock.startTime`) instead of the schedule's transition hour,
+ * which lets a rotation hand over at different times of day and hold
+ * blocks shorter than a day.
+ *
+ * Times are wall-clock milliseconds in the family's timezone (see
+ * `toWallClockMs` in lib/custody).
+ */
+
+import type { ScheduleBlock, WeeklyBlock } from "@/lib";
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const MAX_EVERY_WEEKS = 4;
+const MAX_LABEL_LENGTH = 60;
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+const MS_PER_WEEK = 7 * MS_PER_DAY;
+
+/** One occurrence of a weekly block */
+export interface WeeklySpan {
+  block: WeeklyBlock;
+  /** Wall-clock ms the block takes over */
+  startMs: number;
+  /** Wall-clock ms the rotation underneath resumes */
+  endMs: number;
+}
+
+/** Minutes after midnight for an "HH:MM", else null */
+export function parseTimeOfDay(value: unknown): number | null {
+  const match = typeof value === "string" ? TIME_OF_DAY_PATTERN.exec(value) : null;
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+function isWeekday(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= 6;
+}
+
+// ─── Rotation Exchange Times ──────────────────────────────────────────────────
+
+/**
+ * When each block starts, in ms after midnight of the day the rotation's
+ * block[0] starts: its whole days so far plus its own `startTime`, else
+ * `transitionHour`.  A block ends where the next one starts, and the last
+ * where block[0] of the next cycle does.
+ */
+export function blockStartsMs(blocks: readonly ScheduleBlock[], transitionHour: number): number[] {
+  const starts: number[] = [];
+  let days = 0;
+  for (const block of blocks) {
+    const minutes = parseTimeOfDay(block.startTime) ?? transitionHour * 60;
+    starts.push(days * MS_PER_DAY + minutes * MS_PER_MINUTE);
+    days += block.days;
+  }
+  return starts;
+}
+
+/** Why `blocks` cannot form a rotation with these exchange times, or null when they can */
+export function validateBlockTimes(blocks: readonly ScheduleBlock[], transitionHour: number): string | null {
+  for (const block of blocks) {
+    if (block.startTime !== undefined && parseTimeOfDay(block.startTime) === null) {
+      return "Exchange times must be HH:MM";
+    }
+  }
+  const cycleDays = blocks.reduce((sum, block) => sum + block.days, 0);
+  if (cycleDays < 1) {
+    return "A rotation must last at least one day";
+  }
+
+  const starts = blockStartsMs(blocks, transitionHour);
+  for (let i = 0; i < starts.length; i++) {
+    const endMs = i + 1 < starts.length ? starts[i + 1] : cycleDays * MS_PER_DAY + starts[0];
+    if (endMs <= starts[i]) {
+      return "Each block must end after it starts";
+    }
+  }
+  return null;
+}
+
+// ─── Weekly Blocks ────────────────────────────────────────────────────────────
+
+/** Length of one occurrence; an end at or before the start on the same day runs into the next week */
+function weeklyDurationMs(block: WeeklyBlock, startMinutes: number, endMinutes: number): number {
+  const startMs = block.startDay * MS_PER_DAY + startMinutes * MS_PER_MINUTE;
+  const endMs = block.endDay * MS_PER_DAY + endMinutes * MS_PER_MINUTE;
+  const durationMs = (((endMs - startMs) % MS_PER_WEEK) + MS_PER_WEEK) % MS_PER_WEEK;
+  return durationMs === 0 ? MS_PER_WEEK : durationMs;
+}
+
+/**
+ * Occurrences of `blocks` overlapping [fromMs, toMs), in start order.  Each
+ * block first starts on the first `startDay` on or after `anchorDate`
+ * (YYYY-MM-DD) and recurs every `everyWeeks` weeks in both directions.
+ * Blocks with unusable days or times are skipped.
+ */
+export function weeklySpansBetween(
+  blocks: readonly WeeklyBlock[],
+  anchorDate: string,
+  fromMs: number,
+  toMs: number
+): WeeklySpan[] {
+  const [year, month, day] = anchorDate.split("-").map(Number) as [number, number, number];
+  const anchorDayMs = Date.UTC(year, month - 1, day);
+  const anchorWeekday = new Date(anchorDayMs).getUTCDay();
+  const spans: WeeklySpan[] = [];
+
+  for (const block of blocks) {
+    const startMinutes = parseTimeOfDay(block.startTime);
+    const endMinutes = parseTimeOfDay(block.endTime);
+    if (startMinutes === null || endMinutes === null || !isWeekday(block.startDay) || !isWeekday(block.endDay)) {
+      continue;
+    }
+
+    const periodMs = (block.everyWeeks ?? 1) * MS_PER_WEEK;
+    const durationMs = weeklyDurationMs(block, startMinutes, endMinutes);
+    const firstMs =
+      anchorDayMs + ((block.startDay - anchorWeekday + 7) % 7) * MS_PER_DAY + startMinutes * MS_PER_MINUTE;
+
+    for (let i = Math.floor((fromMs - durationMs - firstMs) / periodMs); ; i++) {
+      const startMs = firstMs + i * periodMs;
+      if (startMs >= toMs) break;
+      if (startMs + durationMs > fromMs) {
+        spans.push({ block, startMs, endMs: startMs + durationMs });
+      }
+    }
+  }
+
+  return spans.sort((a, b) => a.startMs - b.startMs);
+}
+
+/**
+ * Occurrences close enough to `wallMs` to hold custody then, or to be the
+ * last to end before it or the next to start after it.
+ */
+export function weeklySpansAround(blocks: readonly WeeklyBlock[], anchorDate: string, wallMs: number): WeeklySpan[] {
+  const reachMs = (MAX_EVERY_WEEKS + 1) * MS_PER_WEEK;
+  return weeklySpansBetween(blocks, anchorDate, wallMs - reachMs, wallMs + reachMs);
+}
+
+/**
+ * Reads stored weekly blocks (`DbCustodySchedule.weeklyBlocks`).  Missing
+ * or unparseable JSON means none, leaving the rotation in force throughout.
+ */
+export function parseWeeklyBlocks(raw: string | null | undefined): WeeklyBlock[] {
+  if (!raw) return [];
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed)
+      ? (parsed as WeeklyBlock[]).filter((b) => typeof b?.parentId === "string" && isWeekday(b.startDay))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/** e.g. "Wed 16:00–20:00", "Fri 18:00–Sun 18:00 every 2 weeks" */
+export function describeWeeklyBlock(block: WeeklyBlock): string {
+  const names = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+  const end = block.endDay === block.startDay ? block.endTime : `${names[block.endDay]} ${block.endTime}`;
+  const every = (block.everyWeeks ?? 1) > 1 ? ` every ${block.everyWeeks} weeks` : "";
+  return `${names[block.startDay]} ${block.startTime}–${end}${every}`;
+}
+
+/**
+ * Why a schedule's weekly blocks are unusable for a family with
+ * `parentIds`, or null when they are fine.  Blocks may not overlap when
+ * counted from `anchorDate` (YYYY-MM-DD), the date the schedule's weekly
+ * blocks count their weeks from.
+ */
+export function validateWeeklyBlocks(
+  blocks: unknown,
+  parentIds: readonly string[],
+  anchorDate: string
+): string | null {
+  if (!Array.isArray(blocks)) {
+    return "Weekly blocks must be a list";
+  }
+
+  for (const value of blocks as Array<Partial<Record<string, unknown>>>) {
+    if (typeof value?.parentId !== "string" || !parentIds.includes(value.parentId)) {
+      return "Weekly blocks must each go to a parent in the family";
+    }
+    if (!isWeekday(value.startDay) || !isWeekday(value.endDay)) {
+      return "Weekly blocks must start and end on a day of the week (0-6)";
+    }
+    if (parseTimeOfDay(value.startTime) === null || parseTimeOfDay(value.endTime) === null) {
+      return "Weekly blocks must start and end at an HH:MM time";
+    }
+    if (value.startDay === value.endDay && value.startTime === value.endTime) {
+      return "Weekly blocks must end at a different time than they start";
+    }
+    const everyWeeks = value.everyWeeks ?? 1;
+    if (typeof everyWeeks !== "number" || !Number.isInteger(everyWeeks) || everyWeeks < 1 || everyWeeks > MAX_EVERY_WEEKS) {
+      return `Weekly blocks must repeat every 1 to ${MAX_EVERY_WEEKS} weeks`;
+    }
+    if (value.label !== undefined && (typeof value.label !== "string" || value.label.length > MAX_LABEL_LENGTH)) {
+      return `Weekly block labels must be at most ${MAX_LABEL_LENGTH} characters`;
+    }
+  }
+
+  // Every combination of 1-4 week cycles repeats within 12 weeks
+  const fromMs = Date.parse(`${anchorDate}T00:00:00Z`);
+  if (Number.isNaN(fromMs)) {
+    return "Weekly blocks need a YYYY-MM-DD anchor date";
+  }
+  const spans = weeklySpansBetween(blocks as WeeklyBlock[], anchorDate, fromMs, fromMs + 12 * MS_PER_WEEK);
+  let latest = spans[0];
+  for (const span of spans.slice(1)) {
+    if (span.startMs < latest.endMs) {
+      return `${describeWeeklyBlock(latest.block)} and ${describeWeeklyBlock(span.block)} overlap`;
+    }
+    latest = span.endMs > latest.endMs ? span : latest;
+  }
+  return null;
+}
@@ -12,7 +12,9 @@ import { generateCustodySchedule } from "@/lib/custody";
 import { generateAndPersistHolidayOverrides } from "@/lib/schedule-override";
 import { ScheduleOverrideEngine } from "@/lib/schedule-override";
 import { logEvent } from "@/lib/observability/logger";
+import { describePhaseEnd, schedulePhaseStages } from "@/lib/schedule-phases";
 import type {
+  CustodySchedule,
   ScheduleGeneratorInput,
   ScheduleGeneratorOutput,
   ScheduleEvent,
@@ -126,6 +128,53 @@ export interface PatternConfigInput {
   pickupTime: string;
   dropoffTime: string;
   mode: PreviewMode;
+  /** Rotation over the summer break; the template above is the school-year one */
+  summer?: SeasonConfigInput;
+  /** Shorter stays to start from; the template above is the long-term rotation */
+  stepUp?: StepUpConfigInput;
+}
+
+export interface SeasonConfigInput {
+  templateId: TemplateId;
+  /** MM-DD the summer rotation starts each year */
+  startMonthDay: string;
+  /** MM-DD the school-year rotation resumes */
+  endMonthDay: string;
+  rotationStarter: RotationStarter;
+}
+
+/** Rotations a step-up plan can start from: shorter stays, then any template */
+export type StepUpTemplateId = "daytime-visits" | "one-overnight" | Exclude<TemplateId, "custom">;
+
+export interface StepUpPhaseTemplate {
+  id: StepUpTemplateId;
+  title: string;
+  description: string;
+  segments: TemplateSegment[];
+}
+
+export interface StepUpPhaseInput {
+  templateId: StepUpTemplateId;
+  /** At the child's age in whole months, or on a YYYY-MM-DD date */
+  until: { kind: "age"; months: number } | { kind: "date"; date: string };
+}
+
+export interface StepUpConfigInput {
+  /** The child's date of birth, which age-based phases count from */
+  birthDate?: string;
+  phases: StepUpPhaseInput[];
+}
+
+/** One stage of a step-up plan as dated from the schedule start */
+export interface StepUpTimelineEntry {
+  title: string;
+  startDate: string;
+  /** null for the long-term rotation */
+  endDate: string | null;
+  /** e.g. "until 18 months old"; null for the long-term rotation */
+  untilLabel: string | null;
+  parentAPercent: number;
+  parentBPercent: number;
 }
 
 export interface PatternPreviewDay {
@@ -200,6 +249,34 @@ const TEMPLATE_CATALOG: readonly ScheduleTemplate[] = [
   },
 ] as const;
 
+/** Parent A keeps the overnights while a young child steps up to the long-term rotation */
+const STEP_UP_PHASE_CATALOG: readonly StepUpPhaseTemplate[] = [
+  {
+    id: "daytime-visits",
+    title: "Daytime Visits",
+    description: "Overnights stay with Parent A; Parent B visits during the day.",
+    segments: [{ days: 7, parent: "A" }],
+  },
+  {
+    id: "one-overnight",
+    title: "One Overnight a Week",
+    description: "Parent B has one overnight each week.",
+    segments: [
+      { days: 6, parent: "A" },
+      { days: 1, parent: "B" },
+    ],
+  },
+  ...TEMPLATE_CATALOG.filter((template) => template.id !== "custom").map((template) => ({
+    id: template.id as Exclude<TemplateId, "custom">,
+    title: template.title,
+    description: template.description,
+    segments: template.segments,
+  })),
+];
+
+/** The most phases the wizard offers before the long-term rotation */
+const MAX_STEP_UP_PHASES = 4;
+
 const WIZARD_STEPS: readonly WizardStep[] = [
   { id: 1, label: "Template" },
   { id: 2, label: "Pattern Config" },
@@ -258,6 +335,96 @@ export function getDefaultPatternConfig(templateId: TemplateId = "2-2-3"): Patte
   };
 }
 
+export function getDefaultSummerConfig(): SeasonConfigInput {
+  return {
+    templateId: "alternating-weeks",
+    startMonthDay: "06-15",
+    endMonthDay: "08-20",
+    rotationStarter: "A",
+  };
+}
+
+/** An MM-DD that exists every year (no February 29) */
+export function isMonthDay(value: string | undefined | null): value is string {
+  const match = /^(\d{2})-(\d{2})$/.exec(value ?? "");
+  if (!match) {
+    return false;
+  }
+
+  const date = new Date(Date.UTC(2023, Number(match[1]) - 1, Number(match[2])));
+  return toIsoDate(date).slice(5) === value;
+}
+
+/**
+ * Reads the wizard's summer query parameters; undefined when no summer
+ * template is chosen.  Unusable dates fall back to the defaults.
+ */
+export function resolveSummerConfig(params: {
+  summer?: string;
+  summerStart?: string;
+  summerEnd?: string;
+  summerStartsWith?: string;
+}): SeasonConfigInput | undefined {
+  if (!isTemplateId(params.summer)) {
+    return undefined;
+  }
+
+  const defaults = getDefaultSummerConfig();
+  return {
+    templateId: params.summer,
+    startMonthDay: isMonthDay(params.summerStart) ? params.summerStart : defaults.startMonthDay,
+    endMonthDay: isMonthDay(params.summerEnd) ? params.summerEnd : defaults.endMonthDay,
+    rotationStarter: params.summerStartsWith === "B" ? "B" : "A",
+  };
+}
+
+export function getStepUpPhaseTemplates(): readonly StepUpPhaseTemplate[] {
+  return STEP_UP_PHASE_CATALOG;
+}
+
+export function getMaxStepUpPhases(): number {
+  return MAX_STEP_UP_PHASES;
+}
+
+export function isStepUpTemplateId(value: string | undefined | null): value is StepUpTemplateId {
+  return STEP_UP_PHASE_CATALOG.some((template) => template.id === value);
+}
+
+/**
+ * Reads the wizard's step-up query parameters: `stepUp` lists phases as
+ * `template:end`, where the end is an age such as `18m` or a YYYY-MM-DD
+ * date (e.g. "daytime-visits:6m,one-overnight:18m"), and `birthDate` is the
+ * child's date of birth.  Undefined when no usable phase is listed.
+ */
+export function resolveStepUpConfig(params: { stepUp?: string; birthDate?: string }): StepUpConfigInput | undefined {
+  const phases = (params.stepUp ?? "")
+    .split(",")
+    .flatMap((entry): StepUpPhaseInput[] => {
+      const [templateId, end = ""] = entry.split(":");
+      if (!isStepUpTemplateId(templateId)) {
+        return [];
+      }
+      const age = /^(\d{1,3})m$/.exec(end);
+      if (age && Number(age[1]) > 0) {
+        return [{ templateId, until: { kind: "age", months: Number(age[1]) } }];
+      }
+      return isIsoDateString(end) ? [{ templateId, until: { kind: "date", date: end } }] : [];
+    })
+    .slice(0, MAX_STEP_UP_PHASES);
+
+  if (phases.length === 0) {
+    return undefined;
+  }
+  return { birthDate: isIsoDateString(params.birthDate) ? params.birthDate : undefined, phases };
+}
+
+/** The `stepUp` query parameter for a step-up plan; inverse of resolveStepUpConfig */
+export function formatStepUpParam(stepUp: StepUpConfigInput): string {
+  return stepUp.phases
+    .map((phase) => `${phase.templateId}:${phase.until.kind === "age" ? `${phase.until.months}m` : phase.until.date}`)
+    .join(",");
+}
+
 export function isTemplateId(value: string | undefined | null): value is TemplateId {
   if (!value) {
     return false;
@@ -285,6 +452,10 @@ export function getSegmentWidthPercent(template: ScheduleTemplate, segment: Temp
   return (segment.days / totalDays) * 100;
 }
 
+function isIsoDateString(value: string | undefined | null): value is string {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value ?? "") && !isNaN(Date.parse(`${value}T00:00:00.000Z`));
+}
+
 function toIsoDate(date: Date): string {
   const y = date.getUTCFullYear();
   const m = String(date.getUTCMonth() + 1).padStart(2, "0");
@@ -388,14 +559,11 @@ function buildPreviewSequence(
   return { days, parentADays, parentBDays };
 }
 
-export function generatePatternPreview(config: PatternConfigInput): PatternPreview {
-  const fallbackStartDate = getDefaultScheduleStartDate();
-  const start = parseIsoDateOrFallback(config.scheduleStartDate, fallbackStartDate);
-
-  const daysToGenerate = config.mode === "bi-weekly" ? 14 : 28;
-  const segments = normalizeSegments(config.templateId, config.rotationStarter);
-
-  const sequence = buildPreviewSequence(start, segments, daysToGenerate, config.pickupTime);
+function summarizePreview(
+  start: Date,
+  sequence: ReturnType<typeof buildPreviewSequence>,
+  daysToGenerate: number
+): PatternPreview {
   const { days, parentADays, parentBDays } = sequence;
 
   const rangeStart = days[0] ? new Date(`${days[0].isoDate}T00:00:00.000Z`) : start;
@@ -417,3 +585,100 @@ export function generatePatternPreview(config: PatternConfigInput): PatternPrevi
     parentBPercent,
   };
 }
+
+export function generatePatternPreview(config: PatternConfigInput): PatternPreview {
+  const fallbackStartDate = getDefaultScheduleStartDate();
+  const start = parseIsoDateOrFallback(config.scheduleStartDate, fallbackStartDate);
+
+  const daysToGenerate = config.mode === "bi-weekly" ? 14 : 28;
+  const segments = normalizeSegments(config.templateId, config.rotationStarter);
+
+  return summarizePreview(
+    start,
+    buildPreviewSequence(start, segments, daysToGenerate, config.pickupTime),
+    daysToGenerate
+  );
+}
+
+/**
+ * Previews the first weeks of the summer rotation: from its start date in
+ * the year the schedule starts, or the next year when that summer is
+ * already over.  Null when the schedule has no summer rotation.
+ */
+export function generateSummerPreview(config: PatternConfigInput): PatternPreview | null {
+  const summer = config.summer;
+  if (!summer || !isMonthDay(summer.startMonthDay) || !isMonthDay(summer.endMonthDay)) {
+    return null;
+  }
+
+  const scheduleStart = parseIsoDateOrFallback(config.scheduleStartDate, getDefaultScheduleStartDate());
+  const seasonBounds = (year: number) => {
+    const start = new Date(`${year}-${summer.startMonthDay}T00:00:00.000Z`);
+    const endYear = summer.endMonthDay > summer.startMonthDay ? year : year + 1;
+    return { start, end: new Date(`${endYear}-${summer.endMonthDay}T00:00:00.000Z`) };
+  };
+  let bounds = seasonBounds(scheduleStart.getUTCFullYear());
+  if (bounds.end <= scheduleStart) {
+    bounds = seasonBounds(scheduleStart.getUTCFullYear() + 1);
+  }
+
+  const seasonDays = Math.round((bounds.end.getTime() - bounds.start.getTime()) / (24 * 60 * 60 * 1000));
+  const daysToGenerate = Math.min(config.mode === "bi-weekly" ? 14 : 28, seasonDays);
+  const segments = normalizeSegments(summer.templateId, summer.rotationStarter);
+
+  return summarizePreview(
+    bounds.start,
+    buildPreviewSequence(bounds.start, segments, daysToGenerate, config.pickupTime),
+    daysToGenerate
+  );
+}
+
+/**
+ * The whole step-up plan from the schedule start: each phase with the
+ * dates it runs, then the long-term rotation.  Age-based phases are dated
+ * from the child's date of birth and left out without one; phases already
+ * over by the start date are left out too.  Null without a step-up plan.
+ */
+export function generateStepUpTimeline(config: PatternConfigInput): StepUpTimelineEntry[] | null {
+  const stepUp = config.stepUp;
+  if (!stepUp) {
+    return null;
+  }
+
+  const childId = "wizard-child";
+  const toBlocks = (segments: TemplateSegment[]) => segments.map((s) => ({ parentId: s.parent, days: s.days }));
+  const schedule: CustodySchedule = {
+    id: "wizard",
+    name: resolveTemplate(config.templateId).title,
+    transitionHour: 0,
+    blocks: toBlocks(normalizeSegments(config.templateId, config.rotationStarter)),
+    phases: stepUp.phases.map((phase) => {
+      const template = STEP_UP_PHASE_CATALOG.find((t) => t.id === phase.templateId) ?? STEP_UP_PHASE_CATALOG[0];
+      return {
+        name: template.title,
+        blocks: toBlocks(template.segments),
+        until: phase.until.kind === "age" ? { ...phase.until, childId } : phase.until,
+      };
+    }),
+  };
+  const children = stepUp.birthDate
+    ? [{ id: childId, firstName: "", lastName: "", dateOfBirth: stepUp.birthDate }]
+    : [];
+
+  const start = toIsoDate(parseIsoDateOrFallback(config.scheduleStartDate, getDefaultScheduleStartDate()));
+  return schedulePhaseStages(schedule, children)
+    .filter((stage) => stage.endDate === null || stage.endDate > start)
+    .map((stage) => {
+      const totalDays = stage.blocks.reduce((sum, block) => sum + block.days, 0);
+      const parentADays = stage.blocks.filter((b) => b.parentId === "A").reduce((sum, b) => sum + b.days, 0);
+      const parentAPercent = totalDays > 0 ? Math.round((parentADays / totalDays) * 100) : 0;
+      return {
+        title: stage.name,
+        startDate: stage.startDate && stage.startDate > start ? stage.startDate : start,
+        endDate: stage.endDate,
+        untilLabel: stage.until ? describePhaseEnd(stage.until) : null,
+        parentAPercent,
+        parentBPercent: 100 - parentAPercent,
+      };
+    });
+}
@@ -0,0 +1,81 @@
+/**
+ * KidSchedule – Storage Factory
+ *
+ * Returns the configured storage adapter based on the STORAGE_PROVIDER
+ * environment variable.  Supports: local (disk, default), s3 (any
+ * S3-compatible store, including MinIO).
+ */
+
+import { getStorageConfig } from "@/lib/config";
+import { createLocalStorageAdapter, type LocalStorageAdapter } from "./local";
+import { createS3StorageAdapter } from "./s3";
+import { storageKeyFromReference } from "./keys";
+import type { SignedUrlOptions, StorageAdapter } from "./types";
+
+export type { SignedUrlOptions, StorageAdapter, StorageObjectStream, StoredObject } from "./types";
+export {
+  assertValidStorageKey,
+  buildStorageKey,
+  contentTypeForKey,
+  isFamilyStorageKey,
+  storageKeyFromReference,
+  type StorageArea,
+} from "./keys";
+
+// ─── Factory ──────────────────────────────────────────────────────────────────
+
+let cachedAdapter: StorageAdapter | null = null;
+
+/**
+ * Returns the configured storage adapter instance.
+ * Caches the instance for reuse across requests.
+ *
+ * Environment variable STORAGE_PROVIDER controls which adapter is used:
+ *   - "s3" → S3-compatible adapter
+ *   - "local" or undefined → local disk adapter
+ */
+export function getStorageAdapter(): StorageAdapter {
+  if (cachedAdapter) {
+    return cachedAdapter;
+  }
+
+  const config = getStorageConfig();
+  if (config.provider === "s3" && config.s3) {
+    cachedAdapter = createS3StorageAdapter({ ...config.s3, signedUrlTtlSeconds: config.signedUrlTtlSeconds });
+  } else {
+    if (!config.local.signingSecret) {
+      throw new Error("STORAGE_SIGNING_SECRET (or AUTH_JWT_SECRET) is required for local storage");
+    }
+    cachedAdapter = createLocalStorageAdapter({ ...config.local, signedUrlTtlSeconds: config.signedUrlTtlSeconds });
+  }
+
+  return cachedAdapter;
+}
+
+/**
+ * The local adapter when it is the configured backend, for the route that
+ * serves its signed downloads; null when objects live elsewhere.
+ */
+export function getLocalStorageAdapter(): LocalStorageAdapter | null {
+  const adapter = getStorageAdapter();
+  return adapter.providerName === "local" ? (adapter as LocalStorageAdapter) : null;
+}
+
+/** Reset the cached adapter (tests only). */
+export function _test_resetStorageAdapter(): void {
+  cachedAdapter = null;
+}
+
+// ─── URL Resolution ───────────────────────────────────────────────────────────
+
+/**
+ * Browser-usable URL for a stored file reference: a signed URL for objects
+ * in storage, or the reference unchanged for static and external URLs.
+ */
+export async function resolveStoredFileUrl(
+  reference: string,
+  options?: SignedUrlOptions
+): Promise<string> {
+  const key = storageKeyFromReference(reference);
+  return key ? getStorageAdapter().getSignedUrl(key, options) : reference;
+}
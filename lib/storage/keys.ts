@@ -0,0 +1,70 @@
+/**
+ * KidSchedule – Storage Keys
+ *
+ * Helpers for building and validating object keys.  Keys are relative,
+ * slash-separated paths scoped by area and family, e.g.
+ * `vault/<familyId>/<documentId>.pdf`, `moments/<familyId>/<uuid>.jpg` or
+ * `receipts/<familyId>/<uuid>.pdf`.
+ */
+
+const KEY_SEGMENT_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+export type StorageArea = "vault" | "moments" | "receipts";
+
+/**
+ * Throws unless `key` is a relative path of safe segments.  Rejects `..`,
+ * empty segments and absolute paths so a key can never escape the storage
+ * root on disk.
+ */
+export function assertValidStorageKey(key: string): void {
+  const segments = key.split("/");
+  if (!segments.every((s) => KEY_SEGMENT_PATTERN.test(s) && s !== ".." && s !== ".")) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
+
+export function buildStorageKey(area: StorageArea, familyId: string, objectId: string, extension: string): string {
+  const key = `${area}/${familyId}/${objectId}.${extension.replace(/^\./, "").toLowerCase()}`;
+  assertValidStorageKey(key);
+  return key;
+}
+
+/** Whether `key` lives under the family's folder for `area`. */
+export function isFamilyStorageKey(key: string, area: StorageArea, familyId: string): boolean {
+  return key.startsWith(`${area}/${familyId}/`) && !key.slice(area.length + familyId.length + 2).includes("/");
+}
+
+/**
+ * Storage key for a stored file reference.  New rows store the key itself;
+ * rows written before object storage hold `/uploads/<key>` paths, which map
+ * onto the same key under the default local root.  Returns null for
+ * references that are not in storage (e.g. external or static URLs).
+ */
+export function storageKeyFromReference(reference: string | undefined | null): string | null {
+  if (!reference) {
+    return null;
+  }
+  const key = reference.startsWith("/uploads/") ? reference.slice("/uploads/".length) : reference;
+  try {
+    assertValidStorageKey(key);
+    return key;
+  } catch {
+    return null;
+  }
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  mp4: "video/mp4",
+};
+
+/** MIME type for a key's extension, for backends that do not store one. */
+export function contentTypeForKey(key: string): string {
+  const extension = key.slice(key.lastIndexOf(".") + 1).toLowerCase();
+  return CONTENT_TYPES[extension] ?? "application/octet-stream";
+}
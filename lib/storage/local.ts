@@ -1,52 +1,104 @@
 /**
  * KidSchedule – Local Storage Adapter
  *
- * File storage implementation using Node.js filesystem.
- * Stores files in ./public/moments/ with UUID-based unique names.
- * Public URLs are accessible via Next.js static file serving.
+ * File storage implementation using the Node.js filesystem, for development
+ * and single-server deployments.  Objects live under `rootDir` at their key.
+ * Nothing is publicly served: signed download URLs point at
+ * /api/storage/<key> and carry an expiry and an HMAC signature that the
+ * route verifies before streaming the file.
  */
 
-import { promises as fs } from "fs";
-import { dirname } from "path";
-import { v4 as uuidv4 } from "uuid";
-import type { StorageAdapter } from "./types";
+import { createReadStream, promises as fs } from "fs";
+import { dirname, join, resolve } from "path";
+import { Readable } from "stream";
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { assertValidStorageKey } from "./keys";
+import type { SignedUrlOptions, StorageAdapter, StorageObjectStream, StoredObject } from "./types";
 
 export interface LocalStorageConfig {
-  storagePath: string;
-  baseUrl: string;
+  rootDir: string;
+  signingSecret: string;
+  /** Route that serves signed downloads */
+  downloadBaseUrl?: string;
+  signedUrlTtlSeconds: number;
 }
 
-export function createLocalStorageAdapter(config: LocalStorageConfig): StorageAdapter {
-  return {
-    async upload(file: Buffer, filename: string, contentType: string) {
-      // Extract file extension from original filename
-      const ext = filename.includes(".")
-        ? filename.substring(filename.lastIndexOf("."))
-        : getExtensionFromMimeType(contentType);
+export interface LocalSignedUrlParams {
+  expires: number;
+  signature: string;
+  filename?: string;
+}
+
+export interface LocalStorageAdapter extends StorageAdapter {
+  /** Check a signed download URL's signature and expiry. */
+  verifySignedUrl(key: string, params: LocalSignedUrlParams, now?: Date): boolean;
+}
+
+const DEFAULT_DOWNLOAD_BASE_URL = "/api/storage";
+
+function sign(secret: string, key: string, expires: number, filename?: string): string {
+  return createHmac("sha256", secret)
+    .update(`${key}\n${expires}\n${filename ?? ""}`)
+    .digest("base64url");
+}
 
-      // Generate unique filename: UUID + original extension
-      const uniqueFilename = `${uuidv4()}${ext}`;
-      const storagePath = `${config.storagePath}/${uniqueFilename}`;
+export function createLocalStorageAdapter(config: LocalStorageConfig): LocalStorageAdapter {
+  const root = resolve(config.rootDir);
 
-      // Ensure directory exists
+  function pathFor(key: string): string {
+    assertValidStorageKey(key);
+    return join(root, ...key.split("/"));
+  }
+
+  return {
+    providerName: "local",
+
+    async upload(key: string, body: Buffer, contentType: string): Promise<StoredObject> {
+      const storagePath = pathFor(key);
       await fs.mkdir(dirname(storagePath), { recursive: true });
 
       // Write to temporary file first, then rename for atomicity
       const tempPath = `${storagePath}.tmp`;
-      await fs.writeFile(tempPath, file);
+      await fs.writeFile(tempPath, body);
       await fs.rename(tempPath, storagePath);
 
-      // Return public URL and storage path
-      const publicUrl = `${config.baseUrl}${uniqueFilename}`;
+      return { key, contentType, sizeBytes: body.length };
+    },
+
+    async getStream(key: string): Promise<StorageObjectStream | null> {
+      const storagePath = pathFor(key);
+      let sizeBytes: number;
+      try {
+        sizeBytes = (await fs.stat(storagePath)).size;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return null;
+        }
+        throw error;
+      }
       return {
-        url: publicUrl,
-        path: storagePath,
+        body: Readable.toWeb(createReadStream(storagePath)) as ReadableStream<Uint8Array>,
+        sizeBytes,
       };
     },
 
-    async delete(path: string) {
+    async getSignedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
+      assertValidStorageKey(key);
+      const expires = Math.floor(Date.now() / 1000) + (options.expiresInSeconds ?? config.signedUrlTtlSeconds);
+      const params = new URLSearchParams({
+        expires: String(expires),
+        signature: sign(config.signingSecret, key, expires, options.downloadFilename),
+      });
+      if (options.downloadFilename) {
+        params.set("filename", options.downloadFilename);
+      }
+      const encodedKey = key.split("/").map(encodeURIComponent).join("/");
+      return `${config.downloadBaseUrl ?? DEFAULT_DOWNLOAD_BASE_URL}/${encodedKey}?${params.toString()}`;
+    },
+
+    async delete(key: string): Promise<void> {
       try {
-        await fs.unlink(path);
+        await fs.unlink(pathFor(key));
       } catch (error) {
         // Silently ignore if file doesn't exist
         if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
@@ -54,18 +106,14 @@ export function createLocalStorageAdapter(config: LocalStorageConfig): StorageAd
         }
       }
     },
-  };
-}
 
-/**
- * Map common MIME types to file extensions.
- */
-function getExtensionFromMimeType(contentType: string): string {
-  const mimeToExt: Record<string, string> = {
-    "image/png": ".png",
-    "image/jpeg": ".jpg",
-    "image/jpg": ".jpg",
-    "video/mp4": ".mp4",
+    verifySignedUrl(key: string, params: LocalSignedUrlParams, now: Date = new Date()): boolean {
+      if (!Number.isFinite(params.expires) || params.expires < Math.floor(now.getTime() / 1000)) {
+        return false;
+      }
+      const expected = Buffer.from(sign(config.signingSecret, key, params.expires, params.filename));
+      const actual = Buffer.from(params.signature);
+      return expected.length === actual.length && timingSafeEqual(expected, actual);
+    },
   };
-  return mimeToExt[contentType] || ".bin";
 }
@@ -0,0 +1,207 @@
+/**
+ * KidSchedule – S3-Compatible Storage Adapter
+ *
+ * Stores objects in an S3 bucket or any S3-compatible store (MinIO, R2,
+ * Spaces).  Requests are signed with AWS Signature Version 4 using
+ * node:crypto and sent with fetch, so no SDK is needed.  Downloads use
+ * presigned GET URLs; MinIO and most self-hosted stores need
+ * `forcePathStyle`.
+ */
+
+import { createHash, createHmac } from "node:crypto";
+import { assertValidStorageKey } from "./keys";
+import type { SignedUrlOptions, StorageAdapter, StorageObjectStream, StoredObject } from "./types";
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** e.g. "http://localhost:9000" for MinIO; defaults to AWS */
+  endpoint?: string;
+  /** Address the bucket in the path rather than the hostname */
+  forcePathStyle?: boolean;
+  signedUrlTtlSeconds: number;
+}
+
+/** S3 caps presigned URLs at seven days */
+const MAX_PRESIGN_SECONDS = 7 * 24 * 60 * 60;
+const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD";
+
+// ─── Signature V4 ─────────────────────────────────────────────────────────────
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+/** RFC 3986 encoding, as SigV4 requires */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function amzDate(date: Date): string {
+  return date.toISOString().replace(/[:-]|\.\d{3}/g, "");
+}
+
+function canonicalQuery(params: Record<string, string>): string {
+  return Object.keys(params)
+    .sort()
+    .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(params[name])}`)
+    .join("&");
+}
+
+interface SigningInput {
+  method: string;
+  host: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  payloadHash: string;
+  date: Date;
+}
+
+export function createS3StorageAdapter(config: S3StorageConfig): StorageAdapter {
+  const endpoint = new URL(config.endpoint ?? `https://s3.${config.region}.amazonaws.com`);
+
+  function locate(key: string): { origin: string; host: string; path: string } {
+    assertValidStorageKey(key);
+    const encodedKey = key.split("/").map(encodeRfc3986).join("/");
+    if (config.forcePathStyle) {
+      return { origin: endpoint.origin, host: endpoint.host, path: `/${config.bucket}/${encodedKey}` };
+    }
+    const host = `${config.bucket}.${endpoint.host}`;
+    return { origin: `${endpoint.protocol}//${host}`, host, path: `/${encodedKey}` };
+  }
+
+  function scope(date: Date): string {
+    return `${amzDate(date).slice(0, 8)}/${config.region}/s3/aws4_request`;
+  }
+
+  function signature(input: SigningInput): { signedHeaders: string; signature: string } {
+    const headers: Record<string, string> = { host: input.host };
+    for (const [name, value] of Object.entries(input.headers)) {
+      headers[name.toLowerCase()] = value.trim();
+    }
+    const headerNames = Object.keys(headers).sort();
+    const signedHeaders = headerNames.join(";");
+
+    const canonicalRequest = [
+      input.method,
+      input.path,
+      canonicalQuery(input.query),
+      headerNames.map((name) => `${name}:${headers[name]}\n`).join(""),
+      signedHeaders,
+      input.payloadHash,
+    ].join("\n");
+
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      amzDate(input.date),
+      scope(input.date),
+      sha256Hex(canonicalRequest),
+    ].join("\n");
+
+    const dateKey = hmac(`AWS4${config.secretAccessKey}`, amzDate(input.date).slice(0, 8));
+    const signingKey = hmac(hmac(hmac(dateKey, config.region), "s3"), "aws4_request");
+    return { signedHeaders, signature: createHmac("sha256", signingKey).update(stringToSign).digest("hex") };
+  }
+
+  /** Presigned URL for `method` on `key`, valid for `expiresInSeconds`. */
+  function presign(
+    method: string,
+    key: string,
+    expiresInSeconds: number,
+    extraQuery: Record<string, string> = {}
+  ): string {
+    const { origin, host, path } = locate(key);
+    const date = new Date();
+    const query: Record<string, string> = {
+      ...extraQuery,
+      "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
+      "X-Amz-Credential": `${config.accessKeyId}/${scope(date)}`,
+      "X-Amz-Date": amzDate(date),
+      "X-Amz-Expires": String(Math.min(Math.max(1, Math.floor(expiresInSeconds)), MAX_PRESIGN_SECONDS)),
+      "X-Amz-SignedHeaders": "host",
+    };
+    const signed = signature({ method, host, path, query, headers: {}, payloadHash: UNSIGNED_PAYLOAD, date });
+    return `${origin}${path}?${canonicalQuery({ ...query, "X-Amz-Signature": signed.signature })}`;
+  }
+
+  /** Send a header-signed request for `key`. */
+  async function send(method: string, key: string, body?: Buffer, headers: Record<string, string> = {}): Promise<Response> {
+    const { origin, host, path } = locate(key);
+    const date = new Date();
+    const payloadHash = sha256Hex(body ?? "");
+    const signedInput = {
+      ...headers,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate(date),
+    };
+    const signed = signature({ method, host, path, query: {}, headers: signedInput, payloadHash, date });
+
+    return fetch(`${origin}${path}`, {
+      method,
+      headers: {
+        ...signedInput,
+        authorization:
+          `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope(date)}, ` +
+          `SignedHeaders=${signed.signedHeaders}, Signature=${signed.signature}`,
+      },
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  }
+
+  async function failure(response: Response, action: string, key: string): Promise<Error> {
+    const detail = (await response.text().catch(() => "")).slice(0, 300);
+    return new Error(`S3 ${action} ${key} failed with HTTP ${response.status}${detail ? `: ${detail}` : ""}`);
+  }
+
+  return {
+    providerName: "s3",
+
+    async upload(key: string, body: Buffer, contentType: string): Promise<StoredObject> {
+      const response = await send("PUT", key, body, { "content-type": contentType });
+      if (!response.ok) {
+        throw await failure(response, "upload", key);
+      }
+      return { key, contentType, sizeBytes: body.length };
+    },
+
+    async getStream(key: string): Promise<StorageObjectStream | null> {
+      const response = await fetch(presign("GET", key, 60));
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok || !response.body) {
+        throw await failure(response, "download", key);
+      }
+      const length = Number(response.headers.get("content-length"));
+      return {
+        body: response.body,
+        contentType: response.headers.get("content-type") ?? undefined,
+        sizeBytes: Number.isFinite(length) && length > 0 ? length : undefined,
+      };
+    },
+
+    async getSignedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
+      const extraQuery: Record<string, string> = {};
+      if (options.downloadFilename) {
+        extraQuery["response-content-disposition"] =
+          `attachment; filename="${options.downloadFilename.replace(/["\\\r\n]/g, "_")}"`;
+      }
+      return presign("GET", key, options.expiresInSeconds ?? config.signedUrlTtlSeconds, extraQuery);
+    },
+
+    async delete(key: string): Promise<void> {
+      const response = await send("DELETE", key);
+      // S3 answers 204 whether or not the object existed
+      if (!response.ok && response.status !== 404) {
+        throw await failure(response, "delete", key);
+      }
+    },
+  };
+}
@@ -1,28 +1,58 @@
 /**
  * KidSchedule – Storage Adapter Interface
  *
- * Defines the contract for file storage backends (local, S3, GCS, etc.).
- * Implementations handle uploading, storing, and deleting files with unique
- * identifiers and public URLs.
+ * Defines the contract for file storage backends (local disk, S3-compatible
+ * object stores).  Objects are addressed by a key such as
+ * `vault/<familyId>/<documentId>.pdf`; nothing is served from a public path.
+ * Readers get a short-lived signed download URL, and server-side consumers
+ * (exports) stream objects directly.
  */
 
+export interface StoredObject {
+  /** Storage key the object was written under; persist this, not a URL */
+  key: string;
+  contentType: string;
+  sizeBytes: number;
+}
+
+export interface StorageObjectStream {
+  body: ReadableStream<Uint8Array>;
+  contentType?: string;
+  sizeBytes?: number;
+}
+
+export interface SignedUrlOptions {
+  /** Lifetime of the URL; defaults to SIGNED_URL_TTL_SECONDS */
+  expiresInSeconds?: number;
+  /** When set, the response is served as an attachment with this filename */
+  downloadFilename?: string;
+}
+
 export interface StorageAdapter {
+  readonly providerName: string;
+
+  /**
+   * Store an object, replacing any existing object under the same key.
+   * @param key - Storage key, e.g. `moments/<familyId>/<uuid>.jpg`
+   * @param body - File contents
+   * @param contentType - MIME type (e.g., 'image/jpeg', 'application/pdf')
+   */
+  upload(key: string, body: Buffer, contentType: string): Promise<StoredObject>;
+
+  /**
+   * Stream an object's contents.
+   * @returns null when no object exists under the key
+   */
+  getStream(key: string): Promise<StorageObjectStream | null>;
+
   /**
-   * Upload a file to storage.
-   * @param file - File contents as Buffer
-   * @param filename - Original filename (used for extension extraction)
-   * @param contentType - MIME type (e.g., 'image/jpeg', 'video/mp4')
-   * @returns Promise resolving to {url, path} where url is public-accessible
+   * Short-lived URL a browser can download the object from without further
+   * authentication.
    */
-  upload(file: Buffer, filename: string, contentType: string): Promise<{
-    url: string;
-    path: string;
-  }>;
+  getSignedUrl(key: string, options?: SignedUrlOptions): Promise<string>;
 
   /**
-   * Delete a file from storage.
-   * @param path - Storage path returned from upload()
-   * @returns Promise resolving when file is deleted
+   * Delete an object.  Deleting a missing object is not an error.
    */
-  delete(path: string): Promise<void>;
+  delete(key: string): Promise<void>;
 }
@@ -13,6 +13,12 @@ import { AUTH_PAGE_HEADERS, SECURITY_HEADERS } from "@/lib/security/headers";
 
 const isDevelopment = process.env.NODE_ENV === "development";
 
+/**
+ * Origin of an S3-compatible store serving signed media URLs (e.g.
+ * "https://kidschedule.s3.us-east-1.amazonaws.com"); empty for local storage.
+ */
+const storageMediaOrigin = process.env.STORAGE_MEDIA_ORIGIN ?? "";
+
 // ─── Configuration ────────────────────────────────────────────────────────────
 
 /** Routes that don't require authentication */
@@ -124,7 +130,8 @@ function buildCSP(nonce: string): string {
       "https://www.gstatic.com/recaptcha/",
     ].join(" "),
     "style-src 'self' 'unsafe-inline' https://fonts.googleapis.com",
-    "img-src 'self' data: blob: https://lh3.googleusercontent.com https://*.googleusercontent.com",
+    `img-src 'self' data: blob: https://lh3.googleusercontent.com https://*.googleusercontent.com ${storageMediaOrigin}`.trim(),
+    `media-src 'self' blob: ${storageMediaOrigin}`.trim(),
     "font-src 'self' https://fonts.gstatic.com",
     [
       "connect-src",
@@ -4,6 +4,13 @@ const nextConfig: NextConfig = {
   // Ensure server-only packages are not bundled for client
   serverExternalPackages: ["pdfkit", "fontkit", "pdf-lib", "postgres"],
 
+  // Expense receipts (up to 10MB) are posted through the add-expense server
+  // action and the middleware; leave room for the rest of the form
+  experimental: {
+    serverActions: { bodySizeLimit: "12mb" },
+    proxyClientMaxBodySize: "12mb",
+  },
+
   images: {
     loader: "default",
     formats: ["image/avif", "image/webp"],
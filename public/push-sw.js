@@ -0,0 +1,74 @@
+/**
+ * KidSchedule – Push Service Worker
+ *
+ * Shows handoff reminders sent through Web Push and focuses (or opens) the
+ * app when one is clicked.  Registered by hooks/usePushSubscription.ts.
+ */
+
+self.addEventListener("push", (event) => {
+  let payload = { title: "KidSchedule", body: "" };
+  if (event.data) {
+    try {
+      payload = { ...payload, ...event.data.json() };
+    } catch {
+      payload.body = event.data.text();
+    }
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title, {
+      body: payload.body,
+      tag: payload.tag,
+      icon: "/ks.png",
+      badge: "/ks.png",
+      data: { url: payload.url || "/" },
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/", self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => client.url === url);
+      if (existing) {
+        return existing.focus();
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
+
+// The push service rotated the subscription: register the replacement so
+// reminders keep arriving without the parent revisiting settings.
+self.addEventListener("pushsubscriptionchange", (event) => {
+  const oldEndpoint = event.oldSubscription?.endpoint;
+  const applicationServerKey = event.oldSubscription?.options?.applicationServerKey;
+
+  event.waitUntil(
+    (async () => {
+      const subscription =
+        event.newSubscription ||
+        (applicationServerKey &&
+          (await self.registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey })));
+      if (subscription) {
+        await fetch("/api/notifications/push", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify(subscription.toJSON()),
+        });
+      }
+      if (oldEndpoint) {
+        await fetch("/api/notifications/push", {
+          method: "DELETE",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({ endpoint: oldEndpoint }),
+        });
+      }
+    })()
+  );
+});
@@ -151,6 +151,36 @@ describe("Expense Mapping & Conversion", () => {
       const validation = validateAddExpenseInput(input);
       expect(validation.valid).toBe(false);
     });
+
+    it("should reject a repeat end date before the date incurred", () => {
+      const input = {
+        expenseName: "Daycare",
+        amountText: "900",
+        category: "childcare" as const,
+        dateIncurred: "2024-03-10",
+        splitType: "equal" as const,
+        customYouPercent: null,
+        repeatFrequency: "monthly" as const,
+        repeatUntil: "2024-03-01",
+      };
+
+      expect(validateAddExpenseInput(input).valid).toBe(false);
+      expect(validateAddExpenseInput({ ...input, repeatUntil: "2024-12-10" }).valid).toBe(true);
+    });
+
+    it("should read the repeat schedule from the form", () => {
+      const formData = new FormData();
+      formData.set("expenseName", "Daycare");
+      formData.set("amount", "900");
+      formData.set("dateIncurred", "2024-03-10");
+      formData.set("repeat", "monthly");
+      formData.set("repeatUntil", "2024-12-10");
+
+      expect(parseExpenseFormData(formData)).toMatchObject({ repeatFrequency: "monthly", repeatUntil: "2024-12-10" });
+
+      formData.set("repeat", "");
+      expect(parseExpenseFormData(formData)).toMatchObject({ repeatFrequency: undefined, repeatUntil: undefined });
+    });
   });
 
   describe("DbExpense object construction", () => {
@@ -14,6 +14,7 @@ jest.mock("next/cache", () => ({
 
 jest.mock("@/lib/auth", () => ({
   requireAuth: jest.fn(),
+  audit: { log: jest.fn() },
 }));
 
 jest.mock("@/lib/parent-setup-engine", () => ({
@@ -30,6 +31,9 @@ const mockDb = {
     findByFamilyId: jest.fn(),
     update: jest.fn(),
   },
+  families: {
+    update: jest.fn(),
+  },
   children: {
     create: jest.fn(),
   },
@@ -37,18 +41,36 @@ const mockDb = {
     findPendingByFamilyId: jest.fn(),
     create: jest.fn(),
   },
+  calendarFeedTokens: {
+    revokeActiveByParentId: jest.fn(),
+    create: jest.fn(),
+  },
+  notificationPreferences: {
+    upsert: jest.fn(),
+  },
+  auditLogs: {
+    create: jest.fn(),
+  },
 };
 
 jest.mock("@/lib/persistence", () => ({
   getDb: () => mockDb,
+  runInTransaction: (fn: (txDb: typeof mockDb) => Promise<unknown>) => fn(mockDb),
 }));
 
 import {
   addFamilyMemberAction,
+  revokeCalendarFeedTokenAction,
+  rotateCalendarFeedTokenAction,
+  saveNotificationPreferencesAction,
   saveProfileSettingsAction,
+  saveTimezoneSettingsAction,
 } from "@/app/(auth)/settings/actions";
 
-const { requireAuth } = jest.requireMock("@/lib/auth") as { requireAuth: jest.Mock };
+const { requireAuth, audit } = jest.requireMock("@/lib/auth") as {
+  requireAuth: jest.Mock;
+  audit: { log: jest.Mock };
+};
 const { ensureParentExists } = jest.requireMock("@/lib/parent-setup-engine") as {
   ensureParentExists: jest.Mock;
 };
@@ -146,6 +168,7 @@ describe("settings actions", () => {
     formData.set("inviteName", "Morgan Rivera");
     formData.set("inviteEmail", "coparent@example.com");
     formData.set("invitePhone", "+15554445555");
+    formData.set("inviteCaregiverRole", "step_parent");
 
     const error = await addFamilyMemberAction(formData).catch((e) => e);
     const redirectUrl = captureRedirectUrl(error);
@@ -157,9 +180,156 @@ describe("settings actions", () => {
         email: "coparent@example.com",
         status: "pending",
         role: "secondary",
+        caregiverRole: "step_parent",
       }),
     );
 
     expect(redirectUrl).toContain("memberStatus=success");
   });
+
+  it("rotateCalendarFeedTokenAction revokes the old token, issues a new one and audits both", async () => {
+    mockDb.parents.findByUserId.mockResolvedValue({ id: "parent-1", familyId: "family-1" });
+    mockDb.calendarFeedTokens.revokeActiveByParentId.mockResolvedValue([
+      { id: "token-old", familyId: "family-1", parentId: "parent-1" },
+    ]);
+    mockDb.calendarFeedTokens.create.mockResolvedValue({
+      id: "token-new",
+      familyId: "family-1",
+      parentId: "parent-1",
+    });
+
+    const error = await rotateCalendarFeedTokenAction().catch((e) => e);
+    const redirectUrl = captureRedirectUrl(error);
+
+    expect(mockDb.calendarFeedTokens.revokeActiveByParentId).toHaveBeenCalledWith("parent-1");
+    expect(mockDb.calendarFeedTokens.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        familyId: "family-1",
+        parentId: "parent-1",
+        createdByUserId: "user-1",
+        secret: expect.stringMatching(/^[0-9a-f]{64}$/),
+      }),
+    );
+    expect(mockDb.auditLogs.create.mock.calls.map(([log]) => [log.action, log.metadata.tokenId])).toEqual([
+      ["calendar.feed_token.revoke", "token-old"],
+      ["calendar.feed_token.create", "token-new"],
+    ]);
+    expect(redirectUrl).toContain("feedStatus=success");
+    expect(redirectUrl).toContain("#calendar-feed");
+  });
+
+  it("revokeCalendarFeedTokenAction revokes without issuing a replacement", async () => {
+    mockDb.parents.findByUserId.mockResolvedValue({ id: "parent-1", familyId: "family-1" });
+    mockDb.calendarFeedTokens.revokeActiveByParentId.mockResolvedValue([
+      { id: "token-old", familyId: "family-1", parentId: "parent-1" },
+    ]);
+
+    const error = await revokeCalendarFeedTokenAction().catch((e) => e);
+    const redirectUrl = captureRedirectUrl(error);
+
+    expect(mockDb.calendarFeedTokens.create).not.toHaveBeenCalled();
+    expect(audit.log).toHaveBeenCalledWith(
+      "calendar.feed_token.revoke",
+      { userId: "user-1" },
+      expect.objectContaining({ tokenId: "token-old", reason: "revoked" }),
+    );
+    expect(redirectUrl).toContain("feedStatus=success");
+  });
+
+  it("saveNotificationPreferencesAction stores per-type channels, lead times, activity alerts and quiet hours", async () => {
+    mockDb.parents.findByUserId.mockResolvedValue({ id: "parent-1", familyId: "family-1" });
+
+    const formData = new FormData();
+    formData.set("transition_24h.enabled", "on");
+    formData.append("transition_24h.channels", "email");
+    formData.append("transition_24h.channels", "sms");
+    formData.set("transition_24h.leadMinutes", "2880");
+    formData.append("transition_same_day.channels", "sms");
+    formData.set("transition_same_day.leadMinutes", "120");
+    formData.set("transition_reminder.enabled", "on");
+    formData.append("transition_reminder.channels", "push");
+    formData.set("transition_reminder.leadMinutes", "15");
+    formData.set("change_request.created.enabled", "on");
+    formData.append("change_request.created.channels", "push");
+    formData.append("change_request.created.channels", "email");
+    formData.append("expense.awaiting_reimbursement.channels", "email");
+    formData.set("digestEnabled", "on");
+    formData.set("digestHour", "18");
+    formData.set("quietHoursEnabled", "on");
+    formData.set("quietHoursStart", "22:00");
+    formData.set("quietHoursEnd", "07:00");
+
+    const error = await saveNotificationPreferencesAction(formData).catch((e) => e);
+    const redirectUrl = captureRedirectUrl(error);
+
+    expect(mockDb.notificationPreferences.upsert).toHaveBeenCalledWith({
+      parentId: "parent-1",
+      familyId: "family-1",
+      types: {
+        transition_24h: { enabled: true, channels: ["email", "sms"], leadMinutes: 2880 },
+        transition_same_day: { enabled: false, channels: ["sms"], leadMinutes: 120 },
+        transition_reminder: { enabled: true, channels: ["push"], leadMinutes: 15 },
+      },
+      events: {
+        "change_request.created": { enabled: true, channels: ["push", "email"] },
+        "change_request.countered": { enabled: false, channels: [] },
+        "expense.awaiting_reimbursement": { enabled: false, channels: ["email"] },
+        "message.unread": { enabled: false, channels: [] },
+        "vault.signature_requested": { enabled: false, channels: [] },
+      },
+      quietHoursStart: "22:00",
+      quietHoursEnd: "07:00",
+      digestHour: 18,
+    });
+    expect(redirectUrl).toContain("notificationStatus=success");
+    expect(redirectUrl).toContain("#notifications");
+  });
+
+  it("saveNotificationPreferencesAction rejects an enabled alert without channels", async () => {
+    mockDb.parents.findByUserId.mockResolvedValue({ id: "parent-1", familyId: "family-1" });
+
+    const formData = new FormData();
+    formData.set("transition_24h.enabled", "on");
+    formData.set("transition_24h.leadMinutes", "1440");
+
+    const error = await saveNotificationPreferencesAction(formData).catch((e) => e);
+    const redirectUrl = captureRedirectUrl(error);
+
+    expect(mockDb.notificationPreferences.upsert).not.toHaveBeenCalled();
+    expect(redirectUrl).toContain("notificationStatus=error");
+  });
+
+  it("saveTimezoneSettingsAction stores canonical family and parent timezones", async () => {
+    mockDb.parents.findByUserId.mockResolvedValue({ id: "parent-1", familyId: "family-1" });
+
+    const formData = new FormData();
+    formData.set("familyTimezone", "america/chicago");
+    formData.set("parentTimezone", "Europe/London");
+
+    const error = await saveTimezoneSettingsAction(formData).catch((e) => e);
+    const redirectUrl = captureRedirectUrl(error);
+
+    expect(mockDb.families.update).toHaveBeenCalledWith("family-1", { timezone: "America/Chicago" });
+    expect(mockDb.parents.update).toHaveBeenCalledWith("parent-1", { timezone: "Europe/London" });
+    expect(redirectUrl).toContain("timezoneStatus=success");
+    expect(redirectUrl).toContain("#timezone");
+  });
+
+  it("saveTimezoneSettingsAction clears a blank parent timezone and rejects unknown zones", async () => {
+    mockDb.parents.findByUserId.mockResolvedValue({ id: "parent-1", familyId: "family-1" });
+
+    const followFamily = new FormData();
+    followFamily.set("familyTimezone", "America/New_York");
+    followFamily.set("parentTimezone", "");
+    await saveTimezoneSettingsAction(followFamily).catch((e) => e);
+    expect(mockDb.parents.update).toHaveBeenCalledWith("parent-1", { timezone: null });
+
+    mockDb.families.update.mockClear();
+    const unknown = new FormData();
+    unknown.set("familyTimezone", "America/New_York'; DROP TABLE families; --");
+    const redirectUrl = captureRedirectUrl(await saveTimezoneSettingsAction(unknown).catch((e) => e));
+
+    expect(mockDb.families.update).not.toHaveBeenCalled();
+    expect(redirectUrl).toContain("timezoneStatus=error");
+  });
 });
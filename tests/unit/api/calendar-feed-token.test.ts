@@ -0,0 +1,157 @@
+/**
+ * Calendar Subscription Feed Tests
+ *
+ * Tests for GET /api/calendar/feed?token=
+ * Access requires a signed, unrevoked per-parent token; responses carry an
+ * ETag and honour If-None-Match.
+ *
+ * Uses Jest mocks — no real DB connection required.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+// ─── Setup Mocks ──────────────────────────────────────────────────────────────
+
+const mockCalendarFeedTokens = {
+  findById: jest.fn(),
+  markUsed: jest.fn(),
+};
+
+const mockFamilies = {
+  findById: jest.fn(),
+};
+
+jest.mock("@/lib/persistence", () => ({
+  getDb: jest.fn(() => ({
+    calendarFeedTokens: mockCalendarFeedTokens,
+    families: mockFamilies,
+  })),
+}));
+
+jest.mock("@/lib/calendar/feed-service", () => ({
+  renderFamilyFeed: jest.fn(),
+}));
+
+jest.mock("@/lib/observability/logger", () => ({
+  logEvent: jest.fn(),
+}));
+
+jest.mock("next/server", () => {
+  class MockNextResponse {
+    status: number;
+    body: unknown;
+    headers: { get(name: string): string | null };
+
+    constructor(body: unknown, init?: { status?: number; headers?: Record<string, string> }) {
+      this.status = init?.status ?? 200;
+      this.body = body;
+      const headers = init?.headers ?? {};
+      this.headers = { get: (name: string) => headers[name] ?? null };
+    }
+
+    static json(body: unknown, init?: { status?: number }) {
+      return new MockNextResponse(body, init);
+    }
+  }
+  return { NextResponse: MockNextResponse };
+});
+
+// ─── Imports ──────────────────────────────────────────────────────────────────
+
+import { GET } from "@/app/api/calendar/feed/route";
+import { renderFamilyFeed } from "@/lib/calendar/feed-service";
+import { encodeFeedToken } from "@/lib/calendar/feed-tokens";
+
+const mockRenderFamilyFeed = renderFamilyFeed as jest.Mock;
+
+// ─── Helper Functions ─────────────────────────────────────────────────────────
+
+const storedToken = {
+  id: "7f1c2a9e-4b1d-4c7a-9f51-0d3c2b1a0e9f",
+  familyId: "family-1",
+  parentId: "parent-1",
+  secret: "a".repeat(64),
+  createdByUserId: "user-1",
+  createdAt: "2026-01-01T00:00:00.000Z",
+};
+
+const family = { id: "family-1", name: "Rivera Family", timezone: "America/Chicago" };
+
+function createMockRequest(query: string, headers: Record<string, string> = {}) {
+  return {
+    url: `http://localhost:3000/api/calendar/feed?${query}`,
+    headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+  } as any;
+}
+
+// ─── Test Suites ──────────────────────────────────────────────────────────────
+
+describe("GET /api/calendar/feed", () => {
+  const originalSecret = process.env.CALENDAR_FEED_SECRET;
+
+  beforeAll(() => {
+    process.env.CALENDAR_FEED_SECRET = "test-feed-secret";
+  });
+
+  afterAll(() => {
+    process.env.CALENDAR_FEED_SECRET = originalSecret;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCalendarFeedTokens.findById.mockResolvedValue(storedToken);
+    mockCalendarFeedTokens.markUsed.mockResolvedValue(undefined);
+    mockFamilies.findById.mockResolvedValue(family);
+    mockRenderFamilyFeed.mockResolvedValue("BEGIN:VCALENDAR\r\nEND:VCALENDAR");
+  });
+
+  it("rejects requests without a token, including the old familyId form", async () => {
+    const response: any = await GET(createMockRequest("familyId=family-1"));
+
+    expect(response.status).toBe(404);
+    expect(mockCalendarFeedTokens.findById).not.toHaveBeenCalled();
+  });
+
+  it("rejects a token with a forged signature", async () => {
+    const response: any = await GET(createMockRequest(`token=${storedToken.id}.forged`));
+
+    expect(response.status).toBe(404);
+    expect(mockRenderFamilyFeed).not.toHaveBeenCalled();
+  });
+
+  it("rejects a revoked token", async () => {
+    const token = encodeFeedToken(storedToken);
+    mockCalendarFeedTokens.findById.mockResolvedValue({
+      ...storedToken,
+      revokedAt: "2026-02-01T00:00:00.000Z",
+    });
+
+    const response: any = await GET(createMockRequest(`token=${token}`));
+
+    expect(response.status).toBe(404);
+  });
+
+  it("serves the token's family feed with the requested content and an ETag", async () => {
+    const token = encodeFeedToken(storedToken);
+
+    const response: any = await GET(createMockRequest(`token=${token}&include=custody`));
+
+    expect(response.status).toBe(200);
+    expect(mockFamilies.findById).toHaveBeenCalledWith("family-1");
+    expect(mockRenderFamilyFeed).toHaveBeenCalledWith(family, "custody");
+    expect(response.headers.get("Content-Type")).toBe("text/calendar; charset=utf-8");
+    expect(response.headers.get("ETag")).toMatch(/^".+"$/);
+    expect(mockCalendarFeedTokens.markUsed).toHaveBeenCalledWith(storedToken.id);
+  });
+
+  it("returns 304 when If-None-Match matches the current ETag", async () => {
+    const token = encodeFeedToken(storedToken);
+    const first: any = await GET(createMockRequest(`token=${token}`));
+    const etag = first.headers.get("ETag");
+
+    const second: any = await GET(createMockRequest(`token=${token}`, { "if-none-match": etag }));
+
+    expect(second.status).toBe(304);
+    expect(second.body).toBeNull();
+  });
+});
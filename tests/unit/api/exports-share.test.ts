@@ -49,9 +49,16 @@ jest.mock("@/app/api/calendar/utils", () => {
     notFound: jest.fn((error: string, message: string) =>
       NextResponse.json({ error, message }, { status: 404 })
     ),
+    stepUpRequired: jest.fn(() =>
+      NextResponse.json({ error: "step_up_required", message: "Step-up required" }, { status: 403 })
+    ),
   };
 });
 
+jest.mock("@/lib/auth/mfa-service", () => ({
+  isStepUpSatisfied: jest.fn(),
+}));
+
 jest.mock("@/lib/observability/logger", () => ({
   logEvent: jest.fn(),
 }));
@@ -74,7 +81,9 @@ jest.mock("next/server", () => ({
 import { POST } from "@/app/api/exports/[id]/share/route";
 import { getAuthenticatedUser, unauthorized, notFound } from "@/app/api/calendar/utils";
 import { logEvent } from "@/lib/observability/logger";
+import { isStepUpSatisfied } from "@/lib/auth/mfa-service";
 
+const mockIsStepUpSatisfied = isStepUpSatisfied as jest.Mock;
 const mockGetAuthenticatedUser = getAuthenticatedUser as jest.Mock;
 const mockUnauthorized = unauthorized as jest.Mock;
 const mockNotFound = notFound as jest.Mock;
@@ -85,6 +94,7 @@ const mockLogEvent = logEvent as jest.Mock;
 describe("POST /api/exports/[id]/share", () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockIsStepUpSatisfied.mockResolvedValue(true);
   });
 
   describe("authentication", () => {
@@ -106,6 +116,32 @@ describe("POST /api/exports/[id]/share", () => {
     });
   });
 
+  describe("step-up", () => {
+    it("should return 403 step_up_required when MFA is enabled and not recently verified", async () => {
+      mockGetAuthenticatedUser.mockResolvedValue({
+        userId: "user-123",
+        email: "user@example.com",
+        sessionId: "session-123",
+      });
+      mockIsStepUpSatisfied.mockResolvedValue(false);
+
+      const request = new Request("http://localhost:3000/api/exports/export-1/share", {
+        method: "POST",
+      });
+
+      const response = await POST(request, {
+        params: Promise.resolve({ id: "export-1" }),
+      });
+
+      expect(response.status).toBe(403);
+      expect(mockIsStepUpSatisfied).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: "user-123", sessionId: "session-123" })
+      );
+      expect(mockExportJobs.findById).not.toHaveBeenCalled();
+      expect(mockExportShareTokens.create).not.toHaveBeenCalled();
+    });
+  });
+
   describe("access control", () => {
     it("should return 403 when user does not have access to export", async () => {
       const userId = "user-123";
@@ -0,0 +1,177 @@
+/**
+ * Push Subscription Endpoint Tests
+ *
+ * Tests for GET/POST/DELETE /api/notifications/push
+ * Parents register and remove their own browsers only.
+ *
+ * Uses Jest mocks — no real DB connection required.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+// ─── Setup Mocks ──────────────────────────────────────────────────────────────
+
+const mockPushSubscriptions = {
+  findByParentId: jest.fn(),
+  findByEndpoint: jest.fn(),
+  upsert: jest.fn(),
+  deleteByEndpoint: jest.fn(),
+};
+
+const mockParents = {
+  findByUserId: jest.fn(),
+};
+
+jest.mock("@/lib/persistence", () => ({
+  getDb: jest.fn(() => ({
+    pushSubscriptions: mockPushSubscriptions,
+    parents: mockParents,
+  })),
+}));
+
+jest.mock("@/lib/providers/push", () => ({
+  getPushSender: jest.fn(() => ({ publicKey: "BPublicVapidKey" })),
+}));
+
+jest.mock("@/app/api/calendar/utils", () => {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const NextResponse = require("next/server").NextResponse;
+  return {
+    getAuthenticatedUser: jest.fn(),
+    parseJson: jest.fn(async (request: { json: () => Promise<unknown> }) => ({
+      success: true,
+      data: await request.json(),
+    })),
+    badRequest: jest.fn((error: string, message: string) =>
+      NextResponse.json({ error, message }, { status: 400 })
+    ),
+    unauthorized: jest.fn((error: string, message: string) =>
+      NextResponse.json({ error, message }, { status: 401 })
+    ),
+    forbidden: jest.fn((error: string, message: string) =>
+      NextResponse.json({ error, message }, { status: 403 })
+    ),
+    notFound: jest.fn((error: string, message: string) =>
+      NextResponse.json({ error, message }, { status: 404 })
+    ),
+    internalError: jest.fn((error: string, message: string) =>
+      NextResponse.json({ error, message }, { status: 500 })
+    ),
+    generateRequestId: jest.fn(() => "request-id-123"),
+  };
+});
+
+jest.mock("@/lib/observability/logger", () => ({
+  logEvent: jest.fn(),
+}));
+
+jest.mock("next/server", () => ({
+  NextResponse: {
+    json: jest.fn((body, init) => ({ status: init?.status || 200, body })),
+  },
+}));
+
+// ─── Imports ──────────────────────────────────────────────────────────────────
+
+import { DELETE, GET, POST } from "@/app/api/notifications/push/route";
+import { getAuthenticatedUser } from "@/app/api/calendar/utils";
+
+const mockGetAuthenticatedUser = getAuthenticatedUser as jest.Mock;
+
+// ─── Helper Functions ─────────────────────────────────────────────────────────
+
+const parent = { id: "parent-1", userId: "user-1", familyId: "family-1" };
+const endpoint = "https://fcm.googleapis.com/fcm/send/abc123";
+
+function createMockRequest(body: unknown) {
+  return {
+    json: async () => body,
+    headers: { get: (name: string) => (name === "user-agent" ? "Mozilla/5.0 Test" : null) },
+  } as any;
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("/api/notifications/push", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetAuthenticatedUser.mockResolvedValue({ userId: "user-1", email: "a@example.com", sessionId: "s" });
+    mockParents.findByUserId.mockResolvedValue(parent);
+  });
+
+  it("requires authentication", async () => {
+    mockGetAuthenticatedUser.mockResolvedValue(null);
+
+    const response: any = await POST(createMockRequest({}));
+
+    expect(response.status).toBe(401);
+    expect(mockPushSubscriptions.upsert).not.toHaveBeenCalled();
+  });
+
+  it("returns the VAPID public key and the parent's subscriptions", async () => {
+    mockPushSubscriptions.findByParentId.mockResolvedValue([
+      { id: "sub-1", parentId: parent.id, endpoint, p256dh: "k", auth: "a", createdAt: "2025-01-01T00:00:00.000Z" },
+    ]);
+
+    const response: any = await GET();
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      publicKey: "BPublicVapidKey",
+      subscriptions: [{ endpoint, userAgent: null, lastUsedAt: null, createdAt: "2025-01-01T00:00:00.000Z" }],
+    });
+    expect(mockPushSubscriptions.findByParentId).toHaveBeenCalledWith(parent.id);
+  });
+
+  it("registers a browser subscription for the current parent", async () => {
+    mockPushSubscriptions.upsert.mockImplementation(async (sub) => ({
+      id: "sub-1",
+      ...sub,
+      createdAt: "2025-01-01T00:00:00.000Z",
+      updatedAt: "2025-01-01T00:00:00.000Z",
+    }));
+
+    const response: any = await POST(
+      createMockRequest({ endpoint, expirationTime: null, keys: { p256dh: "BNcRd-key_1", auth: "tBHI-auth" } })
+    );
+
+    expect(response.status).toBe(201);
+    expect(mockPushSubscriptions.upsert).toHaveBeenCalledWith({
+      parentId: parent.id,
+      endpoint,
+      p256dh: "BNcRd-key_1",
+      auth: "tBHI-auth",
+      userAgent: "Mozilla/5.0 Test",
+    });
+  });
+
+  it.each([
+    ["a non-https endpoint", { endpoint: "http://push.example.com/x", keys: { p256dh: "k", auth: "a" } }],
+    ["missing keys", { endpoint }],
+    ["malformed keys", { endpoint, keys: { p256dh: "not base64!", auth: "a" } }],
+  ])("rejects %s", async (_label, body) => {
+    const response: any = await POST(createMockRequest(body));
+
+    expect(response.status).toBe(400);
+    expect(mockPushSubscriptions.upsert).not.toHaveBeenCalled();
+  });
+
+  it("removes the parent's own subscription", async () => {
+    mockPushSubscriptions.findByEndpoint.mockResolvedValue({ id: "sub-1", parentId: parent.id, endpoint });
+    mockPushSubscriptions.deleteByEndpoint.mockResolvedValue(true);
+
+    const response: any = await DELETE(createMockRequest({ endpoint }));
+
+    expect(response.status).toBe(200);
+    expect(mockPushSubscriptions.deleteByEndpoint).toHaveBeenCalledWith(endpoint);
+  });
+
+  it("does not remove another parent's subscription", async () => {
+    mockPushSubscriptions.findByEndpoint.mockResolvedValue({ id: "sub-2", parentId: "parent-2", endpoint });
+
+    const response: any = await DELETE(createMockRequest({ endpoint }));
+
+    expect(response.status).toBe(404);
+    expect(mockPushSubscriptions.deleteByEndpoint).not.toHaveBeenCalled();
+  });
+});
@@ -42,6 +42,12 @@ describe('GET /api/families/[familyId]/calendar.ics', () => {
     mockUserBelongsToFamily.mockResolvedValue(false);
     mockDb.families = { findById: jest.fn() } as any;
     mockDb.calendarEvents = { findByFamilyId: jest.fn() } as any;
+    mockDb.parents = { findByFamilyId: jest.fn().mockResolvedValue([]) } as any;
+    mockDb.custodySchedules = { findActiveByFamilyId: jest.fn().mockResolvedValue(null) } as any;
+    mockDb.custodyScheduleVersions = { findApprovedByFamilyId: jest.fn().mockResolvedValue([]) } as any;
+    mockDb.children = { findByFamilyId: jest.fn().mockResolvedValue([]) } as any;
+    mockDb.scheduleOverrides = { findActiveByFamilyId: jest.fn().mockResolvedValue([]) } as any;
+    mockDb.calendarEventExceptions = { findByFamilyId: jest.fn().mockResolvedValue([]) } as any;
     mockGenerateICalFeed.mockReturnValue('');
   });
 
@@ -248,4 +254,102 @@ describe('GET /api/families/[familyId]/calendar.ics', () => {
     expect(response).toBeDefined();
     expect(response.status).toBe(403);
   });
+
+  describe('include filter', () => {
+    const mockFamily = {
+      id: 'family-1',
+      name: 'Smith Family',
+      timezone: 'America/New_York',
+      custodyAnchorDate: '2026-01-02',
+      scheduleId: 'alternating-weeks',
+    };
+    const mockParents = [
+      { id: 'parent-1', name: 'Alex Smith', email: 'alex@example.com', role: 'primary' },
+      { id: 'parent-2', name: 'Sam Smith', email: 'sam@example.com', role: 'secondary' },
+    ];
+    const mockEvents = [
+      {
+        id: 'event-1',
+        familyId: 'family-1',
+        title: 'Soccer Practice',
+        startAt: '2026-03-10T14:00:00Z',
+        endAt: '2026-03-10T15:30:00Z',
+        allDay: false,
+        category: 'activity',
+      },
+    ];
+
+    const requestWithInclude = (include?: string) =>
+      ({
+        nextUrl: new URL(
+          `http://localhost/api/families/family-1/calendar.ics${include ? `?include=${include}` : ''}`
+        ),
+      }) as any;
+
+    beforeEach(() => {
+      mockGetAuthenticatedUser.mockResolvedValue({
+        userId: 'user-1',
+        email: 'user@example.com',
+        sessionId: 'session-123',
+      });
+      mockUserBelongsToFamily.mockResolvedValue(true);
+      mockDb.families = { findById: jest.fn().mockResolvedValue(mockFamily) } as any;
+      mockDb.calendarEvents = { findByFamilyId: jest.fn().mockResolvedValue(mockEvents) } as any;
+      mockDb.parents = { findByFamilyId: jest.fn().mockResolvedValue(mockParents) } as any;
+    });
+
+    const feedEvents = (): any[] => mockGenerateICalFeed.mock.calls[0][0] as any[];
+
+    it('includes custody periods, handoffs and activities by default', async () => {
+      const response = await GET(requestWithInclude(), { params: { familyId: 'family-1' } } as any);
+
+      expect(response.status).toBe(200);
+      const events = feedEvents();
+      expect(events.some((e) => e.uid?.startsWith('custody-'))).toBe(true);
+      expect(events.some((e) => e.uid?.startsWith('handoff-'))).toBe(true);
+      expect(events.some((e) => e.id === 'event-1')).toBe(true);
+      expect(mockDb.scheduleOverrides.findActiveByFamilyId).toHaveBeenCalledWith('family-1');
+    });
+
+    it('serves only custody events when include=custody', async () => {
+      await GET(requestWithInclude('custody'), { params: { familyId: 'family-1' } } as any);
+
+      const events = feedEvents();
+      expect(events.length).toBeGreaterThan(0);
+      expect(events.every((e) => e.category === 'custody')).toBe(true);
+      expect(mockDb.calendarEvents.findByFamilyId).not.toHaveBeenCalled();
+    });
+
+    it('serves only calendar events when include=activities', async () => {
+      await GET(requestWithInclude('activities'), { params: { familyId: 'family-1' } } as any);
+
+      expect(feedEvents().map((e) => e.id)).toEqual(['event-1']);
+      expect(mockDb.parents.findByFamilyId).not.toHaveBeenCalled();
+      expect(mockDb.scheduleOverrides.findActiveByFamilyId).not.toHaveBeenCalled();
+    });
+
+    it('returns 304 when If-None-Match matches the feed ETag', async () => {
+      mockGenerateICalFeed.mockReturnValue('BEGIN:VCALENDAR\r\nEND:VCALENDAR');
+      const first = await GET(requestWithInclude(), { params: { familyId: 'family-1' } } as any);
+      const etag = first.headers.get('ETag');
+
+      const second = await GET(
+        { ...requestWithInclude(), headers: { get: () => etag } } as any,
+        { params: { familyId: 'family-1' } } as any
+      );
+
+      expect(etag).toBeTruthy();
+      expect(second.status).toBe(304);
+    });
+
+    it('emits the same custody UIDs on every refresh', async () => {
+      await GET(requestWithInclude('custody'), { params: { familyId: 'family-1' } } as any);
+      await GET(requestWithInclude('custody'), { params: { familyId: 'family-1' } } as any);
+
+      const [first, second] = mockGenerateICalFeed.mock.calls.map((call) =>
+        (call[0] as any[]).map((e) => e.uid)
+      );
+      expect(second).toEqual(first);
+    });
+  });
 });
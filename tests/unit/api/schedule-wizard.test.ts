@@ -0,0 +1,174 @@
+/**
+ * Schedule Wizard Commit Tests
+ *
+ * Tests for POST /api/calendar/schedule-wizard with commit=true.  A family's
+ * first schedule is saved and activated directly; once it has one, the
+ * wizard proposes a schedule version for the other parent to approve and
+ * leaves the schedule in force and its calendar untouched.
+ *
+ * Uses Jest mocks — no real DB connection required.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+// ─── Setup Mocks ──────────────────────────────────────────────────────────────
+
+const mockDb = {
+  children: { findByFamilyId: jest.fn() },
+  parents: { findByFamilyId: jest.fn() },
+  families: { findById: jest.fn() },
+  custodySchedules: { findActiveByFamilyId: jest.fn(), create: jest.fn(), setActive: jest.fn() },
+  calendarEvents: { findByFamilyIdAndDateRange: jest.fn(), create: jest.fn() },
+  auditLogs: { create: jest.fn() },
+  beginTransaction: jest.fn(),
+  commit: jest.fn(),
+  rollback: jest.fn(),
+};
+
+jest.mock("@/lib/persistence", () => ({
+  db: mockDb,
+  checkConnection: jest.fn(async () => true),
+}));
+
+jest.mock("@/app/api/calendar/utils", () => ({
+  ...jest.requireActual("@/app/api/calendar/utils"),
+  getAuthenticatedUser: jest.fn(async () => ({ userId: "user-alex", email: "alex@example.com", sessionId: "s-1" })),
+  userBelongsToFamily: jest.fn(async () => true),
+}));
+
+jest.mock("@/lib/schedule-versions", () => ({
+  proposeScheduleVersion: jest.fn(),
+}));
+
+jest.mock("@/lib/rate-limit/calendar-limits", () => ({
+  checkCalendarRateLimit: jest.fn(() => ({ allowed: true })),
+}));
+
+jest.mock("@/lib/observability/logger", () => ({
+  logEvent: jest.fn(),
+}));
+
+jest.mock("@/lib/observability/api-observability", () => ({
+  observeApiRequest: jest.fn(),
+}));
+
+jest.mock("next/server", () => {
+  class MockNextResponse {
+    status: number;
+    body: unknown;
+
+    constructor(body: unknown, init?: { status?: number }) {
+      this.status = init?.status ?? 200;
+      this.body = body;
+    }
+
+    static json(body: unknown, init?: { status?: number }) {
+      return new MockNextResponse(body, init);
+    }
+  }
+  return { NextResponse: MockNextResponse };
+});
+
+// ─── Imports ──────────────────────────────────────────────────────────────────
+
+import { POST } from "@/app/api/calendar/schedule-wizard/route";
+import { proposeScheduleVersion } from "@/lib/schedule-versions";
+
+const mockProposeScheduleVersion = proposeScheduleVersion as jest.Mock;
+
+// ─── Helper Functions ─────────────────────────────────────────────────────────
+
+const family = { id: "family-1", name: "Rivera Family", timezone: "America/New_York" };
+
+const parents = [
+  { id: "parent-alex", userId: "user-alex", familyId: "family-1", role: "primary", caregiverRole: "parent" },
+  { id: "parent-sam", userId: "user-sam", familyId: "family-1", role: "secondary", caregiverRole: "parent" },
+];
+
+/** Two weeks from today, so the start date is never in the past */
+const startDate = new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+function createCommitRequest() {
+  return {
+    headers: { get: () => null },
+    json: async () => ({
+      familyId: "family-1",
+      pattern: "alternating-weeks",
+      startWith: "A",
+      label: "Alternating weeks from the new school term",
+      commit: true,
+      idempotencyKey: "key-1",
+      options: { startDate, exchangeTime: "17:00", timeZone: "America/New_York", months: 1 },
+    }),
+  } as unknown as Request;
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("POST /api/calendar/schedule-wizard (commit)", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.children.findByFamilyId.mockResolvedValue([{ id: "child-1", firstName: "Mia", dateOfBirth: "2018-05-01" }]);
+    mockDb.parents.findByFamilyId.mockResolvedValue(parents);
+    mockDb.families.findById.mockResolvedValue(family);
+    mockDb.calendarEvents.findByFamilyIdAndDateRange.mockResolvedValue([]);
+    mockDb.custodySchedules.create.mockResolvedValue({ id: "schedule-1" });
+  });
+
+  it("saves and activates the family's first schedule", async () => {
+    mockDb.custodySchedules.findActiveByFamilyId.mockResolvedValue(null);
+
+    const response = (await POST(createCommitRequest())) as any;
+
+    expect(response.status).toBe(201);
+    expect(mockDb.custodySchedules.setActive).toHaveBeenCalledWith("family-1", "schedule-1");
+    expect(mockProposeScheduleVersion).not.toHaveBeenCalled();
+  });
+
+  it("proposes a version from the start date once the family has a schedule", async () => {
+    mockDb.custodySchedules.findActiveByFamilyId.mockResolvedValue({ id: "schedule-0", familyId: "family-1" });
+    mockProposeScheduleVersion.mockResolvedValue({
+      success: true,
+      version: { id: "version-1", effectiveDate: startDate, createdAt: "2026-01-01T00:00:00.000Z" },
+    });
+
+    const response = (await POST(createCommitRequest())) as any;
+
+    expect(response.status).toBe(202);
+    expect(response.body).toMatchObject({ versionId: "version-1", status: "pending", effectiveDate: startDate });
+    expect(mockProposeScheduleVersion).toHaveBeenCalledWith({
+      family,
+      proposedBy: "parent-alex",
+      proposal: expect.objectContaining({
+        anchorDate: startDate,
+        effectiveDate: startDate,
+        transitionHour: 17,
+        blocks: [
+          { parentId: "parent-alex", days: 7 },
+          { parentId: "parent-sam", days: 7 },
+        ],
+        reason: "Alternating weeks from the new school term",
+      }),
+    });
+    expect(mockDb.custodySchedules.create).not.toHaveBeenCalled();
+    expect(mockDb.custodySchedules.setActive).not.toHaveBeenCalled();
+    expect(mockDb.calendarEvents.create).not.toHaveBeenCalled();
+  });
+
+  it("reports a proposal the schedule versions refuse", async () => {
+    mockDb.custodySchedules.findActiveByFamilyId.mockResolvedValue({ id: "schedule-0", familyId: "family-1" });
+    mockProposeScheduleVersion.mockResolvedValue({
+      success: false,
+      error: "A schedule change is already waiting for an answer",
+    });
+
+    const response = (await POST(createCommitRequest())) as any;
+
+    expect(response.status).toBe(400);
+    expect(response.body).toMatchObject({
+      error: "invalid_schedule_change",
+      message: "A schedule change is already waiting for an answer",
+    });
+    expect(mockDb.custodySchedules.setActive).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Calendar Feed Token Tests
+ *
+ * Verifies token signing/verification, revocation and the ETag helpers used
+ * by the calendar subscription feed.
+ */
+
+import {
+  buildFeedPath,
+  computeFeedEtag,
+  encodeFeedToken,
+  etagMatches,
+  generateFeedTokenSecret,
+  parseFeedToken,
+  verifyFeedToken,
+} from "@/lib/calendar/feed-tokens";
+import type { DbCalendarFeedToken } from "@/lib/persistence/types";
+
+const token: DbCalendarFeedToken = {
+  id: "7f1c2a9e-4b1d-4c7a-9f51-0d3c2b1a0e9f",
+  familyId: "family-1",
+  parentId: "parent-1",
+  secret: generateFeedTokenSecret(),
+  createdByUserId: "user-1",
+  createdAt: "2026-01-01T00:00:00.000Z",
+};
+
+describe("calendar feed tokens", () => {
+  const originalSecret = process.env.CALENDAR_FEED_SECRET;
+
+  beforeAll(() => {
+    process.env.CALENDAR_FEED_SECRET = "test-feed-secret";
+  });
+
+  afterAll(() => {
+    process.env.CALENDAR_FEED_SECRET = originalSecret;
+  });
+
+  it("round-trips an encoded token", () => {
+    const parsed = parseFeedToken(encodeFeedToken(token));
+
+    expect(parsed?.tokenId).toBe(token.id);
+    expect(verifyFeedToken(token, parsed!.signature)).toBe(true);
+  });
+
+  it("rejects a signature made for another parent or secret", () => {
+    const { signature } = parseFeedToken(encodeFeedToken(token))!;
+
+    expect(verifyFeedToken({ ...token, parentId: "parent-2" }, signature)).toBe(false);
+    expect(verifyFeedToken({ ...token, secret: generateFeedTokenSecret() }, signature)).toBe(false);
+  });
+
+  it("rejects a signature made with another server secret", () => {
+    const signature = parseFeedToken(encodeFeedToken(token))!.signature;
+    process.env.CALENDAR_FEED_SECRET = "rotated-server-secret";
+
+    try {
+      expect(verifyFeedToken(token, signature)).toBe(false);
+    } finally {
+      process.env.CALENDAR_FEED_SECRET = "test-feed-secret";
+    }
+  });
+
+  it("rejects revoked tokens", () => {
+    const { signature } = parseFeedToken(encodeFeedToken(token))!;
+
+    expect(verifyFeedToken({ ...token, revokedAt: "2026-02-01T00:00:00.000Z" }, signature)).toBe(false);
+  });
+
+  it("ignores malformed tokens", () => {
+    expect(parseFeedToken(null)).toBeNull();
+    expect(parseFeedToken("family-1")).toBeNull();
+    expect(parseFeedToken("not-a-uuid.signature")).toBeNull();
+    expect(parseFeedToken(`${token.id}.sig.extra`)).toBeNull();
+  });
+
+  it("builds feed paths with an optional include filter", () => {
+    expect(buildFeedPath("abc.def")).toBe("/api/calendar/feed?token=abc.def");
+    expect(buildFeedPath("abc.def", "custody")).toBe("/api/calendar/feed?token=abc.def&include=custody");
+  });
+});
+
+describe("feed ETags", () => {
+  it("ignores DTSTAMP so unchanged feeds keep their ETag", () => {
+    const first = "BEGIN:VEVENT\r\nDTSTAMP:20260101T000000Z\r\nSUMMARY:Soccer\r\nEND:VEVENT";
+    const second = "BEGIN:VEVENT\r\nDTSTAMP:20260102T120000Z\r\nSUMMARY:Soccer\r\nEND:VEVENT";
+    const changed = "BEGIN:VEVENT\r\nDTSTAMP:20260102T120000Z\r\nSUMMARY:Piano\r\nEND:VEVENT";
+
+    expect(computeFeedEtag(first)).toBe(computeFeedEtag(second));
+    expect(computeFeedEtag(first)).not.toBe(computeFeedEtag(changed));
+  });
+
+  it("matches If-None-Match lists, weak validators and wildcards", () => {
+    const etag = computeFeedEtag("BEGIN:VCALENDAR");
+
+    expect(etagMatches(etag, etag)).toBe(true);
+    expect(etagMatches(`"other", W/${etag}`, etag)).toBe(true);
+    expect(etagMatches("*", etag)).toBe(true);
+    expect(etagMatches('"other"', etag)).toBe(false);
+    expect(etagMatches(null, etag)).toBe(false);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Change Request Service Tests
+ *
+ * Verifies that approving a change request materializes its giving-up and
+ * make-up periods as swap overrides in one transaction, that conflicting
+ * overrides block approval, and that reversing an approval cancels them.
+ */
+
+import {
+  _test_resetDbInstance,
+  createMemoryUnitOfWork,
+  initDb,
+  type DbParent,
+  type DbScheduleChangeRequest,
+  type MemoryUnitOfWork,
+} from "@/lib/persistence";
+import { approveChangeRequest, reverseChangeRequestApproval } from "@/lib/calendar/change-request-service";
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+function seedParents(uow: MemoryUnitOfWork): void {
+  const parents = uow.store.table<DbParent>("parents");
+  for (const [id, name] of [
+    ["parent-alex", "Alex"],
+    ["parent-sam", "Sam"],
+  ]) {
+    parents.insert({
+      id,
+      userId: `user-${id}`,
+      familyId: "fam-1",
+      name,
+      email: `${name.toLowerCase()}@example.com`,
+      role: id === "parent-alex" ? "primary" : "secondary",
+      createdAt: "2025-01-01T00:00:00.000Z",
+    });
+  }
+}
+
+function createRequest(uow: MemoryUnitOfWork): Promise<DbScheduleChangeRequest> {
+  return uow.scheduleChangeRequests.create({
+    familyId: "fam-1",
+    requestedBy: "parent-alex",
+    title: "Swap first March weekend",
+    givingUpPeriodStart: "2025-03-07T17:00:00.000Z",
+    givingUpPeriodEnd: "2025-03-09T17:00:00.000Z",
+    requestedMakeUpStart: "2025-03-14T17:00:00.000Z",
+    requestedMakeUpEnd: "2025-03-16T17:00:00.000Z",
+    status: "pending",
+    changeType: "swap",
+  });
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("change request service", () => {
+  let uow: MemoryUnitOfWork;
+
+  beforeEach(async () => {
+    uow = createMemoryUnitOfWork();
+    await initDb(uow);
+    seedParents(uow);
+  });
+
+  afterEach(() => {
+    _test_resetDbInstance();
+  });
+
+  it("creates swap overrides for the giving-up and make-up periods on approval", async () => {
+    const request = await createRequest(uow);
+
+    const result = await approveChangeRequest(request, "parent-sam", "Works for me");
+
+    expect(result.success).toBe(true);
+    expect((await uow.scheduleChangeRequests.findById(request.id))?.status).toBe("accepted");
+    const overrides = await uow.scheduleOverrides.findActiveByFamilyId("fam-1");
+    expect(
+      overrides
+        .map((o) => [o.overrideType, o.sourceRequestId, o.custodianParentId, o.effectiveStart])
+        .sort((a, b) => String(a[3]).localeCompare(String(b[3])))
+    ).toEqual([
+      ["swap", request.id, "parent-sam", "2025-03-07T17:00:00.000Z"],
+      ["swap", request.id, "parent-alex", "2025-03-14T17:00:00.000Z"],
+    ]);
+  });
+
+  it("refuses approval when the swap overlaps another active swap", async () => {
+    await uow.scheduleOverrides.create({
+      familyId: "fam-1",
+      type: "swap",
+      overrideType: "swap",
+      title: "Earlier swap",
+      effectiveStart: "2025-03-08T00:00:00.000Z",
+      effectiveEnd: "2025-03-08T12:00:00.000Z",
+      custodianParentId: "parent-alex",
+      priority: 15,
+      status: "active",
+      createdBy: "parent-sam",
+    });
+    const request = await createRequest(uow);
+
+    const result = await approveChangeRequest(request, "parent-sam");
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.conflicts).toHaveLength(1);
+    expect((await uow.scheduleChangeRequests.findById(request.id))?.status).toBe("pending");
+    expect(await uow.scheduleOverrides.findActiveByFamilyId("fam-1")).toHaveLength(1);
+  });
+
+  it("does not treat holiday exceptions as conflicts", async () => {
+    await uow.scheduleOverrides.create({
+      familyId: "fam-1",
+      type: "holiday",
+      overrideType: "holiday",
+      title: "Holiday Exception",
+      effectiveStart: "2025-03-08T00:00:00.000Z",
+      effectiveEnd: "2025-03-08T23:59:59.999Z",
+      custodianParentId: "parent-alex",
+      priority: 20,
+      status: "active",
+      createdBy: "parent-alex",
+    });
+    const request = await createRequest(uow);
+
+    expect((await approveChangeRequest(request, "parent-sam")).success).toBe(true);
+  });
+
+  it("cancels the overrides when the approval is reversed", async () => {
+    const request = await createRequest(uow);
+    await approveChangeRequest(request, "parent-sam");
+    const accepted = (await uow.scheduleChangeRequests.findById(request.id)) as DbScheduleChangeRequest;
+
+    const result = await reverseChangeRequestApproval(accepted, "parent-alex", "Plans changed");
+
+    expect(result).toMatchObject({ success: true, cancelledOverrides: 2 });
+    expect((await uow.scheduleChangeRequests.findById(request.id))?.status).toBe("cancelled");
+    expect(await uow.scheduleOverrides.findActiveByFamilyId("fam-1")).toEqual([]);
+  });
+
+  it("only reverses approved requests", async () => {
+    const request = await createRequest(uow);
+
+    expect(await reverseChangeRequestApproval(request, "parent-alex")).toEqual({
+      success: false,
+      error: "Request is not approved",
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Per-Child Custody Tests
+ *
+ * Verifies that families can rotate custody between more than two
+ * caregivers, that a child with their own schedule (and anchor date) is
+ * tracked separately from siblings on the family schedule, and that the
+ * month view reports where each child is.
+ */
+
+import { CalendarMonthEngine } from "@/lib/calendar-engine";
+import { CustodyEngine, SchedulePresets, getChildCustodyAt, getMonthChildCustodyMap } from "@/lib/custody";
+import type { Child, Parent } from "@/lib";
+import { alex, buildFamily, sam, type FamilyOverrides } from "./fixtures/custody-family";
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+const rosa: Parent = { id: "parent-rosa", name: "Rosa", email: "rosa@example.com", role: "grandparent" };
+
+const mia: Child = { id: "child-mia", firstName: "Mia", lastName: "Rivera", dateOfBirth: "2015-04-02" };
+const leo: Child = { id: "child-leo", firstName: "Leo", lastName: "Rivera", dateOfBirth: "2018-09-14" };
+
+/** Alex, Sam and Grandma Rosa take a week each from Monday 2025-03-03 */
+const threeWay: FamilyOverrides = {
+  parents: [alex, sam, rosa],
+  children: [mia, leo],
+  custodyAnchorDate: "2025-03-03",
+  timezone: "UTC",
+  schedule: {
+    id: "three-way",
+    name: "Three-way weeks",
+    blocks: [
+      { parentId: alex.id, days: 7 },
+      { parentId: sam.id, days: 7 },
+      { parentId: rosa.id, days: 7 },
+    ],
+  },
+};
+
+/** Mia alternates weeks between Sam and Alex, starting the week after the family schedule */
+const miaSchedule = {
+  id: "mia-weeks",
+  name: "Mia's weeks",
+  transitionHour: 17,
+  anchorDate: "2025-03-10",
+  blocks: SchedulePresets.alternatingWeeks(sam.id, alex.id),
+};
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("custody with more than two caregivers", () => {
+  it("rotates through every caregiver in the schedule", () => {
+    const engine = new CustodyEngine(buildFamily(threeWay));
+
+    expect(engine.getStatus(new Date("2025-03-05T12:00:00Z")).currentParent.id).toBe(alex.id);
+    expect(engine.getStatus(new Date("2025-03-12T12:00:00Z")).currentParent.id).toBe(sam.id);
+    expect(engine.getStatus(new Date("2025-03-19T12:00:00Z")).currentParent.id).toBe(rosa.id);
+    expect(engine.getStatus(new Date("2025-03-26T12:00:00Z")).currentParent.id).toBe(alex.id);
+  });
+});
+
+describe("per-child schedules", () => {
+  it("follows the child's own schedule from its own anchor date", () => {
+    const family = buildFamily({ ...threeWay, childSchedules: { [mia.id]: miaSchedule } });
+    const engine = CustodyEngine.forChild(family, mia.id);
+
+    expect(engine.getStatus(new Date("2025-03-12T12:00:00Z")).currentParent.id).toBe(sam.id);
+    expect(engine.getStatus(new Date("2025-03-19T12:00:00Z")).currentParent.id).toBe(alex.id);
+    // Leo has no schedule of his own
+    expect(CustodyEngine.forChild(family, leo.id).getStatus(new Date("2025-03-19T12:00:00Z")).currentParent.id).toBe(
+      rosa.id
+    );
+  });
+
+  it("reports where each child is at a moment", () => {
+    const family = buildFamily({ ...threeWay, childSchedules: { [mia.id]: miaSchedule } });
+
+    const custody = getChildCustodyAt(family, new Date("2025-03-19T12:00:00Z"));
+
+    expect(custody.map((c) => [c.child.id, c.parent.id])).toEqual([
+      [mia.id, alex.id],
+      [leo.id, rosa.id],
+    ]);
+  });
+
+  it("maps every day of the month to each child's caregiver", () => {
+    const family = buildFamily({ ...threeWay, childSchedules: { [mia.id]: miaSchedule } });
+
+    const map = getMonthChildCustodyMap(family, 2025, 3);
+
+    expect(map.size).toBe(31);
+    expect(map.get("2025-03-12")?.map((c) => c.parent.id)).toEqual([sam.id, sam.id]);
+    expect(map.get("2025-03-19")?.map((c) => c.parent.id)).toEqual([alex.id, rosa.id]);
+  });
+});
+
+describe("CalendarMonthEngine with per-child schedules", () => {
+  it("colors extra caregivers' days and lists where each child is", () => {
+    const family = buildFamily({ ...threeWay, childSchedules: { [mia.id]: miaSchedule } });
+
+    const data = new CalendarMonthEngine(family).getMonthData(2025, 3, [], [], new Date("2025-03-01T12:00:00Z"));
+    const day = data.days.find((d) => d.dateStr === "2025-03-19")!;
+
+    expect(data.caregivers.map((p) => p.id)).toEqual([alex.id, sam.id, rosa.id]);
+    expect(day.custodyColor).toBe("tertiary");
+    expect(day.childCustody?.map((c) => [c.child.firstName, c.parent.name])).toEqual([
+      ["Mia", "Alex"],
+      ["Leo", "Rosa"],
+    ]);
+  });
+
+  it("omits per-child custody when every child follows the family schedule", () => {
+    const data = new CalendarMonthEngine(buildFamily(threeWay)).getMonthData(2025, 3, [], [], new Date("2025-03-01T12:00:00Z"));
+
+    expect(data.days.every((d) => d.childCustody === undefined)).toBe(true);
+  });
+});
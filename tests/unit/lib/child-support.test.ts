@@ -0,0 +1,165 @@
+/**
+ * Child Support Tests
+ *
+ * Verifies the support statement (payments applied to the oldest
+ * installment, grace periods, arrears and credit) and obligation and
+ * payment validation against the in-memory database.
+ */
+
+import {
+  _test_resetDbInstance,
+  createMemoryUnitOfWork,
+  initDb,
+  type DbParent,
+  type DbSupportObligation,
+  type DbSupportPayment,
+  type MemoryUnitOfWork,
+} from "@/lib/persistence";
+import {
+  buildSupportStatement,
+  createSupportObligation,
+  loadSupportStatements,
+  recordSupportPayment,
+} from "@/lib/child-support";
+
+const ALEX = "parent-alex";
+const SAM = "parent-sam";
+
+const OBLIGATION: DbSupportObligation = {
+  id: "obl-1",
+  familyId: "fam-1",
+  payerParentId: SAM,
+  payeeParentId: ALEX,
+  amountCents: 40000,
+  currency: "USD",
+  frequency: "monthly",
+  startDate: "2025-01-01",
+  graceDays: 5,
+  createdBy: ALEX,
+  createdAt: "2025-01-01T00:00:00.000Z",
+  updatedAt: "2025-01-01T00:00:00.000Z",
+};
+
+function payment(amountCents: number, receivedOn: string): DbSupportPayment {
+  return {
+    id: `pay-${receivedOn}-${amountCents}`,
+    obligationId: OBLIGATION.id,
+    familyId: "fam-1",
+    amountCents,
+    receivedOn,
+    recordedBy: ALEX,
+    createdAt: `${receivedOn}T12:00:00.000Z`,
+  };
+}
+
+// ─── Statement ────────────────────────────────────────────────────────────────
+
+describe("support statement", () => {
+  it("applies payments to the oldest installment and flags arrears after the grace period", () => {
+    const statement = buildSupportStatement(
+      OBLIGATION,
+      [payment(40000, "2025-01-03"), payment(20000, "2025-02-04")],
+      "2025-03-03"
+    );
+
+    expect(statement.installments.map((i) => [i.dueDate, i.receivedCents, i.status])).toEqual([
+      ["2025-01-01", 40000, "paid"],
+      ["2025-02-01", 20000, "overdue"],
+      ["2025-03-01", 0, "due"],
+    ]);
+    expect(statement).toMatchObject({
+      expectedCents: 120000,
+      receivedCents: 60000,
+      arrearsCents: 20000,
+      creditCents: 0,
+      inArrears: true,
+      overdueSince: "2025-02-01",
+      nextDueDate: "2025-04-01",
+    });
+  });
+
+  it("carries overpayments forward as credit", () => {
+    const statement = buildSupportStatement(OBLIGATION, [payment(100000, "2025-01-02")], "2025-02-10");
+
+    expect(statement).toMatchObject({ expectedCents: 80000, arrearsCents: 0, creditCents: 20000, inArrears: false });
+  });
+
+  it("ignores payments received after the statement date", () => {
+    const statement = buildSupportStatement(OBLIGATION, [payment(40000, "2025-01-20")], "2025-01-10");
+
+    expect(statement).toMatchObject({ receivedCents: 0, arrearsCents: 40000, overdueSince: "2025-01-01" });
+  });
+});
+
+// ─── Obligations & Payments ───────────────────────────────────────────────────
+
+describe("support obligations", () => {
+  let uow: MemoryUnitOfWork;
+
+  beforeEach(async () => {
+    uow = createMemoryUnitOfWork();
+    await initDb(uow);
+    const parents = uow.store.table<DbParent>("parents");
+    for (const [id, name] of [
+      [ALEX, "Alex"],
+      [SAM, "Sam"],
+    ]) {
+      parents.insert({
+        id,
+        userId: `user-${id}`,
+        familyId: "fam-1",
+        name,
+        email: `${name.toLowerCase()}@example.com`,
+        role: id === ALEX ? "primary" : "secondary",
+        createdAt: "2025-01-01T00:00:00.000Z",
+      });
+    }
+  });
+
+  afterEach(() => {
+    _test_resetDbInstance();
+  });
+
+  const input = {
+    familyId: "fam-1",
+    payerParentId: SAM,
+    payeeParentId: ALEX,
+    amountCents: 40000,
+    currency: "USD",
+    frequency: "monthly" as const,
+    startDate: "2025-01-01",
+    graceDays: 5,
+    createdBy: ALEX,
+  };
+
+  it("validates who pays whom and the schedule", async () => {
+    await expect(createSupportObligation({ ...input, payeeParentId: SAM })).resolves.toMatchObject({ success: false });
+    await expect(createSupportObligation({ ...input, payerParentId: "outsider" })).resolves.toMatchObject({
+      success: false,
+    });
+    await expect(createSupportObligation({ ...input, endDate: "2024-12-01" })).resolves.toMatchObject({ success: false });
+    await expect(createSupportObligation({ ...input, graceDays: 90 })).resolves.toEqual({
+      success: false,
+      error: "Grace period must be 0 to 60 days",
+    });
+  });
+
+  it("records payments from either parent and reports them in the statement", async () => {
+    const created = await createSupportObligation(input);
+    if (!created.success) throw new Error(created.error);
+    const { obligation } = created;
+
+    await expect(
+      recordSupportPayment({ obligation, amountCents: 40000, receivedOn: "2025-01-02", recordedBy: "outsider" })
+    ).resolves.toMatchObject({ success: false });
+    await expect(
+      recordSupportPayment({ obligation, amountCents: 40000, receivedOn: "2025-03-01", recordedBy: SAM, today: "2025-02-01" })
+    ).resolves.toEqual({ success: false, error: "Enter the date the payment was received" });
+    await expect(
+      recordSupportPayment({ obligation, amountCents: 40000, receivedOn: "2025-01-02", recordedBy: SAM, today: "2025-02-01" })
+    ).resolves.toMatchObject({ success: true, payment: { amountCents: 40000, recordedBy: SAM } });
+
+    const [statement] = await loadSupportStatements("fam-1", "2025-02-10");
+    expect(statement).toMatchObject({ expectedCents: 80000, receivedCents: 40000, arrearsCents: 40000, inArrears: true });
+  });
+});
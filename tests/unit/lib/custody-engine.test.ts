@@ -0,0 +1,237 @@
+/**
+ * CustodyEngine Timezone Tests
+ *
+ * Verifies that custody transitions are computed in the family's IANA
+ * timezone, stay at the same local wall-clock hour across DST changes, and
+ * are reported in each parent's own timezone.  All assertions use absolute
+ * UTC instants so they hold regardless of the timezone the tests run in.
+ */
+
+import { CustodyEngine } from "@/lib/custody";
+import type { ScheduleOverride } from "@/lib";
+import { alex, buildFamily, sam } from "./fixtures/custody-family";
+
+function buildOverride(overrides: Partial<ScheduleOverride>): ScheduleOverride {
+  return {
+    id: "override-1",
+    familyId: "family-1",
+    type: "holiday",
+    title: "Grandma's Birthday",
+    effectiveStart: "2024-03-05T14:00:00.000Z",
+    effectiveEnd: "2024-03-06T14:00:00.000Z",
+    custodianParentId: sam.id,
+    priority: 20,
+    status: "active",
+    createdAt: "2024-02-01T00:00:00.000Z",
+    createdBy: alex.id,
+    ...overrides,
+  };
+}
+
+describe("CustodyEngine timezone handling", () => {
+  it("anchors the first block at the transition hour in the family's timezone", () => {
+    const engine = new CustodyEngine(buildFamily());
+
+    const status = engine.getStatus(new Date("2024-03-02T12:00:00Z"));
+
+    expect(status.currentParent.id).toBe(alex.id);
+    expect(status.periodStart.toISOString()).toBe("2024-03-01T22:00:00.000Z"); // 5 PM EST
+    expect(status.periodEnd.toISOString()).toBe("2024-03-08T22:00:00.000Z"); // 5 PM EST
+  });
+
+  it("keeps handoffs at 5 PM local time across the spring DST change", () => {
+    const engine = new CustodyEngine(buildFamily());
+
+    const status = engine.getStatus(new Date("2024-03-12T12:00:00Z"));
+
+    expect(status.currentParent.id).toBe(sam.id);
+    expect(status.periodStart.toISOString()).toBe("2024-03-08T22:00:00.000Z"); // 5 PM EST
+    expect(status.periodEnd.toISOString()).toBe("2024-03-15T21:00:00.000Z"); // 5 PM EDT
+  });
+
+  it("returns upcoming transitions that straddle a DST change", () => {
+    const engine = new CustodyEngine(buildFamily());
+
+    const transitions = engine.getUpcomingTransitions(new Date("2024-03-05T00:00:00Z"), 3);
+
+    expect(transitions.map((t) => t.at.toISOString())).toEqual([
+      "2024-03-08T22:00:00.000Z",
+      "2024-03-15T21:00:00.000Z",
+      "2024-03-22T21:00:00.000Z",
+    ]);
+    expect(transitions[0].fromParent.id).toBe(alex.id);
+    expect(transitions[0].toParent.id).toBe(sam.id);
+  });
+
+  it("returns transitions in range across the autumn DST change", () => {
+    const engine = new CustodyEngine(buildFamily());
+
+    const transitions = engine.getTransitionsInRange(
+      new Date("2024-10-28T00:00:00Z"),
+      new Date("2024-11-10T00:00:00Z")
+    );
+
+    expect(transitions.map((t) => t.at.toISOString())).toEqual([
+      "2024-11-01T21:00:00.000Z", // 5 PM EDT
+      "2024-11-08T22:00:00.000Z", // 5 PM EST
+    ]);
+  });
+
+  it("builds the month custody map from local calendar days", () => {
+    const engine = new CustodyEngine(buildFamily({ timezone: "Pacific/Auckland" }));
+
+    const march = engine.getMonthCustodyMap(2024, 3);
+
+    expect(march.size).toBe(31);
+    // The handoff is at 5 PM, so noon on the anchor day is still the prior block.
+    expect(march.get("2024-03-01")?.id).toBe(sam.id);
+    expect(march.get("2024-03-02")?.id).toBe(alex.id);
+    expect(march.get("2024-03-08")?.id).toBe(alex.id);
+    expect(march.get("2024-03-09")?.id).toBe(sam.id);
+    expect(march.get("2024-03-16")?.id).toBe(alex.id);
+  });
+
+  it("reports each transition in each parent's own timezone", () => {
+    const engine = new CustodyEngine(buildFamily({ parents: [alex, { ...sam, timezone: "America/Los_Angeles" }] }));
+
+    const [transition] = engine.getUpcomingTransitions(new Date("2024-03-12T12:00:00Z"), 1);
+
+    expect(transition.localTimes).toEqual({
+      [alex.id]: "2024-03-15T17:00:00-04:00",
+      [sam.id]: "2024-03-15T14:00:00-07:00",
+    });
+  });
+
+  it("stops listing transitions at a block whose parent is not in the family", () => {
+    const engine = new CustodyEngine(
+      buildFamily({
+        schedule: {
+          id: "stale",
+          name: "Stale",
+          transitionHour: 17,
+          blocks: [
+            { parentId: alex.id, days: 7 },
+            { parentId: sam.id, days: 7 },
+            { parentId: "parent-removed", days: 7 },
+          ],
+        },
+      })
+    );
+
+    const transitions = engine.getTransitionsInRange(
+      new Date("2024-03-02T00:00:00Z"),
+      new Date("2024-04-01T00:00:00Z")
+    );
+
+    expect(transitions.map((t) => t.at.toISOString())).toEqual(["2024-03-08T22:00:00.000Z"]);
+    expect(engine.getUpcomingTransitions(new Date("2024-03-02T00:00:00Z"))).toHaveLength(1);
+  });
+
+  it("rejects an unknown timezone", () => {
+    expect(() => new CustodyEngine(buildFamily({ timezone: "Mars/Olympus_Mons" }))).toThrow(
+      /invalid timezone/
+    );
+  });
+});
+
+describe("CustodyEngine override resolution", () => {
+  it("hands custody to the override's parent for the override period", () => {
+    const engine = new CustodyEngine(buildFamily(), [buildOverride({})]);
+
+    const status = engine.getStatus(new Date("2024-03-05T20:00:00Z"));
+
+    expect(status.currentParent.id).toBe(sam.id);
+    expect(status.override?.id).toBe("override-1");
+    expect(status.periodStart.toISOString()).toBe("2024-03-05T14:00:00.000Z");
+    expect(status.periodEnd.toISOString()).toBe("2024-03-06T14:00:00.000Z");
+  });
+
+  it("resumes the base rotation when the override ends", () => {
+    const engine = new CustodyEngine(buildFamily(), [buildOverride({})]);
+
+    const status = engine.getStatus(new Date("2024-03-07T12:00:00Z"));
+
+    expect(status.currentParent.id).toBe(alex.id);
+    expect(status.override).toBeUndefined();
+    expect(status.periodStart.toISOString()).toBe("2024-03-06T14:00:00.000Z");
+    expect(status.periodEnd.toISOString()).toBe("2024-03-08T22:00:00.000Z");
+  });
+
+  it("includes override boundaries in upcoming transitions", () => {
+    const engine = new CustodyEngine(buildFamily(), [buildOverride({})]);
+
+    const transitions = engine.getUpcomingTransitions(new Date("2024-03-04T00:00:00Z"), 3);
+
+    expect(
+      transitions.map((t) => [t.at.toISOString(), t.fromParent.id, t.toParent.id])
+    ).toEqual([
+      ["2024-03-05T14:00:00.000Z", alex.id, sam.id],
+      ["2024-03-06T14:00:00.000Z", sam.id, alex.id],
+      ["2024-03-08T22:00:00.000Z", alex.id, sam.id],
+    ]);
+  });
+
+  it("drops base transitions that an override hides", () => {
+    const engine = new CustodyEngine(buildFamily(), [
+      buildOverride({
+        effectiveStart: "2024-03-08T00:00:00.000Z",
+        effectiveEnd: "2024-03-09T00:00:00.000Z",
+      }),
+    ]);
+
+    const transitions = engine.getTransitionsInRange(
+      new Date("2024-03-07T00:00:00Z"),
+      new Date("2024-03-16T00:00:00Z")
+    );
+
+    expect(transitions.map((t) => t.at.toISOString())).toEqual([
+      "2024-03-08T00:00:00.000Z",
+      "2024-03-15T21:00:00.000Z",
+    ]);
+  });
+
+  it("lets the higher-priority override win where two overlap", () => {
+    const engine = new CustodyEngine(buildFamily(), [
+      buildOverride({
+        id: "swap",
+        type: "swap",
+        priority: 15,
+        effectiveStart: "2024-03-04T00:00:00.000Z",
+        effectiveEnd: "2024-03-07T00:00:00.000Z",
+      }),
+      buildOverride({
+        id: "mediation",
+        type: "mediation",
+        priority: 30,
+        custodianParentId: alex.id,
+        effectiveStart: "2024-03-05T00:00:00.000Z",
+        effectiveEnd: "2024-03-06T00:00:00.000Z",
+      }),
+    ]);
+
+    expect(engine.getStatus(new Date("2024-03-04T12:00:00Z")).override?.id).toBe("swap");
+
+    const status = engine.getStatus(new Date("2024-03-05T12:00:00Z"));
+    expect(status.currentParent.id).toBe(alex.id);
+    expect(status.override?.id).toBe("mediation");
+  });
+
+  it("ignores overrides that are not active", () => {
+    const engine = new CustodyEngine(buildFamily(), [buildOverride({ status: "cancelled" })]);
+
+    const status = engine.getStatus(new Date("2024-03-05T20:00:00Z"));
+
+    expect(status.currentParent.id).toBe(alex.id);
+    expect(status.override).toBeUndefined();
+  });
+
+  it("applies overrides to the month custody map", () => {
+    const engine = new CustodyEngine(buildFamily(), [buildOverride({})]);
+
+    const march = engine.getMonthCustodyMap(2024, 3);
+
+    expect(march.get("2024-03-04")?.id).toBe(alex.id);
+    expect(march.get("2024-03-05")?.id).toBe(sam.id);
+    expect(march.get("2024-03-06")?.id).toBe(alex.id);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Custody Feed Tests
+ *
+ * Verifies that custody periods and handoffs are generated from the schedule
+ * plus active overrides, that UIDs stay stable as the feed window moves, and
+ * that feed families are assembled from the stored schedule or the preset.
+ */
+
+import {
+  buildCustodyFeedEvents,
+  buildFeedFamily,
+  parseFeedContent,
+} from "@/lib/custody-feed";
+import { SchedulePresets } from "@/lib/custody";
+import type { Family, Parent, ScheduleOverride } from "@/lib";
+import type { DbCustodySchedule, DbFamily, DbParent } from "@/lib/persistence/types";
+
+const alex: Parent = { id: "parent-a", name: "Alex Rivera", email: "alex@example.com" };
+const sam: Parent = { id: "parent-b", name: "Sam Rivera", email: "sam@example.com" };
+
+const family: Family = {
+  id: "family-1",
+  parents: [alex, sam],
+  children: [],
+  custodyAnchorDate: "2024-03-01",
+  timezone: "America/New_York",
+  schedule: {
+    id: "alternating-weeks",
+    name: "Alternating Weeks",
+    transitionHour: 17,
+    blocks: SchedulePresets.alternatingWeeks(alex.id, sam.id),
+  },
+};
+
+const override: ScheduleOverride = {
+  id: "override-1",
+  familyId: "family-1",
+  type: "holiday",
+  title: "Grandma's Birthday",
+  effectiveStart: "2024-03-05T14:00:00.000Z",
+  effectiveEnd: "2024-03-06T14:00:00.000Z",
+  custodianParentId: sam.id,
+  priority: 20,
+  status: "active",
+  createdAt: "2024-02-01T00:00:00.000Z",
+  createdBy: alex.id,
+};
+
+const range = {
+  start: new Date("2024-03-04T00:00:00Z"),
+  end: new Date("2024-03-16T00:00:00Z"),
+};
+
+describe("parseFeedContent", () => {
+  it("accepts custody and activities and defaults to all", () => {
+    expect(parseFeedContent("custody")).toBe("custody");
+    expect(parseFeedContent("activities")).toBe("activities");
+    expect(parseFeedContent(null)).toBe("all");
+    expect(parseFeedContent("everything")).toBe("all");
+  });
+});
+
+describe("buildCustodyFeedEvents", () => {
+  it("emits one transparent event per custody period, keeping its real start", () => {
+    const events = buildCustodyFeedEvents(family, [], range);
+    const periods = events.filter((e) => e.uid?.startsWith("custody-"));
+
+    expect(periods.map((e) => [e.startDate.toISOString(), e.endDate.toISOString(), e.title])).toEqual([
+      ["2024-03-01T22:00:00.000Z", "2024-03-08T22:00:00.000Z", "With Alex"],
+      ["2024-03-08T22:00:00.000Z", "2024-03-15T21:00:00.000Z", "With Sam"],
+      ["2024-03-15T21:00:00.000Z", "2024-03-22T21:00:00.000Z", "With Alex"],
+    ]);
+    expect(periods.every((e) => e.transparent && e.category === "custody")).toBe(true);
+  });
+
+  it("emits a handoff event at each transition", () => {
+    const events = buildCustodyFeedEvents(family, [], range);
+    const handoffs = events.filter((e) => e.uid?.startsWith("handoff-"));
+
+    expect(handoffs.map((e) => [e.startDate.toISOString(), e.title])).toEqual([
+      ["2024-03-08T22:00:00.000Z", "Handoff: Alex → Sam"],
+      ["2024-03-15T21:00:00.000Z", "Handoff: Sam → Alex"],
+    ]);
+  });
+
+  it("splits periods around an active override and names it", () => {
+    const events = buildCustodyFeedEvents(family, [override], range);
+    const periods = events.filter((e) => e.uid?.startsWith("custody-"));
+
+    expect(periods.slice(0, 3).map((e) => [e.startDate.toISOString(), e.title])).toEqual([
+      ["2024-03-01T22:00:00.000Z", "With Alex"],
+      ["2024-03-05T14:00:00.000Z", "Sam – Grandma's Birthday"],
+      ["2024-03-06T14:00:00.000Z", "With Alex"],
+    ]);
+  });
+
+  it("keeps UIDs stable when the feed window moves", () => {
+    const first = buildCustodyFeedEvents(family, [], range);
+    const later = buildCustodyFeedEvents(family, [], {
+      start: new Date("2024-03-05T00:00:00Z"),
+      end: new Date("2024-03-17T00:00:00Z"),
+    });
+
+    expect(later.map((e) => e.uid)).toEqual(first.map((e) => e.uid));
+    expect(first[0].uid).toBe(
+      `custody-${Date.parse("2024-03-01T22:00:00.000Z")}-parent-a@family-1.kidschedule.app`
+    );
+  });
+});
+
+describe("buildFeedFamily", () => {
+  const dbFamily = {
+    id: "family-1",
+    name: "Rivera Family",
+    custodyAnchorDate: "2024-03-01",
+    scheduleId: "3-4-4-3",
+    timezone: "America/Chicago",
+  } as DbFamily;
+  const dbParents = [
+    { id: "parent-b", name: "Sam Rivera", email: "sam@example.com", role: "secondary" },
+    { id: "parent-a", name: "Alex Rivera", email: "alex@example.com", role: "primary" },
+  ] as DbParent[];
+
+  it("returns null until the family has two parents", () => {
+    expect(buildFeedFamily(dbFamily, dbParents.slice(0, 1), null)).toBeNull();
+  });
+
+  it("falls back to the family's preset with the primary parent first", () => {
+    const result = buildFeedFamily(dbFamily, dbParents, null);
+
+    expect(result?.parents.map((p) => p.id)).toEqual(["parent-a", "parent-b"]);
+    expect(result?.timezone).toBe("America/Chicago");
+    expect(result?.schedule.blocks).toEqual(SchedulePresets.threeFourFourThree("parent-a", "parent-b"));
+  });
+
+  it("prefers the active custody schedule when its blocks parse", () => {
+    const blocks = SchedulePresets.twoTwoThree("parent-a", "parent-b");
+    const dbSchedule = {
+      id: "schedule-1",
+      familyId: "family-1",
+      name: "Custom",
+      transitionHour: 9,
+      blocks: JSON.stringify(blocks),
+      isActive: true,
+    } as DbCustodySchedule;
+
+    const result = buildFeedFamily(dbFamily, dbParents, dbSchedule);
+
+    expect(result?.schedule).toMatchObject({ id: "schedule-1", transitionHour: 9, blocks });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Exchange Rate Tests
+ *
+ * Verifies reading rate tables, picking a cross rate for an expense date,
+ * the conversion snapshot taken for foreign-currency expenses (manual rate
+ * or rates file) and locking the family base currency once expenses exist.
+ */
+
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  _test_resetDbInstance,
+  createMemoryUnitOfWork,
+  initDb,
+  type MemoryUnitOfWork,
+} from "@/lib/persistence";
+import {
+  _test_resetRatesCache,
+  findRate,
+  parseRatesFile,
+  setFamilyBaseCurrency,
+  snapshotExchangeRate,
+  type RateTable,
+} from "@/lib/exchange-rates";
+
+const TABLES: RateTable[] = [
+  { date: "2025-03-03", base: "EUR", rates: { USD: 1.08, GBP: 0.84 } },
+  { date: "2025-03-10", base: "EUR", rates: { USD: 1.09, GBP: 0.83 } },
+];
+
+// ─── Rates File ───────────────────────────────────────────────────────────────
+
+describe("parseRatesFile", () => {
+  it("keeps well-formed tables, oldest first", () => {
+    const tables = parseRatesFile([
+      TABLES[1],
+      { date: "2025-03-04", base: "EUR", rates: { USD: -1 } },
+      { date: "March 5", base: "EUR", rates: { USD: 1.08 } },
+      TABLES[0],
+    ]);
+
+    expect(tables.map((table) => table.date)).toEqual(["2025-03-03", "2025-03-10"]);
+    expect(parseRatesFile(TABLES[0])).toEqual([TABLES[0]]);
+  });
+});
+
+describe("findRate", () => {
+  it("uses the latest table on or before the date, crossing through its base", () => {
+    expect(findRate(TABLES, "EUR", "USD", "2025-03-09")).toEqual({ rate: 1.08, date: "2025-03-03" });
+    expect(findRate(TABLES, "USD", "EUR", "2025-03-10")).toEqual({ rate: 0.9174311927, date: "2025-03-10" });
+    expect(findRate(TABLES, "GBP", "USD", "2025-03-12")).toEqual({ rate: 1.3132530120, date: "2025-03-10" });
+  });
+
+  it("finds nothing before the first table, after a week or for unquoted currencies", () => {
+    expect(findRate(TABLES, "EUR", "USD", "2025-03-01")).toBeNull();
+    expect(findRate(TABLES, "EUR", "USD", "2025-03-18")).toBeNull();
+    expect(findRate(TABLES, "EUR", "JPY", "2025-03-10")).toBeNull();
+  });
+});
+
+// ─── Snapshots ────────────────────────────────────────────────────────────────
+
+describe("snapshotExchangeRate", () => {
+  let ratesDir: string;
+  const env = { ...process.env };
+
+  beforeEach(async () => {
+    ratesDir = await fs.mkdtemp(join(tmpdir(), "kidschedule-rates-"));
+    const ratesFile = join(ratesDir, "rates.json");
+    await fs.writeFile(ratesFile, JSON.stringify(TABLES));
+    process.env.EXCHANGE_RATES_FILE = ratesFile;
+    _test_resetRatesCache();
+  });
+
+  afterEach(async () => {
+    process.env = { ...env };
+    _test_resetRatesCache();
+    await fs.rm(ratesDir, { recursive: true, force: true });
+  });
+
+  const input = { amountCents: 12345, currency: "EUR", baseCurrency: "USD", date: "2025-03-12" };
+
+  it("takes nothing for expenses already in the base currency", async () => {
+    expect(await snapshotExchangeRate({ ...input, currency: "USD" })).toEqual({ success: true, snapshot: null });
+  });
+
+  it("prefers the rate the parent entered", async () => {
+    expect(await snapshotExchangeRate({ ...input, manualRate: 1.1 })).toEqual({
+      success: true,
+      snapshot: {
+        baseCurrency: "USD",
+        baseAmount: 13580,
+        exchangeRate: 1.1,
+        exchangeRateSource: "manual",
+        exchangeRateDate: "2025-03-12",
+      },
+    });
+  });
+
+  it("falls back to the rates file, recording the table's date", async () => {
+    expect(await snapshotExchangeRate(input)).toEqual({
+      success: true,
+      snapshot: {
+        baseCurrency: "USD",
+        baseAmount: 13456,
+        exchangeRate: 1.09,
+        exchangeRateSource: "rates_file",
+        exchangeRateDate: "2025-03-10",
+      },
+    });
+  });
+
+  it("asks for a rate when the rates file has none", async () => {
+    delete process.env.EXCHANGE_RATES_FILE;
+
+    expect(await snapshotExchangeRate(input)).toEqual({
+      success: false,
+      error: "No EUR to USD rate is available for 2025-03-12. Enter the exchange rate you paid at.",
+    });
+  });
+});
+
+// ─── Base Currency ────────────────────────────────────────────────────────────
+
+describe("setFamilyBaseCurrency", () => {
+  let uow: MemoryUnitOfWork;
+  let familyId: string;
+
+  beforeEach(async () => {
+    uow = createMemoryUnitOfWork();
+    await initDb(uow);
+    const family = await uow.families.create({
+      name: "Rivera-Chen",
+      custodyAnchorDate: "2025-01-01",
+      scheduleId: "alt-weeks",
+      timezone: "America/New_York",
+    });
+    familyId = family.id;
+  });
+
+  afterEach(() => {
+    _test_resetDbInstance();
+  });
+
+  it("changes the currency until the first expense is logged", async () => {
+    expect(await setFamilyBaseCurrency(familyId, "XYZ")).toEqual({ success: false, error: "Choose a supported currency" });
+
+    const changed = await setFamilyBaseCurrency(familyId, "EUR");
+    expect(changed.success && changed.family.baseCurrency).toBe("EUR");
+
+    await uow.expenses.create({
+      familyId,
+      title: "School trip",
+      category: "education",
+      totalAmount: 5000,
+      currency: "EUR",
+      splitMethod: "50-50",
+      paidBy: "parent-alex",
+      paymentStatus: "unpaid",
+      date: "2025-03-14",
+    });
+
+    expect(await setFamilyBaseCurrency(familyId, "GBP")).toEqual({
+      success: false,
+      error: "The base currency cannot change once expenses have been logged",
+    });
+    expect((await uow.families.findById(familyId))?.baseCurrency).toBe("EUR");
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Expense Dispute Tests
+ *
+ * Verifies proposal validation and the dispute lifecycle against the
+ * in-memory database: opening puts the expense on hold, proposals replace
+ * each other, accepting applies the adjustment and withdrawing restores the
+ * expense, and the history reads back for reports.
+ */
+
+import {
+  _test_resetDbInstance,
+  createMemoryUnitOfWork,
+  initDb,
+  type DbExpense,
+  type DbParent,
+  type MemoryUnitOfWork,
+} from "@/lib/persistence";
+import {
+  formatDisputeLines,
+  loadDisputeHistory,
+  openExpenseDispute,
+  parseAdjustment,
+  postDisputeMessage,
+  respondToDisputeProposal,
+  validateAdjustment,
+  withdrawExpenseDispute,
+} from "@/lib/expense-disputes";
+import { recordExpensePayment } from "@/lib/expense-ledger";
+
+const ALEX = "parent-alex";
+const SAM = "parent-sam";
+const PARENTS = [ALEX, SAM];
+
+// ─── Adjustments ──────────────────────────────────────────────────────────────
+
+describe("expense dispute adjustments", () => {
+  it("reads proposals from request bodies and ignores bodies without one", () => {
+    expect(parseAdjustment({ message: "hi" })).toBeNull();
+    expect(parseAdjustment({ totalAmount: "8000", splitMethod: "custom", splitRatio: { [ALEX]: "0.7", [SAM]: 0.3 } })).toEqual({
+      totalAmount: 8000,
+      splitMethod: "custom",
+      splitRatio: { [ALEX]: 0.7, [SAM]: 0.3 },
+    });
+  });
+
+  it("rejects custom splits that do not add up or name outsiders", () => {
+    expect(validateAdjustment({ splitMethod: "custom", splitRatio: { [ALEX]: 0.7, [SAM]: 0.3 } }, PARENTS)).toBeNull();
+    expect(validateAdjustment({ splitMethod: "custom", splitRatio: { [ALEX]: 0.7, [SAM]: 0.2 } }, PARENTS)).toBe(
+      "Custom split shares must add up to 100%"
+    );
+    expect(validateAdjustment({ splitMethod: "custom", splitRatio: { [ALEX]: 0.5, other: 0.5 } }, PARENTS)).not.toBeNull();
+    expect(validateAdjustment({ splitMethod: "50-50", splitRatio: { [ALEX]: 1 } }, PARENTS)).not.toBeNull();
+  });
+
+  it("requires whole cents", () => {
+    expect(validateAdjustment({ totalAmount: 12.5 }, PARENTS)).toBe("Amount must be a whole number of cents");
+    expect(validateAdjustment({}, PARENTS)).toBe("Propose a new amount or split");
+  });
+});
+
+// ─── Dispute Lifecycle ────────────────────────────────────────────────────────
+
+describe("expense dispute lifecycle", () => {
+  let uow: MemoryUnitOfWork;
+
+  function seedParents(): void {
+    const parents = uow.store.table<DbParent>("parents");
+    for (const [id, name] of [
+      [ALEX, "Alex"],
+      [SAM, "Sam"],
+    ]) {
+      parents.insert({
+        id,
+        userId: `user-${id}`,
+        familyId: "fam-1",
+        name,
+        email: `${name.toLowerCase()}@example.com`,
+        role: id === ALEX ? "primary" : "secondary",
+        createdAt: "2025-01-01T00:00:00.000Z",
+      });
+    }
+  }
+
+  function createExpense(overrides: Partial<DbExpense> = {}): Promise<DbExpense> {
+    return uow.expenses.create({
+      familyId: "fam-1",
+      title: "Dentist",
+      category: "medical",
+      totalAmount: 10000,
+      currency: "USD",
+      splitMethod: "50-50",
+      paidBy: ALEX,
+      paymentStatus: "unpaid",
+      date: "2025-03-01",
+      ...overrides,
+    });
+  }
+
+  async function openDispute(expense: DbExpense, proposal?: Parameters<typeof openExpenseDispute>[0]["proposal"]) {
+    const result = await openExpenseDispute({ expense, openedBy: SAM, reason: "This was a cosmetic cleaning", proposal });
+    if (!result.success) throw new Error(result.error);
+    return result;
+  }
+
+  beforeEach(async () => {
+    uow = createMemoryUnitOfWork();
+    await initDb(uow);
+    seedParents();
+  });
+
+  afterEach(() => {
+    _test_resetDbInstance();
+  });
+
+  it("opens one dispute per expense and puts the expense on hold", async () => {
+    const dentist = await createExpense();
+
+    const { dispute, message } = await openDispute(dentist, { totalAmount: 6000 });
+
+    expect(dispute).toMatchObject({ status: "open", previousPaymentStatus: "unpaid", originalTotalAmount: 10000 });
+    expect(message).toMatchObject({ body: "This was a cosmetic cleaning", proposalStatus: "pending" });
+    expect((await uow.expenses.findById(dentist.id))?.paymentStatus).toBe("disputed");
+    await expect(
+      openExpenseDispute({ expense: dentist, openedBy: ALEX, reason: "Again" })
+    ).resolves.toEqual({ success: false, error: "This expense already has an open dispute" });
+    await expect(
+      recordExpensePayment({ expense: (await uow.expenses.findById(dentist.id))!, fromParentId: SAM, amountCents: 1000, recordedBy: SAM })
+    ).resolves.toMatchObject({ success: false });
+  });
+
+  it("supersedes a pending proposal when a new one is made", async () => {
+    const dentist = await createExpense();
+    const { dispute, message: first } = await openDispute(dentist, { totalAmount: 6000 });
+
+    const counter = await postDisputeMessage({
+      dispute,
+      senderParentId: ALEX,
+      body: "It was a filling, but I can split it 70/30",
+      proposal: { splitMethod: "custom", splitRatio: { [ALEX]: 0.7, [SAM]: 0.3 } },
+    });
+
+    expect(counter).toMatchObject({ success: true, message: { proposalStatus: "pending" } });
+    const messages = await uow.expenseDisputeMessages.findByDisputeId(dispute.id);
+    expect(messages.find((m) => m.id === first.id)?.proposalStatus).toBe("superseded");
+    await expect(
+      respondToDisputeProposal({ dispute, messageId: first.id, respondedBy: ALEX, decision: "accept" })
+    ).resolves.toEqual({ success: false, error: "Proposal is not waiting for an answer" });
+  });
+
+  it("lets only the other parent answer, and applies an accepted proposal", async () => {
+    const dentist = await createExpense();
+    const { dispute, message } = await openDispute(dentist, { totalAmount: 6000 });
+
+    await expect(
+      respondToDisputeProposal({ dispute, messageId: message.id, respondedBy: SAM, decision: "accept" })
+    ).resolves.toEqual({ success: false, error: "The other parent must answer this proposal" });
+
+    const accepted = await respondToDisputeProposal({ dispute, messageId: message.id, respondedBy: ALEX, decision: "accept" });
+
+    expect(accepted).toMatchObject({ success: true, dispute: { status: "adjusted", resolvedBy: ALEX } });
+    expect(await uow.expenses.findById(dentist.id)).toMatchObject({ totalAmount: 6000, paymentStatus: "unpaid" });
+  });
+
+  it("keeps the dispute open after a rejection", async () => {
+    const dentist = await createExpense();
+    const { dispute, message } = await openDispute(dentist, { totalAmount: 6000 });
+
+    await respondToDisputeProposal({ dispute, messageId: message.id, respondedBy: ALEX, decision: "reject" });
+
+    expect((await uow.expenseDisputes.findById(dispute.id))?.status).toBe("open");
+    expect((await uow.expenses.findById(dentist.id))?.paymentStatus).toBe("disputed");
+  });
+
+  it("restores the ledger status when the opener withdraws", async () => {
+    const dentist = await createExpense();
+    await recordExpensePayment({ expense: dentist, fromParentId: SAM, amountCents: 2000, recordedBy: SAM });
+    const { dispute } = await openDispute((await uow.expenses.findById(dentist.id))!);
+
+    await expect(withdrawExpenseDispute(dispute, ALEX)).resolves.toMatchObject({ success: false });
+    await expect(withdrawExpenseDispute(dispute, SAM)).resolves.toMatchObject({
+      success: true,
+      dispute: { status: "withdrawn" },
+    });
+    expect(await uow.expenses.findById(dentist.id)).toMatchObject({ totalAmount: 10000, paymentStatus: "partially_paid" });
+    await expect(
+      postDisputeMessage({ dispute: (await uow.expenseDisputes.findById(dispute.id))!, senderParentId: ALEX, body: "ok" })
+    ).resolves.toEqual({ success: false, error: "Dispute is closed" });
+  });
+
+  it("reads back the history with the accepted adjustment for reports", async () => {
+    const dentist = await createExpense();
+    const soccer = await createExpense({ title: "Soccer" });
+    const { dispute, message } = await openDispute(dentist, { totalAmount: 6000 });
+    await respondToDisputeProposal({ dispute, messageId: message.id, respondedBy: ALEX, decision: "accept" });
+    await openDispute(soccer);
+
+    const history = await loadDisputeHistory("fam-1", { expenseIds: new Set([dentist.id]) });
+
+    expect(history).toHaveLength(1);
+    expect(history[0]).toMatchObject({ expenseTitle: "Dentist", adjustment: { totalAmount: 6000 } });
+    const names = new Map([
+      [ALEX, "Alex"],
+      [SAM, "Sam"],
+    ]);
+    const lines = formatDisputeLines(history[0], (id) => names.get(id) ?? "Unknown");
+    expect(lines[0]).toContain("disputed by Sam");
+    expect(lines[lines.length - 1]).toContain("Outcome: adjusted (amount $100.00 → $60.00)");
+  });
+});
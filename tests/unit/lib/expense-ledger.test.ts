@@ -0,0 +1,382 @@
+/**
+ * Expense Ledger Tests
+ *
+ * Verifies per-expense obligations and status from recorded payments, the
+ * running balance between two parents, settle-up planning and history, and
+ * the payment / settle-up / reimbursement operations against the in-memory
+ * database.
+ */
+
+import {
+  _test_resetDbInstance,
+  createMemoryUnitOfWork,
+  initDb,
+  type DbExpense,
+  type DbExpensePayment,
+  type DbParent,
+  type MemoryUnitOfWork,
+} from "@/lib/persistence";
+import {
+  buildExpenseLedger,
+  buildPaymentHistory,
+  calculateParentShare,
+  calculateSettlement,
+  cancelReimbursementRequest,
+  ledgerParentIds,
+  planSettleUp,
+  recordExpensePayment,
+  requestReimbursement,
+  settleUp,
+  type LedgerExpense,
+} from "@/lib/expense-ledger";
+
+const ALEX = "parent-alex";
+const SAM = "parent-sam";
+const PARENTS = [ALEX, SAM];
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+function expense(overrides: Partial<LedgerExpense> & { id: string }): LedgerExpense {
+  return {
+    totalAmount: 10000,
+    currency: "USD",
+    splitMethod: "50-50",
+    paidBy: ALEX,
+    paymentStatus: "unpaid",
+    date: "2025-03-01",
+    ...overrides,
+  };
+}
+
+function payment(overrides: Partial<DbExpensePayment> & { expenseId: string; amountCents: number }): DbExpensePayment {
+  return {
+    id: `pay-${Math.random().toString(36).slice(2)}`,
+    familyId: "fam-1",
+    fromParentId: SAM,
+    toParentId: ALEX,
+    currency: "USD",
+    kind: "payment",
+    paidAt: "2025-03-10T12:00:00.000Z",
+    recordedBy: SAM,
+    createdAt: "2025-03-10T12:00:00.000Z",
+    ...overrides,
+  };
+}
+
+// ─── Pure Ledger ──────────────────────────────────────────────────────────────
+
+describe("expense ledger", () => {
+  describe("calculateParentShare", () => {
+    it("splits 50-50, custom ratios and one-parent expenses", () => {
+      expect(calculateParentShare(expense({ id: "e1" }), SAM)).toBe(5000);
+      expect(
+        calculateParentShare(expense({ id: "e2", splitMethod: "custom", splitRatio: { [ALEX]: 0.7, [SAM]: 0.3 } }), SAM)
+      ).toBe(3000);
+      expect(calculateParentShare(expense({ id: "e3", splitMethod: "one-parent" }), SAM)).toBe(0);
+      expect(calculateParentShare(expense({ id: "e3", splitMethod: "one-parent" }), ALEX)).toBe(10000);
+    });
+  });
+
+  describe("buildExpenseLedger", () => {
+    it("tracks partial payments against the co-parent's share", () => {
+      const [line] = buildExpenseLedger([expense({ id: "e1" })], [payment({ expenseId: "e1", amountCents: 2000 })], PARENTS);
+
+      expect(line.obligations).toEqual([
+        { debtorId: SAM, creditorId: ALEX, shareCents: 5000, paidCents: 2000, outstandingCents: 3000 },
+      ]);
+      expect(line.status).toBe("partially_paid");
+    });
+
+    it("is paid once the share is covered and unpaid before any payment", () => {
+      const lines = buildExpenseLedger(
+        [expense({ id: "e1" }), expense({ id: "e2" })],
+        [payment({ expenseId: "e1", amountCents: 5000 })],
+        PARENTS
+      );
+
+      expect(lines.map((l) => l.status)).toEqual(["paid", "unpaid"]);
+    });
+
+    it("ignores payments in the wrong direction", () => {
+      const [line] = buildExpenseLedger(
+        [expense({ id: "e1" })],
+        [payment({ expenseId: "e1", amountCents: 5000, fromParentId: ALEX, toParentId: SAM })],
+        PARENTS
+      );
+
+      expect(line.outstandingCents).toBe(5000);
+    });
+
+    it("treats expenses marked paid without ledger payments as settled", () => {
+      const [line] = buildExpenseLedger([expense({ id: "e1", paymentStatus: "paid" })], [], PARENTS);
+
+      expect(line.outstandingCents).toBe(0);
+      expect(line.status).toBe("paid");
+    });
+
+    it("keeps disputed expenses disputed", () => {
+      const [line] = buildExpenseLedger([expense({ id: "e1", paymentStatus: "disputed" })], [], PARENTS);
+
+      expect(line.status).toBe("disputed");
+    });
+
+    it("charges half of a 50-50 expense to the co-parent only, not to other caregivers", () => {
+      const parentIds = ledgerParentIds([
+        { id: ALEX, caregiverRole: "parent" },
+        { id: "grandma", caregiverRole: "grandparent" },
+        { id: SAM },
+      ]);
+      const lines = buildExpenseLedger(
+        [
+          expense({ id: "e1" }),
+          expense({ id: "e2", splitMethod: "custom", splitRatio: { [ALEX]: 0.5, [SAM]: 0.3, grandma: 0.2 } }),
+        ],
+        [],
+        parentIds
+      );
+
+      expect(parentIds).toEqual([ALEX, SAM, "grandma"]);
+      expect(lines[0].obligations.map((o) => [o.debtorId, o.shareCents])).toEqual([[SAM, 5000]]);
+      expect(lines[1].obligations.map((o) => [o.debtorId, o.shareCents])).toEqual([
+        [SAM, 3000],
+        ["grandma", 2000],
+      ]);
+    });
+  });
+
+  describe("calculateSettlement", () => {
+    it("nets what is still outstanding in each direction", () => {
+      const lines = buildExpenseLedger(
+        [
+          expense({ id: "e1", totalAmount: 10000, paidBy: ALEX }),
+          expense({ id: "e2", totalAmount: 4000, paidBy: SAM }),
+        ],
+        [payment({ expenseId: "e1", amountCents: 1000 })],
+        PARENTS
+      );
+
+      expect(calculateSettlement(lines, ALEX, SAM)).toEqual({ youOweThem: 2000, theyOweYou: 4000, netBalance: 2000 });
+      expect(calculateSettlement(lines, SAM, ALEX).netBalance).toBe(-2000);
+    });
+
+    it("settles expenses paid in another currency at their converted amount", () => {
+      const lines = buildExpenseLedger(
+        [
+          expense({ id: "e1", totalAmount: 10000, paidBy: ALEX }),
+          expense({ id: "e2", totalAmount: 20000, currency: "EUR", baseCurrency: "USD", baseAmount: 21600, paidBy: SAM }),
+        ],
+        [],
+        PARENTS
+      );
+
+      expect(calculateSettlement(lines, ALEX, SAM)).toEqual({ youOweThem: 10800, theyOweYou: 5000, netBalance: -5800 });
+      expect(planSettleUp(lines, ALEX, SAM)).toMatchObject({ amountCents: 5800, currency: "USD" });
+    });
+
+    it("leaves disputed expenses out of the balance", () => {
+      const lines = buildExpenseLedger([expense({ id: "e1", paymentStatus: "disputed" })], [], PARENTS);
+
+      expect(calculateSettlement(lines, ALEX, SAM).netBalance).toBe(0);
+    });
+  });
+
+  describe("planSettleUp", () => {
+    it("clears every obligation oldest first and moves only the net", () => {
+      const lines = buildExpenseLedger(
+        [
+          expense({ id: "e-new", date: "2025-03-20", paidBy: ALEX }),
+          expense({ id: "e-old", date: "2025-03-01", totalAmount: 4000, paidBy: SAM }),
+        ],
+        [],
+        PARENTS
+      );
+
+      const plan = planSettleUp(lines, ALEX, SAM);
+
+      expect(plan).toMatchObject({ fromParentId: SAM, toParentId: ALEX, amountCents: 3000 });
+      expect(plan?.allocations.map((a) => [a.expenseId, a.fromParentId, a.amountCents])).toEqual([
+        ["e-old", ALEX, 2000],
+        ["e-new", SAM, 5000],
+      ]);
+    });
+
+    it("returns null when nothing is outstanding", () => {
+      const lines = buildExpenseLedger([expense({ id: "e1", paymentStatus: "paid" })], [], PARENTS);
+
+      expect(planSettleUp(lines, ALEX, SAM)).toBeNull();
+    });
+  });
+
+  describe("buildPaymentHistory", () => {
+    it("collapses a settle-up into one net entry, newest first", () => {
+      const history = buildPaymentHistory([
+        payment({ id: "p1", expenseId: "e1", amountCents: 1000, paidAt: "2025-03-05T00:00:00.000Z" }),
+        payment({
+          expenseId: "e1",
+          amountCents: 5000,
+          kind: "settle_up",
+          settlementId: "s1",
+          paidAt: "2025-03-12T00:00:00.000Z",
+        }),
+        payment({
+          expenseId: "e2",
+          amountCents: 2000,
+          fromParentId: ALEX,
+          toParentId: SAM,
+          kind: "settle_up",
+          settlementId: "s1",
+          paidAt: "2025-03-12T00:00:00.000Z",
+        }),
+      ]);
+
+      expect(history.map((h) => [h.id, h.kind, h.fromParentId, h.amountCents, h.expenseIds])).toEqual([
+        ["s1", "settle_up", SAM, 3000, ["e1", "e2"]],
+        ["p1", "payment", SAM, 1000, ["e1"]],
+      ]);
+    });
+  });
+});
+
+// ─── Ledger Operations ────────────────────────────────────────────────────────
+
+describe("expense ledger operations", () => {
+  let uow: MemoryUnitOfWork;
+
+  function seedParents(): void {
+    const parents = uow.store.table<DbParent>("parents");
+    for (const [id, name] of [
+      [ALEX, "Alex"],
+      [SAM, "Sam"],
+    ]) {
+      parents.insert({
+        id,
+        userId: `user-${id}`,
+        familyId: "fam-1",
+        name,
+        email: `${name.toLowerCase()}@example.com`,
+        role: id === ALEX ? "primary" : "secondary",
+        createdAt: "2025-01-01T00:00:00.000Z",
+      });
+    }
+  }
+
+  function createExpense(overrides: Partial<DbExpense> = {}): Promise<DbExpense> {
+    return uow.expenses.create({
+      familyId: "fam-1",
+      title: "Dentist",
+      category: "medical",
+      totalAmount: 10000,
+      currency: "USD",
+      splitMethod: "50-50",
+      paidBy: ALEX,
+      paymentStatus: "unpaid",
+      date: "2025-03-01",
+      ...overrides,
+    });
+  }
+
+  beforeEach(async () => {
+    uow = createMemoryUnitOfWork();
+    await initDb(uow);
+    seedParents();
+  });
+
+  afterEach(() => {
+    _test_resetDbInstance();
+  });
+
+  it("records a partial payment and stores the derived status", async () => {
+    const dentist = await createExpense();
+
+    const result = await recordExpensePayment({ expense: dentist, fromParentId: SAM, amountCents: 2000, recordedBy: SAM });
+
+    expect(result.success).toBe(true);
+    expect((await uow.expenses.findById(dentist.id))?.paymentStatus).toBe("partially_paid");
+    expect(await uow.expensePayments.findByExpenseId(dentist.id)).toHaveLength(1);
+  });
+
+  it("refuses payments larger than what is owed or from outsiders", async () => {
+    const dentist = await createExpense();
+
+    await expect(
+      recordExpensePayment({ expense: dentist, fromParentId: SAM, amountCents: 6000, recordedBy: SAM })
+    ).resolves.toEqual({ success: false, error: "Payment is more than what is owed" });
+    await expect(
+      recordExpensePayment({ expense: dentist, fromParentId: SAM, amountCents: 1000, recordedBy: "parent-other" })
+    ).resolves.toMatchObject({ success: false });
+  });
+
+  it("closes the reimbursement request once the share is paid in full", async () => {
+    const dentist = await createExpense();
+    const requested = await requestReimbursement({ expense: dentist, requestedBy: ALEX, requestedFrom: SAM });
+    expect(requested).toMatchObject({ success: true, request: { amountCents: 5000, status: "pending" } });
+
+    await recordExpensePayment({ expense: dentist, fromParentId: SAM, amountCents: 5000, recordedBy: ALEX });
+
+    const [request] = await uow.reimbursementRequests.findByFamilyId("fam-1");
+    expect(request.status).toBe("paid");
+    expect((await uow.expensePayments.findByExpenseId(dentist.id))[0].reimbursementRequestId).toBe(request.id);
+    expect((await uow.expenses.findById(dentist.id))?.paymentStatus).toBe("paid");
+  });
+
+  it("allows one pending request per expense and lets the requester cancel it", async () => {
+    const dentist = await createExpense();
+    const first = await requestReimbursement({ expense: dentist, requestedBy: ALEX, requestedFrom: SAM });
+
+    await expect(requestReimbursement({ expense: dentist, requestedBy: ALEX, requestedFrom: SAM })).resolves.toEqual({
+      success: false,
+      error: "A reimbursement request is already pending",
+    });
+    if (!first.success) throw new Error("request failed");
+    await expect(cancelReimbursementRequest(first.request, SAM)).resolves.toMatchObject({ success: false });
+    await expect(cancelReimbursementRequest(first.request, ALEX)).resolves.toMatchObject({
+      success: true,
+      request: { status: "cancelled" },
+    });
+  });
+
+  it("settles up every outstanding expense between two parents", async () => {
+    const dentist = await createExpense();
+    const soccer = await createExpense({ title: "Soccer", totalAmount: 4000, paidBy: SAM, date: "2025-02-01" });
+
+    const result = await settleUp({ familyId: "fam-1", currentParentId: SAM, otherParentId: ALEX, recordedBy: SAM });
+
+    expect(result).toMatchObject({ success: true, plan: { fromParentId: SAM, toParentId: ALEX, amountCents: 3000 } });
+    expect((await uow.expenses.findById(dentist.id))?.paymentStatus).toBe("paid");
+    expect((await uow.expenses.findById(soccer.id))?.paymentStatus).toBe("paid");
+    await expect(
+      settleUp({ familyId: "fam-1", currentParentId: SAM, otherParentId: ALEX, recordedBy: SAM })
+    ).resolves.toEqual({ success: false, error: "Nothing to settle" });
+  });
+
+  it("charges a 50-50 share to the co-parent, not a grandparent, when paying and settling up", async () => {
+    // Grandma is listed between the two parents
+    const parents = uow.store.table<DbParent>("parents");
+    const sam = parents.find((p) => p.id === SAM);
+    if (!sam) throw new Error("Sam not seeded");
+    parents.delete(SAM);
+    parents.insert({
+      id: "parent-grandma",
+      userId: "user-parent-grandma",
+      familyId: "fam-1",
+      name: "Grandma",
+      email: "grandma@example.com",
+      role: "secondary",
+      caregiverRole: "grandparent",
+      createdAt: "2025-01-01T00:00:00.000Z",
+    });
+    parents.insert(sam);
+    const dentist = await createExpense();
+    const soccer = await createExpense({ title: "Soccer", totalAmount: 4000, date: "2025-02-01" });
+
+    await expect(
+      recordExpensePayment({ expense: dentist, fromParentId: SAM, amountCents: 5000, recordedBy: SAM })
+    ).resolves.toMatchObject({ success: true, line: { obligations: [{ debtorId: SAM, outstandingCents: 0 }] } });
+    expect((await uow.expenses.findById(dentist.id))?.paymentStatus).toBe("paid");
+
+    const result = await settleUp({ familyId: "fam-1", currentParentId: SAM, otherParentId: ALEX, recordedBy: SAM });
+
+    expect(result).toMatchObject({ success: true, plan: { fromParentId: SAM, toParentId: ALEX, amountCents: 2000 } });
+    expect((await uow.expenses.findById(soccer.id))?.paymentStatus).toBe("paid");
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Expense Receipt Tests
+ *
+ * Verifies receipt file validation, reading the total, date and merchant
+ * from receipt text, PDF text extraction from a generated (compressed) PDF
+ * receipt, and attaching receipts to expenses through local storage and the
+ * in-memory database.
+ */
+
+import PDFDocument from "pdfkit";
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { deflateSync } from "zlib";
+import {
+  _test_resetDbInstance,
+  createMemoryUnitOfWork,
+  initDb,
+  type DbExpense,
+  type MemoryUnitOfWork,
+} from "@/lib/persistence";
+import { _test_resetStorageAdapter } from "@/lib/storage";
+import {
+  attachExpenseReceipt,
+  parseReceiptText,
+  readReceiptFile,
+  validateReceiptFile,
+} from "@/lib/expense-receipts";
+import { extractPdfText, MAX_STREAM_BYTES } from "@/lib/pdf-text";
+
+function receiptPdf(lines: string[]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "LETTER", margin: 50 });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+    lines.forEach((line) => doc.font("Helvetica").fontSize(11).text(line));
+    doc.end();
+  });
+}
+
+const PHARMACY_RECEIPT = [
+  "Riverside Pharmacy",
+  "412 Main St, Springfield",
+  "Date: 03/14/2025  10:42 AM",
+  "Amoxicillin 250mg        18.40",
+  "Children's Tylenol         9.99",
+  "Subtotal                  28.39",
+  "Sales Tax                  1.85",
+  "TOTAL                     30.24",
+  "VISA **** 4421            30.24",
+];
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+describe("validateReceiptFile", () => {
+  it("accepts PDF, JPG and PNG receipts up to 10MB", () => {
+    expect(validateReceiptFile({ name: "receipt.pdf", type: "application/pdf", size: 2048 })).toBeNull();
+    expect(validateReceiptFile({ name: "IMG_2041.JPEG", type: "image/jpeg", size: 2048 })).toBeNull();
+    expect(validateReceiptFile({ name: "scan.png", type: "image/png", size: 10 * 1024 * 1024 })).toBeNull();
+  });
+
+  it("rejects other types, mismatched extensions, empty and oversized files", () => {
+    expect(validateReceiptFile({ name: "receipt.gif", type: "image/gif", size: 2048 })).toMatch(/PDF, JPG or PNG/);
+    expect(validateReceiptFile({ name: "receipt.html", type: "application/pdf", size: 2048 })).toMatch(/PDF, JPG or PNG/);
+    expect(validateReceiptFile({ name: "receipt.pdf", type: "application/pdf", size: 0 })).toMatch(/empty/);
+    expect(validateReceiptFile({ name: "receipt.pdf", type: "application/pdf", size: 10 * 1024 * 1024 + 1 })).toMatch(
+      /10MB/
+    );
+  });
+});
+
+// ─── Parsing ──────────────────────────────────────────────────────────────────
+
+describe("parseReceiptText", () => {
+  it("reads the total rather than the subtotal, tax or line items", () => {
+    expect(parseReceiptText(PHARMACY_RECEIPT.join("\n"))).toEqual({
+      merchant: "Riverside Pharmacy",
+      amountCents: 3024,
+      date: "2025-03-14",
+    });
+  });
+
+  it("prefers an amount due over other totals and reads amounts on the next line", () => {
+    const text = [
+      "INVOICE",
+      "Billed by: Little Stars Dance Academy",
+      "Invoice date 5 Sep 2025",
+      "Due date Sep 30, 2025",
+      "Total",
+      "1,240.00",
+      "Amount paid 240.00",
+      "Amount due",
+      "$1,000.00",
+    ].join("\n");
+
+    expect(parseReceiptText(text)).toEqual({
+      merchant: "Little Stars Dance Academy",
+      amountCents: 100000,
+      date: "2025-09-05",
+    });
+  });
+
+  it("falls back to the largest amount and skips impossible dates", () => {
+    expect(parseReceiptText("Corner Shop\n13/45/2025\n2025-02-30\nshoes 45.00\nsocks 6.50")).toEqual({
+      merchant: "Corner Shop",
+      amountCents: 4500,
+    });
+    expect(parseReceiptText("  \n ")).toEqual({});
+  });
+});
+
+describe("extractPdfText", () => {
+  it("reads the lines of a compressed PDF receipt", async () => {
+    const pdf = await receiptPdf(PHARMACY_RECEIPT);
+    const text = extractPdfText(pdf);
+
+    expect(text.split("\n")[0]).toBe("Riverside Pharmacy");
+    expect(text).toContain("TOTAL 30.24");
+    expect(parseReceiptText(text)).toEqual({
+      merchant: "Riverside Pharmacy",
+      amountCents: 3024,
+      date: "2025-03-14",
+    });
+  });
+
+  it("skips streams that inflate past the cap and stops once the file's budget is spent", () => {
+    // Each stream is a few KB compressed and 8MB inflated
+    const bomb = deflateSync(Buffer.alloc(2 * MAX_STREAM_BYTES, "BT ")).toString("latin1");
+    const stream = (id: number, dict: string, data: string) =>
+      `${id} 0 obj\n<< /Length ${data.length}${dict} >>\nstream\n${data}\nendstream\nendobj\n`;
+    const pdf = (bombs: number) =>
+      Buffer.from(
+        [
+          "%PDF-1.4\n",
+          ...Array.from({ length: bombs }, (_, i) => stream(i + 1, " /Filter /FlateDecode", bomb)),
+          stream(bombs + 1, "", "BT (TOTAL 12.00) Tj ET"),
+        ].join(""),
+        "latin1"
+      );
+
+    expect(bomb.length).toBeLessThan(64 * 1024);
+    expect(extractPdfText(pdf(1))).toBe("TOTAL 12.00");
+    expect(extractPdfText(pdf(4))).toBe("");
+  });
+
+  it("returns nothing for files that are not PDFs", () => {
+    expect(extractPdfText(Buffer.from("\x89PNG\r\n\x1a\n"))).toBe("");
+  });
+});
+
+// ─── Attaching ────────────────────────────────────────────────────────────────
+
+describe("attachExpenseReceipt", () => {
+  let uow: MemoryUnitOfWork;
+  let storageDir: string;
+  let expense: DbExpense;
+  const env = { ...process.env };
+
+  beforeEach(async () => {
+    storageDir = await fs.mkdtemp(join(tmpdir(), "kidschedule-receipts-"));
+    process.env.STORAGE_PROVIDER = "local";
+    process.env.STORAGE_LOCAL_PATH = storageDir;
+    process.env.STORAGE_SIGNING_SECRET = "test-secret";
+    _test_resetStorageAdapter();
+
+    uow = createMemoryUnitOfWork();
+    await initDb(uow);
+    expense = await uow.expenses.create({
+      familyId: "fam-1",
+      title: "Antibiotics",
+      category: "medical",
+      totalAmount: 3024,
+      currency: "USD",
+      splitMethod: "50-50",
+      paidBy: "parent-alex",
+      paymentStatus: "unpaid",
+      date: "2025-03-14",
+    });
+  });
+
+  afterEach(async () => {
+    process.env = { ...env };
+    _test_resetStorageAdapter();
+    _test_resetDbInstance();
+    await fs.rm(storageDir, { recursive: true, force: true });
+  });
+
+  it("stores the file, records what it read and links the expense", async () => {
+    const pdf = await receiptPdf(PHARMACY_RECEIPT);
+    const result = await attachExpenseReceipt({
+      expense,
+      body: pdf,
+      fileName: "pharmacy.pdf",
+      contentType: "application/pdf",
+      uploadedBy: "parent-alex",
+    });
+    if (!result.success) throw new Error(result.error);
+
+    expect(result.receipt).toMatchObject({
+      familyId: "fam-1",
+      expenseId: expense.id,
+      contentType: "application/pdf",
+      sizeBytes: pdf.length,
+      extractedMerchant: "Riverside Pharmacy",
+      extractedAmountCents: 3024,
+      extractedDate: "2025-03-14",
+    });
+    expect(result.receipt.storageKey).toMatch(/^receipts\/fam-1\/[\w-]+\.pdf$/);
+    expect((await uow.expenses.findById(expense.id))?.receiptUrl).toBe(result.receipt.storageKey);
+    expect(await readReceiptFile(result.receipt)).toEqual(pdf);
+  });
+
+  it("keeps every receipt, with the expense pointing at the latest", async () => {
+    const upload = (fileName: string) =>
+      attachExpenseReceipt({
+        expense,
+        body: Buffer.from("\x89PNG\r\n\x1a\nimage"),
+        fileName,
+        contentType: "image/png",
+        uploadedBy: "parent-alex",
+      });
+    await upload("front.png");
+    const second = await upload("back.png");
+    if (!second.success) throw new Error(second.error);
+
+    const receipts = await uow.expenseReceipts.findByExpenseId(expense.id);
+    expect(receipts.map((r) => r.fileName)).toEqual(["front.png", "back.png"]);
+    expect(receipts[1].extractedAmountCents).toBeUndefined();
+    expect((await uow.expenses.findById(expense.id))?.receiptUrl).toBe(second.receipt.storageKey);
+  });
+
+  it("rejects files that are not receipts without storing anything", async () => {
+    const result = await attachExpenseReceipt({
+      expense,
+      body: Buffer.from("<html></html>"),
+      fileName: "receipt.html",
+      contentType: "text/html",
+      uploadedBy: "parent-alex",
+    });
+
+    expect(result).toEqual({ success: false, error: "Receipts must be a PDF, JPG or PNG file" });
+    expect(await uow.expenseReceipts.findByFamilyId("fam-1")).toEqual([]);
+    await expect(fs.readdir(storageDir)).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Custody Family Fixture
+ *
+ * The family the custody suites start from: Alex and Sam alternating weeks
+ * from Friday 2024-03-01, Alex first, exchanging at 5 PM in New York.
+ * Suites pass only what differs, e.g. their own children, timezone or
+ * schedule; schedule fields are merged over the alternating-weeks default.
+ */
+
+import { SchedulePresets } from "@/lib/custody";
+import type { CustodySchedule, Family, Parent } from "@/lib";
+
+export const alex: Parent = { id: "parent-a", name: "Alex", email: "alex@example.com" };
+export const sam: Parent = { id: "parent-b", name: "Sam", email: "sam@example.com" };
+
+export type FamilyOverrides = Partial<Omit<Family, "schedule">> & { schedule?: Partial<CustodySchedule> };
+
+export function buildFamily(overrides: FamilyOverrides = {}): Family {
+  const { schedule, ...family } = overrides;
+  return {
+    id: "family-1",
+    parents: [alex, sam],
+    children: [],
+    // Friday; Alex has Mar 1-8 and Mar 15-22, Sam has Mar 8-15 and Mar 22-29.
+    // US DST starts Sunday 2024-03-10 and ends Sunday 2024-11-03.
+    custodyAnchorDate: "2024-03-01",
+    timezone: "America/New_York",
+    ...family,
+    schedule: {
+      id: "alternating-weeks",
+      name: "Alternating Weeks",
+      transitionHour: 17,
+      blocks: SchedulePresets.alternatingWeeks(alex.id, sam.id),
+      ...schedule,
+    },
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * Handoff Exchange Tests
+ *
+ * Verifies that recorded check-ins are matched to scheduled transitions to
+ * classify each exchange as on time, late, missed or disputed, and that the
+ * actual custody timeline follows undisputed check-ins.
+ */
+
+// ─── Setup Mocks ──────────────────────────────────────────────────────────────
+
+const mockDb = {
+  families: { findById: jest.fn() },
+  parents: { findByFamilyId: jest.fn() },
+  children: { findByFamilyId: jest.fn() },
+  custodyScheduleVersions: { findApprovedByFamilyId: jest.fn() },
+  custodySchedules: { findActiveByFamilyId: jest.fn() },
+  scheduleOverrides: { findByTimeRange: jest.fn() },
+  handoffCheckIns: { findByFamilyIdAndRange: jest.fn() },
+  scheduleChangeRequests: { findByFamilyId: jest.fn() },
+};
+
+jest.mock("@/lib/persistence", () => ({ getDb: () => mockDb }));
+
+// ─── Imports ──────────────────────────────────────────────────────────────────
+
+import type { Parent } from "@/lib";
+import type { DbHandoffCheckIn } from "@/lib/persistence/types";
+import { CustodyComplianceEngine, SchedulePresets } from "@/lib/custody";
+import {
+  custodySwitchAt,
+  custodySwitches,
+  matchHandoffExchanges,
+} from "@/lib/handoffs";
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+const alex: Parent = { id: "parent-alex", name: "Alex", email: "alex@example.com" };
+const sam: Parent = { id: "parent-sam", name: "Sam", email: "sam@example.com" };
+
+/** Friday 17:00 to Sam, then Sunday 17:00 back to Alex */
+const transitions = [
+  { at: new Date("2025-03-07T17:00:00.000Z"), fromParent: alex, toParent: sam },
+  { at: new Date("2025-03-09T17:00:00.000Z"), fromParent: sam, toParent: alex },
+];
+
+let nextId = 0;
+
+function checkIn(overrides: Partial<DbHandoffCheckIn>): DbHandoffCheckIn {
+  nextId += 1;
+  return {
+    id: `checkin-${nextId}`,
+    familyId: "fam-1",
+    kind: "drop_off",
+    occurredAt: "2025-03-07T17:00:00.000Z",
+    fromParentId: alex.id,
+    toParentId: sam.id,
+    recordedBy: alex.id,
+    status: "pending",
+    createdAt: "2025-03-07T17:00:00.000Z",
+    updatedAt: "2025-03-07T17:00:00.000Z",
+    ...overrides,
+  };
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("matchHandoffExchanges", () => {
+  it("classifies exchanges within the grace period as on time", () => {
+    const [friday] = matchHandoffExchanges(transitions, [
+      checkIn({ occurredAt: "2025-03-07T17:10:00.000Z", status: "confirmed" }),
+    ]);
+
+    expect(friday).toMatchObject({
+      scheduledAt: "2025-03-07T17:00:00.000Z",
+      status: "on_time",
+      latenessMinutes: 10,
+      confirmed: true,
+    });
+  });
+
+  it("measures lateness past the grace period", () => {
+    const [, sunday] = matchHandoffExchanges(transitions, [
+      checkIn({
+        kind: "pick_up",
+        occurredAt: "2025-03-09T17:45:00.000Z",
+        fromParentId: sam.id,
+        toParentId: alex.id,
+      }),
+    ]);
+
+    expect(sunday).toMatchObject({
+      fromParentId: sam.id,
+      status: "late",
+      occurredAt: "2025-03-09T17:45:00.000Z",
+      latenessMinutes: 45,
+      confirmed: false,
+    });
+  });
+
+  it("uses the earliest undisputed check-in when both parents recorded the exchange", () => {
+    const early = checkIn({ occurredAt: "2025-03-07T16:55:00.000Z" });
+    const [friday] = matchHandoffExchanges(transitions, [
+      checkIn({ kind: "pick_up", occurredAt: "2025-03-07T17:30:00.000Z", recordedBy: sam.id }),
+      early,
+    ]);
+
+    expect(friday).toMatchObject({ status: "on_time", latenessMinutes: 0, checkInId: early.id });
+  });
+
+  it("reports exchanges without a matching check-in as missed", () => {
+    const exchanges = matchHandoffExchanges(transitions, [
+      // Wrong direction, and too far from Sunday's exchange to count for it
+      checkIn({ occurredAt: "2025-03-08T12:00:00.000Z", fromParentId: sam.id, toParentId: alex.id }),
+    ]);
+
+    expect(exchanges.map((e) => e.status)).toEqual(["missed", "missed"]);
+  });
+
+  it("reports exchanges whose only check-ins were disputed as disputed", () => {
+    const [friday] = matchHandoffExchanges(transitions, [checkIn({ status: "disputed" })]);
+
+    expect(friday).toMatchObject({ status: "disputed", latenessMinutes: 0 });
+    expect(friday.occurredAt).toBeUndefined();
+  });
+});
+
+describe("custodySwitches", () => {
+  it("follows undisputed check-ins in time order", () => {
+    const friday = checkIn({ occurredAt: "2025-03-07T17:20:00.000Z" });
+    const sunday = checkIn({
+      occurredAt: "2025-03-09T17:00:00.000Z",
+      fromParentId: sam.id,
+      toParentId: alex.id,
+    });
+    const switches = custodySwitches([
+      sunday,
+      checkIn({ occurredAt: "2025-03-08T09:00:00.000Z", fromParentId: sam.id, toParentId: alex.id, status: "disputed" }),
+      friday,
+    ]);
+
+    expect(switches.map((s) => s.checkInId)).toEqual([friday.id, sunday.id]);
+    expect(custodySwitchAt(switches, Date.parse("2025-03-07T17:00:00.000Z"))).toBeNull();
+    expect(custodySwitchAt(switches, Date.parse("2025-03-08T09:30:00.000Z"))?.parentId).toBe(sam.id);
+    expect(custodySwitchAt(switches, Date.parse("2025-03-09T17:00:00.000Z"))?.parentId).toBe(alex.id);
+  });
+});
+
+describe("CustodyComplianceEngine", () => {
+  it("follows the schedule for a period with no check-ins", async () => {
+    mockDb.families.findById.mockResolvedValue({
+      id: "fam-1",
+      name: "Rivera Family",
+      custodyAnchorDate: "2025-03-03",
+      scheduleId: "alternating-weeks",
+      timezone: "UTC",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      updatedAt: "2025-01-01T00:00:00.000Z",
+    });
+    mockDb.parents.findByFamilyId.mockResolvedValue([alex, sam]);
+    mockDb.children.findByFamilyId.mockResolvedValue([]);
+    mockDb.custodyScheduleVersions.findApprovedByFamilyId.mockResolvedValue([]);
+    mockDb.custodySchedules.findActiveByFamilyId.mockResolvedValue({
+      id: "schedule-1",
+      familyId: "fam-1",
+      name: "Alternating Weeks",
+      transitionHour: 17,
+      blocks: JSON.stringify(SchedulePresets.alternatingWeeks(alex.id, sam.id)),
+      isActive: true,
+      createdAt: "2025-01-01T00:00:00.000Z",
+      updatedAt: "2025-01-01T00:00:00.000Z",
+    });
+    mockDb.scheduleOverrides.findByTimeRange.mockResolvedValue([]);
+    mockDb.handoffCheckIns.findByFamilyIdAndRange.mockResolvedValue([]);
+    mockDb.scheduleChangeRequests.findByFamilyId.mockResolvedValue([]);
+
+    const report = await new CustodyComplianceEngine().generateComplianceReport(
+      "fam-1",
+      "2025-03-03",
+      "2025-03-16",
+    );
+
+    expect(report.periods.some((p) => p.scheduledParentId === sam.id)).toBe(true);
+    for (const period of report.periods) {
+      expect(period.actualParentId).toBe(period.scheduledParentId);
+      expect(period.notes).toBe("No check-in recorded yet; assumed per schedule");
+    }
+    expect(report.summary).toMatchObject({ compliancePercentage: 100, totalDeviations: 0 });
+  });
+});
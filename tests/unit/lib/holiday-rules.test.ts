@@ -0,0 +1,258 @@
+/**
+ * Holiday Rule Tests
+ *
+ * Verifies computed holiday dates (fixed, nth weekday, Easter-relative),
+ * custody windows in the family timezone, odd/even-year and rotating
+ * assignments, rule validation, and generating holiday overrides for a
+ * family's jurisdiction against the in-memory database.
+ */
+
+import {
+  _test_resetDbInstance,
+  createMemoryUnitOfWork,
+  initDb,
+  type DbFamily,
+  type DbHolidayExceptionRule,
+  type DbParent,
+  type MemoryUnitOfWork,
+} from "@/lib/persistence";
+import {
+  easterSunday,
+  holidayCustodian,
+  holidayDateInYear,
+  holidayDatesInRange,
+  holidayPeriod,
+  jurisdictionChain,
+  validateHolidayAssignment,
+  validateHolidayDateRule,
+  validateHolidayWindow,
+} from "@/lib/holiday-rules";
+import { generateAndPersistHolidayOverrides } from "@/lib/schedule-override";
+
+const THANKSGIVING = { kind: "nth_weekday", month: 11, weekday: 4, nth: 4 } as const;
+const THANKSGIVING_WEEKEND = { startOffsetDays: -1, startTime: "18:00", endOffsetDays: 3, endTime: "18:00" };
+
+// ─── Dates ────────────────────────────────────────────────────────────────────
+
+describe("holidayDateInYear", () => {
+  it("finds the nth and last weekday of a month", () => {
+    expect(holidayDateInYear(THANKSGIVING, 2024)).toBe("2024-11-28");
+    expect(holidayDateInYear(THANKSGIVING, 2025)).toBe("2025-11-27");
+    expect(holidayDateInYear({ kind: "nth_weekday", month: 5, weekday: 1, nth: -1 }, 2025)).toBe("2025-05-26");
+    expect(holidayDateInYear({ kind: "nth_weekday", month: 9, weekday: 1, nth: 1 }, 2026)).toBe("2026-09-07");
+  });
+
+  it("works from Easter Sunday", () => {
+    expect(easterSunday(2024)).toBe("2024-03-31");
+    expect(easterSunday(2025)).toBe("2025-04-20");
+    expect(easterSunday(2038)).toBe("2038-04-25");
+    expect(holidayDateInYear({ kind: "easter", offsetDays: -2 }, 2025)).toBe("2025-04-18");
+  });
+
+  it("has no date when the year lacks one", () => {
+    expect(holidayDateInYear({ kind: "nth_weekday", month: 2, weekday: 1, nth: 5 }, 2025)).toBeNull();
+    expect(holidayDateInYear({ kind: "fixed", month: 2, day: 29 }, 2025)).toBeNull();
+    expect(holidayDateInYear({ kind: "fixed", month: 2, day: 29 }, 2028)).toBe("2028-02-29");
+  });
+});
+
+describe("holidayDatesInRange", () => {
+  it("yields one date per year for computed holidays and the date itself for one-off ones", () => {
+    expect(holidayDatesInRange({ rule: THANKSGIVING }, "2024-01-01", "2026-01-01")).toEqual([
+      "2024-11-28",
+      "2025-11-27",
+    ]);
+    expect(holidayDatesInRange({ date: "2025-07-04" }, "2025-01-01", "2025-07-04")).toEqual([]);
+    expect(holidayDatesInRange({ date: "2025-07-04" }, "2025-01-01", "2025-07-05")).toEqual(["2025-07-04"]);
+  });
+});
+
+// ─── Custody Terms ────────────────────────────────────────────────────────────
+
+describe("holidayCustodian", () => {
+  it("alternates odd and even years", () => {
+    const rule = {
+      custodianParentId: "mom",
+      assignment: { mode: "alternate_years", oddYearParentId: "mom", evenYearParentId: "dad" } as const,
+    };
+    expect(holidayCustodian(rule, "2025-11-27")).toBe("mom");
+    expect(holidayCustodian(rule, "2026-11-26")).toBe("dad");
+  });
+
+  it("rotates through parents from the start year, before it too", () => {
+    const rule = {
+      custodianParentId: "mom",
+      assignment: { mode: "rotate" as const, parentIds: ["mom", "dad", "grandma"], startYear: 2025 },
+    };
+    expect(["2025", "2026", "2027", "2028", "2024"].map((year) => holidayCustodian(rule, `${year}-12-25`))).toEqual([
+      "mom",
+      "dad",
+      "grandma",
+      "mom",
+      "grandma",
+    ]);
+    expect(holidayCustodian({ custodianParentId: "dad" }, "2025-12-25")).toBe("dad");
+  });
+});
+
+describe("holidayPeriod", () => {
+  it("places window times in the family timezone", () => {
+    expect(holidayPeriod("2025-11-27", THANKSGIVING_WEEKEND, "America/New_York")).toEqual({
+      effectiveStart: "2025-11-26T23:00:00.000Z",
+      effectiveEnd: "2025-11-30T23:00:00.000Z",
+    });
+  });
+
+  it("keeps the exchange time across a DST change inside the window", () => {
+    expect(
+      holidayPeriod(
+        "2025-03-08",
+        { startOffsetDays: 0, startTime: "10:00", endOffsetDays: 1, endTime: "10:00" },
+        "America/Los_Angeles"
+      )
+    ).toEqual({ effectiveStart: "2025-03-08T18:00:00.000Z", effectiveEnd: "2025-03-09T17:00:00.000Z" });
+  });
+
+  it("covers the local calendar day without a window", () => {
+    expect(holidayPeriod("2025-07-04", undefined, "America/New_York")).toEqual({
+      effectiveStart: "2025-07-04T04:00:00.000Z",
+      effectiveEnd: "2025-07-05T04:00:00.000Z",
+    });
+    expect(holidayPeriod("2025-03-09", undefined, "America/New_York")).toEqual({
+      effectiveStart: "2025-03-09T05:00:00.000Z",
+      effectiveEnd: "2025-03-10T04:00:00.000Z",
+    });
+  });
+});
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+describe("validation", () => {
+  it("checks date rules", () => {
+    expect(validateHolidayDateRule(THANKSGIVING)).toBeNull();
+    expect(validateHolidayDateRule({ kind: "fixed", month: 2, day: 29 })).toBeNull();
+    expect(validateHolidayDateRule({ kind: "fixed", month: 4, day: 31 })).toMatch(/does not exist/);
+    expect(validateHolidayDateRule({ kind: "nth_weekday", month: 11, weekday: 4, nth: 0 })).toMatch(/nth/);
+    expect(validateHolidayDateRule({ kind: "lunar" })).toMatch(/fixed, nth_weekday or easter/);
+  });
+
+  it("checks windows", () => {
+    expect(validateHolidayWindow(THANKSGIVING_WEEKEND)).toBeNull();
+    expect(validateHolidayWindow({ ...THANKSGIVING_WEEKEND, endOffsetDays: -1, endTime: "17:00" })).toMatch(
+      /end after it starts/
+    );
+    expect(validateHolidayWindow({ ...THANKSGIVING_WEEKEND, startTime: "6pm" })).toMatch(/HH:MM/);
+    expect(validateHolidayWindow({ ...THANKSGIVING_WEEKEND, startOffsetDays: -20, endOffsetDays: 20 })).toMatch(
+      /at most 21 days/
+    );
+  });
+
+  it("checks assignments name the family's parents", () => {
+    const parents = ["mom", "dad"];
+    const alternate = { mode: "alternate_years", oddYearParentId: "mom", evenYearParentId: "dad" };
+    expect(validateHolidayAssignment(alternate, parents)).toBeNull();
+    expect(validateHolidayAssignment({ ...alternate, evenYearParentId: "stranger" }, parents)).toMatch(
+      /parent in the family/
+    );
+    expect(validateHolidayAssignment({ mode: "rotate", parentIds: ["mom"], startYear: 2025 }, parents)).toMatch(
+      /at least two parents/
+    );
+  });
+
+  it("nests jurisdictions under their country", () => {
+    expect(jurisdictionChain("US-CA")).toEqual(["US-CA", "US"]);
+    expect(jurisdictionChain("GB")).toEqual(["GB"]);
+    expect(jurisdictionChain(undefined)).toEqual(["US"]);
+  });
+});
+
+// ─── Override Generation ──────────────────────────────────────────────────────
+
+describe("generateAndPersistHolidayOverrides", () => {
+  let uow: MemoryUnitOfWork;
+  let family: DbFamily;
+  let mom: DbParent;
+  let dad: DbParent;
+
+  async function approve(holidayId: string, terms: Pick<DbHolidayExceptionRule, "window" | "assignment"> = {}) {
+    await uow.holidayExceptionRules.propose(
+      { familyId: family.id, holidayId, custodianParentId: mom.id, isEnabled: true, ...terms },
+      mom.id
+    );
+    await uow.holidayExceptionRules.confirm(family.id, holidayId, dad.id, true);
+  }
+
+  beforeEach(async () => {
+    uow = createMemoryUnitOfWork();
+    await initDb(uow);
+    family = await uow.families.create({
+      name: "Rivera-Chen",
+      custodyAnchorDate: "2024-01-01",
+      scheduleId: "alternating-weeks",
+      timezone: "America/Los_Angeles",
+      holidayJurisdiction: "US-CA",
+    });
+    const parent = (name: string, role: DbParent["role"]) =>
+      uow.parents.create({ userId: `user-${name}`, familyId: family.id, name, email: `${name}@example.com`, role });
+    mom = await parent("mom", "primary");
+    dad = await parent("dad", "secondary");
+  });
+
+  afterEach(() => {
+    _test_resetDbInstance();
+  });
+
+  it("gives Thanksgiving weekend to alternating parents and persists each occurrence once", async () => {
+    const thanksgiving = await uow.holidays.create({
+      name: "Thanksgiving Day",
+      rule: THANKSGIVING,
+      type: "federal",
+      jurisdiction: "US",
+    });
+    await approve(thanksgiving.id, {
+      window: THANKSGIVING_WEEKEND,
+      assignment: { mode: "alternate_years", oddYearParentId: mom.id, evenYearParentId: dad.id },
+    });
+
+    const first = await generateAndPersistHolidayOverrides(family.id, "2024-01-01", "2026-01-01");
+    const again = await generateAndPersistHolidayOverrides(family.id, "2024-01-01", "2026-01-01");
+
+    expect(first.map((o) => [o.effectiveStart, o.effectiveEnd, o.custodianParentId])).toEqual([
+      ["2024-11-28T02:00:00.000Z", "2024-12-02T02:00:00.000Z", dad.id],
+      ["2025-11-27T02:00:00.000Z", "2025-12-01T02:00:00.000Z", mom.id],
+    ]);
+    expect(again.map((o) => o.id)).toEqual(first.map((o) => o.id));
+    expect(await uow.scheduleOverrides.findByFamilyId(family.id)).toHaveLength(2);
+  });
+
+  it("uses the family's jurisdiction and its own holidays, not other families'", async () => {
+    const chavez = await uow.holidays.create({
+      name: "Cesar Chavez Day",
+      rule: { kind: "fixed", month: 3, day: 31 },
+      type: "state",
+      jurisdiction: "US-CA",
+    });
+    const texas = await uow.holidays.create({
+      name: "Texas Independence Day",
+      rule: { kind: "fixed", month: 3, day: 2 },
+      type: "state",
+      jurisdiction: "US-TX",
+    });
+    const otherFamilies = await uow.holidays.create({
+      name: "Grandma's birthday",
+      date: "2025-03-15",
+      type: "cultural",
+      jurisdiction: "US",
+      familyId: "another-family",
+    });
+    for (const holiday of [chavez, texas, otherFamilies]) {
+      await approve(holiday.id);
+    }
+
+    const overrides = await generateAndPersistHolidayOverrides(family.id, "2025-01-01", "2026-01-01");
+
+    expect(overrides.map((o) => [o.title, o.effectiveStart])).toEqual([
+      ["Cesar Chavez Day Exception", "2025-03-31T07:00:00.000Z"],
+    ]);
+  });
+});
@@ -0,0 +1,343 @@
+/**
+ * Calendar Import Tests
+ *
+ * Verifies .ics parsing, RRULE/EXDATE/RECURRENCE-ID expansion, category
+ * mapping, UID-based de-duplication on re-import and custody annotation.
+ *
+ * Uses Jest mocks — no real DB connection required.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+// ─── Setup Mocks ──────────────────────────────────────────────────────────────
+
+const mockDb = {
+  families: { findById: jest.fn() },
+  parents: { findByFamilyId: jest.fn() },
+  children: { findByFamilyId: jest.fn() },
+  custodySchedules: { findActiveByFamilyId: jest.fn() },
+  custodyScheduleVersions: { findApprovedByFamilyId: jest.fn() },
+  scheduleOverrides: { findActiveByFamilyId: jest.fn() },
+  calendarEvents: {
+    findByFamilyId: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+  calendarEventExceptions: { findByFamilyId: jest.fn() },
+};
+
+jest.mock("@/lib/persistence", () => ({ db: mockDb }));
+
+jest.mock("@/lib/auth", () => ({
+  audit: { log: jest.fn() },
+}));
+
+const mockLookup = jest.fn();
+jest.mock("node:dns/promises", () => ({ lookup: mockLookup }));
+
+// ─── Imports ──────────────────────────────────────────────────────────────────
+
+import { fetchIcsCalendar, importIcsEvents, mapIcsCategory } from "@/lib/calendar/ics-import";
+import { parseIcs } from "@/lib/calendar/ics-parser";
+import { SchedulePresets } from "@/lib/custody";
+import { audit } from "@/lib/auth";
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+const family = {
+  id: "family-1",
+  name: "Rivera Family",
+  custodyAnchorDate: "2026-02-27",
+  scheduleId: "alternating-weeks",
+  timezone: "America/New_York",
+};
+
+const parents = [
+  { id: "parent-a", name: "Alex Rivera", email: "alex@example.com", role: "primary" },
+  { id: "parent-b", name: "Sam Rivera", email: "sam@example.com", role: "secondary" },
+];
+
+const schedule = {
+  id: "schedule-1",
+  familyId: "family-1",
+  name: "Alternating Weeks",
+  transitionHour: 17,
+  blocks: JSON.stringify(SchedulePresets.alternatingWeeks("parent-a", "parent-b")),
+  isActive: true,
+};
+
+const now = new Date("2026-03-01T12:00:00.000Z");
+
+const LEAGUE_ICS = [
+  "BEGIN:VCALENDAR",
+  "VERSION:2.0",
+  "PRODID:-//Springfield Youth Soccer//EN",
+  "BEGIN:VEVENT",
+  "UID:practice-u10@springfieldsoccer.org",
+  "DTSTART;TZID=America/New_York:20260303T160000",
+  "DTEND;TZID=America/New_York:20260303T170000",
+  "RRULE:FREQ=WEEKLY;COUNT=4",
+  "EXDATE;TZID=America/New_York:20260324T160000",
+  "SUMMARY:U10 Practice",
+  "LOCATION:Field 3\\, Riverside Park",
+  "BEGIN:VALARM",
+  "ACTION:DISPLAY",
+  "SUMMARY:Reminder",
+  "END:VALARM",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "UID:practice-u10@springfieldsoccer.org",
+  "RECURRENCE-ID;TZID=America/New_York:20260310T160000",
+  "DTSTART;TZID=America/New_York:20260311T180000",
+  "DURATION:PT1H30M",
+  "SUMMARY:U10 Practice (moved)",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "UID:spring-break@springfield.k12.us",
+  "DTSTART;VALUE=DATE:20260306",
+  "DTEND;VALUE=DATE:20260307",
+  "SUMMARY:Teacher Work Day - No School",
+  "DESCRIPTION:Buildings closed.\\nNo after-care.",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "UID:dentist@example.com",
+  "DTSTART:20260305T150000Z",
+  "DTEND:20260305T160000Z",
+  "SUMMARY:Dentist",
+  "STATUS:CANCELLED",
+  "END:VEVENT",
+  "END:VCALENDAR",
+].join("\r\n");
+
+function storedRow(data: any, id: string) {
+  return { ...data, id, createdAt: now.toISOString(), updatedAt: now.toISOString() };
+}
+
+// ─── Test Suites ──────────────────────────────────────────────────────────────
+
+describe("parseIcs", () => {
+  it("unfolds lines, unescapes text and skips nested components", () => {
+    const events = parseIcs(
+      [
+        "BEGIN:VCALENDAR",
+        "BEGIN:VEVENT",
+        "UID:1",
+        "DTSTART:20260305T150000Z",
+        "SUMMARY:Parent-Teacher",
+        "  Conference",
+        "CATEGORIES:School,Meetings",
+        "BEGIN:VALARM",
+        "SUMMARY:Alarm",
+        "END:VALARM",
+        "END:VEVENT",
+        "END:VCALENDAR",
+      ].join("\n")
+    );
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      uid: "1",
+      summary: "Parent-Teacher Conference",
+      categories: ["School", "Meetings"],
+      allDay: false,
+    });
+    expect(events[0].end.toISOString()).toBe("2026-03-05T15:00:00.000Z");
+  });
+
+  it("resolves TZID and floating times in their zone and defaults all-day ends", () => {
+    const events = parseIcs(
+      [
+        "BEGIN:VEVENT",
+        "UID:a",
+        "DTSTART;TZID=America/Chicago:20260701T090000",
+        "DURATION:PT45M",
+        "END:VEVENT",
+        "BEGIN:VEVENT",
+        "UID:b",
+        "DTSTART:20260701T090000",
+        "END:VEVENT",
+        "BEGIN:VEVENT",
+        "UID:c",
+        "DTSTART;VALUE=DATE:20260704",
+        "END:VEVENT",
+      ].join("\r\n"),
+      "America/Los_Angeles"
+    );
+
+    expect(events.map((e) => [e.uid, e.start.toISOString(), e.end.toISOString(), e.allDay])).toEqual([
+      ["a", "2026-07-01T14:00:00.000Z", "2026-07-01T14:45:00.000Z", false],
+      ["b", "2026-07-01T16:00:00.000Z", "2026-07-01T16:00:00.000Z", false],
+      ["c", "2026-07-04T00:00:00.000Z", "2026-07-05T00:00:00.000Z", true],
+    ]);
+  });
+});
+
+describe("mapIcsCategory", () => {
+  it("prefers an exact CATEGORIES match, then keywords, then the fallback", () => {
+    expect(mapIcsCategory({ summary: "Checkup", categories: ["Medical"] })).toBe("medical");
+    expect(mapIcsCategory({ summary: "Winter Break", categories: [] })).toBe("holiday");
+    expect(mapIcsCategory({ summary: "Piano Lesson", categories: [] })).toBe("activity");
+    expect(mapIcsCategory({ summary: "Spring Concert", categories: [] }, "school")).toBe("school");
+    expect(mapIcsCategory({ summary: "Handoff", categories: ["custody"] })).toBe("other");
+  });
+});
+
+describe("importIcsEvents", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.families.findById.mockResolvedValue(family);
+    mockDb.parents.findByFamilyId.mockResolvedValue(parents);
+    mockDb.children.findByFamilyId.mockResolvedValue([]);
+    mockDb.custodySchedules.findActiveByFamilyId.mockResolvedValue(schedule);
+    mockDb.custodyScheduleVersions.findApprovedByFamilyId.mockResolvedValue([]);
+    mockDb.scheduleOverrides.findActiveByFamilyId.mockResolvedValue([]);
+    mockDb.calendarEvents.findByFamilyId.mockResolvedValue([]);
+    mockDb.calendarEventExceptions.findByFamilyId.mockResolvedValue([]);
+    mockDb.calendarEvents.create.mockImplementation(async (data: any) => storedRow(data, `event-${data.externalId}`));
+    mockDb.calendarEvents.update.mockImplementation(async (id: string, data: any) => storedRow(data, id));
+    mockDb.calendarEvents.delete.mockResolvedValue(true);
+  });
+
+  const options = { familyId: "family-1", createdBy: "parent-a", userId: "user-1", source: "upload", now };
+
+  it("expands recurrences, applies overrides and exclusions, and annotates custody", async () => {
+    const summary = await importIcsEvents(LEAGUE_ICS, options);
+
+    expect(summary).toMatchObject({ created: 4, updated: 0, unchanged: 0, deleted: 0 });
+    expect(
+      summary.events.map((e) => [e.title, e.startAt, e.category, e.custody.map((c) => c.parentName)])
+    ).toEqual([
+      ["U10 Practice", "2026-03-03T21:00:00.000Z", "activity", ["Alex Rivera"]],
+      ["U10 Practice (moved)", "2026-03-11T22:00:00.000Z", "activity", ["Sam Rivera"]],
+      ["U10 Practice", "2026-03-17T20:00:00.000Z", "activity", ["Alex Rivera"]],
+      ["Teacher Work Day - No School", "2026-03-06T00:00:00.000Z", "holiday", ["Alex Rivera", "Sam Rivera"]],
+    ]);
+
+    const created = mockDb.calendarEvents.create.mock.calls.map(([data]: any[]) => data);
+    expect(created[0]).toMatchObject({
+      externalId: "practice-u10@springfieldsoccer.org::2026-03-03T21:00:00.000Z",
+      externalSource: "upload",
+      location: "Field 3, Riverside Park",
+      createdBy: "parent-a",
+      confirmationStatus: "confirmed",
+    });
+    expect(created[1].externalId).toBe("practice-u10@springfieldsoccer.org::2026-03-10T20:00:00.000Z");
+    expect(created[3]).toMatchObject({
+      externalId: "spring-break@springfield.k12.us",
+      allDay: true,
+      description: "Buildings closed.\nNo after-care.",
+    });
+    expect(audit.log).toHaveBeenCalledWith(
+      "calendar.event.import",
+      { userId: "user-1" },
+      expect.objectContaining({ familyId: "family-1", created: 4 })
+    );
+  });
+
+  it("matches re-imported events on their source UID instead of duplicating them", async () => {
+    await importIcsEvents(LEAGUE_ICS, options);
+    const firstRun = mockDb.calendarEvents.create.mock.results.map((r: any) => r.value);
+    const stored = await Promise.all(firstRun);
+    stored.push(storedRow({ ...stored[0], externalId: "dentist@example.com", title: "Dentist" }, "event-dentist"));
+    mockDb.calendarEvents.findByFamilyId.mockResolvedValue(stored);
+    mockDb.calendarEvents.create.mockClear();
+
+    const changed = LEAGUE_ICS.replace("SUMMARY:Teacher Work Day - No School", "SUMMARY:Teacher Work Day");
+    const summary = await importIcsEvents(changed, options);
+
+    expect(mockDb.calendarEvents.create).not.toHaveBeenCalled();
+    expect(summary).toMatchObject({ created: 0, updated: 1, unchanged: 3, deleted: 1 });
+    expect(mockDb.calendarEvents.update).toHaveBeenCalledWith(
+      "event-spring-break@springfield.k12.us",
+      expect.objectContaining({ title: "Teacher Work Day" })
+    );
+    expect(mockDb.calendarEvents.delete).toHaveBeenCalledWith("event-dentist");
+  });
+
+  it("reports conflicts with existing family events", async () => {
+    mockDb.calendarEvents.findByFamilyId.mockResolvedValue([
+      storedRow(
+        {
+          familyId: "family-1",
+          title: "Orthodontist",
+          category: "medical",
+          startAt: "2026-03-03T21:30:00.000Z",
+          endAt: "2026-03-03T22:30:00.000Z",
+          allDay: false,
+          confirmationStatus: "confirmed",
+          createdBy: "parent-b",
+        },
+        "event-ortho"
+      ),
+    ]);
+
+    const summary = await importIcsEvents(LEAGUE_ICS, options);
+
+    expect(summary.events[0].conflicts.map((c) => c.conflictingEventId)).toEqual(["event-ortho"]);
+    expect(summary.events[2].conflicts).toEqual([]);
+  });
+
+  it("rejects input that is not an iCalendar document", async () => {
+    await expect(importIcsEvents("hello", options)).rejects.toThrow("not an iCalendar");
+    expect(mockDb.calendarEvents.create).not.toHaveBeenCalled();
+  });
+});
+
+describe("fetchIcsCalendar", () => {
+  const fetchMock = jest.fn();
+  const realFetch = global.fetch;
+
+  // jsdom has no Response, so fake the few members fetchIcsCalendar reads.
+  const icsResponse = (status: number, headers: Record<string, string>, body = "") => ({
+    status,
+    ok: status >= 200 && status < 300,
+    headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+    text: async () => body,
+  });
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    mockLookup.mockReset();
+    mockLookup.mockResolvedValue([{ address: "93.184.216.34", family: 4 }]);
+    global.fetch = fetchMock;
+  });
+
+  afterAll(() => {
+    global.fetch = realFetch;
+  });
+
+  it("downloads a calendar from a public host", async () => {
+    fetchMock.mockResolvedValue(icsResponse(200, {}, "BEGIN:VCALENDAR\r\nEND:VCALENDAR"));
+
+    await expect(fetchIcsCalendar("webcal://school.example.org/cal.ics")).resolves.toContain("BEGIN:VCALENDAR");
+    expect(fetchMock.mock.calls[0][0].toString()).toBe("https://school.example.org/cal.ics");
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({ redirect: "manual" });
+  });
+
+  it("refuses a redirect to a private address", async () => {
+    fetchMock.mockResolvedValue(icsResponse(302, { location: "http://169.254.169.254/latest/meta-data" }));
+
+    await expect(fetchIcsCalendar("https://school.example.org/cal.ics")).rejects.toThrow(
+      "Calendar URL must point to a public host"
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("refuses host names that resolve to loopback, including IPv4-mapped IPv6", async () => {
+    mockLookup.mockResolvedValue([{ address: "127.0.0.1", family: 4 }]);
+    await expect(fetchIcsCalendar("https://calendar.example.org/cal.ics")).rejects.toThrow(
+      "Calendar URL must point to a public host"
+    );
+
+    mockLookup.mockResolvedValue([{ address: "::ffff:127.0.0.1", family: 6 }]);
+    await expect(fetchIcsCalendar("https://calendar.example.org/cal.ics")).rejects.toThrow(
+      "Calendar URL must point to a public host"
+    );
+
+    await expect(fetchIcsCalendar("http://[::ffff:127.0.0.1]/cal.ics")).rejects.toThrow(
+      "Calendar URL must point to a public host"
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * In-Memory Unit of Work Tests
+ *
+ * Verifies that the in-memory repositories behave like their Postgres
+ * counterparts where callers depend on it: unique constraints, ordering,
+ * status transitions, upserts, vault quotas and soft deletes, transaction
+ * rollback, seeded reference data and DB_DRIVER selection.
+ */
+
+import {
+  _test_resetDbInstance,
+  createMemoryUnitOfWork,
+  getDb,
+  initDb,
+  isMemoryUnitOfWork,
+  MemoryStore,
+  runInTransaction,
+  UniqueViolationError,
+  type DbFamily,
+  type DbParent,
+  type DbStripeCustomer,
+  type DbSubscription,
+  type MemoryUnitOfWork,
+} from "@/lib/persistence";
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+const NOW = new Date("2025-03-01T12:00:00.000Z");
+
+function createUow(): MemoryUnitOfWork {
+  return createMemoryUnitOfWork(new MemoryStore({ now: () => NOW }));
+}
+
+function seedFamily(uow: MemoryUnitOfWork, planTier?: string): void {
+  const now = NOW.toISOString();
+  uow.store.table<DbFamily>("families").insert({
+    id: "fam-1",
+    name: "Rivera",
+    custodyAnchorDate: "2025-01-06",
+    scheduleId: "2-2-3",
+    timezone: "America/New_York",
+    createdAt: now,
+    updatedAt: now,
+  });
+  uow.store.table<DbParent>("parents").insert({
+    id: "parent-1",
+    userId: "user-1",
+    familyId: "fam-1",
+    name: "Alex",
+    email: "alex@example.com",
+    role: "primary",
+    createdAt: now,
+  });
+  if (!planTier) return;
+
+  uow.store.table<DbStripeCustomer>("stripe_customers").insert({
+    id: "cust-1",
+    userId: "user-1",
+    stripeCustomerId: "cus_123",
+    email: "alex@example.com",
+    currency: "usd",
+    createdAt: now,
+    updatedAt: now,
+  });
+  uow.store.table<DbSubscription>("subscriptions").insert({
+    id: "sub-1",
+    stripeCustomerId: "cust-1",
+    stripeSubscriptionId: "sub_123",
+    stripePriceId: "price_123",
+    planTier,
+    status: "active",
+    currentPeriodStart: now,
+    currentPeriodEnd: "2025-04-01T12:00:00.000Z",
+    cancelAtPeriodEnd: false,
+    quantity: 1,
+    usedStorageBytes: 0,
+    metadata: {},
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+const newUser = (email: string) => ({
+  email,
+  emailVerified: false,
+  passwordHash: "hash",
+  fullName: "Alex Rivera",
+  phoneVerified: false,
+  isDisabled: false,
+});
+
+const newChangeRequest = (title: string) => ({
+  familyId: "fam-1",
+  requestedBy: "parent-1",
+  title,
+  givingUpPeriodStart: "2025-03-07T17:00:00.000Z",
+  givingUpPeriodEnd: "2025-03-09T17:00:00.000Z",
+  requestedMakeUpStart: "2025-03-14T17:00:00.000Z",
+  requestedMakeUpEnd: "2025-03-16T17:00:00.000Z",
+  status: "pending",
+  changeType: "swap",
+});
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("createMemoryUnitOfWork", () => {
+  it("seeds plan tiers and blog categories", async () => {
+    const uow = createUow();
+
+    const tiers = await uow.planTiers.findAll();
+    expect(tiers.map((t) => t.id)).toEqual(["free", "starter", "professional"]);
+    expect((await uow.planTiers.findById("free"))?.maxDocuments).toBe(10);
+
+    const categories = await uow.blogCategories.findAll();
+    expect(categories).toHaveLength(5);
+    expect(await uow.blogCategories.findBySlug("legal")).toMatchObject({ id: 4, name: "Legal" });
+  });
+
+  it("rejects a duplicate user email like the unique index", async () => {
+    const uow = createUow();
+    const user = await uow.users.create(newUser("alex@example.com"));
+
+    expect(user.createdAt).toBe(NOW.toISOString());
+    expect(await uow.users.findByEmail("alex@example.com")).toEqual(user);
+    await expect(uow.users.create(newUser("alex@example.com"))).rejects.toBeInstanceOf(UniqueViolationError);
+  });
+
+  it("returns copies so callers cannot mutate stored rows", async () => {
+    const uow = createUow();
+    const user = await uow.users.create(newUser("alex@example.com"));
+
+    user.fullName = "Changed";
+
+    expect((await uow.users.findById(user.id))?.fullName).toBe("Alex Rivera");
+  });
+
+  it("orders reminders by due date with undated reminders last", async () => {
+    const uow = createUow();
+    seedFamily(uow);
+    const base = { familyId: "fam-1", parentId: "parent-1", completed: false };
+    await uow.reminders.create({ ...base, text: "undated" });
+    await uow.reminders.create({ ...base, text: "later", dueAt: "2025-03-10T09:00:00.000Z" });
+    await uow.reminders.create({ ...base, text: "sooner", dueAt: "2025-03-05T09:00:00.000Z" });
+
+    const reminders = await uow.reminders.findByParentId("parent-1");
+
+    expect(reminders.map((r) => r.text)).toEqual(["sooner", "later", "undated"]);
+  });
+
+  it("applies change request status transitions", async () => {
+    const uow = createUow();
+    seedFamily(uow);
+    const approved = await uow.scheduleChangeRequests.create(newChangeRequest("Swap weekend"));
+    const pending = await uow.scheduleChangeRequests.create(newChangeRequest("Trade Friday"));
+
+    const accepted = await uow.scheduleChangeRequests.approve(approved.id, "parent-2", "Sure");
+    expect(accepted).toMatchObject({ status: "accepted", respondedBy: "parent-2", responseNote: "Sure" });
+
+    // Only pending requests can be withdrawn
+    expect(await uow.scheduleChangeRequests.withdraw(approved.id, "parent-1")).toBe(false);
+    expect(await uow.scheduleChangeRequests.withdraw(pending.id, "parent-1")).toBe(true);
+    expect((await uow.scheduleChangeRequests.findById(pending.id))?.status).toBe("withdrawn");
+    expect(await uow.scheduleChangeRequests.findPendingByFamilyId("fam-1")).toEqual([]);
+  });
+
+  it("keeps one active custody schedule per child alongside the family schedule", async () => {
+    const uow = createUow();
+    seedFamily(uow);
+    const schedule = (name: string, childId?: string) => ({
+      familyId: "fam-1",
+      childId,
+      name,
+      transitionHour: 17,
+      blocks: "[]",
+      isActive: true,
+    });
+    const family = await uow.custodySchedules.create(schedule("2-2-3"));
+    const mia = await uow.custodySchedules.create(schedule("Mia's weeks", "child-mia"));
+    const miaSummer = await uow.custodySchedules.create({ ...schedule("Mia's summer", "child-mia"), isActive: false });
+
+    await expect(uow.custodySchedules.create(schedule("Duplicate", "child-mia"))).rejects.toBeInstanceOf(
+      UniqueViolationError
+    );
+    expect(await uow.custodySchedules.setActive("fam-1", miaSummer.id)).toBe(true);
+
+    expect((await uow.custodySchedules.findActiveByFamilyId("fam-1"))?.id).toBe(family.id);
+    expect((await uow.custodySchedules.findActiveChildSchedules("fam-1")).map((s) => s.id)).toEqual([miaSummer.id]);
+    expect((await uow.custodySchedules.findById(mia.id))?.isActive).toBe(false);
+  });
+
+  it("upserts invoices on the Stripe invoice id", async () => {
+    const uow = createUow();
+    const invoice = {
+      stripeCustomerId: "cust-1",
+      stripeInvoiceId: "in_123",
+      status: "open" as const,
+      currency: "usd",
+      subtotal: 999,
+      total: 999,
+      amountDue: 999,
+      amountPaid: 0,
+      amountRemaining: 999,
+      tax: 0,
+      metadata: {},
+    };
+
+    const created = await uow.invoices.upsert(invoice);
+    const updated = await uow.invoices.upsert({ ...invoice, status: "paid", amountPaid: 999, amountRemaining: 0 });
+
+    expect(updated.id).toBe(created.id);
+    expect(await uow.invoices.findByCustomer("cust-1")).toEqual([
+      expect.objectContaining({ status: "paid", amountPaid: 999 }),
+    ]);
+    expect(await uow.invoices.findOpen("cust-1")).toEqual([]);
+  });
+
+  describe("schoolVaultDocuments", () => {
+    const document = (title: string) => ({
+      familyId: "fam-1",
+      title,
+      fileType: "pdf",
+      addedBy: "parent-1",
+      sizeBytes: 1000,
+    });
+
+    it("enforces the plan tier's document quota", async () => {
+      const uow = createUow();
+      seedFamily(uow, "free");
+      for (let i = 0; i < 10; i++) {
+        await uow.schoolVaultDocuments.create(document(`Form ${i}`));
+      }
+
+      await expect(uow.schoolVaultDocuments.create(document("One too many"))).rejects.toMatchObject({
+        statusCode: 429,
+      });
+      expect((await uow.subscriptions.findActive("cust-1"))?.usedStorageBytes).toBe(10_000);
+    });
+
+    it("soft deletes documents and reclaims storage", async () => {
+      const uow = createUow();
+      seedFamily(uow, "free");
+      const created = await uow.schoolVaultDocuments.create(document("Permission slip"));
+
+      expect(await uow.schoolVaultDocuments.delete(created.id, "fam-1")).toBe(true);
+      expect(await uow.schoolVaultDocuments.delete(created.id, "fam-1")).toBe(false);
+      expect(await uow.schoolVaultDocuments.findByStatus("fam-1", "available")).toEqual([]);
+      expect((await uow.schoolVaultDocuments.findById(created.id))?.isDeleted).toBe(true);
+      expect((await uow.subscriptions.findActive("cust-1"))?.usedStorageBytes).toBe(0);
+    });
+
+    it("rejects unsupported file types", async () => {
+      const uow = createUow();
+      seedFamily(uow);
+
+      await expect(
+        uow.schoolVaultDocuments.create({ ...document("Script"), fileType: "exe" })
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe("transactions", () => {
+    it("restores the store on rollback", async () => {
+      const uow = createUow();
+      await uow.users.create(newUser("kept@example.com"));
+
+      await uow.beginTransaction();
+      await uow.users.create(newUser("discarded@example.com"));
+      await uow.rollback();
+
+      expect(await uow.users.findByEmail("kept@example.com")).not.toBeNull();
+      expect(await uow.users.findByEmail("discarded@example.com")).toBeNull();
+    });
+
+    it("throws when committing without an open transaction", async () => {
+      await expect(createUow().commit()).rejects.toThrow("without an open transaction");
+    });
+  });
+});
+
+describe("persistence module with the memory driver", () => {
+  const originalDriver = process.env.DB_DRIVER;
+
+  afterEach(() => {
+    _test_resetDbInstance();
+    if (originalDriver === undefined) delete process.env.DB_DRIVER;
+    else process.env.DB_DRIVER = originalDriver;
+  });
+
+  it("selects the in-memory UnitOfWork when DB_DRIVER=memory", () => {
+    process.env.DB_DRIVER = "memory";
+    _test_resetDbInstance();
+
+    expect(isMemoryUnitOfWork(getDb())).toBe(true);
+  });
+
+  it("commits runInTransaction work and rolls it back when fn throws", async () => {
+    const uow = createUow();
+    await initDb(uow);
+
+    await runInTransaction((tx) => tx.users.create(newUser("committed@example.com")));
+    await expect(
+      runInTransaction(async (tx) => {
+        await tx.users.create(newUser("rolled-back@example.com"));
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+
+    expect(await uow.users.findByEmail("committed@example.com")).not.toBeNull();
+    expect(await uow.users.findByEmail("rolled-back@example.com")).toBeNull();
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * Multi-Factor Authentication Tests
+ *
+ * Verifies TOTP codes against the RFC 6238 test vectors, the replay guard,
+ * TOTP secret encryption, recovery code hashing, session-bound step-up
+ * tokens, the AuthEngine second-factor gate, and the in-memory MFA
+ * repositories' single-use guarantees.
+ */
+
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  createStepUpToken,
+  decryptMfaSecret,
+  encryptMfaSecret,
+  generateHotp,
+  generateRecoveryCodes,
+  generateTotpCode,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyStepUpToken,
+  verifyTotpCode,
+} from "@/lib/auth/mfa";
+import { AuthEngine } from "@/lib/auth";
+import { createMemoryUnitOfWork, MemoryStore, type MemoryUnitOfWork } from "@/lib/persistence";
+
+// RFC 6238 Appendix B SHA-1 seed
+const RFC_SECRET = Buffer.from("12345678901234567890", "ascii");
+const RFC_SECRET_BASE32 = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+const NOW = new Date("2025-03-01T12:00:00.000Z");
+
+beforeAll(() => {
+  process.env.MFA_SECRET = "test-mfa-secret";
+});
+
+// ─── Base32 ───────────────────────────────────────────────────────────────────
+
+describe("base32", () => {
+  it("encodes the RFC seed as authenticator apps expect", () => {
+    expect(base32Encode(RFC_SECRET)).toBe(RFC_SECRET_BASE32);
+  });
+
+  it("decodes case- and separator-insensitively", () => {
+    expect(base32Decode("gezd gnbv-gy3t qojq gezdgnbvgy3tqojq")).toEqual(RFC_SECRET);
+  });
+
+  it("rejects characters outside the alphabet", () => {
+    expect(() => base32Decode("GEZD1")).toThrow("Invalid base32 character");
+  });
+});
+
+// ─── TOTP ─────────────────────────────────────────────────────────────────────
+
+describe("TOTP", () => {
+  it.each([
+    [59, "94287082"],
+    [1111111109, "07081804"],
+    [1234567890, "89005924"],
+    [2000000000, "69279037"],
+  ])("matches the RFC 6238 vector at T=%i", (seconds, expected) => {
+    expect(generateHotp(RFC_SECRET, Math.floor(seconds / 30), 8)).toBe(expected);
+  });
+
+  it("generates six-digit codes from a base32 secret", () => {
+    expect(generateTotpCode(RFC_SECRET_BASE32, new Date(1111111109 * 1000))).toBe("081804");
+  });
+
+  it("accepts the current step and one step of drift either way", () => {
+    const secret = generateTotpSecret();
+    const step = Math.floor(NOW.getTime() / 30_000);
+
+    for (const offset of [-1, 0, 1]) {
+      const code = generateTotpCode(secret, new Date(NOW.getTime() + offset * 30_000));
+      expect(verifyTotpCode(secret, code, NOW)).toBe(step + offset);
+    }
+
+    const stale = generateTotpCode(secret, new Date(NOW.getTime() - 2 * 30_000));
+    expect(verifyTotpCode(secret, stale, NOW)).toBeNull();
+  });
+
+  it("refuses a code whose step was already used", () => {
+    const secret = generateTotpSecret();
+    const code = generateTotpCode(secret, NOW);
+    const step = verifyTotpCode(secret, code, NOW);
+
+    expect(step).not.toBeNull();
+    expect(verifyTotpCode(secret, code, NOW, step!)).toBeNull();
+    expect(verifyTotpCode(secret, code, NOW, step! - 1)).toBe(step);
+  });
+
+  it("ignores whitespace and rejects malformed codes", () => {
+    const secret = generateTotpSecret();
+    const code = generateTotpCode(secret, NOW);
+
+    expect(verifyTotpCode(secret, `${code.slice(0, 3)} ${code.slice(3)}`, NOW)).not.toBeNull();
+    expect(verifyTotpCode(secret, "12345", NOW)).toBeNull();
+    expect(verifyTotpCode(secret, "abcdef", NOW)).toBeNull();
+  });
+
+  it("builds an otpauth URI with issuer and account", () => {
+    const uri = buildOtpauthUri(RFC_SECRET_BASE32, "alex@example.com");
+    expect(uri).toMatch(/^otpauth:\/\/totp\/KidSchedule%3Aalex%40example\.com\?/);
+    expect(new URL(uri).searchParams.get("secret")).toBe(RFC_SECRET_BASE32);
+    expect(new URL(uri).searchParams.get("issuer")).toBe("KidSchedule");
+  });
+});
+
+// ─── Secret Encryption ────────────────────────────────────────────────────────
+
+describe("TOTP secret encryption", () => {
+  it("round-trips without storing the plaintext", () => {
+    const secret = generateTotpSecret();
+    const encrypted = encryptMfaSecret(secret);
+
+    expect(encrypted.startsWith("v1.")).toBe(true);
+    expect(encrypted).not.toContain(secret);
+    expect(decryptMfaSecret(encrypted)).toBe(secret);
+  });
+
+  it("uses a fresh IV for every encryption", () => {
+    expect(encryptMfaSecret("same")).not.toBe(encryptMfaSecret("same"));
+  });
+
+  it("rejects tampered ciphertext", () => {
+    const [version, iv, tag, ciphertext] = encryptMfaSecret("secret").split(".");
+    const flipped = Buffer.from(ciphertext, "base64url");
+    flipped[0] ^= 1;
+
+    expect(() => decryptMfaSecret([version, iv, tag, flipped.toString("base64url")].join("."))).toThrow();
+  });
+});
+
+// ─── Recovery Codes ───────────────────────────────────────────────────────────
+
+describe("recovery codes", () => {
+  it("generates ten distinct xxxxx-xxxxx codes", () => {
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    for (const code of codes) {
+      expect(code).toMatch(/^[a-z2-9]{5}-[a-z2-9]{5}$/);
+    }
+  });
+
+  it("hashes case- and separator-insensitively", () => {
+    expect(hashRecoveryCode("ABCDE FGHJK")).toBe(hashRecoveryCode("abcde-fghjk"));
+    expect(hashRecoveryCode("abcde-fghjk")).not.toBe(hashRecoveryCode("abcde-fghjm"));
+  });
+});
+
+// ─── Step-Up Tokens ───────────────────────────────────────────────────────────
+
+describe("step-up tokens", () => {
+  const expiresAt = new Date(NOW.getTime() + 10 * 60 * 1000);
+
+  it("verifies for the same user and session until expiry", () => {
+    const token = createStepUpToken("user-1", "sess-1", expiresAt);
+
+    expect(verifyStepUpToken(token, "user-1", "sess-1", NOW)).toBe(true);
+    expect(verifyStepUpToken(token, "user-1", "sess-1", new Date(expiresAt.getTime() + 1000))).toBe(false);
+  });
+
+  it("is bound to the user and session", () => {
+    const token = createStepUpToken("user-1", "sess-1", expiresAt);
+
+    expect(verifyStepUpToken(token, "user-2", "sess-1", NOW)).toBe(false);
+    expect(verifyStepUpToken(token, "user-1", "sess-2", NOW)).toBe(false);
+  });
+
+  it("rejects missing, malformed and extended tokens", () => {
+    const token = createStepUpToken("user-1", "sess-1", expiresAt);
+    const [, signature] = token.split(".");
+    const extended = `${Math.floor(expiresAt.getTime() / 1000) + 3600}.${signature}`;
+
+    expect(verifyStepUpToken(undefined, "user-1", "sess-1", NOW)).toBe(false);
+    expect(verifyStepUpToken("not-a-token", "user-1", "sess-1", NOW)).toBe(false);
+    expect(verifyStepUpToken(extended, "user-1", "sess-1", NOW)).toBe(false);
+  });
+});
+
+// ─── AuthEngine ───────────────────────────────────────────────────────────────
+
+describe("AuthEngine second factor", () => {
+  const engine = new AuthEngine();
+  const credentials = { email: "mfa@example.com", password: "correct horse", rememberMe: false };
+
+  it("stops at mfa_required when the user has unverified second factors", () => {
+    const result = engine.authenticateWithPassword(
+      credentials,
+      "10.0.0.1",
+      engine.hashPassword(credentials.password),
+      "user-mfa-1",
+      { methods: ["totp", "recovery_code"], verified: false }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("mfa_required");
+    expect(result.mfaMethods).toEqual(["totp", "recovery_code"]);
+    expect(result.session).toBeUndefined();
+  });
+
+  it("issues a session when no second factor is enrolled or it was verified", () => {
+    const hash = engine.hashPassword(credentials.password);
+
+    expect(engine.authenticateWithPassword(credentials, "10.0.0.2", hash, "user-mfa-2").success).toBe(true);
+    expect(
+      engine.authenticateWithPassword(credentials, "10.0.0.2", hash, "user-mfa-2", {
+        methods: ["webauthn", "recovery_code"],
+        verified: true,
+      }).success
+    ).toBe(true);
+  });
+
+  it("applies the second-factor gate to OAuth sign-ins", () => {
+    const result = engine.authenticateWithOAuth(
+      { provider: "google", idToken: "token" },
+      "mfa@example.com",
+      "user-mfa-3",
+      "10.0.0.3",
+      { methods: ["webauthn", "recovery_code"], verified: false }
+    );
+
+    expect(result.error).toBe("mfa_required");
+  });
+
+  it("locks second-factor attempts after repeated failures", () => {
+    const pending = { userId: "user-mfa-4", email: "mfa@example.com", rememberMe: false };
+
+    let result = engine.completeSecondFactor(pending, false, NOW);
+    expect(result.error).toBe("mfa_invalid");
+    expect(result.attemptsRemaining).toBe(4);
+
+    for (let i = 0; i < 4; i++) {
+      result = engine.completeSecondFactor(pending, false, NOW);
+    }
+    expect(result.lockedUntil).toBeDefined();
+
+    // Even a correct code is refused while locked
+    expect(engine.completeSecondFactor(pending, true, NOW).error).toBe("account_locked");
+  });
+
+  it("issues a session once the second factor is verified", () => {
+    const result = engine.completeSecondFactor(
+      { userId: "user-mfa-5", email: "mfa@example.com", rememberMe: true },
+      true,
+      NOW
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.session?.userId).toBe("user-mfa-5");
+    expect(result.session?.rememberMe).toBe(true);
+  });
+});
+
+// ─── In-Memory Repositories ───────────────────────────────────────────────────
+
+describe("memory MFA repositories", () => {
+  let uow: MemoryUnitOfWork;
+
+  beforeEach(() => {
+    uow = createMemoryUnitOfWork(new MemoryStore({ now: () => NOW }));
+  });
+
+  async function createTotpFactor(userId = "user-1") {
+    return uow.mfaFactors.create({
+      userId,
+      type: "totp",
+      label: "Phone",
+      totpSecretEncrypted: encryptMfaSecret(generateTotpSecret()),
+      signCount: 0,
+      transports: [],
+    });
+  }
+
+  it("only returns confirmed factors as usable", async () => {
+    const factor = await createTotpFactor();
+    expect(await uow.mfaFactors.findConfirmedByUserId("user-1")).toHaveLength(0);
+
+    await uow.mfaFactors.confirm(factor.id);
+    expect(await uow.mfaFactors.findConfirmedByUserId("user-1")).toHaveLength(1);
+  });
+
+  it("accepts each TOTP step once and never an older one", async () => {
+    const factor = await createTotpFactor();
+
+    expect(await uow.mfaFactors.recordTotpUse(factor.id, 100)).toBe(true);
+    expect(await uow.mfaFactors.recordTotpUse(factor.id, 100)).toBe(false);
+    expect(await uow.mfaFactors.recordTotpUse(factor.id, 99)).toBe(false);
+    expect(await uow.mfaFactors.recordTotpUse(factor.id, 101)).toBe(true);
+    expect((await uow.mfaFactors.findById(factor.id))?.totpLastUsedStep).toBe(101);
+  });
+
+  it("removes abandoned enrollments without touching confirmed factors", async () => {
+    const confirmed = await createTotpFactor();
+    await uow.mfaFactors.confirm(confirmed.id);
+    await createTotpFactor();
+
+    expect(await uow.mfaFactors.deleteUnconfirmed("user-1")).toBe(1);
+    expect((await uow.mfaFactors.findByUserId("user-1")).map((f) => f.id)).toEqual([confirmed.id]);
+  });
+
+  it("only deletes a factor for its owner", async () => {
+    const factor = await createTotpFactor("user-1");
+
+    expect(await uow.mfaFactors.delete(factor.id, "user-2")).toBe(false);
+    expect(await uow.mfaFactors.delete(factor.id, "user-1")).toBe(true);
+  });
+
+  it("consumes each recovery code once and replaces the whole set", async () => {
+    const codes = generateRecoveryCodes(3);
+    await uow.mfaRecoveryCodes.replaceForUser("user-1", codes.map(hashRecoveryCode));
+
+    expect(await uow.mfaRecoveryCodes.consume("user-1", hashRecoveryCode(codes[0]))).toBe(true);
+    expect(await uow.mfaRecoveryCodes.consume("user-1", hashRecoveryCode(codes[0]))).toBe(false);
+    expect(await uow.mfaRecoveryCodes.consume("user-2", hashRecoveryCode(codes[1]))).toBe(false);
+    expect(await uow.mfaRecoveryCodes.countUnusedByUserId("user-1")).toBe(2);
+
+    await uow.mfaRecoveryCodes.replaceForUser("user-1", generateRecoveryCodes(10).map(hashRecoveryCode));
+    expect(await uow.mfaRecoveryCodes.countUnusedByUserId("user-1")).toBe(10);
+    expect(await uow.mfaRecoveryCodes.consume("user-1", hashRecoveryCode(codes[1]))).toBe(false);
+  });
+
+  it("consumes a challenge once and counts failed attempts", async () => {
+    const challenge = await uow.mfaChallenges.create({
+      userId: "user-1",
+      purpose: "login",
+      rememberMe: false,
+      expiresAt: new Date(NOW.getTime() + 5 * 60 * 1000).toISOString(),
+    });
+
+    expect((await uow.mfaChallenges.incrementAttempts(challenge.id))?.attemptCount).toBe(1);
+    expect(await uow.mfaChallenges.consume(challenge.id)).toBe(true);
+    expect(await uow.mfaChallenges.consume(challenge.id)).toBe(false);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Notification Event Bus Tests
+ *
+ * Verifies that events reach the other parent over their preferred channels,
+ * are recorded once per entity, respect per-type opt-outs, and that digest
+ * parents receive a single summary email after their digest hour.
+ */
+
+const mockSmsSend = jest.fn();
+const mockEmailSend = jest.fn();
+const mockPushSend = jest.fn();
+
+jest.mock("@/lib/providers/sms", () => ({
+  getSmsSender: () => ({ send: mockSmsSend }),
+}));
+
+jest.mock("@/lib/providers/email", () => ({
+  getEmailSender: () => ({ send: mockEmailSend }),
+}));
+
+jest.mock("@/lib/providers/push", () => ({
+  getPushSender: () => ({ publicKey: "BPublicVapidKey", send: mockPushSend }),
+}));
+
+import {
+  _test_resetDbInstance,
+  createMemoryUnitOfWork,
+  initDb,
+  type DbFamily,
+  type DbMessage,
+  type DbNotificationPreference,
+  type DbParent,
+  type MemoryUnitOfWork,
+} from "@/lib/persistence";
+import { NotificationEventBus, renderNotificationEvent, type NotificationEvent } from "@/lib/notification-events";
+import { digestCutoff } from "@/lib/notification-preferences";
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+const TZ = "America/New_York"; // UTC-5 in January
+
+const changeRequest: NotificationEvent = {
+  type: "change_request.created",
+  familyId: "fam-1",
+  actorParentId: "parent-alex",
+  payload: { requestId: "req-1", title: "Swap Thanksgiving weekend" },
+};
+
+function preference(overrides: Partial<DbNotificationPreference> = {}): DbNotificationPreference {
+  return {
+    parentId: "parent-sam",
+    familyId: "fam-1",
+    types: {},
+    createdAt: "2025-01-01T00:00:00.000Z",
+    updatedAt: "2025-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function seed(uow: MemoryUnitOfWork): void {
+  const now = "2025-01-01T00:00:00.000Z";
+  uow.store.table<DbFamily>("families").insert({
+    id: "fam-1",
+    name: "Rivera",
+    custodyAnchorDate: "2025-01-06",
+    scheduleId: "2-2-3",
+    timezone: TZ,
+    createdAt: now,
+    updatedAt: now,
+  });
+  const parents = uow.store.table<DbParent>("parents");
+  parents.insert({
+    id: "parent-alex",
+    userId: "user-alex",
+    familyId: "fam-1",
+    name: "Alex",
+    email: "alex@example.com",
+    role: "primary",
+    createdAt: now,
+  });
+  parents.insert({
+    id: "parent-sam",
+    userId: "user-sam",
+    familyId: "fam-1",
+    name: "Sam",
+    email: "sam@example.com",
+    role: "secondary",
+    createdAt: now,
+  });
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("renderNotificationEvent", () => {
+  it("fills each type's template from the stored payload", () => {
+    const rendered = renderNotificationEvent({
+      eventType: "expense.awaiting_reimbursement",
+      payload: { expenseId: "exp-1", title: "Soccer cleats", amountCents: 4250, currency: "USD", actorName: "Alex" },
+    });
+
+    expect(rendered).toMatchObject({
+      subject: "Alex logged an expense for reimbursement",
+      body: 'Alex paid for "Soccer cleats". Your share is $42.50.',
+      url: "/expenses",
+      tag: "expense.awaiting_reimbursement",
+    });
+  });
+});
+
+describe("digestCutoff", () => {
+  it("returns today's digest hour once it has passed, otherwise yesterday's", () => {
+    // 19:30 and 17:30 New York
+    expect(digestCutoff(new Date("2025-01-16T00:30:00Z"), 18, TZ).toISOString()).toBe("2025-01-15T23:00:00.000Z");
+    expect(digestCutoff(new Date("2025-01-15T22:30:00Z"), 18, TZ).toISOString()).toBe("2025-01-14T23:00:00.000Z");
+  });
+});
+
+describe("NotificationEventBus", () => {
+  let uow: MemoryUnitOfWork;
+
+  beforeEach(async () => {
+    jest.useFakeTimers().setSystemTime(new Date("2025-01-15T15:00:00Z"));
+    mockSmsSend.mockReset().mockResolvedValue({ success: true, messageId: "sms-1" });
+    mockEmailSend.mockReset().mockResolvedValue({ success: true, messageId: "email-1" });
+    mockPushSend.mockReset().mockResolvedValue({ success: true, messageId: "push-1" });
+    uow = createMemoryUnitOfWork();
+    await initDb(uow);
+    seed(uow);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    _test_resetDbInstance();
+  });
+
+  it("notifies the other parent and records the channel used", async () => {
+    await uow.pushSubscriptions.upsert({
+      parentId: "parent-sam",
+      endpoint: "https://push.example.com/sam",
+      p256dh: "key",
+      auth: "auth",
+    });
+
+    const [event] = await new NotificationEventBus().publish(changeRequest);
+
+    expect(event).toMatchObject({
+      recipientParentId: "parent-sam",
+      dedupeKey: "change_request.created:req-1",
+      status: "sent",
+      deliveryMethod: "push",
+    });
+    expect(mockPushSend).toHaveBeenCalledTimes(1);
+    expect(mockPushSend.mock.calls[0][0].payload).toMatchObject({
+      title: "Alex requested a schedule change",
+      url: "/calendar/change-request/req-1",
+      tag: "change_request.created",
+    });
+  });
+
+  it("falls through to the next channel when the first cannot deliver", async () => {
+    const [event] = await new NotificationEventBus().publish(changeRequest);
+
+    expect(event).toMatchObject({ status: "sent", deliveryMethod: "email" });
+    expect(mockEmailSend).toHaveBeenCalledWith(
+      expect.objectContaining({ to: "sam@example.com", subject: "Alex requested a schedule change" })
+    );
+  });
+
+  it("notifies each parent only once per entity", async () => {
+    const bus = new NotificationEventBus();
+    await bus.publish(changeRequest);
+
+    expect(await bus.publish(changeRequest)).toEqual([]);
+    expect(mockEmailSend).toHaveBeenCalledTimes(1);
+  });
+
+  it("records but does not send events the parent turned off", async () => {
+    await uow.notificationPreferences.upsert(
+      preference({ events: { "change_request.created": { enabled: false, channels: ["email"] } } })
+    );
+
+    const [event] = await new NotificationEventBus().publish(changeRequest);
+
+    expect(event.status).toBe("skipped");
+    expect(mockEmailSend).not.toHaveBeenCalled();
+  });
+
+  it("batches events into one digest email after the parent's digest hour", async () => {
+    await uow.notificationPreferences.upsert(preference({ digestHour: 18 }));
+    const bus = new NotificationEventBus();
+
+    await bus.publish(changeRequest);
+    await bus.publish({
+      type: "vault.signature_requested",
+      familyId: "fam-1",
+      actorParentId: "parent-alex",
+      payload: { documentId: "doc-1", title: "Field trip form", actionDeadline: "2025-01-20" },
+    });
+    expect(mockEmailSend).not.toHaveBeenCalled();
+
+    // 17:00 New York — before today's digest hour
+    expect(await bus.sendDigests(new Date("2025-01-15T22:00:00Z"))).toEqual({ recipients: 0, events: 0, failed: 0 });
+
+    // 18:05 New York
+    expect(await bus.sendDigests(new Date("2025-01-15T23:05:00Z"))).toEqual({ recipients: 1, events: 2, failed: 0 });
+    expect(mockEmailSend).toHaveBeenCalledTimes(1);
+    expect(mockEmailSend.mock.calls[0][0]).toMatchObject({ to: "sam@example.com", subject: "2 updates in KidSchedule" });
+    expect(mockEmailSend.mock.calls[0][0].variables.message).toContain('Sign "Field trip form" by 2025-01-20');
+
+    const events = await uow.notificationEvents.findByRecipient("parent-sam");
+    expect(events.map((event) => event.status)).toEqual(["digested", "digested"]);
+  });
+
+  it("publishes one unread-message event per message past the threshold", async () => {
+    uow.store.table<DbMessage>("messages").insert({
+      id: "msg-1",
+      threadId: "thread-1",
+      familyId: "fam-1",
+      senderId: "parent-alex",
+      body: "Can you take pickup Friday?",
+      sentAt: "2025-01-15T01:00:00.000Z",
+      attachmentIds: [],
+      messageHash: "hash-1",
+      chainIndex: 0,
+      createdAt: "2025-01-15T01:00:00.000Z",
+      updatedAt: "2025-01-15T01:00:00.000Z",
+    });
+    const bus = new NotificationEventBus();
+    const now = new Date("2025-01-15T15:00:00Z");
+
+    expect(await bus.notifyUnreadMessages(now, 12)).toBe(1);
+    expect(await bus.notifyUnreadMessages(now, 12)).toBe(0);
+    expect(mockEmailSend).toHaveBeenCalledWith(
+      expect.objectContaining({ subject: "Unread message from Alex" })
+    );
+  });
+});
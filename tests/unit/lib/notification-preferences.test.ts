@@ -0,0 +1,337 @@
+/**
+ * Notification Preference Tests
+ *
+ * Verifies preference resolution, quiet-hours arithmetic across midnight and
+ * timezones, and that the scheduler and delivery service honor per-parent
+ * types, channels, lead times and quiet hours.
+ */
+
+const mockSmsSend = jest.fn();
+const mockEmailSend = jest.fn();
+
+jest.mock("@/lib/providers/sms", () => ({
+  getSmsSender: () => ({ send: mockSmsSend }),
+}));
+
+jest.mock("@/lib/providers/email", () => ({
+  getEmailSender: () => ({ send: mockEmailSend }),
+}));
+
+import {
+  _test_resetDbInstance,
+  createMemoryUnitOfWork,
+  initDb,
+  type DbFamily,
+  type DbNotificationPreference,
+  type DbParent,
+  type MemoryUnitOfWork,
+} from "@/lib/persistence";
+import {
+  applyQuietHours,
+  quietHoursEndAfter,
+  resolveNotificationPreferences,
+} from "@/lib/notification-preferences";
+import { NotificationDeliveryService, NotificationSchedulerEngine } from "@/lib/notification";
+import type { Parent, ScheduleTransition } from "@/lib";
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+const TZ = "America/New_York"; // UTC-5 in January
+const QUIET = { start: "22:00", end: "07:00" };
+
+const alex: Parent = { id: "parent-alex", name: "Alex", email: "alex@example.com" };
+const sam: Parent = { id: "parent-sam", name: "Sam", email: "sam@example.com" };
+
+function transition(at: string): ScheduleTransition {
+  return { at: new Date(at), fromParent: alex, toParent: sam } as ScheduleTransition;
+}
+
+function preference(
+  parentId: string,
+  overrides: Partial<DbNotificationPreference> = {}
+): DbNotificationPreference {
+  return {
+    parentId,
+    familyId: "fam-1",
+    types: {},
+    createdAt: "2025-01-01T00:00:00.000Z",
+    updatedAt: "2025-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+// ─── Resolution & Quiet Hours ─────────────────────────────────────────────────
+
+describe("resolveNotificationPreferences", () => {
+  it("falls back to the default alerts when nothing is stored", () => {
+    const resolved = resolveNotificationPreferences(null);
+
+    expect(resolved.types.transition_24h).toEqual({ enabled: true, channels: ["sms"], leadMinutes: 1440 });
+    expect(resolved.types.transition_reminder).toEqual({ enabled: true, channels: ["push"], leadMinutes: 15 });
+    expect(resolved.quietHours).toBeUndefined();
+  });
+
+  it("treats an enabled type without channels as disabled", () => {
+    const resolved = resolveNotificationPreferences(
+      preference("p", { types: { transition_same_day: { enabled: true, channels: [], leadMinutes: 60 } } })
+    );
+
+    expect(resolved.types.transition_same_day.enabled).toBe(false);
+    expect(resolved.types.transition_24h.enabled).toBe(true);
+  });
+});
+
+describe("quietHoursEndAfter", () => {
+  it("returns the next morning for the evening side of a window that wraps midnight", () => {
+    // 23:30 New York
+    expect(quietHoursEndAfter(new Date("2025-01-15T04:30:00Z"), QUIET, TZ)?.toISOString()).toBe(
+      "2025-01-15T12:00:00.000Z"
+    );
+  });
+
+  it("returns the same morning for the early side of the window", () => {
+    // 06:59 New York
+    expect(quietHoursEndAfter(new Date("2025-01-15T11:59:00Z"), QUIET, TZ)?.toISOString()).toBe(
+      "2025-01-15T12:00:00.000Z"
+    );
+  });
+
+  it("returns null outside quiet hours and when none are set", () => {
+    // 07:00 New York — quiet hours have just ended
+    expect(quietHoursEndAfter(new Date("2025-01-15T12:00:00Z"), QUIET, TZ)).toBeNull();
+    expect(quietHoursEndAfter(new Date("2025-01-15T04:30:00Z"), undefined, TZ)).toBeNull();
+  });
+
+  it("handles windows that do not wrap midnight", () => {
+    const nap = { start: "13:00", end: "15:00" };
+    // 14:00 New York
+    expect(quietHoursEndAfter(new Date("2025-01-15T19:00:00Z"), nap, TZ)?.toISOString()).toBe(
+      "2025-01-15T20:00:00.000Z"
+    );
+    expect(quietHoursEndAfter(new Date("2025-01-15T21:00:00Z"), nap, TZ)).toBeNull();
+  });
+});
+
+describe("applyQuietHours", () => {
+  const preferences = { ...resolveNotificationPreferences(null), quietHours: QUIET };
+
+  it("defers to the end of quiet hours when that is still before the transition", () => {
+    const decision = applyQuietHours(
+      new Date("2025-01-15T04:30:00Z"),
+      new Date("2025-01-15T14:00:00Z"),
+      ["sms"],
+      preferences,
+      TZ
+    );
+
+    expect(decision).toEqual({ action: "defer", until: new Date("2025-01-15T12:00:00Z") });
+  });
+
+  it("reroutes to email when waiting would miss the transition", () => {
+    const decision = applyQuietHours(
+      new Date("2025-01-15T11:00:00Z"),
+      new Date("2025-01-15T11:30:00Z"),
+      ["push", "sms"],
+      preferences,
+      TZ
+    );
+
+    expect(decision).toEqual({ action: "send", channels: ["email"], rerouted: true });
+  });
+});
+
+// ─── Scheduler ────────────────────────────────────────────────────────────────
+
+describe("NotificationSchedulerEngine with preferences", () => {
+  const scheduler = new NotificationSchedulerEngine();
+  const now = new Date("2025-01-13T00:00:00Z");
+
+  it("keeps the default 24h, same-day and reminder alerts without stored preferences", () => {
+    const { notifications } = scheduler.scheduleNotifications({
+      familyId: "fam-1",
+      parents: [alex, sam],
+      transitions: [transition("2025-01-15T22:00:00Z")],
+      now,
+      timeZone: TZ,
+    });
+
+    expect(
+      notifications.map((n) => [n.notificationType, n.parentId, n.deliveryMethod, n.scheduledAt])
+    ).toEqual([
+      ["transition_24h", sam.id, "sms", "2025-01-14T22:00:00.000Z"],
+      ["transition_same_day", alex.id, "sms", "2025-01-15T20:00:00.000Z"],
+      ["transition_reminder", sam.id, "push", "2025-01-15T21:45:00.000Z"],
+    ]);
+  });
+
+  it("skips disabled alerts and applies custom channels and lead times", () => {
+    const { notifications } = scheduler.scheduleNotifications({
+      familyId: "fam-1",
+      parents: [alex, sam],
+      transitions: [transition("2025-01-15T22:00:00Z")],
+      now,
+      timeZone: TZ,
+      preferences: [
+        preference(sam.id, {
+          types: {
+            transition_24h: { enabled: true, channels: ["email", "sms"], leadMinutes: 48 * 60 },
+            transition_reminder: { enabled: false, channels: ["push"], leadMinutes: 15 },
+          },
+        }),
+      ],
+    });
+
+    expect(notifications.map((n) => [n.notificationType, n.deliveryMethod, n.scheduledAt])).toEqual([
+      ["transition_24h", "email", "2025-01-13T22:00:00.000Z"],
+      ["transition_same_day", "sms", "2025-01-15T20:00:00.000Z"],
+    ]);
+  });
+
+  it("defers or reroutes alerts that land in the recipient's quiet hours", () => {
+    // Handoff at 09:00 New York
+    const { notifications } = scheduler.scheduleNotifications({
+      familyId: "fam-1",
+      parents: [alex, sam],
+      transitions: [transition("2025-01-16T14:00:00Z")],
+      now,
+      timeZone: TZ,
+      preferences: [
+        // Same-day alert at 07:00 waits until 08:00
+        preference(alex.id, { quietHoursStart: "22:00", quietHoursEnd: "08:00" }),
+        // Reminder at 08:45 cannot wait until 09:30, so it goes by email
+        preference(sam.id, { quietHoursStart: "22:00", quietHoursEnd: "09:30" }),
+      ],
+    });
+
+    const byType = Object.fromEntries(notifications.map((n) => [n.notificationType, n]));
+    expect(byType.transition_same_day).toMatchObject({ scheduledAt: "2025-01-16T13:00:00.000Z", deliveryMethod: "sms" });
+    expect(byType.transition_reminder).toMatchObject({ scheduledAt: "2025-01-16T13:45:00.000Z", deliveryMethod: "email" });
+  });
+
+  it("evaluates quiet hours in the parent's own timezone", () => {
+    const { notifications } = scheduler.scheduleNotifications({
+      familyId: "fam-1",
+      parents: [alex, { ...sam, timezone: "America/Los_Angeles" }],
+      // 24h alert at 14:00 UTC = 06:00 Los Angeles
+      transitions: [transition("2025-01-16T14:00:00Z")],
+      now,
+      timeZone: TZ,
+      preferences: [preference(sam.id, { quietHoursStart: "22:00", quietHoursEnd: "07:00" })],
+    });
+
+    expect(notifications.find((n) => n.notificationType === "transition_24h")?.scheduledAt).toBe(
+      "2025-01-15T15:00:00.000Z"
+    );
+  });
+});
+
+// ─── Delivery ─────────────────────────────────────────────────────────────────
+
+describe("NotificationDeliveryService with preferences", () => {
+  let uow: MemoryUnitOfWork;
+
+  async function seed(parentOverrides: Partial<DbParent> = {}) {
+    const now = "2025-01-01T00:00:00.000Z";
+    uow.store.table<DbFamily>("families").insert({
+      id: "fam-1",
+      name: "Rivera",
+      custodyAnchorDate: "2025-01-06",
+      scheduleId: "2-2-3",
+      timezone: TZ,
+      createdAt: now,
+      updatedAt: now,
+    });
+    uow.store.table<DbParent>("parents").insert({
+      id: sam.id,
+      userId: "user-sam",
+      familyId: "fam-1",
+      name: sam.name,
+      email: sam.email,
+      phone: "+15555550100",
+      role: "secondary",
+      createdAt: now,
+      ...parentOverrides,
+    });
+    return uow.scheduledNotifications.create({
+      familyId: "fam-1",
+      parentId: sam.id,
+      notificationType: "transition_24h",
+      scheduledAt: "2025-01-15T14:00:00.000Z",
+      deliveryMethod: "sms",
+      deliveryStatus: "pending",
+      transitionAt: "2025-01-16T14:00:00.000Z",
+      fromParentId: alex.id,
+      toParentId: sam.id,
+      retryCount: 0,
+    });
+  }
+
+  function deliver(notificationId: string) {
+    return new NotificationDeliveryService().deliverNotification({
+      notificationId,
+      parentId: sam.id,
+      notificationType: "transition_24h",
+      deliveryMethod: "sms",
+      transitionAt: "2025-01-16T14:00:00.000Z",
+      fromParentName: alex.name,
+      toParentName: sam.name,
+    });
+  }
+
+  beforeEach(async () => {
+    jest.useFakeTimers().setSystemTime(new Date("2025-01-15T14:00:00Z"));
+    mockSmsSend.mockReset().mockResolvedValue({ success: true, messageId: "sms-1" });
+    mockEmailSend.mockReset().mockResolvedValue({ success: true, messageId: "email-1" });
+    uow = createMemoryUnitOfWork();
+    await initDb(uow);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    _test_resetDbInstance();
+  });
+
+  it("cancels alerts the parent has turned off since scheduling", async () => {
+    const notification = await seed();
+    await uow.notificationPreferences.upsert(
+      preference(sam.id, { types: { transition_24h: { enabled: false, channels: ["sms"], leadMinutes: 1440 } } })
+    );
+
+    const result = await deliver(notification.id);
+
+    expect(result).toMatchObject({ success: false, retryable: false });
+    expect(mockSmsSend).not.toHaveBeenCalled();
+    expect((await uow.scheduledNotifications.findById(notification.id))?.deliveryStatus).toBe("cancelled");
+  });
+
+  it("defers delivery that falls inside quiet hours", async () => {
+    const notification = await seed();
+    // 09:00 New York is inside 08:00–10:00 quiet hours
+    await uow.notificationPreferences.upsert(preference(sam.id, { quietHoursStart: "08:00", quietHoursEnd: "10:00" }));
+
+    const result = await deliver(notification.id);
+
+    expect(result.deferredUntil).toBe("2025-01-15T15:00:00.000Z");
+    expect(mockSmsSend).not.toHaveBeenCalled();
+    expect(await uow.scheduledNotifications.findById(notification.id)).toMatchObject({
+      deliveryStatus: "pending",
+      scheduledAt: "2025-01-15T15:00:00.000Z",
+    });
+  });
+
+  it("falls back to the parent's next channel and records the one used", async () => {
+    const notification = await seed({ phone: undefined });
+    await uow.notificationPreferences.upsert(
+      preference(sam.id, { types: { transition_24h: { enabled: true, channels: ["sms", "email"], leadMinutes: 1440 } } })
+    );
+
+    const result = await deliver(notification.id);
+
+    expect(result).toMatchObject({ success: true, messageId: "email-1", deliveryMethod: "email" });
+    expect(mockEmailSend).toHaveBeenCalledWith(expect.objectContaining({ to: sam.email }));
+    expect(await uow.scheduledNotifications.findById(notification.id)).toMatchObject({
+      deliveryStatus: "sent",
+      deliveryMethod: "email",
+    });
+  });
+});
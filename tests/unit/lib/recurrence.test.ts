@@ -0,0 +1,132 @@
+/**
+ * Recurrence Rule Tests
+ *
+ * Verifies RRULE parsing and expansion on wall-clock days, including DST,
+ * ordinal BYDAY, COUNT/UNTIL and EXDATE handling.
+ */
+
+import { expandRecurrence, formatRRule, parseRRule } from "@/lib/calendar/recurrence";
+
+const iso = (dates: Date[]) => dates.map((d) => d.toISOString());
+
+describe("parseRRule", () => {
+  it("parses the common school/league fields", () => {
+    const rule = parseRRule("FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;COUNT=6");
+
+    expect(rule).toEqual({
+      freq: "WEEKLY",
+      interval: 2,
+      count: 6,
+      byDay: [{ weekday: "TU" }, { weekday: "TH" }],
+    });
+  });
+
+  it("treats a DATE UNTIL as inclusive through that local day", () => {
+    const rule = parseRRule("FREQ=DAILY;UNTIL=20260310", "America/New_York");
+
+    expect(rule?.until?.toISOString()).toBe("2026-03-11T03:59:59.999Z");
+  });
+
+  it("rejects unsupported or malformed rules", () => {
+    expect(parseRRule("FREQ=HOURLY")).toBeNull();
+    expect(parseRRule("INTERVAL=2")).toBeNull();
+    expect(parseRRule("FREQ=WEEKLY;BYDAY=XX")).toBeNull();
+  });
+
+  it("round-trips through formatRRule", () => {
+    const value = "FREQ=MONTHLY;BYDAY=-1FR;COUNT=3";
+
+    expect(parseRRule(formatRRule(parseRRule(value)!))).toEqual(parseRRule(value));
+  });
+});
+
+describe("expandRecurrence", () => {
+  it("keeps local time across a DST change", () => {
+    const starts = expandRecurrence({
+      start: new Date("2026-03-05T21:00:00.000Z"), // Thu 4 PM EST
+      rule: parseRRule("FREQ=WEEKLY;COUNT=3")!,
+      timeZone: "America/New_York",
+      rangeEnd: new Date("2026-12-31T00:00:00.000Z"),
+    });
+
+    expect(iso(starts)).toEqual([
+      "2026-03-05T21:00:00.000Z",
+      "2026-03-12T20:00:00.000Z", // 4 PM EDT
+      "2026-03-19T20:00:00.000Z",
+    ]);
+  });
+
+  it("expands BYDAY within each week and honours INTERVAL", () => {
+    const starts = expandRecurrence({
+      start: new Date("2026-01-06T00:00:00.000Z"), // Tuesday
+      rule: parseRRule("FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH")!,
+      timeZone: "UTC",
+      rangeEnd: new Date("2026-01-23T00:00:00.000Z"),
+    });
+
+    expect(iso(starts)).toEqual([
+      "2026-01-06T00:00:00.000Z",
+      "2026-01-08T00:00:00.000Z",
+      "2026-01-20T00:00:00.000Z",
+      "2026-01-22T00:00:00.000Z",
+    ]);
+  });
+
+  it("supports ordinal weekdays such as the last Friday of the month", () => {
+    const starts = expandRecurrence({
+      start: new Date("2026-01-30T18:00:00.000Z"),
+      rule: parseRRule("FREQ=MONTHLY;BYDAY=-1FR;COUNT=3")!,
+      timeZone: "UTC",
+      rangeEnd: new Date("2027-01-01T00:00:00.000Z"),
+    });
+
+    expect(iso(starts)).toEqual([
+      "2026-01-30T18:00:00.000Z",
+      "2026-02-27T18:00:00.000Z",
+      "2026-03-27T18:00:00.000Z",
+    ]);
+  });
+
+  it("applies COUNT before removing EXDATEs", () => {
+    const starts = expandRecurrence({
+      start: new Date("2026-02-02T00:00:00.000Z"),
+      rule: parseRRule("FREQ=DAILY;COUNT=3")!,
+      timeZone: "UTC",
+      exdates: [new Date("2026-02-03T00:00:00.000Z")],
+      rangeEnd: new Date("2026-12-31T00:00:00.000Z"),
+    });
+
+    expect(iso(starts)).toEqual(["2026-02-02T00:00:00.000Z", "2026-02-04T00:00:00.000Z"]);
+  });
+
+  it("stops at UNTIL and filters to the requested range", () => {
+    const starts = expandRecurrence({
+      start: new Date("2026-02-01T12:00:00.000Z"),
+      rule: parseRRule("FREQ=DAILY;UNTIL=20260210T120000Z")!,
+      timeZone: "UTC",
+      rangeStart: new Date("2026-02-08T00:00:00.000Z"),
+      rangeEnd: new Date("2026-12-31T00:00:00.000Z"),
+    });
+
+    expect(iso(starts)).toEqual([
+      "2026-02-08T12:00:00.000Z",
+      "2026-02-09T12:00:00.000Z",
+      "2026-02-10T12:00:00.000Z",
+    ]);
+  });
+
+  it("skips months without the requested day of month", () => {
+    const starts = expandRecurrence({
+      start: new Date("2026-01-31T00:00:00.000Z"),
+      rule: parseRRule("FREQ=MONTHLY;COUNT=3")!,
+      timeZone: "UTC",
+      rangeEnd: new Date("2027-01-01T00:00:00.000Z"),
+    });
+
+    expect(iso(starts)).toEqual([
+      "2026-01-31T00:00:00.000Z",
+      "2026-03-31T00:00:00.000Z",
+      "2026-05-31T00:00:00.000Z",
+    ]);
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Recurring Event Tests
+ *
+ * Verifies occurrence expansion with per-occurrence exceptions, occurrence
+ * ids, series splitting, and the "this / following / all" edit and delete
+ * operations in the event service.
+ *
+ * Uses Jest mocks — no real DB connection required.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+// ─── Setup Mocks ──────────────────────────────────────────────────────────────
+
+const mockDb = {
+  families: { findById: jest.fn() },
+  calendarEvents: {
+    findById: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+  calendarEventExceptions: {
+    findByEventId: jest.fn(),
+    upsert: jest.fn(),
+    deleteByEventIdFrom: jest.fn(),
+  },
+};
+
+jest.mock("@/lib/persistence", () => ({
+  db: mockDb,
+  runInTransaction: (fn: (uow: unknown) => unknown) => fn(mockDb),
+}));
+
+jest.mock("@/lib/auth", () => ({
+  audit: { log: jest.fn() },
+}));
+
+// ─── Imports ──────────────────────────────────────────────────────────────────
+
+import {
+  computeRecurrenceEndAt,
+  expandEventOccurrences,
+  formatOccurrenceId,
+  parseOccurrenceId,
+  splitRecurrenceRule,
+} from "@/lib/calendar/occurrences";
+import { deleteEventOccurrence, updateEventOccurrence } from "@/lib/calendar/event-service";
+import type { DbCalendarEvent, DbCalendarEventException } from "@/lib/persistence/types";
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+const TZ = "America/New_York";
+
+/** Soccer practice, Tuesdays and Thursdays 4–5 PM Eastern, from Tue 3 March 2026. */
+const practice: DbCalendarEvent = {
+  id: "series-1",
+  familyId: "family-1",
+  title: "Soccer Practice",
+  category: "activity",
+  startAt: "2026-03-03T21:00:00.000Z",
+  endAt: "2026-03-03T22:00:00.000Z",
+  allDay: false,
+  confirmationStatus: "confirmed",
+  createdBy: "parent-a",
+  recurrenceRule: "FREQ=WEEKLY;BYDAY=TU,TH;COUNT=6",
+  createdAt: "2026-02-01T00:00:00.000Z",
+  updatedAt: "2026-02-01T00:00:00.000Z",
+};
+
+function exception(overrides: Partial<DbCalendarEventException>): DbCalendarEventException {
+  return {
+    id: "exception-1",
+    eventId: practice.id,
+    familyId: practice.familyId,
+    originalStartAt: "2026-03-05T21:00:00.000Z",
+    cancelled: false,
+    createdAt: "2026-02-01T00:00:00.000Z",
+    updatedAt: "2026-02-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+const march = { start: new Date("2026-03-01T00:00:00.000Z"), end: new Date("2026-04-01T00:00:00.000Z") };
+
+// ─── Test Suites ──────────────────────────────────────────────────────────────
+
+describe("occurrence ids", () => {
+  it("round-trips the series id and original start", () => {
+    const id = formatOccurrenceId("series_with_underscores", "2026-03-12T20:00:00.000Z");
+
+    expect(id).toBe("series_with_underscores_20260312T200000Z");
+    expect(parseOccurrenceId(id)).toEqual({
+      eventId: "series_with_underscores",
+      originalStartAt: "2026-03-12T20:00:00.000Z",
+    });
+    expect(parseOccurrenceId("3f2a9c1e-plain-id")).toBeNull();
+  });
+});
+
+describe("expandEventOccurrences", () => {
+  it("expands series across DST and passes single events through", () => {
+    const single = { ...practice, id: "single", recurrenceRule: undefined, startAt: "2026-03-04T15:00:00.000Z", endAt: "2026-03-04T16:00:00.000Z" };
+
+    const events = expandEventOccurrences([practice, single], [], march, TZ);
+
+    expect(events.map((e) => [e.id, e.startAt])).toEqual([
+      ["series-1_20260303T210000Z", "2026-03-03T21:00:00.000Z"],
+      ["single", "2026-03-04T15:00:00.000Z"],
+      ["series-1_20260305T210000Z", "2026-03-05T21:00:00.000Z"],
+      ["series-1_20260310T200000Z", "2026-03-10T20:00:00.000Z"], // 4 PM EDT
+      ["series-1_20260312T200000Z", "2026-03-12T20:00:00.000Z"],
+      ["series-1_20260317T200000Z", "2026-03-17T20:00:00.000Z"],
+      ["series-1_20260319T200000Z", "2026-03-19T20:00:00.000Z"],
+    ]);
+    expect(events[0]).toMatchObject({ recurringEventId: "series-1", originalStartAt: "2026-03-03T21:00:00.000Z" });
+  });
+
+  it("applies edited and cancelled occurrences", () => {
+    const events = expandEventOccurrences(
+      [practice],
+      [
+        exception({ title: "Scrimmage", startAt: "2026-03-05T22:00:00.000Z", endAt: "2026-03-05T23:30:00.000Z" }),
+        exception({ id: "exception-2", originalStartAt: "2026-03-10T20:00:00.000Z", cancelled: true }),
+      ],
+      march,
+      TZ
+    );
+
+    expect(events).toHaveLength(5);
+    expect(events[1]).toMatchObject({
+      id: "series-1_20260305T210000Z",
+      title: "Scrimmage",
+      startAt: "2026-03-05T22:00:00.000Z",
+      endAt: "2026-03-05T23:30:00.000Z",
+    });
+    expect(events.map((e) => e.id)).not.toContain("series-1_20260310T200000Z");
+  });
+
+  it("includes occurrences moved into the range from outside it", () => {
+    const events = expandEventOccurrences(
+      [practice],
+      [exception({ originalStartAt: "2026-03-19T20:00:00.000Z", startAt: "2026-04-02T20:00:00.000Z", endAt: "2026-04-02T21:00:00.000Z" })],
+      { start: new Date("2026-04-01T00:00:00.000Z"), end: new Date("2026-04-30T00:00:00.000Z") },
+      TZ
+    );
+
+    expect(events.map((e) => e.id)).toEqual(["series-1_20260319T200000Z"]);
+  });
+});
+
+describe("series helpers", () => {
+  it("caches the end of the last occurrence, or none for open-ended rules", () => {
+    expect(computeRecurrenceEndAt(practice, TZ)).toBe("2026-03-19T21:00:00.000Z");
+    expect(computeRecurrenceEndAt({ ...practice, recurrenceRule: "FREQ=DAILY" }, TZ)).toBeUndefined();
+  });
+
+  it("divides COUNT or sets UNTIL when splitting a series", () => {
+    const splitAt = new Date("2026-03-12T20:00:00.000Z");
+
+    expect(splitRecurrenceRule(practice, splitAt, TZ)).toEqual({
+      before: "FREQ=WEEKLY;COUNT=3;BYDAY=TU,TH",
+      after: "FREQ=WEEKLY;COUNT=3;BYDAY=TU,TH",
+    });
+    expect(splitRecurrenceRule({ ...practice, recurrenceRule: "FREQ=WEEKLY;BYDAY=TU,TH" }, splitAt, TZ)).toEqual({
+      before: "FREQ=WEEKLY;UNTIL=20260312T195959Z;BYDAY=TU,TH",
+      after: "FREQ=WEEKLY;BYDAY=TU,TH",
+    });
+  });
+});
+
+describe("recurring event operations", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.families.findById.mockResolvedValue({ id: "family-1", timezone: TZ });
+    mockDb.calendarEvents.findById.mockResolvedValue(practice);
+    mockDb.calendarEvents.create.mockImplementation(async (data: any) => ({ ...data, id: "series-2" }));
+    mockDb.calendarEvents.update.mockImplementation(async (id: string, data: any) => ({ ...practice, ...data, id }));
+    mockDb.calendarEvents.delete.mockResolvedValue(true);
+    mockDb.calendarEventExceptions.findByEventId.mockResolvedValue([]);
+    mockDb.calendarEventExceptions.upsert.mockImplementation(async (data: any) => exception(data));
+    mockDb.calendarEventExceptions.deleteByEventIdFrom.mockResolvedValue(0);
+  });
+
+  it("stores an exception when editing a single occurrence", async () => {
+    const result = await updateEventOccurrence(
+      "series-1",
+      "2026-03-10T20:00:00.000Z",
+      { location: "Field 2" },
+      "this",
+      "user-1"
+    );
+
+    expect(result).toMatchObject({
+      success: true,
+      event: { id: "series-1_20260310T200000Z", location: "Field 2", startAt: "2026-03-10T20:00:00.000Z" },
+    });
+    expect(mockDb.calendarEventExceptions.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ eventId: "series-1", originalStartAt: "2026-03-10T20:00:00.000Z", location: "Field 2" })
+    );
+    expect(mockDb.calendarEvents.update).not.toHaveBeenCalled();
+  });
+
+  it("splits the series when editing this and following occurrences", async () => {
+    const result = await updateEventOccurrence(
+      "series-1",
+      "2026-03-12T20:00:00.000Z",
+      { title: "Spring Practice" },
+      "following",
+      "user-1"
+    );
+
+    expect(mockDb.calendarEvents.update).toHaveBeenCalledWith("series-1", {
+      recurrenceRule: "FREQ=WEEKLY;COUNT=3;BYDAY=TU,TH",
+      recurrenceEndAt: "2026-03-10T21:00:00.000Z",
+    });
+    expect(mockDb.calendarEventExceptions.deleteByEventIdFrom).toHaveBeenCalledWith("series-1", "2026-03-12T20:00:00.000Z");
+    expect(result).toMatchObject({
+      success: true,
+      event: {
+        id: "series-2",
+        title: "Spring Practice",
+        startAt: "2026-03-12T20:00:00.000Z",
+        endAt: "2026-03-12T21:00:00.000Z",
+        recurrenceRule: "FREQ=WEEKLY;COUNT=3;BYDAY=TU,TH",
+      },
+    });
+  });
+
+  it("moves the whole series by the occurrence's offset for scope all", async () => {
+    await updateEventOccurrence(
+      "series-1",
+      "2026-03-12T20:00:00.000Z",
+      { startAt: "2026-03-12T21:00:00.000Z" },
+      "all",
+      "user-1"
+    );
+
+    expect(mockDb.calendarEvents.update).toHaveBeenCalledWith(
+      "series-1",
+      expect.objectContaining({ startAt: "2026-03-03T22:00:00.000Z", endAt: "2026-03-03T23:00:00.000Z" })
+    );
+  });
+
+  it("cancels one occurrence or deletes the series", async () => {
+    await deleteEventOccurrence("series-1", "2026-03-05T21:00:00.000Z", "this", "user-1");
+    expect(mockDb.calendarEventExceptions.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ originalStartAt: "2026-03-05T21:00:00.000Z", cancelled: true })
+    );
+
+    await deleteEventOccurrence("series-1", "2026-03-03T21:00:00.000Z", "following", "user-1");
+    expect(mockDb.calendarEvents.delete).toHaveBeenCalledWith("series-1");
+  });
+
+  it("rejects start times that are not occurrences of the series", async () => {
+    const result = await deleteEventOccurrence("series-1", "2026-03-04T21:00:00.000Z", "this", "user-1");
+
+    expect(result).toEqual({ success: false, error: "Occurrence not found" });
+    expect(mockDb.calendarEventExceptions.upsert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Recurring Expense Tests
+ *
+ * Verifies the occurrence schedule (month-end clamping, end dates) and
+ * template generation against the in-memory database: due occurrences
+ * become expenses exactly once, the template advances and ends after its
+ * last occurrence, resuming a paused template skips missed dates, and a
+ * missing exchange rate holds generation at that occurrence.
+ */
+
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  _test_resetDbInstance,
+  createMemoryUnitOfWork,
+  initDb,
+  type DbParent,
+  type MemoryUnitOfWork,
+} from "@/lib/persistence";
+import {
+  createRecurringExpense,
+  generateAllDueExpenses,
+  generateDueExpenses,
+  nextOccurrenceAfter,
+  occurrenceDate,
+  occurrencesBetween,
+  setRecurringExpenseStatus,
+  type CreateRecurringExpenseInput,
+} from "@/lib/recurring-expenses";
+import { _test_resetRatesCache } from "@/lib/exchange-rates";
+
+const ALEX = "parent-alex";
+const SAM = "parent-sam";
+
+// ─── Schedule ─────────────────────────────────────────────────────────────────
+
+describe("recurring expense schedule", () => {
+  it("keeps month-end dates on the last day of shorter months", () => {
+    expect([0, 1, 2, 3].map((i) => occurrenceDate("2025-01-31", "monthly", i))).toEqual([
+      "2025-01-31",
+      "2025-02-28",
+      "2025-03-31",
+      "2025-04-30",
+    ]);
+    expect(occurrenceDate("2024-02-29", "yearly", 1)).toBe("2025-02-28");
+    expect(occurrenceDate("2025-11-15", "quarterly", 1)).toBe("2026-02-15");
+    expect(occurrenceDate("2025-03-03", "biweekly", 2)).toBe("2025-03-31");
+  });
+
+  it("stops at the end date", () => {
+    const schedule = { startDate: "2025-01-06", endDate: "2025-01-27", frequency: "weekly" as const };
+
+    expect(occurrencesBetween(schedule, "2025-01-10", "2025-03-01")).toEqual(["2025-01-13", "2025-01-20", "2025-01-27"]);
+    expect(nextOccurrenceAfter(schedule, "2025-01-20")).toBe("2025-01-27");
+    expect(nextOccurrenceAfter(schedule, "2025-01-27")).toBeNull();
+  });
+});
+
+// ─── Templates ────────────────────────────────────────────────────────────────
+
+describe("recurring expense templates", () => {
+  let uow: MemoryUnitOfWork;
+
+  function seedParents(): void {
+    const parents = uow.store.table<DbParent>("parents");
+    for (const [id, name] of [
+      [ALEX, "Alex"],
+      [SAM, "Sam"],
+    ]) {
+      parents.insert({
+        id,
+        userId: `user-${id}`,
+        familyId: "fam-1",
+        name,
+        email: `${name.toLowerCase()}@example.com`,
+        role: id === ALEX ? "primary" : "secondary",
+        createdAt: "2025-01-01T00:00:00.000Z",
+      });
+    }
+  }
+
+  function tuition(overrides: Partial<CreateRecurringExpenseInput> = {}): CreateRecurringExpenseInput {
+    return {
+      familyId: "fam-1",
+      title: "Tuition",
+      category: "education",
+      totalAmount: 50000,
+      currency: "USD",
+      splitMethod: "50-50",
+      paidBy: ALEX,
+      frequency: "monthly",
+      startDate: "2025-01-15",
+      createdBy: ALEX,
+      ...overrides,
+    };
+  }
+
+  async function expenseDates(): Promise<string[]> {
+    return (await uow.expenses.findByFamilyId("fam-1")).map((e) => e.date).sort();
+  }
+
+  beforeEach(async () => {
+    uow = createMemoryUnitOfWork();
+    await initDb(uow);
+    seedParents();
+  });
+
+  afterEach(() => {
+    _test_resetDbInstance();
+  });
+
+  it("generates occurrences already due when the template is created", async () => {
+    const result = await createRecurringExpense(tuition(), "2025-03-20");
+    if (!result.success) throw new Error(result.error);
+
+    expect(result.generated.map((e) => e.date)).toEqual(["2025-01-15", "2025-02-15", "2025-03-15"]);
+    expect(result.generated[0]).toMatchObject({
+      recurringExpenseId: result.template.id,
+      paymentStatus: "unpaid",
+      totalAmount: 50000,
+    });
+    expect(result.template).toMatchObject({ status: "active", nextDueDate: "2025-04-15" });
+  });
+
+  it("generates each occurrence once across repeated runs", async () => {
+    const result = await createRecurringExpense(tuition(), "2025-01-20");
+    if (!result.success) throw new Error(result.error);
+
+    await expect(generateAllDueExpenses("2025-02-20")).resolves.toEqual({ templates: 1, expenses: 1, failed: 0 });
+    await expect(generateAllDueExpenses("2025-02-20")).resolves.toEqual({ templates: 0, expenses: 0, failed: 0 });
+
+    // A stale copy of the template does not duplicate what was generated
+    await expect(generateDueExpenses(result.template, "2025-02-20")).resolves.toEqual([]);
+    expect(await expenseDates()).toEqual(["2025-01-15", "2025-02-15"]);
+  });
+
+  it("ends the template after its last occurrence", async () => {
+    const result = await createRecurringExpense(tuition({ endDate: "2025-02-28" }), "2025-06-01");
+    if (!result.success) throw new Error(result.error);
+
+    expect(result.generated).toHaveLength(2);
+    expect(result.template.status).toBe("ended");
+    await expect(setRecurringExpenseStatus(result.template, "active", "2025-06-01")).resolves.toEqual({
+      success: false,
+      error: "This recurring expense has ended",
+    });
+  });
+
+  it("skips occurrences missed while paused", async () => {
+    const result = await createRecurringExpense(tuition(), "2025-01-20");
+    if (!result.success) throw new Error(result.error);
+
+    const paused = await setRecurringExpenseStatus(result.template, "paused");
+    if (!paused.success) throw new Error(paused.error);
+    await generateAllDueExpenses("2025-04-20");
+    expect(await expenseDates()).toEqual(["2025-01-15"]);
+
+    const resumed = await setRecurringExpenseStatus(paused.template, "active", "2025-04-20");
+    expect(resumed).toMatchObject({ success: true, template: { status: "active", nextDueDate: "2025-05-15" } });
+  });
+
+  it("rejects an end date before the start", async () => {
+    await expect(createRecurringExpense(tuition({ endDate: "2025-01-01" }), "2025-01-20")).resolves.toEqual({
+      success: false,
+      error: "The end date must be on or after the first date",
+    });
+  });
+
+  describe("in a foreign currency", () => {
+    let ratesDir: string;
+    const env = { ...process.env };
+
+    beforeEach(async () => {
+      // Rates cover 2025-03-03 through 2025-03-17
+      ratesDir = await fs.mkdtemp(join(tmpdir(), "kidschedule-rates-"));
+      const ratesFile = join(ratesDir, "rates.json");
+      await fs.writeFile(
+        ratesFile,
+        JSON.stringify([
+          { date: "2025-03-03", base: "EUR", rates: { USD: 1.08 } },
+          { date: "2025-03-10", base: "EUR", rates: { USD: 1.09 } },
+        ])
+      );
+      process.env.EXCHANGE_RATES_FILE = ratesFile;
+      _test_resetRatesCache();
+    });
+
+    afterEach(async () => {
+      process.env = { ...env };
+      _test_resetRatesCache();
+      await fs.rm(ratesDir, { recursive: true, force: true });
+    });
+
+    const lessons = () => tuition({ currency: "EUR", frequency: "weekly", startDate: "2025-03-03" });
+
+    it("generates up to the first occurrence without a rate and waits there", async () => {
+      const result = await createRecurringExpense(lessons(), "2025-03-05");
+      if (!result.success) throw new Error(result.error);
+
+      await expect(generateAllDueExpenses("2025-04-01")).resolves.toEqual({ templates: 1, expenses: 2, failed: 0 });
+      expect(await expenseDates()).toEqual(["2025-03-03", "2025-03-10", "2025-03-17"]);
+      expect(await uow.recurringExpenses.findById(result.template.id)).toMatchObject({
+        status: "active",
+        nextDueDate: "2025-03-24",
+      });
+    });
+
+    it("creates nothing when an occurrence already due has no rate", async () => {
+      const result = await createRecurringExpense(lessons(), "2025-04-01");
+
+      expect(result).toMatchObject({ success: false, error: expect.stringContaining("2025-03-24") });
+      expect(await uow.recurringExpenses.findByFamilyId("fam-1")).toEqual([]);
+      expect(await expenseDates()).toEqual([]);
+    });
+  });
+});
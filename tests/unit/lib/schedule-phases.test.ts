@@ -0,0 +1,222 @@
+/**
+ * Schedule Phase Tests
+ *
+ * Verifies that CustodyEngine steps up through a schedule's phases, handing
+ * over to the next at the transition hour of the date each one ends (or the
+ * day a child reaches its age), that seasons only interrupt the long-term
+ * rotation, and the wizard's step-up plan parsing and timeline.
+ */
+
+import { CustodyEngine, SchedulePresets } from "@/lib/custody";
+import {
+  addMonthsToIsoDate,
+  schedulePhaseStages,
+  validateSchedulePhases,
+} from "@/lib/schedule-phases";
+import {
+  formatStepUpParam,
+  generateStepUpTimeline,
+  getDefaultPatternConfig,
+  resolveStepUpConfig,
+} from "@/lib/schedule";
+import type { Child, CustodySchedule, SchedulePhase } from "@/lib";
+import { alex, buildFamily, sam, type FamilyOverrides } from "./fixtures/custody-family";
+
+const riley: Child = { id: "child-1", firstName: "Riley", lastName: "Rivera", dateOfBirth: "2023-09-01" };
+
+/** Alex keeps six nights, Sam has Thursday night */
+const ONE_OVERNIGHT: SchedulePhase = {
+  name: "One overnight",
+  blocks: [
+    { parentId: alex.id, days: 6 },
+    { parentId: sam.id, days: 1 },
+  ],
+  // Riley turns nine months old on 2024-06-01
+  until: { kind: "age", months: 9 },
+};
+
+function buildSchedule(overrides: Partial<CustodySchedule> = {}): CustodySchedule {
+  return {
+    id: "alternating-weeks",
+    name: "Alternating Weeks",
+    transitionHour: 17,
+    blocks: SchedulePresets.alternatingWeeks(alex.id, sam.id),
+    phases: [ONE_OVERNIGHT],
+    ...overrides,
+  };
+}
+
+/** Riley's family; the first phase's week runs Friday to Friday */
+const stepUp: FamilyOverrides = { children: [riley], schedule: buildSchedule() };
+
+// ─── Dates ────────────────────────────────────────────────────────────────────
+
+describe("addMonthsToIsoDate", () => {
+  it("clamps to the end of shorter months", () => {
+    expect(addMonthsToIsoDate("2024-01-31", 1)).toBe("2024-02-29");
+    expect(addMonthsToIsoDate("2023-01-31", 1)).toBe("2023-02-28");
+    expect(addMonthsToIsoDate("2023-09-01", 18)).toBe("2025-03-01");
+  });
+});
+
+describe("schedulePhaseStages", () => {
+  it("dates each phase from the youngest child's age, then the long-term rotation", () => {
+    const older: Child = { ...riley, id: "child-2", dateOfBirth: "2020-01-15" };
+
+    expect(
+      schedulePhaseStages(
+        buildSchedule({ phases: [ONE_OVERNIGHT, { ...ONE_OVERNIGHT, name: "Trial", until: { kind: "date", date: "2024-09-01" } }] }),
+        [older, riley]
+      ).map((stage) => [stage.name, stage.startDate, stage.endDate])
+    ).toEqual([
+      ["One overnight", null, "2024-06-01"],
+      ["Trial", "2024-06-01", "2024-09-01"],
+      ["Alternating Weeks", "2024-09-01", null],
+    ]);
+  });
+
+  it("skips phases that cannot be dated or end before the previous one", () => {
+    const stages = schedulePhaseStages(
+      buildSchedule({
+        phases: [
+          { ...ONE_OVERNIGHT, until: { kind: "date", date: "2024-08-01" } },
+          ONE_OVERNIGHT,
+          { ...ONE_OVERNIGHT, name: "Gone", until: { kind: "age", months: 12, childId: "child-9" } },
+        ],
+      }),
+      [riley]
+    );
+
+    expect(stages.map((stage) => [stage.startDate, stage.endDate])).toEqual([
+      [null, "2024-08-01"],
+      ["2024-08-01", null],
+    ]);
+  });
+});
+
+// ─── Engine ───────────────────────────────────────────────────────────────────
+
+describe("CustodyEngine with phases", () => {
+  it("moves to the long-term rotation when the child reaches the phase's age", () => {
+    const engine = new CustodyEngine(buildFamily(stepUp));
+
+    // Thursday night during the phase is Sam's
+    expect(engine.getStatus(new Date("2024-05-30T23:00:00Z")).currentParent.id).toBe(sam.id);
+    // Alternating weeks count from June 1: Alex first, then Sam
+    expect(engine.getStatus(new Date("2024-06-06T23:00:00Z")).currentParent.id).toBe(alex.id);
+    const status = engine.getStatus(new Date("2024-06-09T12:00:00Z"));
+    expect(status.currentParent.id).toBe(sam.id);
+    expect(status.periodStart.toISOString()).toBe("2024-06-08T21:00:00.000Z");
+  });
+
+  it("runs seasons only once the long-term rotation is in force", () => {
+    const engine = new CustodyEngine(
+      buildFamily({
+        ...stepUp,
+        schedule: buildSchedule({
+          phases: [{ ...ONE_OVERNIGHT, until: { kind: "date", date: "2024-07-01" } }],
+          seasons: [
+            {
+              name: "Summer",
+              startMonthDay: "06-15",
+              endMonthDay: "08-23",
+              blocks: [
+                { parentId: alex.id, days: 14 },
+                { parentId: sam.id, days: 14 },
+              ],
+            },
+          ],
+        }),
+      })
+    );
+
+    // Still the phase's Thursday overnight, not Alex's first summer fortnight
+    expect(engine.getStatus(new Date("2024-06-20T23:00:00Z")).currentParent.id).toBe(sam.id);
+    // Summer's second fortnight is Sam's; alternating weeks would give Alex
+    expect(engine.getStatus(new Date("2024-07-05T12:00:00Z")).currentParent.id).toBe(sam.id);
+  });
+
+  it("lets an approved version replace the phases from its effective date", () => {
+    const engine = new CustodyEngine(
+      buildFamily({
+        ...stepUp,
+        scheduleVersions: [
+          {
+            id: "version-1",
+            effectiveDate: "2024-04-01",
+            schedule: { id: "version-1", name: "Alex only", transitionHour: 17, blocks: [{ parentId: alex.id, days: 7 }] },
+          },
+        ],
+      })
+    );
+
+    expect(engine.getStatus(new Date("2024-03-07T23:00:00Z")).currentParent.id).toBe(sam.id);
+    expect(engine.getStatus(new Date("2024-05-30T23:00:00Z")).currentParent.id).toBe(alex.id);
+    expect(engine.getStatus(new Date("2024-06-09T12:00:00Z")).currentParent.id).toBe(alex.id);
+  });
+});
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+describe("validateSchedulePhases", () => {
+  const parents = [alex.id, sam.id];
+
+  it("accepts phases that end in order", () => {
+    expect(
+      validateSchedulePhases(
+        [ONE_OVERNIGHT, { ...ONE_OVERNIGHT, name: "Two overnights", until: { kind: "age", months: 18 } }],
+        parents,
+        [riley.id]
+      )
+    ).toBeNull();
+  });
+
+  it("rejects out-of-order ends, strangers and unknown children", () => {
+    expect(
+      validateSchedulePhases([ONE_OVERNIGHT, { ...ONE_OVERNIGHT, name: "Later" }], parents, [riley.id])
+    ).toBe("Later must end after the phase before it");
+    expect(
+      validateSchedulePhases([{ ...ONE_OVERNIGHT, blocks: [{ parentId: "stranger", days: 7 }] }], parents, [])
+    ).toMatch(/parent in the family/);
+    expect(
+      validateSchedulePhases([{ ...ONE_OVERNIGHT, until: { kind: "age", months: 9, childId: "child-9" } }], parents, [
+        riley.id,
+      ])
+    ).toMatch(/child in the family/);
+  });
+});
+
+// ─── Wizard ───────────────────────────────────────────────────────────────────
+
+describe("step-up plans in the wizard", () => {
+  it("reads back the query parameter it writes", () => {
+    const stepUp = resolveStepUpConfig({
+      stepUp: "daytime-visits:6m,one-overnight:2026-09-01,bogus:3m",
+      birthDate: "2025-03-01",
+    });
+
+    expect(stepUp).toEqual({
+      birthDate: "2025-03-01",
+      phases: [
+        { templateId: "daytime-visits", until: { kind: "age", months: 6 } },
+        { templateId: "one-overnight", until: { kind: "date", date: "2026-09-01" } },
+      ],
+    });
+    expect(formatStepUpParam(stepUp!)).toBe("daytime-visits:6m,one-overnight:2026-09-01");
+    expect(resolveStepUpConfig({ stepUp: "" })).toBeUndefined();
+  });
+
+  it("leaves out phases already over by the start date", () => {
+    const timeline = generateStepUpTimeline({
+      ...getDefaultPatternConfig("2-2-5-5"),
+      scheduleStartDate: "2025-09-01",
+      stepUp: resolveStepUpConfig({ stepUp: "daytime-visits:6m,one-overnight:18m", birthDate: "2025-03-01" }),
+    });
+
+    expect(timeline?.map((entry) => [entry.title, entry.startDate, entry.endDate])).toEqual([
+      ["One Overnight a Week", "2025-09-01", "2026-09-01"],
+      ["2-2-5-5 Schedule", "2026-09-01", null],
+    ]);
+    expect(timeline?.[0]).toMatchObject({ parentAPercent: 86, parentBPercent: 14, untilLabel: "until 18 months old" });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Schedule Season Tests
+ *
+ * Verifies that CustodyEngine switches to a season's rotation between its
+ * month/day bounds each year (including breaks that span New Year), hands
+ * back to the school-year rotation at the transition hour, and that season
+ * definitions are validated before use.
+ */
+
+import { CustodyEngine } from "@/lib/custody";
+import { validateScheduleSeasons } from "@/lib/schedule-seasons";
+import { generateSummerPreview, getDefaultPatternConfig } from "@/lib/schedule";
+import type { ScheduleSeason } from "@/lib";
+import { alex, buildFamily, sam } from "./fixtures/custody-family";
+
+const SUMMER: ScheduleSeason = {
+  name: "Summer",
+  startMonthDay: "06-15",
+  endMonthDay: "08-23",
+  blocks: [
+    { parentId: alex.id, days: 14 },
+    { parentId: sam.id, days: 14 },
+  ],
+};
+
+const WINTER_BREAK: ScheduleSeason = {
+  name: "Winter Break",
+  startMonthDay: "12-20",
+  endMonthDay: "01-03",
+  blocks: [{ parentId: sam.id, days: 1 }],
+};
+
+// ─── Engine ───────────────────────────────────────────────────────────────────
+
+describe("CustodyEngine with seasons", () => {
+  it("runs the summer rotation between its dates and resumes the school-year cycle after", () => {
+    const engine = new CustodyEngine(buildFamily({ schedule: { seasons: [SUMMER] } }));
+
+    const transitions = engine.getTransitionsInRange(
+      new Date("2024-06-01T00:00:00Z"),
+      new Date("2024-09-01T00:00:00Z")
+    );
+
+    expect(transitions.map((t) => [t.at.toISOString(), t.toParent.id])).toEqual([
+      ["2024-06-07T21:00:00.000Z", alex.id],
+      ["2024-06-14T21:00:00.000Z", sam.id],
+      // Summer starts with Alex's two weeks at the usual 5 PM exchange
+      ["2024-06-15T21:00:00.000Z", alex.id],
+      ["2024-06-29T21:00:00.000Z", sam.id],
+      ["2024-07-13T21:00:00.000Z", alex.id],
+      ["2024-07-27T21:00:00.000Z", sam.id],
+      ["2024-08-10T21:00:00.000Z", alex.id],
+      // School-year weeks pick up where their own cycle has reached
+      ["2024-08-23T21:00:00.000Z", sam.id],
+      ["2024-08-30T21:00:00.000Z", alex.id],
+    ]);
+  });
+
+  it("recurs every year and spans New Year for winter break", () => {
+    const engine = new CustodyEngine(buildFamily({ schedule: { seasons: [SUMMER, WINTER_BREAK] } }));
+
+    const status = engine.getStatus(new Date("2024-12-31T12:00:00Z"));
+
+    expect(status.currentParent.id).toBe(sam.id);
+    // Sam's school-year week runs straight into the break
+    expect(status.periodStart.toISOString()).toBe("2024-12-13T22:00:00.000Z");
+    expect(status.periodEnd.toISOString()).toBe("2025-01-03T22:00:00.000Z");
+    expect(engine.getStatus(new Date("2025-06-16T12:00:00Z")).currentParent.id).toBe(alex.id);
+  });
+
+  it("follows the school-year rotation alone without seasons", () => {
+    const engine = new CustodyEngine(buildFamily({ schedule: { seasons: [] } }));
+
+    expect(engine.getStatus(new Date("2024-06-16T12:00:00Z")).currentParent.id).toBe(sam.id);
+  });
+});
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+describe("validateScheduleSeasons", () => {
+  const parents = [alex.id, sam.id];
+
+  it("accepts seasons that fit in a year without overlapping", () => {
+    expect(validateScheduleSeasons([SUMMER, WINTER_BREAK], parents)).toBeNull();
+  });
+
+  it("rejects bad dates, strangers and overlaps", () => {
+    expect(validateScheduleSeasons([{ ...SUMMER, endMonthDay: "02-29" }], parents)).toMatch(/exists every year/);
+    expect(
+      validateScheduleSeasons([{ ...SUMMER, blocks: [{ parentId: "stranger", days: 7 }] }], parents)
+    ).toMatch(/parent in the family/);
+    expect(
+      validateScheduleSeasons(
+        [SUMMER, { ...WINTER_BREAK, name: "Camp", startMonthDay: "08-01", endMonthDay: "08-30" }],
+        parents
+      )
+    ).toBe("Summer and Camp overlap");
+  });
+});
+
+// ─── Wizard Preview ───────────────────────────────────────────────────────────
+
+describe("generateSummerPreview", () => {
+  it("previews the first weeks of the next summer", () => {
+    const preview = generateSummerPreview({
+      ...getDefaultPatternConfig("2-2-3"),
+      scheduleStartDate: "2025-09-01",
+      summer: { templateId: "alternating-weeks", startMonthDay: "06-15", endMonthDay: "08-20", rotationStarter: "B" },
+    });
+
+    expect(preview?.days[0]).toMatchObject({ isoDate: "2026-06-15", parent: "B" });
+    expect(preview?.days[7]).toMatchObject({ isoDate: "2026-06-22", parent: "A", isHandoff: true });
+    expect(preview?.parentAPercent).toBe(50);
+  });
+});
@@ -0,0 +1,330 @@
+/**
+ * Schedule Version Tests
+ *
+ * Verifies that an approved schedule version takes over custody at its
+ * effective date's exchange hour while earlier days keep the schedule in
+ * force then, the propose / approve / reject / withdraw rules, and the
+ * change descriptions shown in the schedule history.
+ */
+
+import { CustodyEngine, SchedulePresets, toScheduleVersions } from "@/lib/custody";
+import {
+  _test_resetDbInstance,
+  createMemoryUnitOfWork,
+  initDb,
+  type DbFamily,
+  type DbParent,
+  type MemoryUnitOfWork,
+} from "@/lib/persistence";
+import {
+  describeScheduleChange,
+  loadScheduleHistory,
+  proposeScheduleVersion,
+  respondToScheduleVersion,
+  withdrawScheduleVersion,
+  type ScheduleTerms,
+  type ScheduleVersionProposal,
+} from "@/lib/schedule-versions";
+import { alex, buildFamily, sam } from "./fixtures/custody-family";
+
+// ─── Engine ───────────────────────────────────────────────────────────────────
+
+describe("CustodyEngine with schedule versions", () => {
+  const versioned = buildFamily({
+    scheduleVersions: [
+      {
+        id: "version-1",
+        effectiveDate: "2024-03-20",
+        schedule: {
+          id: "version-1",
+          name: "Alternating Weeks",
+          transitionHour: 18,
+          anchorDate: "2024-03-20",
+          blocks: SchedulePresets.alternatingWeeks(sam.id, alex.id),
+        },
+      },
+    ],
+  });
+
+  it("keeps the original schedule before the effective date", () => {
+    const engine = new CustodyEngine(versioned);
+
+    const status = engine.getStatus(new Date("2024-03-10T12:00:00Z"));
+
+    expect(status.currentParent.id).toBe(sam.id);
+    expect(status.periodStart.toISOString()).toBe("2024-03-08T22:00:00.000Z"); // 5 PM EST
+    expect(status.periodEnd.toISOString()).toBe("2024-03-15T21:00:00.000Z"); // 5 PM EDT
+  });
+
+  it("ends the last original block at the new exchange hour on the effective date", () => {
+    const engine = new CustodyEngine(versioned);
+
+    const status = engine.getStatus(new Date("2024-03-20T16:00:00Z"));
+
+    expect(status.currentParent.id).toBe(alex.id);
+    expect(status.periodEnd.toISOString()).toBe("2024-03-20T22:00:00.000Z"); // 6 PM EDT
+  });
+
+  it("follows the new rotation from the effective date onward", () => {
+    const engine = new CustodyEngine(versioned);
+
+    const status = engine.getStatus(new Date("2024-03-22T12:00:00Z"));
+
+    expect(status.currentParent.id).toBe(sam.id);
+    expect(status.periodStart.toISOString()).toBe("2024-03-20T22:00:00.000Z");
+    expect(status.periodEnd.toISOString()).toBe("2024-03-27T22:00:00.000Z");
+    expect(
+      engine
+        .getTransitionsInRange(new Date("2024-03-19T00:00:00Z"), new Date("2024-03-23T00:00:00Z"))
+        .map((t) => t.at.toISOString())
+    ).toEqual(["2024-03-20T22:00:00.000Z"]);
+  });
+
+  it("matches the original schedule when there are no versions", () => {
+    const at = new Date("2024-03-22T12:00:00Z");
+
+    expect(new CustodyEngine(buildFamily()).getStatus(at).currentParent.id).toBe(alex.id);
+    expect(new CustodyEngine(buildFamily({ scheduleVersions: [] })).getStatus(at).currentParent.id).toBe(alex.id);
+  });
+});
+
+// ─── Descriptions ─────────────────────────────────────────────────────────────
+
+describe("describeScheduleChange", () => {
+  const parentName = (id: string) => (id === alex.id ? "Alex" : "Sam");
+  const before: ScheduleTerms = {
+    name: "Alternating Weeks",
+    transitionHour: 17,
+    blocks: SchedulePresets.alternatingWeeks(alex.id, sam.id),
+    seasons: [],
+    phases: [],
+    weeklyBlocks: [],
+    anchorDate: "2024-03-01",
+  };
+
+  it("lists each changed term", () => {
+    const after: ScheduleTerms = {
+      ...before,
+      name: "2-2-3 Rotation",
+      blocks: SchedulePresets.twoTwoThree(alex.id, sam.id),
+      transitionHour: 18,
+    };
+
+    expect(describeScheduleChange(before, after, parentName)).toEqual([
+      "Rotation Alternating Weeks (Alex 7d, Sam 7d) → 2-2-3 Rotation (Alex 2d, Sam 2d, Alex 3d, Sam 2d, Alex 2d, Sam 3d)",
+      "Exchange time 17:00 → 18:00",
+    ]);
+  });
+
+  it("lists a change of step-up phases", () => {
+    const after: ScheduleTerms = {
+      ...before,
+      phases: [
+        {
+          name: "One overnight",
+          blocks: [
+            { parentId: alex.id, days: 6 },
+            { parentId: sam.id, days: 1 },
+          ],
+          until: { kind: "date", date: "2024-09-01" },
+        },
+      ],
+    };
+
+    expect(describeScheduleChange(before, after, parentName)).toEqual([
+      "Step-up phases none → One overnight until 2024-09-01 (Alex 6d, Sam 1d)",
+    ]);
+  });
+
+  it("is empty when nothing changes", () => {
+    expect(describeScheduleChange(before, { ...before }, parentName)).toEqual([]);
+  });
+});
+
+// ─── Lifecycle ────────────────────────────────────────────────────────────────
+
+describe("schedule version lifecycle", () => {
+  const now = new Date("2024-03-10T12:00:00Z");
+  let uow: MemoryUnitOfWork;
+  let family: DbFamily;
+  let mom: DbParent;
+  let dad: DbParent;
+
+  function proposal(overrides: Partial<ScheduleVersionProposal> = {}): ScheduleVersionProposal {
+    return {
+      name: "Alternating Weeks",
+      transitionHour: 18,
+      blocks: SchedulePresets.alternatingWeeks(dad.id, mom.id),
+      seasons: [],
+      phases: [],
+      weeklyBlocks: [],
+      anchorDate: "2024-03-20",
+      effectiveDate: "2024-03-20",
+      reason: "Modified custody order",
+      ...overrides,
+    };
+  }
+
+  beforeEach(async () => {
+    uow = createMemoryUnitOfWork();
+    await initDb(uow);
+    family = await uow.families.create({
+      name: "Rivera-Chen",
+      custodyAnchorDate: "2024-03-01",
+      scheduleId: "alternating-weeks",
+      timezone: "America/New_York",
+    });
+    const parent = (name: string, role: DbParent["role"]) =>
+      uow.parents.create({ userId: `user-${name}`, familyId: family.id, name, email: `${name}@example.com`, role });
+    mom = await parent("mom", "primary");
+    dad = await parent("dad", "secondary");
+  });
+
+  afterEach(() => {
+    _test_resetDbInstance();
+  });
+
+  it("takes effect once the other parent approves it", async () => {
+    const proposed = await proposeScheduleVersion({ family, proposedBy: mom.id, proposal: proposal(), now });
+    if (!proposed.success) throw new Error(proposed.error);
+
+    expect(proposed.version.status).toBe("pending");
+    expect(await uow.custodyScheduleVersions.findApprovedByFamilyId(family.id)).toEqual([]);
+
+    const answered = await respondToScheduleVersion({
+      family,
+      version: proposed.version,
+      respondedBy: dad.id,
+      decision: "approve",
+      now,
+    });
+    if (!answered.success) throw new Error(answered.error);
+
+    expect(answered.version).toMatchObject({ status: "approved", respondedBy: dad.id });
+    const history = await loadScheduleHistory(family, new Date("2024-03-21T12:00:00Z"));
+    expect(history.current).toMatchObject({ transitionHour: 18, anchorDate: "2024-03-20" });
+    expect(history.entries[0].changes).toContain("Exchange time 17:00 → 18:00");
+    expect(history.original).toMatchObject({ transitionHour: 17, anchorDate: "2024-03-01" });
+  });
+
+  it("does not let the proposer answer their own change", async () => {
+    const proposed = await proposeScheduleVersion({ family, proposedBy: mom.id, proposal: proposal(), now });
+    if (!proposed.success) throw new Error(proposed.error);
+
+    const answered = await respondToScheduleVersion({
+      family,
+      version: proposed.version,
+      respondedBy: mom.id,
+      decision: "approve",
+      now,
+    });
+
+    expect(answered).toEqual({ success: false, error: "The other parent must answer this schedule change" });
+  });
+
+  it("refuses an effective date that is not in the future", async () => {
+    const result = await proposeScheduleVersion({
+      family,
+      proposedBy: mom.id,
+      proposal: proposal({ effectiveDate: "2024-03-10" }),
+      now,
+    });
+
+    expect(result).toEqual({ success: false, error: "A schedule change must take effect after today" });
+  });
+
+  it("allows one pending change at a time", async () => {
+    await proposeScheduleVersion({ family, proposedBy: mom.id, proposal: proposal(), now });
+
+    const second = await proposeScheduleVersion({
+      family,
+      proposedBy: dad.id,
+      proposal: proposal({ effectiveDate: "2024-04-01" }),
+      now,
+    });
+
+    expect(second).toEqual({ success: false, error: "A schedule change is already waiting for an answer" });
+  });
+
+  it("lets the proposer withdraw a pending change, and no one else", async () => {
+    const proposed = await proposeScheduleVersion({ family, proposedBy: mom.id, proposal: proposal(), now });
+    if (!proposed.success) throw new Error(proposed.error);
+
+    expect((await withdrawScheduleVersion(proposed.version, dad.id)).success).toBe(false);
+    const withdrawn = await withdrawScheduleVersion(proposed.version, mom.id);
+
+    expect(withdrawn.success && withdrawn.version.status).toBe("withdrawn");
+    const rejected = await respondToScheduleVersion({
+      family,
+      version: { ...proposed.version, status: "pending" },
+      respondedBy: dad.id,
+      decision: "reject",
+      now,
+    });
+    expect(rejected.success).toBe(false);
+  });
+
+  it("carries step-up phases into the approved version", async () => {
+    const phases = [
+      {
+        name: "One overnight",
+        blocks: [
+          { parentId: dad.id, days: 6 },
+          { parentId: mom.id, days: 1 },
+        ],
+        until: { kind: "date" as const, date: "2024-06-01" },
+      },
+    ];
+    const proposed = await proposeScheduleVersion({ family, proposedBy: mom.id, proposal: proposal({ phases }), now });
+    if (!proposed.success) throw new Error(proposed.error);
+    await respondToScheduleVersion({ family, version: proposed.version, respondedBy: dad.id, decision: "approve", now });
+
+    const [version] = toScheduleVersions(await uow.custodyScheduleVersions.findApprovedByFamilyId(family.id));
+    expect(version.schedule.phases).toEqual(phases);
+
+    const stranger = await proposeScheduleVersion({
+      family,
+      proposedBy: mom.id,
+      proposal: proposal({ effectiveDate: "2024-04-01", phases: [{ ...phases[0], blocks: [{ parentId: "stranger", days: 7 }] }] }),
+      now,
+    });
+    expect(stranger).toEqual({ success: false, error: "One overnight blocks must each go to a parent in the family" });
+  });
+
+  it("carries weekly blocks, checked for overlaps from its anchor date", async () => {
+    const weeklyBlocks = [
+      { parentId: dad.id, startDay: 0, startTime: "18:00", endDay: 3, endTime: "18:00", everyWeeks: 2 },
+      { parentId: mom.id, startDay: 2, startTime: "16:00", endDay: 2, endTime: "20:00", everyWeeks: 2 },
+    ];
+
+    // 2024-03-20 is a Wednesday: the Tuesday visit lands inside the Sunday-Wednesday stay
+    const overlapping = await proposeScheduleVersion({ family, proposedBy: mom.id, proposal: proposal({ weeklyBlocks }), now });
+    expect(overlapping).toEqual({
+      success: false,
+      error: "Sun 18:00–Wed 18:00 every 2 weeks and Tue 16:00–20:00 every 2 weeks overlap",
+    });
+
+    const proposed = await proposeScheduleVersion({
+      family,
+      proposedBy: mom.id,
+      proposal: proposal({ weeklyBlocks, anchorDate: "2024-03-18" }),
+      now,
+    });
+    if (!proposed.success) throw new Error(proposed.error);
+    await respondToScheduleVersion({ family, version: proposed.version, respondedBy: dad.id, decision: "approve", now });
+
+    const [version] = toScheduleVersions(await uow.custodyScheduleVersions.findApprovedByFamilyId(family.id));
+    expect(version.schedule.weeklyBlocks).toEqual(weeklyBlocks);
+  });
+
+  it("refuses a rotation that names a parent outside the family", async () => {
+    const result = await proposeScheduleVersion({
+      family,
+      proposedBy: mom.id,
+      proposal: proposal({ blocks: [{ parentId: "stranger", days: 7 }] }),
+      now,
+    });
+
+    expect(result).toEqual({ success: false, error: "Rotation blocks must each go to a parent in the family" });
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Weekly Block Tests
+ *
+ * Verifies that CustodyEngine hands custody to weekday-anchored blocks
+ * ("every other weekend plus Wednesday dinner") over the rotation, that
+ * rotation blocks hand over at their own exchange times and may last less
+ * than a day, and the validation of both.
+ */
+
+import { CalendarMonthEngine } from "@/lib/calendar-engine";
+import { CustodyEngine, custodyEngineEvents } from "@/lib/custody";
+import {
+  describeWeeklyBlock,
+  parseWeeklyBlocks,
+  validateBlockTimes,
+  validateWeeklyBlocks,
+} from "@/lib/schedule-weekly";
+import type { CustodySchedule, WeeklyBlock } from "@/lib";
+import { alex, buildFamily, sam, type FamilyOverrides } from "./fixtures/custody-family";
+
+const WEEKEND: WeeklyBlock = {
+  parentId: sam.id,
+  startDay: 5,
+  startTime: "18:00",
+  endDay: 0,
+  endTime: "18:00",
+  everyWeeks: 2,
+  label: "Weekend",
+};
+
+const WEDNESDAY_DINNER: WeeklyBlock = {
+  parentId: sam.id,
+  startDay: 3,
+  startTime: "16:00",
+  endDay: 3,
+  endTime: "20:00",
+  label: "Wednesday dinner",
+};
+
+function buildSchedule(overrides: Partial<CustodySchedule> = {}): CustodySchedule {
+  return {
+    id: "weekly",
+    name: "Every other weekend",
+    transitionHour: 18,
+    blocks: [{ parentId: alex.id, days: 14 }],
+    weeklyBlocks: [WEEKEND, WEDNESDAY_DINNER],
+    ...overrides,
+  };
+}
+
+/** The first weekend starts the evening of Friday 2024-03-01 */
+const everyOtherWeekend: FamilyOverrides = { timezone: "UTC", schedule: buildSchedule() };
+
+// ─── Engine ───────────────────────────────────────────────────────────────────
+
+describe("CustodyEngine with weekly blocks", () => {
+  const engine = new CustodyEngine(buildFamily(everyOtherWeekend));
+
+  it("gives every other weekend to the weekly block's parent", () => {
+    const weekend = engine.getStatus(new Date("2024-03-02T12:00:00Z"));
+    expect(weekend.currentParent.id).toBe(sam.id);
+    expect(weekend.periodStart.toISOString()).toBe("2024-03-01T18:00:00.000Z");
+    expect(weekend.periodEnd.toISOString()).toBe("2024-03-03T18:00:00.000Z");
+
+    expect(engine.getStatus(new Date("2024-03-09T12:00:00Z")).currentParent.id).toBe(alex.id);
+    expect(engine.getStatus(new Date("2024-03-16T12:00:00Z")).currentParent.id).toBe(sam.id);
+  });
+
+  it("hands over for Wednesday dinner and back", () => {
+    const transitions = engine.getTransitionsInRange(
+      new Date("2024-03-04T00:00:00Z"),
+      new Date("2024-03-11T00:00:00Z")
+    );
+
+    expect(transitions.map((t) => [t.at.toISOString(), t.toParent.id])).toEqual([
+      ["2024-03-06T16:00:00.000Z", sam.id],
+      ["2024-03-06T20:00:00.000Z", alex.id],
+    ]);
+  });
+
+  it("lays out the weekly blocks as calendar periods", () => {
+    const events = custodyEngineEvents(
+      buildFamily(everyOtherWeekend),
+      { start: new Date("2024-03-04T00:00:00Z"), end: new Date("2024-03-11T00:00:00Z") },
+      { childId: "child-1", source: "custody-schedule" }
+    );
+
+    expect(events.map((e) => [e.start_at, e.end_at, e.parent_id])).toEqual([
+      ["2024-03-04T00:00:00+00:00", "2024-03-06T16:00:00+00:00", alex.id],
+      ["2024-03-06T16:00:00+00:00", "2024-03-06T20:00:00+00:00", sam.id],
+      ["2024-03-06T20:00:00+00:00", "2024-03-11T00:00:00+00:00", alex.id],
+    ]);
+  });
+
+  it("shows both Wednesday handoffs on the month grid", () => {
+    const month = new CalendarMonthEngine(buildFamily(everyOtherWeekend)).getMonthData(2024, 3, [], [], new Date("2024-03-01T12:00:00Z"));
+    const wednesday = month.days.find((day) => day.dateStr === "2024-03-06");
+
+    expect(wednesday?.transitions?.map((t) => t.toParent.id)).toEqual([sam.id, alex.id]);
+    expect(wednesday?.custodyColor).toBe("split");
+  });
+
+  it("counts weekly blocks by the hour in custody percentages", () => {
+    // Two days and two dinners of every fortnight: 56 of 336 hours
+    expect(engine.getCustodyPercentages(new Date("2024-03-02T12:00:00Z"))).toEqual({
+      [alex.id]: 83.33,
+      [sam.id]: 16.67,
+    });
+  });
+
+  it("leaves seasons in charge of their own weeks", () => {
+    const summer = new CustodyEngine(
+      buildFamily({
+        ...everyOtherWeekend,
+        schedule: buildSchedule({
+          seasons: [
+            { name: "Summer", startMonthDay: "06-15", endMonthDay: "08-23", blocks: [{ parentId: alex.id, days: 7 }] },
+          ],
+        }),
+      })
+    );
+
+    // A Wednesday dinner in July stays with Alex
+    expect(summer.getStatus(new Date("2024-07-10T17:00:00Z")).currentParent.id).toBe(alex.id);
+    expect(summer.getStatus(new Date("2024-09-04T17:00:00Z")).currentParent.id).toBe(sam.id);
+  });
+});
+
+describe("CustodyEngine with block exchange times", () => {
+  // Monday 09:00-15:00 with Alex, then Sam until next Monday 09:00
+  const engine = new CustodyEngine(
+    buildFamily({
+      timezone: "UTC",
+      custodyAnchorDate: "2024-03-04",
+      schedule: buildSchedule({
+        blocks: [
+          { parentId: alex.id, days: 0, startTime: "09:00" },
+          { parentId: sam.id, days: 7, startTime: "15:00" },
+        ],
+        weeklyBlocks: [],
+      }),
+    })
+  );
+
+  it("hands over at each block's own time, including blocks shorter than a day", () => {
+    expect(engine.getStatus(new Date("2024-03-04T08:00:00Z")).currentParent.id).toBe(sam.id);
+
+    const visit = engine.getStatus(new Date("2024-03-04T10:00:00Z"));
+    expect(visit.currentParent.id).toBe(alex.id);
+    expect(visit.periodEnd.toISOString()).toBe("2024-03-04T15:00:00.000Z");
+
+    const week = engine.getStatus(new Date("2024-03-05T10:00:00Z"));
+    expect(week.currentParent.id).toBe(sam.id);
+    expect(week.periodStart.toISOString()).toBe("2024-03-04T15:00:00.000Z");
+    expect(week.periodEnd.toISOString()).toBe("2024-03-11T09:00:00.000Z");
+  });
+
+  it("weighs partial-day blocks by their length", () => {
+    // Six of every 168 hours
+    expect(engine.getCustodyPercentages(new Date("2024-03-05T10:00:00Z"))).toEqual({
+      [alex.id]: 3.57,
+      [sam.id]: 96.43,
+    });
+  });
+});
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+describe("validateBlockTimes", () => {
+  it("accepts a zero-day block that hands over later the same day", () => {
+    expect(
+      validateBlockTimes(
+        [
+          { parentId: alex.id, days: 0, startTime: "09:00" },
+          { parentId: sam.id, days: 7, startTime: "15:00" },
+        ],
+        18
+      )
+    ).toBeNull();
+  });
+
+  it("rejects malformed times, empty rotations and blocks that end before they start", () => {
+    expect(validateBlockTimes([{ parentId: alex.id, days: 7, startTime: "25:00" }], 18)).toBe(
+      "Exchange times must be HH:MM"
+    );
+    expect(validateBlockTimes([{ parentId: alex.id, days: 0 }], 18)).toBe("A rotation must last at least one day");
+    expect(
+      validateBlockTimes(
+        [
+          { parentId: alex.id, days: 0, startTime: "15:00" },
+          { parentId: sam.id, days: 7, startTime: "09:00" },
+        ],
+        18
+      )
+    ).toBe("Each block must end after it starts");
+  });
+});
+
+describe("validateWeeklyBlocks", () => {
+  const parents = [alex.id, sam.id];
+  const ANCHOR = "2024-03-01";
+
+  it("accepts every other weekend plus a weekly dinner", () => {
+    expect(validateWeeklyBlocks([WEEKEND, WEDNESDAY_DINNER], parents, ANCHOR)).toBeNull();
+  });
+
+  it("rejects overlaps, strangers and long repeats", () => {
+    expect(
+      validateWeeklyBlocks(
+        [WEEKEND, { parentId: alex.id, startDay: 6, startTime: "10:00", endDay: 6, endTime: "12:00" }],
+        parents,
+        ANCHOR
+      )
+    ).toBe("Fri 18:00–Sun 18:00 every 2 weeks and Sat 10:00–12:00 overlap");
+    expect(validateWeeklyBlocks([{ ...WEEKEND, parentId: "stranger" }], parents, ANCHOR)).toMatch(/parent in the family/);
+    expect(validateWeeklyBlocks([{ ...WEEKEND, everyWeeks: 5 }], parents, ANCHOR)).toBe(
+      "Weekly blocks must repeat every 1 to 4 weeks"
+    );
+  });
+
+  it("finds overlaps between fortnightly blocks counted from the schedule's anchor date", () => {
+    const blocks: WeeklyBlock[] = [
+      { parentId: alex.id, startDay: 0, startTime: "18:00", endDay: 3, endTime: "18:00", everyWeeks: 2 },
+      { parentId: sam.id, startDay: 2, startTime: "16:00", endDay: 2, endTime: "20:00", everyWeeks: 2 },
+    ];
+
+    // From a Monday the Tuesday visits fall in the other weeks; from a Wednesday they don't
+    expect(validateWeeklyBlocks(blocks, parents, "2024-01-01")).toBeNull();
+    expect(validateWeeklyBlocks(blocks, parents, "2024-01-03")).toBe(
+      "Sun 18:00–Wed 18:00 every 2 weeks and Tue 16:00–20:00 every 2 weeks overlap"
+    );
+  });
+
+  it("reads stored blocks and describes them", () => {
+    expect(parseWeeklyBlocks(JSON.stringify([WEDNESDAY_DINNER]))).toEqual([WEDNESDAY_DINNER]);
+    expect(parseWeeklyBlocks("not json")).toEqual([]);
+    expect(describeWeeklyBlock(WEDNESDAY_DINNER)).toBe("Wed 16:00–20:00");
+  });
+});
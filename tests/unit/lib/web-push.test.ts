@@ -0,0 +1,362 @@
+/**
+ * Web Push Tests
+ *
+ * Verifies aes128gcm payload encryption against a simulated browser key
+ * pair, VAPID JWT signing, the adapter's handling of push service responses,
+ * and push delivery from NotificationDeliveryService (phone-less parents,
+ * expired subscription cleanup, retryable failures).
+ */
+
+const mockPushSend = jest.fn();
+const mockSmsSend = jest.fn();
+const mockEmailSend = jest.fn();
+
+jest.mock("@/lib/providers/sms", () => ({
+  getSmsSender: () => ({ send: mockSmsSend }),
+}));
+
+jest.mock("@/lib/providers/email", () => ({
+  getEmailSender: () => ({ send: mockEmailSend }),
+}));
+
+jest.mock("@/lib/providers/push", () => ({
+  getPushSender: () => ({ send: mockPushSend }),
+}));
+
+import {
+  createDecipheriv,
+  createECDH,
+  createPrivateKey,
+  createPublicKey,
+  hkdfSync,
+  randomBytes,
+  verify,
+} from "crypto";
+import {
+  WebPushAdapter,
+  createVapidAuthorization,
+  encryptPushPayload,
+  generateVapidKeys,
+} from "@/lib/providers/push/web-push-adapter";
+import {
+  _test_resetDbInstance,
+  createMemoryUnitOfWork,
+  initDb,
+  type DbFamily,
+  type DbParent,
+  type MemoryUnitOfWork,
+} from "@/lib/persistence";
+import { NotificationDeliveryService } from "@/lib/notification";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** A browser's side of a push subscription. */
+function createUserAgent() {
+  const ecdh = createECDH("prime256v1");
+  ecdh.generateKeys();
+  const auth = randomBytes(16);
+  return {
+    ecdh,
+    auth,
+    subscription: {
+      endpoint: "https://push.example.com/send/abc123",
+      keys: { p256dh: ecdh.getPublicKey().toString("base64url"), auth: auth.toString("base64url") },
+    },
+  };
+}
+
+/** Decrypts a single-record aes128gcm body the way the browser does (RFC 8291). */
+function decrypt(body: Buffer, userAgent: ReturnType<typeof createUserAgent>): Buffer {
+  const salt = body.subarray(0, 16);
+  const keyLength = body[20];
+  const senderPublicKey = body.subarray(21, 21 + keyLength);
+  const ciphertext = body.subarray(21 + keyLength);
+
+  const sharedSecret = userAgent.ecdh.computeSecret(senderPublicKey);
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), userAgent.ecdh.getPublicKey(), senderPublicKey]);
+  const ikm = Buffer.from(hkdfSync("sha256", sharedSecret, userAgent.auth, keyInfo, 32));
+  const key = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: aes128gcm\0"), 16));
+  const nonce = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: nonce\0"), 12));
+
+  const decipher = createDecipheriv("aes-128-gcm", key, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const record = Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - 16)), decipher.final()]);
+  expect(record[record.length - 1]).toBe(0x02);
+  return record.subarray(0, record.length - 1);
+}
+
+function vapidPrivateKey(keys: { publicKey: string; privateKey: string }) {
+  const point = Buffer.from(keys.publicKey, "base64url");
+  return createPrivateKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      x: point.subarray(1, 33).toString("base64url"),
+      y: point.subarray(33, 65).toString("base64url"),
+      d: keys.privateKey,
+    },
+    format: "jwk",
+  });
+}
+
+// ─── Protocol ─────────────────────────────────────────────────────────────────
+
+describe("encryptPushPayload", () => {
+  it("produces an aes128gcm body the subscribing browser can decrypt", () => {
+    const userAgent = createUserAgent();
+    const plaintext = Buffer.from(JSON.stringify({ title: "Handoff", body: "Tomorrow at 5pm" }));
+
+    const body = encryptPushPayload(userAgent.subscription, plaintext);
+
+    expect(body.readUInt32BE(16)).toBe(4096);
+    expect(body[20]).toBe(65);
+    expect(decrypt(body, userAgent).toString()).toBe(plaintext.toString());
+  });
+
+  it("uses a fresh salt and sender key for every message", () => {
+    const userAgent = createUserAgent();
+    const first = encryptPushPayload(userAgent.subscription, Buffer.from("hi"));
+    const second = encryptPushPayload(userAgent.subscription, Buffer.from("hi"));
+
+    expect(first.subarray(0, 86).equals(second.subarray(0, 86))).toBe(false);
+  });
+});
+
+describe("createVapidAuthorization", () => {
+  it("signs an ES256 JWT for the endpoint origin that verifies with the public key", () => {
+    const keys = generateVapidKeys();
+    const header = createVapidAuthorization(
+      "https://push.example.com/send/abc123",
+      { publicKey: keys.publicKey, privateKey: vapidPrivateKey(keys), subject: "mailto:ops@example.com" },
+      new Date("2025-01-15T00:00:00Z")
+    );
+
+    const match = /^vapid t=([^.]+)\.([^.]+)\.([^,]+), k=(.+)$/.exec(header);
+    expect(match).not.toBeNull();
+    const [, encodedHeader, encodedClaims, signature, publicKey] = match!;
+    expect(publicKey).toBe(keys.publicKey);
+    expect(JSON.parse(Buffer.from(encodedClaims, "base64url").toString())).toEqual({
+      aud: "https://push.example.com",
+      exp: Math.floor(Date.parse("2025-01-15T00:00:00Z") / 1000) + 12 * 60 * 60,
+      sub: "mailto:ops@example.com",
+    });
+
+    const valid = verify(
+      "sha256",
+      Buffer.from(`${encodedHeader}.${encodedClaims}`),
+      { key: createPublicKey(vapidPrivateKey(keys)), dsaEncoding: "ieee-p1363" },
+      Buffer.from(signature, "base64url")
+    );
+    expect(valid).toBe(true);
+  });
+});
+
+describe("WebPushAdapter", () => {
+  const originalEnv = process.env;
+  const originalFetch = global.fetch;
+  const mockFetch = jest.fn();
+
+  function respond(status: number, location?: string) {
+    mockFetch.mockResolvedValue({
+      ok: status >= 200 && status < 300,
+      status,
+      headers: { get: (name: string) => (name === "Location" ? location ?? null : null) },
+    });
+  }
+
+  beforeEach(() => {
+    const keys = generateVapidKeys();
+    process.env = {
+      ...originalEnv,
+      VAPID_PUBLIC_KEY: keys.publicKey,
+      VAPID_PRIVATE_KEY: keys.privateKey,
+      VAPID_SUBJECT: "mailto:ops@example.com",
+    };
+    mockFetch.mockReset();
+    global.fetch = mockFetch as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    global.fetch = originalFetch;
+  });
+
+  it("posts the encrypted payload with VAPID and Web Push headers", async () => {
+    respond(201, "https://push.example.com/message/1");
+    const userAgent = createUserAgent();
+
+    const result = await new WebPushAdapter().send({
+      subscription: userAgent.subscription,
+      payload: { title: "Handoff", body: "Soon" },
+      ttlSeconds: 600,
+      urgency: "high",
+    });
+
+    expect(result).toEqual({ success: true, messageId: "https://push.example.com/message/1", statusCode: 201 });
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe(userAgent.subscription.endpoint);
+    expect(init.headers).toMatchObject({ "Content-Encoding": "aes128gcm", TTL: "600", Urgency: "high" });
+    expect(init.headers.Authorization).toMatch(/^vapid t=.+, k=/);
+    expect(JSON.parse(decrypt(Buffer.from(init.body), userAgent).toString())).toEqual({
+      title: "Handoff",
+      body: "Soon",
+    });
+  });
+
+  it.each([404, 410])("marks the subscription expired on %i", async (status) => {
+    respond(status);
+
+    const result = await new WebPushAdapter().send({
+      subscription: createUserAgent().subscription,
+      payload: { title: "Handoff", body: "Soon" },
+    });
+
+    expect(result).toMatchObject({ success: false, statusCode: status, expired: true });
+  });
+
+  it("does not treat push service errors as expiry", async () => {
+    respond(503);
+
+    const result = await new WebPushAdapter().send({
+      subscription: createUserAgent().subscription,
+      payload: { title: "Handoff", body: "Soon" },
+    });
+
+    expect(result).toMatchObject({ success: false, statusCode: 503, expired: false });
+  });
+
+  it("refuses to send without a VAPID key pair", async () => {
+    delete process.env.VAPID_PRIVATE_KEY;
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    const adapter = new WebPushAdapter();
+
+    expect(await adapter.verifyConfiguration()).toBe(false);
+    expect(
+      await adapter.send({ subscription: createUserAgent().subscription, payload: { title: "x", body: "y" } })
+    ).toMatchObject({ success: false, errorCode: "NOT_CONFIGURED" });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
+// ─── Delivery ─────────────────────────────────────────────────────────────────
+
+describe("NotificationDeliveryService push delivery", () => {
+  let uow: MemoryUnitOfWork;
+
+  async function seed(phone?: string) {
+    const now = "2025-01-01T00:00:00.000Z";
+    uow.store.table<DbFamily>("families").insert({
+      id: "fam-1",
+      name: "Rivera",
+      custodyAnchorDate: "2025-01-06",
+      scheduleId: "2-2-3",
+      timezone: "UTC",
+      createdAt: now,
+      updatedAt: now,
+    });
+    uow.store.table<DbParent>("parents").insert({
+      id: "parent-sam",
+      userId: "user-sam",
+      familyId: "fam-1",
+      name: "Sam",
+      email: "sam@example.com",
+      phone,
+      role: "secondary",
+      createdAt: now,
+    });
+    return uow.scheduledNotifications.create({
+      familyId: "fam-1",
+      parentId: "parent-sam",
+      notificationType: "transition_24h",
+      scheduledAt: "2025-01-15T14:00:00.000Z",
+      deliveryMethod: "sms",
+      deliveryStatus: "pending",
+      transitionAt: "2025-01-16T14:00:00.000Z",
+      fromParentId: "parent-alex",
+      toParentId: "parent-sam",
+      retryCount: 0,
+    });
+  }
+
+  function subscribe(endpoint: string) {
+    return uow.pushSubscriptions.upsert({ parentId: "parent-sam", endpoint, p256dh: "key", auth: "secret" });
+  }
+
+  function deliver(notificationId: string) {
+    return new NotificationDeliveryService().deliverNotification({
+      notificationId,
+      parentId: "parent-sam",
+      notificationType: "transition_24h",
+      deliveryMethod: "sms",
+      transitionAt: "2025-01-16T14:00:00.000Z",
+      fromParentName: "Alex",
+      toParentName: "Sam",
+    });
+  }
+
+  beforeEach(async () => {
+    jest.useFakeTimers().setSystemTime(new Date("2025-01-15T14:00:00Z"));
+    mockPushSend.mockReset().mockResolvedValue({ success: true, messageId: "push-1" });
+    mockSmsSend.mockReset().mockResolvedValue({ success: true, messageId: "sms-1" });
+    mockEmailSend.mockReset().mockResolvedValue({ success: true, messageId: "email-1" });
+    uow = createMemoryUnitOfWork();
+    await initDb(uow);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    _test_resetDbInstance();
+  });
+
+  it("sends SMS alerts by push to parents who keep their phone number private", async () => {
+    const notification = await seed();
+    const subscription = await subscribe("https://push.example.com/a");
+
+    const result = await deliver(notification.id);
+
+    expect(result).toMatchObject({ success: true, messageId: "push-1", deliveryMethod: "push" });
+    expect(mockSmsSend).not.toHaveBeenCalled();
+    expect(mockPushSend).toHaveBeenCalledWith(
+      expect.objectContaining({
+        subscription: { endpoint: subscription.endpoint, keys: { p256dh: "key", auth: "secret" } },
+        payload: expect.objectContaining({ title: "Custody Transition Reminder - Tomorrow" }),
+      })
+    );
+    expect((await uow.pushSubscriptions.findByEndpoint(subscription.endpoint))?.lastUsedAt).toBeDefined();
+    expect(await uow.scheduledNotifications.findById(notification.id)).toMatchObject({
+      deliveryStatus: "sent",
+      deliveryMethod: "push",
+    });
+  });
+
+  it("removes expired subscriptions and falls back to email", async () => {
+    const notification = await seed();
+    await subscribe("https://push.example.com/gone");
+    mockPushSend.mockResolvedValue({ success: false, statusCode: 410, error: "Push service error: 410", expired: true });
+
+    const result = await deliver(notification.id);
+
+    expect(result).toMatchObject({ success: true, deliveryMethod: "email" });
+    expect(await uow.pushSubscriptions.findByParentId("parent-sam")).toEqual([]);
+  });
+
+  it("leaves the notification failed for the retry backoff when the push service is down", async () => {
+    const notification = await seed("+15555550100");
+    await subscribe("https://push.example.com/a");
+    await uow.notificationPreferences.upsert({
+      parentId: "parent-sam",
+      familyId: "fam-1",
+      types: { transition_24h: { enabled: true, channels: ["push"], leadMinutes: 1440 } },
+    });
+    mockPushSend.mockResolvedValue({ success: false, statusCode: 503, error: "Push service error: 503" });
+
+    const result = await deliver(notification.id);
+
+    expect(result).toMatchObject({ success: false, retryable: true, deliveryMethod: "push" });
+    expect(await uow.pushSubscriptions.findByParentId("parent-sam")).toHaveLength(1);
+    expect(await uow.scheduledNotifications.findFailedForRetry()).toEqual([
+      expect.objectContaining({ id: notification.id, deliveryStatus: "failed" }),
+    ]);
+  });
+});
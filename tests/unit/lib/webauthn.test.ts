@@ -0,0 +1,383 @@
+/**
+ * WebAuthn Tests
+ *
+ * Drives registration and authentication ceremonies with a software
+ * authenticator (node:crypto P-256 and Ed25519 keys, hand-built CBOR) and
+ * checks origin, challenge, RP ID, user-presence, signature and counter
+ * verification.
+ */
+
+import { createHash, generateKeyPairSync, sign, type KeyObject } from "crypto";
+import {
+  buildAuthenticationOptions,
+  buildRegistrationOptions,
+  decodeCbor,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationCredentialJSON,
+  type RegistrationCredentialJSON,
+  type WebAuthnRelyingParty,
+} from "@/lib/auth/webauthn";
+
+const RP: WebAuthnRelyingParty = {
+  rpId: "kidschedule.test",
+  rpName: "KidSchedule",
+  origins: ["https://kidschedule.test"],
+};
+const CHALLENGE = Buffer.from("registration-challenge-0123456789").toString("base64url");
+
+const FLAG_UP = 0x01;
+const FLAG_AT = 0x40;
+
+// ─── Minimal CBOR Encoder ─────────────────────────────────────────────────────
+
+type Encodable = number | string | Buffer | Map<Encodable, Encodable>;
+
+function cborHead(major: number, length: number): Buffer {
+  if (length < 24) return Buffer.from([(major << 5) | length]);
+  if (length < 256) return Buffer.from([(major << 5) | 24, length]);
+  const head = Buffer.alloc(3);
+  head[0] = (major << 5) | 25;
+  head.writeUInt16BE(length, 1);
+  return head;
+}
+
+function cbor(value: Encodable): Buffer {
+  if (typeof value === "number") {
+    return value >= 0 ? cborHead(0, value) : cborHead(1, -1 - value);
+  }
+  if (typeof value === "string") {
+    const bytes = Buffer.from(value, "utf8");
+    return Buffer.concat([cborHead(3, bytes.length), bytes]);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([cborHead(2, value.length), value]);
+  }
+  const parts = [cborHead(5, value.size)];
+  for (const [key, entry] of value) {
+    parts.push(cbor(key), cbor(entry));
+  }
+  return Buffer.concat(parts);
+}
+
+// ─── Software Authenticator ───────────────────────────────────────────────────
+
+interface SoftwareAuthenticator {
+  credentialId: Buffer;
+  privateKey: KeyObject;
+  coseKey: Map<Encodable, Encodable>;
+  algorithm: "es256" | "ed25519";
+}
+
+function createAuthenticator(algorithm: "es256" | "ed25519" = "es256"): SoftwareAuthenticator {
+  const credentialId = Buffer.from(`credential-${algorithm}-${Math.random()}`);
+  if (algorithm === "ed25519") {
+    const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+    const jwk = publicKey.export({ format: "jwk" });
+    const coseKey = new Map<Encodable, Encodable>([
+      [1, 1],
+      [3, -8],
+      [-1, 6],
+      [-2, Buffer.from(jwk.x!, "base64url")],
+    ]);
+    return { credentialId, privateKey, coseKey, algorithm };
+  }
+  const { privateKey, publicKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+  const jwk = publicKey.export({ format: "jwk" });
+  const coseKey = new Map<Encodable, Encodable>([
+    [1, 2],
+    [3, -7],
+    [-1, 1],
+    [-2, Buffer.from(jwk.x!, "base64url")],
+    [-3, Buffer.from(jwk.y!, "base64url")],
+  ]);
+  return { credentialId, privateKey, coseKey, algorithm };
+}
+
+function authenticatorData(rpId: string, flags: number, signCount: number, attested?: SoftwareAuthenticator): Buffer {
+  const header = Buffer.alloc(37);
+  createHash("sha256").update(rpId).digest().copy(header, 0);
+  header[32] = flags;
+  header.writeUInt32BE(signCount, 33);
+  if (!attested) return header;
+
+  const idLength = Buffer.alloc(2);
+  idLength.writeUInt16BE(attested.credentialId.length);
+  return Buffer.concat([header, Buffer.alloc(16), idLength, attested.credentialId, cbor(attested.coseKey)]);
+}
+
+function clientData(type: string, challenge: string, origin = RP.origins[0]): Buffer {
+  return Buffer.from(JSON.stringify({ type, challenge, origin, crossOrigin: false }));
+}
+
+function register(
+  authenticator: SoftwareAuthenticator,
+  overrides: { origin?: string; challenge?: string; rpId?: string; flags?: number } = {}
+): RegistrationCredentialJSON {
+  const authData = authenticatorData(
+    overrides.rpId ?? RP.rpId,
+    overrides.flags ?? FLAG_UP | FLAG_AT,
+    0,
+    authenticator
+  );
+  const attestationObject = cbor(
+    new Map<Encodable, Encodable>([
+      ["fmt", "none"],
+      ["attStmt", new Map()],
+      ["authData", authData],
+    ])
+  );
+  const id = authenticator.credentialId.toString("base64url");
+  return {
+    id,
+    rawId: id,
+    type: "public-key",
+    response: {
+      clientDataJSON: clientData("webauthn.create", overrides.challenge ?? CHALLENGE, overrides.origin).toString(
+        "base64url"
+      ),
+      attestationObject: attestationObject.toString("base64url"),
+      transports: ["internal"],
+    },
+  };
+}
+
+function assert(
+  authenticator: SoftwareAuthenticator,
+  challenge: string,
+  signCount: number,
+  overrides: { origin?: string; flags?: number } = {}
+): AuthenticationCredentialJSON {
+  const authData = authenticatorData(RP.rpId, overrides.flags ?? FLAG_UP, signCount);
+  const clientDataJSON = clientData("webauthn.get", challenge, overrides.origin);
+  const signedData = Buffer.concat([authData, createHash("sha256").update(clientDataJSON).digest()]);
+  const signature = sign(
+    authenticator.algorithm === "ed25519" ? null : "sha256",
+    signedData,
+    authenticator.privateKey
+  );
+  const id = authenticator.credentialId.toString("base64url");
+  return {
+    id,
+    rawId: id,
+    type: "public-key",
+    response: {
+      clientDataJSON: clientDataJSON.toString("base64url"),
+      authenticatorData: authData.toString("base64url"),
+      signature: signature.toString("base64url"),
+    },
+  };
+}
+
+function registeredKey(authenticator: SoftwareAuthenticator): string {
+  const result = verifyRegistrationResponse({ credential: register(authenticator), expectedChallenge: CHALLENGE, rp: RP });
+  if (!result.success) throw new Error(result.error);
+  return result.publicKey;
+}
+
+// ─── CBOR ─────────────────────────────────────────────────────────────────────
+
+describe("decodeCbor", () => {
+  it("decodes maps with integer, negative, text and byte string values", () => {
+    const encoded = cbor(
+      new Map<Encodable, Encodable>([
+        [1, 2],
+        [-1, 300],
+        ["name", "kid"],
+        ["bytes", Buffer.from([1, 2, 3])],
+      ])
+    );
+    const { value, offset } = decodeCbor(encoded, 0);
+
+    expect(offset).toBe(encoded.length);
+    expect(value).toBeInstanceOf(Map);
+    const map = value as Map<unknown, unknown>;
+    expect(map.get(1)).toBe(2);
+    expect(map.get(-1)).toBe(300);
+    expect(map.get("name")).toBe("kid");
+    expect(map.get("bytes")).toEqual(Buffer.from([1, 2, 3]));
+  });
+});
+
+// ─── Options ──────────────────────────────────────────────────────────────────
+
+describe("ceremony options", () => {
+  it("builds registration options excluding existing credentials", () => {
+    const options = buildRegistrationOptions({
+      rp: RP,
+      challenge: CHALLENGE,
+      userId: "user-1",
+      userName: "alex@example.com",
+      displayName: "Alex",
+      excludeCredentials: [{ id: "existing", transports: ["usb"] }],
+    });
+
+    expect(options.rp).toEqual({ id: RP.rpId, name: RP.rpName });
+    expect(Buffer.from(options.user.id, "base64url").toString()).toBe("user-1");
+    expect(options.pubKeyCredParams.map((p) => p.alg)).toEqual(expect.arrayContaining([-7, -8, -257]));
+    expect(options.excludeCredentials).toEqual([{ type: "public-key", id: "existing", transports: ["usb"] }]);
+    expect(options.attestation).toBe("none");
+  });
+
+  it("builds authentication options for the user's credentials", () => {
+    const options = buildAuthenticationOptions({
+      rp: RP,
+      challenge: CHALLENGE,
+      allowCredentials: [{ id: "cred-1" }],
+    });
+
+    expect(options.rpId).toBe(RP.rpId);
+    expect(options.allowCredentials).toEqual([{ type: "public-key", id: "cred-1" }]);
+  });
+});
+
+// ─── Registration ─────────────────────────────────────────────────────────────
+
+describe("verifyRegistrationResponse", () => {
+  it("accepts a P-256 credential and returns its SPKI key", () => {
+    const authenticator = createAuthenticator();
+    const result = verifyRegistrationResponse({ credential: register(authenticator), expectedChallenge: CHALLENGE, rp: RP });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.credentialId).toBe(authenticator.credentialId.toString("base64url"));
+    expect(result.signCount).toBe(0);
+    expect(result.transports).toEqual(["internal"]);
+    expect(result.publicKey.length).toBeGreaterThan(0);
+  });
+
+  it("accepts an Ed25519 credential", () => {
+    const result = verifyRegistrationResponse({
+      credential: register(createAuthenticator("ed25519")),
+      expectedChallenge: CHALLENGE,
+      rp: RP,
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it.each([
+    ["origin_mismatch", { origin: "https://evil.test" }],
+    ["challenge_mismatch", { challenge: "other-challenge" }],
+    ["rp_id_mismatch", { rpId: "evil.test" }],
+    ["user_not_present", { flags: FLAG_AT }],
+  ])("rejects with %s", (error, overrides) => {
+    const result = verifyRegistrationResponse({
+      credential: register(createAuthenticator(), overrides),
+      expectedChallenge: CHALLENGE,
+      rp: RP,
+    });
+
+    expect(result).toEqual({ success: false, error });
+  });
+
+  it("rejects a rawId that does not match the attested credential", () => {
+    const credential = register(createAuthenticator());
+    credential.rawId = Buffer.from("someone-else").toString("base64url");
+
+    const result = verifyRegistrationResponse({ credential, expectedChallenge: CHALLENGE, rp: RP });
+    expect(result).toEqual({ success: false, error: "credential_id_mismatch" });
+  });
+});
+
+// ─── Authentication ───────────────────────────────────────────────────────────
+
+describe("verifyAuthenticationResponse", () => {
+  const challenge = Buffer.from("login-challenge-0123456789").toString("base64url");
+
+  it.each(["es256", "ed25519"] as const)("accepts a valid %s assertion with an advancing counter", (algorithm) => {
+    const authenticator = createAuthenticator(algorithm);
+    const publicKey = registeredKey(authenticator);
+
+    const result = verifyAuthenticationResponse({
+      credential: assert(authenticator, challenge, 5),
+      expectedChallenge: challenge,
+      rp: RP,
+      publicKey,
+      storedSignCount: 4,
+    });
+
+    expect(result).toEqual({ success: true, signCount: 5 });
+  });
+
+  it("accepts authenticators that never count", () => {
+    const authenticator = createAuthenticator();
+    const result = verifyAuthenticationResponse({
+      credential: assert(authenticator, challenge, 0),
+      expectedChallenge: challenge,
+      rp: RP,
+      publicKey: registeredKey(authenticator),
+      storedSignCount: 0,
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects a counter that did not advance", () => {
+    const authenticator = createAuthenticator();
+    const result = verifyAuthenticationResponse({
+      credential: assert(authenticator, challenge, 3),
+      expectedChallenge: challenge,
+      rp: RP,
+      publicKey: registeredKey(authenticator),
+      storedSignCount: 3,
+    });
+
+    expect(result).toEqual({ success: false, error: "sign_count_regressed" });
+  });
+
+  it("rejects a signature from a different key", () => {
+    const result = verifyAuthenticationResponse({
+      credential: assert(createAuthenticator(), challenge, 1),
+      expectedChallenge: challenge,
+      rp: RP,
+      publicKey: registeredKey(createAuthenticator()),
+      storedSignCount: 0,
+    });
+
+    expect(result).toEqual({ success: false, error: "invalid_signature" });
+  });
+
+  it("rejects assertions for another challenge or origin", () => {
+    const authenticator = createAuthenticator();
+    const publicKey = registeredKey(authenticator);
+
+    expect(
+      verifyAuthenticationResponse({
+        credential: assert(authenticator, "stale-challenge", 1),
+        expectedChallenge: challenge,
+        rp: RP,
+        publicKey,
+        storedSignCount: 0,
+      })
+    ).toEqual({ success: false, error: "challenge_mismatch" });
+
+    expect(
+      verifyAuthenticationResponse({
+        credential: assert(authenticator, challenge, 1, { origin: "https://evil.test" }),
+        expectedChallenge: challenge,
+        rp: RP,
+        publicKey,
+        storedSignCount: 0,
+      })
+    ).toEqual({ success: false, error: "origin_mismatch" });
+  });
+
+  it("rejects a tampered authenticator data counter", () => {
+    const authenticator = createAuthenticator();
+    const credential = assert(authenticator, challenge, 1);
+    const authData = Buffer.from(credential.response.authenticatorData, "base64url");
+    authData.writeUInt32BE(99, 33);
+    credential.response.authenticatorData = authData.toString("base64url");
+
+    const result = verifyAuthenticationResponse({
+      credential,
+      expectedChallenge: challenge,
+      rp: RP,
+      publicKey: registeredKey(authenticator),
+      storedSignCount: 0,
+    });
+
+    expect(result).toEqual({ success: false, error: "invalid_signature" });
+  });
+});